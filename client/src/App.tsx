@@ -6,6 +6,7 @@ import ProtectedRoute from './components/auth/ProtectedRoute';
 import Home from './pages/Home';
 import Items from './pages/Items';
 import ItemDetail from './pages/ItemDetail';
+import RenewListing from './pages/RenewListing';
 import PostItem from './pages/PostItem';
 import Exchanges from './pages/Exchanges';
 import Dashboard from './pages/Dashboard';
@@ -13,7 +14,12 @@ import Login from './pages/Login';
 import Register from './pages/Register';
 import Profile from './pages/Profile';
 import Auth0Callback from './pages/Auth0Callback';
+import VerifyEmail from './pages/VerifyEmail';
+import ForgotPassword from './pages/ForgotPassword';
+import ResetPassword from './pages/ResetPassword';
+import ChangePassword from './pages/ChangePassword';
 import Points from './pages/Points';
+import Wanted from './pages/Wanted';
 
 function App() {
   return (
@@ -25,9 +31,13 @@ function App() {
               <Route index element={<Home />} />
               <Route path="items" element={<Items />} />
               <Route path="items/:id" element={<ItemDetail />} />
+              <Route path="items/:id/renew" element={<RenewListing />} />
               <Route path="login" element={<Login />} />
               <Route path="register" element={<Register />} />
               <Route path="callback" element={<Auth0Callback />} />
+              <Route path="verify-email" element={<VerifyEmail />} />
+              <Route path="forgot-password" element={<ForgotPassword />} />
+              <Route path="reset-password" element={<ResetPassword />} />
             
             {/* Protected Routes */}
             <Route
@@ -46,6 +56,14 @@ function App() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="wanted"
+              element={
+                <ProtectedRoute>
+                  <Wanted />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="dashboard"
               element={
@@ -54,6 +72,14 @@ function App() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="change-password"
+              element={
+                <ProtectedRoute>
+                  <ChangePassword />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="profile"
               element={
@@ -0,0 +1,66 @@
+interface PasswordFieldsProps {
+  password: string;
+  confirmation: string;
+  onPasswordChange: (value: string) => void;
+  onConfirmationChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+// Mirrors the server's policy so most problems show up before submitting
+export const PASSWORD_HINT = 'At least 10 characters, mixing letters with numbers or symbols.';
+
+export function passwordProblem(password: string, confirmation: string): string | null {
+  if (password.length < 10) return 'Password must be at least 10 characters';
+  if (!/\p{L}/u.test(password) || !/[^\p{L}]/u.test(password)) {
+    return 'Password must mix letters with numbers or symbols';
+  }
+  if (password !== confirmation) return 'Passwords do not match';
+  return null;
+}
+
+export default function PasswordFields({
+  password,
+  confirmation,
+  onPasswordChange,
+  onConfirmationChange,
+  disabled,
+}: PasswordFieldsProps) {
+  const inputClass =
+    'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+  return (
+    <>
+      <div>
+        <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700 mb-2">
+          New Password
+        </label>
+        <input
+          id="newPassword"
+          type="password"
+          autoComplete="new-password"
+          required
+          value={password}
+          onChange={(e) => onPasswordChange(e.target.value)}
+          disabled={disabled}
+          className={inputClass}
+        />
+        <p className="mt-1 text-xs text-gray-500">{PASSWORD_HINT}</p>
+      </div>
+      <div>
+        <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-2">
+          Confirm New Password
+        </label>
+        <input
+          id="confirmPassword"
+          type="password"
+          autoComplete="new-password"
+          required
+          value={confirmation}
+          onChange={(e) => onConfirmationChange(e.target.value)}
+          disabled={disabled}
+          className={inputClass}
+        />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,35 @@
+export interface ItemImage {
+  thumbnail: string;
+  medium: string;
+  full: string;
+  widths?: { thumbnail: number; medium: number; full: number };
+}
+
+interface ItemPhotoProps {
+  image?: ItemImage;
+  alt: string;
+  className?: string;
+  sizes?: string; // How wide the photo is laid out, so the browser picks a variant
+}
+
+export default function ItemPhoto({ image, alt, className, sizes = '100vw' }: ItemPhotoProps) {
+  if (!image) {
+    return <img src="/placeholder-image.png" alt={alt} className={className} />;
+  }
+
+  // Older listings have a single file with no known widths
+  const srcSet = image.widths
+    ? `${image.thumbnail} ${image.widths.thumbnail}w, ${image.medium} ${image.widths.medium}w, ${image.full} ${image.widths.full}w`
+    : undefined;
+
+  return (
+    <img
+      src={image.medium}
+      srcSet={srcSet}
+      sizes={srcSet ? sizes : undefined}
+      alt={alt}
+      className={className}
+      loading="lazy"
+    />
+  );
+}
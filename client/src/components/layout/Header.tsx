@@ -30,6 +30,9 @@ export default function Header() {
                 <Link to="/post-item" className="text-gray-700 hover:text-primary-600 transition-colors">
                   Post Item
                 </Link>
+                <Link to="/wanted" className="text-gray-700 hover:text-primary-600 transition-colors">
+                  Wanted
+                </Link>
                 <Link to="/exchanges" className="text-gray-700 hover:text-primary-600 transition-colors">
                   My Exchanges
                 </Link>
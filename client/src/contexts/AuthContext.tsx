@@ -25,6 +25,7 @@ interface AuthContextType {
   login: (email: string, password: string) => Promise<void>;
   register: (data: RegisterData) => Promise<void>;
   logout: () => Promise<void>;
+  logoutAllDevices: () => Promise<void>;
   updateProfile: (data: Partial<User>) => Promise<void>;
   refreshUser: () => Promise<void>;
 }
@@ -185,6 +186,27 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const logoutAllDevices = async () => {
+    const token = localStorage.getItem('accessToken');
+    const response = await fetch(`${API_URL}/auth/logout-all`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error?.message || 'Failed to sign out of all devices');
+    }
+
+    // This session was revoked along with the others
+    localStorage.removeItem('accessToken');
+    localStorage.removeItem('refreshToken');
+    setUser(null);
+    navigate('/login');
+  };
+
   const updateProfile = async (data: Partial<User>) => {
     try {
       const token = localStorage.getItem('accessToken');
@@ -227,6 +249,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         login,
         register,
         logout,
+        logoutAllDevices,
         updateProfile,
         refreshUser,
       }}
@@ -0,0 +1,107 @@
+import { useState, type FormEvent } from 'react';
+import { Link } from 'react-router-dom';
+import PasswordFields, { passwordProblem } from '../components/auth/PasswordFields';
+
+const API_URL = import.meta.env.VITE_API_URL || '/api';
+
+export default function ChangePassword() {
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const problem = passwordProblem(password, confirmation);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+    setSuccess('');
+
+    try {
+      const response = await fetch(`${API_URL}/auth/password/change`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('accessToken')}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ currentPassword, newPassword: password }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to change password');
+      }
+
+      setCurrentPassword('');
+      setPassword('');
+      setConfirmation('');
+      setSuccess('Your password has been changed.');
+    } catch (err: any) {
+      setError(err.message || 'Failed to change password');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="max-w-md mx-auto">
+        <h1 className="text-3xl font-bold text-gray-900 mb-6 text-center">Change Password</h1>
+
+        <div className="card">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg">
+                {error}
+              </div>
+            )}
+            {success && (
+              <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg">
+                {success}
+              </div>
+            )}
+            <div>
+              <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700 mb-2">
+                Current Password
+              </label>
+              <input
+                id="currentPassword"
+                type="password"
+                autoComplete="current-password"
+                required
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                disabled={isSubmitting}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </div>
+            <PasswordFields
+              password={password}
+              confirmation={confirmation}
+              onPasswordChange={setPassword}
+              onConfirmationChange={setConfirmation}
+              disabled={isSubmitting}
+            />
+            <button type="submit" disabled={isSubmitting} className="w-full btn-primary disabled:opacity-50">
+              {isSubmitting ? 'Saving...' : 'Change Password'}
+            </button>
+          </form>
+
+          <div className="mt-6 text-center">
+            <Link to="/profile" className="text-sm text-primary-600 hover:text-primary-700 font-medium">
+              Back to profile
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,28 @@
 import { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import ItemPhoto, { type ItemImage } from '../components/items/ItemPhoto';
 
 const API_URL = import.meta.env.VITE_API_URL || '/api';
+
+interface PickupSlot {
+  id: string;
+  startsAt: string;
+  endsAt: string;
+  proposedBy: string;
+  proposedAt: string;
+}
 
 interface Exchange {
   id: string;
   itemId: string;
   giverId: string;
   receiverId: string;
-  status: 'requested' | 'accepted' | 'completed' | 'cancelled';
+  status: 'requested' | 'accepted' | 'completed' | 'cancelled' | 'disputed';
+  quantity: number;
   scheduledPickup?: string;
+  scheduledPickupEnd?: string;
+  pickupSlots?: PickupSlot[];
   completedAt?: string;
   giverConfirmedAt?: string;
   receiverConfirmedAt?: string;
@@ -31,7 +43,7 @@ interface ExchangeWithDetails extends Exchange {
   item?: {
     id: string;
     title: string;
-    images: string[];
+    images: ItemImage[];
     category: string;
   };
   giver?: {
@@ -48,31 +60,175 @@ interface ExchangeWithDetails extends Exchange {
   };
 }
 
+interface HandoffCode {
+  code: string;
+  expiresAt: string;
+  qrPayload: string;
+}
+
+interface ExchangeMessage {
+  id: string;
+  exchangeId: string;
+  senderId: string;
+  body: string;
+  readAt?: string;
+  createdAt: string;
+}
+
+type DisputeReason = 'no_show' | 'not_as_described' | 'unsafe_behaviour';
+
 type TabType = 'active' | 'history' | 'unrated';
 
 export default function Exchanges() {
   const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [activeTab, setActiveTab] = useState<TabType>('active');
   const [exchanges, setExchanges] = useState<ExchangeWithDetails[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [selectedExchange, setSelectedExchange] = useState<ExchangeWithDetails | null>(null);
   const [showAcceptModal, setShowAcceptModal] = useState(false);
   const [showCompleteModal, setShowCompleteModal] = useState(false);
   const [showRatingModal, setShowRatingModal] = useState(false);
   const [showCancelModal, setShowCancelModal] = useState(false);
   const [scheduledPickup, setScheduledPickup] = useState('');
+  const [showSlotsModal, setShowSlotsModal] = useState(false);
+  const [slotDrafts, setSlotDrafts] = useState<Array<{ startsAt: string; endsAt: string }>>([{ startsAt: '', endsAt: '' }]);
+  const [showHandoffCodeModal, setShowHandoffCodeModal] = useState(false);
+  const [handoffCode, setHandoffCode] = useState<HandoffCode | null>(null);
+  const [showEnterCodeModal, setShowEnterCodeModal] = useState(false);
+  const [enteredCode, setEnteredCode] = useState('');
   const [rating, setRating] = useState(5);
   const [review, setReview] = useState('');
   const [cancelReason, setCancelReason] = useState('');
+  const [showReportModal, setShowReportModal] = useState(false);
+  const [reportReason, setReportReason] = useState<DisputeReason>('no_show');
+  const [reportDescription, setReportDescription] = useState('');
+  const [reportFiles, setReportFiles] = useState<File[]>([]);
   const [submitting, setSubmitting] = useState(false);
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const [showMessagesPanel, setShowMessagesPanel] = useState(false);
+  const [messages, setMessages] = useState<ExchangeMessage[]>([]);
+  const [messagesLoading, setMessagesLoading] = useState(false);
+  const [newMessage, setNewMessage] = useState('');
+  const [sendingMessage, setSendingMessage] = useState(false);
 
   useEffect(() => {
     fetchExchanges();
+    fetchUnreadCounts();
   }, [activeTab]);
 
-  const fetchExchanges = async () => {
-    setLoading(true);
+  // Scanning the giver's QR code opens this page with the code filled in
+  useEffect(() => {
+    const handoffExchangeId = searchParams.get('handoff');
+    if (!handoffExchangeId) return;
+
+    const exchange = exchanges.find((candidate) => candidate.id === handoffExchangeId);
+    if (!exchange) return;
+
+    if (isReceiver(exchange) && exchange.status === 'accepted') {
+      setSelectedExchange(exchange);
+      setEnteredCode(searchParams.get('code') || '');
+      setShowEnterCodeModal(true);
+    }
+    setSearchParams({}, { replace: true });
+  }, [exchanges, searchParams]);
+
+  const fetchUnreadCounts = async () => {
+    try {
+      const token = localStorage.getItem('accessToken');
+      const response = await fetch(`${API_URL}/exchanges/messages/unread`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setUnreadCounts(data.data.byExchange || {});
+      }
+    } catch (err) {
+      console.error('Failed to fetch unread message counts:', err);
+    }
+  };
+
+  const fetchMessages = async (exchangeId: string) => {
+    setMessagesLoading(true);
+
+    try {
+      const token = localStorage.getItem('accessToken');
+      const response = await fetch(`${API_URL}/exchanges/${exchangeId}/messages?limit=100`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to load messages');
+      }
+
+      const data = await response.json();
+      setMessages(data.data.messages || []);
+      setUnreadCounts((counts) => ({ ...counts, [exchangeId]: 0 }));
+    } catch (err: any) {
+      alert(err.message || 'Failed to load messages');
+    } finally {
+      setMessagesLoading(false);
+    }
+  };
+
+  const openMessagesPanel = (exchange: ExchangeWithDetails) => {
+    setSelectedExchange(exchange);
+    setMessages([]);
+    setShowMessagesPanel(true);
+    fetchMessages(exchange.id);
+  };
+
+  const closeMessagesPanel = () => {
+    setShowMessagesPanel(false);
+    setNewMessage('');
+    setSelectedExchange(null);
+  };
+
+  const handleSendMessage = async () => {
+    if (!selectedExchange || !newMessage.trim()) return;
+
+    setSendingMessage(true);
+
+    try {
+      const token = localStorage.getItem('accessToken');
+      const response = await fetch(`${API_URL}/exchanges/${selectedExchange.id}/messages`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ body: newMessage.trim() }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message || 'Failed to send message');
+      }
+
+      setNewMessage('');
+      await fetchMessages(selectedExchange.id);
+    } catch (err: any) {
+      alert(err.message || 'Failed to send message');
+    } finally {
+      setSendingMessage(false);
+    }
+  };
+
+  // Without a cursor the list is reloaded; with one the next page of history is appended
+  const fetchExchanges = async (cursor?: string) => {
+    if (cursor) {
+      setLoadingMore(true);
+    } else {
+      setLoading(true);
+    }
     setError(null);
 
     try {
@@ -84,7 +240,7 @@ export default function Exchanges() {
           endpoint = '/exchanges/active';
           break;
         case 'history':
-          endpoint = '/exchanges/history';
+          endpoint = `/exchanges/history?limit=20${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`;
           break;
         case 'unrated':
           endpoint = '/exchanges/unrated';
@@ -161,11 +317,13 @@ export default function Exchanges() {
         })
       );
 
-      setExchanges(exchangesWithDetails);
+      setExchanges(prev => cursor ? [...prev, ...exchangesWithDetails] : exchangesWithDetails);
+      setNextCursor(data.data.nextCursor ?? null);
     } catch (err: any) {
       setError(err.message || 'Failed to load exchanges');
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
   };
 
@@ -240,11 +398,7 @@ export default function Exchanges() {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          ecoPointsAwarded: 10, // Default points
-        }),
       });
 
       if (!response.ok) {
@@ -302,6 +456,67 @@ export default function Exchanges() {
     }
   };
 
+  const closeReportModal = () => {
+    setShowReportModal(false);
+    setReportReason('no_show');
+    setReportDescription('');
+    setReportFiles([]);
+    setSelectedExchange(null);
+  };
+
+  const handleReportProblem = async () => {
+    if (!selectedExchange) return;
+
+    setSubmitting(true);
+    try {
+      const token = localStorage.getItem('accessToken');
+      const response = await fetch(`${API_URL}/disputes`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          exchangeId: selectedExchange.id,
+          reason: reportReason,
+          description: reportDescription,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message || 'Failed to report problem');
+      }
+
+      if (reportFiles.length > 0) {
+        const result = await response.json();
+        const formData = new FormData();
+        reportFiles.forEach(file => formData.append('files', file));
+
+        const evidenceResponse = await fetch(`${API_URL}/disputes/${result.data.id}/evidence`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+          },
+          body: formData,
+        });
+
+        if (!evidenceResponse.ok) {
+          const errorData = await evidenceResponse.json();
+          throw new Error(errorData.error?.message || 'Your report was sent, but the evidence could not be uploaded');
+        }
+      }
+
+      closeReportModal();
+      fetchExchanges();
+      alert('Thanks for letting us know. Our team will review your report.');
+    } catch (err: any) {
+      alert(err.message || 'Failed to report problem');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   const handleCancelExchange = async () => {
     if (!selectedExchange) return;
 
@@ -336,6 +551,172 @@ export default function Exchanges() {
     }
   };
 
+  const fetchHandoffCode = async (exchange: ExchangeWithDetails, regenerate = false) => {
+    setSubmitting(true);
+    try {
+      const token = localStorage.getItem('accessToken');
+      const response = await fetch(`${API_URL}/exchanges/${exchange.id}/handoff-code`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ regenerate }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message || 'Failed to get handoff code');
+      }
+
+      const data = await response.json();
+      setSelectedExchange(exchange);
+      setHandoffCode(data.data);
+      setShowHandoffCodeModal(true);
+    } catch (err: any) {
+      alert(err.message || 'Failed to get handoff code');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const closeHandoffCodeModal = () => {
+    setShowHandoffCodeModal(false);
+    setHandoffCode(null);
+    setSelectedExchange(null);
+  };
+
+  const handleConfirmHandoffCode = async () => {
+    if (!selectedExchange) return;
+
+    setSubmitting(true);
+    try {
+      const token = localStorage.getItem('accessToken');
+      const response = await fetch(`${API_URL}/exchanges/${selectedExchange.id}/handoff-code/confirm`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ code: enteredCode.trim() }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message || 'Failed to confirm handoff');
+      }
+
+      setShowEnterCodeModal(false);
+      setEnteredCode('');
+      setSelectedExchange(null);
+      fetchExchanges();
+      alert('Handoff confirmed! The exchange is complete.');
+    } catch (err: any) {
+      alert(err.message || 'Failed to confirm handoff');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const closeSlotsModal = () => {
+    setShowSlotsModal(false);
+    setSlotDrafts([{ startsAt: '', endsAt: '' }]);
+    setSelectedExchange(null);
+  };
+
+  const updateSlotDraft = (index: number, field: 'startsAt' | 'endsAt', value: string) => {
+    setSlotDrafts(drafts => drafts.map((draft, i) => (i === index ? { ...draft, [field]: value } : draft)));
+  };
+
+  const handleProposeSlots = async () => {
+    if (!selectedExchange) return;
+
+    const slots = slotDrafts
+      .filter(draft => draft.startsAt && draft.endsAt)
+      .map(draft => ({
+        startsAt: new Date(draft.startsAt).toISOString(),
+        endsAt: new Date(draft.endsAt).toISOString(),
+      }));
+    if (slots.length === 0) {
+      alert('Add at least one time slot');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const token = localStorage.getItem('accessToken');
+      const response = await fetch(`${API_URL}/exchanges/${selectedExchange.id}/pickup-slots`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ slots }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message || 'Failed to propose pickup times');
+      }
+
+      closeSlotsModal();
+      fetchExchanges();
+      alert('Pickup times sent to the other participant.');
+    } catch (err: any) {
+      alert(err.message || 'Failed to propose pickup times');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleChooseSlot = async (exchange: Exchange, slot: PickupSlot) => {
+    if (!confirm(`Agree to pick up on ${new Date(slot.startsAt).toLocaleString()}?`)) return;
+
+    try {
+      const token = localStorage.getItem('accessToken');
+      const response = await fetch(`${API_URL}/exchanges/${exchange.id}/pickup-slots/${slot.id}/choose`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message || 'Failed to choose pickup time');
+      }
+
+      fetchExchanges();
+      alert('Pickup time agreed! A calendar invite is on its way.');
+    } catch (err: any) {
+      alert(err.message || 'Failed to choose pickup time');
+    }
+  };
+
+  const handleDownloadInvite = async (exchange: Exchange) => {
+    try {
+      const token = localStorage.getItem('accessToken');
+      const response = await fetch(`${API_URL}/exchanges/${exchange.id}/pickup.ics`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to download calendar invite');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `pickup-${exchange.id}.ics`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      alert(err.message || 'Failed to download calendar invite');
+    }
+  };
+
   const getStatusBadgeColor = (status: string) => {
     switch (status) {
       case 'requested':
@@ -346,6 +727,8 @@ export default function Exchanges() {
         return 'bg-green-100 text-green-800';
       case 'cancelled':
         return 'bg-red-100 text-red-800';
+      case 'disputed':
+        return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -360,10 +743,18 @@ export default function Exchanges() {
   const canComplete = (exchange: Exchange) => 
     (isGiver(exchange) || isReceiver(exchange)) && exchange.status === 'accepted';
 
+  const canArrangePickup = (exchange: Exchange) =>
+    (isGiver(exchange) || isReceiver(exchange)) &&
+    (exchange.status === 'requested' || exchange.status === 'accepted');
+
   const canCancel = (exchange: Exchange) => 
     (isGiver(exchange) || isReceiver(exchange)) && 
     (exchange.status === 'requested' || exchange.status === 'accepted');
 
+  const canReport = (exchange: Exchange) =>
+    (isGiver(exchange) || isReceiver(exchange)) &&
+    (exchange.status === 'accepted' || exchange.status === 'completed');
+
   const renderExchangeCard = (exchange: ExchangeWithDetails) => {
     const otherUser = isGiver(exchange) ? exchange.receiver : exchange.giver;
     const role = isGiver(exchange) ? 'Giving' : 'Receiving';
@@ -374,10 +765,11 @@ export default function Exchanges() {
           {/* Item Image */}
           {exchange.item && (
             <Link to={`/items/${exchange.itemId}`} className="flex-shrink-0">
-              <img
-                src={exchange.item.images[0] || '/placeholder-image.png'}
+              <ItemPhoto
+                image={exchange.item.images[0]}
                 alt={exchange.item.title}
                 className="w-full md:w-32 h-32 object-cover rounded-lg"
+                sizes="(min-width: 768px) 8rem, 100vw"
               />
             </Link>
           )}
@@ -392,6 +784,9 @@ export default function Exchanges() {
                 >
                   {exchange.item?.title || 'Item'}
                 </Link>
+                {exchange.quantity > 1 && (
+                  <span className="ml-2 text-sm text-gray-600">× {exchange.quantity}</span>
+                )}
                 <div className="flex items-center gap-2 mt-1">
                   <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusBadgeColor(exchange.status)}`}>
                     {exchange.status}
@@ -424,9 +819,36 @@ export default function Exchanges() {
               <p className="text-sm text-gray-600 mb-2">
                 <span className="font-medium">Scheduled:</span>{' '}
                 {new Date(exchange.scheduledPickup).toLocaleString()}
+                {exchange.scheduledPickupEnd && ` - ${new Date(exchange.scheduledPickupEnd).toLocaleTimeString()}`}
               </p>
             )}
 
+            {/* Proposed Pickup Slots */}
+            {canArrangePickup(exchange) && exchange.pickupSlots && exchange.pickupSlots.length > 0 && (
+              <div className="text-sm text-gray-600 mb-2">
+                <span className="font-medium">Proposed pickup times:</span>
+                <ul className="mt-1 space-y-1">
+                  {exchange.pickupSlots.map((slot) => (
+                    <li key={slot.id} className="flex items-center gap-2">
+                      <span>
+                        {new Date(slot.startsAt).toLocaleString()} - {new Date(slot.endsAt).toLocaleTimeString()}
+                      </span>
+                      {slot.proposedBy === user?.id ? (
+                        <span className="text-xs text-gray-400">(yours)</span>
+                      ) : (
+                        <button
+                          onClick={() => handleChooseSlot(exchange, slot)}
+                          className="text-xs text-primary-600 hover:text-primary-700 font-medium"
+                        >
+                          Choose
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Handoff Confirmation */}
             {exchange.status === 'accepted' && (
               <div className="text-xs text-gray-600 mb-2">
@@ -501,6 +923,26 @@ export default function Exchanges() {
                   Accept
                 </button>
               )}
+              {exchange.status === 'accepted' && isGiver(exchange) && (
+                <button
+                  onClick={() => fetchHandoffCode(exchange)}
+                  className="btn-primary text-sm py-1 px-3"
+                  disabled={submitting}
+                >
+                  Show Code
+                </button>
+              )}
+              {exchange.status === 'accepted' && isReceiver(exchange) && (
+                <button
+                  onClick={() => {
+                    setSelectedExchange(exchange);
+                    setShowEnterCodeModal(true);
+                  }}
+                  className="btn-primary text-sm py-1 px-3"
+                >
+                  Enter Code
+                </button>
+              )}
               {canComplete(exchange) && (
                 <button
                   onClick={() => {
@@ -523,6 +965,25 @@ export default function Exchanges() {
                   Rate Exchange
                 </button>
               )}
+              {canArrangePickup(exchange) && (
+                <button
+                  onClick={() => {
+                    setSelectedExchange(exchange);
+                    setShowSlotsModal(true);
+                  }}
+                  className="btn-secondary text-sm py-1 px-3"
+                >
+                  Propose Times
+                </button>
+              )}
+              {exchange.status === 'accepted' && exchange.scheduledPickup && (
+                <button
+                  onClick={() => handleDownloadInvite(exchange)}
+                  className="btn-secondary text-sm py-1 px-3"
+                >
+                  Add to Calendar
+                </button>
+              )}
               {canCancel(exchange) && (
                 <button
                   onClick={() => {
@@ -534,6 +995,29 @@ export default function Exchanges() {
                   Cancel
                 </button>
               )}
+              {canReport(exchange) && (
+                <button
+                  onClick={() => {
+                    setSelectedExchange(exchange);
+                    setReportReason(exchange.status === 'accepted' ? 'no_show' : 'not_as_described');
+                    setShowReportModal(true);
+                  }}
+                  className="btn-secondary text-sm py-1 px-3"
+                >
+                  Report a Problem
+                </button>
+              )}
+              <button
+                onClick={() => openMessagesPanel(exchange)}
+                className="btn-secondary text-sm py-1 px-3"
+              >
+                Messages
+                {unreadCounts[exchange.id] > 0 && (
+                  <span className="ml-1 px-1.5 py-0.5 text-xs font-semibold rounded-full bg-primary-600 text-white">
+                    {unreadCounts[exchange.id]}
+                  </span>
+                )}
+              </button>
               <Link
                 to={`/items/${exchange.itemId}`}
                 className="btn-secondary text-sm py-1 px-3"
@@ -616,6 +1100,17 @@ export default function Exchanges() {
       ) : (
         <div className="space-y-4">
           {exchanges.map(renderExchangeCard)}
+          {activeTab === 'history' && nextCursor && (
+            <div className="flex justify-center pt-2">
+              <button
+                className="btn-secondary"
+                disabled={loadingMore}
+                onClick={() => fetchExchanges(nextCursor)}
+              >
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
         </div>
       )}
 
@@ -685,6 +1180,141 @@ export default function Exchanges() {
         </div>
       )}
 
+      {/* Propose Pickup Slots Modal */}
+      {showSlotsModal && selectedExchange && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <h3 className="text-xl font-semibold text-gray-900 mb-4">Propose Pickup Times</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Share the times you're available for "{selectedExchange.item?.title}". The other participant picks one, or proposes their own. New times replace any you proposed before.
+            </p>
+            <div className="space-y-3 mb-4">
+              {slotDrafts.map((draft, index) => (
+                <div key={index} className="grid grid-cols-2 gap-2">
+                  <input
+                    type="datetime-local"
+                    value={draft.startsAt}
+                    onChange={(e) => updateSlotDraft(index, 'startsAt', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  />
+                  <input
+                    type="datetime-local"
+                    value={draft.endsAt}
+                    min={draft.startsAt}
+                    onChange={(e) => updateSlotDraft(index, 'endsAt', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  />
+                </div>
+              ))}
+              {slotDrafts.length < 10 && (
+                <button
+                  type="button"
+                  className="px-3 py-1 text-xs rounded-full border border-gray-300 hover:bg-gray-50"
+                  onClick={() => setSlotDrafts(drafts => [...drafts, { startsAt: '', endsAt: '' }])}
+                >
+                  Add another time
+                </button>
+              )}
+            </div>
+            <div className="flex space-x-3">
+              <button
+                onClick={closeSlotsModal}
+                className="flex-1 btn-secondary"
+                disabled={submitting}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleProposeSlots}
+                className="flex-1 btn-primary"
+                disabled={submitting}
+              >
+                {submitting ? 'Sending...' : 'Send Times'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Handoff Code Modal */}
+      {showHandoffCodeModal && selectedExchange && handoffCode && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <h3 className="text-xl font-semibold text-gray-900 mb-4">Handoff Code</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Show this code to {selectedExchange.receiver?.displayName || 'the receiver'} when you hand over "{selectedExchange.item?.title}". Entering it completes the exchange.
+            </p>
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-4 text-center">
+              <p className="text-4xl font-mono font-bold tracking-widest text-gray-900">{handoffCode.code}</p>
+              <p className="text-xs text-gray-500 mt-2">
+                Valid until {new Date(handoffCode.expiresAt).toLocaleString()}
+              </p>
+            </div>
+            <p className="text-xs text-gray-500 mb-4 break-all">
+              Or share this link: <a href={handoffCode.qrPayload} className="text-primary-600">{handoffCode.qrPayload}</a>
+            </p>
+            <div className="flex space-x-3">
+              <button
+                onClick={() => fetchHandoffCode(selectedExchange, true)}
+                className="flex-1 btn-secondary"
+                disabled={submitting}
+              >
+                New Code
+              </button>
+              <button
+                onClick={closeHandoffCodeModal}
+                className="flex-1 btn-primary"
+                disabled={submitting}
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Enter Handoff Code Modal */}
+      {showEnterCodeModal && selectedExchange && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <h3 className="text-xl font-semibold text-gray-900 mb-4">Enter Handoff Code</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Ask {selectedExchange.giver?.displayName || 'the giver'} for the 6-digit code when you collect "{selectedExchange.item?.title}".
+            </p>
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={enteredCode}
+              onChange={(e) => setEnteredCode(e.target.value.replace(/\D/g, ''))}
+              className="w-full px-3 py-2 mb-4 border border-gray-300 rounded-lg text-center text-2xl font-mono tracking-widest focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              placeholder="000000"
+            />
+            <div className="flex space-x-3">
+              <button
+                onClick={() => {
+                  setShowEnterCodeModal(false);
+                  setEnteredCode('');
+                  setSelectedExchange(null);
+                }}
+                className="flex-1 btn-secondary"
+                disabled={submitting}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmHandoffCode}
+                className="flex-1 btn-primary"
+                disabled={submitting || enteredCode.length !== 6}
+              >
+                {submitting ? 'Confirming...' : 'Confirm Handoff'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Complete Modal */}
       {showCompleteModal && selectedExchange && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -836,6 +1466,151 @@ export default function Exchanges() {
           </div>
         </div>
       )}
+
+      {/* Report Problem Modal */}
+      {showReportModal && selectedExchange && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <h3 className="text-xl font-semibold text-gray-900 mb-4">Report a Problem</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              The exchange will be put on hold while our team reviews your report.
+            </p>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                What went wrong?
+              </label>
+              <select
+                value={reportReason}
+                onChange={(e) => setReportReason(e.target.value as DisputeReason)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              >
+                {selectedExchange.status === 'accepted' && (
+                  <option value="no_show">They didn't show up</option>
+                )}
+                <option value="not_as_described">Item not as described</option>
+                <option value="unsafe_behaviour">Unsafe behaviour</option>
+              </select>
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Details
+              </label>
+              <textarea
+                value={reportDescription}
+                onChange={(e) => setReportDescription(e.target.value)}
+                placeholder="Tell us what happened..."
+                rows={4}
+                maxLength={2000}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+              />
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Photos or documents (optional, up to 10)
+              </label>
+              <input
+                type="file"
+                accept="image/*,application/pdf"
+                multiple
+                onChange={(e) => setReportFiles(Array.from(e.target.files || []).slice(0, 10))}
+                className="w-full text-sm text-gray-600"
+              />
+            </div>
+            <div className="flex space-x-3">
+              <button
+                onClick={closeReportModal}
+                className="flex-1 btn-secondary"
+                disabled={submitting}
+              >
+                Close
+              </button>
+              <button
+                onClick={handleReportProblem}
+                className="flex-1 bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition-colors"
+                disabled={submitting || !reportDescription.trim()}
+              >
+                {submitting ? 'Sending...' : 'Send Report'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Conversation Panel */}
+      {showMessagesPanel && selectedExchange && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-lg w-full p-6 flex flex-col max-h-[90vh]">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-xl font-semibold text-gray-900">Conversation</h3>
+                <p className="text-sm text-gray-600">
+                  {selectedExchange.item?.title || 'Item'} with{' '}
+                  {(isGiver(selectedExchange) ? selectedExchange.receiver : selectedExchange.giver)?.displayName || 'the other participant'}
+                </p>
+              </div>
+              <button
+                onClick={closeMessagesPanel}
+                className="text-gray-400 hover:text-gray-600"
+                aria-label="Close conversation"
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto space-y-3 mb-4 min-h-[200px]">
+              {messagesLoading && messages.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8">Loading messages...</p>
+              ) : messages.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8">
+                  No messages yet. Say hello and arrange the pickup!
+                </p>
+              ) : (
+                messages.map((message) => {
+                  const isMine = message.senderId === user?.id;
+                  return (
+                    <div key={message.id} className={`flex ${isMine ? 'justify-end' : 'justify-start'}`}>
+                      <div
+                        className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                          isMine ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-900'
+                        }`}
+                      >
+                        <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                        <p className={`text-xs mt-1 ${isMine ? 'text-primary-100' : 'text-gray-500'}`}>
+                          {new Date(message.createdAt).toLocaleString()}
+                        </p>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+
+            {selectedExchange.status === 'cancelled' ? (
+              <p className="text-sm text-gray-500 text-center">
+                This exchange was cancelled, so the conversation is closed.
+              </p>
+            ) : (
+              <div className="flex space-x-2">
+                <textarea
+                  value={newMessage}
+                  onChange={(e) => setNewMessage(e.target.value)}
+                  placeholder="Write a message..."
+                  rows={2}
+                  maxLength={2000}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+                <button
+                  onClick={handleSendMessage}
+                  className="btn-primary self-end"
+                  disabled={sendingMessage || !newMessage.trim()}
+                >
+                  {sendingMessage ? 'Sending...' : 'Send'}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
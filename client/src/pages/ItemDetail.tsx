@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { useParams, useNavigate, Link } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
+import ItemPhoto, { type ItemImage } from "../components/items/ItemPhoto";
 
 const API_URL = import.meta.env.VITE_API_URL || "/api";
 
@@ -11,9 +12,12 @@ interface Item {
   description: string;
   category: string;
   tags: string[];
-  images: string[];
+  images: ItemImage[];
   condition: string;
   status: string;
+  quantity: number;
+  quantityAvailable: number;
+  isLot: boolean;
   location: {
     latitude: number;
     longitude: number;
@@ -26,6 +30,7 @@ interface Item {
     weight: number;
   };
   pickupInstructions?: string;
+  expiresAt?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -39,6 +44,32 @@ interface ItemOwner {
   isVerified: boolean;
 }
 
+interface ItemRequest {
+  id: string;
+  status: string;
+  quantity: number;
+  message?: string;
+  requester: {
+    id: string;
+    displayName: string;
+    avatar?: string;
+    rating: number;
+    totalExchanges: number;
+    distanceKm: number;
+  };
+  createdAt: string;
+}
+
+type RequestSortField = "createdAt" | "rating" | "distance";
+
+interface ItemRevision {
+  id: string;
+  version: number;
+  changedBy: string;
+  changes: Array<{ field: string; from: unknown; to: unknown }>;
+  createdAt: string;
+}
+
 export default function ItemDetail() {
   const { id } = useParams<{ id: string }>();
   const { user, isAuthenticated } = useAuth();
@@ -52,7 +83,20 @@ export default function ItemDetail() {
   const [showContactModal, setShowContactModal] = useState(false);
   const [showInterestModal, setShowInterestModal] = useState(false);
   const [interestMessage, setInterestMessage] = useState("");
+  const [interestQuantity, setInterestQuantity] = useState(1);
   const [submittingInterest, setSubmittingInterest] = useState(false);
+  const [showRequestsModal, setShowRequestsModal] = useState(false);
+  const [requests, setRequests] = useState<ItemRequest[]>([]);
+  const [requestsLoading, setRequestsLoading] = useState(false);
+  const [requestSort, setRequestSort] = useState<RequestSortField>("createdAt");
+  const [selectingRequestId, setSelectingRequestId] = useState<string | null>(
+    null
+  );
+  const [renewing, setRenewing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [revisions, setRevisions] = useState<ItemRevision[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [updatingImages, setUpdatingImages] = useState(false);
 
   useEffect(() => {
     if (id) {
@@ -60,6 +104,18 @@ export default function ItemDetail() {
     }
   }, [id]);
 
+  useEffect(() => {
+    if (showRequestsModal) {
+      fetchRequests();
+    }
+  }, [showRequestsModal, requestSort]);
+
+  useEffect(() => {
+    if (showHistory) {
+      fetchHistory();
+    }
+  }, [showHistory]);
+
   const fetchItemDetails = async () => {
     setLoading(true);
     setError(null);
@@ -97,15 +153,15 @@ export default function ItemDetail() {
 
     try {
       const token = localStorage.getItem("accessToken");
-      const response = await fetch(`${API_URL}/exchanges`, {
+      const response = await fetch(`${API_URL}/items/${id}/requests`, {
         method: "POST",
         headers: {
           Authorization: `Bearer ${token}`,
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          itemId: id,
           message: interestMessage,
+          ...(item?.isLot ? { quantity: interestQuantity } : {}),
         }),
       });
 
@@ -118,6 +174,7 @@ export default function ItemDetail() {
 
       setShowInterestModal(false);
       setInterestMessage("");
+      setInterestQuantity(1);
       alert("Interest expressed successfully! The owner will be notified.");
     } catch (err: any) {
       alert(err.message || "Failed to express interest");
@@ -126,6 +183,180 @@ export default function ItemDetail() {
     }
   };
 
+  const fetchRequests = async () => {
+    setRequestsLoading(true);
+
+    try {
+      const token = localStorage.getItem("accessToken");
+      const response = await fetch(
+        `${API_URL}/items/${id}/requests?sortBy=${requestSort}`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error("Failed to load requests");
+      }
+
+      const data = await response.json();
+      setRequests(data.data.requests || []);
+    } catch (err: any) {
+      alert(err.message || "Failed to load requests");
+    } finally {
+      setRequestsLoading(false);
+    }
+  };
+
+  const fetchHistory = async () => {
+    setHistoryLoading(true);
+
+    try {
+      const response = await fetch(`${API_URL}/items/${id}/history`);
+
+      if (!response.ok) {
+        throw new Error("Failed to load edit history");
+      }
+
+      const data = await response.json();
+      setRevisions(data.data.revisions || []);
+    } catch (err: any) {
+      alert(err.message || "Failed to load edit history");
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  const formatRevisionValue = (value: unknown): string => {
+    if (value === null || value === undefined || value === "") return "(none)";
+    if (Array.isArray(value)) {
+      // Photos are listed by count rather than by URL
+      if (value.some((entry) => typeof entry === "object")) {
+        return `${value.length} photo${value.length === 1 ? "" : "s"}`;
+      }
+      return value.length > 0 ? value.join(", ") : "(none)";
+    }
+    if (typeof value === "object") {
+      const location = value as { address?: string };
+      return location.address || JSON.stringify(value);
+    }
+    return String(value);
+  };
+
+  const handleSelectRequest = async (requestId: string) => {
+    setSelectingRequestId(requestId);
+
+    try {
+      const token = localStorage.getItem("accessToken");
+      const response = await fetch(
+        `${API_URL}/items/${id}/requests/${requestId}/select`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({}),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message || "Failed to select request");
+      }
+
+      setShowRequestsModal(false);
+      navigate("/exchanges");
+    } catch (err: any) {
+      alert(err.message || "Failed to select request");
+    } finally {
+      setSelectingRequestId(null);
+    }
+  };
+
+  const handleRenew = async () => {
+    setRenewing(true);
+
+    try {
+      const token = localStorage.getItem("accessToken");
+      const response = await fetch(`${API_URL}/items/${id}/renew`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message || "Failed to renew listing");
+      }
+
+      await fetchItemDetails();
+    } catch (err: any) {
+      alert(err.message || "Failed to renew listing");
+    } finally {
+      setRenewing(false);
+    }
+  };
+
+  // Sends a change to the item's photos and shows the list it returns
+  const updateImages = async (
+    method: string,
+    path: string,
+    body: FormData | object,
+    failureMessage: string
+  ) => {
+    setUpdatingImages(true);
+
+    try {
+      const token = localStorage.getItem("accessToken");
+      const isUpload = body instanceof FormData;
+      const response = await fetch(`${API_URL}/items/${id}/images${path}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          ...(isUpload ? {} : { "Content-Type": "application/json" }),
+        },
+        body: isUpload ? body : JSON.stringify(body),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || failureMessage);
+      }
+
+      setItem((current) => (current ? { ...current, images: data.data.images } : current));
+      setSelectedImage(0);
+    } catch (err: any) {
+      alert(err.message || failureMessage);
+    } finally {
+      setUpdatingImages(false);
+    }
+  };
+
+  const handleAddImages = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    const formData = new FormData();
+    Array.from(files).forEach((file) => formData.append("images", file));
+    updateImages("POST", "", formData, "Failed to add photos");
+  };
+
+  const handleMakeCover = () => {
+    if (!item) return;
+    const order = item.images.map((_, index) => index).filter((index) => index !== selectedImage);
+    updateImages("PUT", "/order", { order: [selectedImage, ...order] }, "Failed to reorder photos");
+  };
+
+  const handleRemoveImage = () => {
+    if (!confirm("Remove this photo?")) return;
+    updateImages("DELETE", "", { positions: [selectedImage] }, "Failed to remove photo");
+  };
+
   const getConditionBadgeColor = (condition: string) => {
     switch (condition) {
       case "new":
@@ -151,6 +382,8 @@ export default function ItemDetail() {
         return "bg-yellow-100 text-yellow-800";
       case "exchanged":
         return "bg-gray-100 text-gray-800";
+      case "expired":
+        return "bg-red-100 text-red-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
@@ -197,10 +430,11 @@ export default function ItemDetail() {
         {/* Image Gallery */}
         <div>
           <div className="bg-white rounded-lg shadow-md overflow-hidden mb-4">
-            <img
-              src={item.images[selectedImage] || "/placeholder-image.png"}
+            <ItemPhoto
+              image={item.images[selectedImage]}
               alt={item.title}
               className="w-full h-96 object-cover"
+              sizes="(min-width: 1024px) 50vw, 100vw"
             />
           </div>
 
@@ -217,7 +451,7 @@ export default function ItemDetail() {
                   }`}
                 >
                   <img
-                    src={image}
+                    src={image.thumbnail}
                     alt={`${item.title} ${index + 1}`}
                     className="w-full h-20 object-cover"
                   />
@@ -225,6 +459,43 @@ export default function ItemDetail() {
               ))}
             </div>
           )}
+
+          {/* Photo management for the owner */}
+          {isOwner && (item.status === "available" || item.status === "pending") && (
+            <div className="flex flex-wrap items-center gap-3 mt-3 text-sm">
+              <label className={`btn-secondary cursor-pointer ${updatingImages || item.images.length >= 10 ? "opacity-50 pointer-events-none" : ""}`}>
+                Add photos
+                <input
+                  type="file"
+                  accept="image/*"
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    handleAddImages(e.target.files);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+              {selectedImage > 0 && (
+                <button
+                  onClick={handleMakeCover}
+                  disabled={updatingImages}
+                  className="text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                >
+                  Make cover photo
+                </button>
+              )}
+              {item.images.length > 1 && (
+                <button
+                  onClick={handleRemoveImage}
+                  disabled={updatingImages}
+                  className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                >
+                  Remove photo
+                </button>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Item Details */}
@@ -250,6 +521,11 @@ export default function ItemDetail() {
                   >
                     {item.status}
                   </span>
+                  {item.quantity > 1 && (
+                    <span className="px-3 py-1 text-sm font-medium rounded-full bg-gray-100 text-gray-800">
+                      {item.quantityAvailable} of {item.quantity} remaining
+                    </span>
+                  )}
                 </div>
               </div>
             </div>
@@ -353,6 +629,47 @@ export default function ItemDetail() {
               </div>
             )}
 
+            {/* Edit History */}
+            <div className="mb-6">
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className="text-sm text-primary-600 hover:text-primary-700"
+              >
+                {showHistory ? "Hide edit history" : "Show edit history"}
+              </button>
+              {showHistory && (
+                <div className="mt-3 space-y-3">
+                  {historyLoading ? (
+                    <p className="text-sm text-gray-500">Loading...</p>
+                  ) : revisions.length === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      This listing hasn't been edited since it was posted.
+                    </p>
+                  ) : (
+                    revisions.map((revision) => (
+                      <div
+                        key={revision.id}
+                        className="border-l-2 border-gray-200 pl-3 text-sm"
+                      >
+                        <p className="text-gray-500">
+                          {new Date(revision.createdAt).toLocaleString()}
+                        </p>
+                        <ul className="text-gray-700">
+                          {revision.changes.map((change) => (
+                            <li key={change.field}>
+                              <span className="font-medium">{change.field}</span>:{" "}
+                              {formatRevisionValue(change.from)} →{" "}
+                              {formatRevisionValue(change.to)}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+
             {/* Owner Info */}
             {owner && (
               <div className="mb-6 pb-6 border-b border-gray-200">
@@ -421,6 +738,31 @@ export default function ItemDetail() {
               </div>
             )}
 
+            {isOwner &&
+              (item.status === "expired" ||
+                (item.status === "available" && item.expiresAt)) && (
+                <div className="flex items-center justify-between bg-gray-50 border border-gray-200 rounded-lg p-4 mb-3">
+                  <p className="text-sm text-gray-600">
+                    {item.status === "expired"
+                      ? "This listing has expired and is hidden from search."
+                      : `Listed until ${new Date(
+                          item.expiresAt!
+                        ).toLocaleDateString()}`}
+                  </p>
+                  <button
+                    onClick={handleRenew}
+                    disabled={renewing}
+                    className="btn-secondary"
+                  >
+                    {renewing
+                      ? "Renewing..."
+                      : item.status === "expired"
+                      ? "Relist"
+                      : "Renew"}
+                  </button>
+                </div>
+              )}
+
             {isOwner && (
               <div className="flex space-x-3">
                 <Link
@@ -429,7 +771,13 @@ export default function ItemDetail() {
                 >
                   Edit Item
                 </Link>
-                <button className="flex-1 btn-primary">Manage Requests</button>
+                <button
+                  onClick={() => setShowRequestsModal(true)}
+                  className="flex-1 btn-primary"
+                  disabled={item.status !== "available"}
+                >
+                  Manage Requests
+                </button>
               </div>
             )}
 
@@ -461,6 +809,25 @@ export default function ItemDetail() {
               rows={4}
               className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent mb-4"
             />
+            {item.isLot && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  How many would you like? ({item.quantityAvailable} remaining)
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={item.quantityAvailable}
+                  value={interestQuantity}
+                  onChange={(e) =>
+                    setInterestQuantity(
+                      Math.max(1, parseInt(e.target.value, 10) || 1)
+                    )
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+              </div>
+            )}
             <div className="flex space-x-3">
               <button
                 onClick={() => setShowInterestModal(false)}
@@ -481,6 +848,97 @@ export default function ItemDetail() {
         </div>
       )}
 
+      {/* Requests Modal */}
+      {showRequestsModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-semibold text-gray-900">
+                Requests for this item
+              </h3>
+              <select
+                value={requestSort}
+                onChange={(e) =>
+                  setRequestSort(e.target.value as RequestSortField)
+                }
+                className="px-3 py-1 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="createdAt">First requested</option>
+                <option value="rating">Highest rating</option>
+                <option value="distance">Closest</option>
+              </select>
+            </div>
+
+            {requestsLoading ? (
+              <p className="text-gray-600 text-center py-8">Loading...</p>
+            ) : requests.length === 0 ? (
+              <p className="text-gray-600 text-center py-8">
+                No one has requested this item yet.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200 mb-4">
+                {requests.map((request) => (
+                  <li key={request.id} className="py-4 flex items-start">
+                    <div className="w-10 h-10 bg-gray-200 rounded-full flex items-center justify-center mr-3 flex-shrink-0">
+                      {request.requester.avatar ? (
+                        <img
+                          src={request.requester.avatar}
+                          alt={request.requester.displayName}
+                          className="w-10 h-10 rounded-full object-cover"
+                        />
+                      ) : (
+                        <span className="text-gray-600 font-medium">
+                          {request.requester.displayName
+                            .charAt(0)
+                            .toUpperCase()}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900">
+                        {request.requester.displayName}
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        ★ {request.requester.rating.toFixed(1)} •{" "}
+                        {request.requester.totalExchanges} exchanges •{" "}
+                        {request.requester.distanceKm} km away
+                      </p>
+                      {item.isLot && (
+                        <p className="text-sm text-gray-600">
+                          Wants {request.quantity} of {item.quantityAvailable}{" "}
+                          remaining
+                        </p>
+                      )}
+                      {request.message && (
+                        <p className="text-sm text-gray-700 mt-1">
+                          "{request.message}"
+                        </p>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => handleSelectRequest(request.id)}
+                      className="btn-primary ml-3"
+                      disabled={selectingRequestId !== null}
+                    >
+                      {selectingRequestId === request.id
+                        ? "Selecting..."
+                        : "Choose"}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <button
+              onClick={() => setShowRequestsModal(false)}
+              className="w-full btn-secondary"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Contact Modal */}
       {showContactModal && owner && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
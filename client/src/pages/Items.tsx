@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import ItemPhoto, { type ItemImage } from '../components/items/ItemPhoto';
 
 const API_URL = import.meta.env.VITE_API_URL || '/api';
 
@@ -11,25 +12,63 @@ interface Item {
   description: string;
   category: string;
   tags: string[];
-  images: string[];
+  images: ItemImage[];
   condition: string;
   status: string;
+  quantity: number;
+  quantityAvailable: number;
   location: {
     latitude: number;
     longitude: number;
     address: string;
   };
   distanceKm?: number;
+  // Present for text searches; the server escapes the text and only adds <mark> tags
+  highlight?: {
+    title: string;
+    description: string;
+  };
   createdAt: string;
 }
 
+interface FacetCount {
+  value: string;
+  count: number;
+}
+
+interface SearchFacets {
+  categories: FacetCount[];
+  conditions: FacetCount[];
+  tags: FacetCount[];
+  distances: Array<{ maxDistanceKm: number; count: number }>;
+}
+
 interface SearchFilters {
   searchTerm: string;
-  category: string;
-  maxDistance: number;
-  condition: string;
+  categories: string[];
+  conditions: string[];
+  tags: string[];
+  maxDistance: number; // 0 means any distance
 }
 
+type MultiSelectFilter = 'categories' | 'conditions' | 'tags';
+
+const DEFAULT_FILTERS: SearchFilters = {
+  searchTerm: '',
+  categories: [],
+  conditions: [],
+  tags: [],
+  maxDistance: 50,
+};
+
+const CONDITION_LABELS: Record<string, string> = {
+  'new': 'New',
+  'like-new': 'Like New',
+  'good': 'Good',
+  'fair': 'Fair',
+  'poor': 'Poor',
+};
+
 export default function Items() {
   const { user } = useAuth();
   const [items, setItems] = useState<Item[]>([]);
@@ -39,13 +78,12 @@ export default function Items() {
   const [page, setPage] = useState(1);
   const [limit] = useState(12);
   const [hasMore, setHasMore] = useState(false);
+  // Cursor for each page visited so far; the first page needs none
+  const [pageCursors, setPageCursors] = useState<Array<string | undefined>>([undefined]);
   
-  const [filters, setFilters] = useState<SearchFilters>({
-    searchTerm: '',
-    category: '',
-    maxDistance: 50,
-    condition: '',
-  });
+  const [filters, setFilters] = useState<SearchFilters>(DEFAULT_FILTERS);
+  const [appliedSearchTerm, setAppliedSearchTerm] = useState('');
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
   
   const [showFilters, setShowFilters] = useState(false);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
@@ -53,22 +91,9 @@ export default function Items() {
   const [geoLocation, setGeoLocation] = useState<{ latitude: number; longitude: number } | null>(null);
   const [geoError, setGeoError] = useState<string | null>(null);
 
-  const categories = [
-    'Furniture',
-    'Electronics',
-    'Clothing',
-    'Books',
-    'Toys',
-    'Kitchen',
-    'Sports',
-    'Garden',
-    'Tools',
-    'Other'
-  ];
-
   useEffect(() => {
     fetchItems();
-  }, [page]);
+  }, [page, appliedSearchTerm, filters.categories, filters.conditions, filters.tags, filters.maxDistance, geoLocation]);
 
   const fetchItems = async () => {
     setLoading(true);
@@ -78,24 +103,33 @@ export default function Items() {
       const params = new URLSearchParams();
       params.append('status', 'available');
       params.append('limit', limit.toString());
-      params.append('offset', ((page - 1) * limit).toString());
+      const cursor = pageCursors[page - 1];
+      if (cursor) {
+        params.append('cursor', cursor);
+      } else {
+        params.append('offset', ((page - 1) * limit).toString());
+      }
+      params.append('facets', 'true');
       
-      if (filters.searchTerm) {
-        params.append('searchTerm', filters.searchTerm);
-      }
-      if (filters.category) {
-        params.append('category', filters.category);
+      if (appliedSearchTerm) {
+        params.append('searchTerm', appliedSearchTerm);
       }
+      filters.categories.forEach(category => params.append('category', category));
+      filters.conditions.forEach(condition => params.append('condition', condition));
+      filters.tags.forEach(tag => params.append('tags', tag));
       const locationToUse = geoLocation
         ? geoLocation
         : user && user.location && user.location.latitude && user.location.longitude
           ? { latitude: user.location.latitude, longitude: user.location.longitude }
           : null;
 
-      if (locationToUse && filters.maxDistance) {
+      // The location is sent even without a limit so distance counts are available
+      if (locationToUse) {
         params.append('latitude', locationToUse.latitude.toString());
         params.append('longitude', locationToUse.longitude.toString());
-        params.append('maxDistance', filters.maxDistance.toString());
+        if (filters.maxDistance) {
+          params.append('maxDistance', filters.maxDistance.toString());
+        }
       }
 
       const response = await fetch(`${API_URL}/items?${params.toString()}`);
@@ -108,6 +142,8 @@ export default function Items() {
       setItems(data.data.items);
       setTotalCount(data.data.totalCount);
       setHasMore(data.data.hasMore ?? data.data.items.length + (page - 1) * limit < data.data.totalCount);
+      setPageCursors(prev => [...prev.slice(0, page), data.data.nextCursor]);
+      setFacets(data.data.facets ?? null);
     } catch (err: any) {
       setError(err.message || 'Failed to load items');
     } finally {
@@ -117,6 +153,7 @@ export default function Items() {
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
+    setAppliedSearchTerm(filters.searchTerm.trim());
     setPage(1);
   };
 
@@ -124,15 +161,41 @@ export default function Items() {
     setFilters(prev => ({ ...prev, [name]: value }));
   };
 
+  const toggleFilterValue = (name: MultiSelectFilter, value: string) => {
+    setFilters(prev => ({
+      ...prev,
+      [name]: prev[name].includes(value)
+        ? prev[name].filter(selected => selected !== value)
+        : [...prev[name], value],
+    }));
+    setPage(1);
+  };
+
+  const handleDistanceChange = (maxDistance: number) => {
+    setFilters(prev => ({ ...prev, maxDistance }));
+    setPage(1);
+  };
+
   const clearFilters = () => {
-    setFilters({
-      searchTerm: '',
-      category: '',
-      maxDistance: 50,
-      condition: '',
+    setFilters(DEFAULT_FILTERS);
+    setAppliedSearchTerm('');
+    setPage(1);
+  };
+
+  // Selected options stay visible even when nothing else matches them
+  const facetOptions = (counts: FacetCount[] | undefined, selected: string[]): FacetCount[] => {
+    const options = counts ? [...counts] : [];
+    selected.forEach(value => {
+      if (!options.some(option => option.value === value)) {
+        options.push({ value, count: 0 });
+      }
     });
+    return options;
   };
 
+  const formatCategory = (category: string) =>
+    category.charAt(0).toUpperCase() + category.slice(1);
+
   const requestGeoLocation = () => {
     setGeoError(null);
     if (!navigator.geolocation) {
@@ -250,31 +313,52 @@ export default function Items() {
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Category
               </label>
-              <select
-                value={filters.category}
-                onChange={(e) => handleFilterChange('category', e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-              >
-                <option value="">All Categories</option>
-                {categories.map(cat => (
-                  <option key={cat} value={cat}>{cat}</option>
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {facetOptions(facets?.categories, filters.categories).map(option => (
+                  <label key={option.value} className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={filters.categories.includes(option.value)}
+                      onChange={() => toggleFilterValue('categories', option.value)}
+                    />
+                    <span>{formatCategory(option.value)}</span>
+                    <span className="text-xs text-gray-400">({option.count})</span>
+                  </label>
                 ))}
-              </select>
+                {!facets?.categories.length && filters.categories.length === 0 && (
+                  <p className="text-xs text-gray-500">No categories match this search</p>
+                )}
+              </div>
             </div>
 
             {(user || useGeoLocation) && (
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Max Distance (km)
+                  Distance
                 </label>
-                <input
-                  type="number"
-                  value={filters.maxDistance}
-                  onChange={(e) => handleFilterChange('maxDistance', parseInt(e.target.value))}
-                  min="1"
-                  max="500"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                />
+                <div className="space-y-1">
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name="maxDistance"
+                      checked={filters.maxDistance === 0}
+                      onChange={() => handleDistanceChange(0)}
+                    />
+                    <span>Any distance</span>
+                  </label>
+                  {(facets?.distances ?? []).map(bucket => (
+                    <label key={bucket.maxDistanceKm} className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="radio"
+                        name="maxDistance"
+                        checked={filters.maxDistance === bucket.maxDistanceKm}
+                        onChange={() => handleDistanceChange(bucket.maxDistanceKm)}
+                      />
+                      <span>Within {bucket.maxDistanceKm} km</span>
+                      <span className="text-xs text-gray-400">({bucket.count})</span>
+                    </label>
+                  ))}
+                </div>
                 <div className="mt-3 flex items-center space-x-2">
                   <input
                     id="useGeoLocation"
@@ -307,20 +391,45 @@ export default function Items() {
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Condition
               </label>
-              <select
-                value={filters.condition}
-                onChange={(e) => handleFilterChange('condition', e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-              >
-                <option value="">Any Condition</option>
-                <option value="new">New</option>
-                <option value="like-new">Like New</option>
-                <option value="good">Good</option>
-                <option value="fair">Fair</option>
-                <option value="poor">Poor</option>
-              </select>
+              <div className="space-y-1">
+                {facetOptions(facets?.conditions, filters.conditions).map(option => (
+                  <label key={option.value} className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={filters.conditions.includes(option.value)}
+                      onChange={() => toggleFilterValue('conditions', option.value)}
+                    />
+                    <span>{CONDITION_LABELS[option.value] ?? option.value}</span>
+                    <span className="text-xs text-gray-400">({option.count})</span>
+                  </label>
+                ))}
+              </div>
             </div>
           </div>
+
+          {facetOptions(facets?.tags, filters.tags).length > 0 && (
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Tags
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {facetOptions(facets?.tags, filters.tags).map(option => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => toggleFilterValue('tags', option.value)}
+                    className={`text-xs px-2 py-1 rounded-full border ${
+                      filters.tags.includes(option.value)
+                        ? 'bg-primary-600 text-white border-primary-600'
+                        : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                    }`}
+                  >
+                    {option.value} ({option.count})
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       )}
 
@@ -376,24 +485,39 @@ export default function Items() {
                   }`}
                 >
                   <div className={viewMode === 'list' ? 'w-48 flex-shrink-0' : ''}>
-                    <img
-                      src={item.images[0] || '/placeholder-image.png'}
+                    <ItemPhoto
+                      image={item.images[0]}
                       alt={item.title}
                       className={`w-full object-cover ${viewMode === 'list' ? 'h-full' : 'h-48'}`}
+                      sizes={viewMode === 'list' ? '12rem' : '(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw'}
                     />
                   </div>
                   <div className="p-4 flex-1">
                     <div className="flex items-start justify-between mb-2">
-                      <h3 className="text-lg font-semibold text-gray-900 line-clamp-1">
-                        {item.title}
-                      </h3>
+                      {item.highlight ? (
+                        <h3
+                          className="text-lg font-semibold text-gray-900 line-clamp-1"
+                          dangerouslySetInnerHTML={{ __html: item.highlight.title }}
+                        />
+                      ) : (
+                        <h3 className="text-lg font-semibold text-gray-900 line-clamp-1">
+                          {item.title}
+                        </h3>
+                      )}
                       <span className={`ml-2 px-2 py-1 text-xs font-medium rounded-full ${getConditionBadgeColor(item.condition)}`}>
                         {item.condition}
                       </span>
                     </div>
-                    <p className="text-sm text-gray-600 line-clamp-2 mb-3">
-                      {item.description}
-                    </p>
+                    {item.highlight?.description ? (
+                      <p
+                        className="text-sm text-gray-600 line-clamp-2 mb-3"
+                        dangerouslySetInnerHTML={{ __html: item.highlight.description }}
+                      />
+                    ) : (
+                      <p className="text-sm text-gray-600 line-clamp-2 mb-3">
+                        {item.description}
+                      </p>
+                    )}
                     <div className="flex items-center justify-between text-xs text-gray-500">
                       <div className="flex items-center">
                         <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -404,6 +528,9 @@ export default function Items() {
                         {item.distanceKm !== undefined && (
                           <span className="ml-2 text-xs text-gray-400">• {item.distanceKm} km away</span>
                         )}
+                        {item.quantity > 1 && (
+                          <span className="ml-2 text-xs text-gray-400">• {item.quantityAvailable} of {item.quantity} remaining</span>
+                        )}
                       </div>
                       {item.category && (
                         <span className="bg-gray-100 px-2 py-1 rounded">
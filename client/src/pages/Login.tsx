@@ -66,6 +66,12 @@ export default function Login() {
                 Sign up
               </Link>
             </p>
+            <p className="text-sm text-gray-600 mt-2">
+              Have a password for this site?{' '}
+              <Link to="/forgot-password" className="text-primary-600 hover:text-primary-700 font-medium">
+                Forgot password
+              </Link>
+            </p>
           </div>
         </div>
       </div>
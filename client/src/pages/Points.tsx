@@ -43,6 +43,8 @@ export default function Points() {
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   useEffect(() => {
     const load = async () => {
@@ -54,7 +56,7 @@ export default function Points() {
           fetch(`${API_URL}/points/achievements`, {
             headers: { Authorization: `Bearer ${token}` }
           }),
-          fetch(`${API_URL}/points/transactions`, {
+          fetch(`${API_URL}/points/transactions?limit=10`, {
             headers: { Authorization: `Bearer ${token}` }
           })
         ]);
@@ -66,6 +68,7 @@ export default function Points() {
         const txData = await txRes.json();
         setSummary(achData);
         setTransactions(txData.transactions || []);
+        setNextCursor(txData.nextCursor ?? null);
       } catch (err: any) {
         setError(err.message || 'Failed to load points data');
       } finally {
@@ -76,6 +79,27 @@ export default function Points() {
     load();
   }, []);
 
+  const loadMoreTransactions = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const token = localStorage.getItem('accessToken');
+      const res = await fetch(
+        `${API_URL}/points/transactions?limit=10&cursor=${encodeURIComponent(nextCursor)}`,
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      if (!res.ok) throw new Error('Failed to load transactions');
+
+      const txData = await res.json();
+      setTransactions(prev => [...prev, ...(txData.transactions || [])]);
+      setNextCursor(txData.nextCursor ?? null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load transactions');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="max-w-5xl mx-auto px-4 py-8">
@@ -151,7 +175,7 @@ export default function Points() {
             <div className="text-sm text-gray-500">No transactions yet.</div>
           ) : (
             <div className="space-y-3">
-              {transactions.slice(0, 10).map((tx, idx) => (
+              {transactions.map((tx, idx) => (
                 <div key={`${tx.timestamp}-${idx}`} className="flex items-center justify-between text-sm">
                   <div>
                     <div className="text-gray-900">{tx.reason}</div>
@@ -162,6 +186,15 @@ export default function Points() {
                   <div className="font-semibold text-green-600">+{tx.points}</div>
                 </div>
               ))}
+              {nextCursor && (
+                <button
+                  className="btn-secondary w-full"
+                  disabled={loadingMore}
+                  onClick={loadMoreTransactions}
+                >
+                  {loadingMore ? 'Loading...' : 'Load more'}
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -10,6 +10,8 @@ interface ItemFormData {
   category: string;
   condition: 'new' | 'like-new' | 'good' | 'fair' | 'poor';
   pickupInstructions: string;
+  quantity: number;
+  isLot: boolean;
   dimensions?: {
     length: number;
     width: number;
@@ -29,6 +31,8 @@ export default function PostItem() {
     category: '',
     condition: 'good',
     pickupInstructions: '',
+    quantity: 1,
+    isLot: false,
   });
   
   const [images, setImages] = useState<File[]>([]);
@@ -157,6 +161,11 @@ export default function PostItem() {
       if (formData.pickupInstructions) {
         formDataToSend.append('pickupInstructions', formData.pickupInstructions);
       }
+
+      if (formData.quantity > 1) {
+        formDataToSend.append('quantity', formData.quantity.toString());
+        formDataToSend.append('isLot', formData.isLot.toString());
+      }
       
       if (showDimensions && formData.dimensions) {
         formDataToSend.append('dimensions[length]', formData.dimensions.length.toString());
@@ -360,6 +369,40 @@ export default function PostItem() {
               </div>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="quantity" className="block text-sm font-medium text-gray-700 mb-1">
+                  Quantity
+                </label>
+                <input
+                  type="number"
+                  id="quantity"
+                  name="quantity"
+                  min={1}
+                  value={formData.quantity}
+                  onChange={(e) => {
+                    const quantity = Math.max(1, parseInt(e.target.value, 10) || 1);
+                    setFormData(prev => ({ ...prev, quantity, isLot: quantity > 1 && prev.isLot }));
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+              </div>
+
+              {formData.quantity > 1 && (
+                <label className="flex items-start md:mt-7">
+                  <input
+                    type="checkbox"
+                    checked={formData.isLot}
+                    onChange={(e) => setFormData(prev => ({ ...prev, isLot: e.target.checked }))}
+                    className="mt-1 mr-2"
+                  />
+                  <span className="text-sm text-gray-700">
+                    Let people take some of them, rather than all {formData.quantity} at once
+                  </span>
+                </label>
+              )}
+            </div>
+
             <div>
               <label htmlFor="pickupInstructions" className="block text-sm font-medium text-gray-700 mb-1">
                 Pickup Instructions
@@ -1,8 +1,9 @@
 import { useState, useEffect, type FormEvent } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 
 export default function Profile() {
-  const { user, updateProfile, isLoading: authLoading } = useAuth();
+  const { user, updateProfile, logoutAllDevices, isLoading: authLoading } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState('');
@@ -249,6 +250,22 @@ export default function Profile() {
             <button className="btn-primary text-sm">Resend Verification Email</button>
           </div>
         )}
+        <div className="mt-6 card">
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Security</h3>
+          <p className="text-gray-700 mb-4">Lost a device or signed in somewhere you shouldn't have? Signing out of all devices includes this one.</p>
+          <div className="flex flex-wrap gap-3">
+            <Link to="/change-password" className="btn-secondary text-sm">
+              Change password
+            </Link>
+            <button
+              type="button"
+              onClick={() => logoutAllDevices().catch((err: Error) => setError(err.message))}
+              className="btn-secondary text-sm"
+            >
+              Sign out of all devices
+            </button>
+          </div>
+        </div>
       </div>
     </div>
   );
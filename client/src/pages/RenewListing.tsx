@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+
+const API_URL = import.meta.env.VITE_API_URL || '/api';
+
+// Landing page for the renewal link in listing expiry reminders
+export default function RenewListing() {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const [expiresAt, setExpiresAt] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const requested = useRef(false);
+
+  useEffect(() => {
+    // The token only works once, so don't send it twice
+    if (requested.current) return;
+    requested.current = true;
+    renewListing();
+  }, []);
+
+  const renewListing = async () => {
+    try {
+      const token = localStorage.getItem('accessToken');
+      const response = await fetch(`${API_URL}/items/${id}/renew`, {
+        method: 'POST',
+        headers: {
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token: searchParams.get('token') || undefined }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to renew listing');
+      }
+
+      setExpiresAt(data.data.expiresAt);
+    } catch (err: any) {
+      setError(err.message || 'Failed to renew listing');
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="max-w-md mx-auto card text-center">
+        {!expiresAt && !error && (
+          <div className="flex justify-center items-center py-6">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+          </div>
+        )}
+
+        {expiresAt && (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Listing renewed</h1>
+            <p className="text-gray-600 mb-6">
+              Your listing will stay up until {new Date(expiresAt).toLocaleDateString()}.
+            </p>
+          </>
+        )}
+
+        {error && (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Couldn't renew listing</h1>
+            <p className="text-gray-600 mb-6">
+              {error}. The link may already have been used - you can still renew the listing from its page.
+            </p>
+          </>
+        )}
+
+        {(expiresAt || error) && (
+          <Link to={`/items/${id}`} className="btn-primary">
+            View Listing
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState, type FormEvent } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import PasswordFields, { passwordProblem } from '../components/auth/PasswordFields';
+
+const API_URL = import.meta.env.VITE_API_URL || '/api';
+
+// Landing page for the link in password reset emails
+export default function ResetPassword() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const token = searchParams.get('token');
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const problem = passwordProblem(password, confirmation);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch(`${API_URL}/auth/password/reset`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to reset password');
+      }
+
+      // Every session was signed out along with the old password
+      localStorage.removeItem('accessToken');
+      localStorage.removeItem('refreshToken');
+      navigate('/login', { state: { message: 'Your password has been reset. Please log in again.' } });
+    } catch (err: any) {
+      setError(err.message || 'Failed to reset password');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="max-w-md mx-auto">
+        <h1 className="text-3xl font-bold text-gray-900 mb-6 text-center">Choose a New Password</h1>
+
+        <div className="card">
+          {!token ? (
+            <p className="text-gray-700">
+              This link is missing its reset token.{' '}
+              <Link to="/forgot-password" className="text-primary-600 hover:text-primary-700 font-medium">
+                Request a new link
+              </Link>
+            </p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg">
+                  {error}
+                </div>
+              )}
+              <PasswordFields
+                password={password}
+                confirmation={confirmation}
+                onPasswordChange={setPassword}
+                onConfirmationChange={setConfirmation}
+                disabled={isSubmitting}
+              />
+              <button type="submit" disabled={isSubmitting} className="w-full btn-primary disabled:opacity-50">
+                {isSubmitting ? 'Saving...' : 'Reset Password'}
+              </button>
+              <p className="text-xs text-gray-500 text-center">
+                Link expired or already used?{' '}
+                <Link to="/forgot-password" className="text-primary-600 hover:text-primary-700">
+                  Request a new one
+                </Link>
+              </p>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
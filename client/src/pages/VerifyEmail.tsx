@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+
+const API_URL = import.meta.env.VITE_API_URL || '/api';
+
+// Landing page for the link in verification emails
+export default function VerifyEmail() {
+  const [searchParams] = useSearchParams();
+  const [verified, setVerified] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [resendMessage, setResendMessage] = useState<string | null>(null);
+  const requested = useRef(false);
+  const isLoggedIn = !!localStorage.getItem('accessToken');
+
+  useEffect(() => {
+    // The token only works once, so don't send it twice
+    if (requested.current) return;
+    requested.current = true;
+    verifyEmail();
+  }, []);
+
+  const verifyEmail = async () => {
+    try {
+      const userId = encodeURIComponent(searchParams.get('userId') || '');
+      const response = await fetch(`${API_URL}/users/verify?userId=${userId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ verificationToken: searchParams.get('token') || '' }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to verify email');
+      }
+
+      setVerified(true);
+    } catch (err: any) {
+      setError(err.message || 'Failed to verify email');
+    }
+  };
+
+  const resendVerification = async () => {
+    try {
+      const response = await fetch(`${API_URL}/users/resend-verification`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${localStorage.getItem('accessToken')}` },
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to send a new link');
+      }
+
+      setResendMessage('We sent you a new link. Only the newest link works.');
+    } catch (err: any) {
+      setResendMessage(err.message || 'Failed to send a new link');
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="max-w-md mx-auto card text-center">
+        {!verified && !error && (
+          <div className="flex justify-center items-center py-6">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+          </div>
+        )}
+
+        {verified && (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Email verified</h1>
+            <p className="text-gray-600 mb-6">You can now post items and start exchanging.</p>
+            <Link to="/items" className="btn-primary">
+              Browse Items
+            </Link>
+          </>
+        )}
+
+        {error && (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Couldn't verify email</h1>
+            <p className="text-gray-600 mb-6">{error}.</p>
+            {isLoggedIn ? (
+              <button onClick={resendVerification} className="btn-primary">
+                Send a new link
+              </button>
+            ) : (
+              <Link to="/login" className="btn-primary">
+                Log in to get a new link
+              </Link>
+            )}
+            {resendMessage && <p className="text-sm text-gray-600 mt-4">{resendMessage}</p>}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
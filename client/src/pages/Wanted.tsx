@@ -0,0 +1,485 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import type { ItemImage } from '../components/items/ItemPhoto';
+
+const API_URL = import.meta.env.VITE_API_URL || '/api';
+
+const categories = [
+  'Furniture',
+  'Electronics',
+  'Clothing',
+  'Books',
+  'Toys',
+  'Kitchen',
+  'Sports',
+  'Garden',
+  'Tools',
+  'Other'
+];
+
+interface WantedPost {
+  id: string;
+  userId: string;
+  title: string;
+  description?: string;
+  category: string;
+  tags: string[];
+  location: {
+    latitude: number;
+    longitude: number;
+    address: string;
+  };
+  radiusKm: number;
+  status: 'open' | 'fulfilled' | 'closed';
+  responseCount: number;
+  createdAt: string;
+}
+
+interface Suggestion {
+  itemId: string;
+  title: string;
+  category: string;
+  images: ItemImage[];
+  distance: number;
+  matchReason: string;
+}
+
+interface OwnItem {
+  id: string;
+  title: string;
+  status: string;
+}
+
+type Tab = 'nearby' | 'mine';
+
+export default function Wanted() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  const [activeTab, setActiveTab] = useState<Tab>('nearby');
+  const [posts, setPosts] = useState<WantedPost[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState({ title: '', description: '', category: '', tags: '', radiusKm: '10' });
+  const [submitting, setSubmitting] = useState(false);
+
+  const [suggestions, setSuggestions] = useState<Record<string, Suggestion[]>>({});
+  const [ownItems, setOwnItems] = useState<OwnItem[] | null>(null);
+  const [offeringTo, setOfferingTo] = useState<string | null>(null);
+  const [offer, setOffer] = useState({ itemId: '', message: '' });
+
+  const authHeaders = () => ({
+    Authorization: `Bearer ${localStorage.getItem('accessToken')}`,
+    'Content-Type': 'application/json'
+  });
+
+  // Without a cursor the list is reloaded; with one the next page is appended
+  const fetchPosts = async (cursor?: string) => {
+    if (cursor) {
+      setLoadingMore(true);
+    } else {
+      setLoading(true);
+    }
+    setError(null);
+
+    try {
+      let url = `${API_URL}/wanted/mine`;
+      if (activeTab === 'nearby') {
+        const params = new URLSearchParams({ limit: '20' });
+        if (user?.location) {
+          params.set('latitude', String(user.location.latitude));
+          params.set('longitude', String(user.location.longitude));
+        }
+        if (cursor) params.set('cursor', cursor);
+        url = `${API_URL}/wanted?${params.toString()}`;
+      }
+
+      const response = await fetch(url, { headers: authHeaders() });
+      if (!response.ok) throw new Error('Failed to load wanted posts');
+
+      const data = await response.json();
+      if (activeTab === 'nearby') {
+        // Other people's requests only; your own are under "My posts"
+        const others = (data.data.wantedPosts as WantedPost[]).filter(post => post.userId !== user?.id);
+        setPosts(prev => cursor ? [...prev, ...others] : others);
+        setNextCursor(data.data.nextCursor ?? null);
+      } else {
+        setPosts(data.data);
+        setNextCursor(null);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load wanted posts');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPosts();
+  }, [activeTab]);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/wanted`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({
+          title: form.title,
+          description: form.description || undefined,
+          category: form.category,
+          tags: form.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+          radiusKm: Number(form.radiusKm)
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error?.message || 'Failed to create wanted post');
+
+      setForm({ title: '', description: '', category: '', tags: '', radiusKm: '10' });
+      setShowForm(false);
+      if (activeTab === 'mine') {
+        fetchPosts();
+      } else {
+        setActiveTab('mine');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to create wanted post');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleClose = async (postId: string) => {
+    try {
+      const response = await fetch(`${API_URL}/wanted/${postId}/close`, {
+        method: 'POST',
+        headers: authHeaders()
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error?.message || 'Failed to close wanted post');
+      setPosts(prev => prev.map(post => post.id === postId ? { ...post, status: 'closed' } : post));
+    } catch (err: any) {
+      setError(err.message || 'Failed to close wanted post');
+    }
+  };
+
+  const loadSuggestions = async (postId: string) => {
+    try {
+      const response = await fetch(`${API_URL}/wanted/${postId}/suggestions`, { headers: authHeaders() });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error?.message || 'Failed to load suggestions');
+      setSuggestions(prev => ({ ...prev, [postId]: data.data.suggestions }));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load suggestions');
+    }
+  };
+
+  const startOffer = async (postId: string) => {
+    setOfferingTo(postId);
+    setOffer({ itemId: '', message: '' });
+    if (ownItems || !user) return;
+
+    try {
+      const response = await fetch(`${API_URL}/items/user/${user.id}`, { headers: authHeaders() });
+      if (!response.ok) throw new Error('Failed to load your items');
+      const data = await response.json();
+      setOwnItems((data.data.items as OwnItem[]).filter(item => item.status === 'available'));
+    } catch (err: any) {
+      setError(err.message || 'Failed to load your items');
+    }
+  };
+
+  const handleOffer = async (postId: string) => {
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${API_URL}/wanted/${postId}/responses`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({ itemId: offer.itemId, message: offer.message || undefined })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error?.message || 'Failed to offer item');
+
+      // The offer is a regular exchange from here on
+      navigate('/exchanges');
+    } catch (err: any) {
+      setError(err.message || 'Failed to offer item');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+  const renderPost = (post: WantedPost) => (
+    <div key={post.id} className="card">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">{post.title}</h3>
+          <div className="text-sm text-gray-500 mt-1">
+            <span className="capitalize">{post.category}</span>
+            {' · within '}{post.radiusKm} km of {post.location.address}
+          </div>
+        </div>
+        <span className="text-xs font-medium px-2 py-1 rounded-full bg-gray-100 text-gray-700 capitalize">
+          {post.status}
+        </span>
+      </div>
+
+      {post.description && <p className="text-gray-700 mt-3">{post.description}</p>}
+
+      {post.tags.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {post.tags.map(tag => (
+            <span key={tag} className="text-xs px-2 py-1 rounded-full bg-primary-50 text-primary-700">#{tag}</span>
+          ))}
+        </div>
+      )}
+
+      {activeTab === 'mine' ? (
+        <div className="mt-4">
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-gray-500">
+              {post.responseCount} {post.responseCount === 1 ? 'offer' : 'offers'}
+            </span>
+            {post.status === 'open' && (
+              <>
+                <button className="btn-secondary" onClick={() => loadSuggestions(post.id)}>
+                  Suggest items
+                </button>
+                <button className="text-sm text-red-600 hover:underline" onClick={() => handleClose(post.id)}>
+                  Close
+                </button>
+              </>
+            )}
+          </div>
+
+          {suggestions[post.id] && (
+            <div className="mt-3 space-y-2">
+              {suggestions[post.id].length === 0 ? (
+                <div className="text-sm text-gray-500">No matching items nearby yet.</div>
+              ) : (
+                suggestions[post.id].map(suggestion => (
+                  <Link
+                    key={suggestion.itemId}
+                    to={`/items/${suggestion.itemId}`}
+                    className="flex items-center justify-between p-2 rounded-lg hover:bg-gray-50"
+                  >
+                    <div>
+                      <div className="text-sm font-medium text-gray-900">{suggestion.title}</div>
+                      <div className="text-xs text-gray-500">{suggestion.matchReason}</div>
+                    </div>
+                    <span className="text-xs text-gray-500">{suggestion.distance.toFixed(1)} km</span>
+                  </Link>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      ) : offeringTo === post.id ? (
+        <div className="mt-4 space-y-3">
+          {ownItems && ownItems.length === 0 ? (
+            <div className="text-sm text-gray-500">
+              You have no available items. <Link to="/post-item" className="text-primary-600 hover:underline">Post one</Link> first.
+            </div>
+          ) : (
+            <>
+              <select
+                value={offer.itemId}
+                onChange={e => setOffer(prev => ({ ...prev, itemId: e.target.value }))}
+                className={inputClass}
+              >
+                <option value="">Choose one of your items</option>
+                {(ownItems || []).map(item => (
+                  <option key={item.id} value={item.id}>{item.title}</option>
+                ))}
+              </select>
+              <textarea
+                value={offer.message}
+                onChange={e => setOffer(prev => ({ ...prev, message: e.target.value }))}
+                rows={2}
+                className={inputClass}
+                placeholder="Add a message (optional)"
+              />
+            </>
+          )}
+          <div className="flex gap-3">
+            <button
+              className="btn-primary"
+              disabled={!offer.itemId || submitting}
+              onClick={() => handleOffer(post.id)}
+            >
+              {submitting ? 'Sending...' : 'Offer item'}
+            </button>
+            <button className="btn-secondary" onClick={() => setOfferingTo(null)}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="mt-4">
+          <button className="btn-primary" onClick={() => startOffer(post.id)}>
+            I have this
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Wanted</h1>
+          <p className="text-gray-600 mt-1">Things neighbours are looking for. Have one? Offer it.</p>
+        </div>
+        <button className="btn-primary" onClick={() => setShowForm(!showForm)}>
+          {showForm ? 'Cancel' : 'Post a request'}
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="card mb-6 space-y-4">
+          <div>
+            <label htmlFor="wanted-title" className="block text-sm font-medium text-gray-700 mb-1">
+              What are you looking for? *
+            </label>
+            <input
+              id="wanted-title"
+              type="text"
+              required
+              maxLength={100}
+              value={form.title}
+              onChange={e => setForm(prev => ({ ...prev, title: e.target.value }))}
+              className={inputClass}
+              placeholder="e.g., Moving boxes"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="wanted-description" className="block text-sm font-medium text-gray-700 mb-1">
+              Details
+            </label>
+            <textarea
+              id="wanted-description"
+              rows={3}
+              maxLength={1000}
+              value={form.description}
+              onChange={e => setForm(prev => ({ ...prev, description: e.target.value }))}
+              className={inputClass}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="wanted-category" className="block text-sm font-medium text-gray-700 mb-1">
+                Category *
+              </label>
+              <select
+                id="wanted-category"
+                required
+                value={form.category}
+                onChange={e => setForm(prev => ({ ...prev, category: e.target.value }))}
+                className={inputClass}
+              >
+                <option value="">Select a category</option>
+                {categories.map(cat => (
+                  <option key={cat} value={cat}>{cat}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="wanted-tags" className="block text-sm font-medium text-gray-700 mb-1">
+                Tags
+              </label>
+              <input
+                id="wanted-tags"
+                type="text"
+                value={form.tags}
+                onChange={e => setForm(prev => ({ ...prev, tags: e.target.value }))}
+                className={inputClass}
+                placeholder="boxes, moving"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="wanted-radius" className="block text-sm font-medium text-gray-700 mb-1">
+                Pickup radius (km)
+              </label>
+              <input
+                id="wanted-radius"
+                type="number"
+                min={1}
+                max={100}
+                value={form.radiusKm}
+                onChange={e => setForm(prev => ({ ...prev, radiusKm: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <button type="submit" className="btn-primary" disabled={submitting}>
+            {submitting ? 'Posting...' : 'Post request'}
+          </button>
+        </form>
+      )}
+
+      <div className="flex space-x-6 border-b border-gray-200 mb-6">
+        {([['nearby', 'Near you'], ['mine', 'My posts']] as Array<[Tab, string]>).map(([tab, label]) => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className={`pb-3 text-sm font-medium ${
+              activeTab === tab
+                ? 'border-b-2 border-primary-600 text-primary-600'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="card bg-red-50 border border-red-200 text-red-700 mb-6">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600"></div>
+        </div>
+      ) : posts.length === 0 ? (
+        <div className="card text-center text-gray-500">
+          {activeTab === 'nearby' ? 'Nobody nearby is looking for anything right now.' : "You haven't posted any requests yet."}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {posts.map(renderPost)}
+          {nextCursor && (
+            <div className="flex justify-center pt-2">
+              <button
+                className="btn-secondary"
+                disabled={loadingMore}
+                onClick={() => fetchPosts(nextCursor)}
+              >
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+// Placeholder provider credentials so ConfigLoader validation passes under test
+const testEnv = {
+  AWS_ACCESS_KEY_ID: 'test-access-key',
+  AWS_SECRET_ACCESS_KEY: 'test-secret-key',
+  OPENAI_API_KEY: 'test-openai-key',
+  GOOGLE_MAPS_API_KEY: 'test-maps-key',
+  SENDGRID_API_KEY: 'test-sendgrid-key',
+  JWT_SECRET: 'test-jwt-secret',
+  HANDOFF_CODE_SECRET: 'test-handoff-code-secret',
+};
+
+for (const [key, value] of Object.entries(testEnv)) {
+  if (!process.env[key]) {
+    process.env[key] = value;
+  }
+}
@@ -0,0 +1,387 @@
+import { Request, Response } from 'express';
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { IAdminApplicationService, AdminUserSummary } from '@/application/services/AdminApplicationService';
+import { IPointsApplicationService } from '@/application/services/PointsApplicationService';
+import { User } from '@/domain/user/User';
+import { AccountStatusChange } from '@/domain/user/value-objects/AccountStatus';
+import { Exchange } from '@/domain/exchange/Exchange';
+import { ListUsersDto, AdminActionReasonDto, SuspendUserDto, ReinstateUserDto, UnlockBadgeDto } from '../dtos/admin.dto';
+import { AppError } from '../errors/AppError';
+
+@injectable()
+export class AdminController {
+  constructor(
+    @inject(TYPES.IAdminApplicationService)
+    private readonly adminService: IAdminApplicationService,
+    @inject(TYPES.IPointsApplicationService)
+    private readonly pointsService: IPointsApplicationService
+  ) {}
+
+  /**
+   * GET /api/admin/users - List users with their roles
+   */
+  public listUsers = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const dto: ListUsersDto = req.query as any;
+
+      const result = await this.adminService.listUsers({
+        search: dto.search,
+        status: dto.status,
+        limit: dto.limit ? parseInt(dto.limit as any, 10) : 20,
+        offset: dto.offset ? parseInt(dto.offset as any, 10) : 0
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          users: result.users.map(summary => this.toUserResponse(summary)),
+          totalCount: result.totalCount,
+          hasMore: result.hasMore
+        },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'USER_LIST_FAILED',
+        error.message || 'Failed to list users'
+      );
+    }
+  };
+
+  /**
+   * POST /api/admin/users/:id/suspend - Suspend a user until a given date
+   */
+  public suspendUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: SuspendUserDto = req.body;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const user = await this.adminService.suspendUser({
+        userId: id,
+        adminId: req.userId,
+        reason: dto.reason,
+        until: new Date(dto.until)
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'User suspended',
+        data: this.toUserResponse({ user }),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'USER_SUSPEND_FAILED',
+        error.message || 'Failed to suspend user'
+      );
+    }
+  };
+
+  /**
+   * POST /api/admin/users/:id/ban - Ban a user and sign them out
+   */
+  public banUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: AdminActionReasonDto = req.body;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const user = await this.adminService.banUser({
+        userId: id,
+        adminId: req.userId,
+        reason: dto.reason
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'User banned',
+        data: this.toUserResponse({ user }),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'USER_BAN_FAILED',
+        error.message || 'Failed to ban user'
+      );
+    }
+  };
+
+  /**
+   * POST /api/admin/users/:id/reinstate - Lift a suspension or a ban
+   */
+  public reinstateUser = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: ReinstateUserDto = req.body;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const user = await this.adminService.reinstateUser({
+        userId: id,
+        adminId: req.userId,
+        reason: dto.reason
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'User reinstated',
+        data: this.toUserResponse({ user }),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'USER_REINSTATE_FAILED',
+        error.message || 'Failed to reinstate user'
+      );
+    }
+  };
+
+  /**
+   * GET /api/admin/users/:id/status-history - Every status change, newest first
+   */
+  public getStatusHistory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const changes = await this.adminService.getStatusHistory(id);
+
+      res.status(200).json({
+        success: true,
+        data: changes.map(change => this.toStatusChangeResponse(change)),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 404,
+        error.code || 'STATUS_HISTORY_FAILED',
+        error.message || 'Failed to get status history'
+      );
+    }
+  };
+
+  /**
+   * PUT /api/admin/users/:id/roles/:role - Grant a role
+   */
+  public grantRole = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, role } = req.params;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const roles = await this.adminService.grantRole({
+        userId: id,
+        adminId: req.userId,
+        role: role as 'admin'
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Role granted; it applies from the next sign-in',
+        data: { userId: id, roles },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'ROLE_GRANT_FAILED',
+        error.message || 'Failed to grant role'
+      );
+    }
+  };
+
+  /**
+   * DELETE /api/admin/users/:id/roles/:role - Revoke a role
+   */
+  public revokeRole = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, role } = req.params;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const roles = await this.adminService.revokeRole({
+        userId: id,
+        adminId: req.userId,
+        role: role as 'admin'
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Role revoked',
+        data: { userId: id, roles },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'ROLE_REVOKE_FAILED',
+        error.message || 'Failed to revoke role'
+      );
+    }
+  };
+
+  /**
+   * POST /api/admin/users/:id/badges - Unlock a custom badge for a user
+   */
+  public unlockBadge = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: UnlockBadgeDto = req.body;
+
+      await this.pointsService.unlockBadge({ userId: id, badgeId: dto.badgeId });
+
+      res.status(200).json({
+        success: true,
+        message: 'Badge unlocked',
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'BADGE_UNLOCK_FAILED',
+        error.message || 'Failed to unlock badge'
+      );
+    }
+  };
+
+  /**
+   * DELETE /api/admin/items/:id - Take down a listing and cancel its open exchanges
+   */
+  public removeItem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: AdminActionReasonDto = req.body;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const result = await this.adminService.removeItem({
+        itemId: id,
+        adminId: req.userId,
+        reason: dto.reason
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Item removed',
+        data: {
+          id: result.item.id.value,
+          status: result.item.status.value,
+          cancelledExchanges: result.cancelledExchanges
+        },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'ITEM_REMOVE_FAILED',
+        error.message || 'Failed to remove item'
+      );
+    }
+  };
+
+  /**
+   * POST /api/admin/exchanges/:id/cancel - Cancel an exchange on behalf of the platform
+   */
+  public cancelExchange = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: AdminActionReasonDto = req.body;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const exchange = await this.adminService.cancelExchange({
+        exchangeId: id,
+        adminId: req.userId,
+        reason: dto.reason
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Exchange cancelled',
+        data: this.toExchangeResponse(exchange),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'EXCHANGE_CANCEL_FAILED',
+        error.message || 'Failed to cancel exchange'
+      );
+    }
+  };
+
+  private toUserResponse(summary: { user: User; roles?: AdminUserSummary['roles'] }) {
+    const { user } = summary;
+    return {
+      id: user.id.value,
+      email: user.email.value,
+      displayName: user.profile.displayName,
+      accountType: user.profile.accountType,
+      isVerified: user.profile.isVerified,
+      roles: summary.roles,
+      accountStatus: this.toAccountStatusResponse(user),
+      totalExchanges: user.totalExchanges,
+      noShowCount: user.noShowCount,
+      createdAt: user.createdAt
+    };
+  }
+
+  private toAccountStatusResponse(user: User) {
+    const status = user.accountStatus;
+    // A suspension that has run out reads as active
+    if (status.effectiveValue() === 'active') {
+      return { value: 'active' };
+    }
+    return {
+      value: status.value,
+      reason: status.reason,
+      suspendedUntil: status.suspendedUntil,
+      changedBy: status.changedBy,
+      changedAt: status.changedAt
+    };
+  }
+
+  private toStatusChangeResponse(change: AccountStatusChange) {
+    return {
+      id: change.id,
+      status: change.status,
+      reason: change.reason,
+      suspendedUntil: change.suspendedUntil,
+      changedBy: change.changedBy,
+      changedAt: change.changedAt
+    };
+  }
+
+  private toExchangeResponse(exchange: Exchange) {
+    return {
+      id: exchange.id.value,
+      itemId: exchange.itemId.value,
+      giverId: exchange.giverId.value,
+      receiverId: exchange.receiverId.value,
+      status: exchange.status.value,
+      cancellationReason: exchange.cancellationReason,
+      updatedAt: exchange.updatedAt
+    };
+  }
+}
@@ -3,7 +3,7 @@ import { injectable, inject } from 'inversify';
 import { TYPES } from '@/container/types';
 import { IAuthenticationService } from '@/infrastructure/services/IAuthenticationService';
 import { IUserApplicationService } from '@/application/services/UserApplicationService';
-import { LoginDto, RefreshTokenDto } from '../dtos/auth.dto';
+import { LoginDto, RefreshTokenDto, ForgotPasswordDto, ResetPasswordDto, ChangePasswordDto } from '../dtos/auth.dto';
 import { AppError } from '../errors/AppError';
 
 @injectable()
@@ -40,11 +40,17 @@ export class AuthController {
         throw new AppError(401, 'INVALID_CREDENTIALS', 'Invalid email or password');
       }
 
-      // Generate tokens
+      // Suspended users can still sign in; they just can't post or exchange
+      if (user.isBanned()) {
+        throw new AppError(403, 'ACCOUNT_BANNED', 'This account has been banned');
+      }
+
+      // Roles are read once here and carried in the tokens until the session ends
+      const roles = await this.userService.getUserRoles(user.id.value);
       const tokens = await this.authService.generateToken(
         user.id.value,
         user.email.value,
-        []
+        roles
       );
 
       res.status(200).json({
@@ -58,7 +64,8 @@ export class AuthController {
             email: user.email.value,
             displayName: user.profile.displayName,
             avatar: user.profile.avatar,
-            isVerified: user.profile.isVerified
+            isVerified: user.profile.isVerified,
+            roles
           }
         },
         timestamp: new Date().toISOString()
@@ -130,6 +137,121 @@ export class AuthController {
     }
   };
 
+  /**
+   * POST /api/auth/logout-all - Sign out of all devices
+   * Requirements: 5.2
+   */
+  public logoutAll = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      await this.authService.revokeAllTokens(req.userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Signed out of all devices',
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError(
+        500,
+        'LOGOUT_FAILED',
+        error.message || 'Failed to sign out of all devices'
+      );
+    }
+  };
+
+  /**
+   * POST /api/auth/password/forgot - Email a password reset link
+   * Requirements: 5.2
+   */
+  public forgotPassword = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const dto: ForgotPasswordDto = req.body;
+
+      await this.userService.requestPasswordReset(dto.email);
+
+      // The same answer whether or not the address has an account
+      res.status(200).json({
+        success: true,
+        message: 'If an account with a password uses that email, a reset link is on its way',
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'PASSWORD_RESET_FAILED',
+        'Failed to send password reset email'
+      );
+    }
+  };
+
+  /**
+   * POST /api/auth/password/reset - Set a new password with a reset link
+   * Requirements: 5.2
+   */
+  public resetPassword = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const dto: ResetPasswordDto = req.body;
+
+      await this.userService.resetPassword({ resetToken: dto.token, newPassword: dto.password });
+
+      res.status(200).json({
+        success: true,
+        message: 'Password reset. Please log in with your new password.',
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'PASSWORD_RESET_FAILED',
+        error.message || 'Failed to reset password',
+        error.problems ? { problems: error.problems } : undefined
+      );
+    }
+  };
+
+  /**
+   * POST /api/auth/password/change - Change the current user's password
+   * Requirements: 5.2
+   */
+  public changePassword = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const dto: ChangePasswordDto = req.body;
+
+      await this.userService.changePassword({
+        userId: req.userId,
+        currentPassword: dto.currentPassword,
+        newPassword: dto.newPassword
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Password changed successfully',
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'PASSWORD_CHANGE_FAILED',
+        error.message || 'Failed to change password',
+        error.problems ? { problems: error.problems } : undefined
+      );
+    }
+  };
+
   /**
    * POST /api/auth/auth0-login - Login/Register user via Auth0
    * Requirements: 5.1, 5.2
@@ -226,6 +348,10 @@ export class AuthController {
         }
       }
 
+      if (user.isBanned()) {
+        throw new AppError(403, 'ACCOUNT_BANNED', 'This account has been banned');
+      }
+
       // Generate tokens
       console.log('[AuthController] Generating tokens for user:', user.id.value);
       const tokens = await this.authService.generateToken(
@@ -0,0 +1,237 @@
+import { Request, Response } from 'express';
+import { injectable, inject } from 'inversify';
+import multer from 'multer';
+import { TYPES } from '@/container/types';
+import { IExchangeDisputeApplicationService, OpenDisputeCommand, AddDisputeEvidenceCommand, ResolveDisputeCommand } from '@/application/services/ExchangeDisputeApplicationService';
+import { ExchangeDispute } from '@/domain/exchange/ExchangeDispute';
+import { OpenDisputeDto, ResolveDisputeDto, ListDisputesDto } from '../dtos/dispute.dto';
+import { AppError } from '../errors/AppError';
+
+// Evidence is kept in memory only long enough to hand it to file storage
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB per file
+    files: 10 // Maximum 10 files
+  },
+  fileFilter: (req, file, cb) => {
+    // Accept photos and documents such as receipts
+    if (file.mimetype.startsWith('image/') || file.mimetype === 'application/pdf') {
+      cb(null, true);
+    } else {
+      cb(new Error('Only image and PDF files are allowed'));
+    }
+  }
+});
+
+@injectable()
+export class DisputeController {
+  constructor(
+    @inject(TYPES.IExchangeDisputeApplicationService)
+    private readonly disputeService: IExchangeDisputeApplicationService
+  ) {}
+
+  /**
+   * Multer middleware for evidence uploads
+   */
+  public uploadMiddleware = upload.array('files', 10);
+
+  /**
+   * POST /api/disputes - Report a problem with an exchange
+   */
+  public openDispute = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const dto: OpenDisputeDto = req.body;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const command: OpenDisputeCommand = {
+        exchangeId: dto.exchangeId,
+        reporterId: req.userId,
+        reason: dto.reason,
+        description: dto.description
+      };
+
+      const dispute = await this.disputeService.openDispute(command);
+
+      res.status(201).json({
+        success: true,
+        message: 'Your report has been sent to our team',
+        data: this.toResponse(dispute),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'DISPUTE_OPEN_FAILED',
+        error.message || 'Failed to report problem'
+      );
+    }
+  };
+
+  /**
+   * POST /api/disputes/:id/evidence - Attach photos or documents to a report
+   */
+  public addEvidence = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const files = req.files as Express.Multer.File[];
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      if (!files || files.length === 0) {
+        throw new AppError(400, 'MISSING_FILES', 'At least one evidence file is required');
+      }
+
+      const command: AddDisputeEvidenceCommand = {
+        disputeId: id,
+        userId: req.userId,
+        files: files.map(file => ({
+          buffer: file.buffer,
+          contentType: file.mimetype,
+          filename: file.originalname
+        }))
+      };
+
+      const dispute = await this.disputeService.addEvidence(command);
+
+      res.status(200).json({
+        success: true,
+        data: this.toResponse(dispute),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'DISPUTE_EVIDENCE_FAILED',
+        error.message || 'Failed to add evidence'
+      );
+    }
+  };
+
+  /**
+   * GET /api/disputes/:id - Get a dispute the user is involved in
+   */
+  public getDispute = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const dispute = await this.disputeService.getDispute({
+        disputeId: id,
+        userId: req.userId,
+        isAdmin: (req.user?.roles || []).includes('admin')
+      });
+
+      res.status(200).json({
+        success: true,
+        data: this.toResponse(dispute),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 404,
+        error.code || 'DISPUTE_NOT_FOUND',
+        error.message || 'Dispute not found'
+      );
+    }
+  };
+
+  /**
+   * GET /api/disputes - List disputes for review (admin only)
+   */
+  public listDisputes = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const dto: ListDisputesDto = req.query as any;
+
+      const result = await this.disputeService.listDisputes({
+        status: dto.status === 'resolved' ? 'resolved' : 'open',
+        limit: dto.limit ? parseInt(dto.limit as any, 10) : 20,
+        offset: dto.offset ? parseInt(dto.offset as any, 10) : 0
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          disputes: result.disputes.map(dispute => this.toResponse(dispute)),
+          totalCount: result.totalCount,
+          hasMore: result.hasMore
+        },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'DISPUTE_LIST_FAILED',
+        error.message || 'Failed to list disputes'
+      );
+    }
+  };
+
+  /**
+   * POST /api/disputes/:id/resolve - Resolve a dispute (admin only)
+   */
+  public resolveDispute = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: ResolveDisputeDto = req.body;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      if (dto.outcome !== 'upheld' && dto.outcome !== 'dismissed') {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Outcome must be upheld or dismissed');
+      }
+
+      const command: ResolveDisputeCommand = {
+        disputeId: id,
+        adminId: req.userId,
+        outcome: dto.outcome,
+        note: dto.note,
+        reversePoints: dto.reversePoints === true,
+        clearRatings: dto.clearRatings === true,
+        restoreItem: dto.restoreItem === true
+      };
+
+      const dispute = await this.disputeService.resolveDispute(command);
+
+      res.status(200).json({
+        success: true,
+        message: 'Dispute resolved',
+        data: this.toResponse(dispute),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'DISPUTE_RESOLVE_FAILED',
+        error.message || 'Failed to resolve dispute'
+      );
+    }
+  };
+
+  private toResponse(dispute: ExchangeDispute) {
+    return {
+      id: dispute.id.value,
+      exchangeId: dispute.exchangeId.value,
+      reportedBy: dispute.reportedBy.value,
+      reportedUserId: dispute.reportedUserId.value,
+      reason: dispute.reason.value,
+      reasonLabel: dispute.reason.getLabel(),
+      description: dispute.description,
+      evidence: dispute.evidence,
+      status: dispute.isOpen() ? 'open' : 'resolved',
+      resolution: dispute.resolution,
+      createdAt: dispute.createdAt,
+      updatedAt: dispute.updatedAt
+    };
+  }
+}
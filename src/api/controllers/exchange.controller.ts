@@ -1,15 +1,18 @@
 import { Request, Response } from 'express';
 import { injectable, inject } from 'inversify';
 import { TYPES } from '@/container/types';
-import { IExchangeApplicationService, InitiateExchangeCommand, AcceptExchangeCommand, CompleteExchangeCommand, CancelExchangeCommand, RateExchangeCommand, GetExchangeHistoryQuery } from '@/application/services/ExchangeApplicationService';
-import { InitiateExchangeDto, AcceptExchangeDto, CompleteExchangeDto, CancelExchangeDto, RateExchangeDto, GetExchangeHistoryDto } from '../dtos/exchange.dto';
+import { IExchangeApplicationService, InitiateExchangeCommand, AcceptExchangeCommand, CompleteExchangeCommand, CancelExchangeCommand, RateExchangeCommand, GetExchangeHistoryQuery, RequestItemCommand, GetItemRequestsQuery, SelectItemRequestCommand, WithdrawItemRequestCommand, ProposePickupSlotsCommand, ChoosePickupSlotCommand, ShowHandoffCodeCommand, ConfirmHandoffCodeCommand } from '@/application/services/ExchangeApplicationService';
+import { IExchangeMessageApplicationService, SendExchangeMessageCommand, GetExchangeMessagesQuery } from '@/application/services/ExchangeMessageApplicationService';
+import { InitiateExchangeDto, AcceptExchangeDto, ProposePickupSlotsDto, ShowHandoffCodeDto, ConfirmHandoffCodeDto, CancelExchangeDto, RateExchangeDto, GetExchangeHistoryDto, RequestItemDto, SelectItemRequestDto, GetItemRequestsDto, SendExchangeMessageDto, GetExchangeMessagesDto } from '../dtos/exchange.dto';
 import { AppError } from '../errors/AppError';
 
 @injectable()
 export class ExchangeController {
   constructor(
     @inject(TYPES.IExchangeApplicationService)
-    private readonly exchangeService: IExchangeApplicationService
+    private readonly exchangeService: IExchangeApplicationService,
+    @inject(TYPES.IExchangeMessageApplicationService)
+    private readonly messageService: IExchangeMessageApplicationService
   ) {}
 
   /**
@@ -28,6 +31,7 @@ export class ExchangeController {
         itemId: dto.itemId,
         giverId: req.userId,
         receiverId: dto.receiverId,
+        quantity: dto.quantity,
         message: dto.message,
         scheduledPickup: dto.scheduledPickup ? new Date(dto.scheduledPickup) : undefined
       };
@@ -38,7 +42,6 @@ export class ExchangeController {
         success: true,
         data: {
           exchangeId: result.exchangeId,
-          notificationSent: result.notificationSent,
           message: 'Exchange request sent successfully'
         },
         timestamp: new Date().toISOString()
@@ -52,6 +55,183 @@ export class ExchangeController {
     }
   };
 
+  /**
+   * POST /api/items/:id/requests - Request an item from its owner
+   */
+  public requestItem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: RequestItemDto = req.body;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const command: RequestItemCommand = {
+        itemId: id,
+        requesterId: req.userId,
+        quantity: dto.quantity,
+        message: dto.message
+      };
+
+      const result = await this.exchangeService.requestItem(command);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          requestId: result.requestId,
+          message: 'Item requested successfully'
+        },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'ITEM_REQUEST_FAILED',
+        error.message || 'Failed to request item'
+      );
+    }
+  };
+
+  /**
+   * GET /api/items/:id/requests - List requests for an item (owner only)
+   */
+  public getItemRequests = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const dto: GetItemRequestsDto = req.query as any;
+
+      const query: GetItemRequestsQuery = {
+        itemId: id,
+        ownerId: req.userId,
+        sortBy: dto.sortBy,
+        includeClosed: String(dto.includeClosed) === 'true'
+      };
+
+      const requests = await this.exchangeService.getItemRequests(query);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          requests,
+          count: requests.length
+        },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'FETCH_FAILED',
+        error.message || 'Failed to fetch item requests'
+      );
+    }
+  };
+
+  /**
+   * POST /api/items/:id/requests/:requestId/select - Choose who receives the item
+   */
+  public selectItemRequest = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, requestId } = req.params;
+      const dto: SelectItemRequestDto = req.body || {};
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const command: SelectItemRequestCommand = {
+        itemId: id,
+        requestId,
+        ownerId: req.userId,
+        scheduledPickup: dto.scheduledPickup ? new Date(dto.scheduledPickup) : undefined
+      };
+
+      const result = await this.exchangeService.selectItemRequest(command);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          exchangeId: result.exchangeId,
+          declinedCount: result.declinedCount,
+          message: 'Request selected and exchange created'
+        },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'SELECT_REQUEST_FAILED',
+        error.message || 'Failed to select item request'
+      );
+    }
+  };
+
+  /**
+   * DELETE /api/items/:id/requests/:requestId - Withdraw a pending request
+   */
+  public withdrawItemRequest = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, requestId } = req.params;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const command: WithdrawItemRequestCommand = {
+        itemId: id,
+        requestId,
+        requesterId: req.userId
+      };
+
+      await this.exchangeService.withdrawItemRequest(command);
+
+      res.status(200).json({
+        success: true,
+        message: 'Item request withdrawn successfully',
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'WITHDRAW_FAILED',
+        error.message || 'Failed to withdraw item request'
+      );
+    }
+  };
+
+  /**
+   * GET /api/exchanges/requests - Get the current user's item requests
+   */
+  public getMyItemRequests = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const requests = await this.exchangeService.getUserItemRequests(req.userId, req.query.status as any);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          requests: requests.map(request => request.toData()),
+          count: requests.length
+        },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'FETCH_FAILED',
+        error.message || 'Failed to fetch item requests'
+      );
+    }
+  };
+
   /**
    * PUT /api/exchanges/:id/accept - Accept an exchange request
    * Requirements: 2.5
@@ -87,6 +267,185 @@ export class ExchangeController {
     }
   };
 
+  /**
+   * POST /api/exchanges/:id/pickup-slots - Propose pickup time slots
+   */
+  public proposePickupSlots = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: ProposePickupSlotsDto = req.body;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      if (!Array.isArray(dto.slots) || dto.slots.length === 0) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'At least one pickup slot is required');
+      }
+
+      const command: ProposePickupSlotsCommand = {
+        exchangeId: id,
+        userId: req.userId,
+        slots: dto.slots.map(slot => ({
+          startsAt: new Date(slot.startsAt),
+          endsAt: new Date(slot.endsAt)
+        }))
+      };
+
+      const exchange = await this.exchangeService.proposePickupSlots(command);
+
+      res.status(200).json({
+        success: true,
+        message: 'Pickup slots proposed successfully',
+        data: {
+          pickupSlots: exchange.pickupSlots.map(slot => slot.toData())
+        },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'PROPOSE_SLOTS_FAILED',
+        error.message || 'Failed to propose pickup slots'
+      );
+    }
+  };
+
+  /**
+   * POST /api/exchanges/:id/pickup-slots/:slotId/choose - Agree on a proposed pickup slot
+   */
+  public choosePickupSlot = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, slotId } = req.params;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const command: ChoosePickupSlotCommand = {
+        exchangeId: id,
+        userId: req.userId,
+        slotId
+      };
+
+      const exchange = await this.exchangeService.choosePickupSlot(command);
+
+      res.status(200).json({
+        success: true,
+        message: 'Pickup time agreed successfully',
+        data: {
+          scheduledPickup: exchange.scheduledPickup,
+          scheduledPickupEnd: exchange.scheduledPickupEnd
+        },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'CHOOSE_SLOT_FAILED',
+        error.message || 'Failed to choose pickup slot'
+      );
+    }
+  };
+
+  /**
+   * GET /api/exchanges/:id/pickup.ics - Download the agreed pickup as a calendar event
+   */
+  public downloadPickupInvite = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const invite = await this.exchangeService.getPickupCalendarInvite(id, req.userId);
+
+      res.setHeader('Content-Type', invite.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${invite.filename}"`);
+      res.status(200).send(invite.content);
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'CALENDAR_INVITE_FAILED',
+        error.message || 'Failed to create calendar invite'
+      );
+    }
+  };
+
+  /**
+   * POST /api/exchanges/:id/handoff-code - Show the giver's handoff code, issuing a new one when needed
+   */
+  public showHandoffCode = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: ShowHandoffCodeDto = req.body ?? {};
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const command: ShowHandoffCodeCommand = {
+        exchangeId: id,
+        userId: req.userId,
+        regenerate: dto.regenerate === true
+      };
+
+      const result = await this.exchangeService.showHandoffCode(command);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'HANDOFF_CODE_FAILED',
+        error.message || 'Failed to get handoff code'
+      );
+    }
+  };
+
+  /**
+   * POST /api/exchanges/:id/handoff-code/confirm - Complete an exchange with the giver's handoff code
+   */
+  public confirmHandoffCode = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: ConfirmHandoffCodeDto = req.body;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      if (typeof dto.code !== 'string' || !/^\d{6}$/.test(dto.code.trim())) {
+        throw new AppError(400, 'VALIDATION_ERROR', 'Handoff code must be 6 digits');
+      }
+
+      const command: ConfirmHandoffCodeCommand = {
+        exchangeId: id,
+        userId: req.userId,
+        code: dto.code
+      };
+
+      const result = await this.exchangeService.confirmHandoffWithCode(command);
+
+      res.status(200).json({
+        success: true,
+        message: 'Handoff confirmed. Eco-points have been awarded!',
+        data: { completed: result.completed },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'HANDOFF_CONFIRM_FAILED',
+        error.message || 'Failed to confirm handoff'
+      );
+    }
+  };
+
   /**
    * POST /api/exchanges/:id/complete - Complete an exchange
    * Requirements: 2.5, 4.2
@@ -94,7 +453,6 @@ export class ExchangeController {
   public completeExchange = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
-      const dto: CompleteExchangeDto = req.body;
 
       if (!req.userId) {
         throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
@@ -102,8 +460,7 @@ export class ExchangeController {
 
       const command: CompleteExchangeCommand = {
         exchangeId: id,
-        userId: req.userId,
-        ecoPointsAwarded: dto.ecoPointsAwarded
+        userId: req.userId
       };
 
       const result = await this.exchangeService.completeExchange(command);
@@ -213,7 +570,10 @@ export class ExchangeController {
           giverId: exchange.giverId.value,
           receiverId: exchange.receiverId.value,
           status: exchange.status.value,
+          quantity: exchange.quantity,
           scheduledPickup: exchange.scheduledPickup,
+          scheduledPickupEnd: exchange.scheduledPickupEnd,
+          pickupSlots: exchange.pickupSlots.map(slot => slot.toData()),
           completedAt: exchange.completedAt,
           giverConfirmedAt: exchange.giverConfirmedAt,
           receiverConfirmedAt: exchange.receiverConfirmedAt,
@@ -248,10 +608,12 @@ export class ExchangeController {
       const query: GetExchangeHistoryQuery = {
         userId: req.userId,
         status: dto.status,
-        asGiver: dto.asGiver,
-        asReceiver: dto.asReceiver,
-        limit: dto.limit || 20,
-        offset: dto.offset || 0
+        // Query values arrive as strings
+        asGiver: String(dto.asGiver) === 'true',
+        asReceiver: String(dto.asReceiver) === 'true',
+        limit: Math.min(parseInt(String(dto.limit), 10) || 20, 100),
+        offset: Math.max(parseInt(String(dto.offset), 10) || 0, 0),
+        cursor: typeof dto.cursor === 'string' && dto.cursor ? dto.cursor : undefined
       };
 
       const result = await this.exchangeService.getExchangeHistory(query);
@@ -262,6 +624,7 @@ export class ExchangeController {
         giverId: exchange.giverId.value,
         receiverId: exchange.receiverId.value,
         status: exchange.status.value,
+        quantity: exchange.quantity,
         scheduledPickup: exchange.scheduledPickup,
         completedAt: exchange.completedAt,
         giverConfirmedAt: exchange.giverConfirmedAt,
@@ -277,6 +640,7 @@ export class ExchangeController {
           exchanges,
           totalCount: result.totalCount,
           hasMore: result.hasMore,
+          nextCursor: result.nextCursor,
           limit: query.limit,
           offset: query.offset
         },
@@ -308,7 +672,10 @@ export class ExchangeController {
         giverId: exchange.giverId.value,
         receiverId: exchange.receiverId.value,
         status: exchange.status.value,
+        quantity: exchange.quantity,
         scheduledPickup: exchange.scheduledPickup,
+        scheduledPickupEnd: exchange.scheduledPickupEnd,
+        pickupSlots: exchange.pickupSlots.map(slot => slot.toData()),
         giverConfirmedAt: exchange.giverConfirmedAt,
         receiverConfirmedAt: exchange.receiverConfirmedAt,
         createdAt: exchange.createdAt,
@@ -349,6 +716,7 @@ export class ExchangeController {
         giverId: exchange.giverId.value,
         receiverId: exchange.receiverId.value,
         status: exchange.status.value,
+        quantity: exchange.quantity,
         completedAt: exchange.completedAt,
         giverConfirmedAt: exchange.giverConfirmedAt,
         receiverConfirmedAt: exchange.receiverConfirmedAt,
@@ -371,4 +739,138 @@ export class ExchangeController {
       );
     }
   };
+
+  /**
+   * GET /api/exchanges/:id/messages - Get the conversation for an exchange
+   */
+  public getMessages = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const dto: GetExchangeMessagesDto = req.query as any;
+
+      const query: GetExchangeMessagesQuery = {
+        exchangeId: id,
+        userId: req.userId,
+        limit: dto.limit ? parseInt(String(dto.limit), 10) : 50,
+        offset: dto.offset ? parseInt(String(dto.offset), 10) : 0
+      };
+
+      const result = await this.messageService.getMessages(query);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          messages: result.messages.map(message => message.toData()),
+          totalCount: result.totalCount,
+          hasMore: result.hasMore,
+          limit: query.limit,
+          offset: query.offset
+        },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'FETCH_FAILED',
+        error.message || 'Failed to fetch messages'
+      );
+    }
+  };
+
+  /**
+   * POST /api/exchanges/:id/messages - Send a message to the other participant
+   */
+  public sendMessage = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: SendExchangeMessageDto = req.body;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const command: SendExchangeMessageCommand = {
+        exchangeId: id,
+        senderId: req.userId,
+        body: dto.body
+      };
+
+      const result = await this.messageService.sendMessage(command);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          messageId: result.messageId,
+          notificationSent: result.notificationSent
+        },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'MESSAGE_SEND_FAILED',
+        error.message || 'Failed to send message'
+      );
+    }
+  };
+
+  /**
+   * POST /api/exchanges/:id/messages/read - Mark the conversation as read
+   */
+  public markMessagesAsRead = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const markedCount = await this.messageService.markMessagesAsRead({
+        exchangeId: id,
+        userId: req.userId
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { markedCount },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'MARK_READ_FAILED',
+        error.message || 'Failed to mark messages as read'
+      );
+    }
+  };
+
+  /**
+   * GET /api/exchanges/messages/unread - Get unread message counts
+   */
+  public getUnreadMessageCounts = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const counts = await this.messageService.getUnreadCounts(req.userId);
+
+      res.status(200).json({
+        success: true,
+        data: counts,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'FETCH_FAILED',
+        error.message || 'Failed to fetch unread message counts'
+      );
+    }
+  };
 }
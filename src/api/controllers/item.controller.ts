@@ -2,9 +2,10 @@ import { Request, Response } from 'express';
 import { injectable, inject } from 'inversify';
 import multer from 'multer';
 import { TYPES } from '@/container/types';
-import { IItemApplicationService, CreateItemCommand, UpdateItemCommand, UpdateItemStatusCommand, SearchItemsQuery } from '@/application/services/ItemApplicationService';
-import { CreateItemDto, UpdateItemDto, UpdateItemStatusDto, SearchItemsDto } from '../dtos/item.dto';
+import { IItemApplicationService, CreateItemCommand, UpdateItemCommand, UpdateItemStatusCommand, RenewItemCommand, SearchItemsQuery, ItemImageUpload } from '@/application/services/ItemApplicationService';
+import { CreateItemDto, UpdateItemDto, UpdateItemStatusDto, RenewItemDto, SearchItemsDto, GetItemHistoryDto, RemoveItemImagesDto, ReorderItemImagesDto } from '../dtos/item.dto';
 import { AppError } from '../errors/AppError';
+import { ItemCondition, ITEM_CONDITIONS } from '@/domain/item/value-objects/ItemDetails';
 
 // Configure multer for memory storage
 const upload = multer({
@@ -52,12 +53,7 @@ export class ItemController {
         throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
       }
 
-      // Convert files to the format expected by the service
-      const images = files.map(file => ({
-        buffer: file.buffer,
-        contentType: file.mimetype,
-        filename: file.originalname
-      }));
+      const images = this.toImageUploads(files);
 
       const command: CreateItemCommand = {
         userId: req.userId,
@@ -72,7 +68,10 @@ export class ItemController {
           address: dto.address
         },
         dimensions: dto.dimensions,
-        pickupInstructions: dto.pickupInstructions
+        pickupInstructions: dto.pickupInstructions,
+        // Multipart fields arrive as strings
+        quantity: dto.quantity !== undefined ? Number(dto.quantity) : undefined,
+        isLot: String(dto.isLot) === 'true'
       };
 
       const result = await this.itemService.createItem(command);
@@ -81,7 +80,7 @@ export class ItemController {
         success: true,
         data: {
           itemId: result.itemId,
-          imageUrls: result.imageUrls,
+          images: result.images,
           suggestedTags: result.suggestedTags,
           aiAnalysis: result.aiAnalysisResult ? {
             confidence: result.aiAnalysisResult.confidence,
@@ -108,10 +107,16 @@ export class ItemController {
     try {
       const dto: SearchItemsDto = req.query as any;
 
+      const conditions = this.parseListParam(dto.condition);
+      if (conditions && conditions.some(condition => !ITEM_CONDITIONS.includes(condition as ItemCondition))) {
+        throw new AppError(400, 'VALIDATION_ERROR', `Condition must be one of: ${ITEM_CONDITIONS.join(', ')}`);
+      }
+
       const query: SearchItemsQuery = {
         searchTerm: dto.searchTerm,
-        category: dto.category,
-        tags: dto.tags,
+        categories: this.parseListParam(dto.category),
+        conditions: conditions as ItemCondition[] | undefined,
+        tags: this.parseListParam(dto.tags),
         status: dto.status || 'available',
         maxDistance: dto.maxDistance,
         userLocation: dto.latitude && dto.longitude ? {
@@ -123,8 +128,11 @@ export class ItemController {
         maxRating: dto.maxRating,
         createdAfter: dto.createdAfter ? new Date(dto.createdAfter) : undefined,
         createdBefore: dto.createdBefore ? new Date(dto.createdBefore) : undefined,
-        limit: dto.limit || 20,
-        offset: dto.offset || 0
+        // Query values arrive as strings
+        limit: Math.min(parseInt(String(dto.limit), 10) || 20, 100),
+        offset: Math.max(parseInt(String(dto.offset), 10) || 0, 0),
+        cursor: typeof dto.cursor === 'string' && dto.cursor ? dto.cursor : undefined,
+        includeFacets: String(dto.facets) === 'true'
       };
 
       const result = await this.itemService.searchItems(query);
@@ -137,6 +145,7 @@ export class ItemController {
       const items = result.items.map(item => {
         const itemData = item.details.toData();
         const locationData = item.location.toData();
+        const highlight = result.highlights?.[item.id.value];
         const distanceKm = userLocation
           ? this.calculateDistanceKm(
               userLocation.latitude,
@@ -153,13 +162,18 @@ export class ItemController {
           description: itemData.description,
           category: itemData.category,
           tags: itemData.tags,
-          images: itemData.images,
+          images: item.details.images,
           condition: itemData.condition,
           status: item.status.value,
+          quantity: item.quantity,
+          quantityAvailable: item.quantityUnclaimed,
+          isLot: item.isLot,
           location: locationData,
           ...(distanceKm !== undefined ? { distanceKm } : {}),
+          ...(highlight ? { highlight } : {}),
           dimensions: itemData.dimensions,
           pickupInstructions: itemData.pickupInstructions,
+          expiresAt: item.expiresAt,
           createdAt: item.createdAt,
           updatedAt: item.updatedAt
         };
@@ -171,8 +185,10 @@ export class ItemController {
           items,
           totalCount: result.totalCount,
           hasMore: result.hasMore,
+          nextCursor: result.nextCursor,
           limit: query.limit,
-          offset: query.offset
+          offset: query.offset,
+          ...(result.facets ? { facets: result.facets } : {})
         },
         timestamp: new Date().toISOString()
       });
@@ -185,6 +201,16 @@ export class ItemController {
     }
   };
 
+  /**
+   * List filters arrive as one value, a comma-separated string or, when the
+   * parameter is repeated, an array.
+   */
+  private parseListParam(value: unknown): string[] | undefined {
+    const entries = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+    const values = entries.map(entry => String(entry).trim()).filter(entry => entry.length > 0);
+    return values.length > 0 ? values : undefined;
+  }
+
   private calculateDistanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
     const toRad = (deg: number) => (deg * Math.PI) / 180;
     const R = 6371; // km
@@ -219,12 +245,16 @@ export class ItemController {
           description: itemData.description,
           category: itemData.category,
           tags: itemData.tags,
-          images: itemData.images,
+          images: item.details.images,
           condition: itemData.condition,
           status: item.status.value,
+          quantity: item.quantity,
+          quantityAvailable: item.quantityUnclaimed,
+          isLot: item.isLot,
           location: locationData,
           dimensions: itemData.dimensions,
           pickupInstructions: itemData.pickupInstructions,
+          expiresAt: item.expiresAt,
           createdAt: item.createdAt,
           updatedAt: item.updatedAt
         },
@@ -239,6 +269,51 @@ export class ItemController {
     }
   };
 
+  /**
+   * GET /api/items/:id/history - Get the item's edit history, newest first
+   */
+  public getItemHistory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: GetItemHistoryDto = req.query as any;
+
+      const limit = Math.min(parseInt(String(dto.limit), 10) || 20, 100);
+      const offset = Math.max(parseInt(String(dto.offset), 10) || 0, 0);
+
+      const result = await this.itemService.getItemHistory({
+        itemId: id,
+        limit,
+        offset,
+        cursor: typeof dto.cursor === 'string' && dto.cursor ? dto.cursor : undefined
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          revisions: result.revisions.map(revision => ({
+            id: revision.id,
+            version: revision.version,
+            changedBy: revision.changedBy,
+            changes: revision.changes,
+            createdAt: revision.createdAt
+          })),
+          totalCount: result.totalCount,
+          hasMore: result.hasMore,
+          nextCursor: result.nextCursor,
+          limit,
+          offset
+        },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 404,
+        error.code || 'ITEM_NOT_FOUND',
+        error.message || 'Item not found'
+      );
+    }
+  };
+
   /**
    * PUT /api/items/:id - Update item details
    * Requirements: 1.2, 1.4
@@ -279,6 +354,106 @@ export class ItemController {
     }
   };
 
+  /**
+   * POST /api/items/:id/images - Add photos to an item
+   */
+  public addItemImages = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const files = req.files as Express.Multer.File[];
+
+      if (!files || files.length === 0) {
+        throw new AppError(400, 'MISSING_IMAGES', 'At least one image is required');
+      }
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const images = await this.itemService.addItemImages({
+        itemId: id,
+        userId: req.userId,
+        images: this.toImageUploads(files)
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { images },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'IMAGE_UPLOAD_FAILED',
+        error.message || 'Failed to add images'
+      );
+    }
+  };
+
+  /**
+   * DELETE /api/items/:id/images - Remove photos from an item
+   */
+  public removeItemImages = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: RemoveItemImagesDto = req.body;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const images = await this.itemService.removeItemImages({
+        itemId: id,
+        userId: req.userId,
+        positions: dto.positions
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { images },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'IMAGE_REMOVAL_FAILED',
+        error.message || 'Failed to remove images'
+      );
+    }
+  };
+
+  /**
+   * PUT /api/items/:id/images/order - Change the order of an item's photos
+   */
+  public reorderItemImages = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: ReorderItemImagesDto = req.body;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const images = await this.itemService.reorderItemImages({
+        itemId: id,
+        userId: req.userId,
+        order: dto.order
+      });
+
+      res.status(200).json({
+        success: true,
+        data: { images },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'IMAGE_REORDER_FAILED',
+        error.message || 'Failed to reorder images'
+      );
+    }
+  };
+
   /**
    * PUT /api/items/:id/status - Update item status
    * Requirements: 1.4
@@ -314,6 +489,47 @@ export class ItemController {
     }
   };
 
+  /**
+   * POST /api/items/:id/renew - Extend a listing, or relist an expired one
+   * Owners can renew signed in, or with the token from their renewal reminder
+   */
+  public renewItem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: RenewItemDto = req.body;
+
+      const token = typeof dto.token === 'string' && dto.token ? dto.token : undefined;
+      if (!req.userId && !token) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication or a renewal token is required');
+      }
+
+      const command: RenewItemCommand = {
+        itemId: id,
+        userId: req.userId,
+        token
+      };
+
+      const item = await this.itemService.renewItem(command);
+
+      res.status(200).json({
+        success: true,
+        message: 'Listing renewed successfully',
+        data: {
+          id: item.id.value,
+          status: item.status.value,
+          expiresAt: item.expiresAt
+        },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'RENEW_FAILED',
+        error.message || 'Failed to renew listing'
+      );
+    }
+  };
+
   /**
    * DELETE /api/items/:id - Delete an item
    * Requirements: 1.4
@@ -362,10 +578,14 @@ export class ItemController {
           description: itemData.description,
           category: itemData.category,
           tags: itemData.tags,
-          images: itemData.images,
+          images: item.details.images,
           condition: itemData.condition,
           status: item.status.value,
+          quantity: item.quantity,
+          quantityAvailable: item.quantityUnclaimed,
+          isLot: item.isLot,
           location: locationData,
+          expiresAt: item.expiresAt,
           createdAt: item.createdAt,
           updatedAt: item.updatedAt
         };
@@ -409,4 +629,13 @@ export class ItemController {
       );
     }
   };
+
+  // Convert files to the format expected by the service
+  private toImageUploads(files: Express.Multer.File[]): ItemImageUpload[] {
+    return files.map(file => ({
+      buffer: file.buffer,
+      contentType: file.mimetype,
+      filename: file.originalname
+    }));
+  }
 }
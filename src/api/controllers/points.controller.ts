@@ -2,21 +2,20 @@ import { Request, Response, NextFunction } from 'express';
 import { inject, injectable } from 'inversify';
 import { TYPES } from '@/container/types';
 import { IPointsApplicationService } from '@/application/services/PointsApplicationService';
-import { IUserApplicationService } from '@/application/services/UserApplicationService';
 import {
   LeaderboardQueryDto,
   LeaderboardEntryDto,
   BadgeDto,
-  UserAchievementSummaryDto
+  UserAchievementSummaryDto,
+  PointsTransactionsQueryDto,
+  PointsTransactionsDto
 } from '../dtos/points.dto';
 
 @injectable()
 export class PointsController {
   constructor(
     @inject(TYPES.IPointsApplicationService)
-    private readonly pointsService: IPointsApplicationService,
-    @inject(TYPES.IUserApplicationService)
-    private readonly userService: IUserApplicationService
+    private readonly pointsService: IPointsApplicationService
   ) {}
 
   async getUserAchievements(
@@ -83,17 +82,35 @@ export class PointsController {
         return;
       }
 
-      const user = await this.userService.getUserProfile(userId);
-      const transactions = user.ecoPoints.transactions.map((t) => ({
-        points: t.points,
-        reason: t.reason,
-        timestamp: t.timestamp
-      }));
+      const query: PointsTransactionsQueryDto = {
+        limit: req.query.limit ? Math.min(parseInt(req.query.limit as string) || 20, 100) : 20,
+        offset: req.query.offset ? Math.max(parseInt(req.query.offset as string) || 0, 0) : 0,
+        cursor: typeof req.query.cursor === 'string' && req.query.cursor ? req.query.cursor : undefined
+      };
 
-      res.json({
+      const result = await this.pointsService.getPointsTransactions({
         userId,
-        transactions
+        limit: query.limit,
+        offset: query.offset,
+        cursor: query.cursor
       });
+
+      const response: PointsTransactionsDto = {
+        userId,
+        transactions: result.entries.map(entry => ({
+          id: entry.id,
+          points: entry.points,
+          reason: entry.reason,
+          timestamp: entry.createdAt
+        })),
+        totalCount: result.totalCount,
+        hasMore: result.hasMore,
+        nextCursor: result.nextCursor,
+        limit: query.limit!,
+        offset: query.offset!
+      };
+
+      res.json(response);
     } catch (error) {
       next(error);
     }
@@ -107,12 +124,19 @@ export class PointsController {
     try {
       const query: LeaderboardQueryDto = {
         communityId: req.query.communityId as string,
-        limit: req.query.limit ? parseInt(req.query.limit as string) : 100
+        limit: req.query.limit ? Math.min(parseInt(req.query.limit as string) || 100, 100) : 100,
+        offset: req.query.offset ? Math.max(parseInt(req.query.offset as string) || 0, 0) : 0,
+        cursor: typeof req.query.cursor === 'string' && req.query.cursor ? req.query.cursor : undefined
       };
 
       const leaderboard = await this.pointsService.getLeaderboard(query);
 
-      const response: LeaderboardEntryDto[] = leaderboard.map(entry => ({
+      // The body stays a plain array for existing clients; the next page's cursor goes in a header
+      if (leaderboard.nextCursor) {
+        res.setHeader('X-Next-Cursor', leaderboard.nextCursor);
+      }
+
+      const response: LeaderboardEntryDto[] = leaderboard.entries.map(entry => ({
         userId: entry.userId,
         displayName: entry.displayName,
         avatar: entry.avatar,
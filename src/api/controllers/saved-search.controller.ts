@@ -0,0 +1,197 @@
+import { Request, Response } from 'express';
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { ISavedSearchApplicationService, CreateSavedSearchCommand, UpdateSavedSearchCommand } from '@/application/services/SavedSearchApplicationService';
+import { SavedSearch, SavedSearchCriteria } from '@/domain/user/SavedSearch';
+import { CreateSavedSearchDto, UpdateSavedSearchDto } from '../dtos/saved-search.dto';
+import { AppError } from '../errors/AppError';
+
+@injectable()
+export class SavedSearchController {
+  constructor(
+    @inject(TYPES.ISavedSearchApplicationService)
+    private readonly savedSearchService: ISavedSearchApplicationService
+  ) {}
+
+  /**
+   * GET /api/users/me/saved-searches - List the current user's saved searches
+   */
+  public getSavedSearches = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const savedSearches = await this.savedSearchService.getSavedSearches(req.userId);
+
+      res.status(200).json({
+        success: true,
+        data: savedSearches.map(savedSearch => this.toResponse(savedSearch)),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'SAVED_SEARCHES_FETCH_FAILED',
+        error.message || 'Failed to get saved searches'
+      );
+    }
+  };
+
+  /**
+   * POST /api/users/me/saved-searches - Save a search and get alerts for new matches
+   */
+  public createSavedSearch = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const dto: CreateSavedSearchDto = req.body;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const command: CreateSavedSearchCommand = {
+        userId: req.userId,
+        name: dto.name,
+        criteria: this.toCriteria(dto),
+        location: dto.location,
+        alertFrequency: dto.alertFrequency
+      };
+
+      const savedSearch = await this.savedSearchService.createSavedSearch(command);
+
+      res.status(201).json({
+        success: true,
+        message: 'Search saved successfully',
+        data: this.toResponse(savedSearch),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'SAVED_SEARCH_CREATE_FAILED',
+        error.message || 'Failed to save search'
+      );
+    }
+  };
+
+  /**
+   * GET /api/users/me/saved-searches/:id - Get a saved search
+   */
+  public getSavedSearch = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const savedSearch = await this.savedSearchService.getSavedSearch(req.userId, id);
+
+      res.status(200).json({
+        success: true,
+        data: this.toResponse(savedSearch),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 404,
+        error.code || 'SAVED_SEARCH_NOT_FOUND',
+        error.message || 'Saved search not found'
+      );
+    }
+  };
+
+  /**
+   * PUT /api/users/me/saved-searches/:id - Update a saved search or its alerts
+   */
+  public updateSavedSearch = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: UpdateSavedSearchDto = req.body;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const criteria = this.toCriteria(dto);
+      const command: UpdateSavedSearchCommand = {
+        userId: req.userId,
+        savedSearchId: id,
+        name: dto.name,
+        criteria: Object.keys(criteria).length > 0 ? criteria : undefined,
+        location: dto.location,
+        alertFrequency: dto.alertFrequency
+      };
+
+      const savedSearch = await this.savedSearchService.updateSavedSearch(command);
+
+      res.status(200).json({
+        success: true,
+        message: 'Saved search updated successfully',
+        data: this.toResponse(savedSearch),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'SAVED_SEARCH_UPDATE_FAILED',
+        error.message || 'Failed to update saved search'
+      );
+    }
+  };
+
+  /**
+   * DELETE /api/users/me/saved-searches/:id - Delete a saved search
+   */
+  public deleteSavedSearch = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      await this.savedSearchService.deleteSavedSearch(req.userId, id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Saved search deleted successfully',
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 404,
+        error.code || 'SAVED_SEARCH_DELETE_FAILED',
+        error.message || 'Failed to delete saved search'
+      );
+    }
+  };
+
+  /**
+   * Only the filters present in the request, so an update leaves the others as they are.
+   */
+  private toCriteria(dto: CreateSavedSearchDto | UpdateSavedSearchDto): SavedSearchCriteria {
+    const criteria: SavedSearchCriteria = {};
+
+    if (dto.searchTerm !== undefined) criteria.searchTerm = dto.searchTerm;
+    if (dto.categories !== undefined) criteria.categories = dto.categories;
+    if (dto.conditions !== undefined) criteria.conditions = dto.conditions;
+    if (dto.tags !== undefined) criteria.tags = dto.tags;
+    if (dto.maxDistance !== undefined) criteria.maxDistance = dto.maxDistance;
+
+    return criteria;
+  }
+
+  private toResponse(savedSearch: SavedSearch) {
+    return {
+      id: savedSearch.id.value,
+      name: savedSearch.name,
+      criteria: savedSearch.criteria,
+      location: savedSearch.location.toData(),
+      alertFrequency: savedSearch.alertFrequency,
+      lastAlertedAt: savedSearch.lastAlertedAt,
+      createdAt: savedSearch.createdAt,
+      updatedAt: savedSearch.updatedAt
+    };
+  }
+}
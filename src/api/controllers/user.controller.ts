@@ -1,7 +1,7 @@
 import { Request, Response } from 'express';
 import { injectable, inject } from 'inversify';
 import { TYPES } from '@/container/types';
-import { IUserApplicationService, RegisterUserCommand, UpdateProfileCommand, UpdateLocationCommand, VerifyUserCommand } from '@/application/services/UserApplicationService';
+import { IUserApplicationService, RegisterUserCommand, UpdateProfileCommand, UpdateLocationCommand, VerifyUserCommand, VerificationEmailRateLimitError } from '@/application/services/UserApplicationService';
 import { RegisterUserDto, UpdateProfileDto, UpdateLocationDto, VerifyUserDto } from '../dtos/user.dto';
 import { AppError } from '../errors/AppError';
 
@@ -105,10 +105,14 @@ export class UserController {
         timestamp: new Date().toISOString()
       });
     } catch (error: any) {
+      if (error instanceof VerificationEmailRateLimitError) {
+        res.setHeader('Retry-After', String(error.retryAfterSeconds));
+      }
       throw new AppError(
         error.statusCode || 500,
         error.code || 'RESEND_FAILED',
-        error.message || 'Failed to resend verification email'
+        error.message || 'Failed to resend verification email',
+        error instanceof VerificationEmailRateLimitError ? { retryAfter: error.retryAfterSeconds } : undefined
       );
     }
   };
@@ -268,16 +272,20 @@ export class UserController {
    */
   public searchUsers = async (req: Request, res: Response): Promise<void> => {
     try {
-      const { q, limit } = req.query;
+      const { q, limit, offset, cursor } = req.query;
 
       if (!q || typeof q !== 'string') {
         throw new AppError(400, 'MISSING_QUERY', 'Search query is required');
       }
 
-      const searchLimit = limit ? parseInt(limit as string, 10) : 10;
-      const users = await this.userService.searchUsers(q, searchLimit);
+      const result = await this.userService.searchUsers({
+        searchTerm: q,
+        limit: limit ? Math.min(parseInt(limit as string, 10) || 10, 100) : 10,
+        offset: offset ? Math.max(parseInt(offset as string, 10) || 0, 0) : 0,
+        cursor: typeof cursor === 'string' && cursor ? cursor : undefined
+      });
 
-      const usersData = users.map(user => ({
+      const usersData = result.users.map(user => ({
         id: user.id.value,
         displayName: user.profile.displayName,
         avatar: user.profile.avatar,
@@ -291,7 +299,10 @@ export class UserController {
         success: true,
         data: {
           users: usersData,
-          count: usersData.length
+          count: usersData.length,
+          totalCount: result.totalCount,
+          hasMore: result.hasMore,
+          nextCursor: result.nextCursor
         },
         timestamp: new Date().toISOString()
       });
@@ -0,0 +1,328 @@
+import { Request, Response } from 'express';
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import {
+  IWantedPostApplicationService,
+  CreateWantedPostCommand,
+  UpdateWantedPostCommand,
+  SearchWantedPostsQuery
+} from '@/application/services/WantedPostApplicationService';
+import { IMatchingApplicationService } from '@/application/services/MatchingApplicationService';
+import { WantedPost } from '@/domain/wanted/WantedPost';
+import {
+  CreateWantedPostDto,
+  UpdateWantedPostDto,
+  SearchWantedPostsDto,
+  RespondToWantedPostDto,
+  WantedPostSuggestionsDto
+} from '../dtos/wanted-post.dto';
+import { AppError } from '../errors/AppError';
+
+@injectable()
+export class WantedPostController {
+  constructor(
+    @inject(TYPES.IWantedPostApplicationService)
+    private readonly wantedPostService: IWantedPostApplicationService,
+    @inject(TYPES.IMatchingApplicationService)
+    private readonly matchingService: IMatchingApplicationService
+  ) {}
+
+  /**
+   * GET /api/wanted - Browse open wanted posts, optionally only those that reach a location
+   */
+  public searchWantedPosts = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const dto: SearchWantedPostsDto = req.query as any;
+
+      // Query values arrive as strings
+      const latitude = parseFloat(String(dto.latitude));
+      const longitude = parseFloat(String(dto.longitude));
+
+      const query: SearchWantedPostsQuery = {
+        category: typeof dto.category === 'string' && dto.category ? dto.category : undefined,
+        tags: this.parseListParam(dto.tags),
+        location: Number.isFinite(latitude) && Number.isFinite(longitude) ? {
+          latitude,
+          longitude,
+          address: 'Search location' // Only the coordinates are used
+        } : undefined,
+        limit: Math.min(parseInt(String(dto.limit), 10) || 20, 100),
+        offset: Math.max(parseInt(String(dto.offset), 10) || 0, 0),
+        cursor: typeof dto.cursor === 'string' && dto.cursor ? dto.cursor : undefined
+      };
+
+      const result = await this.wantedPostService.searchWantedPosts(query);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          wantedPosts: result.wantedPosts.map(wantedPost => this.toResponse(wantedPost, req.userId)),
+          totalCount: result.totalCount,
+          hasMore: result.hasMore,
+          nextCursor: result.nextCursor
+        },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'WANTED_POSTS_FETCH_FAILED',
+        error.message || 'Failed to get wanted posts'
+      );
+    }
+  };
+
+  /**
+   * GET /api/wanted/mine - List the current user's wanted posts, including closed ones
+   */
+  public getMyWantedPosts = async (req: Request, res: Response): Promise<void> => {
+    try {
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const wantedPosts = await this.wantedPostService.getUserWantedPosts(req.userId);
+
+      res.status(200).json({
+        success: true,
+        data: wantedPosts.map(wantedPost => this.toResponse(wantedPost, req.userId)),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'WANTED_POSTS_FETCH_FAILED',
+        error.message || 'Failed to get wanted posts'
+      );
+    }
+  };
+
+  /**
+   * POST /api/wanted - Post something you're looking for
+   */
+  public createWantedPost = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const dto: CreateWantedPostDto = req.body;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const command: CreateWantedPostCommand = {
+        userId: req.userId,
+        title: dto.title,
+        description: dto.description,
+        category: dto.category,
+        tags: dto.tags,
+        location: dto.location,
+        radiusKm: dto.radiusKm
+      };
+
+      const wantedPost = await this.wantedPostService.createWantedPost(command);
+
+      res.status(201).json({
+        success: true,
+        message: 'Wanted post created successfully',
+        data: this.toResponse(wantedPost, req.userId),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'WANTED_POST_CREATE_FAILED',
+        error.message || 'Failed to create wanted post'
+      );
+    }
+  };
+
+  /**
+   * GET /api/wanted/:id - Get a wanted post
+   */
+  public getWantedPost = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const wantedPost = await this.wantedPostService.getWantedPost(id);
+
+      res.status(200).json({
+        success: true,
+        data: this.toResponse(wantedPost, req.userId),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 404,
+        error.code || 'WANTED_POST_NOT_FOUND',
+        error.message || 'Wanted post not found'
+      );
+    }
+  };
+
+  /**
+   * PUT /api/wanted/:id - Update an open wanted post
+   */
+  public updateWantedPost = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: UpdateWantedPostDto = req.body;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const command: UpdateWantedPostCommand = {
+        userId: req.userId,
+        wantedPostId: id,
+        title: dto.title,
+        description: dto.description,
+        category: dto.category,
+        tags: dto.tags,
+        location: dto.location,
+        radiusKm: dto.radiusKm
+      };
+
+      const wantedPost = await this.wantedPostService.updateWantedPost(command);
+
+      res.status(200).json({
+        success: true,
+        message: 'Wanted post updated successfully',
+        data: this.toResponse(wantedPost, req.userId),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'WANTED_POST_UPDATE_FAILED',
+        error.message || 'Failed to update wanted post'
+      );
+    }
+  };
+
+  /**
+   * POST /api/wanted/:id/close - Close a wanted post that is no longer needed
+   */
+  public closeWantedPost = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const wantedPost = await this.wantedPostService.closeWantedPost(req.userId, id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Wanted post closed successfully',
+        data: this.toResponse(wantedPost, req.userId),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'WANTED_POST_CLOSE_FAILED',
+        error.message || 'Failed to close wanted post'
+      );
+    }
+  };
+
+  /**
+   * POST /api/wanted/:id/responses - Offer one of your items, which opens an exchange with the poster
+   */
+  public respondToWantedPost = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: RespondToWantedPostDto = req.body;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const result = await this.wantedPostService.respondToWantedPost({
+        wantedPostId: id,
+        responderId: req.userId,
+        itemId: dto.itemId,
+        message: dto.message
+      });
+
+      res.status(201).json({
+        success: true,
+        message: 'Item offered successfully',
+        data: result,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 400,
+        error.code || 'WANTED_POST_RESPONSE_FAILED',
+        error.message || 'Failed to offer item'
+      );
+    }
+  };
+
+  /**
+   * GET /api/wanted/:id/suggestions - Existing items that could fill a wanted post
+   */
+  public getSuggestions = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const dto: WantedPostSuggestionsDto = req.query as any;
+
+      if (!req.userId) {
+        throw new AppError(401, 'UNAUTHORIZED', 'User authentication required');
+      }
+
+      const suggestions = await this.matchingService.suggestItemsForWantedPost({
+        wantedPostId: id,
+        userId: req.userId,
+        limit: Math.min(parseInt(String(dto.limit), 10) || 10, 50)
+      });
+
+      res.status(200).json({
+        success: true,
+        data: {
+          suggestions,
+          count: suggestions.length
+        },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error: any) {
+      throw new AppError(
+        error.statusCode || 500,
+        error.code || 'WANTED_POST_SUGGESTIONS_FAILED',
+        error.message || 'Failed to get suggestions'
+      );
+    }
+  };
+
+  private parseListParam(value: unknown): string[] | undefined {
+    const entries = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+    const values = entries.map(entry => String(entry).trim()).filter(entry => entry.length > 0);
+    return values.length > 0 ? values : undefined;
+  }
+
+  /**
+   * Who offered what is only shown to the poster.
+   */
+  private toResponse(wantedPost: WantedPost, viewerId?: string) {
+    const data = wantedPost.toData();
+    const isPoster = viewerId === data.userId;
+
+    return {
+      id: data.id,
+      userId: data.userId,
+      title: data.title,
+      description: data.description,
+      category: data.category,
+      tags: data.tags,
+      location: data.location,
+      radiusKm: data.radiusKm,
+      status: data.status,
+      responseCount: data.responses.length,
+      ...(isPoster ? { responses: data.responses } : {}),
+      closedAt: data.closedAt,
+      createdAt: data.createdAt,
+      updatedAt: data.updatedAt
+    };
+  }
+}
@@ -0,0 +1,72 @@
+import { IsString, IsNotEmpty, IsOptional, IsNumber, IsDateString, Min, Max, IsEnum, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class ListUsersDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  search?: string;
+
+  @IsEnum(['active', 'suspended', 'banned'])
+  @IsOptional()
+  status?: 'active' | 'suspended' | 'banned';
+
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  @Transform(({ value }) => value ? parseInt(value, 10) : 20)
+  limit?: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  @Transform(({ value }) => value ? parseInt(value, 10) : 0)
+  offset?: number;
+}
+
+// Banning a user, removing an item and cancelling an exchange all need a reason
+export class AdminActionReasonDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  reason!: string;
+}
+
+export class SuspendUserDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  reason!: string;
+
+  @IsDateString()
+  until!: string; // When the suspension lifts by itself
+}
+
+export class ReinstateUserDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  reason?: string;
+}
+
+export class UnlockBadgeDto {
+  @IsString()
+  @IsNotEmpty()
+  badgeId!: string;
+}
+
+export class AdminIdParamDto {
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+}
+
+export class UserRoleParamDto {
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+
+  @IsEnum(['admin'])
+  role!: 'admin';
+}
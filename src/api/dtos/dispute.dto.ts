@@ -0,0 +1,63 @@
+import { IsString, IsNotEmpty, IsOptional, IsNumber, Min, Max, IsEnum, IsBoolean, MaxLength } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class OpenDisputeDto {
+  @IsString()
+  @IsNotEmpty()
+  exchangeId!: string;
+
+  @IsEnum(['no_show', 'not_as_described', 'unsafe_behaviour'])
+  reason!: 'no_show' | 'not_as_described' | 'unsafe_behaviour';
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  description!: string;
+}
+
+export class ResolveDisputeDto {
+  @IsEnum(['upheld', 'dismissed'])
+  outcome!: 'upheld' | 'dismissed';
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  note!: string;
+
+  @IsBoolean()
+  @IsOptional()
+  reversePoints?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  clearRatings?: boolean;
+
+  @IsBoolean()
+  @IsOptional()
+  restoreItem?: boolean;
+}
+
+export class DisputeIdParamDto {
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+}
+
+export class ListDisputesDto {
+  @IsEnum(['open', 'resolved'])
+  @IsOptional()
+  status?: 'open' | 'resolved';
+
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  @Transform(({ value }) => value ? parseInt(value, 10) : 20)
+  limit?: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  @Transform(({ value }) => value ? parseInt(value, 10) : 0)
+  offset?: number;
+}
@@ -1,5 +1,5 @@
-import { IsString, IsNotEmpty, IsOptional, IsDateString, IsNumber, Min, Max, IsEnum } from 'class-validator';
-import { Transform } from 'class-transformer';
+import { IsString, IsNotEmpty, IsOptional, IsDateString, IsNumber, IsInt, Min, Max, IsEnum, IsArray, ArrayMinSize, ArrayMaxSize, ValidateNested, IsBoolean, Matches } from 'class-validator';
+import { Type, Transform } from 'class-transformer';
 
 export class InitiateExchangeDto {
   @IsString()
@@ -10,6 +10,12 @@ export class InitiateExchangeDto {
   @IsNotEmpty()
   receiverId!: string;
 
+  // Units of a lot; other items are given whole
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  quantity?: number;
+
   @IsString()
   @IsOptional()
   message?: string;
@@ -25,11 +31,43 @@ export class AcceptExchangeDto {
   scheduledPickup?: string;
 }
 
-export class CompleteExchangeDto {
-  @IsNumber()
+export class PickupSlotDto {
+  @IsDateString()
+  startsAt!: string;
+
+  @IsDateString()
+  endsAt!: string;
+}
+
+export class ProposePickupSlotsDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => PickupSlotDto)
+  slots!: PickupSlotDto[];
+}
+
+export class PickupSlotParamDto {
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  slotId!: string;
+}
+
+export class ShowHandoffCodeDto {
+  @IsBoolean()
   @IsOptional()
-  @Min(0)
-  ecoPointsAwarded?: number;
+  regenerate?: boolean;
+}
+
+export class ConfirmHandoffCodeDto {
+  @IsString()
+  @Matches(/^\d{6}$/)
+  code!: string;
 }
 
 export class CancelExchangeDto {
@@ -49,6 +87,66 @@ export class RateExchangeDto {
   review?: string;
 }
 
+export class RequestItemDto {
+  @IsString()
+  @IsOptional()
+  message?: string;
+
+  // Units of a lot; other items are given whole
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  quantity?: number;
+}
+
+export class SelectItemRequestDto {
+  @IsDateString()
+  @IsOptional()
+  scheduledPickup?: string;
+}
+
+export class GetItemRequestsDto {
+  @IsEnum(['createdAt', 'rating', 'distance'])
+  @IsOptional()
+  sortBy?: 'createdAt' | 'rating' | 'distance';
+
+  @IsString()
+  @IsOptional()
+  @Transform(({ value }) => value === 'true')
+  includeClosed?: boolean;
+}
+
+export class ItemRequestParamDto {
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  requestId!: string;
+}
+
+export class SendExchangeMessageDto {
+  @IsString()
+  @IsNotEmpty()
+  body!: string;
+}
+
+export class GetExchangeMessagesDto {
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  @Transform(({ value }) => value ? parseInt(value, 10) : 50)
+  limit?: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  @Transform(({ value }) => value ? parseInt(value, 10) : 0)
+  offset?: number;
+}
+
 export class ExchangeIdParamDto {
   @IsString()
   @IsNotEmpty()
@@ -56,9 +154,9 @@ export class ExchangeIdParamDto {
 }
 
 export class GetExchangeHistoryDto {
-  @IsEnum(['requested', 'accepted', 'completed', 'cancelled'])
+  @IsEnum(['requested', 'accepted', 'completed', 'cancelled', 'disputed'])
   @IsOptional()
-  status?: 'requested' | 'accepted' | 'completed' | 'cancelled';
+  status?: 'requested' | 'accepted' | 'completed' | 'cancelled' | 'disputed';
 
   @IsString()
   @IsOptional()
@@ -82,4 +180,9 @@ export class GetExchangeHistoryDto {
   @IsOptional()
   @Transform(({ value }) => value ? parseInt(value, 10) : 0)
   offset?: number;
+
+  // nextCursor from the previous page; takes precedence over offset
+  @IsString()
+  @IsOptional()
+  cursor?: string;
 }
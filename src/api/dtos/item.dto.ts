@@ -1,4 +1,4 @@
-import { IsString, IsNotEmpty, IsEnum, IsOptional, IsNumber, Min, Max, IsArray, ValidateNested, IsDateString } from 'class-validator';
+import { IsString, IsNotEmpty, IsEnum, IsOptional, IsNumber, IsInt, Min, Max, IsArray, ArrayMinSize, ArrayMaxSize, ValidateNested, IsDateString, IsBoolean } from 'class-validator';
 import { Type, Transform } from 'class-transformer';
 
 // Define DimensionsDto first since it's referenced by other DTOs
@@ -53,6 +53,16 @@ export class CreateItemDto {
   @IsString()
   @IsOptional()
   pickupInstructions?: string;
+
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  quantity?: number;
+
+  // Lets receivers take part of the quantity
+  @IsBoolean()
+  @IsOptional()
+  isLot?: boolean;
 }
 
 export class UpdateItemDto {
@@ -83,8 +93,15 @@ export class UpdateItemDto {
 }
 
 export class UpdateItemStatusDto {
-  @IsEnum(['available', 'pending', 'exchanged', 'removed'])
-  status!: 'available' | 'pending' | 'exchanged' | 'removed';
+  @IsEnum(['available', 'pending', 'exchanged', 'removed', 'expired'])
+  status!: 'available' | 'pending' | 'exchanged' | 'removed' | 'expired';
+}
+
+export class RenewItemDto {
+  // From the renewal reminder email; not needed when signed in as the owner
+  @IsString()
+  @IsOptional()
+  token?: string;
 }
 
 export class SearchItemsDto {
@@ -92,9 +109,28 @@ export class SearchItemsDto {
   @IsOptional()
   searchTerm?: string;
 
-  @IsString()
+  // Repeat the parameter or separate values with commas to match any of them
+  @IsArray()
+  @IsString({ each: true })
   @IsOptional()
-  category?: string;
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return value.split(',').map(category => category.trim());
+    }
+    return value;
+  })
+  category?: string[];
+
+  @IsArray()
+  @IsEnum(['new', 'like-new', 'good', 'fair', 'poor'], { each: true })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return value.split(',').map(condition => condition.trim());
+    }
+    return value;
+  })
+  condition?: Array<'new' | 'like-new' | 'good' | 'fair' | 'poor'>;
 
   @IsArray()
   @IsString({ each: true })
@@ -160,6 +196,17 @@ export class SearchItemsDto {
   @IsOptional()
   @Transform(({ value }) => value ? parseInt(value, 10) : 0)
   offset?: number;
+
+  // nextCursor from the previous page; takes precedence over offset
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+
+  // Include match counts for each category, condition, tag and distance
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  facets?: boolean;
 }
 
 export class ItemIdParamDto {
@@ -167,3 +214,42 @@ export class ItemIdParamDto {
   @IsNotEmpty()
   id!: string;
 }
+
+// Positions are zero-based indexes into the item's current images
+export class RemoveItemImagesDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  positions!: number[];
+}
+
+export class ReorderItemImagesDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(10)
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  order!: number[];
+}
+
+export class GetItemHistoryDto {
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  @Transform(({ value }) => value ? parseInt(value, 10) : 20)
+  limit?: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  @Transform(({ value }) => value ? parseInt(value, 10) : 0)
+  offset?: number;
+
+  // nextCursor from the previous page; takes precedence over offset
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+}
@@ -1,6 +1,8 @@
 export interface LeaderboardQueryDto {
   communityId?: string;
   limit?: number;
+  offset?: number;
+  cursor?: string;
 }
 
 export interface LeaderboardEntryDto {
@@ -14,6 +16,29 @@ export interface LeaderboardEntryDto {
   rank: number;
 }
 
+export interface PointsTransactionsQueryDto {
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+}
+
+export interface PointsTransactionDto {
+  id: string;
+  points: number;
+  reason: string;
+  timestamp: Date;
+}
+
+export interface PointsTransactionsDto {
+  userId: string;
+  transactions: PointsTransactionDto[];
+  totalCount: number;
+  hasMore: boolean;
+  nextCursor?: string;
+  limit: number;
+  offset: number;
+}
+
 export interface BadgeDto {
   id: string;
   name: string;
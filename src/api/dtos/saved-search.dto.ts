@@ -0,0 +1,102 @@
+import { IsString, IsNotEmpty, IsOptional, IsNumber, Min, Max, IsEnum, IsArray, ValidateNested, MaxLength } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class SavedSearchLocationDto {
+  @IsNumber()
+  latitude!: number;
+
+  @IsNumber()
+  longitude!: number;
+
+  @IsString()
+  address!: string;
+}
+
+export class CreateSavedSearchDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  @IsString()
+  @IsOptional()
+  searchTerm?: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  categories?: string[];
+
+  @IsArray()
+  @IsEnum(['new', 'like-new', 'good', 'fair', 'poor'], { each: true })
+  @IsOptional()
+  conditions?: Array<'new' | 'like-new' | 'good' | 'fair' | 'poor'>;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  tags?: string[];
+
+  @IsNumber()
+  @Min(0)
+  @Max(500)
+  @IsOptional()
+  maxDistance?: number;
+
+  // Defaults to the user's own location
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SavedSearchLocationDto)
+  location?: SavedSearchLocationDto;
+
+  @IsEnum(['immediate', 'daily', 'off'])
+  @IsOptional()
+  alertFrequency?: 'immediate' | 'daily' | 'off';
+}
+
+export class UpdateSavedSearchDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  searchTerm?: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  categories?: string[];
+
+  @IsArray()
+  @IsEnum(['new', 'like-new', 'good', 'fair', 'poor'], { each: true })
+  @IsOptional()
+  conditions?: Array<'new' | 'like-new' | 'good' | 'fair' | 'poor'>;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  tags?: string[];
+
+  @IsNumber()
+  @Min(0)
+  @Max(500)
+  @IsOptional()
+  maxDistance?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SavedSearchLocationDto)
+  location?: SavedSearchLocationDto;
+
+  @IsEnum(['immediate', 'daily', 'off'])
+  @IsOptional()
+  alertFrequency?: 'immediate' | 'daily' | 'off';
+}
+
+export class SavedSearchIdParamDto {
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+}
@@ -0,0 +1,152 @@
+import { IsString, IsNotEmpty, IsOptional, IsNumber, Min, Max, IsArray, ValidateNested, MaxLength } from 'class-validator';
+import { Type, Transform } from 'class-transformer';
+
+export class WantedPostLocationDto {
+  @IsNumber()
+  latitude!: number;
+
+  @IsNumber()
+  longitude!: number;
+
+  @IsString()
+  address!: string;
+}
+
+export class CreateWantedPostDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  title!: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  description?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  category!: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  tags?: string[];
+
+  // Defaults to the user's own location
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => WantedPostLocationDto)
+  location?: WantedPostLocationDto;
+
+  // How far the poster will travel to pick something up; defaults to 10 km
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  radiusKm?: number;
+}
+
+export class UpdateWantedPostDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  title?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  description?: string;
+
+  @IsString()
+  @IsOptional()
+  category?: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  tags?: string[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => WantedPostLocationDto)
+  location?: WantedPostLocationDto;
+
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  radiusKm?: number;
+}
+
+export class SearchWantedPostsDto {
+  @IsString()
+  @IsOptional()
+  category?: string;
+
+  // Repeat the parameter or separate values with commas to match any of them
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return value.split(',').map(tag => tag.trim());
+    }
+    return value;
+  })
+  tags?: string[];
+
+  // Only posts whose radius reaches this point
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => value ? parseFloat(value) : undefined)
+  latitude?: number;
+
+  @IsNumber()
+  @IsOptional()
+  @Transform(({ value }) => value ? parseFloat(value) : undefined)
+  longitude?: number;
+
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  @Transform(({ value }) => value ? parseInt(value, 10) : 20)
+  limit?: number;
+
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  @Transform(({ value }) => value ? parseInt(value, 10) : 0)
+  offset?: number;
+
+  // nextCursor from the previous page; takes precedence over offset
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+}
+
+export class RespondToWantedPostDto {
+  @IsString()
+  @IsNotEmpty()
+  itemId!: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(1000)
+  message?: string;
+}
+
+export class WantedPostSuggestionsDto {
+  @IsNumber()
+  @Min(1)
+  @Max(50)
+  @IsOptional()
+  @Transform(({ value }) => value ? parseInt(value, 10) : 10)
+  limit?: number;
+}
+
+export class WantedPostIdParamDto {
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+}
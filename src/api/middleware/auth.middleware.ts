@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { DIContainer } from '@/container/Container';
 import { TYPES } from '@/container/types';
 import { IAuthenticationService, AuthResult } from '@/infrastructure/services/IAuthenticationService';
+import { IUserApplicationService } from '@/application/services/UserApplicationService';
 
 // Extend Express Request to include user information
 declare global {
@@ -61,6 +62,21 @@ export const authenticate = async (
     // Authenticate the token
     const authResult = await authService.authenticate(token);
 
+    // A ban applies at once, even to tokens issued before it
+    const userService = DIContainer.getInstance().get<IUserApplicationService>(
+      TYPES.IUserApplicationService
+    );
+    if (await userService.isAccountBanned(authResult.userId)) {
+      res.status(403).json({
+        error: {
+          code: 'ACCOUNT_BANNED',
+          message: 'This account has been banned',
+          timestamp: new Date().toISOString()
+        }
+      });
+      return;
+    }
+
     // Attach user information to request
     req.user = authResult;
     req.userId = authResult.userId;
@@ -158,9 +174,11 @@ export const requireVerified = (
 };
 
 /**
- * Middleware to check for specific roles
+ * Authorization middleware - requires one of the given roles. Use after
+ * authenticate. Custom provider roles come from the user_roles table at
+ * sign-in, Auth0 roles from the token.
  */
-export const requireRole = (...roles: string[]) => {
+export const authorize = (...roles: string[]) => {
   return (req: Request, res: Response, next: NextFunction): void => {
     if (!req.user) {
       res.status(401).json({
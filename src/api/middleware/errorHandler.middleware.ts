@@ -58,6 +58,11 @@ export const errorHandler = (
     errorCode = 'VALIDATION_ERROR';
     message = error.message;
   }
+  else if (error.name === 'InvalidCursorError') {
+    statusCode = 400;
+    errorCode = 'INVALID_CURSOR';
+    message = error.message;
+  }
   else if (error.name === 'UnauthorizedError' || error.message.includes('token') || error.message.includes('unauthorized')) {
     statusCode = 401;
     errorCode = 'AUTHENTICATION_ERROR';
@@ -124,3 +124,32 @@ export const searchRateLimiter = rateLimit({
     });
   }
 });
+
+/**
+ * Strict rate limiter for handoff code entry
+ * Slows down guessing on top of the per-code attempt limit
+ */
+export const handoffCodeRateLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // Limit each IP to 10 failed code entries per windowMs
+  message: {
+    error: {
+      code: 'HANDOFF_RATE_LIMIT_EXCEEDED',
+      message: 'Too many handoff code attempts, please try again later',
+      timestamp: new Date().toISOString()
+    }
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+  skipSuccessfulRequests: true, // Don't count successful requests
+  handler: (req: Request, res: Response) => {
+    res.status(429).json({
+      error: {
+        code: 'HANDOFF_RATE_LIMIT_EXCEEDED',
+        message: 'Too many handoff code attempts from this IP, please try again later',
+        timestamp: new Date().toISOString(),
+        retryAfter: res.getHeader('Retry-After')
+      }
+    });
+  }
+});
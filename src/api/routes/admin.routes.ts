@@ -0,0 +1,191 @@
+import { Router } from 'express';
+import { DIContainer } from '@/container/Container';
+import { TYPES } from '@/container/types';
+import { AdminController } from '../controllers/admin.controller';
+import { authenticate, authorize, asyncHandler } from '../middleware';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation.middleware';
+import { standardRateLimiter } from '../middleware/rateLimit.middleware';
+import {
+  ListUsersDto,
+  AdminActionReasonDto,
+  SuspendUserDto,
+  ReinstateUserDto,
+  UnlockBadgeDto,
+  AdminIdParamDto,
+  UserRoleParamDto
+} from '../dtos/admin.dto';
+
+const router = Router();
+
+// Get controller from DI container
+const getController = (): AdminController => {
+  return DIContainer.getInstance().get<AdminController>(TYPES.AdminController);
+};
+
+/**
+ * GET /api/admin/users - List users, newest first, with their roles
+ * Requires the admin role
+ */
+router.get(
+  '/users',
+  authenticate,
+  authorize('admin'),
+  standardRateLimiter,
+  validateQuery(ListUsersDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.listUsers(req, res);
+  })
+);
+
+/**
+ * GET /api/admin/users/:id/status-history - List a user's suspensions, bans and reinstatements
+ * Requires the admin role
+ */
+router.get(
+  '/users/:id/status-history',
+  authenticate,
+  authorize('admin'),
+  standardRateLimiter,
+  validateParams(AdminIdParamDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.getStatusHistory(req, res);
+  })
+);
+
+/**
+ * POST /api/admin/users/:id/suspend - Keep a user from posting or exchanging until a date
+ * Requires the admin role
+ */
+router.post(
+  '/users/:id/suspend',
+  authenticate,
+  authorize('admin'),
+  standardRateLimiter,
+  validateParams(AdminIdParamDto),
+  validateBody(SuspendUserDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.suspendUser(req, res);
+  })
+);
+
+/**
+ * POST /api/admin/users/:id/ban - Ban a user and end their sessions
+ * Requires the admin role
+ */
+router.post(
+  '/users/:id/ban',
+  authenticate,
+  authorize('admin'),
+  standardRateLimiter,
+  validateParams(AdminIdParamDto),
+  validateBody(AdminActionReasonDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.banUser(req, res);
+  })
+);
+
+/**
+ * POST /api/admin/users/:id/reinstate - Lift a user's suspension or ban
+ * Requires the admin role
+ */
+router.post(
+  '/users/:id/reinstate',
+  authenticate,
+  authorize('admin'),
+  standardRateLimiter,
+  validateParams(AdminIdParamDto),
+  validateBody(ReinstateUserDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.reinstateUser(req, res);
+  })
+);
+
+/**
+ * PUT /api/admin/users/:id/roles/:role - Grant a role (custom provider only)
+ * Requires the admin role
+ */
+router.put(
+  '/users/:id/roles/:role',
+  authenticate,
+  authorize('admin'),
+  standardRateLimiter,
+  validateParams(UserRoleParamDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.grantRole(req, res);
+  })
+);
+
+/**
+ * DELETE /api/admin/users/:id/roles/:role - Revoke a role and end the user's sessions
+ * Requires the admin role
+ */
+router.delete(
+  '/users/:id/roles/:role',
+  authenticate,
+  authorize('admin'),
+  standardRateLimiter,
+  validateParams(UserRoleParamDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.revokeRole(req, res);
+  })
+);
+
+/**
+ * POST /api/admin/users/:id/badges - Unlock a custom badge for a user
+ * Requires the admin role
+ */
+router.post(
+  '/users/:id/badges',
+  authenticate,
+  authorize('admin'),
+  standardRateLimiter,
+  validateParams(AdminIdParamDto),
+  validateBody(UnlockBadgeDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.unlockBadge(req, res);
+  })
+);
+
+/**
+ * DELETE /api/admin/items/:id - Remove a listing, cancelling its open exchanges
+ * Requires the admin role
+ */
+router.delete(
+  '/items/:id',
+  authenticate,
+  authorize('admin'),
+  standardRateLimiter,
+  validateParams(AdminIdParamDto),
+  validateBody(AdminActionReasonDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.removeItem(req, res);
+  })
+);
+
+/**
+ * POST /api/admin/exchanges/:id/cancel - Cancel a requested or accepted exchange
+ * Requires the admin role
+ */
+router.post(
+  '/exchanges/:id/cancel',
+  authenticate,
+  authorize('admin'),
+  standardRateLimiter,
+  validateParams(AdminIdParamDto),
+  validateBody(AdminActionReasonDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.cancelExchange(req, res);
+  })
+);
+
+export default router;
@@ -5,7 +5,7 @@ import { AuthController } from '../controllers/auth.controller';
 import { authenticate, asyncHandler } from '../middleware';
 import { validateBody } from '../middleware/validation.middleware';
 import { authRateLimiter, standardRateLimiter } from '../middleware/rateLimit.middleware';
-import { LoginDto, RefreshTokenDto } from '../dtos/auth.dto';
+import { LoginDto, RefreshTokenDto, ForgotPasswordDto, ResetPasswordDto, ChangePasswordDto } from '../dtos/auth.dto';
 
 const router = Router();
 
@@ -73,6 +73,67 @@ router.post(
   })
 );
 
+/**
+ * POST /api/auth/logout-all - Sign out of all devices
+ * Requires authentication
+ * Requirements: 5.2
+ */
+router.post(
+  '/logout-all',
+  authenticate,
+  standardRateLimiter,
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.logoutAll(req, res);
+  })
+);
+
+/**
+ * POST /api/auth/password/forgot - Email a password reset link
+ * Public endpoint
+ * Requirements: 5.2
+ */
+router.post(
+  '/password/forgot',
+  authRateLimiter,
+  validateBody(ForgotPasswordDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.forgotPassword(req, res);
+  })
+);
+
+/**
+ * POST /api/auth/password/reset - Set a new password with a reset link
+ * Public endpoint
+ * Requirements: 5.2
+ */
+router.post(
+  '/password/reset',
+  authRateLimiter,
+  validateBody(ResetPasswordDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.resetPassword(req, res);
+  })
+);
+
+/**
+ * POST /api/auth/password/change - Change the current user's password
+ * Requires authentication
+ * Requirements: 5.2
+ */
+router.post(
+  '/password/change',
+  authenticate,
+  authRateLimiter,
+  validateBody(ChangePasswordDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.changePassword(req, res);
+  })
+);
+
 /**
  * GET /api/auth/me - Get current authenticated user
  * Requires authentication
@@ -0,0 +1,106 @@
+import { Router } from 'express';
+import { DIContainer } from '@/container/Container';
+import { TYPES } from '@/container/types';
+import { DisputeController } from '../controllers/dispute.controller';
+import { authenticate, requireVerified, authorize, asyncHandler } from '../middleware';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation.middleware';
+import { standardRateLimiter, uploadRateLimiter } from '../middleware/rateLimit.middleware';
+import { OpenDisputeDto, ResolveDisputeDto, DisputeIdParamDto, ListDisputesDto } from '../dtos/dispute.dto';
+
+const router = Router();
+
+// Get controller from DI container
+const getController = (): DisputeController => {
+  return DIContainer.getInstance().get<DisputeController>(TYPES.DisputeController);
+};
+
+/**
+ * POST /api/disputes - Report a no-show or another problem with an exchange
+ * Requires authentication and verification
+ */
+router.post(
+  '/',
+  authenticate,
+  requireVerified,
+  standardRateLimiter,
+  validateBody(OpenDisputeDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.openDispute(req, res);
+  })
+);
+
+/**
+ * GET /api/disputes - List open or resolved disputes for review
+ * Requires the admin role
+ */
+router.get(
+  '/',
+  authenticate,
+  authorize('admin'),
+  standardRateLimiter,
+  validateQuery(ListDisputesDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.listDisputes(req, res);
+  })
+);
+
+/**
+ * GET /api/disputes/:id - Get a dispute
+ * Requires authentication; only the participants and admins can see it
+ */
+router.get(
+  '/:id',
+  authenticate,
+  standardRateLimiter,
+  validateParams(DisputeIdParamDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.getDispute(req, res);
+  })
+);
+
+/**
+ * POST /api/disputes/:id/evidence - Upload photos or PDFs supporting a report
+ * Requires authentication; only the reporter can add evidence
+ */
+router.post(
+  '/:id/evidence',
+  authenticate,
+  requireVerified,
+  uploadRateLimiter,
+  validateParams(DisputeIdParamDto),
+  (req, res, next) => {
+    const controller = getController();
+    controller.uploadMiddleware(req, res, (err) => {
+      if (err) {
+        return next(err);
+      }
+      next();
+    });
+  },
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.addEvidence(req, res);
+  })
+);
+
+/**
+ * POST /api/disputes/:id/resolve - Uphold or dismiss a dispute
+ * Requires the admin role
+ */
+router.post(
+  '/:id/resolve',
+  authenticate,
+  authorize('admin'),
+  standardRateLimiter,
+  validateParams(DisputeIdParamDto),
+  validateBody(ResolveDisputeDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.resolveDispute(req, res);
+  })
+);
+
+export default router;
@@ -4,8 +4,8 @@ import { TYPES } from '@/container/types';
 import { ExchangeController } from '../controllers/exchange.controller';
 import { authenticate, requireVerified, asyncHandler } from '../middleware';
 import { validateBody, validateParams, validateQuery } from '../middleware/validation.middleware';
-import { standardRateLimiter } from '../middleware/rateLimit.middleware';
-import { InitiateExchangeDto, AcceptExchangeDto, CompleteExchangeDto, CancelExchangeDto, RateExchangeDto, ExchangeIdParamDto, GetExchangeHistoryDto } from '../dtos/exchange.dto';
+import { standardRateLimiter, handoffCodeRateLimiter } from '../middleware/rateLimit.middleware';
+import { InitiateExchangeDto, AcceptExchangeDto, ProposePickupSlotsDto, PickupSlotParamDto, ShowHandoffCodeDto, ConfirmHandoffCodeDto, CancelExchangeDto, RateExchangeDto, ExchangeIdParamDto, GetExchangeHistoryDto, SendExchangeMessageDto, GetExchangeMessagesDto } from '../dtos/exchange.dto';
 
 const router = Router();
 
@@ -33,6 +33,7 @@ router.post(
 
 /**
  * GET /api/exchanges/history - Get user's exchange history
+ * Query: status, asGiver, asReceiver, limit (max 100), cursor or offset
  * Requires authentication
  */
 router.get(
@@ -74,6 +75,34 @@ router.get(
   })
 );
 
+/**
+ * GET /api/exchanges/requests - Get items the user has requested
+ * Requires authentication
+ */
+router.get(
+  '/requests',
+  authenticate,
+  standardRateLimiter,
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.getMyItemRequests(req, res);
+  })
+);
+
+/**
+ * GET /api/exchanges/messages/unread - Get unread message counts per exchange
+ * Requires authentication
+ */
+router.get(
+  '/messages/unread',
+  authenticate,
+  standardRateLimiter,
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.getUnreadMessageCounts(req, res);
+  })
+);
+
 /**
  * GET /api/exchanges/:id - Get exchange details
  * Requires authentication
@@ -107,6 +136,88 @@ router.put(
   })
 );
 
+/**
+ * POST /api/exchanges/:id/pickup-slots - Propose pickup time slots
+ * Requires authentication and verification (participants only)
+ */
+router.post(
+  '/:id/pickup-slots',
+  authenticate,
+  requireVerified,
+  standardRateLimiter,
+  validateParams(ExchangeIdParamDto),
+  validateBody(ProposePickupSlotsDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.proposePickupSlots(req, res);
+  })
+);
+
+/**
+ * POST /api/exchanges/:id/pickup-slots/:slotId/choose - Agree on a slot proposed by the other participant
+ * Requires authentication and verification (participants only)
+ */
+router.post(
+  '/:id/pickup-slots/:slotId/choose',
+  authenticate,
+  requireVerified,
+  standardRateLimiter,
+  validateParams(PickupSlotParamDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.choosePickupSlot(req, res);
+  })
+);
+
+/**
+ * GET /api/exchanges/:id/pickup.ics - Download the agreed pickup as an iCalendar file
+ * Requires authentication (participants only)
+ */
+router.get(
+  '/:id/pickup.ics',
+  authenticate,
+  standardRateLimiter,
+  validateParams(ExchangeIdParamDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.downloadPickupInvite(req, res);
+  })
+);
+
+/**
+ * POST /api/exchanges/:id/handoff-code - Show the handoff code, issuing a new one when needed
+ * Requires authentication and verification (giver only)
+ */
+router.post(
+  '/:id/handoff-code',
+  authenticate,
+  requireVerified,
+  standardRateLimiter,
+  validateParams(ExchangeIdParamDto),
+  validateBody(ShowHandoffCodeDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.showHandoffCode(req, res);
+  })
+);
+
+/**
+ * POST /api/exchanges/:id/handoff-code/confirm - Complete an exchange with the giver's handoff code
+ * Requires authentication and verification (receiver only)
+ */
+router.post(
+  '/:id/handoff-code/confirm',
+  authenticate,
+  requireVerified,
+  handoffCodeRateLimiter,
+  validateParams(ExchangeIdParamDto),
+  validateBody(ConfirmHandoffCodeDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.confirmHandoffCode(req, res);
+  })
+);
+
 /**
  * POST /api/exchanges/:id/complete - Complete an exchange
  * Requires authentication and verification
@@ -118,7 +229,6 @@ router.post(
   requireVerified,
   standardRateLimiter,
   validateParams(ExchangeIdParamDto),
-  validateBody(CompleteExchangeDto),
   asyncHandler(async (req, res) => {
     const controller = getController();
     await controller.completeExchange(req, res);
@@ -160,4 +270,52 @@ router.post(
   })
 );
 
+/**
+ * GET /api/exchanges/:id/messages - Get the exchange conversation
+ * Requires authentication (participants only)
+ */
+router.get(
+  '/:id/messages',
+  authenticate,
+  standardRateLimiter,
+  validateParams(ExchangeIdParamDto),
+  validateQuery(GetExchangeMessagesDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.getMessages(req, res);
+  })
+);
+
+/**
+ * POST /api/exchanges/:id/messages - Send a message
+ * Requires authentication and verification (participants only)
+ */
+router.post(
+  '/:id/messages',
+  authenticate,
+  requireVerified,
+  standardRateLimiter,
+  validateParams(ExchangeIdParamDto),
+  validateBody(SendExchangeMessageDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.sendMessage(req, res);
+  })
+);
+
+/**
+ * POST /api/exchanges/:id/messages/read - Mark the conversation as read
+ * Requires authentication (participants only)
+ */
+router.post(
+  '/:id/messages/read',
+  authenticate,
+  standardRateLimiter,
+  validateParams(ExchangeIdParamDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.markMessagesAsRead(req, res);
+  })
+);
+
 export default router;
@@ -1,19 +1,28 @@
 import { Router } from 'express';
 import authRoutes from './auth.routes';
 import itemRoutes from './item.routes';
+import wantedPostRoutes from './wanted-post.routes';
 import userRoutes from './user.routes';
+import savedSearchRoutes from './saved-search.routes';
 import exchangeRoutes from './exchange.routes';
+import disputeRoutes from './dispute.routes';
 import matchingRoutes from './matching.routes';
 import pointsRoutes from './points.routes';
+import adminRoutes from './admin.routes';
 
 const router = Router();
 
 // Mount route modules
 router.use('/auth', authRoutes);
 router.use('/items', itemRoutes);
+router.use('/wanted', wantedPostRoutes);
+// Mounted before /users so `me` isn't taken for a user ID
+router.use('/users/me/saved-searches', savedSearchRoutes);
 router.use('/users', userRoutes);
 router.use('/exchanges', exchangeRoutes);
+router.use('/disputes', disputeRoutes);
 router.use('/matching', matchingRoutes);
 router.use('/points', pointsRoutes);
+router.use('/admin', adminRoutes);
 
 export default router;
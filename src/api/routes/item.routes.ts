@@ -2,10 +2,12 @@ import { Router } from 'express';
 import { DIContainer } from '@/container/Container';
 import { TYPES } from '@/container/types';
 import { ItemController } from '../controllers/item.controller';
-import { authenticate, requireVerified, asyncHandler } from '../middleware';
+import { ExchangeController } from '../controllers/exchange.controller';
+import { authenticate, requireVerified, optionalAuthenticate, asyncHandler } from '../middleware';
 import { validateBody, validateQuery, validateParams } from '../middleware/validation.middleware';
 import { uploadRateLimiter, searchRateLimiter, standardRateLimiter } from '../middleware/rateLimit.middleware';
-import { CreateItemDto, UpdateItemDto, UpdateItemStatusDto, SearchItemsDto, ItemIdParamDto } from '../dtos/item.dto';
+import { CreateItemDto, UpdateItemDto, UpdateItemStatusDto, RenewItemDto, SearchItemsDto, ItemIdParamDto, GetItemHistoryDto, RemoveItemImagesDto, ReorderItemImagesDto } from '../dtos/item.dto';
+import { RequestItemDto, SelectItemRequestDto, GetItemRequestsDto, ItemRequestParamDto } from '../dtos/exchange.dto';
 
 const router = Router();
 
@@ -14,6 +16,11 @@ const getController = (): ItemController => {
   return DIContainer.getInstance().get<ItemController>(TYPES.ItemController);
 };
 
+// Item requests are handled by the exchange controller
+const getExchangeController = (): ExchangeController => {
+  return DIContainer.getInstance().get<ExchangeController>(TYPES.ExchangeController);
+};
+
 /**
  * POST /api/items - Create a new item
  * Requires authentication and verification
@@ -43,6 +50,10 @@ router.post(
 /**
  * GET /api/items - Search items with filtering and pagination
  * Public endpoint (no authentication required)
+ * Text searches rank by relevance, distance and freshness and return
+ * highlighted snippets. With facets=true the response also counts matches
+ * for each category, condition, tag and distance. Pass nextCursor back as
+ * cursor for the following page; limit/offset paging still works
  * Requirements: 2.1, 2.2, 2.3
  */
 router.get(
@@ -96,6 +107,21 @@ router.get(
   })
 );
 
+/**
+ * GET /api/items/:id/history - Get the item's edit history
+ * Public endpoint
+ */
+router.get(
+  '/:id/history',
+  standardRateLimiter,
+  validateParams(ItemIdParamDto),
+  validateQuery(GetItemHistoryDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.getItemHistory(req, res);
+  })
+);
+
 /**
  * PUT /api/items/:id - Update item details
  * Requires authentication and verification
@@ -114,6 +140,65 @@ router.put(
   })
 );
 
+/**
+ * POST /api/items/:id/images - Add photos to an item
+ * Requires authentication and verification, owner only
+ */
+router.post(
+  '/:id/images',
+  authenticate,
+  requireVerified,
+  uploadRateLimiter,
+  validateParams(ItemIdParamDto),
+  (req, res, next) => {
+    const controller = getController();
+    controller.uploadMiddleware(req, res, (err) => {
+      if (err) {
+        return next(err);
+      }
+      next();
+    });
+  },
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.addItemImages(req, res);
+  })
+);
+
+/**
+ * DELETE /api/items/:id/images - Remove photos from an item
+ * Requires authentication and verification, owner only
+ */
+router.delete(
+  '/:id/images',
+  authenticate,
+  requireVerified,
+  standardRateLimiter,
+  validateParams(ItemIdParamDto),
+  validateBody(RemoveItemImagesDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.removeItemImages(req, res);
+  })
+);
+
+/**
+ * PUT /api/items/:id/images/order - Change the order of an item's photos
+ * Requires authentication and verification, owner only
+ */
+router.put(
+  '/:id/images/order',
+  authenticate,
+  requireVerified,
+  standardRateLimiter,
+  validateParams(ItemIdParamDto),
+  validateBody(ReorderItemImagesDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.reorderItemImages(req, res);
+  })
+);
+
 /**
  * PUT /api/items/:id/status - Update item status
  * Requires authentication and verification
@@ -132,6 +217,23 @@ router.put(
   })
 );
 
+/**
+ * POST /api/items/:id/renew - Extend a listing, or relist an expired one
+ * Requires authentication as the owner, or the token from the renewal
+ * reminder email so the link works without signing in
+ */
+router.post(
+  '/:id/renew',
+  optionalAuthenticate,
+  standardRateLimiter,
+  validateParams(ItemIdParamDto),
+  validateBody(RenewItemDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.renewItem(req, res);
+  })
+);
+
 /**
  * DELETE /api/items/:id - Delete an item
  * Requires authentication and verification
@@ -149,4 +251,70 @@ router.delete(
   })
 );
 
+/**
+ * POST /api/items/:id/requests - Request an item from its owner
+ * Requires authentication and verification
+ */
+router.post(
+  '/:id/requests',
+  authenticate,
+  requireVerified,
+  standardRateLimiter,
+  validateParams(ItemIdParamDto),
+  validateBody(RequestItemDto),
+  asyncHandler(async (req, res) => {
+    const controller = getExchangeController();
+    await controller.requestItem(req, res);
+  })
+);
+
+/**
+ * GET /api/items/:id/requests - List requests for an item
+ * Requires authentication (item owner only)
+ */
+router.get(
+  '/:id/requests',
+  authenticate,
+  standardRateLimiter,
+  validateParams(ItemIdParamDto),
+  validateQuery(GetItemRequestsDto),
+  asyncHandler(async (req, res) => {
+    const controller = getExchangeController();
+    await controller.getItemRequests(req, res);
+  })
+);
+
+/**
+ * POST /api/items/:id/requests/:requestId/select - Choose a requester
+ * Creates the exchange and declines the remaining requests
+ * Requires authentication and verification (item owner only)
+ */
+router.post(
+  '/:id/requests/:requestId/select',
+  authenticate,
+  requireVerified,
+  standardRateLimiter,
+  validateParams(ItemRequestParamDto),
+  validateBody(SelectItemRequestDto),
+  asyncHandler(async (req, res) => {
+    const controller = getExchangeController();
+    await controller.selectItemRequest(req, res);
+  })
+);
+
+/**
+ * DELETE /api/items/:id/requests/:requestId - Withdraw a pending request
+ * Requires authentication (requester only)
+ */
+router.delete(
+  '/:id/requests/:requestId',
+  authenticate,
+  standardRateLimiter,
+  validateParams(ItemRequestParamDto),
+  asyncHandler(async (req, res) => {
+    const controller = getExchangeController();
+    await controller.withdrawItemRequest(req, res);
+  })
+);
+
 export default router;
@@ -26,7 +26,8 @@ router.get(
 );
 
 /**
- * GET /api/points/transactions - Get current user's eco-points transactions
+ * GET /api/points/transactions - Page through current user's eco-points ledger
+ * Query: limit (default 20, max 100), cursor or offset
  * Requires authentication
  */
 router.get(
@@ -41,6 +42,8 @@ router.get(
 
 /**
  * GET /api/points/leaderboard - Get eco-points leaderboard
+ * Query: limit (default 100, max 100), cursor or offset; the next page's
+ * cursor is returned in the X-Next-Cursor header
  * Public endpoint
  */
 router.get(
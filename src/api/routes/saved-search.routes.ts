@@ -0,0 +1,92 @@
+import { Router } from 'express';
+import { DIContainer } from '@/container/Container';
+import { TYPES } from '@/container/types';
+import { SavedSearchController } from '../controllers/saved-search.controller';
+import { authenticate, asyncHandler } from '../middleware';
+import { validateBody, validateParams } from '../middleware/validation.middleware';
+import { standardRateLimiter } from '../middleware/rateLimit.middleware';
+import { CreateSavedSearchDto, UpdateSavedSearchDto, SavedSearchIdParamDto } from '../dtos/saved-search.dto';
+
+const router = Router();
+
+// Get controller from DI container
+const getController = (): SavedSearchController => {
+  return DIContainer.getInstance().get<SavedSearchController>(TYPES.SavedSearchController);
+};
+
+/**
+ * GET /api/users/me/saved-searches - List the current user's saved searches
+ * Requires authentication
+ */
+router.get(
+  '/',
+  authenticate,
+  standardRateLimiter,
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.getSavedSearches(req, res);
+  })
+);
+
+/**
+ * POST /api/users/me/saved-searches - Save a search and get alerts for new matching items
+ * Requires authentication
+ */
+router.post(
+  '/',
+  authenticate,
+  standardRateLimiter,
+  validateBody(CreateSavedSearchDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.createSavedSearch(req, res);
+  })
+);
+
+/**
+ * GET /api/users/me/saved-searches/:id - Get a saved search
+ * Requires authentication; only the owner can see it
+ */
+router.get(
+  '/:id',
+  authenticate,
+  standardRateLimiter,
+  validateParams(SavedSearchIdParamDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.getSavedSearch(req, res);
+  })
+);
+
+/**
+ * PUT /api/users/me/saved-searches/:id - Update a saved search's filters, location or alert frequency
+ * Requires authentication; only the owner can update it
+ */
+router.put(
+  '/:id',
+  authenticate,
+  standardRateLimiter,
+  validateParams(SavedSearchIdParamDto),
+  validateBody(UpdateSavedSearchDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.updateSavedSearch(req, res);
+  })
+);
+
+/**
+ * DELETE /api/users/me/saved-searches/:id - Delete a saved search
+ * Requires authentication; only the owner can delete it
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  standardRateLimiter,
+  validateParams(SavedSearchIdParamDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.deleteSavedSearch(req, res);
+  })
+);
+
+export default router;
@@ -108,6 +108,7 @@ router.put(
 
 /**
  * GET /api/users/search - Search users by display name
+ * Query: q, limit (default 10, max 100), cursor or offset
  * Public endpoint
  */
 router.get(
@@ -0,0 +1,150 @@
+import { Router } from 'express';
+import { DIContainer } from '@/container/Container';
+import { TYPES } from '@/container/types';
+import { WantedPostController } from '../controllers/wanted-post.controller';
+import { authenticate, requireVerified, optionalAuthenticate, asyncHandler } from '../middleware';
+import { validateBody, validateQuery, validateParams } from '../middleware/validation.middleware';
+import { standardRateLimiter, searchRateLimiter } from '../middleware/rateLimit.middleware';
+import {
+  CreateWantedPostDto,
+  UpdateWantedPostDto,
+  SearchWantedPostsDto,
+  RespondToWantedPostDto,
+  WantedPostSuggestionsDto,
+  WantedPostIdParamDto
+} from '../dtos/wanted-post.dto';
+
+const router = Router();
+
+// Get controller from DI container
+const getController = (): WantedPostController => {
+  return DIContainer.getInstance().get<WantedPostController>(TYPES.WantedPostController);
+};
+
+/**
+ * GET /api/wanted - Browse open wanted posts
+ * Public endpoint. Filter by category or tags (comma-separated); with latitude and
+ * longitude only posts whose radius reaches that point are returned. Supports limit
+ * with offset or cursor pagination (cursor = nextCursor from the previous page).
+ */
+router.get(
+  '/',
+  optionalAuthenticate,
+  searchRateLimiter,
+  validateQuery(SearchWantedPostsDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.searchWantedPosts(req, res);
+  })
+);
+
+/**
+ * GET /api/wanted/mine - List the current user's wanted posts
+ * Requires authentication
+ */
+router.get(
+  '/mine',
+  authenticate,
+  standardRateLimiter,
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.getMyWantedPosts(req, res);
+  })
+);
+
+/**
+ * POST /api/wanted - Post something you're looking for
+ * Requires authentication and verification
+ */
+router.post(
+  '/',
+  authenticate,
+  requireVerified,
+  standardRateLimiter,
+  validateBody(CreateWantedPostDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.createWantedPost(req, res);
+  })
+);
+
+/**
+ * GET /api/wanted/:id - Get a wanted post
+ * Public endpoint; the poster also sees the items offered
+ */
+router.get(
+  '/:id',
+  optionalAuthenticate,
+  standardRateLimiter,
+  validateParams(WantedPostIdParamDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.getWantedPost(req, res);
+  })
+);
+
+/**
+ * PUT /api/wanted/:id - Update an open wanted post
+ * Requires authentication; only the poster can update it
+ */
+router.put(
+  '/:id',
+  authenticate,
+  standardRateLimiter,
+  validateParams(WantedPostIdParamDto),
+  validateBody(UpdateWantedPostDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.updateWantedPost(req, res);
+  })
+);
+
+/**
+ * POST /api/wanted/:id/close - Close a wanted post
+ * Requires authentication; only the poster can close it
+ */
+router.post(
+  '/:id/close',
+  authenticate,
+  standardRateLimiter,
+  validateParams(WantedPostIdParamDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.closeWantedPost(req, res);
+  })
+);
+
+/**
+ * POST /api/wanted/:id/responses - Offer one of your available items
+ * Requires authentication and verification. Opens an exchange with the poster as receiver.
+ */
+router.post(
+  '/:id/responses',
+  authenticate,
+  requireVerified,
+  standardRateLimiter,
+  validateParams(WantedPostIdParamDto),
+  validateBody(RespondToWantedPostDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.respondToWantedPost(req, res);
+  })
+);
+
+/**
+ * GET /api/wanted/:id/suggestions - Existing items that match a wanted post
+ * Requires authentication; only the poster can see them
+ */
+router.get(
+  '/:id/suggestions',
+  authenticate,
+  searchRateLimiter,
+  validateParams(WantedPostIdParamDto),
+  validateQuery(WantedPostSuggestionsDto),
+  asyncHandler(async (req, res) => {
+    const controller = getController();
+    await controller.getSuggestions(req, res);
+  })
+);
+
+export default router;
@@ -33,6 +33,7 @@ export class App {
       cors({
         origin: this.config.cors.origin,
         credentials: this.config.cors.credentials,
+        exposedHeaders: ["X-Next-Cursor"],
       })
     );
 
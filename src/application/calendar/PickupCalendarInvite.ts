@@ -0,0 +1,117 @@
+import { Exchange } from '../../domain/exchange/Exchange';
+import { Item } from '../../domain/item/Item';
+import { User } from '../../domain/user/User';
+import { EmailAttachment } from '../../infrastructure/services/INotificationService';
+
+export interface PickupCalendarInviteInput {
+  exchange: Exchange;
+  item: Item | null;
+  giver: User;
+  receiver: User;
+  cancelled?: boolean; // Tells calendars to drop an invite sent earlier
+}
+
+export interface PickupCalendarInvite {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+// Used when a pickup was scheduled as a single time rather than an agreed window
+const DEFAULT_PICKUP_DURATION_MS = 30 * 60 * 1000;
+
+/**
+ * Builds an iCalendar (RFC 5545) event for an exchange's scheduled pickup.
+ * The UID is stable per exchange, so a rescheduled or cancelled pickup
+ * replaces the event already in the participants' calendars.
+ */
+export function createPickupCalendarInvite(input: PickupCalendarInviteInput): PickupCalendarInvite {
+  const { exchange, item, giver, receiver } = input;
+  if (!exchange.scheduledPickup) {
+    throw new Error('This exchange has no scheduled pickup');
+  }
+
+  const startsAt = exchange.scheduledPickup;
+  const endsAt = exchange.scheduledPickupEnd ?? new Date(startsAt.getTime() + DEFAULT_PICKUP_DURATION_MS);
+  const itemTitle = item?.details.title || 'Re:UseNet item';
+  const pickupInstructions = item?.details.pickupInstructions;
+  const description = [
+    `${giver.profile.displayName} is giving ${itemTitle} to ${receiver.profile.displayName}.`,
+    pickupInstructions ? `Pickup instructions: ${pickupInstructions}` : undefined,
+    `${process.env.FRONTEND_URL}/exchanges/${exchange.id.value}`
+  ].filter(Boolean).join('\n');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Re:UseNet//Exchange Pickups//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:exchange-${exchange.id.value}@reusenet`,
+    // Sequence must grow with every change; the exchange's last update does
+    `SEQUENCE:${Math.floor(exchange.updatedAt.getTime() / 1000)}`,
+    `DTSTAMP:${formatDate(new Date())}`,
+    `DTSTART:${formatDate(startsAt)}`,
+    `DTEND:${formatDate(endsAt)}`,
+    `SUMMARY:${escapeText(`Pickup: ${itemTitle}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    item ? `LOCATION:${escapeText(item.location.address)}` : undefined,
+    item ? `GEO:${item.location.latitude};${item.location.longitude}` : undefined,
+    `STATUS:${input.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ].filter((line): line is string => line !== undefined);
+
+  return {
+    filename: `pickup-${exchange.id.value}.ics`,
+    contentType: 'text/calendar; charset=utf-8; method=PUBLISH',
+    content: lines.map(foldLine).join('\r\n') + '\r\n'
+  };
+}
+
+export function toEmailAttachment(invite: PickupCalendarInvite): EmailAttachment {
+  return {
+    filename: invite.filename,
+    content: invite.content,
+    contentType: invite.contentType
+  };
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Content lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = '';
+  let currentLength = 0;
+  for (const char of line) {
+    const charLength = Buffer.byteLength(char, 'utf8');
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentLength + charLength > limit) {
+      parts.push(current);
+      current = '';
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += charLength;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
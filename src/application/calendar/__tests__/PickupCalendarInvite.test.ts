@@ -0,0 +1,73 @@
+import { Exchange } from '../../../domain/exchange/Exchange';
+import { Item } from '../../../domain/item/Item';
+import { User } from '../../../domain/user/User';
+import { buildUser } from '../../../domain/user/__fixtures__/buildUser';
+import { createPickupCalendarInvite } from '../PickupCalendarInvite';
+
+const HOUR_MS = 60 * 60 * 1000;
+const location = { latitude: 40.7128, longitude: -74.006, address: '1 Main St, New York, NY' };
+
+const buildItem = (owner: User): Item =>
+  Item.create({
+    userId: owner.id.value,
+    details: {
+      title: 'Oak bookshelf, five shelves',
+      description: 'Solid oak',
+      category: 'furniture',
+      tags: [],
+      images: ['https://example.com/bookshelf.jpg'],
+      condition: 'good'
+    },
+    location
+  });
+
+describe('createPickupCalendarInvite', () => {
+  let giver: User;
+  let receiver: User;
+  let item: Item;
+  let exchange: Exchange;
+
+  beforeEach(() => {
+    giver = buildUser('Giver');
+    receiver = buildUser('Receiver');
+    item = buildItem(giver);
+    exchange = Exchange.create({ itemId: item.id.value, giverId: giver.id.value, receiverId: receiver.id.value });
+  });
+
+  it('uses the slot the receiver chose from the giver\'s proposal', () => {
+    const startsAt = new Date(Date.UTC(2099, 0, 15, 17, 0));
+    exchange.proposePickupSlots(giver.id, [
+      { startsAt, endsAt: new Date(startsAt.getTime() + HOUR_MS) },
+      { startsAt: new Date(startsAt.getTime() + 24 * HOUR_MS), endsAt: new Date(startsAt.getTime() + 25 * HOUR_MS) }
+    ]);
+    exchange.choosePickupSlot(receiver.id, exchange.pickupSlots[0].id);
+
+    const invite = createPickupCalendarInvite({ exchange, item, giver, receiver });
+
+    expect(exchange.pickupSlots).toEqual([]);
+    expect(exchange.domainEvents.map(event => event.eventType)).toContain('ExchangePickupScheduled');
+    expect(invite.filename).toBe(`pickup-${exchange.id.value}.ics`);
+    expect(invite.content).toContain('DTSTART:20990115T170000Z\r\n');
+    expect(invite.content).toContain('DTEND:20990115T180000Z\r\n');
+    expect(invite.content).toContain('SUMMARY:Pickup: Oak bookshelf\\, five shelves\r\n');
+    expect(invite.content).toContain('STATUS:CONFIRMED\r\n');
+  });
+
+  it('does not let a participant choose their own slot', () => {
+    const startsAt = new Date(Date.now() + 24 * HOUR_MS);
+    exchange.proposePickupSlots(giver.id, [{ startsAt, endsAt: new Date(startsAt.getTime() + HOUR_MS) }]);
+
+    expect(() => exchange.choosePickupSlot(giver.id, exchange.pickupSlots[0].id))
+      .toThrow('Cannot choose a pickup slot you proposed');
+  });
+
+  it('marks the event cancelled and folds long lines', () => {
+    exchange.accept(new Date(Date.now() + 24 * HOUR_MS));
+
+    const invite = createPickupCalendarInvite({ exchange, item, giver, receiver, cancelled: true });
+    const lines = invite.content.split('\r\n');
+
+    expect(lines).toContain('STATUS:CANCELLED');
+    expect(lines.every(line => Buffer.byteLength(line, 'utf8') <= 75)).toBe(true);
+  });
+});
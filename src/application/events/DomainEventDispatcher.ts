@@ -0,0 +1,115 @@
+import { injectable, inject, multiInject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { AppConfig, EventsConfig } from '@/config/AppConfig';
+import { IDomainEventOutboxRepository, OutboxEntry } from '../../infrastructure/repositories/IDomainEventOutboxRepository';
+import { IUnitOfWork } from '../../infrastructure/database/IUnitOfWork';
+import { IDomainEventSubscriber } from './IDomainEventSubscriber';
+
+/**
+ * Polls the outbox and delivers events to their subscribers. Each subscriber's
+ * writes commit together with its delivery mark, so a retry only re-runs the
+ * subscribers that failed. Failed events are retried with exponential backoff
+ * until they run out of attempts.
+ */
+@injectable()
+export class DomainEventDispatcher {
+  // How long a claimed batch stays hidden from other dispatchers
+  private static readonly LEASE_MS = 60000;
+
+  private readonly config: EventsConfig;
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(
+    @inject(TYPES.IDomainEventOutboxRepository)
+    private readonly outboxRepository: IDomainEventOutboxRepository,
+    @inject(TYPES.IUnitOfWork)
+    private readonly unitOfWork: IUnitOfWork,
+    @multiInject(TYPES.IDomainEventSubscriber)
+    private readonly subscribers: IDomainEventSubscriber[],
+    @inject(TYPES.AppConfig)
+    config: AppConfig
+  ) {
+    this.config = config.events;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, this.config.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async dispatchPending(): Promise<number> {
+    const entries = await this.outboxRepository.claimDue(this.config.batchSize, DomainEventDispatcher.LEASE_MS);
+
+    for (const entry of entries) {
+      await this.dispatch(entry);
+    }
+
+    return entries.length;
+  }
+
+  private async poll(): Promise<void> {
+    // Skip the tick if the previous batch is still being delivered
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      await this.dispatchPending();
+    } catch (error) {
+      console.error('Failed to dispatch domain events:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async dispatch(entry: OutboxEntry): Promise<void> {
+    const failures: string[] = [];
+
+    for (const subscriber of this.subscribers) {
+      if (!subscriber.eventTypes.includes(entry.eventType) || entry.deliveredTo.includes(subscriber.name)) {
+        continue;
+      }
+
+      try {
+        await this.unitOfWork.execute(async () => {
+          await subscriber.handle(entry);
+          await this.outboxRepository.markDelivered(entry.eventId, subscriber.name);
+        });
+      } catch (error) {
+        console.error(`Subscriber ${subscriber.name} failed to handle ${entry.eventType} ${entry.eventId}:`, error);
+        failures.push(`${subscriber.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    if (failures.length === 0) {
+      await this.outboxRepository.markProcessed(entry.eventId);
+      return;
+    }
+
+    const attempts = entry.attempts + 1;
+    const lastError = failures.join('; ');
+
+    if (attempts >= this.config.maxAttempts) {
+      await this.outboxRepository.markFailed(entry.eventId, attempts, lastError);
+      return;
+    }
+
+    const delay = this.config.retryBaseDelayMs * 2 ** (attempts - 1);
+    await this.outboxRepository.scheduleRetry(entry.eventId, attempts, new Date(Date.now() + delay), lastError);
+  }
+}
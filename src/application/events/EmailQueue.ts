@@ -0,0 +1,48 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { DomainEvent, createDomainEvent } from '../../domain/events/DomainEvent';
+import { User } from '../../domain/user/User';
+import { IDomainEventOutboxRepository } from '../../infrastructure/repositories/IDomainEventOutboxRepository';
+import { EmailAttachment } from '../../infrastructure/services/INotificationService';
+
+export interface QueuedEmailAttachment {
+  filename: string;
+  content: string;
+  contentType: string;
+}
+
+export type EmailRequested = DomainEvent<'EmailRequested', {
+  to: string;
+  subject: string;
+  body: string; // HTML
+  attachments?: QueuedEmailAttachment[];
+}>;
+
+/**
+ * Puts each email on the outbox as its own event, which the email delivery
+ * subscriber sends. A subscriber that emails several people queues them in
+ * its own transaction, so a failed send is retried without repeating the
+ * emails that already went out.
+ */
+@injectable()
+export class EmailQueue {
+  constructor(
+    @inject(TYPES.IDomainEventOutboxRepository)
+    private readonly outboxRepository: IDomainEventOutboxRepository
+  ) {}
+
+  async enqueue(recipient: User, subject: string, body: string, attachments?: EmailAttachment[]): Promise<void> {
+    const event: EmailRequested = createDomainEvent('EmailRequested', 'User', recipient.id.value, {
+      to: recipient.email.value,
+      subject,
+      body,
+      attachments: attachments?.map(attachment => ({
+        filename: attachment.filename,
+        content: attachment.content.toString(),
+        contentType: attachment.contentType
+      }))
+    });
+
+    await this.outboxRepository.append([event]);
+  }
+}
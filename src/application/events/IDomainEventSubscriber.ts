@@ -0,0 +1,12 @@
+import { DomainEvent } from '../../domain/events/DomainEvent';
+
+/**
+ * Reacts to domain events delivered from the outbox. Handlers may run more than
+ * once for the same event (after a crash or a failed sibling subscriber), so
+ * they must be safe to repeat.
+ */
+export interface IDomainEventSubscriber {
+  readonly name: string; // Recorded on the outbox entry once delivered, so keep it stable
+  readonly eventTypes: readonly string[];
+  handle(event: DomainEvent): Promise<void>;
+}
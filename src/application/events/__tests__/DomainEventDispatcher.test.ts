@@ -0,0 +1,116 @@
+import 'reflect-metadata';
+import { randomUUID } from 'crypto';
+import { AppConfig } from '../../../config/AppConfig';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import { IDomainEventOutboxRepository, OutboxEntry } from '../../../infrastructure/repositories/IDomainEventOutboxRepository';
+import { IUnitOfWork } from '../../../infrastructure/database/IUnitOfWork';
+import { DomainEventDispatcher } from '../DomainEventDispatcher';
+import { IDomainEventSubscriber } from '../IDomainEventSubscriber';
+
+const buildEntry = (overrides: Partial<OutboxEntry> = {}): OutboxEntry => ({
+  eventId: randomUUID(),
+  eventType: 'ItemPosted',
+  aggregateType: 'Item',
+  aggregateId: randomUUID(),
+  occurredAt: new Date(),
+  payload: {},
+  status: 'pending',
+  attempts: 0,
+  deliveredTo: [],
+  ...overrides
+});
+
+const buildSubscriber = (name: string, eventTypes: string[]): IDomainEventSubscriber & { handle: jest.Mock } => ({
+  name,
+  eventTypes,
+  handle: jest.fn(async (_event: DomainEvent) => undefined)
+});
+
+describe('DomainEventDispatcher', () => {
+  let outboxRepository: jest.Mocked<IDomainEventOutboxRepository>;
+  let unitOfWork: IUnitOfWork;
+  let points: ReturnType<typeof buildSubscriber>;
+  let notifications: ReturnType<typeof buildSubscriber>;
+  let dispatcher: DomainEventDispatcher;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    outboxRepository = {
+      append: jest.fn(),
+      claimDue: jest.fn(),
+      markDelivered: jest.fn(),
+      markProcessed: jest.fn(),
+      scheduleRetry: jest.fn(),
+      markFailed: jest.fn()
+    };
+    unitOfWork = { execute: jest.fn(work => work()) };
+    points = buildSubscriber('points', ['ItemPosted']);
+    notifications = buildSubscriber('notifications', ['ItemPosted', 'UserVerified']);
+
+    dispatcher = new DomainEventDispatcher(
+      outboxRepository,
+      unitOfWork,
+      [points, notifications],
+      { events: { pollIntervalMs: 1000, batchSize: 10, maxAttempts: 3, retryBaseDelayMs: 1000 } } as AppConfig
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('delivers each event to its subscribers and marks it processed', async () => {
+    const entry = buildEntry();
+    outboxRepository.claimDue.mockResolvedValue([entry]);
+
+    await expect(dispatcher.dispatchPending()).resolves.toBe(1);
+
+    expect(points.handle).toHaveBeenCalledWith(entry);
+    expect(notifications.handle).toHaveBeenCalledWith(entry);
+    expect(outboxRepository.markDelivered).toHaveBeenCalledWith(entry.eventId, 'points');
+    expect(outboxRepository.markDelivered).toHaveBeenCalledWith(entry.eventId, 'notifications');
+    expect(outboxRepository.markProcessed).toHaveBeenCalledWith(entry.eventId);
+  });
+
+  it('skips subscribers that already handled the event', async () => {
+    const entry = buildEntry({ deliveredTo: ['points'] });
+    outboxRepository.claimDue.mockResolvedValue([entry]);
+
+    await dispatcher.dispatchPending();
+
+    expect(points.handle).not.toHaveBeenCalled();
+    expect(notifications.handle).toHaveBeenCalledWith(entry);
+    expect(outboxRepository.markProcessed).toHaveBeenCalledWith(entry.eventId);
+  });
+
+  it('schedules a retry with backoff when a subscriber fails', async () => {
+    const entry = buildEntry({ attempts: 1 });
+    outboxRepository.claimDue.mockResolvedValue([entry]);
+    notifications.handle.mockRejectedValue(new Error('smtp unavailable'));
+
+    const before = Date.now();
+    await dispatcher.dispatchPending();
+
+    expect(outboxRepository.markDelivered).toHaveBeenCalledWith(entry.eventId, 'points');
+    expect(outboxRepository.markDelivered).not.toHaveBeenCalledWith(entry.eventId, 'notifications');
+    expect(outboxRepository.markProcessed).not.toHaveBeenCalled();
+
+    const [id, attempts, nextAttemptAt, error] = outboxRepository.scheduleRetry.mock.calls[0];
+    expect(id).toBe(entry.eventId);
+    expect(attempts).toBe(2);
+    expect(nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 2000);
+    expect(error).toBe('notifications: smtp unavailable');
+  });
+
+  it('marks the event failed once it runs out of attempts', async () => {
+    const entry = buildEntry({ attempts: 2 });
+    outboxRepository.claimDue.mockResolvedValue([entry]);
+    points.handle.mockRejectedValue(new Error('ledger unavailable'));
+
+    await dispatcher.dispatchPending();
+
+    expect(outboxRepository.markFailed).toHaveBeenCalledWith(entry.eventId, 3, 'points: ledger unavailable');
+    expect(outboxRepository.scheduleRetry).not.toHaveBeenCalled();
+  });
+});
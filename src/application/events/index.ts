@@ -0,0 +1,13 @@
+export * from './IDomainEventSubscriber';
+export * from './DomainEventDispatcher';
+export * from './EmailQueue';
+export * from './subscribers/PointsEventSubscriber';
+export * from './subscribers/MatchingEventSubscriber';
+export * from './subscribers/SavedSearchEventSubscriber';
+export * from './subscribers/WantedPostEventSubscriber';
+export * from './subscribers/ExchangeNotificationSubscriber';
+export * from './subscribers/ListingNotificationSubscriber';
+export * from './subscribers/SavedSearchAlertSubscriber';
+export * from './subscribers/AccountNotificationSubscriber';
+export * from './subscribers/PasswordResetSubscriber';
+export * from './subscribers/EmailDeliverySubscriber';
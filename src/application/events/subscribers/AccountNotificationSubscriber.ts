@@ -0,0 +1,168 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import { UserSuspended, UserBanned, UserReinstated } from '../../../domain/user/UserEvents';
+import { ItemId } from '../../../domain/item/value-objects/ItemId';
+import { UserId } from '../../../domain/user/value-objects/UserId';
+import { User } from '../../../domain/user/User';
+import { IExchangeRepository } from '../../../infrastructure/repositories/IExchangeRepository';
+import { IItemRepository } from '../../../infrastructure/repositories/IItemRepository';
+import { IUserRepository } from '../../../infrastructure/repositories/IUserRepository';
+import { EmailQueue } from '../EmailQueue';
+import { IDomainEventSubscriber } from '../IDomainEventSubscriber';
+
+/**
+ * Emails users when their account is verified, restricted or reinstated,
+ * and warns the people in their open exchanges about restrictions.
+ */
+@injectable()
+export class AccountNotificationSubscriber implements IDomainEventSubscriber {
+  readonly name = 'account-notifications';
+  readonly eventTypes = [
+    'UserVerified',
+    'UserSuspended',
+    'UserBanned',
+    'UserReinstated'
+  ];
+
+  constructor(
+    @inject(TYPES.IExchangeRepository)
+    private readonly exchangeRepository: IExchangeRepository,
+    @inject(TYPES.IItemRepository)
+    private readonly itemRepository: IItemRepository,
+    @inject(TYPES.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(TYPES.EmailQueue)
+    private readonly emailQueue: EmailQueue
+  ) {}
+
+  async handle(event: DomainEvent): Promise<void> {
+    switch (event.eventType) {
+      case 'UserVerified':
+        return this.sendWelcomeEmail(event.aggregateId);
+      case 'UserSuspended':
+        return this.sendSuspensionNotice(event as UserSuspended);
+      case 'UserBanned':
+        return this.sendBanNotice(event as UserBanned);
+      case 'UserReinstated':
+        return this.sendReinstatementNotice(event as UserReinstated);
+    }
+  }
+
+  private async sendWelcomeEmail(userId: string): Promise<void> {
+    const user = await this.userRepository.findById(new UserId(userId));
+    if (!user) return;
+
+    const subject = 'Welcome to Re:UseNet - Your account is verified!';
+    const body = `
+      <h2>Congratulations, ${user.profile.displayName}!</h2>
+      <p>Your Re:UseNet account has been successfully verified.</p>
+      <p>You've earned <strong>50 Eco-Points</strong> for verifying your account!</p>
+      <p>You can now:</p>
+      <ul>
+        <li>Post items you no longer need</li>
+        <li>Search for items you want</li>
+        <li>Connect with your local community</li>
+        <li>Earn Eco-Points for every exchange</li>
+      </ul>
+      <p><a href="${process.env.FRONTEND_URL}/dashboard" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Start Exploring</a></p>
+      <p>Happy reusing!<br>The Re:UseNet Team</p>
+    `;
+
+    await this.emailQueue.enqueue(user, subject, body);
+  }
+
+  private async sendSuspensionNotice(event: UserSuspended): Promise<void> {
+    const user = await this.userRepository.findById(new UserId(event.aggregateId));
+    if (!user) return;
+
+    const suspendedUntil = new Date(event.payload.suspendedUntil);
+    const subject = 'Your Re:UseNet account has been suspended';
+    const body = `
+      <h2>Your account has been suspended</h2>
+      <p>Hi ${user.profile.displayName},</p>
+      <p>The Re:UseNet team has suspended your account until <strong>${suspendedUntil.toLocaleString()}</strong>. Until then you can't post items or start exchanges, and your listings are hidden from search.</p>
+      <p><strong>Reason:</strong> ${event.payload.reason}</p>
+      <p>You can still sign in to see your exchanges.</p>
+      <p>If you think this was a mistake, just reply to this email.</p>
+      <p>The Re:UseNet Team</p>
+    `;
+
+    await this.emailQueue.enqueue(user, subject, body);
+    await this.sendCounterpartNotices(
+      user,
+      `<strong>${user.profile.displayName}</strong>'s account has been suspended until ${suspendedUntil.toLocaleString()}, so they may not be able to finish`
+    );
+  }
+
+  private async sendBanNotice(event: UserBanned): Promise<void> {
+    const user = await this.userRepository.findById(new UserId(event.aggregateId));
+    if (!user) return;
+
+    const subject = 'Your Re:UseNet account has been banned';
+    const body = `
+      <h2>Your account has been banned</h2>
+      <p>Hi ${user.profile.displayName},</p>
+      <p>The Re:UseNet team has banned your account, so you can no longer sign in, and your listings are hidden from search.</p>
+      <p><strong>Reason:</strong> ${event.payload.reason}</p>
+      <p>If you think this was a mistake, just reply to this email.</p>
+      <p>The Re:UseNet Team</p>
+    `;
+
+    await this.emailQueue.enqueue(user, subject, body);
+    await this.sendCounterpartNotices(
+      user,
+      `<strong>${user.profile.displayName}</strong>'s account is no longer active, so they won't be able to finish`
+    );
+  }
+
+  private async sendReinstatementNotice(event: UserReinstated): Promise<void> {
+    const user = await this.userRepository.findById(new UserId(event.aggregateId));
+    if (!user) return;
+
+    const subject = 'Your Re:UseNet account has been reinstated';
+    const body = `
+      <h2>Welcome back</h2>
+      <p>Hi ${user.profile.displayName},</p>
+      <p>The Re:UseNet team has reinstated your account. You can post items and take part in exchanges again, and your listings are back in search.</p>
+      <p><a href="${process.env.FRONTEND_URL}/dashboard" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Go to Dashboard</a></p>
+      <p>Happy reusing!<br>The Re:UseNet Team</p>
+    `;
+
+    await this.emailQueue.enqueue(user, subject, body);
+  }
+
+  /**
+   * Lets the other side of each of the user's open exchanges know, so they
+   * can decide whether to wait or cancel. The reason stays between the user
+   * and the team.
+   */
+  private async sendCounterpartNotices(user: User, explanation: string): Promise<void> {
+    const exchanges = await this.exchangeRepository.findByUserId(user.id);
+    const openExchanges = exchanges.filter(exchange => exchange.status.isRequested() || exchange.status.isAccepted());
+
+    for (const exchange of openExchanges) {
+      const counterpartId = exchange.giverId.equals(user.id) ? exchange.receiverId : exchange.giverId;
+      const counterpart = await this.userRepository.findById(counterpartId);
+      if (!counterpart) continue;
+
+      const itemTitle = await this.getItemTitle(exchange.itemId.value, 'the item');
+      const subject = `Update on your exchange - ${itemTitle}`;
+      const body = `
+        <h2>Someone in your exchange has been restricted</h2>
+        <p>Hi ${counterpart.profile.displayName},</p>
+        <p>${explanation} your exchange of <strong>${itemTitle}</strong>.</p>
+        <p>You can keep the exchange open or cancel it from its page.</p>
+        <p><a href="${process.env.FRONTEND_URL}/exchanges/${exchange.id.value}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Review Exchange</a></p>
+        <p>The Re:UseNet Team</p>
+      `;
+
+      await this.emailQueue.enqueue(counterpart, subject, body);
+    }
+  }
+
+  private async getItemTitle(itemId: string, fallback: string): Promise<string> {
+    const item = await this.itemRepository.findById(new ItemId(itemId));
+    return item?.details.title || fallback;
+  }
+}
@@ -0,0 +1,30 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import { INotificationService } from '../../../infrastructure/services/INotificationService';
+import { EmailRequested } from '../EmailQueue';
+import { IDomainEventSubscriber } from '../IDomainEventSubscriber';
+
+/**
+ * Sends the emails other subscribers queued, one outbox event per email.
+ */
+@injectable()
+export class EmailDeliverySubscriber implements IDomainEventSubscriber {
+  readonly name = 'email-delivery';
+  readonly eventTypes = ['EmailRequested'];
+
+  constructor(
+    @inject(TYPES.INotificationService)
+    private readonly notificationService: INotificationService
+  ) {}
+
+  async handle(event: DomainEvent): Promise<void> {
+    const { to, subject, body, attachments } = (event as EmailRequested).payload;
+
+    // The provider reports failures instead of throwing; throw so the email is retried
+    const result = await this.notificationService.sendEmail(to, subject, body, true, attachments);
+    if (!result.success) {
+      throw new Error(result.error || `Failed to send email to ${to}`);
+    }
+  }
+}
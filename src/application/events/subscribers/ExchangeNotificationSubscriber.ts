@@ -0,0 +1,495 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import {
+  ExchangeRequested,
+  ExchangeAccepted,
+  ExchangeCompleted,
+  ExchangeCancelled,
+  ExchangeCancelledByAdmin,
+  PickupSlotsProposed,
+  ExchangePickupScheduled,
+  ExchangePickupApproaching,
+  ExchangeExpired,
+  ItemRequested,
+  ItemRequestSelected,
+  ItemRequestDeclined,
+  ExchangeDisputeOpened,
+  ExchangeDisputeResolved
+} from '../../../domain/exchange/ExchangeEvents';
+import { DisputeReason, DisputeReasonValue } from '../../../domain/exchange/value-objects/DisputeReason';
+import { ExchangeId } from '../../../domain/exchange/value-objects/ExchangeId';
+import { ItemId } from '../../../domain/item/value-objects/ItemId';
+import { UserId } from '../../../domain/user/value-objects/UserId';
+import { User } from '../../../domain/user/User';
+import { IExchangeRepository } from '../../../infrastructure/repositories/IExchangeRepository';
+import { IItemRepository } from '../../../infrastructure/repositories/IItemRepository';
+import { IUserRepository } from '../../../infrastructure/repositories/IUserRepository';
+import { EmailAttachment } from '../../../infrastructure/services/INotificationService';
+import { createPickupCalendarInvite, toEmailAttachment } from '../../calendar/PickupCalendarInvite';
+import { EmailQueue } from '../EmailQueue';
+import { IDomainEventSubscriber } from '../IDomainEventSubscriber';
+
+/**
+ * Emails the people in an exchange, or asking for an item, when it moves on.
+ */
+@injectable()
+export class ExchangeNotificationSubscriber implements IDomainEventSubscriber {
+  readonly name = 'exchange-notifications';
+  readonly eventTypes = [
+    'ExchangeRequested',
+    'ExchangeAccepted',
+    'ExchangeCompleted',
+    'ExchangeCancelled',
+    'ExchangeCancelledByAdmin',
+    'PickupSlotsProposed',
+    'ExchangePickupScheduled',
+    'ExchangePickupApproaching',
+    'ExchangeExpired',
+    'ItemRequested',
+    'ItemRequestSelected',
+    'ItemRequestDeclined',
+    'ExchangeDisputeOpened',
+    'ExchangeDisputeResolved'
+  ];
+
+  constructor(
+    @inject(TYPES.IExchangeRepository)
+    private readonly exchangeRepository: IExchangeRepository,
+    @inject(TYPES.IItemRepository)
+    private readonly itemRepository: IItemRepository,
+    @inject(TYPES.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(TYPES.EmailQueue)
+    private readonly emailQueue: EmailQueue
+  ) {}
+
+  async handle(event: DomainEvent): Promise<void> {
+    switch (event.eventType) {
+      case 'ExchangeRequested':
+        return this.sendExchangeRequestNotification(event as ExchangeRequested);
+      case 'ExchangeAccepted':
+        return this.sendExchangeAcceptedNotification(event as ExchangeAccepted);
+      case 'ExchangeCompleted':
+        return this.sendExchangeCompletedNotification(event as ExchangeCompleted);
+      case 'ExchangeCancelled':
+        return this.sendExchangeCancelledNotification(event as ExchangeCancelled);
+      case 'ExchangeCancelledByAdmin':
+        return this.sendExchangeCancelledByAdminNotification(event as ExchangeCancelledByAdmin);
+      case 'PickupSlotsProposed':
+        return this.sendPickupSlotsProposedNotification(event as PickupSlotsProposed);
+      case 'ExchangePickupScheduled':
+        return this.sendPickupScheduledNotification(event as ExchangePickupScheduled);
+      case 'ExchangePickupApproaching':
+        return this.sendPickupReminder(event as ExchangePickupApproaching);
+      case 'ExchangeExpired':
+        return this.sendExchangeExpiredNotification(event as ExchangeExpired);
+      case 'ItemRequested':
+        return this.sendItemRequestedNotification(event as ItemRequested);
+      case 'ItemRequestSelected':
+        return this.sendItemRequestSelectedNotification(event as ItemRequestSelected);
+      case 'ItemRequestDeclined':
+        return this.sendItemRequestDeclinedNotification(event as ItemRequestDeclined);
+      case 'ExchangeDisputeOpened':
+        return this.sendDisputeOpenedNotification(event as ExchangeDisputeOpened);
+      case 'ExchangeDisputeResolved':
+        return this.sendDisputeResolvedNotification(event as ExchangeDisputeResolved);
+    }
+  }
+
+  private async sendExchangeRequestNotification(event: ExchangeRequested): Promise<void> {
+    const giver = await this.userRepository.findById(new UserId(event.payload.giverId));
+    const receiver = await this.userRepository.findById(new UserId(event.payload.receiverId));
+    if (!giver || !receiver) return;
+
+    const itemTitle = await this.getItemTitle(event.payload.itemId, 'an item');
+    const message = event.payload.message;
+
+    const subject = `New Exchange Request - ${itemTitle}`;
+    const body = `
+      <h2>You have a new exchange request!</h2>
+      <p>Hi ${receiver.profile.displayName},</p>
+      <p><strong>${giver.profile.displayName}</strong> would like to give you <strong>${itemTitle}</strong>.</p>
+      ${message ? `<p><strong>Message:</strong> ${message}</p>` : ''}
+      <p>You can view the item details and accept or decline this request in your Re:UseNet dashboard.</p>
+      <p><a href="${process.env.FRONTEND_URL}/exchanges/${event.aggregateId}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">View Exchange Request</a></p>
+      <p>Happy reusing!<br>The Re:UseNet Team</p>
+    `;
+
+    await this.emailQueue.enqueue(receiver, subject, body);
+  }
+
+  private async sendExchangeAcceptedNotification(event: ExchangeAccepted): Promise<void> {
+    const giver = await this.userRepository.findById(new UserId(event.payload.giverId));
+    const receiver = await this.userRepository.findById(new UserId(event.payload.receiverId));
+    if (!giver || !receiver) return;
+
+    const itemTitle = await this.getItemTitle(event.payload.itemId, 'your item');
+    const scheduledPickup = event.payload.scheduledPickup ? new Date(event.payload.scheduledPickup) : undefined;
+
+    const subject = `Exchange Request Accepted - ${itemTitle}`;
+    const body = `
+      <h2>Great news! Your exchange request has been accepted.</h2>
+      <p>Hi ${giver.profile.displayName},</p>
+      <p><strong>${receiver.profile.displayName}</strong> has accepted your offer to give them <strong>${itemTitle}</strong>.</p>
+      ${scheduledPickup ? `<p><strong>Scheduled pickup:</strong> ${scheduledPickup.toLocaleDateString()}</p>` : ''}
+      <p>You can coordinate the pickup details through your Re:UseNet dashboard.</p>
+      <p><a href="${process.env.FRONTEND_URL}/exchanges/${event.aggregateId}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">View Exchange Details</a></p>
+      <p>Happy reusing!<br>The Re:UseNet Team</p>
+    `;
+
+    const attachments = await this.getPickupInviteAttachments(event.aggregateId, giver, receiver);
+    await this.emailQueue.enqueue(giver, subject, body, attachments);
+  }
+
+  private async sendExchangeCompletedNotification(event: ExchangeCompleted): Promise<void> {
+    const giver = await this.userRepository.findById(new UserId(event.payload.giverId));
+    const receiver = await this.userRepository.findById(new UserId(event.payload.receiverId));
+    if (!giver || !receiver) return;
+
+    const itemTitle = await this.getItemTitle(event.payload.itemId, 'the item');
+
+    // The points subscriber runs first and records what the giver earned
+    const exchange = await this.exchangeRepository.findById(new ExchangeId(event.aggregateId));
+    const pointsAwarded = exchange?.ecoPointsAwarded ?? 0;
+
+    // Send to giver
+    const giverSubject = `Exchange Completed - ${itemTitle}`;
+    const giverBody = `
+      <h2>Exchange completed successfully!</h2>
+      <p>Hi ${giver.profile.displayName},</p>
+      <p>Your exchange of <strong>${itemTitle}</strong> with <strong>${receiver.profile.displayName}</strong> has been completed.</p>
+      ${pointsAwarded > 0 ? `<p>You've earned <strong>${pointsAwarded} Eco-Points</strong> for this exchange!</p>` : ''}
+      <p>Don't forget to rate your exchange experience to help build trust in our community.</p>
+      <p><a href="${process.env.FRONTEND_URL}/exchanges/${event.aggregateId}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Rate Exchange</a></p>
+      <p>Happy reusing!<br>The Re:UseNet Team</p>
+    `;
+
+    // Send to receiver
+    const receiverSubject = `Exchange Completed - ${itemTitle}`;
+    const receiverBody = `
+      <h2>Exchange completed successfully!</h2>
+      <p>Hi ${receiver.profile.displayName},</p>
+      <p>Your exchange to receive <strong>${itemTitle}</strong> from <strong>${giver.profile.displayName}</strong> has been completed.</p>
+      ${pointsAwarded > 0 ? `<p>You've earned <strong>${Math.floor(pointsAwarded * 0.5)} Eco-Points</strong> for this exchange!</p>` : ''}
+      <p>Don't forget to rate your exchange experience to help build trust in our community.</p>
+      <p><a href="${process.env.FRONTEND_URL}/exchanges/${event.aggregateId}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Rate Exchange</a></p>
+      <p>Happy reusing!<br>The Re:UseNet Team</p>
+    `;
+
+    await Promise.all([
+      this.emailQueue.enqueue(giver, giverSubject, giverBody),
+      this.emailQueue.enqueue(receiver, receiverSubject, receiverBody)
+    ]);
+  }
+
+  private async sendExchangeCancelledNotification(event: ExchangeCancelled): Promise<void> {
+    const cancelledByGiver = event.payload.cancelledBy === event.payload.giverId;
+    const canceller = await this.userRepository.findById(new UserId(event.payload.cancelledBy));
+    const otherParty = await this.userRepository.findById(
+      new UserId(cancelledByGiver ? event.payload.receiverId : event.payload.giverId)
+    );
+    if (!canceller || !otherParty) return;
+
+    const itemTitle = await this.getItemTitle(event.payload.itemId, 'the item');
+
+    const subject = `Exchange Cancelled - ${itemTitle}`;
+    const body = `
+      <h2>Exchange has been cancelled</h2>
+      <p>Hi ${otherParty.profile.displayName},</p>
+      <p>Unfortunately, <strong>${canceller.profile.displayName}</strong> has cancelled the exchange for <strong>${itemTitle}</strong>.</p>
+      <p><strong>Reason:</strong> ${event.payload.reason}</p>
+      <p>The item is now available again for other exchange requests.</p>
+      <p><a href="${process.env.FRONTEND_URL}/items/${event.payload.itemId}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">View Item</a></p>
+      <p>Happy reusing!<br>The Re:UseNet Team</p>
+    `;
+
+    const [giver, receiver] = cancelledByGiver ? [canceller, otherParty] : [otherParty, canceller];
+    const attachments = await this.getPickupInviteAttachments(event.aggregateId, giver, receiver);
+    await this.emailQueue.enqueue(otherParty, subject, body, attachments);
+  }
+
+  private async sendExchangeCancelledByAdminNotification(event: ExchangeCancelledByAdmin): Promise<void> {
+    const giver = await this.userRepository.findById(new UserId(event.payload.giverId));
+    const receiver = await this.userRepository.findById(new UserId(event.payload.receiverId));
+    if (!giver || !receiver) return;
+
+    const itemTitle = await this.getItemTitle(event.payload.itemId, 'the item');
+
+    const subject = `Exchange Cancelled - ${itemTitle}`;
+    const buildBody = (recipientName: string) => `
+      <h2>Exchange has been cancelled</h2>
+      <p>Hi ${recipientName},</p>
+      <p>The Re:UseNet team has cancelled the exchange for <strong>${itemTitle}</strong>.</p>
+      <p><strong>Reason:</strong> ${event.payload.reason}</p>
+      <p>If you have questions about this, just reply to this email.</p>
+      <p>The Re:UseNet Team</p>
+    `;
+
+    const attachments = await this.getPickupInviteAttachments(event.aggregateId, giver, receiver);
+    await Promise.all([
+      this.emailQueue.enqueue(giver, subject, buildBody(giver.profile.displayName), attachments),
+      this.emailQueue.enqueue(receiver, subject, buildBody(receiver.profile.displayName), attachments)
+    ]);
+  }
+
+  private async sendPickupSlotsProposedNotification(event: PickupSlotsProposed): Promise<void> {
+    const proposedByGiver = event.payload.proposedBy === event.payload.giverId;
+    const proposer = await this.userRepository.findById(new UserId(event.payload.proposedBy));
+    const otherParty = await this.userRepository.findById(
+      new UserId(proposedByGiver ? event.payload.receiverId : event.payload.giverId)
+    );
+    if (!proposer || !otherParty) return;
+
+    const itemTitle = await this.getItemTitle(event.payload.itemId, 'the item');
+    const slots = event.payload.slots
+      .map(slot => `<li>${new Date(slot.startsAt).toLocaleString()} - ${new Date(slot.endsAt).toLocaleTimeString()}</li>`)
+      .join('');
+
+    const subject = `Pickup Times Proposed - ${itemTitle}`;
+    const body = `
+      <h2>New pickup times to choose from</h2>
+      <p>Hi ${otherParty.profile.displayName},</p>
+      <p><strong>${proposer.profile.displayName}</strong> is available for the pickup of <strong>${itemTitle}</strong> at these times:</p>
+      <ul>${slots}</ul>
+      <p>Pick the one that suits you, or propose your own times, in your Re:UseNet dashboard.</p>
+      <p><a href="${process.env.FRONTEND_URL}/exchanges/${event.aggregateId}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Choose a Time</a></p>
+      <p>Happy reusing!<br>The Re:UseNet Team</p>
+    `;
+
+    await this.emailQueue.enqueue(otherParty, subject, body);
+  }
+
+  private async sendPickupScheduledNotification(event: ExchangePickupScheduled): Promise<void> {
+    const giver = await this.userRepository.findById(new UserId(event.payload.giverId));
+    const receiver = await this.userRepository.findById(new UserId(event.payload.receiverId));
+    if (!giver || !receiver) return;
+
+    const itemTitle = await this.getItemTitle(event.payload.itemId, 'the item');
+    const startsAt = new Date(event.payload.scheduledPickup);
+    const endsAt = new Date(event.payload.scheduledPickupEnd);
+
+    const subject = `Pickup Time Confirmed - ${itemTitle}`;
+    const buildBody = (recipientName: string, otherPartyName: string) => `
+      <h2>Your pickup time is confirmed</h2>
+      <p>Hi ${recipientName},</p>
+      <p>You and <strong>${otherPartyName}</strong> agreed to the pickup of <strong>${itemTitle}</strong> on <strong>${startsAt.toLocaleString()} - ${endsAt.toLocaleTimeString()}</strong>.</p>
+      <p>The attached calendar invite adds it to your calendar.</p>
+      <p><a href="${process.env.FRONTEND_URL}/exchanges/${event.aggregateId}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">View Exchange Details</a></p>
+      <p>Happy reusing!<br>The Re:UseNet Team</p>
+    `;
+
+    const attachments = await this.getPickupInviteAttachments(event.aggregateId, giver, receiver);
+    await Promise.all([
+      this.emailQueue.enqueue(giver, subject, buildBody(giver.profile.displayName, receiver.profile.displayName), attachments),
+      this.emailQueue.enqueue(receiver, subject, buildBody(receiver.profile.displayName, giver.profile.displayName), attachments)
+    ]);
+  }
+
+  private async sendPickupReminder(event: ExchangePickupApproaching): Promise<void> {
+    const giver = await this.userRepository.findById(new UserId(event.payload.giverId));
+    const receiver = await this.userRepository.findById(new UserId(event.payload.receiverId));
+    if (!giver || !receiver) return;
+
+    const itemTitle = await this.getItemTitle(event.payload.itemId, 'the item');
+    const scheduledPickup = new Date(event.payload.scheduledPickup);
+
+    const subject = `Pickup Reminder - ${itemTitle}`;
+    const buildBody = (recipientName: string, otherPartyName: string) => `
+      <h2>Your pickup is coming up</h2>
+      <p>Hi ${recipientName},</p>
+      <p>Your exchange of <strong>${itemTitle}</strong> with <strong>${otherPartyName}</strong> is scheduled for pickup on <strong>${scheduledPickup.toLocaleString()}</strong>.</p>
+      <p>If plans have changed, let them know through your Re:UseNet dashboard. Exchanges left open well past their pickup time are cancelled automatically.</p>
+      <p><a href="${process.env.FRONTEND_URL}/exchanges/${event.aggregateId}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">View Exchange Details</a></p>
+      <p>Happy reusing!<br>The Re:UseNet Team</p>
+    `;
+
+    const attachments = await this.getPickupInviteAttachments(event.aggregateId, giver, receiver);
+    await Promise.all([
+      this.emailQueue.enqueue(giver, subject, buildBody(giver.profile.displayName, receiver.profile.displayName), attachments),
+      this.emailQueue.enqueue(receiver, subject, buildBody(receiver.profile.displayName, giver.profile.displayName), attachments)
+    ]);
+  }
+
+  private async sendExchangeExpiredNotification(event: ExchangeExpired): Promise<void> {
+    const giver = await this.userRepository.findById(new UserId(event.payload.giverId));
+    const receiver = await this.userRepository.findById(new UserId(event.payload.receiverId));
+    if (!giver || !receiver) return;
+
+    const itemTitle = await this.getItemTitle(event.payload.itemId, 'the item');
+    const scheduledPickup = new Date(event.payload.scheduledPickup);
+
+    const subject = `Exchange Expired - ${itemTitle}`;
+    const buildBody = (recipientName: string) => `
+      <h2>Exchange has expired</h2>
+      <p>Hi ${recipientName},</p>
+      <p>The exchange for <strong>${itemTitle}</strong> was scheduled for pickup on ${scheduledPickup.toLocaleDateString()} but was never completed, so it has been cancelled.</p>
+      <p>The item is now available again for other exchange requests.</p>
+      <p><a href="${process.env.FRONTEND_URL}/items/${event.payload.itemId}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">View Item</a></p>
+      <p>Happy reusing!<br>The Re:UseNet Team</p>
+    `;
+
+    const attachments = await this.getPickupInviteAttachments(event.aggregateId, giver, receiver);
+    await Promise.all([
+      this.emailQueue.enqueue(giver, subject, buildBody(giver.profile.displayName), attachments),
+      this.emailQueue.enqueue(receiver, subject, buildBody(receiver.profile.displayName), attachments)
+    ]);
+  }
+
+  private async sendItemRequestedNotification(event: ItemRequested): Promise<void> {
+    const item = await this.itemRepository.findById(new ItemId(event.payload.itemId));
+    if (!item) return;
+
+    const owner = await this.userRepository.findById(item.userId);
+    const requester = await this.userRepository.findById(new UserId(event.payload.requesterId));
+    if (!owner || !requester) return;
+
+    const itemTitle = item.details.title;
+    const message = event.payload.message;
+
+    const subject = `New Request for ${itemTitle}`;
+    const body = `
+      <h2>Someone would like your item!</h2>
+      <p>Hi ${owner.profile.displayName},</p>
+      <p><strong>${requester.profile.displayName}</strong> has requested <strong>${itemTitle}</strong>.</p>
+      ${message ? `<p><strong>Message:</strong> ${message}</p>` : ''}
+      <p>You can compare all requests for this item and choose who receives it in your Re:UseNet dashboard.</p>
+      <p><a href="${process.env.FRONTEND_URL}/items/${event.payload.itemId}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">View Requests</a></p>
+      <p>Happy reusing!<br>The Re:UseNet Team</p>
+    `;
+
+    await this.emailQueue.enqueue(owner, subject, body);
+  }
+
+  private async sendItemRequestSelectedNotification(event: ItemRequestSelected): Promise<void> {
+    const exchange = await this.exchangeRepository.findById(new ExchangeId(event.payload.exchangeId));
+    if (!exchange) return;
+
+    const giver = await this.userRepository.findById(exchange.giverId);
+    const receiver = await this.userRepository.findById(exchange.receiverId);
+    if (!giver || !receiver) return;
+
+    const itemTitle = await this.getItemTitle(event.payload.itemId, 'the item');
+
+    const subject = `Your Request Was Accepted - ${itemTitle}`;
+    const body = `
+      <h2>Good news! Your request has been accepted.</h2>
+      <p>Hi ${receiver.profile.displayName},</p>
+      <p><strong>${giver.profile.displayName}</strong> has chosen you to receive <strong>${itemTitle}</strong>.</p>
+      ${exchange.scheduledPickup ? `<p><strong>Scheduled pickup:</strong> ${exchange.scheduledPickup.toLocaleDateString()}</p>` : ''}
+      <p>You can coordinate the pickup details through your Re:UseNet dashboard.</p>
+      <p><a href="${process.env.FRONTEND_URL}/exchanges/${exchange.id.value}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">View Exchange Details</a></p>
+      <p>Happy reusing!<br>The Re:UseNet Team</p>
+    `;
+
+    const attachments = await this.getPickupInviteAttachments(exchange.id.value, giver, receiver);
+    await this.emailQueue.enqueue(receiver, subject, body, attachments);
+  }
+
+  private async sendItemRequestDeclinedNotification(event: ItemRequestDeclined): Promise<void> {
+    const requester = await this.userRepository.findById(new UserId(event.payload.requesterId));
+    if (!requester) return;
+
+    const itemTitle = await this.getItemTitle(event.payload.itemId, 'the item');
+
+    const subject = `Request Update - ${itemTitle}`;
+    const body = `
+      <h2>Your request was not selected</h2>
+      <p>Hi ${requester.profile.displayName},</p>
+      <p>The owner of <strong>${itemTitle}</strong> has chosen another requester for this item.</p>
+      <p>There are plenty of other items waiting for a new home. Keep browsing!</p>
+      <p><a href="${process.env.FRONTEND_URL}/items" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Browse Items</a></p>
+      <p>Happy reusing!<br>The Re:UseNet Team</p>
+    `;
+
+    await this.emailQueue.enqueue(requester, subject, body);
+  }
+
+  private async sendDisputeOpenedNotification(event: ExchangeDisputeOpened): Promise<void> {
+    const reporter = await this.userRepository.findById(new UserId(event.payload.reportedBy));
+    const reportedUser = await this.userRepository.findById(new UserId(event.payload.reportedUserId));
+    if (!reporter || !reportedUser) return;
+
+    const itemTitle = await this.getExchangeItemTitle(event.payload.exchangeId);
+    const reason = new DisputeReason(event.payload.reason as DisputeReasonValue).getLabel();
+
+    const subject = `A problem was reported - ${itemTitle}`;
+    const body = `
+      <h2>A problem was reported with your exchange</h2>
+      <p>Hi ${reportedUser.profile.displayName},</p>
+      <p><strong>${reporter.profile.displayName}</strong> reported a problem with the exchange for <strong>${itemTitle}</strong>: ${reason}.</p>
+      <p>The exchange is on hold while our team looks into it. We'll email you once it has been resolved.</p>
+      <p><a href="${process.env.FRONTEND_URL}/exchanges/${event.payload.exchangeId}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">View Exchange</a></p>
+      <p>The Re:UseNet Team</p>
+    `;
+
+    await this.emailQueue.enqueue(reportedUser, subject, body);
+  }
+
+  private async sendDisputeResolvedNotification(event: ExchangeDisputeResolved): Promise<void> {
+    const reporter = await this.userRepository.findById(new UserId(event.payload.reportedBy));
+    const reportedUser = await this.userRepository.findById(new UserId(event.payload.reportedUserId));
+    if (!reporter || !reportedUser) return;
+
+    const itemTitle = await this.getExchangeItemTitle(event.payload.exchangeId);
+    const reason = new DisputeReason(event.payload.reason as DisputeReasonValue).getLabel();
+    const outcome = event.payload.outcome === 'upheld'
+      ? 'The report was upheld and the exchange has been cancelled.'
+      : 'The report was dismissed and the exchange has been returned to where it was.';
+
+    const subject = `Dispute resolved - ${itemTitle}`;
+    const buildBody = (recipientName: string) => `
+      <h2>Dispute resolved</h2>
+      <p>Hi ${recipientName},</p>
+      <p>Our team has reviewed the report (${reason}) about the exchange for <strong>${itemTitle}</strong>.</p>
+      <p>${outcome}</p>
+      <p><a href="${process.env.FRONTEND_URL}/exchanges/${event.payload.exchangeId}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">View Exchange</a></p>
+      <p>The Re:UseNet Team</p>
+    `;
+
+    // An upheld dispute cancels the exchange, so drop the pickup from both calendars
+    let attachments: EmailAttachment[] | undefined;
+    if (event.payload.outcome === 'upheld') {
+      const exchange = await this.exchangeRepository.findById(new ExchangeId(event.payload.exchangeId));
+      if (exchange) {
+        const [giver, receiver] = exchange.isGiver(reporter.id) ? [reporter, reportedUser] : [reportedUser, reporter];
+        attachments = await this.getPickupInviteAttachments(event.payload.exchangeId, giver, receiver);
+      }
+    }
+
+    await Promise.all([
+      this.emailQueue.enqueue(reporter, subject, buildBody(reporter.profile.displayName), attachments),
+      this.emailQueue.enqueue(reportedUser, subject, buildBody(reportedUser.profile.displayName), attachments)
+    ]);
+  }
+
+  /**
+   * Builds the .ics for the exchange as it is now rather than as it was when
+   * the event was recorded, so a late delivery never resurrects an old time.
+   */
+  private async getPickupInviteAttachments(exchangeId: string, giver: User, receiver: User): Promise<EmailAttachment[] | undefined> {
+    const exchange = await this.exchangeRepository.findById(new ExchangeId(exchangeId));
+    if (!exchange?.scheduledPickup) return undefined;
+
+    const item = await this.itemRepository.findById(exchange.itemId);
+    const invite = createPickupCalendarInvite({
+      exchange,
+      item,
+      giver,
+      receiver,
+      cancelled: exchange.status.isCancelled()
+    });
+
+    return [toEmailAttachment(invite)];
+  }
+
+  private async getExchangeItemTitle(exchangeId: string): Promise<string> {
+    const exchange = await this.exchangeRepository.findById(new ExchangeId(exchangeId));
+    return exchange ? this.getItemTitle(exchange.itemId.value, 'the item') : 'the item';
+  }
+
+  private async getItemTitle(itemId: string, fallback: string): Promise<string> {
+    const item = await this.itemRepository.findById(new ItemId(itemId));
+    return item?.details.title || fallback;
+  }
+}
@@ -0,0 +1,176 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import { ItemListingStale, ItemListingExpiring, ItemListingExpired, ItemDetailsChanged, ItemRemovedByAdmin } from '../../../domain/item/ItemEvents';
+import { ItemId } from '../../../domain/item/value-objects/ItemId';
+import { UserId } from '../../../domain/user/value-objects/UserId';
+import { IExchangeRepository } from '../../../infrastructure/repositories/IExchangeRepository';
+import { IItemRepository } from '../../../infrastructure/repositories/IItemRepository';
+import { IUserRepository } from '../../../infrastructure/repositories/IUserRepository';
+import { INotificationService } from '../../../infrastructure/services/INotificationService';
+import { EmailQueue } from '../EmailQueue';
+import { IDomainEventSubscriber } from '../IDomainEventSubscriber';
+
+/**
+ * Emails owners about the lifecycle of their listings, and the people in an
+ * exchange when its listing changes.
+ */
+@injectable()
+export class ListingNotificationSubscriber implements IDomainEventSubscriber {
+  readonly name = 'listing-notifications';
+  readonly eventTypes = [
+    'ItemListingStale',
+    'ItemListingExpiring',
+    'ItemListingExpired',
+    'ItemDetailsChanged',
+    'ItemRemovedByAdmin'
+  ];
+
+  constructor(
+    @inject(TYPES.IExchangeRepository)
+    private readonly exchangeRepository: IExchangeRepository,
+    @inject(TYPES.IItemRepository)
+    private readonly itemRepository: IItemRepository,
+    @inject(TYPES.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(TYPES.INotificationService)
+    private readonly notificationService: INotificationService,
+    @inject(TYPES.EmailQueue)
+    private readonly emailQueue: EmailQueue
+  ) {}
+
+  async handle(event: DomainEvent): Promise<void> {
+    switch (event.eventType) {
+      case 'ItemListingStale':
+        return this.sendStaleListingReminder(event as ItemListingStale);
+      case 'ItemListingExpiring':
+        return this.sendListingRenewalReminder(event as ItemListingExpiring);
+      case 'ItemListingExpired':
+        return this.sendListingExpiredNotification(event as ItemListingExpired);
+      case 'ItemDetailsChanged':
+        return this.sendItemChangedNotifications(event as ItemDetailsChanged);
+      case 'ItemRemovedByAdmin':
+        return this.sendItemRemovedNotification(event as ItemRemovedByAdmin);
+    }
+  }
+
+  private async sendStaleListingReminder(event: ItemListingStale): Promise<void> {
+    const owner = await this.userRepository.findById(new UserId(event.payload.userId));
+    if (!owner) return;
+
+    const subject = `Still available? - ${event.payload.title}`;
+    const body = `
+      <h2>Your listing hasn't found a new home yet</h2>
+      <p>Hi ${owner.profile.displayName},</p>
+      <p><strong>${event.payload.title}</strong> has been available for ${event.payload.daysListed} days without any changes.</p>
+      <p>A clearer title, a few more photos or an updated description can help it get noticed. If it's no longer available, please remove the listing.</p>
+      <p><a href="${process.env.FRONTEND_URL}/items/${event.aggregateId}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Update Listing</a></p>
+      <p>Happy reusing!<br>The Re:UseNet Team</p>
+    `;
+
+    await this.emailQueue.enqueue(owner, subject, body);
+  }
+
+  private async sendListingRenewalReminder(event: ItemListingExpiring): Promise<void> {
+    const owner = await this.userRepository.findById(new UserId(event.payload.userId));
+    if (!owner) return;
+
+    // Skip if the listing was renewed or taken down before the email went out
+    const item = await this.itemRepository.findByIdForUpdate(new ItemId(event.aggregateId));
+    if (!item || !item.renewalReminderSentAt || (!item.isAvailableForExchange() && !item.isExpired())) return;
+
+    // Only the token's hash is saved, so it is issued here rather than carried in the event
+    const token = item.issueRenewalToken();
+    await this.itemRepository.save(item);
+
+    const expiresOn = new Date(event.payload.expiresAt).toLocaleDateString();
+    const renewUrl = `${process.env.FRONTEND_URL}/items/${event.aggregateId}/renew?token=${token}`;
+
+    const subject = `Your listing expires soon - ${event.payload.title}`;
+    const body = `
+      <h2>Keep your listing up?</h2>
+      <p>Hi ${owner.profile.displayName},</p>
+      <p><strong>${event.payload.title}</strong> will expire on ${expiresOn}. Expired listings no longer show up in search.</p>
+      <p>If it's still available, one click keeps it listed:</p>
+      <p><a href="${renewUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Renew Listing</a></p>
+      <p>If it's gone, there's nothing to do - the listing will expire on its own.</p>
+      <p>Happy reusing!<br>The Re:UseNet Team</p>
+    `;
+
+    // Sent here rather than queued so the token never sits in the outbox.
+    // Throwing rolls back the saved hash, so the retry issues a fresh token.
+    const result = await this.notificationService.sendEmail(owner.email.value, subject, body, true);
+    if (!result.success) {
+      throw new Error(result.error || `Failed to send email to ${owner.email.value}`);
+    }
+  }
+
+  private async sendListingExpiredNotification(event: ItemListingExpired): Promise<void> {
+    const owner = await this.userRepository.findById(new UserId(event.payload.userId));
+    if (!owner) return;
+
+    const subject = `Listing expired - ${event.payload.title}`;
+    const body = `
+      <h2>Your listing has expired</h2>
+      <p>Hi ${owner.profile.displayName},</p>
+      <p><strong>${event.payload.title}</strong> has expired and no longer shows up in search or recommendations.</p>
+      <p>If it's still available, you can relist it from the listing page at any time.</p>
+      <p><a href="${process.env.FRONTEND_URL}/items/${event.aggregateId}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Relist Item</a></p>
+      <p>Happy reusing!<br>The Re:UseNet Team</p>
+    `;
+
+    await this.emailQueue.enqueue(owner, subject, body);
+  }
+
+  private async sendItemRemovedNotification(event: ItemRemovedByAdmin): Promise<void> {
+    const owner = await this.userRepository.findById(new UserId(event.payload.userId));
+    if (!owner) return;
+
+    const subject = `Listing removed - ${event.payload.title}`;
+    const body = `
+      <h2>Your listing has been removed</h2>
+      <p>Hi ${owner.profile.displayName},</p>
+      <p>The Re:UseNet team has removed <strong>${event.payload.title}</strong>, and any exchanges still open for it have been cancelled.</p>
+      <p><strong>Reason:</strong> ${event.payload.reason}</p>
+      <p>If you think this was a mistake, just reply to this email.</p>
+      <p>The Re:UseNet Team</p>
+    `;
+
+    await this.emailQueue.enqueue(owner, subject, body);
+  }
+
+  /**
+   * Tells the other side of each open exchange for the item what changed, so
+   * they can check the listing still suits them.
+   */
+  private async sendItemChangedNotifications(event: ItemDetailsChanged): Promise<void> {
+    const exchanges = await this.exchangeRepository.findByItemId(new ItemId(event.aggregateId));
+    const openExchanges = exchanges.filter(exchange => exchange.status.isRequested() || exchange.status.isAccepted());
+    if (openExchanges.length === 0) return;
+
+    const editor = await this.userRepository.findById(new UserId(event.payload.changedBy));
+    const editorName = editor ? editor.profile.displayName : 'The owner';
+    const changedFields = event.payload.fields
+      .map(field => field.replace(/([A-Z])/g, ' $1').toLowerCase())
+      .join(', ');
+
+    for (const exchange of openExchanges) {
+      const counterpartId = exchange.giverId.value === event.payload.changedBy ? exchange.receiverId : exchange.giverId;
+      const counterpart = await this.userRepository.findById(counterpartId);
+      if (!counterpart) continue;
+
+      const subject = `Listing updated - ${event.payload.title}`;
+      const body = `
+        <h2>An item in your exchange has changed</h2>
+        <p>Hi ${counterpart.profile.displayName},</p>
+        <p><strong>${editorName}</strong> updated <strong>${event.payload.title}</strong> while your exchange is ${exchange.status.value}. Changed: ${changedFields}.</p>
+        <p>Please check the listing still works for you. If it doesn't, you can cancel the exchange from its page.</p>
+        <p><a href="${process.env.FRONTEND_URL}/exchanges/${exchange.id.value}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Review Exchange</a></p>
+        <p>You can see exactly what changed in the <a href="${process.env.FRONTEND_URL}/items/${event.aggregateId}">listing's edit history</a>.</p>
+        <p>Happy reusing!<br>The Re:UseNet Team</p>
+      `;
+
+      await this.emailQueue.enqueue(counterpart, subject, body);
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import { IMatchingApplicationService } from '../../services/MatchingApplicationService';
+import { IDomainEventSubscriber } from '../IDomainEventSubscriber';
+
+/**
+ * Tells nearby users about newly posted items that match their interests.
+ */
+@injectable()
+export class MatchingEventSubscriber implements IDomainEventSubscriber {
+  readonly name = 'matching';
+  readonly eventTypes = ['ItemPosted'];
+
+  constructor(
+    @inject(TYPES.IMatchingApplicationService)
+    private readonly matchingService: IMatchingApplicationService
+  ) {}
+
+  async handle(event: DomainEvent): Promise<void> {
+    await this.matchingService.notifyPotentialMatches(event.aggregateId);
+  }
+}
@@ -0,0 +1,25 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import { PasswordResetRequested } from '../../../domain/user/UserEvents';
+import { IUserApplicationService } from '../../services/UserApplicationService';
+import { IDomainEventSubscriber } from '../IDomainEventSubscriber';
+
+/**
+ * Emails reset links away from the request, so its timing can't tell
+ * callers which addresses have accounts.
+ */
+@injectable()
+export class PasswordResetSubscriber implements IDomainEventSubscriber {
+  readonly name = 'password-resets';
+  readonly eventTypes = ['PasswordResetRequested'];
+
+  constructor(
+    @inject(TYPES.IUserApplicationService)
+    private readonly userService: IUserApplicationService
+  ) {}
+
+  async handle(event: DomainEvent): Promise<void> {
+    await this.userService.sendPasswordReset((event as PasswordResetRequested).payload.email);
+  }
+}
@@ -0,0 +1,57 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import { ItemPosted } from '../../../domain/item/ItemEvents';
+import { ExchangeCompleted } from '../../../domain/exchange/ExchangeEvents';
+import { ExchangeId } from '../../../domain/exchange/value-objects/ExchangeId';
+import { IExchangeRepository } from '../../../infrastructure/repositories/IExchangeRepository';
+import { IPointsApplicationService } from '../../services/PointsApplicationService';
+import { IDomainEventSubscriber } from '../IDomainEventSubscriber';
+
+/**
+ * Awards eco-points for posted items, verified accounts and completed
+ * exchanges. Awards carry idempotency keys, so redelivery is harmless.
+ */
+@injectable()
+export class PointsEventSubscriber implements IDomainEventSubscriber {
+  readonly name = 'points';
+  readonly eventTypes = ['ItemPosted', 'UserVerified', 'ExchangeCompleted'];
+
+  constructor(
+    @inject(TYPES.IPointsApplicationService)
+    private readonly pointsService: IPointsApplicationService,
+    @inject(TYPES.IExchangeRepository)
+    private readonly exchangeRepository: IExchangeRepository
+  ) {}
+
+  async handle(event: DomainEvent): Promise<void> {
+    switch (event.eventType) {
+      case 'ItemPosted':
+        await this.pointsService.awardPointsForItemPosting((event as ItemPosted).payload.userId, event.aggregateId);
+        break;
+      case 'UserVerified':
+        await this.pointsService.awardPointsForVerification(event.aggregateId);
+        break;
+      case 'ExchangeCompleted':
+        await this.awardExchangePoints(event as ExchangeCompleted);
+        break;
+    }
+  }
+
+  private async awardExchangePoints(event: ExchangeCompleted): Promise<void> {
+    const awarded = await this.pointsService.awardPointsForExchange({
+      exchangeId: event.aggregateId,
+      giverId: event.payload.giverId,
+      receiverId: event.payload.receiverId,
+      itemId: event.payload.itemId,
+      daysToComplete: event.payload.daysToComplete
+    });
+
+    // Keep the exchange's summary in line with what the ledger recorded
+    const exchange = await this.exchangeRepository.findById(new ExchangeId(event.aggregateId));
+    if (exchange) {
+      exchange.recordEcoPointsAwarded(awarded.giverPoints);
+      await this.exchangeRepository.save(exchange);
+    }
+  }
+}
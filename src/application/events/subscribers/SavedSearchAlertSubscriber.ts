@@ -0,0 +1,69 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import { SavedSearchMatched } from '../../../domain/user/UserEvents';
+import { ItemId } from '../../../domain/item/value-objects/ItemId';
+import { UserId } from '../../../domain/user/value-objects/UserId';
+import { IItemRepository } from '../../../infrastructure/repositories/IItemRepository';
+import { IUserRepository } from '../../../infrastructure/repositories/IUserRepository';
+import { EmailQueue } from '../EmailQueue';
+import { IDomainEventSubscriber } from '../IDomainEventSubscriber';
+
+/**
+ * Emails the items a saved search matched, as they arrive or as a digest.
+ */
+@injectable()
+export class SavedSearchAlertSubscriber implements IDomainEventSubscriber {
+  private static readonly MAX_ALERT_ITEMS = 10;
+
+  readonly name = 'saved-search-alerts';
+  readonly eventTypes = [
+    'SavedSearchMatched'
+  ];
+
+  constructor(
+    @inject(TYPES.IItemRepository)
+    private readonly itemRepository: IItemRepository,
+    @inject(TYPES.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(TYPES.EmailQueue)
+    private readonly emailQueue: EmailQueue
+  ) {}
+
+  async handle(event: DomainEvent): Promise<void> {
+    switch (event.eventType) {
+      case 'SavedSearchMatched':
+        return this.sendSavedSearchAlert(event as SavedSearchMatched);
+    }
+  }
+
+  private async sendSavedSearchAlert(event: SavedSearchMatched): Promise<void> {
+    const user = await this.userRepository.findById(new UserId(event.payload.userId));
+    if (!user) return;
+
+    const items = await this.itemRepository.findByIds(event.payload.itemIds.map(id => new ItemId(id)));
+    if (items.length === 0) return;
+
+    const shown = items.slice(0, SavedSearchAlertSubscriber.MAX_ALERT_ITEMS);
+    const remaining = items.length - shown.length;
+    const itemList = shown
+      .map(item => `<li><a href="${process.env.FRONTEND_URL}/items/${item.id.value}">${item.details.title}</a></li>`)
+      .join('');
+
+    const subject = event.payload.frequency === 'daily'
+      ? `Your daily digest for "${event.payload.name}" - ${items.length} new item${items.length === 1 ? '' : 's'}`
+      : `New match${items.length === 1 ? '' : 'es'} for "${event.payload.name}"`;
+    const body = `
+      <h2>New items match your saved search</h2>
+      <p>Hi ${user.profile.displayName},</p>
+      <p>${items.length === 1 ? 'A new item matches' : `${items.length} new items match`} your saved search <strong>${event.payload.name}</strong>:</p>
+      <ul>${itemList}</ul>
+      ${remaining > 0 ? `<p>...and ${remaining} more.</p>` : ''}
+      <p><a href="${process.env.FRONTEND_URL}/items" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Browse Items</a></p>
+      <p>You can change how often you hear about this search, or turn alerts off, from your saved searches.</p>
+      <p>Happy reusing!<br>The Re:UseNet Team</p>
+    `;
+
+    await this.emailQueue.enqueue(user, subject, body);
+  }
+}
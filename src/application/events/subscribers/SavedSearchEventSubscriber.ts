@@ -0,0 +1,23 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import { ISavedSearchApplicationService } from '../../services/SavedSearchApplicationService';
+import { IDomainEventSubscriber } from '../IDomainEventSubscriber';
+
+/**
+ * Queues newly posted items for the saved searches they match.
+ */
+@injectable()
+export class SavedSearchEventSubscriber implements IDomainEventSubscriber {
+  readonly name = 'saved-searches';
+  readonly eventTypes = ['ItemPosted'];
+
+  constructor(
+    @inject(TYPES.ISavedSearchApplicationService)
+    private readonly savedSearchService: ISavedSearchApplicationService
+  ) {}
+
+  async handle(event: DomainEvent): Promise<void> {
+    await this.savedSearchService.recordMatchesForItem(event.aggregateId);
+  }
+}
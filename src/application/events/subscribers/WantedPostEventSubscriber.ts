@@ -0,0 +1,24 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import { IWantedPostApplicationService } from '../../services/WantedPostApplicationService';
+import { IDomainEventSubscriber } from '../IDomainEventSubscriber';
+
+/**
+ * Closes a wanted post as fulfilled once an exchange offered in response
+ * to it completes.
+ */
+@injectable()
+export class WantedPostEventSubscriber implements IDomainEventSubscriber {
+  readonly name = 'wanted-posts';
+  readonly eventTypes = ['ExchangeCompleted'];
+
+  constructor(
+    @inject(TYPES.IWantedPostApplicationService)
+    private readonly wantedPostService: IWantedPostApplicationService
+  ) {}
+
+  async handle(event: DomainEvent): Promise<void> {
+    await this.wantedPostService.fulfilFromExchange(event.aggregateId);
+  }
+}
@@ -0,0 +1,66 @@
+import 'reflect-metadata';
+import { randomUUID } from 'crypto';
+import { AccountNotificationSubscriber } from '../AccountNotificationSubscriber';
+import { EmailDeliverySubscriber } from '../EmailDeliverySubscriber';
+import { EmailQueue, EmailRequested } from '../../EmailQueue';
+import { createDomainEvent } from '../../../../domain/events/DomainEvent';
+import { Exchange } from '../../../../domain/exchange/Exchange';
+import { User } from '../../../../domain/user/User';
+import { UserId } from '../../../../domain/user/value-objects/UserId';
+import { buildUser } from '../../../../domain/user/__fixtures__/buildUser';
+import { IDomainEventOutboxRepository } from '../../../../infrastructure/repositories/IDomainEventOutboxRepository';
+import { IExchangeRepository } from '../../../../infrastructure/repositories/IExchangeRepository';
+import { IItemRepository } from '../../../../infrastructure/repositories/IItemRepository';
+import { IUserRepository } from '../../../../infrastructure/repositories/IUserRepository';
+import { INotificationService } from '../../../../infrastructure/services/INotificationService';
+
+describe('AccountNotificationSubscriber', () => {
+  let banned: User;
+  let counterparts: User[];
+  let queued: EmailRequested[];
+  let subscriber: AccountNotificationSubscriber;
+
+  const banEvent = () => createDomainEvent('UserBanned', 'User', banned.id.value, { reason: 'Spam', bannedBy: randomUUID() });
+
+  beforeEach(() => {
+    banned = buildUser('Banned');
+    counterparts = [buildUser('First'), buildUser('Second')];
+    queued = [];
+
+    const exchanges = counterparts.map(counterpart =>
+      Exchange.create({ itemId: randomUUID(), giverId: banned.id.value, receiverId: counterpart.id.value })
+    );
+    const users = [banned, ...counterparts];
+
+    subscriber = new AccountNotificationSubscriber(
+      { findByUserId: jest.fn(async () => exchanges) } as unknown as IExchangeRepository,
+      { findById: jest.fn(async () => null) } as unknown as IItemRepository,
+      { findById: jest.fn(async (id: UserId) => users.find(user => user.id.equals(id)) ?? null) } as unknown as IUserRepository,
+      new EmailQueue({
+        append: jest.fn(async (events: EmailRequested[]) => { queued.push(...events); })
+      } as unknown as IDomainEventOutboxRepository)
+    );
+  });
+
+  it('queues one email per recipient instead of sending them', async () => {
+    await subscriber.handle(banEvent());
+
+    expect(queued.map(event => event.eventType)).toEqual(['EmailRequested', 'EmailRequested', 'EmailRequested']);
+    expect(queued.map(event => event.payload.to)).toEqual([banned, ...counterparts].map(user => user.email.value));
+    expect(queued[0].payload.subject).toBe('Your Re:UseNet account has been banned');
+  });
+
+  it('leaves a failed email to be retried on its own', async () => {
+    await subscriber.handle(banEvent());
+
+    const sendEmail = jest.fn(async (to: string) =>
+      to === counterparts[0].email.value ? { success: false, error: 'Mailbox unavailable' } : { success: true }
+    );
+    const delivery = new EmailDeliverySubscriber({ sendEmail } as unknown as INotificationService);
+
+    const results = await Promise.allSettled(queued.map(event => delivery.handle(event)));
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect(sendEmail).toHaveBeenCalledTimes(3);
+  });
+});
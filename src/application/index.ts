@@ -1 +1,4 @@
-export * from './services';
\ No newline at end of file
+export * from './services';
+export * from './events';
+export * from './jobs';
+export * from './calendar';
\ No newline at end of file
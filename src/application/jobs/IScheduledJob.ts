@@ -0,0 +1,10 @@
+/**
+ * Periodic maintenance work run by the JobScheduler or the jobs CLI. Jobs
+ * select their own work each run and mark what they handled, so a run that
+ * overlaps or repeats another does not act twice.
+ */
+export interface IScheduledJob {
+  readonly name: string; // Used to run a single job from the CLI
+  readonly description: string;
+  run(): Promise<number>; // Number of records acted on
+}
@@ -0,0 +1,96 @@
+import { injectable, inject, multiInject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { AppConfig, JobsConfig } from '@/config/AppConfig';
+import { IScheduledJob } from './IScheduledJob';
+
+export interface JobRunResult {
+  job: string;
+  processed: number;
+  error?: string;
+}
+
+/**
+ * Runs the scheduled jobs on a fixed interval inside the server, or once on
+ * demand from the jobs CLI. A failing job is logged and does not stop the
+ * others.
+ */
+@injectable()
+export class JobScheduler {
+  private readonly config: JobsConfig;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    @multiInject(TYPES.IScheduledJob)
+    private readonly jobs: IScheduledJob[],
+    @inject(TYPES.AppConfig)
+    config: AppConfig
+  ) {
+    this.config = config.jobs;
+  }
+
+  listJobs(): ReadonlyArray<Pick<IScheduledJob, 'name' | 'description'>> {
+    return this.jobs.map(({ name, description }) => ({ name, description }));
+  }
+
+  start(): void {
+    if (!this.config.enabled || this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.config.intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async runAll(): Promise<JobRunResult[]> {
+    const results: JobRunResult[] = [];
+
+    for (const job of this.jobs) {
+      results.push(await this.runJob(job));
+    }
+
+    return results;
+  }
+
+  async run(name: string): Promise<JobRunResult> {
+    const job = this.jobs.find(candidate => candidate.name === name);
+    if (!job) {
+      throw new Error(`Unknown job: ${name}`);
+    }
+
+    return this.runJob(job);
+  }
+
+  private async tick(): Promise<void> {
+    // Skip the tick if the previous run is still going
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.runAll();
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async runJob(job: IScheduledJob): Promise<JobRunResult> {
+    try {
+      const processed = await job.run();
+      return { job: job.name, processed };
+    } catch (error) {
+      console.error(`Scheduled job ${job.name} failed:`, error);
+      return { job: job.name, processed: 0, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+}
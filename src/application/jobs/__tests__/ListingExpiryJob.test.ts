@@ -0,0 +1,89 @@
+import 'reflect-metadata';
+import { randomUUID } from 'crypto';
+import { Item } from '../../../domain/item/Item';
+import { IItemRepository } from '../../../infrastructure/repositories/IItemRepository';
+import { ListingExpiryJob } from '../scheduled/ListingExpiryJob';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const buildItem = (expiresAt: Date): Item =>
+  Item.fromData({
+    id: randomUUID(),
+    userId: randomUUID(),
+    details: {
+      title: 'Oak bookshelf',
+      description: 'Five shelves, solid oak',
+      category: 'furniture',
+      tags: [],
+      images: ['https://example.com/bookshelf.jpg'],
+      condition: 'good'
+    },
+    status: 'available',
+    location: { latitude: 40.7128, longitude: -74.006, address: 'New York, NY' },
+    expiresAt,
+    createdAt: new Date(Date.now() - 60 * DAY_MS),
+    updatedAt: new Date(Date.now() - 60 * DAY_MS)
+  });
+
+describe('ListingExpiryJob', () => {
+  let items: Item[];
+  let itemRepository: Record<'findLapsedItems' | 'save', jest.Mock>;
+  let job: ListingExpiryJob;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    items = [];
+    itemRepository = {
+      findLapsedItems: jest.fn(async () => items),
+      save: jest.fn(async () => undefined)
+    };
+
+    job = new ListingExpiryJob(itemRepository as unknown as IItemRepository);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('expires lapsed listings and tells their owners', async () => {
+    const item = buildItem(new Date(Date.now() - DAY_MS));
+    items.push(item);
+
+    expect(await job.run()).toBe(1);
+
+    expect(item.isExpired()).toBe(true);
+    expect(item.domainEvents.map(event => event.eventType)).toEqual(['ItemListingExpired']);
+    expect(itemRepository.save).toHaveBeenCalledWith(item);
+  });
+
+  it('leaves listings that were renewed since they were loaded', async () => {
+    items.push(buildItem(new Date(Date.now() + DAY_MS)));
+
+    expect(await job.run()).toBe(0);
+    expect(itemRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('lets the renewal link relist an expired listing', async () => {
+    const item = buildItem(new Date(Date.now() + DAY_MS));
+    item.remindOwnerOfExpiry();
+    const token = item.issueRenewalToken();
+
+    // Only the hash is saved with the item
+    expect(JSON.stringify(item.toData())).not.toContain(token);
+
+    items.push(Item.fromData({ ...item.toData(), expiresAt: new Date(Date.now() - DAY_MS) }));
+    await job.run();
+    const expired = items[0];
+
+    expect(expired.matchesRenewalToken('not-the-token')).toBe(false);
+    expect(expired.matchesRenewalToken(token)).toBe(true);
+
+    expired.renew(30);
+
+    expect(expired.isAvailableForExchange()).toBe(true);
+    expect(expired.hasLapsed()).toBe(false);
+    expect(expired.renewalTokenHash).toBeUndefined();
+    expect(expired.matchesRenewalToken(token)).toBe(false);
+  });
+});
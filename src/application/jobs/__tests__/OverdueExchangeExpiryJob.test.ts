@@ -0,0 +1,108 @@
+import 'reflect-metadata';
+import { randomUUID } from 'crypto';
+import { AppConfig } from '../../../config/AppConfig';
+import { Exchange } from '../../../domain/exchange/Exchange';
+import { Item } from '../../../domain/item/Item';
+import { IExchangeRepository } from '../../../infrastructure/repositories/IExchangeRepository';
+import { IItemRepository } from '../../../infrastructure/repositories/IItemRepository';
+import { IUnitOfWork } from '../../../infrastructure/database/IUnitOfWork';
+import { OverdueExchangeExpiryJob } from '../scheduled/OverdueExchangeExpiryJob';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const buildItem = (): Item =>
+  Item.fromData({
+    id: randomUUID(),
+    userId: randomUUID(),
+    details: {
+      title: 'Oak bookshelf',
+      description: 'Five shelves, solid oak',
+      category: 'furniture',
+      tags: [],
+      images: ['https://example.com/bookshelf.jpg'],
+      condition: 'good'
+    },
+    status: 'pending',
+    location: { latitude: 40.7128, longitude: -74.006, address: 'New York, NY' },
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+const buildOverdueExchange = (item: Item): Exchange =>
+  Exchange.fromData({
+    id: randomUUID(),
+    itemId: item.id.value,
+    giverId: item.userId.value,
+    receiverId: randomUUID(),
+    status: 'accepted',
+    scheduledPickup: new Date(Date.now() - 96 * HOUR_MS),
+    ecoPointsAwarded: 0,
+    createdAt: new Date(Date.now() - 120 * HOUR_MS),
+    updatedAt: new Date(Date.now() - 120 * HOUR_MS)
+  });
+
+describe('OverdueExchangeExpiryJob', () => {
+  let items: Map<string, Item>;
+  let exchangeRepository: Record<'findOverdueExchanges' | 'save', jest.Mock>;
+  let itemRepository: Record<'findById' | 'findByIdForUpdate' | 'save', jest.Mock>;
+  let unitOfWork: IUnitOfWork & { execute: jest.Mock };
+  let job: OverdueExchangeExpiryJob;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    items = new Map();
+    exchangeRepository = {
+      findOverdueExchanges: jest.fn(async () => []),
+      save: jest.fn(async () => undefined)
+    };
+    itemRepository = {
+      findById: jest.fn(async (id) => items.get(id.value) ?? null),
+      findByIdForUpdate: jest.fn(async (id) => items.get(id.value) ?? null),
+      save: jest.fn(async () => undefined)
+    };
+    unitOfWork = { execute: jest.fn(work => work()) };
+
+    job = new OverdueExchangeExpiryJob(
+      exchangeRepository as unknown as IExchangeRepository,
+      itemRepository as unknown as IItemRepository,
+      unitOfWork,
+      { jobs: { enabled: true, intervalMs: 1000, pickupReminderLeadHours: 24, overdueGraceHours: 72, staleItemDays: 30 } } as AppConfig
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('cancels overdue exchanges and makes their items available again', async () => {
+    const item = buildItem();
+    items.set(item.id.value, item);
+    const exchange = buildOverdueExchange(item);
+    exchangeRepository.findOverdueExchanges.mockResolvedValue([exchange]);
+
+    await expect(job.run()).resolves.toBe(1);
+
+    expect(exchangeRepository.findOverdueExchanges).toHaveBeenCalledWith(72);
+    expect(unitOfWork.execute).toHaveBeenCalledTimes(1);
+    expect(exchange.status.isCancelled()).toBe(true);
+    expect(exchange.domainEvents.map(event => event.eventType)).toEqual(['ExchangeExpired']);
+    expect(exchangeRepository.save).toHaveBeenCalledWith(exchange);
+    expect(item.isAvailableForExchange()).toBe(true);
+    expect(itemRepository.save).toHaveBeenCalledWith(item);
+  });
+
+  it('keeps going when one exchange cannot be expired', async () => {
+    const first = buildItem();
+    const second = buildItem();
+    items.set(first.id.value, first);
+    items.set(second.id.value, second);
+    exchangeRepository.findOverdueExchanges.mockResolvedValue([buildOverdueExchange(first), buildOverdueExchange(second)]);
+    exchangeRepository.save.mockRejectedValueOnce(new Error('connection reset'));
+
+    await expect(job.run()).resolves.toBe(1);
+
+    expect(itemRepository.save).toHaveBeenCalledTimes(1);
+    expect(itemRepository.save).toHaveBeenCalledWith(second);
+  });
+});
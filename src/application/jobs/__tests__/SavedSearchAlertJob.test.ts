@@ -0,0 +1,135 @@
+import 'reflect-metadata';
+import { randomUUID } from 'crypto';
+import { Item } from '../../../domain/item/Item';
+import { ItemStatusValue } from '../../../domain/item/value-objects/ItemStatus';
+import { SavedSearch } from '../../../domain/user/SavedSearch';
+import { ISavedSearchRepository } from '../../../infrastructure/repositories/ISavedSearchRepository';
+import { IItemRepository } from '../../../infrastructure/repositories/IItemRepository';
+import { IUnitOfWork } from '../../../infrastructure/database/IUnitOfWork';
+import { IUserRepository } from '../../../infrastructure/repositories/IUserRepository';
+import { SavedSearchApplicationService } from '../../services/SavedSearchApplicationService';
+import { SavedSearchAlertJob } from '../scheduled/SavedSearchAlertJob';
+
+const location = { latitude: 40.7128, longitude: -74.006, address: 'New York, NY' };
+
+const buildItem = (status: ItemStatusValue, title = 'Oak bookshelf', description = 'Five shelves, solid oak'): Item =>
+  Item.fromData({
+    id: randomUUID(),
+    userId: randomUUID(),
+    details: {
+      title,
+      description,
+      category: 'furniture',
+      tags: [],
+      images: ['https://example.com/bookshelf.jpg'],
+      condition: 'good'
+    },
+    status,
+    location,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+const buildSavedSearch = (): SavedSearch =>
+  SavedSearch.create({
+    userId: randomUUID(),
+    name: 'Bookshelves',
+    criteria: { searchTerm: 'bookshelf', categories: ['Furniture'] },
+    location,
+    alertFrequency: 'daily'
+  });
+
+describe('SavedSearchAlertJob', () => {
+  let items: Item[];
+  let savedSearchRepository: Record<
+    'findDueForAlert' | 'findPendingMatchItemIds' | 'markMatchesAlerted' | 'save' | 'findAlertCandidatesForItem' | 'addMatch',
+    jest.Mock
+  >;
+  let itemRepository: Record<'findByIds', jest.Mock>;
+  let job: SavedSearchAlertJob;
+
+  beforeEach(() => {
+    items = [];
+    savedSearchRepository = {
+      findDueForAlert: jest.fn(async () => []),
+      findPendingMatchItemIds: jest.fn(async () => items.map(item => item.id)),
+      markMatchesAlerted: jest.fn(async () => undefined),
+      save: jest.fn(async () => undefined),
+      findAlertCandidatesForItem: jest.fn(async () => []),
+      addMatch: jest.fn(async () => true)
+    };
+    itemRepository = { findByIds: jest.fn(async () => items) };
+    const unitOfWork: IUnitOfWork = { execute: work => work() };
+
+    job = new SavedSearchAlertJob(
+      savedSearchRepository as unknown as ISavedSearchRepository,
+      itemRepository as unknown as IItemRepository,
+      unitOfWork
+    );
+  });
+
+  it('sends the available matches as one alert and clears every pending match', async () => {
+    const savedSearch = buildSavedSearch();
+    const [first, taken, second] = [buildItem('available'), buildItem('exchanged'), buildItem('available')];
+    items = [first, taken, second];
+    savedSearchRepository.findDueForAlert.mockResolvedValue([savedSearch]);
+
+    await expect(job.run()).resolves.toBe(1);
+
+    expect(savedSearchRepository.markMatchesAlerted).toHaveBeenCalledWith(savedSearch.id, items.map(item => item.id));
+    expect(savedSearch.domainEvents.map(event => event.payload)).toEqual([{
+      userId: savedSearch.userId.value,
+      name: 'Bookshelves',
+      itemIds: [first.id.value, second.id.value],
+      frequency: 'daily'
+    }]);
+    expect(savedSearch.criteria.categories).toEqual(['furniture']);
+    expect(savedSearch.isAlertDue()).toBe(false);
+    expect(savedSearchRepository.save).toHaveBeenCalledWith(savedSearch);
+  });
+
+  it('drops matches without an alert once all of their items are gone', async () => {
+    const savedSearch = buildSavedSearch();
+    items = [buildItem('exchanged'), buildItem('removed')];
+    savedSearchRepository.findDueForAlert.mockResolvedValue([savedSearch]);
+
+    await expect(job.run()).resolves.toBe(0);
+
+    expect(savedSearchRepository.markMatchesAlerted).toHaveBeenCalledTimes(1);
+    expect(savedSearch.domainEvents).toHaveLength(0);
+    expect(savedSearch.lastAlertedAt).toBeUndefined();
+    expect(savedSearchRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('alerts on a new listing whose words differ from the saved term only by inflection', async () => {
+    const savedSearch = SavedSearch.create({
+      userId: randomUUID(),
+      name: 'Boxes for the move',
+      criteria: { searchTerm: 'moving box', categories: ['Furniture'] },
+      location,
+      alertFrequency: 'immediate'
+    });
+    const listing = buildItem('available', 'Moving boxes', 'All sizes, flattened');
+    const pending: Item[] = [];
+    savedSearchRepository.findAlertCandidatesForItem.mockResolvedValue([savedSearch]);
+    savedSearchRepository.addMatch.mockImplementation(async () => {
+      pending.push(listing);
+      return true;
+    });
+    savedSearchRepository.findPendingMatchItemIds.mockImplementation(async () => pending.map(item => item.id));
+    itemRepository.findByIds.mockImplementation(async () => pending);
+    savedSearchRepository.findDueForAlert.mockResolvedValue([savedSearch]);
+
+    const savedSearchService = new SavedSearchApplicationService(
+      savedSearchRepository as unknown as ISavedSearchRepository,
+      { findById: jest.fn(async () => listing) } as unknown as IItemRepository,
+      {} as IUserRepository,
+      { execute: work => work() }
+    );
+
+    await expect(savedSearchService.recordMatchesForItem(listing.id.value)).resolves.toBe(1);
+    await expect(job.run()).resolves.toBe(1);
+
+    expect(savedSearch.domainEvents.at(-1)?.payload).toMatchObject({ itemIds: [listing.id.value] });
+  });
+});
@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+
+import { DatabaseConnection } from '../../infrastructure/database/DatabaseConnection';
+import { DIContainer } from '../../container/Container';
+import { TYPES } from '../../container/types';
+import { JobScheduler, JobRunResult } from './JobScheduler';
+import { IItemApplicationService } from '../services/ItemApplicationService';
+
+async function main() {
+  const command = process.argv[2];
+  const jobName = process.argv[3];
+
+  const container = DIContainer.getInstance();
+  const db = container.get<DatabaseConnection>(TYPES.DatabaseConnection);
+  const scheduler = container.get<JobScheduler>(TYPES.JobScheduler);
+
+  try {
+    switch (command) {
+      case 'run':
+        await runJobs(scheduler, jobName);
+        break;
+      case 'list':
+        listJobs(scheduler);
+        break;
+      case 'clean-images':
+        await cleanImages(container.get<IItemApplicationService>(TYPES.IItemApplicationService), process.argv.includes('--dry-run'));
+        break;
+      default:
+        showHelp(scheduler);
+    }
+  } catch (error) {
+    console.error('Command failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await db.close();
+  }
+}
+
+async function runJobs(scheduler: JobScheduler, jobName?: string) {
+  const results = jobName ? [await scheduler.run(jobName)] : await scheduler.runAll();
+  printResults(results);
+
+  if (results.some(result => result.error)) {
+    process.exitCode = 1;
+  }
+}
+
+function listJobs(scheduler: JobScheduler) {
+  console.log('Scheduled Jobs:');
+  console.log('===============');
+
+  for (const { name, description } of scheduler.listJobs()) {
+    console.log(`${name.padEnd(20)} ${description}`);
+  }
+}
+
+async function cleanImages(itemService: IItemApplicationService, dryRun: boolean) {
+  const { scanned, orphaned, removed } = await itemService.removeOrphanedImages(dryRun);
+
+  for (const path of orphaned) {
+    console.log(`${dryRun ? '-' : '✗'} ${path}`);
+  }
+  console.log(dryRun
+    ? `${orphaned.length} of ${scanned} item image files are orphaned`
+    : `Removed ${removed} of ${orphaned.length} orphaned item image files (${scanned} scanned)`);
+
+  if (removed < orphaned.length && !dryRun) {
+    process.exitCode = 1;
+  }
+}
+
+function printResults(results: JobRunResult[]) {
+  for (const { job, processed, error } of results) {
+    if (error) {
+      console.log(`✗ ${job}: ${error}`);
+    } else {
+      console.log(`✓ ${job}: ${processed} processed`);
+    }
+  }
+}
+
+function showHelp(scheduler: JobScheduler) {
+  console.log(`
+Scheduled Jobs CLI Tool
+
+Usage: npm run jobs <command> [job]
+
+Commands:
+  run [job]                   Run every job once, or only the named job
+  list                        List the available jobs
+  clean-images [--dry-run]    Delete stored item photos no item uses any more
+
+Jobs:
+${scheduler.listJobs().map(({ name }) => `  ${name}`).join('\n')}
+
+Notifications are queued in the domain event outbox and sent by the server.
+
+Examples:
+  npm run jobs run
+  npm run jobs run overdue-exchanges
+  npm run jobs list
+  npm run jobs clean-images -- --dry-run
+`);
+}
+
+main();
@@ -0,0 +1,9 @@
+export * from './IScheduledJob';
+export * from './JobScheduler';
+export * from './scheduled/PickupReminderJob';
+export * from './scheduled/OverdueExchangeExpiryJob';
+export * from './scheduled/StaleItemReminderJob';
+export * from './scheduled/ListingRenewalReminderJob';
+export * from './scheduled/ListingExpiryJob';
+export * from './scheduled/SavedSearchAlertJob';
+export * from './scheduled/AuthTokenCleanupJob';
@@ -0,0 +1,23 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { IAuthTokenRepository } from '../../../infrastructure/repositories/IAuthTokenRepository';
+import { IScheduledJob } from '../IScheduledJob';
+
+/**
+ * Deletes refresh tokens and denylisted access tokens that have expired
+ * anyway, so the tables only hold sessions that can still be used.
+ */
+@injectable()
+export class AuthTokenCleanupJob implements IScheduledJob {
+  readonly name = 'auth-token-cleanup';
+  readonly description = 'Delete expired refresh tokens and access token denylist entries';
+
+  constructor(
+    @inject(TYPES.IAuthTokenRepository)
+    private readonly tokenRepository: IAuthTokenRepository
+  ) {}
+
+  async run(): Promise<number> {
+    return this.tokenRepository.deleteExpired();
+  }
+}
@@ -0,0 +1,36 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { IItemRepository } from '../../../infrastructure/repositories/IItemRepository';
+import { IScheduledJob } from '../IScheduledJob';
+
+/**
+ * Marks available listings past their expiry date as expired, which takes
+ * them out of search and recommendations until the owner relists them.
+ */
+@injectable()
+export class ListingExpiryJob implements IScheduledJob {
+  readonly name = 'listing-expiry';
+  readonly description = 'Expire listings that were not renewed in time';
+
+  constructor(
+    @inject(TYPES.IItemRepository)
+    private readonly itemRepository: IItemRepository
+  ) {}
+
+  async run(): Promise<number> {
+    const items = await this.itemRepository.findLapsedItems();
+    let expired = 0;
+
+    for (const item of items) {
+      try {
+        item.expire();
+        await this.itemRepository.save(item);
+        expired++;
+      } catch (error) {
+        console.error(`Failed to expire item ${item.id.value}:`, error);
+      }
+    }
+
+    return expired;
+  }
+}
@@ -0,0 +1,43 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { AppConfig, ListingsConfig } from '@/config/AppConfig';
+import { IItemRepository } from '../../../infrastructure/repositories/IItemRepository';
+import { IScheduledJob } from '../IScheduledJob';
+
+/**
+ * Sends owners a one-click renewal link for listings that expire within the
+ * configured number of days. Each listing gets one link until it is renewed.
+ */
+@injectable()
+export class ListingRenewalReminderJob implements IScheduledJob {
+  readonly name = 'listing-renewals';
+  readonly description = 'Send renewal links for listings that are about to expire';
+
+  private readonly config: ListingsConfig;
+
+  constructor(
+    @inject(TYPES.IItemRepository)
+    private readonly itemRepository: IItemRepository,
+    @inject(TYPES.AppConfig)
+    config: AppConfig
+  ) {
+    this.config = config.listings;
+  }
+
+  async run(): Promise<number> {
+    const items = await this.itemRepository.findItemsExpiringWithin(this.config.renewalReminderDays);
+    let reminded = 0;
+
+    for (const item of items) {
+      try {
+        item.remindOwnerOfExpiry();
+        await this.itemRepository.save(item);
+        reminded++;
+      } catch (error) {
+        console.error(`Failed to send renewal reminder for item ${item.id.value}:`, error);
+      }
+    }
+
+    return reminded;
+  }
+}
@@ -0,0 +1,59 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { AppConfig, JobsConfig } from '@/config/AppConfig';
+import { IExchangeRepository } from '../../../infrastructure/repositories/IExchangeRepository';
+import { IItemRepository } from '../../../infrastructure/repositories/IItemRepository';
+import { IUnitOfWork } from '../../../infrastructure/database/IUnitOfWork';
+import { IScheduledJob } from '../IScheduledJob';
+
+/**
+ * Cancels requested or accepted exchanges whose scheduled pickup passed more
+ * than the grace period ago, and puts their items back on offer.
+ */
+@injectable()
+export class OverdueExchangeExpiryJob implements IScheduledJob {
+  readonly name = 'overdue-exchanges';
+  readonly description = 'Cancel exchanges left open past their scheduled pickup';
+
+  private readonly config: JobsConfig;
+
+  constructor(
+    @inject(TYPES.IExchangeRepository)
+    private readonly exchangeRepository: IExchangeRepository,
+    @inject(TYPES.IItemRepository)
+    private readonly itemRepository: IItemRepository,
+    @inject(TYPES.IUnitOfWork)
+    private readonly unitOfWork: IUnitOfWork,
+    @inject(TYPES.AppConfig)
+    config: AppConfig
+  ) {
+    this.config = config.jobs;
+  }
+
+  async run(): Promise<number> {
+    const exchanges = await this.exchangeRepository.findOverdueExchanges(this.config.overdueGraceHours);
+    let expired = 0;
+
+    for (const exchange of exchanges) {
+      try {
+        exchange.expire('The scheduled pickup passed without the exchange being completed');
+
+        await this.unitOfWork.execute(async () => {
+          await this.exchangeRepository.save(exchange);
+
+          const item = await this.itemRepository.findByIdForUpdate(exchange.itemId);
+          if (item && item.quantityClaimed >= exchange.quantity) {
+            item.releaseClaim(exchange.quantity);
+            await this.itemRepository.save(item);
+          }
+        });
+
+        expired++;
+      } catch (error) {
+        console.error(`Failed to expire overdue exchange ${exchange.id.value}:`, error);
+      }
+    }
+
+    return expired;
+  }
+}
@@ -0,0 +1,43 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { AppConfig, JobsConfig } from '@/config/AppConfig';
+import { IExchangeRepository } from '../../../infrastructure/repositories/IExchangeRepository';
+import { IScheduledJob } from '../IScheduledJob';
+
+/**
+ * Reminds both participants of an accepted exchange shortly before its
+ * scheduled pickup. Each exchange is reminded once.
+ */
+@injectable()
+export class PickupReminderJob implements IScheduledJob {
+  readonly name = 'pickup-reminders';
+  readonly description = 'Remind participants of upcoming scheduled pickups';
+
+  private readonly config: JobsConfig;
+
+  constructor(
+    @inject(TYPES.IExchangeRepository)
+    private readonly exchangeRepository: IExchangeRepository,
+    @inject(TYPES.AppConfig)
+    config: AppConfig
+  ) {
+    this.config = config.jobs;
+  }
+
+  async run(): Promise<number> {
+    const exchanges = await this.exchangeRepository.findExchangesDueForPickupReminder(this.config.pickupReminderLeadHours);
+    let reminded = 0;
+
+    for (const exchange of exchanges) {
+      try {
+        exchange.remindOfPickup();
+        await this.exchangeRepository.save(exchange);
+        reminded++;
+      } catch (error) {
+        console.error(`Failed to send pickup reminder for exchange ${exchange.id.value}:`, error);
+      }
+    }
+
+    return reminded;
+  }
+}
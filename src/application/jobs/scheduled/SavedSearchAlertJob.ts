@@ -0,0 +1,65 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { SavedSearch } from '../../../domain/user/SavedSearch';
+import { ISavedSearchRepository } from '../../../infrastructure/repositories/ISavedSearchRepository';
+import { IItemRepository } from '../../../infrastructure/repositories/IItemRepository';
+import { IUnitOfWork } from '../../../infrastructure/database/IUnitOfWork';
+import { IScheduledJob } from '../IScheduledJob';
+
+/**
+ * Sends each saved search its pending matches as one alert: immediately for
+ * immediate searches, at most once a day for daily digests. Matches whose
+ * item was taken in the meantime are dropped without an alert.
+ */
+@injectable()
+export class SavedSearchAlertJob implements IScheduledJob {
+  readonly name = 'saved-search-alerts';
+  readonly description = 'Alert users about new items matching their saved searches';
+
+  constructor(
+    @inject(TYPES.ISavedSearchRepository)
+    private readonly savedSearchRepository: ISavedSearchRepository,
+    @inject(TYPES.IItemRepository)
+    private readonly itemRepository: IItemRepository,
+    @inject(TYPES.IUnitOfWork)
+    private readonly unitOfWork: IUnitOfWork
+  ) {}
+
+  async run(): Promise<number> {
+    const savedSearches = await this.savedSearchRepository.findDueForAlert(SavedSearch.digestCutoff());
+    let sent = 0;
+
+    for (const savedSearch of savedSearches) {
+      try {
+        const alerted = await this.unitOfWork.execute(async () => {
+          const itemIds = await this.savedSearchRepository.findPendingMatchItemIds(savedSearch.id);
+          if (itemIds.length === 0) {
+            return false;
+          }
+
+          const items = await this.itemRepository.findByIds(itemIds);
+          const availableIds = items
+            .filter(item => item.isAvailableForExchange())
+            .map(item => item.id.value);
+
+          await this.savedSearchRepository.markMatchesAlerted(savedSearch.id, itemIds);
+          if (availableIds.length === 0) {
+            return false;
+          }
+
+          savedSearch.recordAlert(availableIds);
+          await this.savedSearchRepository.save(savedSearch);
+          return true;
+        });
+
+        if (alerted) {
+          sent++;
+        }
+      } catch (error) {
+        console.error(`Failed to send alert for saved search ${savedSearch.id.value}:`, error);
+      }
+    }
+
+    return sent;
+  }
+}
@@ -0,0 +1,43 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { AppConfig, JobsConfig } from '@/config/AppConfig';
+import { IItemRepository } from '../../../infrastructure/repositories/IItemRepository';
+import { IScheduledJob } from '../IScheduledJob';
+
+/**
+ * Nudges owners of items that have sat available without changes for the
+ * configured number of days, at most once per that many days.
+ */
+@injectable()
+export class StaleItemReminderJob implements IScheduledJob {
+  readonly name = 'stale-items';
+  readonly description = 'Nudge owners of listings that have gone unclaimed';
+
+  private readonly config: JobsConfig;
+
+  constructor(
+    @inject(TYPES.IItemRepository)
+    private readonly itemRepository: IItemRepository,
+    @inject(TYPES.AppConfig)
+    config: AppConfig
+  ) {
+    this.config = config.jobs;
+  }
+
+  async run(): Promise<number> {
+    const items = await this.itemRepository.findStaleItems(this.config.staleItemDays);
+    let reminded = 0;
+
+    for (const item of items) {
+      try {
+        item.remindOwnerOfStaleListing();
+        await this.itemRepository.save(item);
+        reminded++;
+      } catch (error) {
+        console.error(`Failed to send stale listing reminder for item ${item.id.value}:`, error);
+      }
+    }
+
+    return reminded;
+  }
+}
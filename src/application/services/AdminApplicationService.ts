@@ -0,0 +1,269 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { User } from '../../domain/user/User';
+import { UserId } from '../../domain/user/value-objects/UserId';
+import { UserRole, UserRoleValue } from '../../domain/user/value-objects/UserRole';
+import { AccountStatusChange, AccountStatusValue } from '../../domain/user/value-objects/AccountStatus';
+import { Item } from '../../domain/item/Item';
+import { ItemId } from '../../domain/item/value-objects/ItemId';
+import { Exchange } from '../../domain/exchange/Exchange';
+import { ExchangeId } from '../../domain/exchange/value-objects/ExchangeId';
+import { IUserRepository } from '../../infrastructure/repositories/IUserRepository';
+import { IUserRoleRepository } from '../../infrastructure/repositories/IUserRoleRepository';
+import { IItemRepository } from '../../infrastructure/repositories/IItemRepository';
+import { IExchangeRepository } from '../../infrastructure/repositories/IExchangeRepository';
+import { IUnitOfWork } from '../../infrastructure/database/IUnitOfWork';
+import { IAuthenticationService } from '../../infrastructure/services/IAuthenticationService';
+
+export interface ListUsersQuery {
+  search?: string; // Display name or email
+  status?: AccountStatusValue;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AdminUserSummary {
+  user: User;
+  roles: UserRoleValue[];
+}
+
+export interface AdminUserListResult {
+  users: AdminUserSummary[];
+  totalCount: number;
+  hasMore: boolean;
+}
+
+export interface SuspendUserCommand {
+  userId: string;
+  adminId: string;
+  reason: string;
+  until: Date;
+}
+
+export interface BanUserCommand {
+  userId: string;
+  adminId: string;
+  reason: string;
+}
+
+export interface ReinstateUserCommand {
+  userId: string;
+  adminId: string;
+  reason?: string;
+}
+
+export interface ChangeUserRoleCommand {
+  userId: string;
+  adminId: string;
+  role: UserRoleValue;
+}
+
+export interface RemoveItemCommand {
+  itemId: string;
+  adminId: string;
+  reason: string; // Sent to the owner and to anyone whose exchange is cancelled
+}
+
+export interface RemoveItemResult {
+  item: Item;
+  cancelledExchanges: number;
+}
+
+export interface AdminCancelExchangeCommand {
+  exchangeId: string;
+  adminId: string;
+  reason: string;
+}
+
+export interface IAdminApplicationService {
+  listUsers(query: ListUsersQuery): Promise<AdminUserListResult>;
+  suspendUser(command: SuspendUserCommand): Promise<User>;
+  banUser(command: BanUserCommand): Promise<User>;
+  reinstateUser(command: ReinstateUserCommand): Promise<User>;
+  getStatusHistory(userId: string): Promise<AccountStatusChange[]>;
+  grantRole(command: ChangeUserRoleCommand): Promise<UserRoleValue[]>;
+  revokeRole(command: ChangeUserRoleCommand): Promise<UserRoleValue[]>;
+  removeItem(command: RemoveItemCommand): Promise<RemoveItemResult>;
+  cancelExchange(command: AdminCancelExchangeCommand): Promise<Exchange>;
+}
+
+/**
+ * Moderation actions for users with the admin role. Callers are expected to
+ * have checked the role; nothing here looks at who the admin is beyond
+ * recording it.
+ */
+@injectable()
+export class AdminApplicationService implements IAdminApplicationService {
+  constructor(
+    @inject(TYPES.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(TYPES.IUserRoleRepository)
+    private readonly userRoleRepository: IUserRoleRepository,
+    @inject(TYPES.IItemRepository)
+    private readonly itemRepository: IItemRepository,
+    @inject(TYPES.IExchangeRepository)
+    private readonly exchangeRepository: IExchangeRepository,
+    @inject(TYPES.IAuthenticationService)
+    private readonly authService: IAuthenticationService,
+    @inject(TYPES.IUnitOfWork)
+    private readonly unitOfWork: IUnitOfWork
+  ) {}
+
+  async listUsers(query: ListUsersQuery): Promise<AdminUserListResult> {
+    const result = await this.userRepository.listUsers(
+      {
+        search: query.search?.trim() || undefined,
+        status: query.status
+      },
+      query.limit || 20,
+      query.offset || 0
+    );
+
+    const roles = await this.userRoleRepository.findByUserIds(result.users.map(user => user.id));
+
+    return {
+      users: result.users.map(user => ({
+        user,
+        roles: (roles.get(user.id.value) || []).map(role => role.value)
+      })),
+      totalCount: result.totalCount,
+      hasMore: result.hasMore
+    };
+  }
+
+  async suspendUser(command: SuspendUserCommand): Promise<User> {
+    const user = await this.getUserById(command.userId);
+
+    // Suspended users keep their sessions so they can still see their exchanges
+    user.suspend(command.reason, command.until, new UserId(command.adminId));
+    await this.userRepository.save(user);
+
+    return user;
+  }
+
+  async banUser(command: BanUserCommand): Promise<User> {
+    const user = await this.getUserById(command.userId);
+
+    user.ban(command.reason, new UserId(command.adminId));
+    await this.userRepository.save(user);
+
+    await this.signOutEverywhere(user);
+    return user;
+  }
+
+  async reinstateUser(command: ReinstateUserCommand): Promise<User> {
+    const user = await this.getUserById(command.userId);
+
+    user.reinstate(new UserId(command.adminId), command.reason);
+    await this.userRepository.save(user);
+
+    return user;
+  }
+
+  async getStatusHistory(userId: string): Promise<AccountStatusChange[]> {
+    const user = await this.getUserById(userId);
+    return this.userRepository.findStatusHistory(user.id);
+  }
+
+  async grantRole(command: ChangeUserRoleCommand): Promise<UserRoleValue[]> {
+    const user = await this.getUserById(command.userId);
+    const role = new UserRole(command.role);
+
+    // Takes effect the next time the user signs in
+    await this.userRoleRepository.grant(user.id, role, new UserId(command.adminId));
+
+    return this.getRoles(user);
+  }
+
+  async revokeRole(command: ChangeUserRoleCommand): Promise<UserRoleValue[]> {
+    const user = await this.getUserById(command.userId);
+    const role = new UserRole(command.role);
+
+    if (role.isAdmin() && await this.userRoleRepository.countUsersWithRole(role) <= 1) {
+      const roles = await this.getRoles(user);
+      if (roles.includes(role.value)) {
+        throw new Error('The last admin cannot lose the admin role');
+      }
+    }
+
+    // Roles travel in the user's tokens, so they have to sign in again
+    if (await this.userRoleRepository.revoke(user.id, role)) {
+      await this.signOutEverywhere(user);
+    }
+
+    return this.getRoles(user);
+  }
+
+  async removeItem(command: RemoveItemCommand): Promise<RemoveItemResult> {
+    const adminId = new UserId(command.adminId);
+
+    return this.unitOfWork.execute(async () => {
+      const item = await this.itemRepository.findByIdForUpdate(new ItemId(command.itemId));
+      if (!item) {
+        throw new Error('Item not found');
+      }
+
+      // Exchanges still in progress would otherwise hold on to their units
+      const exchanges = await this.exchangeRepository.findByItemId(item.id);
+      let cancelledExchanges = 0;
+      for (const exchange of exchanges) {
+        if (!exchange.status.canTransitionTo('cancelled')) continue;
+
+        exchange.cancelByAdmin(command.reason, adminId);
+        await this.exchangeRepository.save(exchange);
+        item.releaseClaim(exchange.quantity);
+        cancelledExchanges++;
+      }
+
+      // Kept rather than deleted so disputes and history still resolve
+      item.removeByAdmin(command.reason, adminId);
+      await this.itemRepository.save(item);
+
+      return { item, cancelledExchanges };
+    });
+  }
+
+  async cancelExchange(command: AdminCancelExchangeCommand): Promise<Exchange> {
+    const exchange = await this.exchangeRepository.findById(new ExchangeId(command.exchangeId));
+    if (!exchange) {
+      throw new Error('Exchange not found');
+    }
+
+    exchange.cancelByAdmin(command.reason, new UserId(command.adminId));
+
+    await this.unitOfWork.execute(async () => {
+      await this.exchangeRepository.save(exchange);
+
+      // Put the claimed units back on the listing
+      const item = await this.itemRepository.findByIdForUpdate(exchange.itemId);
+      if (item) {
+        item.releaseClaim(exchange.quantity);
+        await this.itemRepository.save(item);
+      }
+    });
+
+    return exchange;
+  }
+
+  private async signOutEverywhere(user: User): Promise<void> {
+    try {
+      await this.authService.revokeAllTokens(user.id.value);
+    } catch (error) {
+      // Auth0 sessions can't be revoked from here; they run out on their own
+      console.warn(`Could not sign out user ${user.id.value}:`, error);
+    }
+  }
+
+  private async getRoles(user: User): Promise<UserRoleValue[]> {
+    const roles = await this.userRoleRepository.findByUserId(user.id);
+    return roles.map(role => role.value);
+  }
+
+  private async getUserById(userId: string): Promise<User> {
+    const user = await this.userRepository.findById(new UserId(userId));
+    if (!user) {
+      throw new Error('User not found');
+    }
+    return user;
+  }
+}
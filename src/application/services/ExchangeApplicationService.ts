@@ -1,18 +1,28 @@
-import { Exchange, CreateExchangeData } from '../../domain/exchange/Exchange';
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { AppConfig, HandoffConfig } from '@/config/AppConfig';
+import { Exchange, CreateExchangeData, PickupWindow } from '../../domain/exchange/Exchange';
+import { ItemRequest } from '../../domain/exchange/ItemRequest';
+import { ItemRequestId } from '../../domain/exchange/value-objects/ItemRequestId';
+import { ItemRequestStatusValue } from '../../domain/exchange/value-objects/ItemRequestStatus';
 import { ExchangeId } from '../../domain/exchange/value-objects/ExchangeId';
 import { ExchangeStatusValue } from '../../domain/exchange/value-objects/ExchangeStatus';
 import { RatingData } from '../../domain/exchange/value-objects/Rating';
 import { UserId } from '../../domain/user/value-objects/UserId';
+import { Item } from '../../domain/item/Item';
 import { ItemId } from '../../domain/item/value-objects/ItemId';
-import { IExchangeRepository, ExchangeSearchResult } from '../../infrastructure/repositories/IExchangeRepository';
+import { IExchangeRepository, ExchangeSearchCriteria, ExchangeSearchResult } from '../../infrastructure/repositories/IExchangeRepository';
 import { IItemRepository } from '../../infrastructure/repositories/IItemRepository';
 import { IUserRepository } from '../../infrastructure/repositories/IUserRepository';
-import { INotificationService } from '../../infrastructure/services/INotificationService';
+import { IItemRequestRepository } from '../../infrastructure/repositories/IItemRequestRepository';
+import { IUnitOfWork } from '../../infrastructure/database/IUnitOfWork';
+import { createPickupCalendarInvite, PickupCalendarInvite } from '../calendar/PickupCalendarInvite';
 
 export interface InitiateExchangeCommand {
   itemId: string;
   giverId: string;
   receiverId: string;
+  quantity?: number; // Units of a lot; other items are given whole
   message?: string;
   scheduledPickup?: Date;
 }
@@ -23,10 +33,39 @@ export interface AcceptExchangeCommand {
   scheduledPickup?: Date;
 }
 
+export interface ProposePickupSlotsCommand {
+  exchangeId: string;
+  userId: string; // Must be a participant
+  slots: PickupWindow[];
+}
+
+export interface ChoosePickupSlotCommand {
+  exchangeId: string;
+  userId: string; // Must be the participant the slot was offered to
+  slotId: string;
+}
+
+export interface ShowHandoffCodeCommand {
+  exchangeId: string;
+  userId: string; // Must be the giver
+  regenerate?: boolean; // Replace the current code, e.g. if someone else saw it
+}
+
+export interface HandoffCodeResult {
+  code: string;
+  expiresAt: Date;
+  qrPayload: string; // Link that opens the confirmation with the code filled in
+}
+
+export interface ConfirmHandoffCodeCommand {
+  exchangeId: string;
+  userId: string; // Must be the receiver
+  code: string;
+}
+
 export interface CompleteExchangeCommand {
   exchangeId: string;
   userId: string; // Must be a participant
-  ecoPointsAwarded?: number;
 }
 
 export interface CompleteExchangeResult {
@@ -53,16 +92,82 @@ export interface GetExchangeHistoryQuery {
   asReceiver?: boolean;
   limit?: number;
   offset?: number;
+  cursor?: string; // From the previous page; takes precedence over offset
 }
 
 export interface ExchangeInitiationResult {
   exchangeId: string;
-  notificationSent: boolean;
+}
+
+export interface RequestItemCommand {
+  itemId: string;
+  requesterId: string;
+  quantity?: number; // Units of a lot; other items are given whole
+  message?: string;
+}
+
+export interface ItemRequestResult {
+  requestId: string;
+}
+
+export type ItemRequestSortField = 'createdAt' | 'rating' | 'distance';
+
+export interface GetItemRequestsQuery {
+  itemId: string;
+  ownerId: string; // Must be the item owner
+  sortBy?: ItemRequestSortField;
+  includeClosed?: boolean;
+}
+
+export interface ItemRequestSummary {
+  id: string;
+  itemId: string;
+  status: ItemRequestStatusValue;
+  quantity: number;
+  message?: string;
+  exchangeId?: string;
+  requester: {
+    id: string;
+    displayName: string;
+    avatar?: string;
+    rating: number;
+    totalExchanges: number;
+    distanceKm: number;
+  };
+  createdAt: Date;
+}
+
+export interface SelectItemRequestCommand {
+  itemId: string;
+  requestId: string;
+  ownerId: string; // Must be the item owner
+  scheduledPickup?: Date;
+}
+
+export interface SelectItemRequestResult {
+  exchangeId: string;
+  declinedCount: number;
+}
+
+export interface WithdrawItemRequestCommand {
+  itemId: string;
+  requestId: string;
+  requesterId: string; // Must be the requester
 }
 
 export interface IExchangeApplicationService {
   initiateExchange(command: InitiateExchangeCommand): Promise<ExchangeInitiationResult>;
+  requestItem(command: RequestItemCommand): Promise<ItemRequestResult>;
+  getItemRequests(query: GetItemRequestsQuery): Promise<ItemRequestSummary[]>;
+  selectItemRequest(command: SelectItemRequestCommand): Promise<SelectItemRequestResult>;
+  withdrawItemRequest(command: WithdrawItemRequestCommand): Promise<void>;
+  getUserItemRequests(userId: string, status?: ItemRequestStatusValue): Promise<ItemRequest[]>;
   acceptExchange(command: AcceptExchangeCommand): Promise<void>;
+  proposePickupSlots(command: ProposePickupSlotsCommand): Promise<Exchange>;
+  choosePickupSlot(command: ChoosePickupSlotCommand): Promise<Exchange>;
+  getPickupCalendarInvite(exchangeId: string, userId: string): Promise<PickupCalendarInvite>;
+  showHandoffCode(command: ShowHandoffCodeCommand): Promise<HandoffCodeResult>;
+  confirmHandoffWithCode(command: ConfirmHandoffCodeCommand): Promise<CompleteExchangeResult>;
   completeExchange(command: CompleteExchangeCommand): Promise<CompleteExchangeResult>;
   cancelExchange(command: CancelExchangeCommand): Promise<void>;
   rateExchange(command: RateExchangeCommand): Promise<void>;
@@ -74,13 +179,26 @@ export interface IExchangeApplicationService {
   getUnratedExchanges(userId: string): Promise<Exchange[]>;
 }
 
+@injectable()
 export class ExchangeApplicationService implements IExchangeApplicationService {
+  private readonly handoffConfig: HandoffConfig;
+
   constructor(
+    @inject(TYPES.IExchangeRepository)
     private readonly exchangeRepository: IExchangeRepository,
+    @inject(TYPES.IItemRepository)
     private readonly itemRepository: IItemRepository,
+    @inject(TYPES.IUserRepository)
     private readonly userRepository: IUserRepository,
-    private readonly notificationService: INotificationService
-  ) {}
+    @inject(TYPES.IItemRequestRepository)
+    private readonly itemRequestRepository: IItemRequestRepository,
+    @inject(TYPES.IUnitOfWork)
+    private readonly unitOfWork: IUnitOfWork,
+    @inject(TYPES.AppConfig)
+    config: AppConfig
+  ) {
+    this.handoffConfig = config.handoff;
+  }
 
   async initiateExchange(command: InitiateExchangeCommand): Promise<ExchangeInitiationResult> {
     // Validate item exists and is available
@@ -102,6 +220,7 @@ export class ExchangeApplicationService implements IExchangeApplicationService {
     if (!giver.profile.isVerified || !receiver.profile.isVerified) {
       throw new Error('Both users must be verified to exchange items');
     }
+    giver.assertInGoodStanding();
 
     // Verify the giver owns the item
     if (!item.belongsToUser(new UserId(command.giverId))) {
@@ -113,51 +232,213 @@ export class ExchangeApplicationService implements IExchangeApplicationService {
       throw new Error('Users cannot exchange with each other');
     }
 
-    // Check if there's already an active exchange for this item
-    const existingExchange = await this.exchangeRepository.findExchangeForItem(
-      new ItemId(command.itemId)
-    );
-    if (existingExchange && (existingExchange.status.value === 'requested' || existingExchange.status.value === 'accepted')) {
-      throw new Error('There is already an active exchange for this item');
-    }
+    const quantity = this.resolveQuantity(item, command.quantity);
 
     // Create exchange
     const exchangeData: CreateExchangeData = {
       itemId: command.itemId,
       giverId: command.giverId,
       receiverId: command.receiverId,
-      scheduledPickup: command.scheduledPickup
+      quantity,
+      scheduledPickup: command.scheduledPickup,
+      message: command.message
     };
 
     const exchange = Exchange.create(exchangeData);
-    try {
-      await this.exchangeRepository.save(exchange);
-    } catch (error: any) {
-      if (error?.code === '23505') {
-        throw new Error('There is already an active exchange for this item');
-      }
-      throw error;
-    }
+    await this.unitOfWork.execute(async () => {
+      await this.saveNewExchange(exchange);
+      await this.claimItem(exchange);
+    });
 
-    // Update item status to pending
-    item.markAsPending();
-    await this.itemRepository.save(item);
+    return {
+      exchangeId: exchange.id.value
+    };
+  }
+
+  async requestItem(command: RequestItemCommand): Promise<ItemRequestResult> {
+    const item = await this.itemRepository.findById(new ItemId(command.itemId));
+    if (!item) {
+      throw new Error('Item not found');
+    }
+    if (!item.isAvailableForExchange()) {
+      throw new Error('Item is not available for exchange');
+    }
+
+    const requesterId = new UserId(command.requesterId);
+    if (item.belongsToUser(requesterId)) {
+      throw new Error('You cannot request your own item');
+    }
 
-    // Send notification to receiver
-    let notificationSent = false;
+    const requester = await this.userRepository.findById(requesterId);
+    if (!requester) {
+      throw new Error('User not found');
+    }
+    if (!requester.profile.isVerified) {
+      throw new Error('You must be verified to request items');
+    }
+    requester.assertInGoodStanding();
+
+    const existingRequest = await this.itemRequestRepository.findPendingRequest(item.id, requesterId);
+    if (existingRequest) {
+      throw new Error('You have already requested this item');
+    }
+
+    const request = ItemRequest.create({
+      itemId: command.itemId,
+      requesterId: command.requesterId,
+      quantity: this.resolveQuantity(item, command.quantity),
+      message: command.message
+    });
     try {
-      await this.sendExchangeRequestNotification(exchange, giver, receiver, command.message);
-      notificationSent = true;
-    } catch (error) {
-      console.error('Failed to send exchange request notification:', error);
+      await this.itemRequestRepository.save(request);
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        throw new Error('You have already requested this item');
+      }
+      throw error;
     }
 
+    return {
+      requestId: request.id.value
+    };
+  }
+
+  async getItemRequests(query: GetItemRequestsQuery): Promise<ItemRequestSummary[]> {
+    const item = await this.itemRepository.findById(new ItemId(query.itemId));
+    if (!item) {
+      throw new Error('Item not found');
+    }
+    if (!item.belongsToUser(new UserId(query.ownerId))) {
+      throw new Error('Only the item owner can view requests');
+    }
+
+    const requests = await this.itemRequestRepository.findByItemId(
+      item.id,
+      query.includeClosed ? undefined : 'pending'
+    );
+    if (requests.length === 0) {
+      return [];
+    }
+
+    const requesters = await this.userRepository.findByIds(requests.map(request => request.requesterId));
+    const requesterMap = new Map(requesters.map(user => [user.id.value, user]));
+
+    const summaries: ItemRequestSummary[] = [];
+    for (const request of requests) {
+      const requester = requesterMap.get(request.requesterId.value);
+      if (!requester) {
+        continue;
+      }
+
+      summaries.push({
+        id: request.id.value,
+        itemId: request.itemId.value,
+        status: request.status.value,
+        quantity: request.quantity,
+        message: request.message,
+        exchangeId: request.exchangeId?.value,
+        requester: {
+          id: requester.id.value,
+          displayName: requester.profile.displayName,
+          avatar: requester.profile.avatar,
+          rating: requester.rating,
+          totalExchanges: requester.totalExchanges,
+          distanceKm: Math.round(item.calculateDistanceFrom(requester.location) * 10) / 10
+        },
+        createdAt: request.createdAt
+      });
+    }
+
+    switch (query.sortBy) {
+      case 'rating':
+        summaries.sort((a, b) => b.requester.rating - a.requester.rating);
+        break;
+      case 'distance':
+        summaries.sort((a, b) => a.requester.distanceKm - b.requester.distanceKm);
+        break;
+      default:
+        summaries.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    }
+
+    return summaries;
+  }
+
+  async selectItemRequest(command: SelectItemRequestCommand): Promise<SelectItemRequestResult> {
+    const item = await this.itemRepository.findById(new ItemId(command.itemId));
+    if (!item) {
+      throw new Error('Item not found');
+    }
+    if (!item.belongsToUser(new UserId(command.ownerId))) {
+      throw new Error('Only the item owner can select a request');
+    }
+    if (!item.isAvailableForExchange()) {
+      throw new Error('Item is not available for exchange');
+    }
+
+    const request = await this.getItemRequestById(command.requestId);
+    if (!request.itemId.equals(item.id)) {
+      throw new Error('Request does not belong to this item');
+    }
+    if (!request.isPending()) {
+      throw new Error(`Cannot select request in ${request.status.value} status`);
+    }
+
+    const giver = await this.userRepository.findById(item.userId);
+    const receiver = await this.userRepository.findById(request.requesterId);
+    if (!giver || !receiver) {
+      throw new Error('One or both users not found');
+    }
+    if (!giver.profile.isVerified || !receiver.profile.isVerified) {
+      throw new Error('Both users must be verified to exchange items');
+    }
+    giver.assertInGoodStanding();
+    if (!giver.canExchangeWith(receiver)) {
+      throw new Error('Users cannot exchange with each other');
+    }
+
+    // The receiver asked for the item, so the exchange starts out accepted
+    const exchange = Exchange.createFromRequest({
+      itemId: item.id.value,
+      giverId: giver.id.value,
+      receiverId: receiver.id.value,
+      quantity: this.resolveQuantity(item, request.quantity),
+      scheduledPickup: command.scheduledPickup
+    });
+
+    const declinedRequests = await this.unitOfWork.execute(async () => {
+      await this.saveNewExchange(exchange);
+      const claimed = await this.claimItem(exchange);
+
+      request.select(exchange.id);
+      await this.itemRequestRepository.save(request);
+
+      // A lot with units left keeps its other requests open
+      return claimed.isAvailableForExchange() ? [] : await this.declinePendingRequests(item.id);
+    });
+
     return {
       exchangeId: exchange.id.value,
-      notificationSent
+      declinedCount: declinedRequests.length
     };
   }
 
+  async withdrawItemRequest(command: WithdrawItemRequestCommand): Promise<void> {
+    const request = await this.getItemRequestById(command.requestId);
+    if (!request.itemId.equals(new ItemId(command.itemId))) {
+      throw new Error('Request does not belong to this item');
+    }
+    if (!request.isRequester(new UserId(command.requesterId))) {
+      throw new Error('Only the requester can withdraw a request');
+    }
+
+    request.withdraw();
+    await this.itemRequestRepository.save(request);
+  }
+
+  async getUserItemRequests(userId: string, status?: ItemRequestStatusValue): Promise<ItemRequest[]> {
+    return await this.itemRequestRepository.findByRequesterId(new UserId(userId), status);
+  }
+
   async acceptExchange(command: AcceptExchangeCommand): Promise<void> {
     const exchange = await this.getExchangeById(command.exchangeId);
     
@@ -168,17 +449,108 @@ export class ExchangeApplicationService implements IExchangeApplicationService {
 
     exchange.accept(command.scheduledPickup);
     await this.exchangeRepository.save(exchange);
+  }
 
-    // Send notification to giver
-    try {
-      const giver = await this.userRepository.findById(exchange.giverId);
-      const receiver = await this.userRepository.findById(exchange.receiverId);
-      if (giver && receiver) {
-        await this.sendExchangeAcceptedNotification(exchange, giver, receiver);
-      }
-    } catch (error) {
-      console.error('Failed to send exchange accepted notification:', error);
+  async proposePickupSlots(command: ProposePickupSlotsCommand): Promise<Exchange> {
+    const exchange = await this.getExchangeById(command.exchangeId);
+
+    exchange.proposePickupSlots(new UserId(command.userId), command.slots);
+    await this.exchangeRepository.save(exchange);
+
+    return exchange;
+  }
+
+  async choosePickupSlot(command: ChoosePickupSlotCommand): Promise<Exchange> {
+    const exchange = await this.getExchangeById(command.exchangeId);
+
+    exchange.choosePickupSlot(new UserId(command.userId), command.slotId);
+    await this.exchangeRepository.save(exchange);
+
+    return exchange;
+  }
+
+  async getPickupCalendarInvite(exchangeId: string, userId: string): Promise<PickupCalendarInvite> {
+    const exchange = await this.getExchangeById(exchangeId);
+    if (!exchange.isParticipant(new UserId(userId))) {
+      throw new Error('Only exchange participants can download the pickup invite');
+    }
+    if (!exchange.scheduledPickup) {
+      throw new Error('This exchange has no scheduled pickup');
+    }
+
+    const [item, giver, receiver] = await Promise.all([
+      this.itemRepository.findById(exchange.itemId),
+      this.userRepository.findById(exchange.giverId),
+      this.userRepository.findById(exchange.receiverId)
+    ]);
+    if (!giver || !receiver) {
+      throw new Error('One or both users not found');
+    }
+
+    return createPickupCalendarInvite({
+      exchange,
+      item,
+      giver,
+      receiver,
+      cancelled: exchange.status.isCancelled()
+    });
+  }
+
+  async showHandoffCode(command: ShowHandoffCodeCommand): Promise<HandoffCodeResult> {
+    const exchange = await this.getExchangeById(command.exchangeId);
+
+    if (!exchange.isGiver(new UserId(command.userId))) {
+      throw new Error('Only the giver can show the handoff code');
     }
+
+    // Exchanges accepted before codes existed, and codes that expired or were
+    // locked by wrong guesses, get a fresh one
+    let handoffCode = exchange.handoffCode;
+    if (
+      command.regenerate ||
+      !handoffCode ||
+      handoffCode.isExpired() ||
+      handoffCode.isLocked(this.handoffConfig.maxCodeAttempts)
+    ) {
+      handoffCode = exchange.issueHandoffCode(this.handoffConfig.codeTtlHours);
+      await this.exchangeRepository.save(exchange);
+    }
+
+    const code = handoffCode.code(this.handoffConfig.codeSecret);
+    return {
+      code,
+      expiresAt: handoffCode.expiresAt,
+      qrPayload: `${process.env.FRONTEND_URL}/exchanges?handoff=${exchange.id.value}&code=${code}`
+    };
+  }
+
+  async confirmHandoffWithCode(command: ConfirmHandoffCodeCommand): Promise<CompleteExchangeResult> {
+    const exchange = await this.getExchangeById(command.exchangeId);
+
+    const receiverId = new UserId(command.userId);
+    exchange.requireRedeemableHandoffCode(receiverId);
+
+    // The attempt is counted before comparing, so guesses sent at the same
+    // time each use one up instead of all passing the limit check
+    const attempts = await this.exchangeRepository.claimHandoffAttempt(exchange, this.handoffConfig.maxCodeAttempts);
+    if (attempts === null) {
+      throw new Error('Too many incorrect attempts, ask the giver for a new code');
+    }
+
+    if (!exchange.redeemHandoffCode(receiverId, command.code, this.handoffConfig.codeSecret)) {
+      const remaining = this.handoffConfig.maxCodeAttempts - attempts;
+      throw new Error(remaining > 0
+        ? `Incorrect handoff code, ${remaining} attempt${remaining === 1 ? '' : 's'} left`
+        : 'Incorrect handoff code. Too many attempts, ask the giver for a new code');
+    }
+
+    exchange.complete();
+    await this.unitOfWork.execute(async () => {
+      await this.exchangeRepository.save(exchange);
+      await this.markItemExchanged(exchange);
+    });
+
+    return { completed: true };
   }
 
   async completeExchange(command: CompleteExchangeCommand): Promise<CompleteExchangeResult> {
@@ -189,53 +561,28 @@ export class ExchangeApplicationService implements IExchangeApplicationService {
       throw new Error('Only exchange participants can complete an exchange');
     }
 
-    const bothConfirmed = exchange.confirmHandoffBy(new UserId(command.userId));
-    await this.exchangeRepository.save(exchange);
-
-    if (!bothConfirmed) {
-      return { completed: false };
-    }
-
-    // Calculate eco points (base points + bonus for quick completion)
-    const basePoints = 100;
-    const daysToComplete = exchange.getDurationInDays();
-    const quickCompletionBonus = daysToComplete <= 3 ? 25 : 0;
-    const totalPoints = command.ecoPointsAwarded || (basePoints + quickCompletionBonus);
-
-    exchange.complete(totalPoints);
-    await this.exchangeRepository.save(exchange);
-
-    // Update item status to exchanged
-    const item = await this.itemRepository.findById(exchange.itemId);
-    if (item) {
-      item.markAsExchanged();
-      await this.itemRepository.save(item);
+    if (!this.handoffConfig.allowDualConfirmation) {
+      throw new Error('Confirm the handoff with the code the giver shows at pickup');
     }
 
-    // Award eco points to both users
-    const giver = await this.userRepository.findById(exchange.giverId);
-    const receiver = await this.userRepository.findById(exchange.receiverId);
-    
-    if (giver) {
-      giver.awardPoints(totalPoints, `Exchange completed - gave away ${item?.details.toData().title || 'item'}`);
-      await this.userRepository.save(giver);
-    }
-    
-    if (receiver) {
-      receiver.awardPoints(Math.floor(totalPoints * 0.5), `Exchange completed - received ${item?.details.toData().title || 'item'}`);
-      await this.userRepository.save(receiver);
-    }
-
-    // Send completion notifications
-    try {
-      if (giver && receiver) {
-        await this.sendExchangeCompletedNotification(exchange, giver, receiver, totalPoints);
+    // Confirmation, completion and item status commit together; points and
+    // notifications follow from the ExchangeCompleted event
+    const completed = await this.unitOfWork.execute(async () => {
+      const bothConfirmed = exchange.confirmHandoffBy(new UserId(command.userId));
+      if (bothConfirmed) {
+        exchange.complete();
+      }
+      await this.exchangeRepository.save(exchange);
+
+      if (!bothConfirmed) {
+        return false;
       }
-    } catch (error) {
-      console.error('Failed to send exchange completed notification:', error);
-    }
 
-    return { completed: true };
+      await this.markItemExchanged(exchange);
+      return true;
+    });
+
+    return { completed };
   }
 
   async cancelExchange(command: CancelExchangeCommand): Promise<void> {
@@ -246,29 +593,18 @@ export class ExchangeApplicationService implements IExchangeApplicationService {
       throw new Error('Only exchange participants can cancel an exchange');
     }
 
-    exchange.cancel(command.reason);
-    await this.exchangeRepository.save(exchange);
+    exchange.cancel(command.reason, new UserId(command.userId));
 
-    // Update item status back to available
-    const item = await this.itemRepository.findById(exchange.itemId);
-    if (item) {
-      item.makeAvailable();
-      await this.itemRepository.save(item);
-    }
+    await this.unitOfWork.execute(async () => {
+      await this.exchangeRepository.save(exchange);
 
-    // Send notification to the other participant
-    try {
-      const giver = await this.userRepository.findById(exchange.giverId);
-      const receiver = await this.userRepository.findById(exchange.receiverId);
-      const canceller = exchange.isGiver(new UserId(command.userId)) ? giver : receiver;
-      const otherParty = exchange.isGiver(new UserId(command.userId)) ? receiver : giver;
-      
-      if (canceller && otherParty) {
-        await this.sendExchangeCancelledNotification(exchange, canceller, otherParty, command.reason);
+      // Put the claimed units back on the listing
+      const item = await this.itemRepository.findByIdForUpdate(exchange.itemId);
+      if (item) {
+        item.releaseClaim(exchange.quantity);
+        await this.itemRepository.save(item);
       }
-    } catch (error) {
-      console.error('Failed to send exchange cancelled notification:', error);
-    }
+    });
   }
 
   async rateExchange(command: RateExchangeCommand): Promise<void> {
@@ -311,30 +647,17 @@ export class ExchangeApplicationService implements IExchangeApplicationService {
 
   async getExchangeHistory(query: GetExchangeHistoryQuery): Promise<ExchangeSearchResult> {
     const userId = new UserId(query.userId);
-    
-    if (query.asGiver && query.asReceiver) {
-      // Get all exchanges for user
-      return await this.exchangeRepository.findUserExchangeHistory(userId, query.limit, query.offset);
-    } else if (query.asGiver) {
-      // Get exchanges where user is giver
-      const exchanges = await this.exchangeRepository.findUserAsGiver(userId);
-      return {
-        exchanges: exchanges.slice(query.offset || 0, (query.offset || 0) + (query.limit || 20)),
-        totalCount: exchanges.length,
-        hasMore: exchanges.length > (query.offset || 0) + (query.limit || 20)
-      };
-    } else if (query.asReceiver) {
-      // Get exchanges where user is receiver
-      const exchanges = await this.exchangeRepository.findUserAsReceiver(userId);
-      return {
-        exchanges: exchanges.slice(query.offset || 0, (query.offset || 0) + (query.limit || 20)),
-        totalCount: exchanges.length,
-        hasMore: exchanges.length > (query.offset || 0) + (query.limit || 20)
-      };
+    const criteria: ExchangeSearchCriteria = { status: query.status };
+
+    if (query.asGiver && !query.asReceiver) {
+      criteria.giverId = userId;
+    } else if (query.asReceiver && !query.asGiver) {
+      criteria.receiverId = userId;
     } else {
-      // Get all exchanges for user
-      return await this.exchangeRepository.findUserExchangeHistory(userId, query.limit, query.offset);
+      criteria.userId = userId;
     }
+
+    return await this.exchangeRepository.search(criteria, query.limit || 20, query.offset || 0, query.cursor);
   }
 
   async getUserActiveExchanges(userId: string): Promise<Exchange[]> {
@@ -362,6 +685,83 @@ export class ExchangeApplicationService implements IExchangeApplicationService {
     return exchange;
   }
 
+  private async getItemRequestById(requestId: string): Promise<ItemRequest> {
+    const request = await this.itemRequestRepository.findById(new ItemRequestId(requestId));
+    if (!request) {
+      throw new Error('Item request not found');
+    }
+    return request;
+  }
+
+  private async saveNewExchange(exchange: Exchange): Promise<void> {
+    try {
+      await this.exchangeRepository.save(exchange);
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        throw new Error('This receiver already has an active exchange for this item');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lots can be split across exchanges, so the quantity is the caller's to
+   * choose; anything else is always given whole.
+   */
+  private resolveQuantity(item: Item, requested?: number): number {
+    if (!item.isLot) {
+      return item.quantityRemaining;
+    }
+
+    const quantity = requested ?? 1;
+    if (quantity > item.quantityUnclaimed) {
+      throw new Error(`Only ${item.quantityUnclaimed} of ${item.quantity} remaining`);
+    }
+    return quantity;
+  }
+
+  /**
+   * Claims the exchange's units on a freshly locked copy of the item, so
+   * concurrent exchanges for a lot can't claim the same units.
+   */
+  private async claimItem(exchange: Exchange): Promise<Item> {
+    const item = await this.itemRepository.findByIdForUpdate(exchange.itemId);
+    if (!item) {
+      throw new Error('Item not found');
+    }
+
+    item.claim(exchange.quantity);
+    await this.itemRepository.save(item);
+    return item;
+  }
+
+  private async markItemExchanged(exchange: Exchange): Promise<void> {
+    const item = await this.itemRepository.findByIdForUpdate(exchange.itemId);
+    if (!item) {
+      return;
+    }
+
+    item.handOver(exchange.quantity);
+    await this.itemRepository.save(item);
+
+    // Once the last unit is gone, anyone still waiting won't be getting it
+    if (item.isExchanged()) {
+      await this.declinePendingRequests(item.id);
+    }
+  }
+
+  private async declinePendingRequests(itemId: ItemId): Promise<ItemRequest[]> {
+    const pendingRequests = await this.itemRequestRepository.findByItemId(itemId, 'pending');
+    if (pendingRequests.length === 0) {
+      return [];
+    }
+
+    pendingRequests.forEach(request => request.decline());
+    await this.itemRequestRepository.saveMany(pendingRequests);
+
+    return pendingRequests;
+  }
+
   private async updateUserRatings(exchange: Exchange): Promise<void> {
     // Update giver's rating
     const giverRating = await this.exchangeRepository.getAverageRatingForUser(exchange.giverId);
@@ -379,92 +779,4 @@ export class ExchangeApplicationService implements IExchangeApplicationService {
       await this.userRepository.save(receiver);
     }
   }
-
-  private async sendExchangeRequestNotification(exchange: Exchange, giver: any, receiver: any, message?: string): Promise<void> {
-    const item = await this.itemRepository.findById(exchange.itemId);
-    const itemTitle = item?.details.toData().title || 'an item';
-
-    const subject = `New Exchange Request - ${itemTitle}`;
-    const body = `
-      <h2>You have a new exchange request!</h2>
-      <p>Hi ${receiver.profile.displayName},</p>
-      <p><strong>${giver.profile.displayName}</strong> would like to give you <strong>${itemTitle}</strong>.</p>
-      ${message ? `<p><strong>Message:</strong> ${message}</p>` : ''}
-      <p>You can view the item details and accept or decline this request in your Re:UseNet dashboard.</p>
-      <p><a href="${process.env.FRONTEND_URL}/exchanges/${exchange.id.value}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">View Exchange Request</a></p>
-      <p>Happy reusing!<br>The Re:UseNet Team</p>
-    `;
-
-    await this.notificationService.sendEmail(receiver.email.value, subject, body, true);
-  }
-
-  private async sendExchangeAcceptedNotification(exchange: Exchange, giver: any, receiver: any): Promise<void> {
-    const item = await this.itemRepository.findById(exchange.itemId);
-    const itemTitle = item?.details.toData().title || 'your item';
-
-    const subject = `Exchange Request Accepted - ${itemTitle}`;
-    const body = `
-      <h2>Great news! Your exchange request has been accepted.</h2>
-      <p>Hi ${giver.profile.displayName},</p>
-      <p><strong>${receiver.profile.displayName}</strong> has accepted your offer to give them <strong>${itemTitle}</strong>.</p>
-      ${exchange.scheduledPickup ? `<p><strong>Scheduled pickup:</strong> ${exchange.scheduledPickup.toLocaleDateString()}</p>` : ''}
-      <p>You can coordinate the pickup details through your Re:UseNet dashboard.</p>
-      <p><a href="${process.env.FRONTEND_URL}/exchanges/${exchange.id.value}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">View Exchange Details</a></p>
-      <p>Happy reusing!<br>The Re:UseNet Team</p>
-    `;
-
-    await this.notificationService.sendEmail(giver.email.value, subject, body, true);
-  }
-
-  private async sendExchangeCompletedNotification(exchange: Exchange, giver: any, receiver: any, pointsAwarded: number): Promise<void> {
-    const item = await this.itemRepository.findById(exchange.itemId);
-    const itemTitle = item?.details.toData().title || 'the item';
-
-    // Send to giver
-    const giverSubject = `Exchange Completed - ${itemTitle}`;
-    const giverBody = `
-      <h2>Exchange completed successfully!</h2>
-      <p>Hi ${giver.profile.displayName},</p>
-      <p>Your exchange of <strong>${itemTitle}</strong> with <strong>${receiver.profile.displayName}</strong> has been completed.</p>
-      <p>You've earned <strong>${pointsAwarded} Eco-Points</strong> for this exchange!</p>
-      <p>Don't forget to rate your exchange experience to help build trust in our community.</p>
-      <p><a href="${process.env.FRONTEND_URL}/exchanges/${exchange.id.value}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Rate Exchange</a></p>
-      <p>Happy reusing!<br>The Re:UseNet Team</p>
-    `;
-
-    // Send to receiver
-    const receiverSubject = `Exchange Completed - ${itemTitle}`;
-    const receiverBody = `
-      <h2>Exchange completed successfully!</h2>
-      <p>Hi ${receiver.profile.displayName},</p>
-      <p>Your exchange to receive <strong>${itemTitle}</strong> from <strong>${giver.profile.displayName}</strong> has been completed.</p>
-      <p>You've earned <strong>${Math.floor(pointsAwarded * 0.5)} Eco-Points</strong> for this exchange!</p>
-      <p>Don't forget to rate your exchange experience to help build trust in our community.</p>
-      <p><a href="${process.env.FRONTEND_URL}/exchanges/${exchange.id.value}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Rate Exchange</a></p>
-      <p>Happy reusing!<br>The Re:UseNet Team</p>
-    `;
-
-    await Promise.all([
-      this.notificationService.sendEmail(giver.email.value, giverSubject, giverBody, true),
-      this.notificationService.sendEmail(receiver.email.value, receiverSubject, receiverBody, true)
-    ]);
-  }
-
-  private async sendExchangeCancelledNotification(exchange: Exchange, canceller: any, otherParty: any, reason: string): Promise<void> {
-    const item = await this.itemRepository.findById(exchange.itemId);
-    const itemTitle = item?.details.toData().title || 'the item';
-
-    const subject = `Exchange Cancelled - ${itemTitle}`;
-    const body = `
-      <h2>Exchange has been cancelled</h2>
-      <p>Hi ${otherParty.profile.displayName},</p>
-      <p>Unfortunately, <strong>${canceller.profile.displayName}</strong> has cancelled the exchange for <strong>${itemTitle}</strong>.</p>
-      <p><strong>Reason:</strong> ${reason}</p>
-      <p>The item is now available again for other exchange requests.</p>
-      <p><a href="${process.env.FRONTEND_URL}/items/${exchange.itemId.value}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">View Item</a></p>
-      <p>Happy reusing!<br>The Re:UseNet Team</p>
-    `;
-
-    await this.notificationService.sendEmail(otherParty.email.value, subject, body, true);
-  }
 }
@@ -0,0 +1,301 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { Exchange } from '../../domain/exchange/Exchange';
+import {
+  ExchangeDispute,
+  DisputeEvidenceData,
+  DisputeOutcome,
+  DisputeResolutionActions
+} from '../../domain/exchange/ExchangeDispute';
+import { ExchangeId } from '../../domain/exchange/value-objects/ExchangeId';
+import { ExchangeDisputeId } from '../../domain/exchange/value-objects/ExchangeDisputeId';
+import { DisputeReason, DisputeReasonValue } from '../../domain/exchange/value-objects/DisputeReason';
+import { UserId } from '../../domain/user/value-objects/UserId';
+import { IExchangeRepository } from '../../infrastructure/repositories/IExchangeRepository';
+import { IExchangeDisputeRepository, ExchangeDisputeSearchResult } from '../../infrastructure/repositories/IExchangeDisputeRepository';
+import { IItemRepository } from '../../infrastructure/repositories/IItemRepository';
+import { IUserRepository } from '../../infrastructure/repositories/IUserRepository';
+import { IUnitOfWork } from '../../infrastructure/database/IUnitOfWork';
+import { IFileStorageService } from '../../infrastructure/services/IFileStorageService';
+import { IPointsApplicationService } from './PointsApplicationService';
+
+export interface OpenDisputeCommand {
+  exchangeId: string;
+  reporterId: string; // Must be a participant
+  reason: DisputeReasonValue;
+  description: string;
+}
+
+export interface AddDisputeEvidenceCommand {
+  disputeId: string;
+  userId: string; // Must be the reporter
+  files: Array<{
+    buffer: Buffer;
+    contentType: string;
+    filename: string;
+  }>;
+}
+
+export interface GetDisputeQuery {
+  disputeId: string;
+  userId: string;
+  isAdmin: boolean; // Admins can see every dispute, participants only their own
+}
+
+export interface ListDisputesQuery {
+  status: 'open' | 'resolved';
+  limit?: number;
+  offset?: number;
+}
+
+export interface ResolveDisputeCommand {
+  disputeId: string;
+  adminId: string;
+  outcome: DisputeOutcome;
+  note: string;
+  reversePoints?: boolean; // Only for upheld disputes on completed exchanges
+  clearRatings?: boolean;
+  restoreItem?: boolean; // Only for upheld disputes
+}
+
+export interface IExchangeDisputeApplicationService {
+  openDispute(command: OpenDisputeCommand): Promise<ExchangeDispute>;
+  addEvidence(command: AddDisputeEvidenceCommand): Promise<ExchangeDispute>;
+  getDispute(query: GetDisputeQuery): Promise<ExchangeDispute>;
+  listDisputes(query: ListDisputesQuery): Promise<ExchangeDisputeSearchResult>;
+  resolveDispute(command: ResolveDisputeCommand): Promise<ExchangeDispute>;
+}
+
+@injectable()
+export class ExchangeDisputeApplicationService implements IExchangeDisputeApplicationService {
+  private static readonly EVIDENCE_CONTENT_TYPES = ['image/', 'application/pdf'];
+
+  constructor(
+    @inject(TYPES.IExchangeDisputeRepository)
+    private readonly disputeRepository: IExchangeDisputeRepository,
+    @inject(TYPES.IExchangeRepository)
+    private readonly exchangeRepository: IExchangeRepository,
+    @inject(TYPES.IItemRepository)
+    private readonly itemRepository: IItemRepository,
+    @inject(TYPES.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(TYPES.IPointsApplicationService)
+    private readonly pointsService: IPointsApplicationService,
+    @inject(TYPES.IFileStorageService)
+    private readonly fileStorageService: IFileStorageService,
+    @inject(TYPES.IUnitOfWork)
+    private readonly unitOfWork: IUnitOfWork
+  ) {}
+
+  async openDispute(command: OpenDisputeCommand): Promise<ExchangeDispute> {
+    const exchange = await this.getExchangeById(command.exchangeId);
+    const reporterId = new UserId(command.reporterId);
+
+    if (!exchange.isParticipant(reporterId)) {
+      throw new Error('Only exchange participants can report a problem');
+    }
+
+    const openDispute = await this.disputeRepository.findOpenByExchangeId(exchange.id);
+    if (openDispute) {
+      throw new Error('This exchange already has an open dispute');
+    }
+
+    exchange.openDispute(reporterId, new DisputeReason(command.reason));
+
+    const dispute = ExchangeDispute.create({
+      exchangeId: exchange.id.value,
+      reportedBy: reporterId.value,
+      reportedUserId: exchange.isGiver(reporterId) ? exchange.receiverId.value : exchange.giverId.value,
+      reason: command.reason,
+      description: command.description
+    });
+
+    await this.unitOfWork.execute(async () => {
+      await this.exchangeRepository.save(exchange);
+      await this.disputeRepository.save(dispute);
+    });
+
+    return dispute;
+  }
+
+  async addEvidence(command: AddDisputeEvidenceCommand): Promise<ExchangeDispute> {
+    const dispute = await this.getDisputeById(command.disputeId);
+    const userId = new UserId(command.userId);
+
+    // Check before uploading so rejected evidence doesn't leave files behind
+    dispute.assertCanAddEvidence(userId, command.files.length);
+
+    for (const file of command.files) {
+      if (!ExchangeDisputeApplicationService.EVIDENCE_CONTENT_TYPES.some(type => file.contentType.startsWith(type))) {
+        throw new Error('Evidence must be an image or a PDF');
+      }
+    }
+
+    const evidence: DisputeEvidenceData[] = [];
+    const startIndex = dispute.evidence.length;
+    for (let i = 0; i < command.files.length; i++) {
+      const file = command.files[i];
+      const path = `disputes/${dispute.id.value}/evidence_${startIndex + i}_${Date.now()}.${this.getFileExtension(file.filename)}`;
+      const url = await this.fileStorageService.uploadFile(file.buffer, path, file.contentType);
+      evidence.push({
+        url,
+        filename: file.filename,
+        contentType: file.contentType,
+        uploadedAt: new Date()
+      });
+    }
+
+    dispute.addEvidence(userId, evidence);
+    await this.disputeRepository.save(dispute);
+
+    return dispute;
+  }
+
+  async getDispute(query: GetDisputeQuery): Promise<ExchangeDispute> {
+    const dispute = await this.getDisputeById(query.disputeId);
+
+    if (!query.isAdmin && !dispute.isInvolved(new UserId(query.userId))) {
+      throw new Error('Dispute not found');
+    }
+
+    return dispute;
+  }
+
+  async listDisputes(query: ListDisputesQuery): Promise<ExchangeDisputeSearchResult> {
+    return await this.disputeRepository.findByStatus(
+      query.status === 'open',
+      query.limit || 20,
+      query.offset || 0
+    );
+  }
+
+  /**
+   * Closes a dispute and applies the remedies the admin chose. Everything
+   * commits together, so a failed remedy leaves the dispute open to retry.
+   */
+  async resolveDispute(command: ResolveDisputeCommand): Promise<ExchangeDispute> {
+    const dispute = await this.getDisputeById(command.disputeId);
+    if (!dispute.isOpen()) {
+      throw new Error('Dispute has already been resolved');
+    }
+
+    const exchange = await this.getExchangeById(dispute.exchangeId.value);
+    const upheld = command.outcome === 'upheld';
+    const wasCompleted = exchange.statusBeforeDispute === 'completed';
+
+    if (command.reversePoints && !(upheld && wasCompleted)) {
+      throw new Error('Eco-points can only be reversed when upholding a dispute on a completed exchange');
+    }
+    if (command.restoreItem && !upheld) {
+      throw new Error('The item can only be restored when upholding a dispute');
+    }
+
+    await this.unitOfWork.execute(async () => {
+      const actions: DisputeResolutionActions = {
+        pointsReversed: false,
+        ratingsCleared: false,
+        itemRestored: false
+      };
+
+      if (command.clearRatings) {
+        exchange.removeRatings();
+        actions.ratingsCleared = true;
+      }
+
+      if (upheld) {
+        exchange.upholdDispute(`Dispute upheld: ${dispute.reason.getLabel()}`);
+      } else {
+        exchange.dismissDispute();
+      }
+      await this.exchangeRepository.save(exchange);
+
+      actions.itemRestored = await this.restoreItem(exchange, upheld, wasCompleted, command.restoreItem === true);
+
+      if (command.reversePoints) {
+        await this.pointsService.reverseExchangePoints(exchange.id.value);
+        actions.pointsReversed = true;
+      }
+
+      if (upheld && dispute.reason.isNoShow()) {
+        const reportedUser = await this.userRepository.findById(dispute.reportedUserId);
+        if (reportedUser) {
+          reportedUser.recordNoShow();
+          await this.userRepository.save(reportedUser);
+        }
+      }
+
+      // A reversed exchange no longer counts towards either participant's rating
+      if (actions.ratingsCleared || (upheld && wasCompleted)) {
+        await this.refreshRatings(exchange);
+      }
+
+      dispute.resolve(command.outcome, command.note, new UserId(command.adminId), actions);
+      await this.disputeRepository.save(dispute);
+    });
+
+    return dispute;
+  }
+
+  /**
+   * Units still claimed go back on the market whenever the exchange is
+   * reversed, as with a cancellation. Units already handed over are only
+   * relisted when the admin asks for it.
+   */
+  private async restoreItem(
+    exchange: Exchange,
+    upheld: boolean,
+    wasCompleted: boolean,
+    restoreExchanged: boolean
+  ): Promise<boolean> {
+    if (!upheld) {
+      return false;
+    }
+
+    const item = await this.itemRepository.findByIdForUpdate(exchange.itemId);
+    if (!item) {
+      return false;
+    }
+
+    if (!wasCompleted && item.quantityClaimed >= exchange.quantity) {
+      item.releaseClaim(exchange.quantity);
+    } else if (wasCompleted && restoreExchanged && item.quantityGiven >= exchange.quantity) {
+      item.takeBack(exchange.quantity);
+    } else {
+      return false;
+    }
+
+    await this.itemRepository.save(item);
+    return true;
+  }
+
+  private async refreshRatings(exchange: Exchange): Promise<void> {
+    for (const userId of [exchange.giverId, exchange.receiverId]) {
+      const user = await this.userRepository.findById(userId);
+      if (user) {
+        user.updateRating(await this.exchangeRepository.getAverageRatingForUser(userId));
+        await this.userRepository.save(user);
+      }
+    }
+  }
+
+  private async getExchangeById(exchangeId: string): Promise<Exchange> {
+    const exchange = await this.exchangeRepository.findById(new ExchangeId(exchangeId));
+    if (!exchange) {
+      throw new Error('Exchange not found');
+    }
+    return exchange;
+  }
+
+  private async getDisputeById(disputeId: string): Promise<ExchangeDispute> {
+    const dispute = await this.disputeRepository.findById(new ExchangeDisputeId(disputeId));
+    if (!dispute) {
+      throw new Error('Dispute not found');
+    }
+    return dispute;
+  }
+
+  private getFileExtension(filename: string): string {
+    const parts = filename.split('.');
+    return parts.length > 1 ? parts[parts.length - 1] : 'bin';
+  }
+}
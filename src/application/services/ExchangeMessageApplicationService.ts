@@ -0,0 +1,157 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { Exchange } from '../../domain/exchange/Exchange';
+import { ExchangeMessage } from '../../domain/exchange/ExchangeMessage';
+import { ExchangeId } from '../../domain/exchange/value-objects/ExchangeId';
+import { UserId } from '../../domain/user/value-objects/UserId';
+import { IExchangeRepository } from '../../infrastructure/repositories/IExchangeRepository';
+import { IExchangeMessageRepository, ExchangeMessageSearchResult } from '../../infrastructure/repositories/IExchangeMessageRepository';
+import { IItemRepository } from '../../infrastructure/repositories/IItemRepository';
+import { IUserRepository } from '../../infrastructure/repositories/IUserRepository';
+import { INotificationService } from '../../infrastructure/services/INotificationService';
+
+export interface SendExchangeMessageCommand {
+  exchangeId: string;
+  senderId: string; // Must be a participant
+  body: string;
+}
+
+export interface SendExchangeMessageResult {
+  messageId: string;
+  notificationSent: boolean;
+}
+
+export interface GetExchangeMessagesQuery {
+  exchangeId: string;
+  userId: string; // Must be a participant
+  limit?: number;
+  offset?: number;
+  markAsRead?: boolean;
+}
+
+export interface MarkMessagesReadCommand {
+  exchangeId: string;
+  userId: string; // Must be a participant
+}
+
+export interface UnreadMessageCounts {
+  total: number;
+  byExchange: Record<string, number>;
+}
+
+export interface IExchangeMessageApplicationService {
+  sendMessage(command: SendExchangeMessageCommand): Promise<SendExchangeMessageResult>;
+  getMessages(query: GetExchangeMessagesQuery): Promise<ExchangeMessageSearchResult>;
+  markMessagesAsRead(command: MarkMessagesReadCommand): Promise<number>;
+  getUnreadCounts(userId: string): Promise<UnreadMessageCounts>;
+}
+
+@injectable()
+export class ExchangeMessageApplicationService implements IExchangeMessageApplicationService {
+  constructor(
+    @inject(TYPES.IExchangeRepository)
+    private readonly exchangeRepository: IExchangeRepository,
+    @inject(TYPES.IExchangeMessageRepository)
+    private readonly messageRepository: IExchangeMessageRepository,
+    @inject(TYPES.IItemRepository)
+    private readonly itemRepository: IItemRepository,
+    @inject(TYPES.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(TYPES.INotificationService)
+    private readonly notificationService: INotificationService
+  ) {}
+
+  async sendMessage(command: SendExchangeMessageCommand): Promise<SendExchangeMessageResult> {
+    const exchange = await this.getExchangeForParticipant(command.exchangeId, command.senderId);
+
+    if (exchange.status.isCancelled()) {
+      throw new Error('Cannot send messages on a cancelled exchange');
+    }
+
+    const message = ExchangeMessage.create({
+      exchangeId: command.exchangeId,
+      senderId: command.senderId,
+      body: command.body
+    });
+    await this.messageRepository.save(message);
+
+    // Only email when this message starts a new unread run, so a burst of
+    // messages doesn't turn into a burst of emails
+    let notificationSent = false;
+    try {
+      const recipientId = exchange.isGiver(message.senderId) ? exchange.receiverId : exchange.giverId;
+      const unreadCount = await this.messageRepository.countUnread(exchange.id, recipientId);
+
+      if (unreadCount === 1) {
+        const sender = await this.userRepository.findById(message.senderId);
+        const recipient = await this.userRepository.findById(recipientId);
+        if (sender && recipient) {
+          await this.sendNewMessageNotification(exchange, message, sender, recipient);
+          notificationSent = true;
+        }
+      }
+    } catch (error) {
+      console.error('Failed to send exchange message notification:', error);
+    }
+
+    return {
+      messageId: message.id.value,
+      notificationSent
+    };
+  }
+
+  async getMessages(query: GetExchangeMessagesQuery): Promise<ExchangeMessageSearchResult> {
+    const exchange = await this.getExchangeForParticipant(query.exchangeId, query.userId);
+
+    const result = await this.messageRepository.findByExchangeId(exchange.id, query.limit, query.offset);
+
+    if (query.markAsRead !== false) {
+      await this.messageRepository.markAsRead(exchange.id, new UserId(query.userId));
+    }
+
+    return result;
+  }
+
+  async markMessagesAsRead(command: MarkMessagesReadCommand): Promise<number> {
+    const exchange = await this.getExchangeForParticipant(command.exchangeId, command.userId);
+    return await this.messageRepository.markAsRead(exchange.id, new UserId(command.userId));
+  }
+
+  async getUnreadCounts(userId: string): Promise<UnreadMessageCounts> {
+    const byExchange = await this.messageRepository.countUnreadByExchange(new UserId(userId));
+    const total = Object.values(byExchange).reduce((sum, count) => sum + count, 0);
+
+    return { total, byExchange };
+  }
+
+  private async getExchangeForParticipant(exchangeId: string, userId: string): Promise<Exchange> {
+    const exchange = await this.exchangeRepository.findById(new ExchangeId(exchangeId));
+    if (!exchange) {
+      throw new Error('Exchange not found');
+    }
+    if (!exchange.isParticipant(new UserId(userId))) {
+      throw new Error('Only exchange participants can access messages');
+    }
+    return exchange;
+  }
+
+  private async sendNewMessageNotification(exchange: Exchange, message: ExchangeMessage, sender: any, recipient: any): Promise<void> {
+    const item = await this.itemRepository.findById(exchange.itemId);
+    const itemTitle = item?.details.toData().title || 'your exchange';
+
+    const preview = message.body.length > 200 ? `${message.body.substring(0, 200)}…` : message.body;
+
+    const subject = `New Message About ${itemTitle}`;
+    const body = `
+      <h2>You have a new message</h2>
+      <p>Hi ${recipient.profile.displayName},</p>
+      <p><strong>${sender.profile.displayName}</strong> sent you a message about <strong>${itemTitle}</strong>:</p>
+      <blockquote style="border-left: 3px solid #4CAF50; padding-left: 10px; color: #555;">${preview}</blockquote>
+      <p>Reply in your Re:UseNet dashboard to coordinate the pickup.</p>
+      <p><a href="${process.env.FRONTEND_URL}/exchanges/${exchange.id.value}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">View Conversation</a></p>
+      <p>Happy reusing!<br>The Re:UseNet Team</p>
+    `;
+
+    await this.notificationService.sendEmail(recipient.email.value, subject, body, true);
+  }
+}
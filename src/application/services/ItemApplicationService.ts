@@ -1,14 +1,23 @@
 import { Item, CreateItemData } from '../../domain/item/Item';
 import { ItemId } from '../../domain/item/value-objects/ItemId';
-import { ItemDetailsData } from '../../domain/item/value-objects/ItemDetails';
+import { ItemDetailsData, ItemCondition } from '../../domain/item/value-objects/ItemDetails';
+import { ItemImage, ItemImageData, ItemImageVariant } from '../../domain/item/value-objects/ItemImage';
 import { ItemStatusValue } from '../../domain/item/value-objects/ItemStatus';
 import { UserId } from '../../domain/user/value-objects/UserId';
 import { LocationData, Location } from '../../domain/user/value-objects/Location';
 import { IItemRepository, ItemSearchCriteria, ItemSearchResult } from '../../infrastructure/repositories/IItemRepository';
 import { IUserRepository } from '../../infrastructure/repositories/IUserRepository';
+import { IItemRevisionRepository, ItemRevisionSearchResult } from '../../infrastructure/repositories/IItemRevisionRepository';
 import { IFileStorageService } from '../../infrastructure/services/IFileStorageService';
 import { IAIService, ImageAnalysisResult } from '../../infrastructure/services/IAIService';
 import { IMapsService } from '../../infrastructure/services/IMapsService';
+import { IImageProcessingService, ProcessedImage } from '../../infrastructure/services/IImageProcessingService';
+
+export interface ItemImageUpload {
+  buffer: Buffer;
+  contentType: string;
+  filename: string;
+}
 
 export interface CreateItemCommand {
   userId: string;
@@ -16,11 +25,7 @@ export interface CreateItemCommand {
   description: string;
   category?: string;
   condition: 'new' | 'like-new' | 'good' | 'fair' | 'poor';
-  images: Array<{
-    buffer: Buffer;
-    contentType: string;
-    filename: string;
-  }>;
+  images: ItemImageUpload[];
   location: LocationData;
   dimensions?: {
     length: number;
@@ -29,6 +34,8 @@ export interface CreateItemCommand {
     weight: number;
   };
   pickupInstructions?: string;
+  quantity?: number; // Defaults to a single unit
+  isLot?: boolean; // Lets receivers take part of the quantity
 }
 
 export interface UpdateItemCommand {
@@ -59,9 +66,41 @@ export interface UpdateItemLocationCommand {
   location: LocationData;
 }
 
+export interface AddItemImagesCommand {
+  itemId: string;
+  userId: string; // For authorization
+  images: ItemImageUpload[];
+}
+
+export interface RemoveItemImagesCommand {
+  itemId: string;
+  userId: string; // For authorization
+  positions: number[]; // Zero-based positions in the current image list
+}
+
+export interface ReorderItemImagesCommand {
+  itemId: string;
+  userId: string; // For authorization
+  order: number[]; // The current position of each image, in the new order
+}
+
+export interface OrphanedImageCleanupResult {
+  scanned: number;
+  orphaned: string[]; // Storage paths no item refers to
+  removed: number;
+}
+
+export interface RenewItemCommand {
+  itemId: string;
+  userId?: string; // The owner, when signed in
+  token?: string; // From the renewal reminder, when not signed in
+}
+
 export interface SearchItemsQuery {
   searchTerm?: string;
   category?: string;
+  categories?: string[];
+  conditions?: ItemCondition[];
   tags?: string[];
   maxDistance?: number;
   userLocation?: LocationData;
@@ -72,11 +111,20 @@ export interface SearchItemsQuery {
   createdBefore?: Date;
   limit?: number;
   offset?: number;
+  cursor?: string; // From the previous page; takes precedence over offset
+  includeFacets?: boolean; // Also count the matches for each filter option
+}
+
+export interface GetItemHistoryQuery {
+  itemId: string;
+  limit?: number;
+  offset?: number;
+  cursor?: string; // From the previous page; takes precedence over offset
 }
 
 export interface ItemCreationResult {
   itemId: string;
-  imageUrls: string[];
+  images: ItemImageData[];
   aiAnalysisResult?: ImageAnalysisResult;
   suggestedTags: string[];
 }
@@ -86,7 +134,13 @@ export interface IItemApplicationService {
   updateItem(command: UpdateItemCommand): Promise<void>;
   updateItemStatus(command: UpdateItemStatusCommand): Promise<void>;
   updateItemLocation(command: UpdateItemLocationCommand): Promise<void>;
+  addItemImages(command: AddItemImagesCommand): Promise<ItemImageData[]>;
+  removeItemImages(command: RemoveItemImagesCommand): Promise<ItemImageData[]>;
+  reorderItemImages(command: ReorderItemImagesCommand): Promise<ItemImageData[]>;
+  removeOrphanedImages(dryRun?: boolean): Promise<OrphanedImageCleanupResult>;
+  renewItem(command: RenewItemCommand): Promise<Item>;
   getItemDetails(itemId: string): Promise<Item>;
+  getItemHistory(query: GetItemHistoryQuery): Promise<ItemRevisionSearchResult>;
   searchItems(query: SearchItemsQuery): Promise<ItemSearchResult>;
   getUserItems(userId: string): Promise<Item[]>;
   getAvailableItemsNearLocation(location: LocationData, radiusKm: number): Promise<Item[]>;
@@ -98,9 +152,17 @@ export interface IItemApplicationService {
 
 import { injectable, inject } from 'inversify';
 import { TYPES } from '@/container/types';
+import { AppConfig, ListingsConfig } from '@/config/AppConfig';
 
 @injectable()
 export class ItemApplicationService implements IItemApplicationService {
+  private static readonly MAX_IMAGES = 10;
+  private static readonly ITEM_IMAGE_PREFIX = 'items/';
+  // Newer files may belong to an item that hasn't been saved yet
+  private static readonly ORPHAN_GRACE_HOURS = 24;
+
+  private readonly listingsConfig: ListingsConfig;
+
   constructor(
     @inject(TYPES.IItemRepository)
     private readonly itemRepository: IItemRepository,
@@ -111,8 +173,16 @@ export class ItemApplicationService implements IItemApplicationService {
     @inject(TYPES.IAIService)
     private readonly aiService: IAIService,
     @inject(TYPES.IMapsService)
-    private readonly mapsService: IMapsService
-  ) {}
+    private readonly mapsService: IMapsService,
+    @inject(TYPES.IImageProcessingService)
+    private readonly imageProcessingService: IImageProcessingService,
+    @inject(TYPES.IItemRevisionRepository)
+    private readonly itemRevisionRepository: IItemRevisionRepository,
+    @inject(TYPES.AppConfig)
+    config: AppConfig
+  ) {
+    this.listingsConfig = config.listings;
+  }
 
   async createItem(command: CreateItemCommand): Promise<ItemCreationResult> {
     // Validate user exists and is verified
@@ -123,29 +193,18 @@ export class ItemApplicationService implements IItemApplicationService {
     if (!user.profile.isVerified) {
       throw new Error('Only verified users can post items');
     }
+    user.assertInGoodStanding();
 
     // Validate images
     if (!command.images || command.images.length === 0) {
       throw new Error('At least one image is required');
     }
-    if (command.images.length > 10) {
-      throw new Error('Maximum 10 images allowed per item');
+    if (command.images.length > ItemApplicationService.MAX_IMAGES) {
+      throw new Error(`Maximum ${ItemApplicationService.MAX_IMAGES} images allowed per item`);
     }
 
-    // Upload images
-    const imageUrls: string[] = [];
     const itemId = ItemId.generate().value;
-    
-    for (let i = 0; i < command.images.length; i++) {
-      const image = command.images[i];
-      const imagePath = `items/${itemId}/image_${i}_${Date.now()}.${this.getFileExtension(image.filename)}`;
-      const imageUrl = await this.fileStorageService.uploadFile(
-        image.buffer,
-        imagePath,
-        image.contentType
-      );
-      imageUrls.push(imageUrl);
-    }
+    const images = await this.processAndUploadImages(itemId, command.images, 0);
 
     // Analyze first image with AI if available
     let aiAnalysisResult: ImageAnalysisResult | undefined;
@@ -155,7 +214,7 @@ export class ItemApplicationService implements IItemApplicationService {
     try {
       if (await this.aiService.isAvailable()) {
         // Analyze the first image
-        aiAnalysisResult = await this.aiService.analyzeImage(imageUrls[0]);
+        aiAnalysisResult = await this.aiService.analyzeImage(images[0].medium);
         
         // Get AI categorization
         const categorization = await this.aiService.categorizeItem(
@@ -185,59 +244,38 @@ export class ItemApplicationService implements IItemApplicationService {
       description: command.description,
       category: finalCategory || 'other',
       tags: suggestedTags,
-      images: imageUrls,
+      images,
       condition: command.condition,
       dimensions: command.dimensions,
       pickupInstructions: command.pickupInstructions
     };
 
     // Create item domain object
+    // Reuse the pre-generated ID so it matches the image paths
     const createItemData: CreateItemData = {
-      userId: command.userId,
-      details: itemDetails,
-      location: command.location
-    };
-
-    const item = Item.create(createItemData);
-    
-    // Override the generated ID with our pre-generated one (for image paths)
-    const itemWithCorrectId = Item.fromData({
       id: itemId,
       userId: command.userId,
       details: itemDetails,
-      status: 'available',
       location: command.location,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    });
-
-    // Save item to repository
-    await this.itemRepository.save(itemWithCorrectId);
+      lifetimeDays: this.getLifetimeDays(itemDetails.category),
+      quantity: command.quantity,
+      isLot: command.isLot
+    };
 
-    // Award points to user for posting item
-    user.awardPoints(25, 'Item posted');
-    await this.userRepository.save(user);
+    // Posting points and match notifications follow from the ItemPosted event
+    const item = Item.create(createItemData);
+    await this.itemRepository.save(item);
 
     return {
       itemId,
-      imageUrls,
+      images,
       aiAnalysisResult,
       suggestedTags
     };
   }
 
   async updateItem(command: UpdateItemCommand): Promise<void> {
-    const item = await this.getItemById(command.itemId);
-    
-    // Verify ownership
-    if (!item.belongsToUser(new UserId(command.userId))) {
-      throw new Error('You can only update your own items');
-    }
-
-    // Only allow updates for available items
-    if (!item.isAvailableForExchange()) {
-      throw new Error('Can only update available items');
-    }
+    const item = await this.getEditableItem(command.itemId, command.userId);
 
     // Build updated details
     const currentDetails = item.details.toData();
@@ -251,7 +289,7 @@ export class ItemApplicationService implements IItemApplicationService {
       ...(command.pickupInstructions !== undefined && { pickupInstructions: command.pickupInstructions })
     };
 
-    item.updateDetails(updatedDetails);
+    item.updateDetails(updatedDetails, new UserId(command.userId));
     await this.itemRepository.save(item);
   }
 
@@ -263,7 +301,12 @@ export class ItemApplicationService implements IItemApplicationService {
       throw new Error('You can only update your own items');
     }
 
-    item.updateStatus(command.status);
+    // Relisting an expired item also gives it a new expiry date
+    if (item.isExpired() && command.status === 'available') {
+      item.renew(this.getLifetimeDays(item.details.category));
+    } else {
+      item.updateStatus(command.status);
+    }
     await this.itemRepository.save(item);
   }
 
@@ -275,18 +318,120 @@ export class ItemApplicationService implements IItemApplicationService {
       throw new Error('You can only update your own items');
     }
 
-    item.updateLocation(command.location);
+    item.updateLocation(command.location, new UserId(command.userId));
     await this.itemRepository.save(item);
   }
 
+  async addItemImages(command: AddItemImagesCommand): Promise<ItemImageData[]> {
+    const item = await this.getEditableItem(command.itemId, command.userId);
+
+    if (command.images.length === 0) {
+      throw new Error('At least one image is required');
+    }
+    if (item.details.images.length + command.images.length > ItemApplicationService.MAX_IMAGES) {
+      throw new Error(`Maximum ${ItemApplicationService.MAX_IMAGES} images allowed per item`);
+    }
+
+    const images = await this.processAndUploadImages(item.id.value, command.images, item.details.images.length);
+    try {
+      item.addImages(images, new UserId(command.userId));
+      await this.itemRepository.save(item);
+    } catch (error) {
+      await this.deleteImageFiles(images);
+      throw error;
+    }
+
+    return [...item.details.images];
+  }
+
+  async removeItemImages(command: RemoveItemImagesCommand): Promise<ItemImageData[]> {
+    const item = await this.getEditableItem(command.itemId, command.userId);
+
+    const removed = item.removeImages(command.positions, new UserId(command.userId));
+    await this.itemRepository.save(item);
+    await this.deleteImageFiles(removed);
+
+    return [...item.details.images];
+  }
+
+  async reorderItemImages(command: ReorderItemImagesCommand): Promise<ItemImageData[]> {
+    const item = await this.getEditableItem(command.itemId, command.userId);
+
+    item.reorderImages(command.order, new UserId(command.userId));
+    await this.itemRepository.save(item);
+
+    return [...item.details.images];
+  }
+
+  /**
+   * Finds stored item photos that no item refers to any more, such as
+   * uploads for an item that failed to save, and deletes them unless this
+   * is a dry run. Recent files are left alone.
+   */
+  async removeOrphanedImages(dryRun: boolean = false): Promise<OrphanedImageCleanupResult> {
+    const files = await this.fileStorageService.listFiles(ItemApplicationService.ITEM_IMAGE_PREFIX);
+    const referenced = new Set(
+      (await this.itemRepository.findAllImageUrls())
+        .map(url => this.fileStorageService.getPathFromUrl(url))
+        .filter((path): path is string => path !== null)
+    );
+
+    const cutoff = Date.now() - ItemApplicationService.ORPHAN_GRACE_HOURS * 60 * 60 * 1000;
+    const orphaned = files
+      .filter(file => !referenced.has(file.path) && file.lastModified.getTime() < cutoff)
+      .map(file => file.path);
+
+    let removed = 0;
+    if (!dryRun) {
+      for (const path of orphaned) {
+        try {
+          await this.fileStorageService.deleteFile(path);
+          removed++;
+        } catch (error) {
+          console.error(`Failed to delete orphaned image ${path}:`, error);
+        }
+      }
+    }
+
+    return { scanned: files.length, orphaned, removed };
+  }
+
+  /**
+   * Extends an available listing or relists an expired one. The owner can
+   * do this signed in, or with the token from their renewal reminder.
+   */
+  async renewItem(command: RenewItemCommand): Promise<Item> {
+    const item = await this.getItemById(command.itemId);
+
+    const isOwner = command.userId !== undefined && item.belongsToUser(new UserId(command.userId));
+    const hasValidToken = command.token !== undefined && item.matchesRenewalToken(command.token);
+    if (!isOwner && !hasValidToken) {
+      throw new Error('You can only renew your own items');
+    }
+
+    item.renew(this.getLifetimeDays(item.details.category));
+    await this.itemRepository.save(item);
+    return item;
+  }
+
   async getItemDetails(itemId: string): Promise<Item> {
     return await this.getItemById(itemId);
   }
 
+  /**
+   * Edits to the item's details and location, newest first.
+   */
+  async getItemHistory(query: GetItemHistoryQuery): Promise<ItemRevisionSearchResult> {
+    const item = await this.getItemById(query.itemId);
+    return await this.itemRevisionRepository.findByItemId(item.id, query.limit, query.offset, query.cursor);
+  }
+
   async searchItems(query: SearchItemsQuery): Promise<ItemSearchResult> {
     const criteria: ItemSearchCriteria = {
       searchTerm: query.searchTerm,
       category: query.category,
+      categories: query.categories,
+      conditions: query.conditions,
       tags: query.tags,
       status: query.status || 'available', // Default to available items
       maxDistance: query.maxDistance,
@@ -297,11 +442,22 @@ export class ItemApplicationService implements IItemApplicationService {
       createdBefore: query.createdBefore
     };
 
-    return await this.itemRepository.search(
+    const search = this.itemRepository.search(
       criteria,
       query.limit || 20,
-      query.offset || 0
+      query.offset || 0,
+      query.cursor
     );
+
+    if (!query.includeFacets) {
+      return await search;
+    }
+
+    const [result, facets] = await Promise.all([
+      search,
+      this.itemRepository.getSearchFacets(criteria)
+    ]);
+    return { ...result, facets };
   }
 
   async getUserItems(userId: string): Promise<Item[]> {
@@ -326,26 +482,17 @@ export class ItemApplicationService implements IItemApplicationService {
       throw new Error('You can only delete your own items');
     }
 
-    // Only allow deletion of available items
-    if (!item.isAvailableForExchange()) {
-      throw new Error('Can only delete available items');
+    // Only allow deletion of available or expired items
+    if (!item.isAvailableForExchange() && !item.isExpired()) {
+      throw new Error('Can only delete available or expired items');
     }
-
-    // Delete images from storage
-    const imageUrls = item.details.toData().images;
-    for (const imageUrl of imageUrls) {
-      try {
-        // Extract path from URL (this would depend on your storage service implementation)
-        const path = this.extractPathFromUrl(imageUrl);
-        await this.fileStorageService.deleteFile(path);
-      } catch (error) {
-        console.error('Failed to delete image:', error);
-        // Continue with deletion even if image cleanup fails
-      }
+    if (item.quantityClaimed > 0) {
+      throw new Error('Cannot delete an item with exchanges in progress');
     }
 
-    // Delete item from repository
+    // Remove the item first; files left by a failed cleanup are found as orphans later
     await this.itemRepository.delete(item.id);
+    await this.deleteImageFiles(item.details.images);
   }
 
   async getItemsByCategory(category: string): Promise<Item[]> {
@@ -364,20 +511,74 @@ export class ItemApplicationService implements IItemApplicationService {
     return item;
   }
 
-  private getFileExtension(filename: string): string {
-    const parts = filename.split('.');
-    return parts.length > 1 ? parts[parts.length - 1] : 'jpg';
+  private getLifetimeDays(category: string): number {
+    return this.listingsConfig.categoryLifetimeDays[category.toLowerCase()] ?? this.listingsConfig.lifetimeDays;
   }
 
-  private extractPathFromUrl(url: string): string {
-    // This is a simplified implementation
-    // In a real implementation, you'd need to handle different storage providers
-    try {
-      const urlObj = new URL(url);
-      return urlObj.pathname.substring(1); // Remove leading slash
-    } catch {
-      // Fallback: assume the URL is already a path
-      return url;
+  private async getEditableItem(itemId: string, userId: string): Promise<Item> {
+    const item = await this.getItemById(itemId);
+
+    // Verify ownership
+    if (!item.belongsToUser(new UserId(userId))) {
+      throw new Error('You can only update your own items');
+    }
+
+    // Items being exchanged can still be edited; the receiver is told
+    if (!item.isEditable()) {
+      throw new Error('Can only update available or pending items');
+    }
+
+    return item;
+  }
+
+  private async processAndUploadImages(
+    itemId: string,
+    uploads: ItemImageUpload[],
+    firstIndex: number
+  ): Promise<ItemImageData[]> {
+    // Process every image before uploading any, so a bad file doesn't leave others behind
+    const processedImages: ProcessedImage[] = [];
+    for (const upload of uploads) {
+      processedImages.push(await this.imageProcessingService.processImage(upload.buffer));
+    }
+
+    const images: ItemImageData[] = [];
+    for (let i = 0; i < processedImages.length; i++) {
+      images.push(await this.uploadImageVariants(itemId, firstIndex + i, processedImages[i]));
     }
+    return images;
+  }
+
+  private async deleteImageFiles(images: readonly ItemImageData[]): Promise<void> {
+    for (const url of images.flatMap(image => ItemImage.urls(image))) {
+      const path = this.fileStorageService.getPathFromUrl(url);
+      if (!path) continue; // Not ours, e.g. seeded sample photos
+
+      try {
+        await this.fileStorageService.deleteFile(path);
+      } catch (error) {
+        console.error('Failed to delete image:', error);
+        // Carry on; the orphaned image cleanup picks up what's left
+      }
+    }
+  }
+
+  private async uploadImageVariants(itemId: string, index: number, image: ProcessedImage): Promise<ItemImageData> {
+    const urls: Partial<Record<ItemImageVariant, string>> = {};
+    const widths: Partial<Record<ItemImageVariant, number>> = {};
+    const uploadedAt = Date.now();
+
+    for (const variant of image.variants) {
+      const imagePath = `items/${itemId}/image_${index}_${uploadedAt}_${variant.variant}.${variant.extension}`;
+      urls[variant.variant] = await this.fileStorageService.uploadFile(variant.buffer, imagePath, variant.contentType);
+      widths[variant.variant] = variant.width;
+    }
+
+    return ItemImage.normalize({
+      thumbnail: urls.thumbnail!,
+      medium: urls.medium!,
+      full: urls.full!,
+      widths: widths as Record<ItemImageVariant, number>
+    });
   }
 }
\ No newline at end of file
@@ -2,10 +2,14 @@ import { injectable, inject } from 'inversify';
 import { Item } from '../../domain/item/Item';
 import { User } from '../../domain/user/User';
 import { ItemId } from '../../domain/item/value-objects/ItemId';
+import { ItemImageData } from '../../domain/item/value-objects/ItemImage';
 import { UserId } from '../../domain/user/value-objects/UserId';
 import { Location, LocationData } from '../../domain/user/value-objects/Location';
+import { WantedPost } from '../../domain/wanted/WantedPost';
+import { WantedPostId } from '../../domain/wanted/value-objects/WantedPostId';
 import { IItemRepository } from '../../infrastructure/repositories/IItemRepository';
 import { IUserRepository } from '../../infrastructure/repositories/IUserRepository';
+import { IWantedPostRepository } from '../../infrastructure/repositories/IWantedPostRepository';
 import { IAIService, SimilarItemResult } from '../../infrastructure/services/IAIService';
 import { INotificationService } from '../../infrastructure/services/INotificationService';
 import { TYPES } from '@/container/types';
@@ -52,7 +56,7 @@ export interface SimilarItemResponse {
   title: string;
   description: string;
   category: string;
-  images: string[];
+  images: ItemImageData[];
   location: LocationData;
   distance?: number;
   similarity: number;
@@ -71,19 +75,38 @@ export interface ItemRecommendation {
   title: string;
   description: string;
   category: string;
-  images: string[];
+  images: ItemImageData[];
   location: LocationData;
   distance: number;
   relevanceScore: number;
   reason: string;
 }
 
+export interface SuggestItemsForWantedPostQuery {
+  wantedPostId: string;
+  userId: string; // Must be the poster
+  limit?: number;
+}
+
+export interface WantedPostItemSuggestion {
+  itemId: string;
+  title: string;
+  description: string;
+  category: string;
+  images: ItemImageData[];
+  location: LocationData;
+  distance: number;
+  score: number;
+  matchReason: string;
+}
+
 export interface IMatchingApplicationService {
   categorizeItem(command: CategorizeItemCommand): Promise<ItemCategorizationResponse>;
   findMatchesForItem(query: FindMatchesQuery): Promise<UserItemMatch[]>;
   findSimilarItems(query: FindSimilarItemsQuery): Promise<SimilarItemResponse[]>;
   getPersonalizedRecommendations(query: GetRecommendationsQuery): Promise<ItemRecommendation[]>;
   notifyPotentialMatches(itemId: string): Promise<number>;
+  suggestItemsForWantedPost(query: SuggestItemsForWantedPostQuery): Promise<WantedPostItemSuggestion[]>;
 }
 
 @injectable()
@@ -91,6 +114,7 @@ export class MatchingApplicationService implements IMatchingApplicationService {
   constructor(
     @inject(TYPES.IItemRepository) private readonly itemRepository: IItemRepository,
     @inject(TYPES.IUserRepository) private readonly userRepository: IUserRepository,
+    @inject(TYPES.IWantedPostRepository) private readonly wantedPostRepository: IWantedPostRepository,
     @inject(TYPES.IAIService) private readonly aiService: IAIService,
     @inject(TYPES.INotificationService) private readonly notificationService: INotificationService
   ) {}
@@ -107,7 +131,7 @@ export class MatchingApplicationService implements IMatchingApplicationService {
     let imageAnalysis;
     if (itemData.images && itemData.images.length > 0) {
       try {
-        imageAnalysis = await this.aiService.analyzeImage(itemData.images[0]);
+        imageAnalysis = await this.aiService.analyzeImage(item.details.images[0].medium);
       } catch (error) {
         console.error('Image analysis failed:', error);
       }
@@ -219,7 +243,7 @@ export class MatchingApplicationService implements IMatchingApplicationService {
         title: itemData.title,
         description: itemData.description,
         category: itemData.category,
-        images: itemData.images,
+        images: [...item.details.images],
         location: item.location.toData(),
         distance,
         similarity: result.similarity,
@@ -253,7 +277,7 @@ export class MatchingApplicationService implements IMatchingApplicationService {
           title: itemData.title,
           description: itemData.description,
           category: itemData.category,
-          images: itemData.images,
+          images: [...item.details.images],
           location: item.location.toData(),
           distance,
           relevanceScore,
@@ -289,6 +313,43 @@ export class MatchingApplicationService implements IMatchingApplicationService {
     return notificationsSent;
   }
 
+  /**
+   * Available items the poster of a wanted post can reach, in the wanted
+   * category or sharing a tag, best matches first.
+   */
+  async suggestItemsForWantedPost(query: SuggestItemsForWantedPostQuery): Promise<WantedPostItemSuggestion[]> {
+    const wantedPost = await this.wantedPostRepository.findById(new WantedPostId(query.wantedPostId));
+    if (!wantedPost) throw new Error('Wanted post not found');
+    if (!wantedPost.belongsToUser(new UserId(query.userId))) {
+      throw new Error('Only the poster can see suggestions for this wanted post');
+    }
+
+    const limit = query.limit || 10;
+    const nearbyItems = await this.itemRepository.findAvailableItemsNearLocation(wantedPost.location, wantedPost.radiusKm);
+
+    const suggestions: WantedPostItemSuggestion[] = [];
+    for (const item of nearbyItems.filter(candidate => wantedPost.matchesItem(candidate))) {
+      const itemData = item.details.toData();
+      const distance = wantedPost.location.distanceTo(item.location);
+      const match = this.calculateWantedPostMatchScore(wantedPost, item, distance);
+
+      suggestions.push({
+        itemId: item.id.value,
+        title: itemData.title,
+        description: itemData.description,
+        category: itemData.category,
+        images: [...item.details.images],
+        location: item.location.toData(),
+        distance,
+        score: match.score,
+        matchReason: match.reason
+      });
+    }
+
+    suggestions.sort((a, b) => b.score - a.score || a.distance - b.distance);
+    return suggestions.slice(0, limit);
+  }
+
   private async getItemById(itemId: string): Promise<Item> {
     const item = await this.itemRepository.findById(new ItemId(itemId));
     if (!item) throw new Error('Item not found');
@@ -318,6 +379,32 @@ export class MatchingApplicationService implements IMatchingApplicationService {
     return { similarity: Math.min(similarity, 1.0), reason: reasons.join(', ') };
   }
 
+  private calculateWantedPostMatchScore(wantedPost: WantedPost, item: Item, distance: number): { score: number; reason: string } {
+    let score = 0;
+    const reasons: string[] = [];
+
+    if (item.details.matchesCategory(wantedPost.category)) {
+      score += 0.4;
+      reasons.push(`in ${wantedPost.category} category`);
+    }
+
+    const matchingTags = wantedPost.tags.filter(tag => item.details.hasTag(tag));
+    if (matchingTags.length > 0) {
+      score += (matchingTags.length / wantedPost.tags.length) * 0.3;
+      reasons.push(`tagged ${matchingTags.join(', ')}`);
+    }
+
+    if (item.details.matchesSearchTerm(wantedPost.title)) {
+      score += 0.2;
+      reasons.push('matches what you are looking for');
+    }
+
+    score += (1 - distance / wantedPost.radiusKm) * 0.1;
+    reasons.push(`${distance.toFixed(1)} km away`);
+
+    return { score: Math.min(score, 1.0), reason: reasons.join(', ') };
+  }
+
   private fallbackSimilaritySearch(targetItem: Item, candidateItems: Item[]): SimilarItemResult[] {
     const targetData = targetItem.details.toData();
     const targetWords = targetData.description.toLowerCase().split(/\s+/);
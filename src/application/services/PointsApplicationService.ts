@@ -1,15 +1,47 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { AppConfig } from '@/config/AppConfig';
 import { User } from '../../domain/user/User';
 import { UserId } from '../../domain/user/value-objects/UserId';
+import { ItemId } from '../../domain/item/value-objects/ItemId';
 import { Badge, BadgeCategory } from '../../domain/points/Badge';
+import { EcoPointsRules } from '../../domain/points/EcoPointsRules';
 import { Achievement } from '../../domain/points/Achievement';
 import { IUserRepository } from '../../infrastructure/repositories/IUserRepository';
 import { IBadgeRepository } from '../../infrastructure/repositories/IBadgeRepository';
 import { IAchievementRepository } from '../../infrastructure/repositories/IAchievementRepository';
+import { IItemRepository } from '../../infrastructure/repositories/IItemRepository';
+import { IUnitOfWork } from '../../infrastructure/database/IUnitOfWork';
+import {
+  IEcoPointsLedgerRepository,
+  EcoPointsLedgerSearchResult
+} from '../../infrastructure/repositories/IEcoPointsLedgerRepository';
 
 export interface AwardPointsCommand {
   userId: string;
   points: number;
   reason: string;
+  idempotencyKey?: string;
+}
+
+export interface AwardExchangePointsCommand {
+  exchangeId: string;
+  giverId: string;
+  receiverId: string;
+  itemId: string;
+  daysToComplete: number;
+}
+
+export interface ExchangePointsResult {
+  giverPoints: number;
+  receiverPoints: number;
+}
+
+export interface PointsTransactionsQuery {
+  userId: string;
+  limit?: number;
+  offset?: number;
+  cursor?: string; // From the previous page; takes precedence over offset
 }
 
 export interface UnlockBadgeCommand {
@@ -20,6 +52,8 @@ export interface UnlockBadgeCommand {
 export interface LeaderboardQuery {
   communityId?: string;
   limit?: number;
+  offset?: number;
+  cursor?: string; // From the previous page; takes precedence over offset
   includePrivateUsers?: boolean;
 }
 
@@ -35,6 +69,12 @@ export interface LeaderboardEntry {
   isPrivate: boolean;
 }
 
+export interface LeaderboardResult {
+  entries: LeaderboardEntry[];
+  hasMore: boolean;
+  nextCursor?: string;
+}
+
 export interface UserAchievementSummary {
   userId: string;
   ecoPoints: number;
@@ -50,65 +90,133 @@ export interface UserAchievementSummary {
 }
 
 export interface IPointsApplicationService {
-  awardPoints(command: AwardPointsCommand): Promise<void>;
-  awardPointsForItemPosting(userId: string, itemId: string): Promise<void>;
-  awardPointsForExchange(giverId: string, receiverId: string, exchangeId: string): Promise<void>;
+  awardPoints(command: AwardPointsCommand): Promise<number>;
+  awardPointsForItemPosting(userId: string, itemId: string): Promise<number>;
+  awardPointsForExchange(command: AwardExchangePointsCommand): Promise<ExchangePointsResult>;
+  reverseExchangePoints(exchangeId: string): Promise<ExchangePointsResult>;
+  awardPointsForVerification(userId: string): Promise<number>;
   checkAndUnlockBadges(userId: string): Promise<Badge[]>;
   unlockBadge(command: UnlockBadgeCommand): Promise<void>;
   getUserAchievements(userId: string): Promise<UserAchievementSummary>;
-  getLeaderboard(query: LeaderboardQuery): Promise<LeaderboardEntry[]>;
+  getPointsTransactions(query: PointsTransactionsQuery): Promise<EcoPointsLedgerSearchResult>;
+  getLeaderboard(query: LeaderboardQuery): Promise<LeaderboardResult>;
   getAllBadges(): Promise<Badge[]>;
   getBadgesByCategory(category: BadgeCategory): Promise<Badge[]>;
   initializeDefaultBadges(): Promise<void>;
 }
 
+@injectable()
 export class PointsApplicationService implements IPointsApplicationService {
-  // Points configuration based on requirements
-  private readonly POINTS_FOR_ITEM_POSTING = 10;
-  private readonly POINTS_FOR_EXCHANGE_GIVER = 25;
-  private readonly POINTS_FOR_EXCHANGE_RECEIVER = 15;
-  private readonly POINTS_FOR_VERIFICATION = 50;
+  private readonly rules: EcoPointsRules;
 
   constructor(
+    @inject(TYPES.IUserRepository)
     private readonly userRepository: IUserRepository,
+    @inject(TYPES.IBadgeRepository)
     private readonly badgeRepository: IBadgeRepository,
-    private readonly achievementRepository: IAchievementRepository
-  ) {}
+    @inject(TYPES.IAchievementRepository)
+    private readonly achievementRepository: IAchievementRepository,
+    @inject(TYPES.IItemRepository)
+    private readonly itemRepository: IItemRepository,
+    @inject(TYPES.IEcoPointsLedgerRepository)
+    private readonly ledgerRepository: IEcoPointsLedgerRepository,
+    @inject(TYPES.IUnitOfWork)
+    private readonly unitOfWork: IUnitOfWork,
+    @inject(TYPES.AppConfig)
+    config: AppConfig
+  ) {
+    this.rules = new EcoPointsRules(config.points);
+  }
 
-  async awardPoints(command: AwardPointsCommand): Promise<void> {
-    const user = await this.getUserById(command.userId);
-    user.awardPoints(command.points, command.reason);
-    await this.userRepository.save(user);
+  async awardPoints(command: AwardPointsCommand): Promise<number> {
+    // The user's row stays locked until the award is saved, so concurrent
+    // awards see each other's ledger rows when the daily cap is applied
+    const points = await this.unitOfWork.execute(async () => {
+      const user = await this.userRepository.findByIdForUpdate(new UserId(command.userId));
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      // Replayed awards report what was originally recorded
+      if (command.idempotencyKey) {
+        const existing = await this.ledgerRepository.findByIdempotencyKey(command.idempotencyKey);
+        if (existing) {
+          return existing.points;
+        }
+      }
+
+      const awardedToday = await this.ledgerRepository.getPointsAwardedSince(user.id, this.getStartOfToday());
+      const capped = this.rules.applyDailyCap(command.points, awardedToday);
+
+      // Recorded even when the cap leaves nothing, so a replay on a later day doesn't award it
+      user.awardPoints(capped, command.reason, command.idempotencyKey);
+      await this.userRepository.save(user);
+
+      return capped;
+    });
 
     // Check if any badges should be unlocked
     await this.checkAndUnlockBadges(command.userId);
+
+    return points;
   }
 
-  async awardPointsForItemPosting(userId: string, itemId: string): Promise<void> {
-    await this.awardPoints({
+  async awardPointsForItemPosting(userId: string, itemId: string): Promise<number> {
+    const item = await this.itemRepository.findById(new ItemId(itemId));
+    if (!item) {
+      throw new Error('Item not found');
+    }
+
+    return await this.awardPoints({
       userId,
-      points: this.POINTS_FOR_ITEM_POSTING,
-      reason: `Posted item ${itemId}`
+      points: this.rules.calculateItemPostingPoints(item.details),
+      reason: 'Item posted',
+      idempotencyKey: `item:${itemId}:posted`
     });
   }
 
-  async awardPointsForExchange(
-    giverId: string,
-    receiverId: string,
-    exchangeId: string
-  ): Promise<void> {
+  async awardPointsForExchange(command: AwardExchangePointsCommand): Promise<ExchangePointsResult> {
+    const item = await this.itemRepository.findById(new ItemId(command.itemId));
+    const points = this.rules.calculateExchangePoints(item?.details, command.daysToComplete);
+    const title = item?.details.title || 'item';
+
     // Award points to giver
-    await this.awardPoints({
-      userId: giverId,
-      points: this.POINTS_FOR_EXCHANGE_GIVER,
-      reason: `Completed exchange ${exchangeId} as giver`
+    const giverPoints = await this.awardPoints({
+      userId: command.giverId,
+      points: points.giver,
+      reason: `Exchange completed - gave away ${title}`,
+      idempotencyKey: `exchange:${command.exchangeId}:giver`
     });
 
     // Award points to receiver
-    await this.awardPoints({
-      userId: receiverId,
-      points: this.POINTS_FOR_EXCHANGE_RECEIVER,
-      reason: `Completed exchange ${exchangeId} as receiver`
+    const receiverPoints = await this.awardPoints({
+      userId: command.receiverId,
+      points: points.receiver,
+      reason: `Exchange completed - received ${title}`,
+      idempotencyKey: `exchange:${command.exchangeId}:receiver`
+    });
+
+    return { giverPoints, receiverPoints };
+  }
+
+  /**
+   * Takes back what both participants were awarded for an exchange that was
+   * reversed. Returns the points actually deducted, which can be less than
+   * the award if a balance has since been spent down.
+   */
+  async reverseExchangePoints(exchangeId: string): Promise<ExchangePointsResult> {
+    const giverPoints = await this.reverseAward(`exchange:${exchangeId}:giver`);
+    const receiverPoints = await this.reverseAward(`exchange:${exchangeId}:receiver`);
+
+    return { giverPoints, receiverPoints };
+  }
+
+  async awardPointsForVerification(userId: string): Promise<number> {
+    return await this.awardPoints({
+      userId,
+      points: this.rules.accountVerificationPoints,
+      reason: 'Account verification',
+      idempotencyKey: `user:${userId}:verified`
     });
   }
 
@@ -150,7 +258,7 @@ export class PointsApplicationService implements IPointsApplicationService {
         await this.achievementRepository.save(achievement);
 
         // Award bonus points for unlocking badge
-        user.awardPoints(badge.ecoPointsReward, `Unlocked badge: ${badge.name}`);
+        user.awardPoints(badge.ecoPointsReward, `Unlocked badge: ${badge.name}`, `badge:${badge.id}:${userId}`);
         
         newlyUnlockedBadges.push(badge);
       } else {
@@ -185,6 +293,10 @@ export class PointsApplicationService implements IPointsApplicationService {
     if (!badge) {
       throw new Error('Badge not found');
     }
+    // The others unlock on their own once their threshold is reached
+    if (badge.requirement.type !== 'custom') {
+      throw new Error('Only custom badges can be unlocked manually');
+    }
 
     const user = await this.getUserById(command.userId);
 
@@ -204,7 +316,7 @@ export class PointsApplicationService implements IPointsApplicationService {
     await this.achievementRepository.save(achievement);
 
     // Award bonus points
-    user.awardPoints(badge.ecoPointsReward, `Unlocked badge: ${badge.name}`);
+    user.awardPoints(badge.ecoPointsReward, `Unlocked badge: ${badge.name}`, `badge:${badge.id}:${command.userId}`);
     await this.userRepository.save(user);
   }
 
@@ -256,21 +368,18 @@ export class PointsApplicationService implements IPointsApplicationService {
     };
   }
 
-  async getLeaderboard(query: LeaderboardQuery): Promise<LeaderboardEntry[]> {
-    const limit = query.limit || 100;
-    
-    // Get all users sorted by eco points
-    const allUsers = await this.userRepository.findAll();
-    
-    // Sort by eco points descending
-    const sortedUsers = allUsers
-      .sort((a, b) => b.ecoPoints.value - a.ecoPoints.value)
-      .slice(0, limit);
+  async getPointsTransactions(query: PointsTransactionsQuery): Promise<EcoPointsLedgerSearchResult> {
+    const user = await this.getUserById(query.userId);
+    return await this.ledgerRepository.findByUserId(user.id, query.limit || 20, query.offset || 0, query.cursor);
+  }
+
+  async getLeaderboard(query: LeaderboardQuery): Promise<LeaderboardResult> {
+    const page = await this.userRepository.findLeaderboard(query.limit || 100, query.offset || 0, query.cursor);
 
     const leaderboard: LeaderboardEntry[] = [];
-    let rank = 1;
+    let rank = page.firstRank;
 
-    for (const user of sortedUsers) {
+    for (const user of page.users) {
       // Check privacy settings (for now, we'll assume all users are public)
       // In a real implementation, you'd check user privacy preferences
       const isPrivate = false;
@@ -290,7 +399,11 @@ export class PointsApplicationService implements IPointsApplicationService {
       rank++;
     }
 
-    return leaderboard;
+    return {
+      entries: leaderboard,
+      hasMore: page.hasMore,
+      nextCursor: page.nextCursor
+    };
   }
 
   async getAllBadges(): Promise<Badge[]> {
@@ -316,6 +429,28 @@ export class PointsApplicationService implements IPointsApplicationService {
     }
   }
 
+  private async reverseAward(awardKey: string): Promise<number> {
+    const award = await this.ledgerRepository.findByIdempotencyKey(awardKey);
+    if (!award || award.points <= 0) {
+      return 0;
+    }
+
+    // Replayed reversals report what was originally deducted
+    const reversalKey = `${awardKey}:reversed`;
+    const existing = await this.ledgerRepository.findByIdempotencyKey(reversalKey);
+    if (existing) {
+      return -existing.points;
+    }
+
+    const user = await this.getUserById(award.userId);
+    const deducted = user.deductPoints(award.points, `Reversed: ${award.reason}`, reversalKey);
+    if (deducted > 0) {
+      await this.userRepository.save(user);
+    }
+
+    return deducted;
+  }
+
   private getDefaultBadges() {
     return [
       // Milestone badges based on eco-points
@@ -456,6 +591,12 @@ export class PointsApplicationService implements IPointsApplicationService {
     ];
   }
 
+  private getStartOfToday(): Date {
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    return startOfToday;
+  }
+
   private async getUserById(userId: string): Promise<User> {
     const user = await this.userRepository.findById(new UserId(userId));
     if (!user) {
@@ -471,17 +612,12 @@ export class PointsApplicationService implements IPointsApplicationService {
     rating: number;
   }> {
     const user = await this.getUserById(userId);
-    
-    // For items posted, we would need to query the item repository
-    // For now, we'll estimate based on eco points (10 points per item)
-    const estimatedItemsPosted = Math.floor(
-      user.ecoPoints.transactions.filter(t => t.reason.includes('Posted item')).length
-    );
+    const itemsPosted = await this.itemRepository.countItemsByUser(user.id);
 
     return {
       ecoPoints: user.ecoPoints.value,
       totalExchanges: user.totalExchanges,
-      itemsPosted: estimatedItemsPosted,
+      itemsPosted,
       rating: user.rating
     };
   }
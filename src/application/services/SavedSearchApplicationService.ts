@@ -0,0 +1,148 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import {
+  SavedSearch,
+  SavedSearchCriteria,
+  SavedSearchAlertFrequency
+} from '../../domain/user/SavedSearch';
+import { SavedSearchId } from '../../domain/user/value-objects/SavedSearchId';
+import { UserId } from '../../domain/user/value-objects/UserId';
+import { LocationData } from '../../domain/user/value-objects/Location';
+import { ItemId } from '../../domain/item/value-objects/ItemId';
+import { ISavedSearchRepository } from '../../infrastructure/repositories/ISavedSearchRepository';
+import { IItemRepository } from '../../infrastructure/repositories/IItemRepository';
+import { IUserRepository } from '../../infrastructure/repositories/IUserRepository';
+import { IUnitOfWork } from '../../infrastructure/database/IUnitOfWork';
+
+export interface CreateSavedSearchCommand {
+  userId: string;
+  name: string;
+  criteria: SavedSearchCriteria;
+  location?: LocationData; // Defaults to the user's own location
+  alertFrequency?: SavedSearchAlertFrequency; // Defaults to immediate
+}
+
+export interface UpdateSavedSearchCommand {
+  userId: string; // Must own the saved search
+  savedSearchId: string;
+  name?: string;
+  criteria?: SavedSearchCriteria; // Filters given here replace the saved ones; others are kept
+  location?: LocationData;
+  alertFrequency?: SavedSearchAlertFrequency;
+}
+
+export interface ISavedSearchApplicationService {
+  createSavedSearch(command: CreateSavedSearchCommand): Promise<SavedSearch>;
+  getSavedSearches(userId: string): Promise<SavedSearch[]>;
+  getSavedSearch(userId: string, savedSearchId: string): Promise<SavedSearch>;
+  updateSavedSearch(command: UpdateSavedSearchCommand): Promise<SavedSearch>;
+  deleteSavedSearch(userId: string, savedSearchId: string): Promise<void>;
+  recordMatchesForItem(itemId: string): Promise<number>;
+}
+
+@injectable()
+export class SavedSearchApplicationService implements ISavedSearchApplicationService {
+  private static readonly MAX_SAVED_SEARCHES_PER_USER = 20;
+
+  constructor(
+    @inject(TYPES.ISavedSearchRepository)
+    private readonly savedSearchRepository: ISavedSearchRepository,
+    @inject(TYPES.IItemRepository)
+    private readonly itemRepository: IItemRepository,
+    @inject(TYPES.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(TYPES.IUnitOfWork)
+    private readonly unitOfWork: IUnitOfWork
+  ) {}
+
+  async createSavedSearch(command: CreateSavedSearchCommand): Promise<SavedSearch> {
+    const user = await this.userRepository.findById(new UserId(command.userId));
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const count = await this.savedSearchRepository.countByUserId(user.id);
+    if (count >= SavedSearchApplicationService.MAX_SAVED_SEARCHES_PER_USER) {
+      throw new Error(`You can have at most ${SavedSearchApplicationService.MAX_SAVED_SEARCHES_PER_USER} saved searches`);
+    }
+
+    const savedSearch = SavedSearch.create({
+      userId: user.id.value,
+      name: command.name,
+      criteria: command.criteria,
+      location: command.location || user.location.toData(),
+      alertFrequency: command.alertFrequency || 'immediate'
+    });
+
+    await this.savedSearchRepository.save(savedSearch);
+    return savedSearch;
+  }
+
+  async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return await this.savedSearchRepository.findByUserId(new UserId(userId));
+  }
+
+  async getSavedSearch(userId: string, savedSearchId: string): Promise<SavedSearch> {
+    return await this.getOwnedSavedSearch(userId, savedSearchId);
+  }
+
+  async updateSavedSearch(command: UpdateSavedSearchCommand): Promise<SavedSearch> {
+    const savedSearch = await this.getOwnedSavedSearch(command.userId, command.savedSearchId);
+
+    savedSearch.update({
+      name: command.name,
+      criteria: command.criteria ? { ...savedSearch.criteria, ...command.criteria } : undefined,
+      location: command.location,
+      alertFrequency: command.alertFrequency
+    });
+
+    await this.unitOfWork.execute(async () => {
+      // Matches collected while alerts were on shouldn't arrive once they're turned back on
+      if (savedSearch.alertFrequency === 'off') {
+        const pending = await this.savedSearchRepository.findPendingMatchItemIds(savedSearch.id);
+        await this.savedSearchRepository.markMatchesAlerted(savedSearch.id, pending);
+      }
+      await this.savedSearchRepository.save(savedSearch);
+    });
+
+    return savedSearch;
+  }
+
+  async deleteSavedSearch(userId: string, savedSearchId: string): Promise<void> {
+    const savedSearch = await this.getOwnedSavedSearch(userId, savedSearchId);
+    await this.savedSearchRepository.delete(savedSearch.id);
+  }
+
+  /**
+   * Queues a newly posted item for every saved search it matches. The
+   * alerts themselves go out in batches from the saved search alert job.
+   */
+  async recordMatchesForItem(itemId: string): Promise<number> {
+    const item = await this.itemRepository.findById(new ItemId(itemId));
+    if (!item || !item.isAvailableForExchange()) {
+      return 0;
+    }
+
+    const candidates = await this.savedSearchRepository.findAlertCandidatesForItem(item);
+    let matched = 0;
+
+    for (const savedSearch of candidates) {
+      if (savedSearch.matches(item) && await this.savedSearchRepository.addMatch(savedSearch.id, item.id)) {
+        matched++;
+      }
+    }
+
+    return matched;
+  }
+
+  private async getOwnedSavedSearch(userId: string, savedSearchId: string): Promise<SavedSearch> {
+    const savedSearch = await this.savedSearchRepository.findById(new SavedSearchId(savedSearchId));
+
+    // Someone else's saved search is reported as missing rather than forbidden
+    if (!savedSearch || !savedSearch.belongsToUser(new UserId(userId))) {
+      throw new Error('Saved search not found');
+    }
+
+    return savedSearch;
+  }
+}
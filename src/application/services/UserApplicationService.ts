@@ -1,10 +1,22 @@
 import { injectable, inject } from 'inversify';
+import { randomUUID } from 'crypto';
 import { TYPES } from '@/container/types';
+import { AppConfig, EmailVerificationConfig, PasswordResetConfig } from '@/config/AppConfig';
 import { User, CreateUserData, UserProfile } from '../../domain/user/User';
+import { PasswordResetRequested } from '../../domain/user/UserEvents';
+import { createDomainEvent } from '../../domain/events/DomainEvent';
 import { UserId } from '../../domain/user/value-objects/UserId';
 import { Email } from '../../domain/user/value-objects/Email';
 import { LocationData } from '../../domain/user/value-objects/Location';
-import { IUserRepository } from '../../infrastructure/repositories/IUserRepository';
+import { EmailVerificationToken } from '../../domain/user/value-objects/EmailVerificationToken';
+import { PasswordResetToken } from '../../domain/user/value-objects/PasswordResetToken';
+import { PasswordPolicy, WeakPasswordError } from '../../domain/user/value-objects/PasswordPolicy';
+import { IUserRepository, UserSearchResult } from '../../infrastructure/repositories/IUserRepository';
+import { IEmailVerificationTokenRepository } from '../../infrastructure/repositories/IEmailVerificationTokenRepository';
+import { IPasswordResetTokenRepository } from '../../infrastructure/repositories/IPasswordResetTokenRepository';
+import { IUserRoleRepository } from '../../infrastructure/repositories/IUserRoleRepository';
+import { IDomainEventOutboxRepository } from '../../infrastructure/repositories/IDomainEventOutboxRepository';
+import { IUnitOfWork } from '../../infrastructure/database/IUnitOfWork';
 import { IAuthenticationService } from '../../infrastructure/services/IAuthenticationService';
 import { INotificationService } from '../../infrastructure/services/INotificationService';
 
@@ -34,17 +46,80 @@ export interface VerifyUserCommand {
   verificationToken: string;
 }
 
+export interface ResetPasswordCommand {
+  resetToken: string;
+  newPassword: string;
+}
+
+export interface ChangePasswordCommand {
+  userId: string;
+  currentPassword: string;
+  newPassword: string;
+}
+
 export interface RateUserCommand {
   userId: string;
   rating: number;
   reviewerId: string;
 }
 
+export interface SearchUsersQuery {
+  searchTerm: string;
+  limit?: number;
+  offset?: number;
+  cursor?: string; // From the previous page; takes precedence over offset
+}
+
 export interface UserRegistrationResult {
   userId: string;
   verificationEmailSent: boolean;
 }
 
+/**
+ * Thrown for a verification link that is unknown, expired, already used or
+ * replaced by a newer one. Carries a status code so controllers answer with
+ * a client error.
+ */
+export class InvalidVerificationTokenError extends Error {
+  readonly statusCode = 400;
+  readonly code = 'INVALID_VERIFICATION_TOKEN';
+
+  constructor(message: string = 'Verification link is invalid') {
+    super(message);
+    this.name = 'InvalidVerificationTokenError';
+  }
+}
+
+export class VerificationEmailRateLimitError extends Error {
+  readonly statusCode = 429;
+  readonly code = 'VERIFICATION_EMAIL_RATE_LIMITED';
+
+  constructor(readonly retryAfterSeconds: number) {
+    super(`Please wait ${retryAfterSeconds} seconds before requesting another verification email`);
+    this.name = 'VerificationEmailRateLimitError';
+  }
+}
+
+export class InvalidPasswordResetTokenError extends Error {
+  readonly statusCode = 400;
+  readonly code = 'INVALID_RESET_TOKEN';
+
+  constructor(message: string = 'Password reset link is invalid') {
+    super(message);
+    this.name = 'InvalidPasswordResetTokenError';
+  }
+}
+
+export class IncorrectPasswordError extends Error {
+  readonly statusCode = 400;
+  readonly code = 'INCORRECT_PASSWORD';
+
+  constructor() {
+    super('Current password is incorrect');
+    this.name = 'IncorrectPasswordError';
+  }
+}
+
 export interface IUserApplicationService {
   registerUser(command: RegisterUserCommand): Promise<UserRegistrationResult>;
   updateUserProfile(command: UpdateProfileCommand): Promise<void>;
@@ -52,23 +127,49 @@ export interface IUserApplicationService {
   getUserProfile(userId: string): Promise<User>;
   getUserByEmail(email: string): Promise<User | null>;
   getPasswordHashByEmail(email: string): Promise<string | null>;
+  getUserRoles(userId: string): Promise<string[]>;
+  isAccountBanned(userId: string): Promise<boolean>;
   verifyUser(command: VerifyUserCommand): Promise<void>;
   rateUser(command: RateUserCommand): Promise<void>;
   resendVerificationEmail(userId: string): Promise<void>;
+  requestPasswordReset(email: string): Promise<void>;
+  sendPasswordReset(email: string): Promise<void>;
+  resetPassword(command: ResetPasswordCommand): Promise<void>;
+  changePassword(command: ChangePasswordCommand): Promise<void>;
   getUsersByLocation(location: LocationData, radiusKm: number): Promise<User[]>;
-  searchUsers(searchTerm: string, limit?: number): Promise<User[]>;
+  searchUsers(query: SearchUsersQuery): Promise<UserSearchResult>;
 }
 
 @injectable()
 export class UserApplicationService implements IUserApplicationService {
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  private readonly verificationConfig: EmailVerificationConfig;
+  private readonly passwordResetConfig: PasswordResetConfig;
+
   constructor(
     @inject(TYPES.IUserRepository)
     private readonly userRepository: IUserRepository,
+    @inject(TYPES.IEmailVerificationTokenRepository)
+    private readonly verificationTokenRepository: IEmailVerificationTokenRepository,
+    @inject(TYPES.IPasswordResetTokenRepository)
+    private readonly passwordResetTokenRepository: IPasswordResetTokenRepository,
+    @inject(TYPES.IUserRoleRepository)
+    private readonly userRoleRepository: IUserRoleRepository,
     @inject(TYPES.IAuthenticationService)
     private readonly authService: IAuthenticationService,
     @inject(TYPES.INotificationService)
-    private readonly notificationService: INotificationService
-  ) {}
+    private readonly notificationService: INotificationService,
+    @inject(TYPES.IUnitOfWork)
+    private readonly unitOfWork: IUnitOfWork,
+    @inject(TYPES.IDomainEventOutboxRepository)
+    private readonly outboxRepository: IDomainEventOutboxRepository,
+    @inject(TYPES.AppConfig)
+    config: AppConfig
+  ) {
+    this.verificationConfig = config.emailVerification;
+    this.passwordResetConfig = config.passwordReset;
+  }
 
   async registerUser(command: RegisterUserCommand): Promise<UserRegistrationResult> {
     // Check if user already exists
@@ -77,6 +178,8 @@ export class UserApplicationService implements IUserApplicationService {
       throw new Error('User with this email already exists');
     }
 
+    PasswordPolicy.assertStrong(command.password, command.email);
+
     // Hash the password
     const passwordHash = await this.authService.hashPassword(command.password);
 
@@ -139,37 +242,34 @@ export class UserApplicationService implements IUserApplicationService {
   }
 
   async verifyUser(command: VerifyUserCommand): Promise<void> {
-    // In a real implementation, you would validate the verification token
-    // For now, we'll assume the token is valid if provided
     if (!command.verificationToken) {
-      throw new Error('Verification token is required');
+      throw new InvalidVerificationTokenError('Verification token is required');
     }
 
-    const user = await this.getUserById(command.userId);
-    
-    if (user.profile.isVerified) {
-      throw new Error('User is already verified');
+    const token = await this.verificationTokenRepository.findByTokenHash(
+      EmailVerificationToken.hash(command.verificationToken)
+    );
+    if (!token || token.userId !== command.userId) {
+      throw new InvalidVerificationTokenError();
+    }
+    if (token.isExpired()) {
+      throw new InvalidVerificationTokenError('Verification link has expired, please request a new one');
+    }
+    if (!token.isUsable()) {
+      throw new InvalidVerificationTokenError('Verification link has already been used or replaced by a newer one');
     }
 
-    const updatedProfile: UserProfile = {
-      ...user.profile,
-      isVerified: true
-    };
+    const user = await this.getUserById(command.userId);
 
-    user.updateProfile(updatedProfile);
-    
-    // Award points for verification
-    user.awardPoints(50, 'Account verification');
-    
-    await this.userRepository.save(user);
+    await this.unitOfWork.execute(async () => {
+      if (!await this.verificationTokenRepository.markUsed(token)) {
+        throw new InvalidVerificationTokenError('Verification link has already been used or replaced by a newer one');
+      }
 
-    // Send welcome email
-    try {
-      await this.sendWelcomeEmail(user);
-    } catch (error) {
-      console.error('Failed to send welcome email:', error);
-      // Don't fail verification if email fails
-    }
+      // Verification points and the welcome email follow from the UserVerified event
+      user.verify();
+      await this.userRepository.save(user);
+    });
   }
 
   async rateUser(command: RateUserCommand): Promise<void> {
@@ -216,16 +316,138 @@ export class UserApplicationService implements IUserApplicationService {
       throw new Error('User is already verified');
     }
 
+    // Per account rather than per IP, since the route's limiter doesn't count successful requests
+    const retryAfterSeconds = await this.getResendRetryAfterSeconds(user.id);
+    if (retryAfterSeconds > 0) {
+      throw new VerificationEmailRateLimitError(retryAfterSeconds);
+    }
+
     await this.sendVerificationEmail(user);
   }
 
+  async requestPasswordReset(email: string): Promise<void> {
+    let address: Email;
+    try {
+      address = new Email(email);
+    } catch (error) {
+      return;
+    }
+
+    // Callers always get the same answer, and every address costs the same
+    // single insert, so neither the answer nor how long it takes reveals
+    // whether the address has an account. sendPasswordReset does the rest
+    // from the outbox. The request has no aggregate of its own, hence the
+    // fresh id.
+    const requested: PasswordResetRequested = createDomainEvent(
+      'PasswordResetRequested',
+      'PasswordResetRequest',
+      randomUUID(),
+      { email: address.value }
+    );
+    await this.outboxRepository.append([requested]);
+  }
+
+  async sendPasswordReset(email: string): Promise<void> {
+    const user = await this.userRepository.findByEmail(new Email(email));
+    if (!user) {
+      return;
+    }
+
+    // Accounts that only sign in through Auth0 have no local password
+    if (!await this.userRepository.getPasswordHashByEmail(user.email)) {
+      return;
+    }
+
+    const latest = await this.passwordResetTokenRepository.findLatestByUserId(user.id);
+    if (latest && Date.now() - latest.createdAt.getTime() < this.passwordResetConfig.requestCooldownSeconds * 1000) {
+      return;
+    }
+
+    const { token, secret } = PasswordResetToken.issue(user.id.value, this.passwordResetConfig.tokenTtlMinutes);
+    await this.passwordResetTokenRepository.issue(token);
+
+    const resetUrl = `${process.env.FRONTEND_URL}/reset-password?token=${secret}`;
+    const subject = 'Reset your Re:UseNet password';
+    const body = `
+      <h2>Hi ${user.profile.displayName},</h2>
+      <p>Someone asked to reset the password for your Re:UseNet account. If it was you, choose a new password here:</p>
+      <p><a href="${resetUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Reset Password</a></p>
+      <p>If the button doesn't work, you can copy and paste this link into your browser:</p>
+      <p>${resetUrl}</p>
+      <p>This link will expire in ${this.passwordResetConfig.tokenTtlMinutes} minutes and only works once.</p>
+      <p>If you didn't ask for this, you can ignore this email - your password won't change.</p>
+      <p>The Re:UseNet Team</p>
+    `;
+
+    // Throwing rolls back the token with the outbox delivery, so the retry
+    // isn't held back by the cooldown
+    const result = await this.notificationService.sendEmail(user.email.value, subject, body, true);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to send password reset email');
+    }
+  }
+
+  async resetPassword(command: ResetPasswordCommand): Promise<void> {
+    const token = command.resetToken
+      ? await this.passwordResetTokenRepository.findByTokenHash(PasswordResetToken.hash(command.resetToken))
+      : null;
+    if (!token) {
+      throw new InvalidPasswordResetTokenError();
+    }
+    if (token.isExpired()) {
+      throw new InvalidPasswordResetTokenError('Password reset link has expired, please request a new one');
+    }
+    if (!token.isUsable()) {
+      throw new InvalidPasswordResetTokenError('Password reset link has already been used or replaced by a newer one');
+    }
+
+    const user = await this.getUserById(token.userId);
+    PasswordPolicy.assertStrong(command.newPassword, user.email.value);
+    const passwordHash = await this.authService.hashPassword(command.newPassword);
+
+    await this.unitOfWork.execute(async () => {
+      if (!await this.passwordResetTokenRepository.markUsed(token)) {
+        throw new InvalidPasswordResetTokenError('Password reset link has already been used or replaced by a newer one');
+      }
+      await this.userRepository.save(user, passwordHash);
+    });
+
+    // Whoever had the old password may still be signed in
+    await this.authService.revokeAllTokens(user.id.value);
+    await this.sendPasswordChangedEmail(user);
+  }
+
+  async changePassword(command: ChangePasswordCommand): Promise<void> {
+    const user = await this.getUserById(command.userId);
+
+    const currentHash = await this.userRepository.getPasswordHashByEmail(user.email);
+    if (!currentHash) {
+      throw new Error('This account signs in through Auth0 and has no password to change');
+    }
+    if (!await this.authService.verifyPassword(command.currentPassword, currentHash)) {
+      throw new IncorrectPasswordError();
+    }
+    if (command.newPassword === command.currentPassword) {
+      throw new WeakPasswordError(['must be different from your current password']);
+    }
+
+    PasswordPolicy.assertStrong(command.newPassword, user.email.value);
+    await this.userRepository.save(user, await this.authService.hashPassword(command.newPassword));
+    await this.sendPasswordChangedEmail(user);
+  }
+
   async getUsersByLocation(location: LocationData, radiusKm: number): Promise<User[]> {
     const locationObj = new (await import('../../domain/user/value-objects/Location')).Location(location);
     return await this.userRepository.findByLocation(locationObj, radiusKm);
   }
 
-  async searchUsers(searchTerm: string, limit?: number): Promise<User[]> {
-    return await this.userRepository.searchByDisplayName(searchTerm, limit);
+  async searchUsers(query: SearchUsersQuery): Promise<UserSearchResult> {
+    return await this.userRepository.searchByDisplayName(
+      query.searchTerm,
+      query.limit || 10,
+      query.offset || 0,
+      query.cursor
+    );
   }
 
   async getUserByEmail(email: string): Promise<User | null> {
@@ -236,6 +458,16 @@ export class UserApplicationService implements IUserApplicationService {
     return await this.userRepository.getPasswordHashByEmail(new Email(email));
   }
 
+  async getUserRoles(userId: string): Promise<string[]> {
+    const roles = await this.userRoleRepository.findByUserId(new UserId(userId));
+    return roles.map(role => role.value);
+  }
+
+  async isAccountBanned(userId: string): Promise<boolean> {
+    const user = await this.userRepository.findById(new UserId(userId));
+    return user?.isBanned() ?? false;
+  }
+
   private async getUserById(userId: string): Promise<User> {
     const user = await this.userRepository.findById(new UserId(userId));
     if (!user) {
@@ -244,10 +476,51 @@ export class UserApplicationService implements IUserApplicationService {
     return user;
   }
 
+  private async sendPasswordChangedEmail(user: User): Promise<void> {
+    const subject = 'Your Re:UseNet password was changed';
+    const body = `
+      <h2>Hi ${user.profile.displayName},</h2>
+      <p>The password for your Re:UseNet account was just changed.</p>
+      <p>If this wasn't you, reset your password right away from the login page and contact support.</p>
+      <p>The Re:UseNet Team</p>
+    `;
+
+    // The change itself already succeeded, so a failed email must not fail it
+    try {
+      const result = await this.notificationService.sendEmail(user.email.value, subject, body, true);
+      if (!result.success) {
+        console.error('Failed to send password changed email:', result.error);
+      }
+    } catch (error) {
+      console.error('Failed to send password changed email:', error);
+    }
+  }
+
+  private async getResendRetryAfterSeconds(userId: UserId): Promise<number> {
+    const now = Date.now();
+    const issuedToday = await this.verificationTokenRepository.findIssuedSince(
+      userId,
+      new Date(now - UserApplicationService.DAY_MS)
+    );
+    if (issuedToday.length === 0) {
+      return 0;
+    }
+
+    // Newest first, so the first token decides the cooldown and the oldest the daily cap
+    const cooldownEndsAt = issuedToday[0].createdAt.getTime() + this.verificationConfig.resendCooldownSeconds * 1000;
+    const dailyCapEndsAt = issuedToday.length >= this.verificationConfig.maxEmailsPerDay
+      ? issuedToday[issuedToday.length - 1].createdAt.getTime() + UserApplicationService.DAY_MS
+      : 0;
+
+    return Math.max(0, Math.ceil((Math.max(cooldownEndsAt, dailyCapEndsAt) - now) / 1000));
+  }
+
   private async sendVerificationEmail(user: User): Promise<void> {
-    // Generate verification token (in real implementation, this would be a secure token)
-    const verificationToken = this.generateVerificationToken(user.id.value);
-    const verificationUrl = `${process.env.FRONTEND_URL}/verify-email?token=${verificationToken}&userId=${user.id.value}`;
+    // Issuing a token revokes the user's earlier ones, so only the newest link works
+    const { token, secret } = EmailVerificationToken.issue(user.id.value, this.verificationConfig.tokenTtlHours);
+    await this.verificationTokenRepository.issue(token);
+
+    const verificationUrl = `${process.env.FRONTEND_URL}/verify-email?token=${secret}&userId=${user.id.value}`;
 
     const subject = 'Welcome to Re:UseNet - Please verify your email';
     const body = `
@@ -257,42 +530,11 @@ export class UserApplicationService implements IUserApplicationService {
       <p><a href="${verificationUrl}" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Verify Email Address</a></p>
       <p>If the button doesn't work, you can copy and paste this link into your browser:</p>
       <p>${verificationUrl}</p>
-      <p>This link will expire in 24 hours.</p>
+      <p>This link will expire in ${this.verificationConfig.tokenTtlHours} hours and only works once. Requesting another email replaces it.</p>
       <p>If you didn't create an account with Re:UseNet, please ignore this email.</p>
       <p>Happy reusing!<br>The Re:UseNet Team</p>
     `;
 
     await this.notificationService.sendEmail(user.email.value, subject, body, true);
   }
-
-  private async sendWelcomeEmail(user: User): Promise<void> {
-    const subject = 'Welcome to Re:UseNet - Your account is verified!';
-    const body = `
-      <h2>Congratulations, ${user.profile.displayName}!</h2>
-      <p>Your Re:UseNet account has been successfully verified.</p>
-      <p>You've earned <strong>50 Eco-Points</strong> for verifying your account!</p>
-      <p>You can now:</p>
-      <ul>
-        <li>Post items you no longer need</li>
-        <li>Search for items you want</li>
-        <li>Connect with your local community</li>
-        <li>Earn Eco-Points for every exchange</li>
-      </ul>
-      <p><a href="${process.env.FRONTEND_URL}/dashboard" style="background-color: #4CAF50; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Start Exploring</a></p>
-      <p>Happy reusing!<br>The Re:UseNet Team</p>
-    `;
-
-    await this.notificationService.sendEmail(user.email.value, subject, body, true);
-  }
-
-  private generateVerificationToken(userId: string): string {
-    // In a real implementation, this would generate a secure, time-limited token
-    // For now, we'll use a simple base64 encoded string with timestamp
-    const payload = {
-      userId,
-      timestamp: Date.now(),
-      type: 'email_verification'
-    };
-    return Buffer.from(JSON.stringify(payload)).toString('base64');
-  }
 }
@@ -0,0 +1,218 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { WantedPost } from '../../domain/wanted/WantedPost';
+import { WantedPostId } from '../../domain/wanted/value-objects/WantedPostId';
+import { UserId } from '../../domain/user/value-objects/UserId';
+import { Location, LocationData } from '../../domain/user/value-objects/Location';
+import { ItemId } from '../../domain/item/value-objects/ItemId';
+import { ExchangeId } from '../../domain/exchange/value-objects/ExchangeId';
+import {
+  IWantedPostRepository,
+  WantedPostSearchCriteria,
+  WantedPostSearchResult
+} from '../../infrastructure/repositories/IWantedPostRepository';
+import { IItemRepository } from '../../infrastructure/repositories/IItemRepository';
+import { IUserRepository } from '../../infrastructure/repositories/IUserRepository';
+import { IUnitOfWork } from '../../infrastructure/database/IUnitOfWork';
+import { IExchangeApplicationService } from './ExchangeApplicationService';
+
+export interface CreateWantedPostCommand {
+  userId: string;
+  title: string;
+  description?: string;
+  category: string;
+  tags?: string[];
+  location?: LocationData; // Defaults to the user's own location
+  radiusKm?: number; // Defaults to 10 km
+}
+
+export interface UpdateWantedPostCommand {
+  userId: string; // Must own the wanted post
+  wantedPostId: string;
+  title?: string;
+  description?: string;
+  category?: string;
+  tags?: string[];
+  location?: LocationData;
+  radiusKm?: number;
+}
+
+export interface SearchWantedPostsQuery {
+  category?: string;
+  tags?: string[];
+  location?: LocationData; // Only posts whose radius reaches this location
+  limit?: number;
+  offset?: number;
+  cursor?: string; // From the previous page; takes precedence over offset
+}
+
+export interface RespondToWantedPostCommand {
+  wantedPostId: string;
+  responderId: string; // Must own the item
+  itemId: string;
+  message?: string;
+}
+
+export interface WantedPostResponseResult {
+  exchangeId: string;
+}
+
+export interface IWantedPostApplicationService {
+  createWantedPost(command: CreateWantedPostCommand): Promise<WantedPost>;
+  getWantedPost(wantedPostId: string): Promise<WantedPost>;
+  searchWantedPosts(query: SearchWantedPostsQuery): Promise<WantedPostSearchResult>;
+  getUserWantedPosts(userId: string): Promise<WantedPost[]>;
+  updateWantedPost(command: UpdateWantedPostCommand): Promise<WantedPost>;
+  closeWantedPost(userId: string, wantedPostId: string): Promise<WantedPost>;
+  respondToWantedPost(command: RespondToWantedPostCommand): Promise<WantedPostResponseResult>;
+  fulfilFromExchange(exchangeId: string): Promise<boolean>;
+}
+
+@injectable()
+export class WantedPostApplicationService implements IWantedPostApplicationService {
+  private static readonly MAX_OPEN_POSTS_PER_USER = 10;
+  private static readonly DEFAULT_RADIUS_KM = 10;
+
+  constructor(
+    @inject(TYPES.IWantedPostRepository)
+    private readonly wantedPostRepository: IWantedPostRepository,
+    @inject(TYPES.IItemRepository)
+    private readonly itemRepository: IItemRepository,
+    @inject(TYPES.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(TYPES.IExchangeApplicationService)
+    private readonly exchangeService: IExchangeApplicationService,
+    @inject(TYPES.IUnitOfWork)
+    private readonly unitOfWork: IUnitOfWork
+  ) {}
+
+  async createWantedPost(command: CreateWantedPostCommand): Promise<WantedPost> {
+    const user = await this.userRepository.findById(new UserId(command.userId));
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const openCount = await this.wantedPostRepository.countOpenByUserId(user.id);
+    if (openCount >= WantedPostApplicationService.MAX_OPEN_POSTS_PER_USER) {
+      throw new Error(`You can have at most ${WantedPostApplicationService.MAX_OPEN_POSTS_PER_USER} open wanted posts`);
+    }
+
+    const wantedPost = WantedPost.create({
+      userId: user.id.value,
+      title: command.title,
+      description: command.description,
+      category: command.category,
+      tags: command.tags,
+      location: command.location || user.location.toData(),
+      radiusKm: command.radiusKm ?? WantedPostApplicationService.DEFAULT_RADIUS_KM
+    });
+
+    await this.wantedPostRepository.save(wantedPost);
+    return wantedPost;
+  }
+
+  async getWantedPost(wantedPostId: string): Promise<WantedPost> {
+    const wantedPost = await this.wantedPostRepository.findById(new WantedPostId(wantedPostId));
+    if (!wantedPost) {
+      throw new Error('Wanted post not found');
+    }
+    return wantedPost;
+  }
+
+  async searchWantedPosts(query: SearchWantedPostsQuery): Promise<WantedPostSearchResult> {
+    const criteria: WantedPostSearchCriteria = {
+      category: query.category,
+      tags: query.tags,
+      status: 'open',
+      reachableFrom: query.location ? new Location(query.location) : undefined
+    };
+
+    return await this.wantedPostRepository.search(criteria, query.limit || 20, query.offset || 0, query.cursor);
+  }
+
+  async getUserWantedPosts(userId: string): Promise<WantedPost[]> {
+    return await this.wantedPostRepository.findByUserId(new UserId(userId));
+  }
+
+  async updateWantedPost(command: UpdateWantedPostCommand): Promise<WantedPost> {
+    const wantedPost = await this.getOwnedWantedPost(command.userId, command.wantedPostId);
+
+    wantedPost.update({
+      title: command.title,
+      description: command.description,
+      category: command.category,
+      tags: command.tags,
+      location: command.location,
+      radiusKm: command.radiusKm
+    });
+
+    await this.wantedPostRepository.save(wantedPost);
+    return wantedPost;
+  }
+
+  async closeWantedPost(userId: string, wantedPostId: string): Promise<WantedPost> {
+    const wantedPost = await this.getOwnedWantedPost(userId, wantedPostId);
+
+    wantedPost.close();
+
+    await this.wantedPostRepository.save(wantedPost);
+    return wantedPost;
+  }
+
+  /**
+   * Offers one of the responder's items to the poster. This opens a regular
+   * exchange with the poster as receiver, so it goes through the same checks
+   * and notifications as any other exchange.
+   */
+  async respondToWantedPost(command: RespondToWantedPostCommand): Promise<WantedPostResponseResult> {
+    const wantedPost = await this.getWantedPost(command.wantedPostId);
+    if (!wantedPost.isOpen()) {
+      throw new Error('This wanted post is no longer open');
+    }
+
+    const item = await this.itemRepository.findById(new ItemId(command.itemId));
+    if (!item) {
+      throw new Error('Item not found');
+    }
+    if (!item.belongsToUser(new UserId(command.responderId))) {
+      throw new Error('You can only offer your own items');
+    }
+
+    return await this.unitOfWork.execute(async () => {
+      const { exchangeId } = await this.exchangeService.initiateExchange({
+        itemId: item.id.value,
+        giverId: command.responderId,
+        receiverId: wantedPost.userId.value,
+        message: command.message
+      });
+
+      wantedPost.recordResponse(item, new ExchangeId(exchangeId));
+      await this.wantedPostRepository.save(wantedPost);
+
+      return { exchangeId };
+    });
+  }
+
+  /**
+   * Marks the post fulfilled when an exchange opened from one of its
+   * responses completes. Returns false if the exchange wasn't one of them.
+   */
+  async fulfilFromExchange(exchangeId: string): Promise<boolean> {
+    const id = new ExchangeId(exchangeId);
+    const wantedPost = await this.wantedPostRepository.findByResponseExchangeId(id);
+    if (!wantedPost || !wantedPost.fulfil(id)) {
+      return false;
+    }
+
+    await this.wantedPostRepository.save(wantedPost);
+    return true;
+  }
+
+  private async getOwnedWantedPost(userId: string, wantedPostId: string): Promise<WantedPost> {
+    const wantedPost = await this.getWantedPost(wantedPostId);
+    if (!wantedPost.belongsToUser(new UserId(userId))) {
+      throw new Error('Only the poster can change this wanted post');
+    }
+    return wantedPost;
+  }
+}
@@ -0,0 +1,240 @@
+import 'reflect-metadata';
+import { randomUUID } from 'crypto';
+import { AdminApplicationService } from '../AdminApplicationService';
+import { IUnitOfWork } from '../../../infrastructure/database/IUnitOfWork';
+import { IExchangeRepository } from '../../../infrastructure/repositories/IExchangeRepository';
+import { IItemRepository } from '../../../infrastructure/repositories/IItemRepository';
+import { IUserRepository } from '../../../infrastructure/repositories/IUserRepository';
+import { IUserRoleRepository } from '../../../infrastructure/repositories/IUserRoleRepository';
+import { IAuthenticationService } from '../../../infrastructure/services/IAuthenticationService';
+import { Exchange } from '../../../domain/exchange/Exchange';
+import { ExchangeStatusValue } from '../../../domain/exchange/value-objects/ExchangeStatus';
+import { Item } from '../../../domain/item/Item';
+import { User } from '../../../domain/user/User';
+import { buildUser } from '../../../domain/user/__fixtures__/buildUser';
+import { UserId } from '../../../domain/user/value-objects/UserId';
+import { UserRole } from '../../../domain/user/value-objects/UserRole';
+
+const location = { latitude: 40.7128, longitude: -74.006, address: 'New York, NY' };
+
+const buildExchange = (item: Item, receiver: User, status: ExchangeStatusValue): Exchange =>
+  Exchange.fromData({
+    id: randomUUID(),
+    itemId: item.id.value,
+    giverId: item.userId.value,
+    receiverId: receiver.id.value,
+    status,
+    ecoPointsAwarded: 0,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+// Keeps roles the way the PostgreSQL repository does
+class InMemoryUserRoleRepository implements IUserRoleRepository {
+  roles = new Map<string, Set<string>>();
+
+  async findByUserId(userId: UserId): Promise<UserRole[]> {
+    return [...(this.roles.get(userId.value) || [])].map(role => new UserRole(role as 'admin'));
+  }
+
+  async findByUserIds(userIds: UserId[]): Promise<Map<string, UserRole[]>> {
+    const result = new Map<string, UserRole[]>();
+    for (const userId of userIds) {
+      const roles = await this.findByUserId(userId);
+      if (roles.length > 0) result.set(userId.value, roles);
+    }
+    return result;
+  }
+
+  async grant(userId: UserId, role: UserRole): Promise<void> {
+    this.roles.set(userId.value, new Set([...(this.roles.get(userId.value) || []), role.value]));
+  }
+
+  async revoke(userId: UserId, role: UserRole): Promise<boolean> {
+    return this.roles.get(userId.value)?.delete(role.value) ?? false;
+  }
+
+  async countUsersWithRole(role: UserRole): Promise<number> {
+    return [...this.roles.values()].filter(roles => roles.has(role.value)).length;
+  }
+}
+
+describe('AdminApplicationService', () => {
+  let admin: User;
+  let owner: User;
+  let receiver: User;
+  let item: Item;
+  let exchanges: Exchange[];
+  let roleRepository: InMemoryUserRoleRepository;
+  let userRepository: Record<'findById' | 'save', jest.Mock>;
+  let itemRepository: Record<'findByIdForUpdate' | 'save', jest.Mock>;
+  let exchangeRepository: Record<'findById' | 'findByItemId' | 'save', jest.Mock>;
+  let authService: Record<'revokeAllTokens', jest.Mock>;
+  let service: AdminApplicationService;
+
+  beforeEach(() => {
+    admin = buildUser('Admin');
+    owner = buildUser('Owner');
+    receiver = buildUser('Receiver');
+    item = Item.fromData({
+      id: randomUUID(),
+      userId: owner.id.value,
+      details: {
+        title: 'Folding chairs',
+        description: 'Four metal folding chairs',
+        category: 'furniture',
+        tags: [],
+        images: ['https://example.com/chairs.jpg'],
+        condition: 'good'
+      },
+      status: 'available',
+      location,
+      quantity: 4,
+      isLot: true,
+      quantityClaimed: 2,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+    exchanges = [
+      buildExchange(item, receiver, 'requested'),
+      buildExchange(item, buildUser('Other'), 'accepted'),
+      buildExchange(item, buildUser('Earlier'), 'completed')
+    ];
+
+    const users = new Map([admin, owner, receiver].map(user => [user.id.value, user]));
+    roleRepository = new InMemoryUserRoleRepository();
+    userRepository = {
+      findById: jest.fn(async (id) => users.get(id.value) ?? null),
+      save: jest.fn(async () => undefined)
+    };
+    itemRepository = {
+      findByIdForUpdate: jest.fn(async () => item),
+      save: jest.fn(async () => undefined)
+    };
+    exchangeRepository = {
+      findById: jest.fn(async (id) => exchanges.find(exchange => exchange.id.equals(id)) ?? null),
+      findByItemId: jest.fn(async () => exchanges),
+      save: jest.fn(async () => undefined)
+    };
+    authService = { revokeAllTokens: jest.fn(async () => undefined) };
+    const unitOfWork: IUnitOfWork = { execute: work => work() };
+
+    service = new AdminApplicationService(
+      userRepository as unknown as IUserRepository,
+      roleRepository,
+      itemRepository as unknown as IItemRepository,
+      exchangeRepository as unknown as IExchangeRepository,
+      authService as unknown as IAuthenticationService,
+      unitOfWork
+    );
+  });
+
+  it('suspends a user until a date without signing them out', async () => {
+    const until = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+    await service.suspendUser({ userId: owner.id.value, adminId: admin.id.value, reason: 'Repeated no-shows', until });
+
+    expect(owner.isSuspended()).toBe(true);
+    expect(owner.accountStatus.toData()).toMatchObject({
+      value: 'suspended',
+      reason: 'Repeated no-shows',
+      suspendedUntil: until,
+      changedBy: admin.id.value
+    });
+    expect(owner.domainEvents.at(-1)).toMatchObject({
+      eventType: 'UserSuspended',
+      payload: { suspendedUntil: until.toISOString(), suspendedBy: admin.id.value }
+    });
+    expect(authService.revokeAllTokens).not.toHaveBeenCalled();
+    expect(receiver.canExchangeWith(owner)).toBe(false);
+    expect(() => owner.assertInGoodStanding()).toThrow(`This account is suspended until ${until.toISOString()}`);
+
+    await service.reinstateUser({ userId: owner.id.value, adminId: admin.id.value, reason: 'Appeal upheld' });
+    expect(receiver.canExchangeWith(owner)).toBe(true);
+    expect(owner.toData().pendingStatusChanges!.map(change => change.status)).toEqual(['suspended', 'active']);
+
+    await expect(service.suspendUser({ userId: admin.id.value, adminId: admin.id.value, reason: 'Testing', until }))
+      .rejects.toThrow('You cannot change the status of your own account');
+    await expect(service.suspendUser({ userId: owner.id.value, adminId: admin.id.value, reason: 'Testing', until: new Date() }))
+      .rejects.toThrow('Suspension must end in the future');
+  });
+
+  it('bans a user, signs them out and records the change', async () => {
+    await service.banUser({ userId: owner.id.value, adminId: admin.id.value, reason: 'Selling stolen goods' });
+
+    expect(owner.isBanned()).toBe(true);
+    expect(authService.revokeAllTokens).toHaveBeenCalledWith(owner.id.value);
+    expect(owner.domainEvents.at(-1)).toMatchObject({
+      eventType: 'UserBanned',
+      payload: { reason: 'Selling stolen goods', bannedBy: admin.id.value }
+    });
+    expect(owner.toData().pendingStatusChanges).toEqual([
+      expect.objectContaining({ status: 'banned', reason: 'Selling stolen goods', changedBy: admin.id.value })
+    ]);
+
+    await expect(service.suspendUser({
+      userId: owner.id.value,
+      adminId: admin.id.value,
+      reason: 'Testing',
+      until: new Date(Date.now() + 60 * 60 * 1000)
+    })).rejects.toThrow('User is banned; reinstate them first');
+
+    await service.reinstateUser({ userId: owner.id.value, adminId: admin.id.value });
+    expect(owner.isBanned()).toBe(false);
+    await expect(service.reinstateUser({ userId: owner.id.value, adminId: admin.id.value }))
+      .rejects.toThrow('User is not suspended or banned');
+  });
+
+  it('removes an item after cancelling the exchanges still in progress', async () => {
+    const result = await service.removeItem({
+      itemId: item.id.value,
+      adminId: admin.id.value,
+      reason: 'Recalled product'
+    });
+
+    expect(result.cancelledExchanges).toBe(2);
+    expect(item.status.value).toBe('removed');
+    expect(item.quantityClaimed).toBe(0);
+    expect(exchanges.map(exchange => exchange.status.value)).toEqual(['cancelled', 'cancelled', 'completed']);
+    expect(exchanges[0].domainEvents.at(-1)).toMatchObject({
+      eventType: 'ExchangeCancelledByAdmin',
+      payload: { cancelledBy: admin.id.value, reason: 'Recalled product' }
+    });
+    expect(item.domainEvents.at(-1)).toMatchObject({
+      eventType: 'ItemRemovedByAdmin',
+      payload: { userId: owner.id.value, reason: 'Recalled product' }
+    });
+  });
+
+  it('cancels an exchange and puts its units back on the listing', async () => {
+    const exchange = await service.cancelExchange({
+      exchangeId: exchanges[0].id.value,
+      adminId: admin.id.value,
+      reason: 'Reported as a scam'
+    });
+
+    expect(exchange.status.value).toBe('cancelled');
+    expect(exchange.cancellationReason).toBe('Reported as a scam');
+    expect(item.quantityClaimed).toBe(1);
+
+    await expect(service.cancelExchange({
+      exchangeId: exchanges[2].id.value,
+      adminId: admin.id.value,
+      reason: 'Too late'
+    })).rejects.toThrow('Cannot cancel exchange in completed status');
+  });
+
+  it('keeps the last admin and signs out users who lose a role', async () => {
+    await roleRepository.grant(admin.id, new UserRole('admin'));
+
+    await expect(service.revokeRole({ userId: admin.id.value, adminId: admin.id.value, role: 'admin' }))
+      .rejects.toThrow('The last admin cannot lose the admin role');
+
+    await expect(service.grantRole({ userId: owner.id.value, adminId: admin.id.value, role: 'admin' }))
+      .resolves.toEqual(['admin']);
+    expect(authService.revokeAllTokens).not.toHaveBeenCalled();
+
+    await expect(service.revokeRole({ userId: owner.id.value, adminId: admin.id.value, role: 'admin' }))
+      .resolves.toEqual([]);
+    expect(authService.revokeAllTokens).toHaveBeenCalledWith(owner.id.value);
+  });
+});
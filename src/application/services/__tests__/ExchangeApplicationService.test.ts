@@ -0,0 +1,420 @@
+import 'reflect-metadata';
+import { AppConfig } from '../../../config/AppConfig';
+import { ExchangeApplicationService } from '../ExchangeApplicationService';
+import { IUnitOfWork } from '../../../infrastructure/database/IUnitOfWork';
+import { IExchangeRepository } from '../../../infrastructure/repositories/IExchangeRepository';
+import { IItemRepository } from '../../../infrastructure/repositories/IItemRepository';
+import { IUserRepository } from '../../../infrastructure/repositories/IUserRepository';
+import { IItemRequestRepository } from '../../../infrastructure/repositories/IItemRequestRepository';
+import { Exchange } from '../../../domain/exchange/Exchange';
+import { ItemRequest } from '../../../domain/exchange/ItemRequest';
+import { Item } from '../../../domain/item/Item';
+import { User } from '../../../domain/user/User';
+import { buildUser } from '../../../domain/user/__fixtures__/buildUser';
+import { UserId } from '../../../domain/user/value-objects/UserId';
+
+/**
+ * Holds writes made inside execute() until the work finishes, and drops them
+ * if it throws - the same outcome a database transaction gives.
+ */
+class StagingUnitOfWork implements IUnitOfWork {
+  readonly committed: string[] = [];
+  private staged: string[] | null = null;
+
+  record(write: string): void {
+    (this.staged ?? this.committed).push(write);
+  }
+
+  async execute<T>(work: () => Promise<T>): Promise<T> {
+    this.staged = [];
+    try {
+      const result = await work();
+      this.committed.push(...this.staged);
+      return result;
+    } finally {
+      this.staged = null;
+    }
+  }
+}
+
+const location = { latitude: 40.7128, longitude: -74.006, address: 'New York, NY' };
+
+const buildItem = (owner: User): Item =>
+  Item.create({
+    userId: owner.id.value,
+    details: {
+      title: 'Oak bookshelf',
+      description: 'Five shelves, solid oak',
+      category: 'furniture',
+      tags: [],
+      images: ['https://example.com/bookshelf.jpg'],
+      condition: 'good'
+    },
+    location
+  });
+
+describe('ExchangeApplicationService unit of work', () => {
+  let unitOfWork: StagingUnitOfWork;
+  let giver: User;
+  let receiver: User;
+  let item: Item;
+  let exchange: Exchange;
+  let failItemSave: boolean;
+  let handoffAttempts: number;
+  let exchangeRepository: Record<'save' | 'findById' | 'findExchangeForItem' | 'claimHandoffAttempt', jest.Mock>;
+  let itemRepository: Record<'save' | 'findById' | 'findByIdForUpdate', jest.Mock>;
+  let userRepository: Record<'findById' | 'findByIds', jest.Mock>;
+  let itemRequestRepository: Record<'findById' | 'findByItemId' | 'findPendingRequest' | 'save' | 'saveMany', jest.Mock>;
+  let service: ExchangeApplicationService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    unitOfWork = new StagingUnitOfWork();
+    giver = buildUser('Giver');
+    receiver = buildUser('Receiver');
+    item = buildItem(giver);
+    exchange = Exchange.create({ itemId: item.id.value, giverId: giver.id.value, receiverId: receiver.id.value });
+    failItemSave = false;
+    handoffAttempts = 0;
+
+    exchangeRepository = {
+      save: jest.fn(async () => unitOfWork.record('exchange')),
+      findById: jest.fn(async () => exchange),
+      findExchangeForItem: jest.fn(async () => null),
+      // Counts attempts the way the stored counter does, refusing them past the limit
+      claimHandoffAttempt: jest.fn(async (_claimed: Exchange, maxAttempts: number) =>
+        (handoffAttempts < maxAttempts ? ++handoffAttempts : null))
+    };
+    itemRepository = {
+      save: jest.fn(async () => {
+        if (failItemSave) {
+          throw new Error('connection reset');
+        }
+        unitOfWork.record('item');
+      }),
+      findById: jest.fn(async () => item),
+      findByIdForUpdate: jest.fn(async () => item)
+    };
+    userRepository = {
+      findById: jest.fn(async (id) => (id.equals(giver.id) ? giver : receiver)),
+      findByIds: jest.fn(async () => [])
+    };
+    itemRequestRepository = {
+      findById: jest.fn(async () => null),
+      findByItemId: jest.fn(async () => []),
+      findPendingRequest: jest.fn(async () => null),
+      save: jest.fn(async () => unitOfWork.record('itemRequest')),
+      saveMany: jest.fn(async () => unitOfWork.record('itemRequests'))
+    };
+
+    service = new ExchangeApplicationService(
+      exchangeRepository as unknown as IExchangeRepository,
+      itemRepository as unknown as IItemRepository,
+      userRepository as unknown as IUserRepository,
+      itemRequestRepository as unknown as IItemRequestRepository,
+      unitOfWork,
+      { handoff: { codeTtlHours: 24, maxCodeAttempts: 2, allowDualConfirmation: true, codeSecret: 'test-handoff-secret' } } as AppConfig
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('initiateExchange', () => {
+    it('does not keep the exchange when marking the item pending fails', async () => {
+      failItemSave = true;
+
+      await expect(
+        service.initiateExchange({ itemId: item.id.value, giverId: giver.id.value, receiverId: receiver.id.value })
+      ).rejects.toThrow('connection reset');
+
+      expect(exchangeRepository.save).toHaveBeenCalled();
+      expect(unitOfWork.committed).toEqual([]);
+    });
+
+    it('refuses a suspended giver until the suspension is lifted', async () => {
+      const adminId = UserId.generate();
+      giver.suspend('Spam listings', new Date(Date.now() + 24 * 60 * 60 * 1000), adminId);
+
+      await expect(
+        service.initiateExchange({ itemId: item.id.value, giverId: giver.id.value, receiverId: receiver.id.value })
+      ).rejects.toMatchObject({ statusCode: 403, code: 'ACCOUNT_SUSPENDED' });
+      expect(exchangeRepository.save).not.toHaveBeenCalled();
+
+      giver.reinstate(adminId);
+      await expect(
+        service.initiateExchange({ itemId: item.id.value, giverId: giver.id.value, receiverId: receiver.id.value })
+      ).resolves.toHaveProperty('exchangeId');
+    });
+  });
+
+  describe('completeExchange', () => {
+    beforeEach(() => {
+      exchange.accept();
+      exchange.confirmHandoffBy(giver.id);
+      item.markAsPending();
+    });
+
+    it('commits the completion and item status together', async () => {
+      const result = await service.completeExchange({ exchangeId: exchange.id.value, userId: receiver.id.value });
+
+      expect(result.completed).toBe(true);
+      expect(unitOfWork.committed).toEqual(['exchange', 'item']);
+      expect(exchange.domainEvents.map(event => event.eventType)).toContain('ExchangeCompleted');
+    });
+
+    it('discards the completion when the item save fails', async () => {
+      failItemSave = true;
+
+      await expect(
+        service.completeExchange({ exchangeId: exchange.id.value, userId: receiver.id.value })
+      ).rejects.toThrow('connection reset');
+
+      expect(exchangeRepository.save).toHaveBeenCalled();
+      expect(unitOfWork.committed).toEqual([]);
+    });
+  });
+
+  describe('confirmHandoffWithCode', () => {
+    beforeEach(() => {
+      exchange.accept();
+      item.markAsPending();
+    });
+
+    it('completes the exchange when the receiver enters the giver\'s code', async () => {
+      const { code } = await service.showHandoffCode({ exchangeId: exchange.id.value, userId: giver.id.value });
+
+      const result = await service.confirmHandoffWithCode({ exchangeId: exchange.id.value, userId: receiver.id.value, code });
+
+      expect(result.completed).toBe(true);
+      expect(exchange.status.isCompleted()).toBe(true);
+      expect(exchange.handoffCode).toBeUndefined();
+      expect(unitOfWork.committed).toEqual(['exchange', 'exchange', 'item']);
+    });
+
+    it('records wrong guesses and locks the code after the limit', async () => {
+      const { code } = await service.showHandoffCode({ exchangeId: exchange.id.value, userId: giver.id.value });
+      const wrongCode = code === '000000' ? '111111' : '000000';
+
+      await expect(
+        service.confirmHandoffWithCode({ exchangeId: exchange.id.value, userId: receiver.id.value, code: wrongCode })
+      ).rejects.toThrow('Incorrect handoff code, 1 attempt left');
+      await expect(
+        service.confirmHandoffWithCode({ exchangeId: exchange.id.value, userId: receiver.id.value, code: wrongCode })
+      ).rejects.toThrow('Too many attempts');
+      await expect(
+        service.confirmHandoffWithCode({ exchangeId: exchange.id.value, userId: receiver.id.value, code })
+      ).rejects.toThrow('Too many incorrect attempts');
+
+      expect(exchangeRepository.claimHandoffAttempt).toHaveBeenCalledTimes(3);
+      expect(exchange.status.isAccepted()).toBe(true);
+
+      // The giver's next visit loads the attempts counted against the code
+      const locked = exchange.toData();
+      exchange = Exchange.fromData({
+        ...locked,
+        handoffCode: locked.handoffCode && { ...locked.handoffCode, failedAttempts: handoffAttempts }
+      });
+
+      const fresh = await service.showHandoffCode({ exchangeId: exchange.id.value, userId: giver.id.value });
+      expect(fresh.code).toMatch(/^\d{6}$/);
+      expect(exchange.handoffCode?.seed).not.toBe(locked.handoffCode?.seed);
+      expect(exchange.handoffCode?.failedAttempts).toBe(0);
+    });
+
+    it('shows the same code until the giver asks for a new one, storing only its seed', async () => {
+      const first = await service.showHandoffCode({ exchangeId: exchange.id.value, userId: giver.id.value });
+      const saved: Exchange = exchangeRepository.save.mock.calls[0][0];
+
+      expect(first.code).toMatch(/^\d{6}$/);
+      expect(JSON.stringify(saved.toData())).not.toContain(first.code);
+      expect(saved.handoffCode?.seed).toMatch(/^[0-9a-f]{32}$/);
+      // Another server secret derives a different code from the same seed
+      expect(saved.handoffCode?.code('another-secret')).not.toBe(first.code);
+
+      const again = await service.showHandoffCode({ exchangeId: exchange.id.value, userId: giver.id.value });
+      expect(again.code).toBe(first.code);
+      expect(exchangeRepository.save).toHaveBeenCalledTimes(1);
+
+      const replaced = await service.showHandoffCode({
+        exchangeId: exchange.id.value,
+        userId: giver.id.value,
+        regenerate: true
+      });
+      expect(exchangeRepository.save).toHaveBeenCalledTimes(2);
+      expect(exchange.handoffCode?.matches(replaced.code, 'test-handoff-secret')).toBe(true);
+      expect(replaced.qrPayload).toContain(`code=${replaced.code}`);
+    });
+
+    it('checks the limit against the attempts counted in the database', async () => {
+      const { code } = await service.showHandoffCode({ exchangeId: exchange.id.value, userId: giver.id.value });
+      const wrongCode = code === '000000' ? '111111' : '000000';
+      exchangeRepository.save.mockClear();
+
+      // Other guesses sent at the same moment already used up the attempts
+      exchangeRepository.claimHandoffAttempt.mockResolvedValueOnce(null);
+      await expect(
+        service.confirmHandoffWithCode({ exchangeId: exchange.id.value, userId: receiver.id.value, code })
+      ).rejects.toThrow('Too many incorrect attempts');
+      expect(exchangeRepository.claimHandoffAttempt).toHaveBeenCalledWith(exchange, 2);
+      expect(exchangeRepository.save).not.toHaveBeenCalled();
+
+      // Someone who can't enter the code doesn't use up an attempt
+      exchangeRepository.claimHandoffAttempt.mockClear();
+      await expect(
+        service.confirmHandoffWithCode({ exchangeId: exchange.id.value, userId: giver.id.value, code: wrongCode })
+      ).rejects.toThrow('Only the receiver can enter the handoff code');
+      expect(exchangeRepository.claimHandoffAttempt).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelExchange', () => {
+    it('does not keep the cancellation when restoring the item fails', async () => {
+      item.markAsPending();
+      failItemSave = true;
+
+      await expect(
+        service.cancelExchange({ exchangeId: exchange.id.value, userId: giver.id.value, reason: 'Changed my mind' })
+      ).rejects.toThrow('connection reset');
+
+      expect(exchangeRepository.save).toHaveBeenCalled();
+      expect(unitOfWork.committed).toEqual([]);
+    });
+  });
+
+  describe('item requests', () => {
+    const buildRequest = (requester: User): ItemRequest =>
+      ItemRequest.create({ itemId: item.id.value, requesterId: requester.id.value, message: 'Could I have it?' });
+
+    it('records a request and refuses one for your own item or a second one', async () => {
+      const result = await service.requestItem({ itemId: item.id.value, requesterId: receiver.id.value });
+
+      const saved: ItemRequest = itemRequestRepository.save.mock.calls[0][0];
+      expect(result.requestId).toBe(saved.id.value);
+      expect(saved.isPending()).toBe(true);
+
+      await expect(service.requestItem({ itemId: item.id.value, requesterId: giver.id.value }))
+        .rejects.toThrow('You cannot request your own item');
+
+      itemRequestRepository.findPendingRequest.mockResolvedValueOnce(saved);
+      await expect(service.requestItem({ itemId: item.id.value, requesterId: receiver.id.value }))
+        .rejects.toThrow('You have already requested this item');
+
+      // Two requests racing past the check are stopped by the unique index
+      itemRequestRepository.save.mockRejectedValueOnce(Object.assign(new Error('duplicate key'), { code: '23505' }));
+      await expect(service.requestItem({ itemId: item.id.value, requesterId: receiver.id.value }))
+        .rejects.toThrow('You have already requested this item');
+    });
+
+    it('lets only the owner select a request', async () => {
+      const request = buildRequest(receiver);
+      itemRequestRepository.findById.mockResolvedValue(request);
+
+      await expect(service.selectItemRequest({
+        itemId: item.id.value,
+        ownerId: receiver.id.value,
+        requestId: request.id.value
+      })).rejects.toThrow('Only the item owner can select a request');
+
+      expect(request.isPending()).toBe(true);
+      expect(exchangeRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('starts an accepted exchange for the selected request and declines the others', async () => {
+      const request = buildRequest(receiver);
+      const others = [buildRequest(buildUser('Second')), buildRequest(buildUser('Third'))];
+      itemRequestRepository.findById.mockResolvedValue(request);
+      itemRequestRepository.findByItemId.mockResolvedValue(others);
+
+      const result = await service.selectItemRequest({
+        itemId: item.id.value,
+        ownerId: giver.id.value,
+        requestId: request.id.value
+      });
+
+      const saved: Exchange = exchangeRepository.save.mock.calls[0][0];
+      expect(result).toEqual({ exchangeId: saved.id.value, declinedCount: 2 });
+      expect(saved.status.value).toBe('accepted');
+      expect(saved.receiverId.equals(receiver.id)).toBe(true);
+      expect(request.status.value).toBe('selected');
+      expect(others.map(other => other.status.value)).toEqual(['declined', 'declined']);
+      expect(itemRequestRepository.findByItemId).toHaveBeenCalledWith(item.id, 'pending');
+      expect(unitOfWork.committed).toEqual(['exchange', 'item', 'itemRequest', 'itemRequests']);
+
+      await expect(service.selectItemRequest({
+        itemId: item.id.value,
+        ownerId: giver.id.value,
+        requestId: request.id.value
+      })).rejects.toThrow('Item is not available for exchange');
+    });
+
+    it('lets only the requester withdraw a request', async () => {
+      const request = buildRequest(receiver);
+      itemRequestRepository.findById.mockResolvedValue(request);
+
+      await expect(service.withdrawItemRequest({
+        itemId: item.id.value,
+        requestId: request.id.value,
+        requesterId: giver.id.value
+      })).rejects.toThrow('Only the requester can withdraw a request');
+
+      await service.withdrawItemRequest({
+        itemId: item.id.value,
+        requestId: request.id.value,
+        requesterId: receiver.id.value
+      });
+      expect(request.status.value).toBe('withdrawn');
+      expect(itemRequestRepository.save).toHaveBeenCalledWith(request);
+    });
+  });
+
+  describe('lots', () => {
+    beforeEach(() => {
+      item = Item.create({ ...buildItem(giver).toData(), quantity: 10, isLot: true });
+    });
+
+    it('claims part of a lot and leaves the rest available', async () => {
+      await service.initiateExchange({
+        itemId: item.id.value,
+        giverId: giver.id.value,
+        receiverId: receiver.id.value,
+        quantity: 3
+      });
+
+      const saved: Exchange = exchangeRepository.save.mock.calls[0][0];
+      expect(saved.quantity).toBe(3);
+      expect(item.quantityUnclaimed).toBe(7);
+      expect(item.isAvailableForExchange()).toBe(true);
+
+      await expect(service.initiateExchange({
+        itemId: item.id.value,
+        giverId: giver.id.value,
+        receiverId: buildUser('Another').id.value,
+        quantity: 8
+      })).rejects.toThrow('Only 7 of 10 remaining');
+    });
+
+    it('counts units as given on completion and puts them back on cancellation', async () => {
+      exchange = Exchange.create({ itemId: item.id.value, giverId: giver.id.value, receiverId: receiver.id.value, quantity: 3 });
+      exchange.accept();
+      exchange.confirmHandoffBy(giver.id);
+      item.claim(3);
+      item.claim(7);
+      expect(item.isPendingExchange()).toBe(true);
+
+      await service.completeExchange({ exchangeId: exchange.id.value, userId: receiver.id.value });
+
+      expect(item.quantityGiven).toBe(3);
+      expect(item.quantityRemaining).toBe(7);
+      expect(item.isPendingExchange()).toBe(true);
+
+      exchange = Exchange.create({ itemId: item.id.value, giverId: giver.id.value, receiverId: receiver.id.value, quantity: 7 });
+      await service.cancelExchange({ exchangeId: exchange.id.value, userId: giver.id.value, reason: 'Only needed a few' });
+
+      expect(item.quantityUnclaimed).toBe(7);
+      expect(item.isAvailableForExchange()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import 'reflect-metadata';
+import { randomUUID } from 'crypto';
+import { ExchangeDisputeApplicationService } from '../ExchangeDisputeApplicationService';
+import { IPointsApplicationService } from '../PointsApplicationService';
+import { IUnitOfWork } from '../../../infrastructure/database/IUnitOfWork';
+import { IExchangeRepository } from '../../../infrastructure/repositories/IExchangeRepository';
+import { IExchangeDisputeRepository } from '../../../infrastructure/repositories/IExchangeDisputeRepository';
+import { IItemRepository } from '../../../infrastructure/repositories/IItemRepository';
+import { IUserRepository } from '../../../infrastructure/repositories/IUserRepository';
+import { IFileStorageService } from '../../../infrastructure/services/IFileStorageService';
+import { Exchange } from '../../../domain/exchange/Exchange';
+import { ExchangeDispute } from '../../../domain/exchange/ExchangeDispute';
+import { Item } from '../../../domain/item/Item';
+import { User } from '../../../domain/user/User';
+import { buildUser } from '../../../domain/user/__fixtures__/buildUser';
+
+const HOUR_MS = 60 * 60 * 1000;
+const location = { latitude: 40.7128, longitude: -74.006, address: 'New York, NY' };
+
+const buildItem = (owner: User): Item =>
+  Item.fromData({
+    id: randomUUID(),
+    userId: owner.id.value,
+    details: {
+      title: 'Oak bookshelf',
+      description: 'Five shelves, solid oak',
+      category: 'furniture',
+      tags: [],
+      images: ['https://example.com/bookshelf.jpg'],
+      condition: 'good'
+    },
+    status: 'pending',
+    location,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+describe('ExchangeDisputeApplicationService', () => {
+  let giver: User;
+  let receiver: User;
+  let item: Item;
+  let exchange: Exchange;
+  let disputes: Map<string, ExchangeDispute>;
+  let disputeRepository: Record<'save' | 'findById' | 'findOpenByExchangeId', jest.Mock>;
+  let exchangeRepository: Record<'save' | 'findById' | 'getAverageRatingForUser', jest.Mock>;
+  let itemRepository: Record<'save' | 'findById' | 'findByIdForUpdate', jest.Mock>;
+  let userRepository: Record<'save' | 'findById', jest.Mock>;
+  let pointsService: Record<'reverseExchangePoints', jest.Mock>;
+  let service: ExchangeDisputeApplicationService;
+
+  beforeEach(() => {
+    giver = buildUser('Giver', { totalExchanges: 1, noShowCount: 1 });
+    receiver = buildUser('Receiver', { totalExchanges: 3 });
+    item = buildItem(giver);
+    exchange = Exchange.fromData({
+      id: randomUUID(),
+      itemId: item.id.value,
+      giverId: giver.id.value,
+      receiverId: receiver.id.value,
+      status: 'accepted',
+      scheduledPickup: new Date(Date.now() - 2 * HOUR_MS),
+      ecoPointsAwarded: 0,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+
+    const users = new Map([giver, receiver].map(user => [user.id.value, user]));
+    disputes = new Map();
+    disputeRepository = {
+      save: jest.fn(async (dispute: ExchangeDispute) => { disputes.set(dispute.id.value, dispute); }),
+      findById: jest.fn(async (id) => disputes.get(id.value) ?? null),
+      findOpenByExchangeId: jest.fn(async () => null)
+    };
+    exchangeRepository = {
+      save: jest.fn(async () => undefined),
+      findById: jest.fn(async () => exchange),
+      getAverageRatingForUser: jest.fn(async () => 4)
+    };
+    itemRepository = {
+      save: jest.fn(async () => undefined),
+      findById: jest.fn(async () => item),
+      findByIdForUpdate: jest.fn(async () => item)
+    };
+    userRepository = {
+      save: jest.fn(async () => undefined),
+      findById: jest.fn(async (id) => users.get(id.value) ?? null)
+    };
+    pointsService = { reverseExchangePoints: jest.fn(async () => ({ giverPoints: 0, receiverPoints: 0 })) };
+    const unitOfWork: IUnitOfWork = { execute: work => work() };
+
+    service = new ExchangeDisputeApplicationService(
+      disputeRepository as unknown as IExchangeDisputeRepository,
+      exchangeRepository as unknown as IExchangeRepository,
+      itemRepository as unknown as IItemRepository,
+      userRepository as unknown as IUserRepository,
+      pointsService as unknown as IPointsApplicationService,
+      {} as IFileStorageService,
+      unitOfWork
+    );
+  });
+
+  it('cancels the exchange, relists the item and counts the no-show when a report is upheld', async () => {
+    const dispute = await service.openDispute({
+      exchangeId: exchange.id.value,
+      reporterId: receiver.id.value,
+      reason: 'no_show',
+      description: 'Waited an hour at the address, nobody came'
+    });
+
+    expect(exchange.status.isDisputed()).toBe(true);
+    expect(dispute.reportedUserId.equals(giver.id)).toBe(true);
+
+    await service.resolveDispute({
+      disputeId: dispute.id.value,
+      adminId: randomUUID(),
+      outcome: 'upheld',
+      note: 'Giver confirmed they forgot'
+    });
+
+    expect(exchange.status.isCancelled()).toBe(true);
+    expect(item.isAvailableForExchange()).toBe(true);
+    expect(dispute.resolution?.actions).toEqual({ pointsReversed: false, ratingsCleared: false, itemRestored: true });
+    expect(dispute.domainEvents.map(event => event.eventType)).toEqual(['ExchangeDisputeOpened', 'ExchangeDisputeResolved']);
+    expect(giver.noShowCount).toBe(2);
+    expect(giver.reliabilityScore).toBeCloseTo(1 / 3);
+    expect(giver.canExchangeWith(receiver)).toBe(false);
+  });
+
+  it('returns a completed exchange to completed when a report is dismissed', async () => {
+    exchange.complete(20);
+    const dispute = await service.openDispute({
+      exchangeId: exchange.id.value,
+      reporterId: giver.id.value,
+      reason: 'unsafe_behaviour',
+      description: 'Receiver was aggressive at pickup'
+    });
+
+    await expect(service.resolveDispute({
+      disputeId: dispute.id.value,
+      adminId: randomUUID(),
+      outcome: 'dismissed',
+      note: 'No evidence',
+      reversePoints: true
+    })).rejects.toThrow('Eco-points can only be reversed when upholding a dispute on a completed exchange');
+
+    await service.resolveDispute({
+      disputeId: dispute.id.value,
+      adminId: randomUUID(),
+      outcome: 'dismissed',
+      note: 'No evidence'
+    });
+
+    expect(exchange.status.isCompleted()).toBe(true);
+    expect(exchange.statusBeforeDispute).toBeUndefined();
+    expect(pointsService.reverseExchangePoints).not.toHaveBeenCalled();
+    expect(receiver.noShowCount).toBe(0);
+  });
+
+  it('only accepts no-show reports before the exchange is completed', async () => {
+    exchange.complete(20);
+
+    await expect(service.openDispute({
+      exchangeId: exchange.id.value,
+      reporterId: receiver.id.value,
+      reason: 'no_show',
+      description: 'They never came'
+    })).rejects.toThrow('A no-show can only be reported before the exchange is completed');
+    expect(exchange.status.isCompleted()).toBe(true);
+  });
+});
@@ -0,0 +1,176 @@
+import 'reflect-metadata';
+import { randomUUID } from 'crypto';
+import { ExchangeMessageApplicationService } from '../ExchangeMessageApplicationService';
+import { IExchangeRepository } from '../../../infrastructure/repositories/IExchangeRepository';
+import { IExchangeMessageRepository, ExchangeMessageSearchResult } from '../../../infrastructure/repositories/IExchangeMessageRepository';
+import { IItemRepository } from '../../../infrastructure/repositories/IItemRepository';
+import { IUserRepository } from '../../../infrastructure/repositories/IUserRepository';
+import { INotificationService } from '../../../infrastructure/services/INotificationService';
+import { Exchange } from '../../../domain/exchange/Exchange';
+import { ExchangeMessage } from '../../../domain/exchange/ExchangeMessage';
+import { ExchangeId } from '../../../domain/exchange/value-objects/ExchangeId';
+import { User } from '../../../domain/user/User';
+import { buildUser } from '../../../domain/user/__fixtures__/buildUser';
+import { UserId } from '../../../domain/user/value-objects/UserId';
+
+/**
+ * Keeps messages and who has read them in memory, counting unread messages
+ * the way the PostgreSQL repository does: only those the reader didn't send,
+ * on exchanges the reader takes part in.
+ */
+class InMemoryExchangeMessageRepository implements IExchangeMessageRepository {
+  private readonly messages: ExchangeMessage[] = [];
+  private readonly readIds = new Set<string>();
+
+  constructor(private readonly exchanges: Exchange[]) {}
+
+  async save(message: ExchangeMessage): Promise<void> {
+    this.messages.push(message);
+  }
+
+  async findByExchangeId(exchangeId: ExchangeId): Promise<ExchangeMessageSearchResult> {
+    const messages = this.messages.filter(message => message.exchangeId.equals(exchangeId));
+    return { messages, totalCount: messages.length, hasMore: false };
+  }
+
+  async markAsRead(exchangeId: ExchangeId, readerId: UserId): Promise<number> {
+    const unread = this.unreadFor(readerId).filter(message => message.exchangeId.equals(exchangeId));
+    unread.forEach(message => this.readIds.add(message.id.value));
+    return unread.length;
+  }
+
+  async countUnread(exchangeId: ExchangeId, readerId: UserId): Promise<number> {
+    return this.unreadFor(readerId).filter(message => message.exchangeId.equals(exchangeId)).length;
+  }
+
+  async countUnreadByExchange(readerId: UserId): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    for (const message of this.unreadFor(readerId)) {
+      counts[message.exchangeId.value] = (counts[message.exchangeId.value] ?? 0) + 1;
+    }
+    return counts;
+  }
+
+  private unreadFor(readerId: UserId): ExchangeMessage[] {
+    const participating = this.exchanges.filter(exchange => exchange.isParticipant(readerId));
+    return this.messages.filter(message =>
+      participating.some(exchange => exchange.id.equals(message.exchangeId))
+      && !message.isSentBy(readerId)
+      && !this.readIds.has(message.id.value));
+  }
+}
+
+describe('ExchangeMessageApplicationService', () => {
+  let giver: User;
+  let receiver: User;
+  let outsider: User;
+  let exchange: Exchange;
+  let otherExchange: Exchange;
+  let messageRepository: InMemoryExchangeMessageRepository;
+  let notificationService: Record<'sendEmail', jest.Mock>;
+  let service: ExchangeMessageApplicationService;
+
+  beforeEach(() => {
+    giver = buildUser('Giver');
+    receiver = buildUser('Receiver');
+    outsider = buildUser('Outsider');
+    exchange = Exchange.create({ itemId: randomUUID(), giverId: giver.id.value, receiverId: receiver.id.value });
+    otherExchange = Exchange.create({ itemId: randomUUID(), giverId: outsider.id.value, receiverId: receiver.id.value });
+
+    const exchanges = [exchange, otherExchange];
+    const users = [giver, receiver, outsider];
+    const exchangeRepository = {
+      findById: jest.fn(async (id: ExchangeId) => exchanges.find(candidate => candidate.id.equals(id)) ?? null)
+    };
+    const userRepository = {
+      findById: jest.fn(async (id: UserId) => users.find(candidate => candidate.id.equals(id)) ?? null)
+    };
+    const itemRepository = { findById: jest.fn(async () => null) };
+    messageRepository = new InMemoryExchangeMessageRepository(exchanges);
+    notificationService = { sendEmail: jest.fn(async () => undefined) };
+
+    service = new ExchangeMessageApplicationService(
+      exchangeRepository as unknown as IExchangeRepository,
+      messageRepository,
+      itemRepository as unknown as IItemRepository,
+      userRepository as unknown as IUserRepository,
+      notificationService as unknown as INotificationService
+    );
+  });
+
+  const send = (exchangeToUse: Exchange, sender: User, body: string) =>
+    service.sendMessage({ exchangeId: exchangeToUse.id.value, senderId: sender.id.value, body });
+
+  it('keeps the thread to the two participants', async () => {
+    await send(exchange, giver, 'Pickup after six works');
+    const forbidden = 'Only exchange participants can access messages';
+
+    await expect(send(exchange, outsider, 'Is this still free?')).rejects.toThrow(forbidden);
+    await expect(service.getMessages({ exchangeId: exchange.id.value, userId: outsider.id.value }))
+      .rejects.toThrow(forbidden);
+    await expect(service.markMessagesAsRead({ exchangeId: exchange.id.value, userId: outsider.id.value }))
+      .rejects.toThrow(forbidden);
+
+    const { messages } = await service.getMessages({ exchangeId: exchange.id.value, userId: receiver.id.value });
+    expect(messages.map(message => message.body)).toEqual(['Pickup after six works']);
+  });
+
+  it('counts unread messages per exchange, leaving out the reader\'s own', async () => {
+    await send(exchange, giver, 'Pickup after six works');
+    await send(exchange, giver, 'Ring the top bell');
+    await send(exchange, receiver, 'See you then');
+    await send(otherExchange, outsider, 'Mine is ready too');
+
+    expect(await service.getUnreadCounts(receiver.id.value)).toEqual({
+      total: 3,
+      byExchange: { [exchange.id.value]: 2, [otherExchange.id.value]: 1 }
+    });
+    expect(await service.getUnreadCounts(giver.id.value)).toEqual({
+      total: 1,
+      byExchange: { [exchange.id.value]: 1 }
+    });
+  });
+
+  it('emails the recipient only for the first message of an unread run', async () => {
+    const first = await send(exchange, giver, 'Pickup after six works');
+    const second = await send(exchange, giver, 'Ring the top bell');
+
+    expect(first.notificationSent).toBe(true);
+    expect(second.notificationSent).toBe(false);
+    expect(notificationService.sendEmail).toHaveBeenCalledTimes(1);
+    expect(notificationService.sendEmail.mock.calls[0][0]).toBe(receiver.email.value);
+
+    await service.markMessagesAsRead({ exchangeId: exchange.id.value, userId: receiver.id.value });
+    const third = await send(exchange, giver, 'Running ten minutes late');
+
+    expect(third.notificationSent).toBe(true);
+    expect(notificationService.sendEmail).toHaveBeenCalledTimes(2);
+  });
+
+  it('marks the other participant\'s messages as read for one exchange only', async () => {
+    await send(exchange, giver, 'Pickup after six works');
+    await send(exchange, giver, 'Ring the top bell');
+    await send(exchange, receiver, 'See you then');
+    await send(otherExchange, outsider, 'Mine is ready too');
+
+    const marked = await service.markMessagesAsRead({ exchangeId: exchange.id.value, userId: receiver.id.value });
+
+    expect(marked).toBe(2);
+    expect(await service.getUnreadCounts(receiver.id.value)).toEqual({
+      total: 1,
+      byExchange: { [otherExchange.id.value]: 1 }
+    });
+    // The receiver's reply is still unread for the giver
+    expect((await service.getUnreadCounts(giver.id.value)).total).toBe(1);
+  });
+
+  it('marks the thread as read when it is opened unless asked not to', async () => {
+    await send(exchange, giver, 'Pickup after six works');
+
+    await service.getMessages({ exchangeId: exchange.id.value, userId: receiver.id.value, markAsRead: false });
+    expect((await service.getUnreadCounts(receiver.id.value)).total).toBe(1);
+
+    await service.getMessages({ exchangeId: exchange.id.value, userId: receiver.id.value });
+    expect((await service.getUnreadCounts(receiver.id.value)).total).toBe(0);
+  });
+});
@@ -0,0 +1,124 @@
+import 'reflect-metadata';
+import { randomUUID } from 'crypto';
+import { ItemApplicationService } from '../ItemApplicationService';
+import { AppConfig } from '../../../config/AppConfig';
+import { Item } from '../../../domain/item/Item';
+import { ItemImageData } from '../../../domain/item/value-objects/ItemImage';
+import { IItemRepository } from '../../../infrastructure/repositories/IItemRepository';
+import { IUserRepository } from '../../../infrastructure/repositories/IUserRepository';
+import { IItemRevisionRepository } from '../../../infrastructure/repositories/IItemRevisionRepository';
+import { IFileStorageService, StoredFile } from '../../../infrastructure/services/IFileStorageService';
+import { IAIService } from '../../../infrastructure/services/IAIService';
+import { IMapsService } from '../../../infrastructure/services/IMapsService';
+import { IImageProcessingService } from '../../../infrastructure/services/IImageProcessingService';
+
+const STORAGE_URL = 'https://cdn.example.com/';
+const HOUR_MS = 60 * 60 * 1000;
+
+const storedImage = (itemId: string, index: number): ItemImageData => ({
+  thumbnail: `${STORAGE_URL}items/${itemId}/image_${index}_thumbnail.webp`,
+  medium: `${STORAGE_URL}items/${itemId}/image_${index}_medium.webp`,
+  full: `${STORAGE_URL}items/${itemId}/image_${index}_full.webp`
+});
+
+describe('ItemApplicationService', () => {
+  const ownerId = randomUUID();
+  let item: Item;
+  let files: StoredFile[];
+  let itemRepository: Record<'findById' | 'save' | 'findAllImageUrls', jest.Mock>;
+  let fileStorageService: Record<'deleteFile' | 'listFiles' | 'getPathFromUrl', jest.Mock>;
+  let service: ItemApplicationService;
+
+  beforeEach(() => {
+    const itemId = randomUUID();
+    item = Item.fromData({
+      id: itemId,
+      userId: ownerId,
+      details: {
+        title: 'Oak bookshelf',
+        description: 'Five shelves, solid oak',
+        category: 'furniture',
+        tags: [],
+        images: [storedImage(itemId, 0), storedImage(itemId, 1), 'https://images.example.org/seeded.jpg'],
+        condition: 'good'
+      },
+      status: 'available',
+      location: { latitude: 40.7128, longitude: -74.006, address: 'New York, NY' },
+      createdAt: new Date(),
+      updatedAt: new Date()
+    });
+    files = [];
+
+    itemRepository = {
+      findById: jest.fn(async () => item),
+      save: jest.fn(async () => undefined),
+      findAllImageUrls: jest.fn(async () => item.details.images.flatMap(image => [image.thumbnail, image.medium, image.full]))
+    };
+    fileStorageService = {
+      deleteFile: jest.fn(async () => undefined),
+      listFiles: jest.fn(async () => files),
+      getPathFromUrl: jest.fn((url: string) => url.startsWith(STORAGE_URL) ? url.substring(STORAGE_URL.length) : null)
+    };
+
+    service = new ItemApplicationService(
+      itemRepository as unknown as IItemRepository,
+      {} as IUserRepository,
+      fileStorageService as unknown as IFileStorageService,
+      {} as IAIService,
+      {} as IMapsService,
+      {} as IImageProcessingService,
+      {} as IItemRevisionRepository,
+      { listings: { lifetimeDays: 30, categoryLifetimeDays: {}, renewalReminderDays: 3 } } as unknown as AppConfig
+    );
+  });
+
+  it('deletes the files of removed images once the item is saved', async () => {
+    const [first, second] = item.details.images;
+
+    const images = await service.removeItemImages({ itemId: item.id.value, userId: ownerId, positions: [0] });
+
+    expect(images).toEqual([second, expect.objectContaining({ full: 'https://images.example.org/seeded.jpg' })]);
+    expect(itemRepository.save).toHaveBeenCalledWith(item);
+    expect(fileStorageService.deleteFile.mock.calls.map(([path]) => `${STORAGE_URL}${path}`))
+      .toEqual([first.thumbnail, first.medium, first.full]);
+    expect(item.pendingRevisions[0].changes.map(change => change.field)).toEqual(['images']);
+  });
+
+  it('keeps at least one image and every image when reordering', async () => {
+    await expect(service.removeItemImages({ itemId: item.id.value, userId: ownerId, positions: [0, 1, 2] }))
+      .rejects.toThrow('At least one image is required');
+    await expect(service.reorderItemImages({ itemId: item.id.value, userId: ownerId, order: [2, 0, 0] }))
+      .rejects.toThrow('Order must list each of the 3 image positions exactly once');
+
+    const [first, second, third] = item.details.images;
+    expect(await service.reorderItemImages({ itemId: item.id.value, userId: ownerId, order: [2, 0, 1] }))
+      .toEqual([third, first, second]);
+    expect(fileStorageService.deleteFile).not.toHaveBeenCalled();
+  });
+
+  it("won't change someone else's photos", async () => {
+    await expect(service.reorderItemImages({ itemId: item.id.value, userId: randomUUID(), order: [1, 0, 2] }))
+      .rejects.toThrow('You can only update your own items');
+    expect(itemRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('removes old item files that no item refers to', async () => {
+    const old = new Date(Date.now() - 48 * HOUR_MS);
+    const used = fileStorageService.getPathFromUrl(item.details.images[0].medium);
+    files.push(
+      { path: used, lastModified: old },
+      { path: 'items/deleted-item/image_0_full.webp', lastModified: old },
+      { path: 'items/new-item/image_0_full.webp', lastModified: new Date() }
+    );
+
+    expect(await service.removeOrphanedImages(true)).toEqual({
+      scanned: 3,
+      orphaned: ['items/deleted-item/image_0_full.webp'],
+      removed: 0
+    });
+    expect(fileStorageService.deleteFile).not.toHaveBeenCalled();
+
+    expect((await service.removeOrphanedImages()).removed).toBe(1);
+    expect(fileStorageService.deleteFile).toHaveBeenCalledWith('items/deleted-item/image_0_full.webp');
+  });
+});
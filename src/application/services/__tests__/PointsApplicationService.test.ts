@@ -0,0 +1,99 @@
+import 'reflect-metadata';
+import { PointsApplicationService } from '../PointsApplicationService';
+import { IUserRepository } from '../../../infrastructure/repositories/IUserRepository';
+import { IBadgeRepository } from '../../../infrastructure/repositories/IBadgeRepository';
+import { IAchievementRepository } from '../../../infrastructure/repositories/IAchievementRepository';
+import { IItemRepository } from '../../../infrastructure/repositories/IItemRepository';
+import { IEcoPointsLedgerRepository, EcoPointsLedgerEntry } from '../../../infrastructure/repositories/IEcoPointsLedgerRepository';
+import { IUnitOfWork } from '../../../infrastructure/database/IUnitOfWork';
+import { AppConfig } from '../../../config/AppConfig';
+import { User } from '../../../domain/user/User';
+import { UserId } from '../../../domain/user/value-objects/UserId';
+import { buildUser } from '../../../domain/user/__fixtures__/buildUser';
+
+/**
+ * Runs one unit of work at a time, the way the lock on the user's row
+ * makes concurrent awards to the same user wait for each other.
+ */
+class SerialUnitOfWork implements IUnitOfWork {
+  private previous: Promise<unknown> = Promise.resolve();
+
+  async execute<T>(work: () => Promise<T>): Promise<T> {
+    const run = this.previous.then(() => work());
+    this.previous = run.catch(() => undefined);
+    return run;
+  }
+}
+
+describe('PointsApplicationService awardPoints', () => {
+  let user: User;
+  let ledger: EcoPointsLedgerEntry[];
+  let service: PointsApplicationService;
+
+  const award = (points: number, idempotencyKey: string) =>
+    service.awardPoints({ userId: user.id.value, points, reason: 'Item posted', idempotencyKey });
+
+  beforeEach(() => {
+    user = buildUser('Giver');
+    ledger = [];
+
+    // Saving appends the pending transactions, skipping keys already in the ledger
+    const userRepository = {
+      findById: jest.fn(async () => user),
+      findByIdForUpdate: jest.fn(async () => user),
+      save: jest.fn(async (saved: User) => {
+        for (const transaction of saved.toData().pendingEcoPointsTransactions ?? []) {
+          if (!ledger.some(entry => entry.idempotencyKey === transaction.idempotencyKey)) {
+            ledger.push({
+              id: transaction.idempotencyKey,
+              userId: saved.id.value,
+              points: transaction.points,
+              reason: transaction.reason,
+              idempotencyKey: transaction.idempotencyKey,
+              createdAt: transaction.timestamp
+            });
+          }
+        }
+        user = buildUser('Giver', {
+          id: saved.id.value,
+          ecoPoints: ledger.reduce((sum, entry) => sum + entry.points, 0)
+        });
+      })
+    };
+    const ledgerRepository = {
+      findByIdempotencyKey: jest.fn(async (key: string) => ledger.find(entry => entry.idempotencyKey === key) ?? null),
+      getPointsAwardedSince: jest.fn(async (userId: UserId, since: Date) => ledger
+        .filter(entry => entry.userId === userId.value && entry.points > 0 && entry.createdAt >= since)
+        .reduce((sum, entry) => sum + entry.points, 0))
+    };
+
+    service = new PointsApplicationService(
+      userRepository as unknown as IUserRepository,
+      { findAll: jest.fn(async () => []) } as unknown as IBadgeRepository,
+      { findByUserId: jest.fn(async () => []) } as unknown as IAchievementRepository,
+      { countItemsByUser: jest.fn(async () => 0) } as unknown as IItemRepository,
+      ledgerRepository as unknown as IEcoPointsLedgerRepository,
+      new SerialUnitOfWork(),
+      { points: { dailyCap: 50 } } as AppConfig
+    );
+  });
+
+  it('records an award the daily cap used up, so replaying it on a later day adds nothing', async () => {
+    expect(await award(50, 'item:first:posted')).toBe(50);
+    expect(await award(20, 'item:second:posted')).toBe(0);
+    expect(ledger.find(entry => entry.idempotencyKey === 'item:second:posted')?.points).toBe(0);
+
+    // A day later the cap no longer applies, but the award was already made
+    ledger.forEach(entry => { entry.createdAt = new Date(Date.now() - 24 * 60 * 60 * 1000); });
+
+    expect(await award(20, 'item:second:posted')).toBe(0);
+    expect(user.ecoPoints.value).toBe(50);
+  });
+
+  it('applies the daily cap across awards made at the same time', async () => {
+    const awarded = await Promise.all([award(40, 'item:first:posted'), award(40, 'item:second:posted')]);
+
+    expect(awarded).toEqual([40, 10]);
+    expect(user.ecoPoints.value).toBe(50);
+  });
+});
@@ -0,0 +1,314 @@
+import 'reflect-metadata';
+import { UserApplicationService } from '../UserApplicationService';
+import { AppConfig } from '../../../config/AppConfig';
+import { User } from '../../../domain/user/User';
+import { buildUser } from '../../../domain/user/__fixtures__/buildUser';
+import { UserId } from '../../../domain/user/value-objects/UserId';
+import {
+  EmailVerificationToken,
+  EmailVerificationTokenData
+} from '../../../domain/user/value-objects/EmailVerificationToken';
+import { PasswordResetToken } from '../../../domain/user/value-objects/PasswordResetToken';
+import { PasswordResetRequested } from '../../../domain/user/UserEvents';
+import { IUnitOfWork } from '../../../infrastructure/database/IUnitOfWork';
+import { IUserRepository } from '../../../infrastructure/repositories/IUserRepository';
+import { IEmailVerificationTokenRepository } from '../../../infrastructure/repositories/IEmailVerificationTokenRepository';
+import { IPasswordResetTokenRepository } from '../../../infrastructure/repositories/IPasswordResetTokenRepository';
+import { IUserRoleRepository } from '../../../infrastructure/repositories/IUserRoleRepository';
+import { IDomainEventOutboxRepository } from '../../../infrastructure/repositories/IDomainEventOutboxRepository';
+import { IAuthenticationService } from '../../../infrastructure/services/IAuthenticationService';
+import { INotificationService } from '../../../infrastructure/services/INotificationService';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Keeps tokens the way the PostgreSQL repository does, including revocation
+class InMemoryEmailVerificationTokenRepository implements IEmailVerificationTokenRepository {
+  tokens: EmailVerificationTokenData[] = [];
+
+  async issue(token: EmailVerificationToken): Promise<void> {
+    for (const stored of this.tokens) {
+      if (stored.userId === token.userId && !stored.usedAt && !stored.revokedAt) {
+        stored.revokedAt = new Date();
+      }
+    }
+    this.tokens.push(token.toData());
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<EmailVerificationToken | null> {
+    const stored = this.tokens.find(token => token.tokenHash === tokenHash);
+    return stored ? new EmailVerificationToken({ ...stored }) : null;
+  }
+
+  async markUsed(token: EmailVerificationToken): Promise<boolean> {
+    const stored = this.tokens.find(candidate => candidate.id === token.id);
+    if (!stored || stored.usedAt || stored.revokedAt) {
+      return false;
+    }
+    stored.usedAt = new Date();
+    return true;
+  }
+
+  async findIssuedSince(userId: UserId, since: Date): Promise<EmailVerificationToken[]> {
+    return this.tokens
+      .filter(token => token.userId === userId.value && token.createdAt >= since)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(token => new EmailVerificationToken({ ...token }));
+  }
+}
+
+const config = {
+  emailVerification: { tokenTtlHours: 24, resendCooldownSeconds: 60, maxEmailsPerDay: 3 },
+  passwordReset: { tokenTtlMinutes: 60, requestCooldownSeconds: 60 }
+} as AppConfig;
+
+// The secret only exists in the link of the latest email
+const lastEmailedToken = (sendEmail: jest.Mock): string => {
+  const body: string = sendEmail.mock.calls.at(-1)[2];
+  return body.match(/token=([\w-]+)/)![1];
+};
+
+describe('UserApplicationService email verification', () => {
+  let user: User;
+  let tokenRepository: InMemoryEmailVerificationTokenRepository;
+  let userRepository: Record<'findById' | 'save', jest.Mock>;
+  let notificationService: Record<'sendEmail', jest.Mock>;
+  let service: UserApplicationService;
+
+  // Moves every stored token back in time, as if it had been issued earlier
+  const age = (ms: number): void => {
+    for (const token of tokenRepository.tokens) {
+      token.createdAt = new Date(token.createdAt.getTime() - ms);
+      token.expiresAt = new Date(token.expiresAt.getTime() - ms);
+    }
+  };
+
+  beforeEach(() => {
+    user = buildUser('Alex', { profile: { displayName: 'Alex', isVerified: false, accountType: 'individual' } });
+
+    tokenRepository = new InMemoryEmailVerificationTokenRepository();
+    userRepository = {
+      findById: jest.fn(async () => user),
+      save: jest.fn(async () => undefined)
+    };
+    notificationService = { sendEmail: jest.fn(async () => ({ success: true })) };
+    const unitOfWork: IUnitOfWork = { execute: work => work() };
+
+    service = new UserApplicationService(
+      userRepository as unknown as IUserRepository,
+      tokenRepository,
+      {} as IPasswordResetTokenRepository,
+      {} as IUserRoleRepository,
+      {} as IAuthenticationService,
+      notificationService as unknown as INotificationService,
+      unitOfWork,
+      {} as IDomainEventOutboxRepository,
+      config
+    );
+  });
+
+  it('verifies the user with the emailed token, once', async () => {
+    await service.resendVerificationEmail(user.id.value);
+    const token = lastEmailedToken(notificationService.sendEmail);
+
+    // Only the hash is stored
+    expect(tokenRepository.tokens[0].tokenHash).toBe(EmailVerificationToken.hash(token));
+
+    await service.verifyUser({ userId: user.id.value, verificationToken: token });
+
+    expect(user.profile.isVerified).toBe(true);
+    expect(userRepository.save).toHaveBeenCalledWith(user);
+
+    await expect(service.verifyUser({ userId: user.id.value, verificationToken: token }))
+      .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_VERIFICATION_TOKEN' });
+  });
+
+  it('rejects unknown, mismatched and expired tokens', async () => {
+    await service.resendVerificationEmail(user.id.value);
+    const token = lastEmailedToken(notificationService.sendEmail);
+
+    await expect(service.verifyUser({ userId: user.id.value, verificationToken: 'made-up' }))
+      .rejects.toThrow('Verification link is invalid');
+    await expect(service.verifyUser({ userId: UserId.generate().value, verificationToken: token }))
+      .rejects.toThrow('Verification link is invalid');
+
+    age(25 * HOUR_MS);
+
+    await expect(service.verifyUser({ userId: user.id.value, verificationToken: token }))
+      .rejects.toThrow('Verification link has expired');
+    expect(user.profile.isVerified).toBe(false);
+  });
+
+  it('invalidates the previous link when a new one is sent', async () => {
+    await service.resendVerificationEmail(user.id.value);
+    const oldToken = lastEmailedToken(notificationService.sendEmail);
+    age(HOUR_MS);
+    await service.resendVerificationEmail(user.id.value);
+    const newToken = lastEmailedToken(notificationService.sendEmail);
+
+    await expect(service.verifyUser({ userId: user.id.value, verificationToken: oldToken }))
+      .rejects.toThrow('replaced by a newer one');
+
+    await service.verifyUser({ userId: user.id.value, verificationToken: newToken });
+    expect(user.profile.isVerified).toBe(true);
+  });
+
+  it('rate-limits resending per account', async () => {
+    await service.resendVerificationEmail(user.id.value);
+
+    await expect(service.resendVerificationEmail(user.id.value))
+      .rejects.toMatchObject({ statusCode: 429, retryAfterSeconds: 60 });
+
+    age(2 * 60 * 1000);
+    await service.resendVerificationEmail(user.id.value);
+    age(2 * 60 * 1000);
+    await service.resendVerificationEmail(user.id.value);
+    age(2 * 60 * 1000);
+
+    // Past the cooldown, but three emails today is the cap
+    await expect(service.resendVerificationEmail(user.id.value))
+      .rejects.toMatchObject({ code: 'VERIFICATION_EMAIL_RATE_LIMITED' });
+    expect(notificationService.sendEmail).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('UserApplicationService passwords', () => {
+  const currentPassword = 'old cedar shelf 42';
+  let user: User;
+  let resetTokens: PasswordResetToken[];
+  let passwordHash: string;
+  let userRepository: Record<'findById' | 'findByEmail' | 'getPasswordHashByEmail' | 'save', jest.Mock>;
+  let authService: Record<'hashPassword' | 'verifyPassword' | 'revokeAllTokens', jest.Mock>;
+  let notificationService: Record<'sendEmail', jest.Mock>;
+  let requested: PasswordResetRequested[];
+  let service: UserApplicationService;
+
+  // Asks for a link, then sends it the way the outbox subscriber would
+  const requestReset = async (email: string): Promise<void> => {
+    await service.requestPasswordReset(email);
+    for (const event of requested.splice(0)) {
+      await service.sendPasswordReset(event.payload.email);
+    }
+  };
+
+  beforeEach(() => {
+    user = buildUser('Alex', { profile: { displayName: 'Alex', isVerified: false, accountType: 'individual' } });
+    resetTokens = [];
+    requested = [];
+    passwordHash = `hashed:${currentPassword}`;
+
+    userRepository = {
+      findById: jest.fn(async () => user),
+      findByEmail: jest.fn(async () => user),
+      getPasswordHashByEmail: jest.fn(async () => passwordHash),
+      save: jest.fn(async (_user: User, hash?: string) => {
+        passwordHash = hash ?? passwordHash;
+      })
+    };
+    authService = {
+      hashPassword: jest.fn(async (password: string) => `hashed:${password}`),
+      verifyPassword: jest.fn(async (password: string, hash: string) => hash === `hashed:${password}`),
+      revokeAllTokens: jest.fn(async () => undefined)
+    };
+    notificationService = { sendEmail: jest.fn(async () => ({ success: true })) };
+
+    // Just enough of the repository for one outstanding token at a time
+    const used = new Set<string>();
+    const resetTokenRepository: IPasswordResetTokenRepository = {
+      issue: async token => { resetTokens.push(token); },
+      findByTokenHash: async hash => resetTokens.find(token => token.tokenHash === hash) ?? null,
+      markUsed: async token => !used.has(token.id) && !!used.add(token.id),
+      findLatestByUserId: async () => resetTokens.at(-1) ?? null
+    };
+    const unitOfWork: IUnitOfWork = { execute: work => work() };
+
+    service = new UserApplicationService(
+      userRepository as unknown as IUserRepository,
+      {} as IEmailVerificationTokenRepository,
+      resetTokenRepository,
+      {} as IUserRoleRepository,
+      authService as unknown as IAuthenticationService,
+      notificationService as unknown as INotificationService,
+      unitOfWork,
+      { append: jest.fn(async (events: PasswordResetRequested[]) => { requested.push(...events); }) } as unknown as IDomainEventOutboxRepository,
+      config
+    );
+  });
+
+  it('resets the password with the emailed link and signs out every session', async () => {
+    await requestReset('alex@example.com');
+    const token = lastEmailedToken(notificationService.sendEmail);
+
+    await service.resetPassword({ resetToken: token, newPassword: 'new walnut desk 7' });
+
+    expect(passwordHash).toBe('hashed:new walnut desk 7');
+    expect(authService.revokeAllTokens).toHaveBeenCalledWith(user.id.value);
+
+    await expect(service.resetPassword({ resetToken: token, newPassword: 'another pine desk 8' }))
+      .rejects.toMatchObject({ code: 'INVALID_RESET_TOKEN' });
+  });
+
+  it('only queues the request, the same way whether or not the address has an account', async () => {
+    await service.requestPasswordReset('nobody@example.com');
+    await service.requestPasswordReset('alex@example.com');
+
+    expect(requested.map(event => event.payload.email)).toEqual(['nobody@example.com', 'alex@example.com']);
+    expect(userRepository.findByEmail).not.toHaveBeenCalled();
+    expect(resetTokens).toHaveLength(0);
+    expect(notificationService.sendEmail).not.toHaveBeenCalled();
+  });
+
+  it("doesn't send reset links to unknown or password-less accounts", async () => {
+    userRepository.findByEmail.mockResolvedValueOnce(null);
+    await requestReset('nobody@example.com');
+
+    userRepository.getPasswordHashByEmail.mockResolvedValueOnce(null);
+    await requestReset('alex@example.com');
+
+    expect(notificationService.sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('enforces the password policy', async () => {
+    await requestReset('alex@example.com');
+    const token = lastEmailedToken(notificationService.sendEmail);
+
+    await expect(service.resetPassword({ resetToken: token, newPassword: 'short1' }))
+      .rejects.toMatchObject({ statusCode: 400, code: 'WEAK_PASSWORD' });
+    await expect(service.resetPassword({ resetToken: token, newPassword: 'alex-is-great-1' }))
+      .rejects.toThrow('must not contain your email address');
+
+    // A rejected password doesn't use up the link
+    await service.resetPassword({ resetToken: token, newPassword: 'new walnut desk 7' });
+  });
+
+  it('still resets the password when the confirmation email fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    await requestReset('alex@example.com');
+    const token = lastEmailedToken(notificationService.sendEmail);
+
+    notificationService.sendEmail.mockRejectedValueOnce(new Error('SMTP unavailable'));
+    await service.resetPassword({ resetToken: token, newPassword: 'new walnut desk 7' });
+
+    expect(passwordHash).toBe('hashed:new walnut desk 7');
+    expect(console.error).toHaveBeenCalledWith('Failed to send password changed email:', expect.any(Error));
+    jest.restoreAllMocks();
+  });
+
+  it('changes the password only with the current one', async () => {
+    await expect(service.changePassword({
+      userId: user.id.value,
+      currentPassword: 'not my password',
+      newPassword: 'new walnut desk 7'
+    })).rejects.toMatchObject({ code: 'INCORRECT_PASSWORD' });
+
+    await service.changePassword({
+      userId: user.id.value,
+      currentPassword,
+      newPassword: 'new walnut desk 7'
+    });
+
+    expect(passwordHash).toBe('hashed:new walnut desk 7');
+    expect(notificationService.sendEmail).toHaveBeenCalledWith(
+      'alex@example.com', 'Your Re:UseNet password was changed', expect.any(String), true
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import 'reflect-metadata';
+import { randomUUID } from 'crypto';
+import { WantedPostApplicationService } from '../WantedPostApplicationService';
+import { IExchangeApplicationService } from '../ExchangeApplicationService';
+import { IUnitOfWork } from '../../../infrastructure/database/IUnitOfWork';
+import { IWantedPostRepository } from '../../../infrastructure/repositories/IWantedPostRepository';
+import { IItemRepository } from '../../../infrastructure/repositories/IItemRepository';
+import { IUserRepository } from '../../../infrastructure/repositories/IUserRepository';
+import { WantedPost } from '../../../domain/wanted/WantedPost';
+import { Item } from '../../../domain/item/Item';
+
+const location = { latitude: 40.7128, longitude: -74.006, address: 'New York, NY' };
+
+const buildItem = (ownerId: string): Item =>
+  Item.fromData({
+    id: randomUUID(),
+    userId: ownerId,
+    details: {
+      title: 'Moving boxes',
+      description: 'Twenty flat-packed boxes, used once',
+      category: 'other',
+      tags: ['boxes', 'moving'],
+      images: ['https://example.com/boxes.jpg'],
+      condition: 'good'
+    },
+    status: 'available',
+    location,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+describe('WantedPostApplicationService', () => {
+  const posterId = randomUUID();
+  const giverId = randomUUID();
+  let wantedPost: WantedPost;
+  let item: Item;
+  let wantedPostRepository: Record<'save' | 'findById' | 'findByResponseExchangeId', jest.Mock>;
+  let itemRepository: Record<'findById', jest.Mock>;
+  let exchangeService: Record<'initiateExchange', jest.Mock>;
+  let service: WantedPostApplicationService;
+
+  beforeEach(() => {
+    wantedPost = WantedPost.create({
+      userId: posterId,
+      title: 'Moving boxes',
+      category: 'Other',
+      tags: ['Boxes'],
+      location,
+      radiusKm: 5
+    });
+    item = buildItem(giverId);
+
+    wantedPostRepository = {
+      save: jest.fn(async () => undefined),
+      findById: jest.fn(async () => wantedPost),
+      findByResponseExchangeId: jest.fn(async () => wantedPost)
+    };
+    itemRepository = { findById: jest.fn(async () => item) };
+    exchangeService = { initiateExchange: jest.fn(async () => ({ exchangeId: randomUUID() })) };
+    const unitOfWork: IUnitOfWork = { execute: work => work() };
+
+    service = new WantedPostApplicationService(
+      wantedPostRepository as unknown as IWantedPostRepository,
+      itemRepository as unknown as IItemRepository,
+      {} as IUserRepository,
+      exchangeService as unknown as IExchangeApplicationService,
+      unitOfWork
+    );
+  });
+
+  it('opens an exchange to the poster and links it to the post', async () => {
+    const { exchangeId } = await service.respondToWantedPost({
+      wantedPostId: wantedPost.id.value,
+      responderId: giverId,
+      itemId: item.id.value,
+      message: 'Still have these from my move'
+    });
+
+    expect(exchangeService.initiateExchange).toHaveBeenCalledWith({
+      itemId: item.id.value,
+      giverId,
+      receiverId: posterId,
+      message: 'Still have these from my move'
+    });
+    expect(wantedPost.responses).toEqual([
+      expect.objectContaining({ itemId: item.id.value, responderId: giverId, exchangeId })
+    ]);
+    expect(wantedPost.domainEvents.map(event => event.eventType)).toEqual(['WantedPostResponded']);
+    expect(wantedPostRepository.save).toHaveBeenCalledWith(wantedPost);
+  });
+
+  it("won't offer someone else's item", async () => {
+    await expect(service.respondToWantedPost({
+      wantedPostId: wantedPost.id.value,
+      responderId: randomUUID(),
+      itemId: item.id.value
+    })).rejects.toThrow('You can only offer your own items');
+
+    expect(exchangeService.initiateExchange).not.toHaveBeenCalled();
+  });
+
+  it('is fulfilled once an exchange from one of its responses completes', async () => {
+    const { exchangeId } = await service.respondToWantedPost({
+      wantedPostId: wantedPost.id.value,
+      responderId: giverId,
+      itemId: item.id.value
+    });
+
+    expect(await service.fulfilFromExchange(exchangeId)).toBe(true);
+    expect(wantedPost.status).toBe('fulfilled');
+
+    // Completing a second exchange changes nothing
+    expect(await service.fulfilFromExchange(exchangeId)).toBe(false);
+  });
+
+  it('matches reachable items in its category or sharing a tag', () => {
+    expect(wantedPost.matchesItem(item)).toBe(true);
+    expect(wantedPost.matchesItem(buildItem(posterId))).toBe(false);
+
+    const farAway = Item.fromData({ ...item.toData(), id: randomUUID(), location: { ...location, latitude: 41.5 } });
+    expect(wantedPost.matchesItem(farAway)).toBe(false);
+  });
+});
@@ -3,3 +3,8 @@ export * from './ItemApplicationService';
 export * from './ExchangeApplicationService';
 export * from './MatchingApplicationService';
 export * from './PointsApplicationService';
+export * from './ExchangeMessageApplicationService';
+export * from './ExchangeDisputeApplicationService';
+export * from './SavedSearchApplicationService';
+export * from './WantedPostApplicationService';
+export * from './AdminApplicationService';
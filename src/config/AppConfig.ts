@@ -33,6 +33,57 @@ export interface NotificationConfig {
   config: Record<string, any>;
 }
 
+export interface PointsConfig {
+  itemPosted: number;
+  exchangeGiver: number;
+  exchangeReceiver: number;
+  accountVerified: number;
+  quickExchangeBonus: number;
+  quickExchangeDays: number;
+  conditionBonusPerLevel: number;
+  categoryMultipliers: Record<string, number>;
+  dailyCap: number;
+}
+
+export interface EventsConfig {
+  pollIntervalMs: number;
+  batchSize: number;
+  maxAttempts: number;
+  retryBaseDelayMs: number;
+}
+
+export interface JobsConfig {
+  enabled: boolean;
+  intervalMs: number;
+  pickupReminderLeadHours: number;
+  overdueGraceHours: number;
+  staleItemDays: number;
+}
+
+export interface HandoffConfig {
+  codeTtlHours: number;
+  maxCodeAttempts: number;
+  allowDualConfirmation: boolean;
+  codeSecret: string;
+}
+
+export interface ListingsConfig {
+  lifetimeDays: number;
+  categoryLifetimeDays: Record<string, number>;
+  renewalReminderDays: number;
+}
+
+export interface EmailVerificationConfig {
+  tokenTtlHours: number;
+  resendCooldownSeconds: number;
+  maxEmailsPerDay: number;
+}
+
+export interface PasswordResetConfig {
+  tokenTtlMinutes: number;
+  requestCooldownSeconds: number;
+}
+
 export interface AppConfig {
   port: number;
   nodeEnv: string;
@@ -42,6 +93,13 @@ export interface AppConfig {
   ai: AIConfig;
   maps: MapsConfig;
   notification: NotificationConfig;
+  points: PointsConfig;
+  events: EventsConfig;
+  jobs: JobsConfig;
+  handoff: HandoffConfig;
+  listings: ListingsConfig;
+  emailVerification: EmailVerificationConfig;
+  passwordReset: PasswordResetConfig;
   cors: {
     origin: string[];
     credentials: boolean;
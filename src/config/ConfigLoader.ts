@@ -1,4 +1,4 @@
-import { AppConfig, DatabaseConfig, StorageConfig, AuthConfig, AIConfig, MapsConfig, NotificationConfig } from './AppConfig';
+import { AppConfig, DatabaseConfig, StorageConfig, AuthConfig, AIConfig, MapsConfig, NotificationConfig, PointsConfig, EventsConfig, JobsConfig, HandoffConfig, ListingsConfig, EmailVerificationConfig, PasswordResetConfig } from './AppConfig';
 import { ConfigValidator } from './ConfigValidator';
 import * as dotenv from 'dotenv';
 
@@ -20,6 +20,13 @@ export class ConfigLoader {
       ai: this.loadAIConfig(),
       maps: this.loadMapsConfig(),
       notification: this.loadNotificationConfig(),
+      points: this.loadPointsConfig(),
+      events: this.loadEventsConfig(),
+      jobs: this.loadJobsConfig(),
+      handoff: this.loadHandoffConfig(),
+      listings: this.loadListingsConfig(),
+      emailVerification: this.loadEmailVerificationConfig(),
+      passwordReset: this.loadPasswordResetConfig(),
       cors: {
         origin: process.env.CORS_ORIGIN?.split(',').map(o => o.trim()) || ['http://localhost:3000'],
         credentials: process.env.CORS_CREDENTIALS === 'true',
@@ -222,6 +229,91 @@ export class ConfigLoader {
     }
   }
 
+  private static loadPointsConfig(): PointsConfig {
+    // Format: "category:multiplier,category:multiplier"
+    const categoryMultipliers: Record<string, number> = {};
+    const multipliersRaw = process.env.POINTS_CATEGORY_MULTIPLIERS ?? 'furniture:1.5,appliances:1.5,electronics:1.25';
+    for (const entry of multipliersRaw.split(',')) {
+      const [category, multiplier] = entry.split(':').map(part => part.trim());
+      if (category && multiplier) {
+        categoryMultipliers[category.toLowerCase()] = parseFloat(multiplier);
+      }
+    }
+
+    return {
+      itemPosted: parseInt(process.env.POINTS_ITEM_POSTED || '25', 10),
+      exchangeGiver: parseInt(process.env.POINTS_EXCHANGE_GIVER || '100', 10),
+      exchangeReceiver: parseInt(process.env.POINTS_EXCHANGE_RECEIVER || '50', 10),
+      accountVerified: parseInt(process.env.POINTS_ACCOUNT_VERIFIED || '50', 10),
+      quickExchangeBonus: parseInt(process.env.POINTS_QUICK_EXCHANGE_BONUS || '25', 10),
+      quickExchangeDays: parseInt(process.env.POINTS_QUICK_EXCHANGE_DAYS || '3', 10),
+      conditionBonusPerLevel: parseInt(process.env.POINTS_CONDITION_BONUS_PER_LEVEL || '5', 10),
+      categoryMultipliers,
+      dailyCap: parseInt(process.env.POINTS_DAILY_CAP || '500', 10), // 0 disables the cap
+    };
+  }
+
+  private static loadEventsConfig(): EventsConfig {
+    return {
+      pollIntervalMs: parseInt(process.env.EVENTS_POLL_INTERVAL_MS || '1000', 10),
+      batchSize: parseInt(process.env.EVENTS_BATCH_SIZE || '50', 10),
+      maxAttempts: parseInt(process.env.EVENTS_MAX_ATTEMPTS || '8', 10),
+      retryBaseDelayMs: parseInt(process.env.EVENTS_RETRY_BASE_DELAY_MS || '5000', 10), // Doubles after each failure
+    };
+  }
+
+  private static loadJobsConfig(): JobsConfig {
+    return {
+      enabled: process.env.JOBS_ENABLED !== 'false',
+      intervalMs: parseInt(process.env.JOBS_INTERVAL_MS || '900000', 10), // 15 minutes
+      pickupReminderLeadHours: parseInt(process.env.JOBS_PICKUP_REMINDER_LEAD_HOURS || '24', 10),
+      overdueGraceHours: parseInt(process.env.JOBS_OVERDUE_GRACE_HOURS || '72', 10),
+      staleItemDays: parseInt(process.env.JOBS_STALE_ITEM_DAYS || '30', 10),
+    };
+  }
+
+  private static loadHandoffConfig(): HandoffConfig {
+    return {
+      codeTtlHours: parseInt(process.env.HANDOFF_CODE_TTL_HOURS || '168', 10), // 7 days
+      maxCodeAttempts: parseInt(process.env.HANDOFF_CODE_MAX_ATTEMPTS || '5', 10),
+      allowDualConfirmation: process.env.HANDOFF_ALLOW_DUAL_CONFIRMATION !== 'false',
+      codeSecret: process.env.HANDOFF_CODE_SECRET || 'your-handoff-code-secret',
+    };
+  }
+
+  private static loadListingsConfig(): ListingsConfig {
+    // Format: "category:days,category:days"
+    const categoryLifetimeDays: Record<string, number> = {};
+    const lifetimesRaw = process.env.LISTING_CATEGORY_LIFETIME_DAYS ?? 'furniture:90,appliances:90,clothing:30';
+    for (const entry of lifetimesRaw.split(',')) {
+      const [category, days] = entry.split(':').map(part => part.trim());
+      if (category && days) {
+        categoryLifetimeDays[category.toLowerCase()] = parseInt(days, 10);
+      }
+    }
+
+    return {
+      lifetimeDays: parseInt(process.env.LISTING_LIFETIME_DAYS || '60', 10),
+      categoryLifetimeDays,
+      renewalReminderDays: parseInt(process.env.LISTING_RENEWAL_REMINDER_DAYS || '3', 10),
+    };
+  }
+
+  private static loadEmailVerificationConfig(): EmailVerificationConfig {
+    return {
+      tokenTtlHours: parseInt(process.env.EMAIL_VERIFICATION_TOKEN_TTL_HOURS || '24', 10),
+      resendCooldownSeconds: parseInt(process.env.EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS || '60', 10),
+      maxEmailsPerDay: parseInt(process.env.EMAIL_VERIFICATION_MAX_EMAILS_PER_DAY || '5', 10),
+    };
+  }
+
+  private static loadPasswordResetConfig(): PasswordResetConfig {
+    return {
+      tokenTtlMinutes: parseInt(process.env.PASSWORD_RESET_TOKEN_TTL_MINUTES || '60', 10),
+      requestCooldownSeconds: parseInt(process.env.PASSWORD_RESET_REQUEST_COOLDOWN_SECONDS || '60', 10),
+    };
+  }
+
   private static loadNotificationConfig(): NotificationConfig {
     const provider = (process.env.NOTIFICATION_PROVIDER as any) || 'sendgrid';
     
@@ -47,6 +47,17 @@ export class ConfigValidator {
     // Validate notification configuration
     this.validateNotificationConfig(config, missingFields, invalidFields);
 
+    // Validate eco-points rules
+    this.validatePointsConfig(config, invalidFields);
+
+    // Validate domain event dispatcher settings
+    this.validateEventsConfig(config, invalidFields);
+    this.validateJobsConfig(config, invalidFields);
+    this.validateHandoffConfig(config, invalidFields);
+    this.validateListingsConfig(config, invalidFields);
+    this.validateEmailVerificationConfig(config, invalidFields);
+    this.validatePasswordResetConfig(config, invalidFields);
+
     // Validate CORS configuration
     if (!config.cors.origin || config.cors.origin.length === 0) {
       missingFields.push('CORS_ORIGIN');
@@ -351,6 +362,155 @@ export class ConfigValidator {
     }
   }
 
+  private static validatePointsConfig(
+    config: AppConfig,
+    invalidFields: string[]
+  ): void {
+    const points = config.points;
+    const amounts: Array<[string, number]> = [
+      ['POINTS_ITEM_POSTED', points.itemPosted],
+      ['POINTS_EXCHANGE_GIVER', points.exchangeGiver],
+      ['POINTS_EXCHANGE_RECEIVER', points.exchangeReceiver],
+      ['POINTS_ACCOUNT_VERIFIED', points.accountVerified],
+      ['POINTS_QUICK_EXCHANGE_BONUS', points.quickExchangeBonus],
+      ['POINTS_QUICK_EXCHANGE_DAYS', points.quickExchangeDays],
+      ['POINTS_CONDITION_BONUS_PER_LEVEL', points.conditionBonusPerLevel],
+      ['POINTS_DAILY_CAP', points.dailyCap],
+    ];
+
+    for (const [field, value] of amounts) {
+      if (!Number.isFinite(value) || value < 0) {
+        invalidFields.push(`${field} (must be a non-negative number)`);
+      }
+    }
+
+    for (const [category, multiplier] of Object.entries(points.categoryMultipliers)) {
+      if (!Number.isFinite(multiplier) || multiplier <= 0) {
+        invalidFields.push(`POINTS_CATEGORY_MULTIPLIERS (invalid multiplier for ${category})`);
+      }
+    }
+  }
+
+  private static validateEventsConfig(
+    config: AppConfig,
+    invalidFields: string[]
+  ): void {
+    const events = config.events;
+    const settings: Array<[string, number]> = [
+      ['EVENTS_POLL_INTERVAL_MS', events.pollIntervalMs],
+      ['EVENTS_BATCH_SIZE', events.batchSize],
+      ['EVENTS_MAX_ATTEMPTS', events.maxAttempts],
+      ['EVENTS_RETRY_BASE_DELAY_MS', events.retryBaseDelayMs],
+    ];
+
+    for (const [field, value] of settings) {
+      if (!Number.isFinite(value) || value < 1) {
+        invalidFields.push(`${field} (must be a positive number)`);
+      }
+    }
+  }
+
+  private static validateJobsConfig(
+    config: AppConfig,
+    invalidFields: string[]
+  ): void {
+    const jobs = config.jobs;
+    const settings: Array<[string, number]> = [
+      ['JOBS_INTERVAL_MS', jobs.intervalMs],
+      ['JOBS_PICKUP_REMINDER_LEAD_HOURS', jobs.pickupReminderLeadHours],
+      ['JOBS_STALE_ITEM_DAYS', jobs.staleItemDays],
+    ];
+
+    for (const [field, value] of settings) {
+      if (!Number.isFinite(value) || value < 1) {
+        invalidFields.push(`${field} (must be a positive number)`);
+      }
+    }
+
+    if (!Number.isFinite(jobs.overdueGraceHours) || jobs.overdueGraceHours < 0) {
+      invalidFields.push('JOBS_OVERDUE_GRACE_HOURS (must be zero or a positive number)');
+    }
+  }
+
+  private static validateHandoffConfig(
+    config: AppConfig,
+    invalidFields: string[]
+  ): void {
+    const handoff = config.handoff;
+    const settings: Array<[string, number]> = [
+      ['HANDOFF_CODE_TTL_HOURS', handoff.codeTtlHours],
+      ['HANDOFF_CODE_MAX_ATTEMPTS', handoff.maxCodeAttempts],
+    ];
+
+    for (const [field, value] of settings) {
+      if (!Number.isFinite(value) || value < 1) {
+        invalidFields.push(`${field} (must be a positive number)`);
+      }
+    }
+
+    if (config.nodeEnv === 'production' && handoff.codeSecret === 'your-handoff-code-secret') {
+      invalidFields.push('HANDOFF_CODE_SECRET (must be changed in production)');
+    }
+  }
+
+  private static validateListingsConfig(
+    config: AppConfig,
+    invalidFields: string[]
+  ): void {
+    const listings = config.listings;
+    const settings: Array<[string, number]> = [
+      ['LISTING_LIFETIME_DAYS', listings.lifetimeDays],
+      ['LISTING_RENEWAL_REMINDER_DAYS', listings.renewalReminderDays],
+    ];
+
+    for (const [field, value] of settings) {
+      if (!Number.isFinite(value) || value < 1) {
+        invalidFields.push(`${field} (must be a positive number)`);
+      }
+    }
+
+    for (const [category, days] of Object.entries(listings.categoryLifetimeDays)) {
+      if (!Number.isFinite(days) || days < 1) {
+        invalidFields.push(`LISTING_CATEGORY_LIFETIME_DAYS (invalid lifetime for ${category})`);
+      }
+    }
+  }
+
+  private static validateEmailVerificationConfig(
+    config: AppConfig,
+    invalidFields: string[]
+  ): void {
+    const verification = config.emailVerification;
+    const settings: Array<[string, number]> = [
+      ['EMAIL_VERIFICATION_TOKEN_TTL_HOURS', verification.tokenTtlHours],
+      ['EMAIL_VERIFICATION_MAX_EMAILS_PER_DAY', verification.maxEmailsPerDay],
+    ];
+
+    for (const [field, value] of settings) {
+      if (!Number.isFinite(value) || value < 1) {
+        invalidFields.push(`${field} (must be a positive number)`);
+      }
+    }
+
+    if (!Number.isFinite(verification.resendCooldownSeconds) || verification.resendCooldownSeconds < 0) {
+      invalidFields.push('EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS (must be zero or a positive number)');
+    }
+  }
+
+  private static validatePasswordResetConfig(
+    config: AppConfig,
+    invalidFields: string[]
+  ): void {
+    const passwordReset = config.passwordReset;
+
+    if (!Number.isFinite(passwordReset.tokenTtlMinutes) || passwordReset.tokenTtlMinutes < 1) {
+      invalidFields.push('PASSWORD_RESET_TOKEN_TTL_MINUTES (must be a positive number)');
+    }
+    if (!Number.isFinite(passwordReset.requestCooldownSeconds) || passwordReset.requestCooldownSeconds < 0) {
+      invalidFields.push('PASSWORD_RESET_REQUEST_COOLDOWN_SECONDS (must be zero or a positive number)');
+    }
+  }
+
   private static buildErrorMessage(missingFields: string[], invalidFields: string[]): string {
     const messages: string[] = ['Configuration validation failed:'];
 
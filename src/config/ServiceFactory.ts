@@ -4,6 +4,8 @@ import { IAuthenticationService } from '../infrastructure/services/IAuthenticati
 import { IAIService } from '../infrastructure/services/IAIService';
 import { IMapsService } from '../infrastructure/services/IMapsService';
 import { INotificationService } from '../infrastructure/services/INotificationService';
+import { IImageProcessingService } from '../infrastructure/services/IImageProcessingService';
+import { IAuthTokenRepository } from '../infrastructure/repositories/IAuthTokenRepository';
 
 // Import adapters
 import { S3FileStorageService } from '../infrastructure/services/adapters/S3FileStorageService';
@@ -14,6 +16,7 @@ import { OpenAIService } from '../infrastructure/services/adapters/OpenAIService
 import { GoogleAIService } from '../infrastructure/services/adapters/GoogleAIService';
 import { GoogleMapsService } from '../infrastructure/services/adapters/GoogleMapsService';
 import { SendGridNotificationService } from '../infrastructure/services/adapters/SendGridNotificationService';
+import { SharpImageProcessingService } from '../infrastructure/services/adapters/SharpImageProcessingService';
 
 /**
  * Factory class for creating service instances based on configuration
@@ -51,7 +54,7 @@ export class ServiceFactory {
   /**
    * Creates an authentication service based on the auth configuration
    */
-  static createAuthService(config: AuthConfig): IAuthenticationService {
+  static createAuthService(config: AuthConfig, tokenRepository: IAuthTokenRepository): IAuthenticationService {
     switch (config.provider) {
       case 'auth0':
         return new Auth0AuthenticationService({
@@ -78,7 +81,7 @@ export class ServiceFactory {
           jwtIssuer: config.config.jwtIssuer,
           jwtAudience: config.config.jwtAudience,
           clockToleranceSec: config.config.clockToleranceSec
-        });
+        }, tokenRepository);
 
       default:
         throw new Error(`Unsupported auth provider: ${config.provider}`);
@@ -160,22 +163,31 @@ export class ServiceFactory {
     }
   }
 
+  /**
+   * Creates the image processing service used for item photo uploads
+   */
+  static createImageProcessingService(): IImageProcessingService {
+    return new SharpImageProcessingService();
+  }
+
   /**
    * Creates all services from the application configuration
    */
-  static createAllServices(config: AppConfig): {
+  static createAllServices(config: AppConfig, tokenRepository: IAuthTokenRepository): {
     fileStorageService: IFileStorageService;
     authService: IAuthenticationService;
     aiService: IAIService;
     mapsService: IMapsService;
     notificationService: INotificationService;
+    imageProcessingService: IImageProcessingService;
   } {
     return {
       fileStorageService: this.createFileStorageService(config.storage),
-      authService: this.createAuthService(config.auth),
+      authService: this.createAuthService(config.auth, tokenRepository),
       aiService: this.createAIService(config.ai),
       mapsService: this.createMapsService(config.maps),
       notificationService: this.createNotificationService(config.notification),
+      imageProcessingService: this.createImageProcessingService(),
     };
   }
 }
@@ -51,4 +51,30 @@ describe('ConfigLoader', () => {
     expect(config.rateLimit.windowMs).toBe(900000); // 15 minutes
     expect(config.rateLimit.max).toBe(100);
   });
+
+  it('should configure eco-points rules', () => {
+    process.env.POINTS_DAILY_CAP = '200';
+    process.env.POINTS_CATEGORY_MULTIPLIERS = 'Furniture:2, books:0.5';
+
+    const config = ConfigLoader.load();
+
+    expect(config.points.itemPosted).toBe(25);
+    expect(config.points.dailyCap).toBe(200);
+    expect(config.points.categoryMultipliers).toEqual({ furniture: 2, books: 0.5 });
+
+    delete process.env.POINTS_DAILY_CAP;
+    delete process.env.POINTS_CATEGORY_MULTIPLIERS;
+  });
+
+  it('should configure listing lifetimes per category', () => {
+    process.env.LISTING_CATEGORY_LIFETIME_DAYS = 'Furniture:120, books:45';
+
+    const config = ConfigLoader.load();
+
+    expect(config.listings.lifetimeDays).toBe(60);
+    expect(config.listings.renewalReminderDays).toBe(3);
+    expect(config.listings.categoryLifetimeDays).toEqual({ furniture: 120, books: 45 });
+
+    delete process.env.LISTING_CATEGORY_LIFETIME_DAYS;
+  });
 });
\ No newline at end of file
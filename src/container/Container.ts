@@ -25,18 +25,45 @@ export class DIContainer {
     const { DatabaseConnection } = require('@/infrastructure/database/DatabaseConnection');
     container.bind(TYPES.DatabaseConnection).to(DatabaseConnection).inSingletonScope();
 
+    const { PostgreSQLUnitOfWork } = require('@/infrastructure/database/PostgreSQLUnitOfWork');
+    container.bind(TYPES.IUnitOfWork).to(PostgreSQLUnitOfWork).inSingletonScope();
+
     // Import and bind repositories
     const { PostgreSQLUserRepository } = require('@/infrastructure/repositories/postgresql/PostgreSQLUserRepository');
     const { PostgreSQLItemRepository } = require('@/infrastructure/repositories/postgresql/PostgreSQLItemRepository');
     const { PostgreSQLExchangeRepository } = require('@/infrastructure/repositories/postgresql/PostgreSQLExchangeRepository');
     const { PostgreSQLBadgeRepository } = require('@/infrastructure/repositories/postgresql/PostgreSQLBadgeRepository');
     const { PostgreSQLAchievementRepository } = require('@/infrastructure/repositories/postgresql/PostgreSQLAchievementRepository');
+    const { PostgreSQLItemRequestRepository } = require('@/infrastructure/repositories/postgresql/PostgreSQLItemRequestRepository');
+    const { PostgreSQLExchangeMessageRepository } = require('@/infrastructure/repositories/postgresql/PostgreSQLExchangeMessageRepository');
+    const { PostgreSQLExchangeDisputeRepository } = require('@/infrastructure/repositories/postgresql/PostgreSQLExchangeDisputeRepository');
+    const { PostgreSQLSavedSearchRepository } = require('@/infrastructure/repositories/postgresql/PostgreSQLSavedSearchRepository');
+    const { PostgreSQLWantedPostRepository } = require('@/infrastructure/repositories/postgresql/PostgreSQLWantedPostRepository');
+    const { PostgreSQLEcoPointsLedgerRepository } = require('@/infrastructure/repositories/postgresql/PostgreSQLEcoPointsLedgerRepository');
+    const { PostgreSQLItemRevisionRepository } = require('@/infrastructure/repositories/postgresql/PostgreSQLItemRevisionRepository');
+    const { PostgreSQLEmailVerificationTokenRepository } = require('@/infrastructure/repositories/postgresql/PostgreSQLEmailVerificationTokenRepository');
+    const { PostgreSQLAuthTokenRepository } = require('@/infrastructure/repositories/postgresql/PostgreSQLAuthTokenRepository');
+    const { PostgreSQLPasswordResetTokenRepository } = require('@/infrastructure/repositories/postgresql/PostgreSQLPasswordResetTokenRepository');
+    const { PostgreSQLUserRoleRepository } = require('@/infrastructure/repositories/postgresql/PostgreSQLUserRoleRepository');
+    const { PostgreSQLDomainEventOutboxRepository } = require('@/infrastructure/repositories/postgresql/PostgreSQLDomainEventOutboxRepository');
 
     container.bind(TYPES.IUserRepository).to(PostgreSQLUserRepository).inSingletonScope();
     container.bind(TYPES.IItemRepository).to(PostgreSQLItemRepository).inSingletonScope();
     container.bind(TYPES.IExchangeRepository).to(PostgreSQLExchangeRepository).inSingletonScope();
     container.bind(TYPES.IBadgeRepository).to(PostgreSQLBadgeRepository).inSingletonScope();
     container.bind(TYPES.IAchievementRepository).to(PostgreSQLAchievementRepository).inSingletonScope();
+    container.bind(TYPES.IItemRequestRepository).to(PostgreSQLItemRequestRepository).inSingletonScope();
+    container.bind(TYPES.IExchangeMessageRepository).to(PostgreSQLExchangeMessageRepository).inSingletonScope();
+    container.bind(TYPES.IExchangeDisputeRepository).to(PostgreSQLExchangeDisputeRepository).inSingletonScope();
+    container.bind(TYPES.ISavedSearchRepository).to(PostgreSQLSavedSearchRepository).inSingletonScope();
+    container.bind(TYPES.IWantedPostRepository).to(PostgreSQLWantedPostRepository).inSingletonScope();
+    container.bind(TYPES.IEcoPointsLedgerRepository).to(PostgreSQLEcoPointsLedgerRepository).inSingletonScope();
+    container.bind(TYPES.IItemRevisionRepository).to(PostgreSQLItemRevisionRepository).inSingletonScope();
+    container.bind(TYPES.IEmailVerificationTokenRepository).to(PostgreSQLEmailVerificationTokenRepository).inSingletonScope();
+    container.bind(TYPES.IAuthTokenRepository).to(PostgreSQLAuthTokenRepository).inSingletonScope();
+    container.bind(TYPES.IPasswordResetTokenRepository).to(PostgreSQLPasswordResetTokenRepository).inSingletonScope();
+    container.bind(TYPES.IUserRoleRepository).to(PostgreSQLUserRoleRepository).inSingletonScope();
+    container.bind(TYPES.IDomainEventOutboxRepository).to(PostgreSQLDomainEventOutboxRepository).inSingletonScope();
 
     // Import ServiceFactory to create services based on configuration
     const { ServiceFactory } = require('@/config/ServiceFactory');
@@ -44,9 +71,10 @@ export class DIContainer {
     // Create services using the factory based on configuration
     const fileStorageService = ServiceFactory.createFileStorageService(config.storage);
     const aiService = ServiceFactory.createAIService(config.ai);
-    const authService = ServiceFactory.createAuthService(config.auth);
+    const authService = ServiceFactory.createAuthService(config.auth, container.get(TYPES.IAuthTokenRepository));
     const mapsService = ServiceFactory.createMapsService(config.maps);
     const notificationService = ServiceFactory.createNotificationService(config.notification);
+    const imageProcessingService = ServiceFactory.createImageProcessingService();
 
     // Bind services as constant values (already instantiated)
     container.bind(TYPES.IFileStorageService).toConstantValue(fileStorageService);
@@ -54,6 +82,7 @@ export class DIContainer {
     container.bind(TYPES.IAuthenticationService).toConstantValue(authService);
     container.bind(TYPES.IMapsService).toConstantValue(mapsService);
     container.bind(TYPES.INotificationService).toConstantValue(notificationService);
+    container.bind(TYPES.IImageProcessingService).toConstantValue(imageProcessingService);
 
     // Import and bind application services
     const { UserApplicationService } = require('@/application/services/UserApplicationService');
@@ -61,27 +90,93 @@ export class DIContainer {
     const { ExchangeApplicationService } = require('@/application/services/ExchangeApplicationService');
     const { MatchingApplicationService } = require('@/application/services/MatchingApplicationService');
     const { PointsApplicationService } = require('@/application/services/PointsApplicationService');
+    const { ExchangeMessageApplicationService } = require('@/application/services/ExchangeMessageApplicationService');
+    const { ExchangeDisputeApplicationService } = require('@/application/services/ExchangeDisputeApplicationService');
+    const { SavedSearchApplicationService } = require('@/application/services/SavedSearchApplicationService');
+    const { WantedPostApplicationService } = require('@/application/services/WantedPostApplicationService');
+    const { AdminApplicationService } = require('@/application/services/AdminApplicationService');
 
     container.bind(TYPES.IUserApplicationService).to(UserApplicationService).inSingletonScope();
     container.bind(TYPES.IItemApplicationService).to(ItemApplicationService).inSingletonScope();
     container.bind(TYPES.IExchangeApplicationService).to(ExchangeApplicationService).inSingletonScope();
     container.bind(TYPES.IMatchingApplicationService).to(MatchingApplicationService).inSingletonScope();
     container.bind(TYPES.IPointsApplicationService).to(PointsApplicationService).inSingletonScope();
+    container.bind(TYPES.IExchangeMessageApplicationService).to(ExchangeMessageApplicationService).inSingletonScope();
+    container.bind(TYPES.IExchangeDisputeApplicationService).to(ExchangeDisputeApplicationService).inSingletonScope();
+    container.bind(TYPES.ISavedSearchApplicationService).to(SavedSearchApplicationService).inSingletonScope();
+    container.bind(TYPES.IWantedPostApplicationService).to(WantedPostApplicationService).inSingletonScope();
+    container.bind(TYPES.IAdminApplicationService).to(AdminApplicationService).inSingletonScope();
+
+    // Import and bind domain event subscribers and dispatcher
+    const { PointsEventSubscriber } = require('@/application/events/subscribers/PointsEventSubscriber');
+    const { MatchingEventSubscriber } = require('@/application/events/subscribers/MatchingEventSubscriber');
+    const { SavedSearchEventSubscriber } = require('@/application/events/subscribers/SavedSearchEventSubscriber');
+    const { WantedPostEventSubscriber } = require('@/application/events/subscribers/WantedPostEventSubscriber');
+    const { ExchangeNotificationSubscriber } = require('@/application/events/subscribers/ExchangeNotificationSubscriber');
+    const { ListingNotificationSubscriber } = require('@/application/events/subscribers/ListingNotificationSubscriber');
+    const { SavedSearchAlertSubscriber } = require('@/application/events/subscribers/SavedSearchAlertSubscriber');
+    const { AccountNotificationSubscriber } = require('@/application/events/subscribers/AccountNotificationSubscriber');
+    const { PasswordResetSubscriber } = require('@/application/events/subscribers/PasswordResetSubscriber');
+    const { EmailDeliverySubscriber } = require('@/application/events/subscribers/EmailDeliverySubscriber');
+    const { EmailQueue } = require('@/application/events/EmailQueue');
+    const { DomainEventDispatcher } = require('@/application/events/DomainEventDispatcher');
+
+    // Subscribers run in binding order; points go first so notifications can mention them
+    container.bind(TYPES.IDomainEventSubscriber).to(PointsEventSubscriber).inSingletonScope();
+    container.bind(TYPES.IDomainEventSubscriber).to(MatchingEventSubscriber).inSingletonScope();
+    container.bind(TYPES.IDomainEventSubscriber).to(SavedSearchEventSubscriber).inSingletonScope();
+    container.bind(TYPES.IDomainEventSubscriber).to(WantedPostEventSubscriber).inSingletonScope();
+    container.bind(TYPES.IDomainEventSubscriber).to(ExchangeNotificationSubscriber).inSingletonScope();
+    container.bind(TYPES.IDomainEventSubscriber).to(ListingNotificationSubscriber).inSingletonScope();
+    container.bind(TYPES.IDomainEventSubscriber).to(SavedSearchAlertSubscriber).inSingletonScope();
+    container.bind(TYPES.IDomainEventSubscriber).to(AccountNotificationSubscriber).inSingletonScope();
+    container.bind(TYPES.IDomainEventSubscriber).to(PasswordResetSubscriber).inSingletonScope();
+    // Notification subscribers queue one email per recipient; this one sends them
+    container.bind(TYPES.IDomainEventSubscriber).to(EmailDeliverySubscriber).inSingletonScope();
+    container.bind(TYPES.EmailQueue).to(EmailQueue).inSingletonScope();
+    container.bind(TYPES.DomainEventDispatcher).to(DomainEventDispatcher).inSingletonScope();
+
+    // Import and bind scheduled jobs and scheduler
+    const { PickupReminderJob } = require('@/application/jobs/scheduled/PickupReminderJob');
+    const { OverdueExchangeExpiryJob } = require('@/application/jobs/scheduled/OverdueExchangeExpiryJob');
+    const { StaleItemReminderJob } = require('@/application/jobs/scheduled/StaleItemReminderJob');
+    const { ListingRenewalReminderJob } = require('@/application/jobs/scheduled/ListingRenewalReminderJob');
+    const { ListingExpiryJob } = require('@/application/jobs/scheduled/ListingExpiryJob');
+    const { SavedSearchAlertJob } = require('@/application/jobs/scheduled/SavedSearchAlertJob');
+    const { AuthTokenCleanupJob } = require('@/application/jobs/scheduled/AuthTokenCleanupJob');
+    const { JobScheduler } = require('@/application/jobs/JobScheduler');
+
+    container.bind(TYPES.IScheduledJob).to(PickupReminderJob).inSingletonScope();
+    container.bind(TYPES.IScheduledJob).to(OverdueExchangeExpiryJob).inSingletonScope();
+    container.bind(TYPES.IScheduledJob).to(StaleItemReminderJob).inSingletonScope();
+    container.bind(TYPES.IScheduledJob).to(ListingRenewalReminderJob).inSingletonScope();
+    container.bind(TYPES.IScheduledJob).to(ListingExpiryJob).inSingletonScope();
+    container.bind(TYPES.IScheduledJob).to(SavedSearchAlertJob).inSingletonScope();
+    container.bind(TYPES.IScheduledJob).to(AuthTokenCleanupJob).inSingletonScope();
+    container.bind(TYPES.JobScheduler).to(JobScheduler).inSingletonScope();
 
     // Import and bind controllers
     const { ItemController } = require('@/api/controllers/item.controller');
     const { UserController } = require('@/api/controllers/user.controller');
     const { ExchangeController } = require('@/api/controllers/exchange.controller');
+    const { DisputeController } = require('@/api/controllers/dispute.controller');
     const { MatchingController } = require('@/api/controllers/matching.controller');
+    const { SavedSearchController } = require('@/api/controllers/saved-search.controller');
+    const { WantedPostController } = require('@/api/controllers/wanted-post.controller');
     const { AuthController } = require('@/api/controllers/auth.controller');
     const { PointsController } = require('@/api/controllers/points.controller');
+    const { AdminController } = require('@/api/controllers/admin.controller');
 
     container.bind(TYPES.ItemController).to(ItemController).inSingletonScope();
     container.bind(TYPES.UserController).to(UserController).inSingletonScope();
     container.bind(TYPES.ExchangeController).to(ExchangeController).inSingletonScope();
+    container.bind(TYPES.DisputeController).to(DisputeController).inSingletonScope();
     container.bind(TYPES.MatchingController).to(MatchingController).inSingletonScope();
+    container.bind(TYPES.SavedSearchController).to(SavedSearchController).inSingletonScope();
+    container.bind(TYPES.WantedPostController).to(WantedPostController).inSingletonScope();
     container.bind(TYPES.AuthController).to(AuthController).inSingletonScope();
     container.bind(TYPES.PointsController).to(PointsController).inSingletonScope();
+    container.bind(TYPES.AdminController).to(AdminController).inSingletonScope();
   }
 
   static reset(): void {
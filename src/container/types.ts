@@ -4,6 +4,7 @@ export const TYPES = {
   
   // Database
   DatabaseConnection: Symbol.for('DatabaseConnection'),
+  IUnitOfWork: Symbol.for('IUnitOfWork'),
   
   // Repositories
   IItemRepository: Symbol.for('IItemRepository'),
@@ -11,6 +12,18 @@ export const TYPES = {
   IExchangeRepository: Symbol.for('IExchangeRepository'),
   IBadgeRepository: Symbol.for('IBadgeRepository'),
   IAchievementRepository: Symbol.for('IAchievementRepository'),
+  IItemRequestRepository: Symbol.for('IItemRequestRepository'),
+  IExchangeMessageRepository: Symbol.for('IExchangeMessageRepository'),
+  IExchangeDisputeRepository: Symbol.for('IExchangeDisputeRepository'),
+  ISavedSearchRepository: Symbol.for('ISavedSearchRepository'),
+  IWantedPostRepository: Symbol.for('IWantedPostRepository'),
+  IEcoPointsLedgerRepository: Symbol.for('IEcoPointsLedgerRepository'),
+  IItemRevisionRepository: Symbol.for('IItemRevisionRepository'),
+  IEmailVerificationTokenRepository: Symbol.for('IEmailVerificationTokenRepository'),
+  IAuthTokenRepository: Symbol.for('IAuthTokenRepository'),
+  IPasswordResetTokenRepository: Symbol.for('IPasswordResetTokenRepository'),
+  IUserRoleRepository: Symbol.for('IUserRoleRepository'),
+  IDomainEventOutboxRepository: Symbol.for('IDomainEventOutboxRepository'),
   
   // Infrastructure Services
   IFileStorageService: Symbol.for('IFileStorageService'),
@@ -18,6 +31,7 @@ export const TYPES = {
   IAuthenticationService: Symbol.for('IAuthenticationService'),
   IMapsService: Symbol.for('IMapsService'),
   INotificationService: Symbol.for('INotificationService'),
+  IImageProcessingService: Symbol.for('IImageProcessingService'),
   
   // Application Services
   IItemApplicationService: Symbol.for('IItemApplicationService'),
@@ -25,12 +39,30 @@ export const TYPES = {
   IExchangeApplicationService: Symbol.for('IExchangeApplicationService'),
   IMatchingApplicationService: Symbol.for('IMatchingApplicationService'),
   IPointsApplicationService: Symbol.for('IPointsApplicationService'),
+  IExchangeMessageApplicationService: Symbol.for('IExchangeMessageApplicationService'),
+  IExchangeDisputeApplicationService: Symbol.for('IExchangeDisputeApplicationService'),
+  ISavedSearchApplicationService: Symbol.for('ISavedSearchApplicationService'),
+  IWantedPostApplicationService: Symbol.for('IWantedPostApplicationService'),
+  IAdminApplicationService: Symbol.for('IAdminApplicationService'),
+
+  // Domain Events
+  IDomainEventSubscriber: Symbol.for('IDomainEventSubscriber'),
+  DomainEventDispatcher: Symbol.for('DomainEventDispatcher'),
+  EmailQueue: Symbol.for('EmailQueue'),
+
+  // Scheduled Jobs
+  IScheduledJob: Symbol.for('IScheduledJob'),
+  JobScheduler: Symbol.for('JobScheduler'),
   
   // Controllers
   ItemController: Symbol.for('ItemController'),
   UserController: Symbol.for('UserController'),
   ExchangeController: Symbol.for('ExchangeController'),
+  DisputeController: Symbol.for('DisputeController'),
   MatchingController: Symbol.for('MatchingController'),
+  SavedSearchController: Symbol.for('SavedSearchController'),
+  WantedPostController: Symbol.for('WantedPostController'),
   PointsController: Symbol.for('PointsController'),
+  AdminController: Symbol.for('AdminController'),
   AuthController: Symbol.for('AuthController'),
 };
\ No newline at end of file
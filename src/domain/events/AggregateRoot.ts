@@ -0,0 +1,22 @@
+import { DomainEvent } from './DomainEvent';
+
+/**
+ * Base for entities that record domain events. Repositories write the
+ * recorded events to the outbox in the same transaction as the entity and
+ * then clear them.
+ */
+export abstract class AggregateRoot<TEvent extends DomainEvent = DomainEvent> {
+  private _domainEvents: TEvent[] = [];
+
+  get domainEvents(): readonly TEvent[] {
+    return this._domainEvents;
+  }
+
+  clearDomainEvents(): void {
+    this._domainEvents = [];
+  }
+
+  protected recordEvent(event: TEvent): void {
+    this._domainEvents.push(event);
+  }
+}
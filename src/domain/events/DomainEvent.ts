@@ -0,0 +1,30 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Something that happened to an aggregate. Payloads are stored as JSON, so
+ * they should only carry plain values (dates as ISO strings).
+ */
+export interface DomainEvent<TType extends string = string, TPayload extends object = object> {
+  eventId: string;
+  eventType: TType;
+  aggregateType: string;
+  aggregateId: string;
+  occurredAt: Date;
+  payload: TPayload;
+}
+
+export function createDomainEvent<TType extends string, TPayload extends object>(
+  eventType: TType,
+  aggregateType: string,
+  aggregateId: string,
+  payload: TPayload
+): DomainEvent<TType, TPayload> {
+  return {
+    eventId: randomUUID(),
+    eventType,
+    aggregateType,
+    aggregateId,
+    occurredAt: new Date(),
+    payload
+  };
+}
@@ -0,0 +1,2 @@
+export { DomainEvent, createDomainEvent } from './DomainEvent';
+export { AggregateRoot } from './AggregateRoot';
@@ -1,14 +1,22 @@
 import { ExchangeId } from './value-objects/ExchangeId';
 import { ExchangeStatus, ExchangeStatusValue } from './value-objects/ExchangeStatus';
 import { Rating, RatingData } from './value-objects/Rating';
+import { PickupSlot, PickupSlotData } from './value-objects/PickupSlot';
+import { HandoffCode, HandoffCodeData } from './value-objects/HandoffCode';
+import { DisputeReason } from './value-objects/DisputeReason';
 import { ItemId } from '../item/value-objects/ItemId';
 import { UserId } from '../user/value-objects/UserId';
+import { AggregateRoot } from '../events/AggregateRoot';
+import { createDomainEvent } from '../events/DomainEvent';
+import { ExchangeEvent } from './ExchangeEvents';
 
 export interface CreateExchangeData {
   itemId: string;
   giverId: string;
   receiverId: string;
+  quantity?: number; // Units of the item, defaults to 1
   scheduledPickup?: Date;
+  message?: string; // Only carried on the ExchangeRequested event
 }
 
 export interface ExchangeData {
@@ -17,7 +25,10 @@ export interface ExchangeData {
   giverId: string;
   receiverId: string;
   status: ExchangeStatusValue;
+  quantity?: number;
   scheduledPickup?: Date;
+  scheduledPickupEnd?: Date;
+  pickupSlots?: PickupSlotData[];
   completedAt?: Date;
   giverConfirmedAt?: Date;
   receiverConfirmedAt?: Date;
@@ -25,11 +36,21 @@ export interface ExchangeData {
   receiverRating?: RatingData;
   ecoPointsAwarded: number;
   cancellationReason?: string;
+  pickupReminderSentAt?: Date;
+  handoffCode?: HandoffCodeData;
+  statusBeforeDispute?: ExchangeStatusValue;
   createdAt: Date;
   updatedAt: Date;
 }
 
-export class Exchange {
+export interface PickupWindow {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export class Exchange extends AggregateRoot<ExchangeEvent> {
+  private static readonly MAX_PICKUP_SLOTS = 10;
+
   private constructor(
     private readonly _id: ExchangeId,
     private readonly _itemId: ItemId,
@@ -39,16 +60,43 @@ export class Exchange {
     private _ecoPointsAwarded: number,
     private readonly _createdAt: Date,
     private _updatedAt: Date,
+    private _pickupSlots: PickupSlot[],
+    private readonly _quantity: number,
     private _scheduledPickup?: Date,
+    private _scheduledPickupEnd?: Date,
     private _completedAt?: Date,
     private _giverConfirmedAt?: Date,
     private _receiverConfirmedAt?: Date,
     private _giverRating?: Rating,
     private _receiverRating?: Rating,
-    private _cancellationReason?: string
-  ) {}
+    private _cancellationReason?: string,
+    private _pickupReminderSentAt?: Date,
+    private _handoffCode?: HandoffCode,
+    private _statusBeforeDispute?: ExchangeStatusValue
+  ) {
+    super();
+  }
 
   static create(data: CreateExchangeData): Exchange {
+    const exchange = Exchange.build(data, ExchangeStatus.requested());
+
+    exchange.recordEvent(createDomainEvent('ExchangeRequested', 'Exchange', exchange._id.value, {
+      ...exchange.participants(),
+      message: data.message?.trim() || undefined
+    }));
+
+    return exchange;
+  }
+
+  /**
+   * Exchanges for a selected item request start out accepted. The request's
+   * ItemRequestSelected event announces them, so nothing is recorded here.
+   */
+  static createFromRequest(data: CreateExchangeData): Exchange {
+    return Exchange.build(data, ExchangeStatus.accepted());
+  }
+
+  private static build(data: CreateExchangeData, status: ExchangeStatus): Exchange {
     const id = ExchangeId.generate();
     const itemId = new ItemId(data.itemId);
     const giverId = new UserId(data.giverId);
@@ -59,7 +107,11 @@ export class Exchange {
       throw new Error('Giver and receiver cannot be the same user');
     }
 
-    const status = ExchangeStatus.requested();
+    const quantity = data.quantity ?? 1;
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new Error('Exchange quantity must be a whole number of at least 1');
+    }
+
     const now = new Date();
 
     return new Exchange(
@@ -71,13 +123,19 @@ export class Exchange {
       0, // ecoPointsAwarded
       now,
       now,
+      [], // pickupSlots
+      quantity,
       data.scheduledPickup,
+      undefined, // scheduledPickupEnd
       undefined, // completedAt
       undefined, // giverConfirmedAt
       undefined, // receiverConfirmedAt
       undefined, // giverRating
       undefined, // receiverRating
-      undefined // cancellationReason
+      undefined, // cancellationReason
+      undefined, // pickupReminderSentAt
+      undefined, // handoffCode
+      undefined // statusBeforeDispute
     );
   }
 
@@ -100,13 +158,19 @@ export class Exchange {
       data.ecoPointsAwarded,
       data.createdAt,
       data.updatedAt,
+      (data.pickupSlots ?? []).map(slot => new PickupSlot(slot)),
+      data.quantity ?? 1,
       data.scheduledPickup,
+      data.scheduledPickupEnd,
       data.completedAt,
       data.giverConfirmedAt,
       data.receiverConfirmedAt,
       giverRating,
       receiverRating,
-      data.cancellationReason
+      data.cancellationReason,
+      data.pickupReminderSentAt,
+      data.handoffCode ? new HandoffCode(data.handoffCode) : undefined,
+      data.statusBeforeDispute
     );
   }
 
@@ -130,10 +194,22 @@ export class Exchange {
     return this._status;
   }
 
+  get quantity(): number {
+    return this._quantity;
+  }
+
   get scheduledPickup(): Date | undefined {
     return this._scheduledPickup;
   }
 
+  get scheduledPickupEnd(): Date | undefined {
+    return this._scheduledPickupEnd;
+  }
+
+  get pickupSlots(): readonly PickupSlot[] {
+    return this._pickupSlots;
+  }
+
   get completedAt(): Date | undefined {
     return this._completedAt;
   }
@@ -162,6 +238,18 @@ export class Exchange {
     return this._cancellationReason;
   }
 
+  get pickupReminderSentAt(): Date | undefined {
+    return this._pickupReminderSentAt;
+  }
+
+  get handoffCode(): HandoffCode | undefined {
+    return this._handoffCode;
+  }
+
+  get statusBeforeDispute(): ExchangeStatusValue | undefined {
+    return this._statusBeforeDispute;
+  }
+
   get createdAt(): Date {
     return this._createdAt;
   }
@@ -176,8 +264,88 @@ export class Exchange {
     }
 
     this._status = ExchangeStatus.accepted();
-    this._scheduledPickup = scheduledPickup;
+    if (scheduledPickup) {
+      // An explicit time replaces any slot agreed while the request was open
+      this.schedulePickup(scheduledPickup);
+    }
+    this._updatedAt = new Date();
+
+    this.recordEvent(createDomainEvent('ExchangeAccepted', 'Exchange', this._id.value, {
+      ...this.participants(),
+      scheduledPickup: this._scheduledPickup?.toISOString()
+    }));
+  }
+
+  /**
+   * Offers pickup windows to the other participant, replacing any windows
+   * this participant offered before. The giver publishes availability and
+   * the receiver can answer with windows of their own.
+   */
+  proposePickupSlots(proposedBy: UserId, windows: PickupWindow[]): void {
+    this.assertPickupCanBeArranged(proposedBy);
+
+    if (windows.length === 0) {
+      throw new Error('At least one pickup slot is required');
+    }
+    if (windows.length > Exchange.MAX_PICKUP_SLOTS) {
+      throw new Error(`Cannot propose more than ${Exchange.MAX_PICKUP_SLOTS} pickup slots`);
+    }
+
+    const slots = windows
+      .map(window => PickupSlot.propose(window.startsAt, window.endsAt, proposedBy.value))
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+
+    for (let i = 1; i < slots.length; i++) {
+      if (slots[i].overlaps(slots[i - 1])) {
+        throw new Error('Pickup slots cannot overlap');
+      }
+    }
+
+    this._pickupSlots = [
+      ...this._pickupSlots.filter(slot => slot.proposedBy !== proposedBy.value),
+      ...slots
+    ];
+    this._updatedAt = new Date();
+
+    this.recordEvent(createDomainEvent('PickupSlotsProposed', 'Exchange', this._id.value, {
+      ...this.participants(),
+      proposedBy: proposedBy.value,
+      slots: slots.map(slot => ({
+        id: slot.id,
+        startsAt: slot.startsAt.toISOString(),
+        endsAt: slot.endsAt.toISOString()
+      }))
+    }));
+  }
+
+  /**
+   * Agrees to a window the other participant proposed. The window becomes
+   * the scheduled pickup and the remaining proposals are dropped.
+   */
+  choosePickupSlot(chosenBy: UserId, slotId: string): void {
+    this.assertPickupCanBeArranged(chosenBy);
+
+    const slot = this._pickupSlots.find(candidate => candidate.id === slotId);
+    if (!slot) {
+      throw new Error('Pickup slot not found');
+    }
+    if (slot.proposedBy === chosenBy.value) {
+      throw new Error('Cannot choose a pickup slot you proposed');
+    }
+    if (slot.hasStarted()) {
+      throw new Error('Pickup slot has already started');
+    }
+
+    this.schedulePickup(slot.startsAt, slot.endsAt);
+    this._pickupSlots = [];
     this._updatedAt = new Date();
+
+    this.recordEvent(createDomainEvent('ExchangePickupScheduled', 'Exchange', this._id.value, {
+      ...this.participants(),
+      scheduledPickup: slot.startsAt.toISOString(),
+      scheduledPickupEnd: slot.endsAt.toISOString(),
+      agreedBy: chosenBy.value
+    }));
   }
 
   complete(ecoPointsAwarded: number = 0): void {
@@ -191,6 +359,25 @@ export class Exchange {
 
     this._status = ExchangeStatus.completed();
     this._completedAt = new Date();
+    this._handoffCode = undefined;
+    this._ecoPointsAwarded = ecoPointsAwarded;
+    this._updatedAt = new Date();
+
+    this.recordEvent(createDomainEvent('ExchangeCompleted', 'Exchange', this._id.value, {
+      ...this.participants(),
+      daysToComplete: this.getDurationInDays()
+    }));
+  }
+
+  recordEcoPointsAwarded(ecoPointsAwarded: number): void {
+    if (!this._status.isCompleted()) {
+      throw new Error('Can only record eco points for a completed exchange');
+    }
+
+    if (ecoPointsAwarded < 0) {
+      throw new Error('Eco points awarded cannot be negative');
+    }
+
     this._ecoPointsAwarded = ecoPointsAwarded;
     this._updatedAt = new Date();
   }
@@ -219,7 +406,95 @@ export class Exchange {
     return Boolean(this._giverConfirmedAt && this._receiverConfirmedAt);
   }
 
-  cancel(reason: string): void {
+  /**
+   * Gives the giver a fresh code to show at pickup, replacing any earlier
+   * code and its failed attempts.
+   */
+  issueHandoffCode(ttlHours: number): HandoffCode {
+    if (!this._status.isAccepted()) {
+      throw new Error('Handoff codes are only available for accepted exchanges');
+    }
+
+    this._handoffCode = HandoffCode.issue(ttlHours);
+    this._updatedAt = new Date();
+
+    return this._handoffCode;
+  }
+
+  /**
+   * Checks that the receiver can enter a code right now, before an attempt is
+   * counted against it, and returns the code to compare with.
+   */
+  requireRedeemableHandoffCode(receiverId: UserId): HandoffCode {
+    if (!this._status.isAccepted()) {
+      throw new Error('Can only confirm handoff after exchange is accepted');
+    }
+
+    if (!this.isReceiver(receiverId)) {
+      throw new Error('Only the receiver can enter the handoff code');
+    }
+
+    if (!this._handoffCode) {
+      throw new Error('The giver has not issued a handoff code yet');
+    }
+
+    if (this._handoffCode.isExpired()) {
+      throw new Error('Handoff code has expired, ask the giver for a new one');
+    }
+
+    return this._handoffCode;
+  }
+
+  /**
+   * Checks the code the receiver entered. A match confirms the handoff for
+   * both participants. Attempts are counted by the repository before this is
+   * called. Returns whether the code matched.
+   */
+  redeemHandoffCode(receiverId: UserId, candidate: string, secret: string): boolean {
+    if (!this.requireRedeemableHandoffCode(receiverId).matches(candidate, secret)) {
+      return false;
+    }
+
+    const now = new Date();
+    this._giverConfirmedAt = this._giverConfirmedAt ?? now;
+    this._receiverConfirmedAt = this._receiverConfirmedAt ?? now;
+    this._handoffCode = undefined;
+    this._updatedAt = now;
+
+    return true;
+  }
+
+  cancel(reason: string, cancelledBy: UserId): void {
+    if (!this._status.canTransitionTo('cancelled')) {
+      throw new Error(`Cannot cancel exchange in ${this._status.value} status`);
+    }
+
+    if (!reason || reason.trim().length === 0) {
+      throw new Error('Cancellation reason is required');
+    }
+
+    if (!this.isParticipant(cancelledBy)) {
+      throw new Error('Only exchange participants can cancel an exchange');
+    }
+
+    this._status = ExchangeStatus.cancelled();
+    this._cancellationReason = reason.trim();
+    this._handoffCode = undefined;
+    this._updatedAt = new Date();
+
+    this.recordEvent(createDomainEvent('ExchangeCancelled', 'Exchange', this._id.value, {
+      ...this.participants(),
+      cancelledBy: cancelledBy.value,
+      reason: this._cancellationReason
+    }));
+  }
+
+  /**
+   * Cancels an exchange on behalf of the platform, e.g. after a report.
+   * Either participant is told, so ExchangeCancelledByAdmin is recorded
+   * instead of ExchangeCancelled.
+   */
+  cancelByAdmin(reason: string, adminId: UserId): void {
     if (!this._status.canTransitionTo('cancelled')) {
       throw new Error(`Cannot cancel exchange in ${this._status.value} status`);
     }
@@ -230,6 +505,122 @@ export class Exchange {
 
     this._status = ExchangeStatus.cancelled();
     this._cancellationReason = reason.trim();
+    this._handoffCode = undefined;
+    this._updatedAt = new Date();
+
+    this.recordEvent(createDomainEvent('ExchangeCancelledByAdmin', 'Exchange', this._id.value, {
+      ...this.participants(),
+      cancelledBy: adminId.value,
+      reason: this._cancellationReason
+    }));
+  }
+
+  remindOfPickup(): void {
+    if (!this._status.isAccepted() || !this._scheduledPickup) {
+      throw new Error('Can only send pickup reminders for accepted exchanges with a scheduled pickup');
+    }
+
+    if (this._pickupReminderSentAt) {
+      throw new Error('Pickup reminder has already been sent');
+    }
+
+    this._pickupReminderSentAt = new Date();
+    this._updatedAt = new Date();
+
+    this.recordEvent(createDomainEvent('ExchangePickupApproaching', 'Exchange', this._id.value, {
+      ...this.participants(),
+      scheduledPickup: this._scheduledPickup.toISOString()
+    }));
+  }
+
+  /**
+   * Cancels an exchange whose pickup never happened. Unlike cancel(), no
+   * participant is responsible, so ExchangeExpired is recorded instead.
+   */
+  expire(reason: string): void {
+    if (!this._scheduledPickup || !this.isOverdue()) {
+      throw new Error('Only overdue exchanges can expire');
+    }
+
+    if (!reason || reason.trim().length === 0) {
+      throw new Error('Expiry reason is required');
+    }
+
+    this._status = ExchangeStatus.cancelled();
+    this._cancellationReason = reason.trim();
+    this._handoffCode = undefined;
+    this._updatedAt = new Date();
+
+    this.recordEvent(createDomainEvent('ExchangeExpired', 'Exchange', this._id.value, {
+      ...this.participants(),
+      scheduledPickup: this._scheduledPickup.toISOString(),
+      reason: this._cancellationReason
+    }));
+  }
+
+  /**
+   * Puts the exchange on hold while an admin looks into a report. The
+   * ExchangeDispute records ExchangeDisputeOpened, so nothing is recorded here.
+   */
+  openDispute(reportedBy: UserId, reason: DisputeReason): void {
+    if (!this._status.canTransitionTo('disputed')) {
+      throw new Error(`Cannot dispute exchange in ${this._status.value} status`);
+    }
+
+    if (!this.isParticipant(reportedBy)) {
+      throw new Error('Only exchange participants can report a problem');
+    }
+
+    if (reason.isNoShow() && !this._status.isAccepted()) {
+      throw new Error('A no-show can only be reported before the exchange is completed');
+    }
+
+    this._statusBeforeDispute = this._status.value;
+    this._status = ExchangeStatus.disputed();
+    this._handoffCode = undefined;
+    this._updatedAt = new Date();
+  }
+
+  /**
+   * Ends a dispute that was found valid. The exchange is treated as never
+   * having gone ahead.
+   */
+  upholdDispute(reason: string): void {
+    if (!this._status.isDisputed()) {
+      throw new Error('Exchange is not disputed');
+    }
+
+    if (!reason || reason.trim().length === 0) {
+      throw new Error('Cancellation reason is required');
+    }
+
+    this._status = ExchangeStatus.cancelled();
+    this._cancellationReason = reason.trim();
+    this._statusBeforeDispute = undefined;
+    this._updatedAt = new Date();
+  }
+
+  /**
+   * Ends a dispute that was not found valid, returning the exchange to where
+   * it was when the report came in.
+   */
+  dismissDispute(): void {
+    if (!this._status.isDisputed()) {
+      throw new Error('Exchange is not disputed');
+    }
+
+    this._status = new ExchangeStatus(this._statusBeforeDispute ?? 'accepted');
+    this._statusBeforeDispute = undefined;
+    this._updatedAt = new Date();
+  }
+
+  removeRatings(): void {
+    if (!this._status.isDisputed()) {
+      throw new Error('Ratings can only be removed while the exchange is disputed');
+    }
+
+    this._giverRating = undefined;
+    this._receiverRating = undefined;
     this._updatedAt = new Date();
   }
 
@@ -314,13 +705,37 @@ export class Exchange {
   }
 
   isOverdue(): boolean {
-    if (!this._scheduledPickup || this._status.isCompleted() || this._status.isCancelled()) {
+    if (!this._scheduledPickup || !(this._status.isRequested() || this._status.isAccepted())) {
       return false;
     }
 
     return new Date() > this._scheduledPickup;
   }
 
+  private schedulePickup(startsAt: Date, endsAt?: Date): void {
+    this._scheduledPickup = startsAt;
+    this._scheduledPickupEnd = endsAt;
+    // A new time deserves a new reminder
+    this._pickupReminderSentAt = undefined;
+  }
+
+  private assertPickupCanBeArranged(userId: UserId): void {
+    if (!this._status.isRequested() && !this._status.isAccepted()) {
+      throw new Error(`Cannot arrange pickup for exchange in ${this._status.value} status`);
+    }
+    if (!this.isParticipant(userId)) {
+      throw new Error('Only exchange participants can arrange pickup');
+    }
+  }
+
+  private participants(): { itemId: string; giverId: string; receiverId: string } {
+    return {
+      itemId: this._itemId.value,
+      giverId: this._giverId.value,
+      receiverId: this._receiverId.value
+    };
+  }
+
   toData(): ExchangeData {
     return {
       id: this._id.value,
@@ -328,7 +743,10 @@ export class Exchange {
       giverId: this._giverId.value,
       receiverId: this._receiverId.value,
       status: this._status.value,
+      quantity: this._quantity,
       scheduledPickup: this._scheduledPickup,
+      scheduledPickupEnd: this._scheduledPickupEnd,
+      pickupSlots: this._pickupSlots.map(slot => slot.toData()),
       completedAt: this._completedAt,
       giverConfirmedAt: this._giverConfirmedAt,
       receiverConfirmedAt: this._receiverConfirmedAt,
@@ -336,6 +754,9 @@ export class Exchange {
       receiverRating: this._receiverRating?.toData(),
       ecoPointsAwarded: this._ecoPointsAwarded,
       cancellationReason: this._cancellationReason,
+      pickupReminderSentAt: this._pickupReminderSentAt,
+      handoffCode: this._handoffCode?.toData(),
+      statusBeforeDispute: this._statusBeforeDispute,
       createdAt: this._createdAt,
       updatedAt: this._updatedAt
     };
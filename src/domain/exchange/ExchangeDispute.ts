@@ -0,0 +1,251 @@
+import { ExchangeDisputeId } from './value-objects/ExchangeDisputeId';
+import { DisputeReason, DisputeReasonValue } from './value-objects/DisputeReason';
+import { ExchangeId } from './value-objects/ExchangeId';
+import { UserId } from '../user/value-objects/UserId';
+import { AggregateRoot } from '../events/AggregateRoot';
+import { createDomainEvent } from '../events/DomainEvent';
+import { ExchangeDisputeEvent } from './ExchangeEvents';
+
+export type DisputeOutcome = 'upheld' | 'dismissed';
+
+export interface DisputeEvidenceData {
+  url: string;
+  filename: string;
+  contentType: string;
+  uploadedAt: Date;
+}
+
+export interface DisputeResolutionActions {
+  pointsReversed: boolean;
+  ratingsCleared: boolean;
+  itemRestored: boolean;
+}
+
+export interface DisputeResolutionData {
+  outcome: DisputeOutcome;
+  note: string;
+  resolvedBy: string;
+  resolvedAt: Date;
+  actions: DisputeResolutionActions;
+}
+
+export interface CreateExchangeDisputeData {
+  exchangeId: string;
+  reportedBy: string;
+  reportedUserId: string;
+  reason: DisputeReasonValue;
+  description: string;
+}
+
+export interface ExchangeDisputeData {
+  id: string;
+  exchangeId: string;
+  reportedBy: string;
+  reportedUserId: string;
+  reason: DisputeReasonValue;
+  description: string;
+  evidence: DisputeEvidenceData[];
+  resolution?: DisputeResolutionData;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A participant's report that an exchange went wrong. The exchange stays
+ * disputed until an admin resolves the report.
+ */
+export class ExchangeDispute extends AggregateRoot<ExchangeDisputeEvent> {
+  private static readonly MAX_DESCRIPTION_LENGTH = 2000;
+  private static readonly MAX_RESOLUTION_NOTE_LENGTH = 1000;
+  private static readonly MAX_EVIDENCE = 10;
+
+  private constructor(
+    private readonly _id: ExchangeDisputeId,
+    private readonly _exchangeId: ExchangeId,
+    private readonly _reportedBy: UserId,
+    private readonly _reportedUserId: UserId,
+    private readonly _reason: DisputeReason,
+    private readonly _description: string,
+    private _evidence: DisputeEvidenceData[],
+    private readonly _createdAt: Date,
+    private _updatedAt: Date,
+    private _resolution?: DisputeResolutionData
+  ) {
+    super();
+  }
+
+  static create(data: CreateExchangeDisputeData): ExchangeDispute {
+    const description = data.description?.trim();
+    if (!description) {
+      throw new Error('Dispute description is required');
+    }
+    if (description.length > ExchangeDispute.MAX_DESCRIPTION_LENGTH) {
+      throw new Error(`Dispute description cannot exceed ${ExchangeDispute.MAX_DESCRIPTION_LENGTH} characters`);
+    }
+
+    const reportedBy = new UserId(data.reportedBy);
+    const reportedUserId = new UserId(data.reportedUserId);
+    if (reportedBy.equals(reportedUserId)) {
+      throw new Error('Cannot report yourself');
+    }
+
+    const now = new Date();
+
+    const dispute = new ExchangeDispute(
+      ExchangeDisputeId.generate(),
+      new ExchangeId(data.exchangeId),
+      reportedBy,
+      reportedUserId,
+      new DisputeReason(data.reason),
+      description,
+      [], // evidence
+      now,
+      now,
+      undefined // resolution
+    );
+
+    dispute.recordEvent(createDomainEvent('ExchangeDisputeOpened', 'ExchangeDispute', dispute._id.value, {
+      exchangeId: dispute._exchangeId.value,
+      reportedBy: dispute._reportedBy.value,
+      reportedUserId: dispute._reportedUserId.value,
+      reason: dispute._reason.value
+    }));
+
+    return dispute;
+  }
+
+  static fromData(data: ExchangeDisputeData): ExchangeDispute {
+    return new ExchangeDispute(
+      new ExchangeDisputeId(data.id),
+      new ExchangeId(data.exchangeId),
+      new UserId(data.reportedBy),
+      new UserId(data.reportedUserId),
+      new DisputeReason(data.reason),
+      data.description,
+      data.evidence.map(entry => ({ ...entry })),
+      data.createdAt,
+      data.updatedAt,
+      data.resolution ? { ...data.resolution, actions: { ...data.resolution.actions } } : undefined
+    );
+  }
+
+  get id(): ExchangeDisputeId {
+    return this._id;
+  }
+
+  get exchangeId(): ExchangeId {
+    return this._exchangeId;
+  }
+
+  get reportedBy(): UserId {
+    return this._reportedBy;
+  }
+
+  get reportedUserId(): UserId {
+    return this._reportedUserId;
+  }
+
+  get reason(): DisputeReason {
+    return this._reason;
+  }
+
+  get description(): string {
+    return this._description;
+  }
+
+  get evidence(): readonly DisputeEvidenceData[] {
+    return this._evidence;
+  }
+
+  get resolution(): DisputeResolutionData | undefined {
+    return this._resolution;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this._updatedAt;
+  }
+
+  isOpen(): boolean {
+    return this._resolution === undefined;
+  }
+
+  isUpheld(): boolean {
+    return this._resolution?.outcome === 'upheld';
+  }
+
+  isInvolved(userId: UserId): boolean {
+    return this._reportedBy.equals(userId) || this._reportedUserId.equals(userId);
+  }
+
+  assertCanAddEvidence(addedBy: UserId, count: number): void {
+    if (!this.isOpen()) {
+      throw new Error('Cannot add evidence to a resolved dispute');
+    }
+    if (!this._reportedBy.equals(addedBy)) {
+      throw new Error('Only the reporter can add evidence');
+    }
+    if (count === 0) {
+      throw new Error('At least one evidence file is required');
+    }
+    if (count > ExchangeDispute.MAX_EVIDENCE - this._evidence.length) {
+      throw new Error(`A dispute cannot have more than ${ExchangeDispute.MAX_EVIDENCE} evidence files`);
+    }
+  }
+
+  addEvidence(addedBy: UserId, evidence: DisputeEvidenceData[]): void {
+    this.assertCanAddEvidence(addedBy, evidence.length);
+
+    this._evidence = [...this._evidence, ...evidence.map(entry => ({ ...entry }))];
+    this._updatedAt = new Date();
+  }
+
+  resolve(outcome: DisputeOutcome, note: string, resolvedBy: UserId, actions: DisputeResolutionActions): void {
+    if (!this.isOpen()) {
+      throw new Error('Dispute has already been resolved');
+    }
+
+    const trimmedNote = note?.trim();
+    if (!trimmedNote) {
+      throw new Error('Resolution note is required');
+    }
+    if (trimmedNote.length > ExchangeDispute.MAX_RESOLUTION_NOTE_LENGTH) {
+      throw new Error(`Resolution note cannot exceed ${ExchangeDispute.MAX_RESOLUTION_NOTE_LENGTH} characters`);
+    }
+
+    this._resolution = {
+      outcome,
+      note: trimmedNote,
+      resolvedBy: resolvedBy.value,
+      resolvedAt: new Date(),
+      actions: { ...actions }
+    };
+    this._updatedAt = new Date();
+
+    this.recordEvent(createDomainEvent('ExchangeDisputeResolved', 'ExchangeDispute', this._id.value, {
+      exchangeId: this._exchangeId.value,
+      reportedBy: this._reportedBy.value,
+      reportedUserId: this._reportedUserId.value,
+      reason: this._reason.value,
+      outcome
+    }));
+  }
+
+  toData(): ExchangeDisputeData {
+    return {
+      id: this._id.value,
+      exchangeId: this._exchangeId.value,
+      reportedBy: this._reportedBy.value,
+      reportedUserId: this._reportedUserId.value,
+      reason: this._reason.value,
+      description: this._description,
+      evidence: this._evidence.map(entry => ({ ...entry })),
+      resolution: this._resolution ? { ...this._resolution, actions: { ...this._resolution.actions } } : undefined,
+      createdAt: this._createdAt,
+      updatedAt: this._updatedAt
+    };
+  }
+}
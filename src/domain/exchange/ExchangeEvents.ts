@@ -0,0 +1,96 @@
+import { DomainEvent } from '../events/DomainEvent';
+
+interface ExchangeParticipants {
+  itemId: string;
+  giverId: string;
+  receiverId: string;
+}
+
+export type ExchangeRequested = DomainEvent<'ExchangeRequested', ExchangeParticipants & {
+  message?: string;
+}>;
+
+export type ExchangeAccepted = DomainEvent<'ExchangeAccepted', ExchangeParticipants & {
+  scheduledPickup?: string;
+}>;
+
+export type ExchangeCompleted = DomainEvent<'ExchangeCompleted', ExchangeParticipants & {
+  daysToComplete: number;
+}>;
+
+export type ExchangeCancelled = DomainEvent<'ExchangeCancelled', ExchangeParticipants & {
+  cancelledBy: string;
+  reason: string;
+}>;
+
+export type ExchangeCancelledByAdmin = DomainEvent<'ExchangeCancelledByAdmin', ExchangeParticipants & {
+  cancelledBy: string;
+  reason: string;
+}>;
+
+export type PickupSlotsProposed = DomainEvent<'PickupSlotsProposed', ExchangeParticipants & {
+  proposedBy: string;
+  slots: Array<{ id: string; startsAt: string; endsAt: string }>;
+}>;
+
+export type ExchangePickupScheduled = DomainEvent<'ExchangePickupScheduled', ExchangeParticipants & {
+  scheduledPickup: string;
+  scheduledPickupEnd: string;
+  agreedBy: string;
+}>;
+
+export type ExchangePickupApproaching = DomainEvent<'ExchangePickupApproaching', ExchangeParticipants & {
+  scheduledPickup: string;
+}>;
+
+export type ExchangeExpired = DomainEvent<'ExchangeExpired', ExchangeParticipants & {
+  scheduledPickup: string;
+  reason: string;
+}>;
+
+export type ExchangeEvent =
+  | ExchangeRequested
+  | ExchangeAccepted
+  | ExchangeCompleted
+  | ExchangeCancelled
+  | ExchangeCancelledByAdmin
+  | PickupSlotsProposed
+  | ExchangePickupScheduled
+  | ExchangePickupApproaching
+  | ExchangeExpired;
+
+export type ItemRequested = DomainEvent<'ItemRequested', {
+  itemId: string;
+  requesterId: string;
+  message?: string;
+}>;
+
+export type ItemRequestSelected = DomainEvent<'ItemRequestSelected', {
+  itemId: string;
+  requesterId: string;
+  exchangeId: string;
+}>;
+
+export type ItemRequestDeclined = DomainEvent<'ItemRequestDeclined', {
+  itemId: string;
+  requesterId: string;
+}>;
+
+export type ItemRequestEvent = ItemRequested | ItemRequestSelected | ItemRequestDeclined;
+
+export type ExchangeDisputeOpened = DomainEvent<'ExchangeDisputeOpened', {
+  exchangeId: string;
+  reportedBy: string;
+  reportedUserId: string;
+  reason: string;
+}>;
+
+export type ExchangeDisputeResolved = DomainEvent<'ExchangeDisputeResolved', {
+  exchangeId: string;
+  reportedBy: string;
+  reportedUserId: string;
+  reason: string;
+  outcome: string;
+}>;
+
+export type ExchangeDisputeEvent = ExchangeDisputeOpened | ExchangeDisputeResolved;
@@ -0,0 +1,104 @@
+import { ExchangeMessageId } from './value-objects/ExchangeMessageId';
+import { ExchangeId } from './value-objects/ExchangeId';
+import { UserId } from '../user/value-objects/UserId';
+
+export interface CreateExchangeMessageData {
+  exchangeId: string;
+  senderId: string;
+  body: string;
+}
+
+export interface ExchangeMessageData {
+  id: string;
+  exchangeId: string;
+  senderId: string;
+  body: string;
+  readAt?: Date;
+  createdAt: Date;
+}
+
+export class ExchangeMessage {
+  private static readonly MAX_BODY_LENGTH = 2000;
+
+  private constructor(
+    private readonly _id: ExchangeMessageId,
+    private readonly _exchangeId: ExchangeId,
+    private readonly _senderId: UserId,
+    private readonly _body: string,
+    private readonly _createdAt: Date,
+    private readonly _readAt?: Date
+  ) {}
+
+  static create(data: CreateExchangeMessageData): ExchangeMessage {
+    const body = data.body?.trim();
+    if (!body) {
+      throw new Error('Message cannot be empty');
+    }
+    if (body.length > ExchangeMessage.MAX_BODY_LENGTH) {
+      throw new Error(`Message cannot exceed ${ExchangeMessage.MAX_BODY_LENGTH} characters`);
+    }
+
+    return new ExchangeMessage(
+      ExchangeMessageId.generate(),
+      new ExchangeId(data.exchangeId),
+      new UserId(data.senderId),
+      body,
+      new Date(),
+      undefined // readAt
+    );
+  }
+
+  static fromData(data: ExchangeMessageData): ExchangeMessage {
+    return new ExchangeMessage(
+      new ExchangeMessageId(data.id),
+      new ExchangeId(data.exchangeId),
+      new UserId(data.senderId),
+      data.body,
+      data.createdAt,
+      data.readAt
+    );
+  }
+
+  get id(): ExchangeMessageId {
+    return this._id;
+  }
+
+  get exchangeId(): ExchangeId {
+    return this._exchangeId;
+  }
+
+  get senderId(): UserId {
+    return this._senderId;
+  }
+
+  get body(): string {
+    return this._body;
+  }
+
+  get readAt(): Date | undefined {
+    return this._readAt;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  isSentBy(userId: UserId): boolean {
+    return this._senderId.equals(userId);
+  }
+
+  isRead(): boolean {
+    return this._readAt !== undefined;
+  }
+
+  toData(): ExchangeMessageData {
+    return {
+      id: this._id.value,
+      exchangeId: this._exchangeId.value,
+      senderId: this._senderId.value,
+      body: this._body,
+      readAt: this._readAt,
+      createdAt: this._createdAt
+    };
+  }
+}
@@ -0,0 +1,205 @@
+import { ItemRequestId } from './value-objects/ItemRequestId';
+import { ItemRequestStatus, ItemRequestStatusValue } from './value-objects/ItemRequestStatus';
+import { ExchangeId } from './value-objects/ExchangeId';
+import { ItemId } from '../item/value-objects/ItemId';
+import { UserId } from '../user/value-objects/UserId';
+import { AggregateRoot } from '../events/AggregateRoot';
+import { createDomainEvent } from '../events/DomainEvent';
+import { ItemRequestEvent } from './ExchangeEvents';
+
+export interface CreateItemRequestData {
+  itemId: string;
+  requesterId: string;
+  quantity?: number; // Units of a lot, defaults to 1
+  message?: string;
+}
+
+export interface ItemRequestData {
+  id: string;
+  itemId: string;
+  requesterId: string;
+  status: ItemRequestStatusValue;
+  quantity?: number;
+  message?: string;
+  exchangeId?: string;
+  respondedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A receiver's request for an item. Several requests can be pending for the
+ * same item; the owner selects one, which becomes an Exchange.
+ */
+export class ItemRequest extends AggregateRoot<ItemRequestEvent> {
+  private static readonly MAX_MESSAGE_LENGTH = 1000;
+
+  private constructor(
+    private readonly _id: ItemRequestId,
+    private readonly _itemId: ItemId,
+    private readonly _requesterId: UserId,
+    private _status: ItemRequestStatus,
+    private readonly _createdAt: Date,
+    private _updatedAt: Date,
+    private readonly _quantity: number,
+    private readonly _message?: string,
+    private _exchangeId?: ExchangeId,
+    private _respondedAt?: Date
+  ) {
+    super();
+  }
+
+  static create(data: CreateItemRequestData): ItemRequest {
+    const message = data.message?.trim();
+    if (message && message.length > ItemRequest.MAX_MESSAGE_LENGTH) {
+      throw new Error(`Request message cannot exceed ${ItemRequest.MAX_MESSAGE_LENGTH} characters`);
+    }
+
+    const quantity = data.quantity ?? 1;
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new Error('Requested quantity must be a whole number of at least 1');
+    }
+
+    const now = new Date();
+
+    const request = new ItemRequest(
+      ItemRequestId.generate(),
+      new ItemId(data.itemId),
+      new UserId(data.requesterId),
+      ItemRequestStatus.pending(),
+      now,
+      now,
+      quantity,
+      message || undefined,
+      undefined, // exchangeId
+      undefined // respondedAt
+    );
+
+    request.recordEvent(createDomainEvent('ItemRequested', 'ItemRequest', request._id.value, {
+      itemId: request._itemId.value,
+      requesterId: request._requesterId.value,
+      message: request._message
+    }));
+
+    return request;
+  }
+
+  static fromData(data: ItemRequestData): ItemRequest {
+    return new ItemRequest(
+      new ItemRequestId(data.id),
+      new ItemId(data.itemId),
+      new UserId(data.requesterId),
+      new ItemRequestStatus(data.status),
+      data.createdAt,
+      data.updatedAt,
+      data.quantity ?? 1,
+      data.message,
+      data.exchangeId ? new ExchangeId(data.exchangeId) : undefined,
+      data.respondedAt
+    );
+  }
+
+  get id(): ItemRequestId {
+    return this._id;
+  }
+
+  get itemId(): ItemId {
+    return this._itemId;
+  }
+
+  get requesterId(): UserId {
+    return this._requesterId;
+  }
+
+  get status(): ItemRequestStatus {
+    return this._status;
+  }
+
+  get quantity(): number {
+    return this._quantity;
+  }
+
+  get message(): string | undefined {
+    return this._message;
+  }
+
+  get exchangeId(): ExchangeId | undefined {
+    return this._exchangeId;
+  }
+
+  get respondedAt(): Date | undefined {
+    return this._respondedAt;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this._updatedAt;
+  }
+
+  select(exchangeId: ExchangeId): void {
+    if (!this._status.canTransitionTo('selected')) {
+      throw new Error(`Cannot select request in ${this._status.value} status`);
+    }
+
+    this._status = ItemRequestStatus.selected();
+    this._exchangeId = exchangeId;
+    this._respondedAt = new Date();
+    this._updatedAt = new Date();
+
+    this.recordEvent(createDomainEvent('ItemRequestSelected', 'ItemRequest', this._id.value, {
+      itemId: this._itemId.value,
+      requesterId: this._requesterId.value,
+      exchangeId: exchangeId.value
+    }));
+  }
+
+  decline(): void {
+    if (!this._status.canTransitionTo('declined')) {
+      throw new Error(`Cannot decline request in ${this._status.value} status`);
+    }
+
+    this._status = ItemRequestStatus.declined();
+    this._respondedAt = new Date();
+    this._updatedAt = new Date();
+
+    this.recordEvent(createDomainEvent('ItemRequestDeclined', 'ItemRequest', this._id.value, {
+      itemId: this._itemId.value,
+      requesterId: this._requesterId.value
+    }));
+  }
+
+  withdraw(): void {
+    if (!this._status.canTransitionTo('withdrawn')) {
+      throw new Error(`Cannot withdraw request in ${this._status.value} status`);
+    }
+
+    this._status = ItemRequestStatus.withdrawn();
+    this._updatedAt = new Date();
+  }
+
+  isPending(): boolean {
+    return this._status.isPending();
+  }
+
+  isRequester(userId: UserId): boolean {
+    return this._requesterId.equals(userId);
+  }
+
+  toData(): ItemRequestData {
+    return {
+      id: this._id.value,
+      itemId: this._itemId.value,
+      requesterId: this._requesterId.value,
+      status: this._status.value,
+      quantity: this._quantity,
+      message: this._message,
+      exchangeId: this._exchangeId?.value,
+      respondedAt: this._respondedAt,
+      createdAt: this._createdAt,
+      updatedAt: this._updatedAt
+    };
+  }
+}
@@ -1,4 +1,15 @@
 export { Exchange, CreateExchangeData, ExchangeData } from './Exchange';
 export { ExchangeId } from './value-objects/ExchangeId';
 export { ExchangeStatus, ExchangeStatusValue } from './value-objects/ExchangeStatus';
-export { Rating, RatingData } from './value-objects/Rating';
\ No newline at end of file
+export { Rating, RatingData } from './value-objects/Rating';
+export { PickupSlot, PickupSlotData } from './value-objects/PickupSlot';
+export { HandoffCode, HandoffCodeData } from './value-objects/HandoffCode';
+export { ExchangeMessage, CreateExchangeMessageData, ExchangeMessageData } from './ExchangeMessage';
+export { ExchangeMessageId } from './value-objects/ExchangeMessageId';
+export { ItemRequest, CreateItemRequestData, ItemRequestData } from './ItemRequest';
+export { ItemRequestId } from './value-objects/ItemRequestId';
+export { ItemRequestStatus, ItemRequestStatusValue } from './value-objects/ItemRequestStatus';
+export { ExchangeDispute, CreateExchangeDisputeData, ExchangeDisputeData, DisputeEvidenceData, DisputeOutcome, DisputeResolutionData, DisputeResolutionActions } from './ExchangeDispute';
+export { ExchangeDisputeId } from './value-objects/ExchangeDisputeId';
+export { DisputeReason, DisputeReasonValue, DISPUTE_REASONS } from './value-objects/DisputeReason';
+export { ExchangeRequested, ExchangeAccepted, ExchangeCompleted, ExchangeCancelled, ExchangeCancelledByAdmin, PickupSlotsProposed, ExchangePickupScheduled, ExchangePickupApproaching, ExchangeExpired, ExchangeEvent, ItemRequested, ItemRequestSelected, ItemRequestDeclined, ItemRequestEvent, ExchangeDisputeOpened, ExchangeDisputeResolved, ExchangeDisputeEvent } from './ExchangeEvents';
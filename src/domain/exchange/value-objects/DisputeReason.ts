@@ -0,0 +1,48 @@
+export type DisputeReasonValue = 'no_show' | 'not_as_described' | 'unsafe_behaviour';
+
+export const DISPUTE_REASONS: readonly DisputeReasonValue[] = ['no_show', 'not_as_described', 'unsafe_behaviour'];
+
+export class DisputeReason {
+  private readonly _value: DisputeReasonValue;
+
+  constructor(value: DisputeReasonValue) {
+    if (!DISPUTE_REASONS.includes(value)) {
+      throw new Error(`Dispute reason must be one of: ${DISPUTE_REASONS.join(', ')}`);
+    }
+    this._value = value;
+  }
+
+  get value(): DisputeReasonValue {
+    return this._value;
+  }
+
+  equals(other: DisputeReason): boolean {
+    return this._value === other._value;
+  }
+
+  toString(): string {
+    return this._value;
+  }
+
+  isNoShow(): boolean {
+    return this._value === 'no_show';
+  }
+
+  isNotAsDescribed(): boolean {
+    return this._value === 'not_as_described';
+  }
+
+  isUnsafeBehaviour(): boolean {
+    return this._value === 'unsafe_behaviour';
+  }
+
+  getLabel(): string {
+    const labels: Record<DisputeReasonValue, string> = {
+      'no_show': 'No-show',
+      'not_as_described': 'Item not as described',
+      'unsafe_behaviour': 'Unsafe behaviour'
+    };
+
+    return labels[this._value];
+  }
+}
@@ -0,0 +1,31 @@
+import { randomUUID } from 'crypto';
+
+export class ExchangeMessageId {
+  private readonly _value: string;
+
+  constructor(value: string) {
+    if (!value || value.trim().length === 0) {
+      throw new Error('ExchangeMessageId cannot be empty');
+    }
+    if (value.length > 36) {
+      throw new Error('ExchangeMessageId cannot exceed 36 characters');
+    }
+    this._value = value.trim();
+  }
+
+  get value(): string {
+    return this._value;
+  }
+
+  equals(other: ExchangeMessageId): boolean {
+    return this._value === other._value;
+  }
+
+  toString(): string {
+    return this._value;
+  }
+
+  static generate(): ExchangeMessageId {
+    return new ExchangeMessageId(randomUUID());
+  }
+}
\ No newline at end of file
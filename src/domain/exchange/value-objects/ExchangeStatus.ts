@@ -1,4 +1,4 @@
-export type ExchangeStatusValue = 'requested' | 'accepted' | 'completed' | 'cancelled';
+export type ExchangeStatusValue = 'requested' | 'accepted' | 'completed' | 'cancelled' | 'disputed';
 
 export class ExchangeStatus {
   private readonly _value: ExchangeStatusValue;
@@ -35,12 +35,17 @@ export class ExchangeStatus {
     return this._value === 'cancelled';
   }
 
+  isDisputed(): boolean {
+    return this._value === 'disputed';
+  }
+
   canTransitionTo(newStatus: ExchangeStatusValue): boolean {
     const transitions: Record<ExchangeStatusValue, ExchangeStatusValue[]> = {
       'requested': ['accepted', 'cancelled'],
-      'accepted': ['completed', 'cancelled'],
-      'completed': [],
-      'cancelled': []
+      'accepted': ['completed', 'cancelled', 'disputed'],
+      'completed': ['disputed'],
+      'cancelled': [],
+      'disputed': [] // Left only through dispute resolution
     };
 
     return transitions[this._value].includes(newStatus);
@@ -61,4 +66,8 @@ export class ExchangeStatus {
   static cancelled(): ExchangeStatus {
     return new ExchangeStatus('cancelled');
   }
+
+  static disputed(): ExchangeStatus {
+    return new ExchangeStatus('disputed');
+  }
 }
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export interface HandoffCodeData {
+  seed: string;
+  expiresAt: Date;
+  failedAttempts: number;
+}
+
+/**
+ * One-time code the giver shows at pickup. The receiver entering it proves
+ * the two actually met, so it stands in for both handoff confirmations.
+ * Only a random seed is stored; the code is derived from it with a server
+ * secret, so the stored value alone doesn't reveal or narrow down the code.
+ */
+export class HandoffCode {
+  private static readonly LENGTH = 6;
+
+  private readonly _seed: string;
+  private readonly _expiresAt: Date;
+  private readonly _failedAttempts: number;
+
+  constructor(data: HandoffCodeData) {
+    if (!/^[0-9a-f]{32}$/.test(data.seed)) {
+      throw new Error('Handoff code seed must be 16 bytes of hex');
+    }
+    if (isNaN(data.expiresAt.getTime())) {
+      throw new Error('Handoff code expiry must be a valid date');
+    }
+    if (!Number.isInteger(data.failedAttempts) || data.failedAttempts < 0) {
+      throw new Error('Failed attempts must be a non-negative integer');
+    }
+
+    this._seed = data.seed;
+    this._expiresAt = data.expiresAt;
+    this._failedAttempts = data.failedAttempts;
+  }
+
+  static issue(ttlHours: number): HandoffCode {
+    if (ttlHours <= 0) {
+      throw new Error('Handoff code lifetime must be positive');
+    }
+
+    return new HandoffCode({
+      seed: randomBytes(16).toString('hex'),
+      expiresAt: new Date(Date.now() + ttlHours * 60 * 60 * 1000),
+      failedAttempts: 0
+    });
+  }
+
+  get seed(): string {
+    return this._seed;
+  }
+
+  get expiresAt(): Date {
+    return this._expiresAt;
+  }
+
+  get failedAttempts(): number {
+    return this._failedAttempts;
+  }
+
+  /**
+   * The digits the giver shows, derived from the seed with the server secret.
+   */
+  code(secret: string): string {
+    const digest = createHmac('sha256', secret).update(this._seed).digest();
+    return (digest.readUInt32BE(0) % 10 ** HandoffCode.LENGTH).toString().padStart(HandoffCode.LENGTH, '0');
+  }
+
+  isExpired(): boolean {
+    return this._expiresAt <= new Date();
+  }
+
+  isLocked(maxAttempts: number): boolean {
+    return this._failedAttempts >= maxAttempts;
+  }
+
+  matches(candidate: string, secret: string): boolean {
+    const expected = Buffer.from(this.code(secret));
+    const given = Buffer.from(candidate.trim());
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  toData(): HandoffCodeData {
+    return {
+      seed: this._seed,
+      expiresAt: this._expiresAt,
+      failedAttempts: this._failedAttempts
+    };
+  }
+}
@@ -0,0 +1,64 @@
+export type ItemRequestStatusValue = 'pending' | 'selected' | 'declined' | 'withdrawn';
+
+export class ItemRequestStatus {
+  private readonly _value: ItemRequestStatusValue;
+
+  constructor(value: ItemRequestStatusValue) {
+    this._value = value;
+  }
+
+  get value(): ItemRequestStatusValue {
+    return this._value;
+  }
+
+  equals(other: ItemRequestStatus): boolean {
+    return this._value === other._value;
+  }
+
+  toString(): string {
+    return this._value;
+  }
+
+  isPending(): boolean {
+    return this._value === 'pending';
+  }
+
+  isSelected(): boolean {
+    return this._value === 'selected';
+  }
+
+  isDeclined(): boolean {
+    return this._value === 'declined';
+  }
+
+  isWithdrawn(): boolean {
+    return this._value === 'withdrawn';
+  }
+
+  canTransitionTo(newStatus: ItemRequestStatusValue): boolean {
+    const transitions: Record<ItemRequestStatusValue, ItemRequestStatusValue[]> = {
+      'pending': ['selected', 'declined', 'withdrawn'],
+      'selected': [],
+      'declined': [],
+      'withdrawn': []
+    };
+
+    return transitions[this._value].includes(newStatus);
+  }
+
+  static pending(): ItemRequestStatus {
+    return new ItemRequestStatus('pending');
+  }
+
+  static selected(): ItemRequestStatus {
+    return new ItemRequestStatus('selected');
+  }
+
+  static declined(): ItemRequestStatus {
+    return new ItemRequestStatus('declined');
+  }
+
+  static withdrawn(): ItemRequestStatus {
+    return new ItemRequestStatus('withdrawn');
+  }
+}
@@ -0,0 +1,98 @@
+import { randomUUID } from 'crypto';
+
+export interface PickupSlotData {
+  id: string;
+  startsAt: Date;
+  endsAt: Date;
+  proposedBy: string;
+  proposedAt: Date;
+}
+
+/**
+ * A window in which one participant can hand over or collect an item.
+ */
+export class PickupSlot {
+  private static readonly MAX_DURATION_HOURS = 12;
+
+  private readonly _id: string;
+  private readonly _startsAt: Date;
+  private readonly _endsAt: Date;
+  private readonly _proposedBy: string;
+  private readonly _proposedAt: Date;
+
+  constructor(data: PickupSlotData) {
+    if (!data.id || data.id.trim().length === 0) {
+      throw new Error('Pickup slot id cannot be empty');
+    }
+    if (isNaN(data.startsAt.getTime()) || isNaN(data.endsAt.getTime())) {
+      throw new Error('Pickup slot times must be valid dates');
+    }
+    if (data.endsAt <= data.startsAt) {
+      throw new Error('Pickup slot must end after it starts');
+    }
+    if (data.endsAt.getTime() - data.startsAt.getTime() > PickupSlot.MAX_DURATION_HOURS * 60 * 60 * 1000) {
+      throw new Error(`Pickup slot cannot be longer than ${PickupSlot.MAX_DURATION_HOURS} hours`);
+    }
+    if (!data.proposedBy || data.proposedBy.trim().length === 0) {
+      throw new Error('ProposedBy cannot be empty');
+    }
+
+    this._id = data.id.trim();
+    this._startsAt = data.startsAt;
+    this._endsAt = data.endsAt;
+    this._proposedBy = data.proposedBy.trim();
+    this._proposedAt = data.proposedAt;
+  }
+
+  static propose(startsAt: Date, endsAt: Date, proposedBy: string): PickupSlot {
+    if (startsAt <= new Date()) {
+      throw new Error('Pickup slot must start in the future');
+    }
+
+    return new PickupSlot({
+      id: randomUUID(),
+      startsAt,
+      endsAt,
+      proposedBy,
+      proposedAt: new Date()
+    });
+  }
+
+  get id(): string {
+    return this._id;
+  }
+
+  get startsAt(): Date {
+    return this._startsAt;
+  }
+
+  get endsAt(): Date {
+    return this._endsAt;
+  }
+
+  get proposedBy(): string {
+    return this._proposedBy;
+  }
+
+  get proposedAt(): Date {
+    return this._proposedAt;
+  }
+
+  overlaps(other: PickupSlot): boolean {
+    return this._startsAt < other._endsAt && other._startsAt < this._endsAt;
+  }
+
+  hasStarted(): boolean {
+    return this._startsAt <= new Date();
+  }
+
+  toData(): PickupSlotData {
+    return {
+      id: this._id,
+      startsAt: this._startsAt,
+      endsAt: this._endsAt,
+      proposedBy: this._proposedBy,
+      proposedAt: this._proposedAt
+    };
+  }
+}
@@ -5,4 +5,10 @@ export * from './user';
 export * from './item';
 
 // Exchange Domain
-export * from './exchange';
\ No newline at end of file
+export * from './exchange';
+
+// Wanted Posts Domain
+export * from './wanted';
+
+// Domain Events
+export * from './events';
\ No newline at end of file
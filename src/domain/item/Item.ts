@@ -1,13 +1,23 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
 import { ItemId } from './value-objects/ItemId';
-import { ItemDetails, ItemDetailsData } from './value-objects/ItemDetails';
+import { ItemDetails, ItemDetailsData, ItemCondition } from './value-objects/ItemDetails';
 import { ItemStatus, ItemStatusValue } from './value-objects/ItemStatus';
+import { ItemImageData } from './value-objects/ItemImage';
+import { ItemRevision, ItemRevisionData, ItemRevisionField } from './value-objects/ItemRevision';
 import { UserId } from '../user/value-objects/UserId';
 import { Location, LocationData } from '../user/value-objects/Location';
+import { AggregateRoot } from '../events/AggregateRoot';
+import { createDomainEvent } from '../events/DomainEvent';
+import { ItemEvent } from './ItemEvents';
 
 export interface CreateItemData {
+  id?: string; // Pre-generated when image paths need the id before the item exists
   userId: string;
   details: ItemDetailsData;
   location: LocationData;
+  lifetimeDays?: number; // Listings without one never expire
+  quantity?: number; // Defaults to a single unit
+  isLot?: boolean; // Lots can be split across several exchanges
 }
 
 export interface ItemData {
@@ -16,11 +26,23 @@ export interface ItemData {
   details: ItemDetailsData;
   status: ItemStatusValue;
   location: LocationData;
+  staleReminderSentAt?: Date;
+  expiresAt?: Date;
+  renewalTokenHash?: string; // Of the token in the renewal reminder email
+  renewalReminderSentAt?: Date;
+  quantity?: number;
+  isLot?: boolean;
+  quantityClaimed?: number; // Units held by exchanges in progress
+  quantityGiven?: number; // Units handed over in completed exchanges
+  pendingRevisions?: ItemRevisionData[]; // Edits not yet in the item's history
   createdAt: Date;
   updatedAt: Date;
 }
 
-export class Item {
+export class Item extends AggregateRoot<ItemEvent> {
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+  private static readonly MAX_QUANTITY = 10000;
+
   private constructor(
     private readonly _id: ItemId,
     private readonly _userId: UserId,
@@ -28,26 +50,63 @@ export class Item {
     private _status: ItemStatus,
     private _location: Location,
     private readonly _createdAt: Date,
-    private _updatedAt: Date
-  ) {}
+    private _updatedAt: Date,
+    private _staleReminderSentAt?: Date,
+    private _expiresAt?: Date,
+    private _renewalTokenHash?: string,
+    private _renewalReminderSentAt?: Date,
+    private readonly _quantity: number = 1,
+    private readonly _isLot: boolean = false,
+    private _quantityClaimed: number = 0,
+    private _quantityGiven: number = 0,
+    private _pendingRevisions: ItemRevisionData[] = []
+  ) {
+    super();
+  }
 
   static create(data: CreateItemData): Item {
-    const id = ItemId.generate();
+    const id = data.id ? new ItemId(data.id) : ItemId.generate();
     const userId = new UserId(data.userId);
     const details = new ItemDetails(data.details);
     const status = ItemStatus.available();
     const location = new Location(data.location);
     const now = new Date();
+    const expiresAt = data.lifetimeDays !== undefined
+      ? Item.expiryFrom(now, data.lifetimeDays)
+      : undefined;
+    const quantity = data.quantity ?? 1;
+    const isLot = data.isLot ?? false;
+
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > Item.MAX_QUANTITY) {
+      throw new Error(`Quantity must be a whole number between 1 and ${Item.MAX_QUANTITY}`);
+    }
+    if (isLot && quantity < 2) {
+      throw new Error('A lot must have more than one unit');
+    }
 
-    return new Item(
+    const item = new Item(
       id,
       userId,
       details,
       status,
       location,
       now,
-      now
+      now,
+      undefined,
+      expiresAt,
+      undefined,
+      undefined,
+      quantity,
+      isLot
     );
+
+    item.recordEvent(createDomainEvent('ItemPosted', 'Item', id.value, {
+      userId: userId.value,
+      title: details.title,
+      category: details.category
+    }));
+
+    return item;
   }
 
   static fromData(data: ItemData): Item {
@@ -57,6 +116,11 @@ export class Item {
     const status = new ItemStatus(data.status);
     const location = new Location(data.location);
 
+    // Items saved before quantities existed are single units whose status
+    // says whether that unit is claimed or given
+    const quantityClaimed = data.quantityClaimed ?? (data.status === 'pending' ? 1 : 0);
+    const quantityGiven = data.quantityGiven ?? (data.status === 'exchanged' ? 1 : 0);
+
     return new Item(
       id,
       userId,
@@ -64,7 +128,16 @@ export class Item {
       status,
       location,
       data.createdAt,
-      data.updatedAt
+      data.updatedAt,
+      data.staleReminderSentAt,
+      data.expiresAt,
+      data.renewalTokenHash,
+      data.renewalReminderSentAt,
+      data.quantity ?? 1,
+      data.isLot ?? false,
+      quantityClaimed,
+      quantityGiven,
+      data.pendingRevisions ?? []
     );
   }
 
@@ -96,6 +169,56 @@ export class Item {
     return this._updatedAt;
   }
 
+  get staleReminderSentAt(): Date | undefined {
+    return this._staleReminderSentAt;
+  }
+
+  get expiresAt(): Date | undefined {
+    return this._expiresAt;
+  }
+
+  get renewalTokenHash(): string | undefined {
+    return this._renewalTokenHash;
+  }
+
+  get renewalReminderSentAt(): Date | undefined {
+    return this._renewalReminderSentAt;
+  }
+
+  get quantity(): number {
+    return this._quantity;
+  }
+
+  get isLot(): boolean {
+    return this._isLot;
+  }
+
+  get quantityClaimed(): number {
+    return this._quantityClaimed;
+  }
+
+  get quantityGiven(): number {
+    return this._quantityGiven;
+  }
+
+  get pendingRevisions(): readonly ItemRevisionData[] {
+    return this._pendingRevisions;
+  }
+
+  /**
+   * Units not yet handed over, including those claimed by exchanges in progress.
+   */
+  get quantityRemaining(): number {
+    return this._quantity - this._quantityGiven;
+  }
+
+  /**
+   * Units a new exchange can still claim.
+   */
+  get quantityUnclaimed(): number {
+    return this.quantityRemaining - this._quantityClaimed;
+  }
+
   updateStatus(newStatus: ItemStatusValue): void {
     if (!this._status.canTransitionTo(newStatus)) {
       throw new Error(
@@ -123,6 +246,26 @@ export class Item {
     return this._status.isRemoved();
   }
 
+  isExpired(): boolean {
+    return this._status.isExpired();
+  }
+
+  /**
+   * Whether the owner can still change the listing. Edits made while an
+   * exchange is open are recorded so the receiver can re-confirm.
+   */
+  isEditable(): boolean {
+    return this._status.isAvailable() || this._status.isPending();
+  }
+
+  /**
+   * Whether the listing has run past its expiry date, whether or not it has
+   * been marked expired yet.
+   */
+  hasLapsed(now: Date = new Date()): boolean {
+    return this._expiresAt !== undefined && this._expiresAt <= now;
+  }
+
   calculateDistanceFrom(location: Location): number {
     return this._location.distanceTo(location);
   }
@@ -138,6 +281,8 @@ export class Item {
   matchesSearchCriteria(criteria: {
     searchTerm?: string;
     category?: string;
+    categories?: string[]; // Matches any of them
+    conditions?: ItemCondition[]; // Matches any of them
     tags?: string[];
     maxDistance?: number;
     userLocation?: Location;
@@ -157,6 +302,19 @@ export class Item {
       return false;
     }
 
+    if (criteria.categories && criteria.categories.length > 0) {
+      if (!criteria.categories.some(category => this._details.matchesCategory(category))) {
+        return false;
+      }
+    }
+
+    // Check condition
+    if (criteria.conditions && criteria.conditions.length > 0) {
+      if (!criteria.conditions.includes(this._details.condition)) {
+        return false;
+      }
+    }
+
     // Check tags
     if (criteria.tags && criteria.tags.length > 0) {
       const hasMatchingTag = criteria.tags.some(tag => this._details.hasTag(tag));
@@ -175,40 +333,282 @@ export class Item {
     return true;
   }
 
-  updateDetails(newDetails: ItemDetailsData): void {
-    if (!this._status.isAvailable()) {
-      throw new Error('Cannot update details of non-available items');
+  updateDetails(newDetails: ItemDetailsData, changedBy: UserId = this._userId): void {
+    if (!this.isEditable()) {
+      throw new Error(`Cannot update details of item in ${this._status.value} status`);
     }
 
+    const before = this._details.toData();
     this._details = new ItemDetails(newDetails);
     this._updatedAt = new Date();
+
+    this.recordRevision(changedBy, before, this._details.toData());
   }
 
-  updateLocation(newLocation: LocationData): void {
-    if (!this._status.isAvailable()) {
-      throw new Error('Cannot update location of non-available items');
+  updateLocation(newLocation: LocationData, changedBy: UserId = this._userId): void {
+    if (!this.isEditable()) {
+      throw new Error(`Cannot update location of item in ${this._status.value} status`);
     }
 
+    const before = this._location.toData();
     this._location = new Location(newLocation);
     this._updatedAt = new Date();
+
+    this.recordRevision(changedBy, { location: before }, { location: this._location.toData() });
+  }
+
+  addImages(images: ItemImageData[], changedBy: UserId = this._userId): void {
+    this.updateDetails({ ...this._details.toData(), images: [...this._details.images, ...images] }, changedBy);
+  }
+
+  /**
+   * Removes the images at the given positions and returns them, so their
+   * files can be deleted once the change is saved.
+   */
+  removeImages(positions: number[], changedBy: UserId = this._userId): ItemImageData[] {
+    const current = [...this._details.images];
+    const toRemove = new Set(positions);
+    if (toRemove.size === 0) {
+      throw new Error('Choose at least one image to remove');
+    }
+    for (const position of toRemove) {
+      if (!Number.isInteger(position) || position < 0 || position >= current.length) {
+        throw new Error(`There is no image at position ${position}`);
+      }
+    }
+
+    this.updateDetails(
+      { ...this._details.toData(), images: current.filter((_, index) => !toRemove.has(index)) },
+      changedBy
+    );
+    return current.filter((_, index) => toRemove.has(index));
+  }
+
+  /**
+   * Puts the images in a new order, given as the current position of each
+   * image in turn. Every image has to appear exactly once.
+   */
+  reorderImages(order: number[], changedBy: UserId = this._userId): void {
+    const current = this._details.images;
+    const isPermutation = order.length === current.length &&
+      [...order].sort((a, b) => a - b).every((position, index) => position === index);
+    if (!isPermutation) {
+      throw new Error(`Order must list each of the ${current.length} image positions exactly once`);
+    }
+
+    this.updateDetails({ ...this._details.toData(), images: order.map(position => current[position]) }, changedBy);
+  }
+
+  clearPendingRevisions(): void {
+    this._pendingRevisions = [];
+  }
+
+  /**
+   * Reserves units for a new exchange. A lot stays available while it has
+   * unclaimed units; anything else is claimed whole.
+   */
+  claim(units: number): void {
+    Item.assertUnits(units);
+    if (!this._status.isAvailable()) {
+      throw new Error('Item is not available for exchange');
+    }
+    if (!this._isLot && units !== this.quantityRemaining) {
+      throw new Error('This item can only be given away as a whole');
+    }
+    if (units > this.quantityUnclaimed) {
+      throw new Error(`Only ${this.quantityUnclaimed} of ${this._quantity} remaining`);
+    }
+
+    this._quantityClaimed += units;
+    this.syncStatusWithQuantities();
+  }
+
+  /**
+   * Gives back units claimed by an exchange that won't go ahead.
+   */
+  releaseClaim(units: number): void {
+    Item.assertUnits(units);
+    if (units > this._quantityClaimed) {
+      throw new Error(`Cannot release ${units} units, only ${this._quantityClaimed} are claimed`);
+    }
+
+    this._quantityClaimed -= units;
+    this.syncStatusWithQuantities();
+  }
+
+  /**
+   * Records claimed units as given once their exchange completes.
+   */
+  handOver(units: number): void {
+    Item.assertUnits(units);
+    if (units > this._quantityClaimed) {
+      throw new Error(`Cannot hand over ${units} units, only ${this._quantityClaimed} are claimed`);
+    }
+
+    this._quantityClaimed -= units;
+    this._quantityGiven += units;
+    this.syncStatusWithQuantities();
+  }
+
+  /**
+   * Returns handed over units to the listing after their exchange is
+   * reversed in a dispute.
+   */
+  takeBack(units: number): void {
+    Item.assertUnits(units);
+    if (units > this._quantityGiven) {
+      throw new Error(`Cannot take back ${units} units, only ${this._quantityGiven} were given`);
+    }
+
+    this._quantityGiven -= units;
+    this.syncStatusWithQuantities();
   }
 
   markAsPending(): void {
-    this.updateStatus('pending');
+    this.claim(this.quantityUnclaimed);
   }
 
   markAsExchanged(): void {
-    this.updateStatus('exchanged');
+    if (!this._status.canTransitionTo('exchanged')) {
+      throw new Error(`Cannot transition from ${this._status.value} to exchanged`);
+    }
+
+    this.handOver(this._quantityClaimed);
   }
 
   markAsRemoved(): void {
     this.updateStatus('removed');
   }
 
+  /**
+   * Takes the listing down on behalf of the platform. Claimed units must be
+   * released by cancelling their exchanges first.
+   */
+  removeByAdmin(reason: string, adminId: UserId): void {
+    if (!reason || reason.trim().length === 0) {
+      throw new Error('Removal reason is required');
+    }
+    if (this._quantityClaimed > 0) {
+      throw new Error('Cancel the exchanges in progress before removing the item');
+    }
+
+    this.updateStatus('removed');
+
+    this.recordEvent(createDomainEvent('ItemRemovedByAdmin', 'Item', this._id.value, {
+      userId: this._userId.value,
+      removedBy: adminId.value,
+      title: this._details.title,
+      reason: reason.trim()
+    }));
+  }
+
   makeAvailable(): void {
+    if (!this._status.canTransitionTo('available')) {
+      throw new Error(`Cannot transition from ${this._status.value} to available`);
+    }
+
+    this._quantityClaimed = 0;
     this.updateStatus('available');
   }
 
+  remindOwnerOfStaleListing(): void {
+    if (!this._status.isAvailable()) {
+      throw new Error('Can only send stale listing reminders for available items');
+    }
+
+    // updatedAt is left alone so the listing still counts as untouched
+    this._staleReminderSentAt = new Date();
+
+    const daysListed = Math.floor((Date.now() - this._updatedAt.getTime()) / (1000 * 60 * 60 * 24));
+    this.recordEvent(createDomainEvent('ItemListingStale', 'Item', this._id.value, {
+      userId: this._userId.value,
+      title: this._details.title,
+      daysListed
+    }));
+  }
+
+  /**
+   * Warns the owner that the listing is about to expire. The email carries a
+   * renewal token, issued when it is sent, that lets them renew the listing
+   * without signing in.
+   */
+  remindOwnerOfExpiry(): void {
+    if (!this._status.isAvailable() || !this._expiresAt) {
+      throw new Error('Can only send renewal reminders for available items with an expiry date');
+    }
+
+    this._renewalReminderSentAt = new Date();
+
+    this.recordEvent(createDomainEvent('ItemListingExpiring', 'Item', this._id.value, {
+      userId: this._userId.value,
+      title: this._details.title,
+      expiresAt: this._expiresAt.toISOString()
+    }));
+  }
+
+  expire(): void {
+    if (!this._status.isAvailable() || !this.hasLapsed()) {
+      throw new Error('Only available items past their expiry date can expire');
+    }
+    if (this._quantityClaimed > 0) {
+      throw new Error('Cannot expire an item with exchanges in progress');
+    }
+
+    // The renewal token is kept so the reminder link can still relist it
+    this.updateStatus('expired');
+
+    this.recordEvent(createDomainEvent('ItemListingExpired', 'Item', this._id.value, {
+      userId: this._userId.value,
+      title: this._details.title
+    }));
+  }
+
+  /**
+   * Extends an available listing, or relists an expired one, for another
+   * lifetimeDays from now.
+   */
+  renew(lifetimeDays: number): void {
+    if (!this._status.isAvailable() && !this._status.isExpired()) {
+      throw new Error(`Cannot renew item in ${this._status.value} status`);
+    }
+
+    const now = new Date();
+    this._status = ItemStatus.available();
+    this._expiresAt = Item.expiryFrom(now, lifetimeDays);
+    this._renewalTokenHash = undefined;
+    this._renewalReminderSentAt = undefined;
+    this._staleReminderSentAt = undefined;
+    this._updatedAt = now;
+  }
+
+  /**
+   * Replaces the renewal token with a new one and returns it. Only its hash
+   * is kept, so the token itself only ever exists in the reminder email.
+   */
+  issueRenewalToken(): string {
+    if (!this._renewalReminderSentAt) {
+      throw new Error('Renewal tokens are only issued with a renewal reminder');
+    }
+
+    const token = randomBytes(24).toString('hex');
+    this._renewalTokenHash = Item.hashRenewalToken(token);
+    return token;
+  }
+
+  matchesRenewalToken(candidate: string): boolean {
+    if (!this._renewalTokenHash) {
+      return false;
+    }
+
+    const expected = Buffer.from(this._renewalTokenHash);
+    const actual = Buffer.from(Item.hashRenewalToken(candidate));
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  private static hashRenewalToken(token: string): string {
+    return createHash('sha256').update(token.trim()).digest('hex');
+  }
+
   toData(): ItemData {
     return {
       id: this._id.value,
@@ -216,8 +616,65 @@ export class Item {
       details: this._details.toData(),
       status: this._status.value,
       location: this._location.toData(),
+      staleReminderSentAt: this._staleReminderSentAt,
+      expiresAt: this._expiresAt,
+      renewalTokenHash: this._renewalTokenHash,
+      renewalReminderSentAt: this._renewalReminderSentAt,
+      quantity: this._quantity,
+      isLot: this._isLot,
+      quantityClaimed: this._quantityClaimed,
+      quantityGiven: this._quantityGiven,
+      pendingRevisions: this._pendingRevisions.map(revision => ({ ...revision })),
       createdAt: this._createdAt,
       updatedAt: this._updatedAt
     };
   }
+
+  private static expiryFrom(from: Date, lifetimeDays: number): Date {
+    if (!Number.isFinite(lifetimeDays) || lifetimeDays <= 0) {
+      throw new Error('Listing lifetime must be a positive number of days');
+    }
+
+    return new Date(from.getTime() + lifetimeDays * Item.DAY_MS);
+  }
+
+  private recordRevision(
+    changedBy: UserId,
+    before: Partial<Record<ItemRevisionField, unknown>>,
+    after: Partial<Record<ItemRevisionField, unknown>>
+  ): void {
+    const revision = ItemRevision.between(changedBy.value, before, after);
+    if (!revision) {
+      return;
+    }
+
+    this._pendingRevisions.push(revision);
+    this.recordEvent(createDomainEvent('ItemDetailsChanged', 'Item', this._id.value, {
+      userId: this._userId.value,
+      changedBy: changedBy.value,
+      title: this._details.title,
+      fields: revision.changes.map(change => change.field)
+    }));
+  }
+
+  private static assertUnits(units: number): void {
+    if (!Number.isInteger(units) || units < 1) {
+      throw new Error('Quantity must be a whole number of at least 1');
+    }
+  }
+
+  /**
+   * Pending once every remaining unit is claimed, exchanged once every unit
+   * has been given, available otherwise.
+   */
+  private syncStatusWithQuantities(): void {
+    if (this.quantityRemaining === 0) {
+      this._status = ItemStatus.exchanged();
+    } else if (this.quantityUnclaimed === 0) {
+      this._status = ItemStatus.pending();
+    } else {
+      this._status = ItemStatus.available();
+    }
+    this._updatedAt = new Date();
+  }
 }
\ No newline at end of file
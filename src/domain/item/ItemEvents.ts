@@ -0,0 +1,46 @@
+import { DomainEvent } from '../events/DomainEvent';
+
+export type ItemPosted = DomainEvent<'ItemPosted', {
+  userId: string;
+  title: string;
+  category: string;
+}>;
+
+export type ItemListingStale = DomainEvent<'ItemListingStale', {
+  userId: string;
+  title: string;
+  daysListed: number;
+}>;
+
+export type ItemListingExpiring = DomainEvent<'ItemListingExpiring', {
+  userId: string;
+  title: string;
+  expiresAt: string;
+}>;
+
+export type ItemListingExpired = DomainEvent<'ItemListingExpired', {
+  userId: string;
+  title: string;
+}>;
+
+export type ItemDetailsChanged = DomainEvent<'ItemDetailsChanged', {
+  userId: string;
+  changedBy: string;
+  title: string;
+  fields: string[];
+}>;
+
+export type ItemRemovedByAdmin = DomainEvent<'ItemRemovedByAdmin', {
+  userId: string;
+  removedBy: string;
+  title: string;
+  reason: string;
+}>;
+
+export type ItemEvent =
+  | ItemPosted
+  | ItemListingStale
+  | ItemListingExpiring
+  | ItemListingExpired
+  | ItemDetailsChanged
+  | ItemRemovedByAdmin;
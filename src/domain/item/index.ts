@@ -1,4 +1,8 @@
 export { Item, CreateItemData, ItemData } from './Item';
 export { ItemId } from './value-objects/ItemId';
-export { ItemDetails, ItemDetailsData, ItemDimensions, ItemCondition } from './value-objects/ItemDetails';
-export { ItemStatus, ItemStatusValue } from './value-objects/ItemStatus';
\ No newline at end of file
+export { ItemDetails, ItemDetailsData, ItemDimensions, ItemCondition, ITEM_CONDITIONS } from './value-objects/ItemDetails';
+export { ItemStatus, ItemStatusValue } from './value-objects/ItemStatus';
+export { SearchQuery } from './value-objects/SearchQuery';
+export { ItemImage, ItemImageData, ItemImageVariant, StoredItemImage, ITEM_IMAGE_VARIANTS } from './value-objects/ItemImage';
+export { ItemRevision, ItemRevisionData, ItemFieldChange, ItemRevisionField } from './value-objects/ItemRevision';
+export { ItemPosted, ItemListingStale, ItemEvent } from './ItemEvents';
\ No newline at end of file
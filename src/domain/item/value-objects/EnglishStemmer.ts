@@ -0,0 +1,224 @@
+/**
+ * The Snowball English (Porter2) stemmer, the one behind PostgreSQL's
+ * `english` text search configuration. Expects a single lowercase word.
+ * See https://snowballstem.org/algorithms/english/stemmer.html
+ */
+export class EnglishStemmer {
+  private static readonly EXCEPTIONS = new Map([
+    ['skis', 'ski'], ['skies', 'sky'], ['dying', 'die'], ['lying', 'lie'], ['tying', 'tie'],
+    ['idly', 'idl'], ['gently', 'gentl'], ['ugly', 'ugli'], ['early', 'earli'], ['only', 'onli'],
+    ['singly', 'singl'], ['sky', 'sky'], ['news', 'news'], ['howe', 'howe'], ['atlas', 'atlas'],
+    ['cosmos', 'cosmos'], ['bias', 'bias'], ['andes', 'andes']
+  ]);
+
+  // Left alone once step 1a has run
+  private static readonly STEP_1A_INVARIANTS = new Set([
+    'inning', 'outing', 'canning', 'herring', 'earring', 'proceed', 'exceed', 'succeed'
+  ]);
+
+  private static readonly STEP_2_SUFFIXES: [string, string][] = [
+    ['ization', 'ize'], ['ational', 'ate'], ['fulness', 'ful'], ['ousness', 'ous'], ['iveness', 'ive'],
+    ['tional', 'tion'], ['biliti', 'ble'], ['lessli', 'less'], ['entli', 'ent'], ['ation', 'ate'],
+    ['alism', 'al'], ['aliti', 'al'], ['ousli', 'ous'], ['iviti', 'ive'], ['fulli', 'ful'],
+    ['enci', 'ence'], ['anci', 'ance'], ['abli', 'able'], ['izer', 'ize'], ['ator', 'ate'],
+    ['alli', 'al'], ['bli', 'ble'], ['ogi', 'og'], ['li', '']
+  ];
+
+  private static readonly STEP_3_SUFFIXES: [string, string][] = [
+    ['ational', 'ate'], ['tional', 'tion'], ['alize', 'al'], ['icate', 'ic'], ['iciti', 'ic'],
+    ['ative', ''], ['ical', 'ic'], ['ness', ''], ['ful', '']
+  ];
+
+  private static readonly STEP_4_SUFFIXES = [
+    'ement', 'ance', 'ence', 'able', 'ible', 'ment', 'ant', 'ent', 'ism', 'ate', 'iti', 'ous',
+    'ive', 'ize', 'ion', 'al', 'er', 'ic'
+  ];
+
+  static stem(input: string): string {
+    const exception = EnglishStemmer.EXCEPTIONS.get(input);
+    if (exception !== undefined) {
+      return exception;
+    }
+    if (input.length <= 2) {
+      return input;
+    }
+
+    // Y marks a y that acts as a consonant
+    let word = input.replace(/^'/, '').replace(/^y/, 'Y').replace(/([aeiouy])y/g, '$1Y');
+    // R1 starts straight after gener-, commun- and arsen-
+    const prefix = /^(gener|commun|arsen)/.exec(word);
+    const r1 = prefix ? prefix[0].length : EnglishStemmer.regionAfter(word, 0);
+    const r2 = EnglishStemmer.regionAfter(word, r1);
+
+    word = EnglishStemmer.step0(word);
+    word = EnglishStemmer.step1a(word);
+    if (EnglishStemmer.STEP_1A_INVARIANTS.has(word)) {
+      return word;
+    }
+    word = EnglishStemmer.step1b(word, r1);
+    word = EnglishStemmer.step1c(word);
+    word = EnglishStemmer.step2(word, r1);
+    word = EnglishStemmer.step3(word, r1, r2);
+    word = EnglishStemmer.step4(word, r2);
+    word = EnglishStemmer.step5(word, r1, r2);
+
+    return word.replace(/Y/g, 'y');
+  }
+
+  private static step0(word: string): string {
+    for (const suffix of ["'s'", "'s", "'"]) {
+      if (word.endsWith(suffix)) {
+        return word.slice(0, -suffix.length);
+      }
+    }
+    return word;
+  }
+
+  private static step1a(word: string): string {
+    if (word.endsWith('sses')) {
+      return word.slice(0, -2);
+    }
+    if (word.endsWith('ied') || word.endsWith('ies')) {
+      return word.length > 4 ? word.slice(0, -2) : word.slice(0, -1);
+    }
+    if (word.endsWith('us') || word.endsWith('ss')) {
+      return word;
+    }
+    if (word.endsWith('s') && EnglishStemmer.hasVowel(word.slice(0, -2))) {
+      return word.slice(0, -1);
+    }
+    return word;
+  }
+
+  private static step1b(word: string, r1: number): string {
+    const suffix = EnglishStemmer.longestSuffix(word, ['eedly', 'ingly', 'edly', 'eed', 'ing', 'ed']);
+    if (!suffix) {
+      return word;
+    }
+
+    const stem = word.slice(0, -suffix.length);
+    if (suffix === 'eed' || suffix === 'eedly') {
+      return stem.length >= r1 ? `${stem}ee` : word;
+    }
+    if (!EnglishStemmer.hasVowel(stem)) {
+      return word;
+    }
+
+    if (/(at|bl|iz)$/.test(stem)) {
+      return `${stem}e`;
+    }
+    if (/(bb|dd|ff|gg|mm|nn|pp|rr|tt)$/.test(stem)) {
+      return stem.slice(0, -1);
+    }
+    if (EnglishStemmer.isShortWord(stem, r1)) {
+      return `${stem}e`;
+    }
+    return stem;
+  }
+
+  private static step1c(word: string): string {
+    return word.length > 2 && /[yY]$/.test(word) && !EnglishStemmer.isVowel(word[word.length - 2])
+      ? `${word.slice(0, -1)}i`
+      : word;
+  }
+
+  private static step2(word: string, r1: number): string {
+    const match = EnglishStemmer.longestReplacement(word, EnglishStemmer.STEP_2_SUFFIXES);
+    if (!match || word.length - match[0].length < r1) {
+      return word;
+    }
+
+    const [suffix, replacement] = match;
+    const stem = word.slice(0, -suffix.length);
+    if (suffix === 'ogi' && !stem.endsWith('l')) {
+      return word;
+    }
+    if (suffix === 'li' && !/[cdeghkmnrt]$/.test(stem)) {
+      return word;
+    }
+    return stem + replacement;
+  }
+
+  private static step3(word: string, r1: number, r2: number): string {
+    const match = EnglishStemmer.longestReplacement(word, EnglishStemmer.STEP_3_SUFFIXES);
+    if (!match || word.length - match[0].length < r1) {
+      return word;
+    }
+
+    const [suffix, replacement] = match;
+    if (suffix === 'ative' && word.length - suffix.length < r2) {
+      return word;
+    }
+    return word.slice(0, -suffix.length) + replacement;
+  }
+
+  private static step4(word: string, r2: number): string {
+    const suffix = EnglishStemmer.longestSuffix(word, EnglishStemmer.STEP_4_SUFFIXES);
+    if (!suffix || word.length - suffix.length < r2) {
+      return word;
+    }
+
+    const stem = word.slice(0, -suffix.length);
+    if (suffix === 'ion' && !/[st]$/.test(stem)) {
+      return word;
+    }
+    return stem;
+  }
+
+  private static step5(word: string, r1: number, r2: number): string {
+    const stem = word.slice(0, -1);
+    if (word.endsWith('e')) {
+      if (stem.length >= r2 || (stem.length >= r1 && !EnglishStemmer.endsWithShortSyllable(stem))) {
+        return stem;
+      }
+    } else if (word.endsWith('l') && stem.length >= r2 && stem.endsWith('l')) {
+      return stem;
+    }
+    return word;
+  }
+
+  /**
+   * Where the region after the first non-vowel following a vowel starts,
+   * looking from `start`. The word's length when there is no such region.
+   */
+  private static regionAfter(word: string, start: number): number {
+    for (let i = start + 1; i < word.length; i++) {
+      if (!EnglishStemmer.isVowel(word[i]) && EnglishStemmer.isVowel(word[i - 1])) {
+        return i + 1;
+      }
+    }
+    return word.length;
+  }
+
+  private static isShortWord(word: string, r1: number): boolean {
+    return r1 >= word.length && EnglishStemmer.endsWithShortSyllable(word);
+  }
+
+  private static endsWithShortSyllable(word: string): boolean {
+    const n = word.length;
+    if (n === 2) {
+      return EnglishStemmer.isVowel(word[0]) && !EnglishStemmer.isVowel(word[1]);
+    }
+    return n >= 3
+      && !EnglishStemmer.isVowel(word[n - 3])
+      && EnglishStemmer.isVowel(word[n - 2])
+      && !EnglishStemmer.isVowel(word[n - 1])
+      && !/[wxY]/.test(word[n - 1]);
+  }
+
+  private static longestSuffix(word: string, suffixes: readonly string[]): string | undefined {
+    return suffixes.find(suffix => word.endsWith(suffix));
+  }
+
+  private static longestReplacement(word: string, suffixes: [string, string][]): [string, string] | undefined {
+    return suffixes.find(([suffix]) => word.endsWith(suffix));
+  }
+
+  private static hasVowel(text: string): boolean {
+    return /[aeiouy]/.test(text);
+  }
+
+  private static isVowel(char: string): boolean {
+    return 'aeiouy'.includes(char);
+  }
+}
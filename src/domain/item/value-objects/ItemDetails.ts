@@ -1,3 +1,6 @@
+import { SearchQuery } from './SearchQuery';
+import { ItemImage, ItemImageData, StoredItemImage } from './ItemImage';
+
 export interface ItemDimensions {
   length: number;
   width: number;
@@ -7,12 +10,14 @@ export interface ItemDimensions {
 
 export type ItemCondition = 'new' | 'like-new' | 'good' | 'fair' | 'poor';
 
+export const ITEM_CONDITIONS: readonly ItemCondition[] = ['new', 'like-new', 'good', 'fair', 'poor'];
+
 export interface ItemDetailsData {
   title: string;
   description: string;
   category: string;
   tags: string[];
-  images: string[];
+  images: StoredItemImage[];
   condition: ItemCondition;
   dimensions?: ItemDimensions;
   pickupInstructions?: string;
@@ -23,7 +28,7 @@ export class ItemDetails {
   private readonly _description: string;
   private readonly _category: string;
   private readonly _tags: string[];
-  private readonly _images: string[];
+  private readonly _images: ItemImageData[];
   private readonly _condition: ItemCondition;
   private readonly _dimensions?: ItemDimensions;
   private readonly _pickupInstructions?: string;
@@ -63,7 +68,7 @@ export class ItemDetails {
     this._description = data.description.trim();
     this._category = data.category.trim().toLowerCase();
     this._tags = data.tags.map(tag => tag.trim().toLowerCase()).filter(tag => tag.length > 0);
-    this._images = [...data.images];
+    this._images = data.images.map(image => ItemImage.normalize(image));
     this._condition = data.condition;
     this._dimensions = data.dimensions ? { ...data.dimensions } : undefined;
     this._pickupInstructions = data.pickupInstructions?.trim();
@@ -85,7 +90,7 @@ export class ItemDetails {
     return this._tags;
   }
 
-  get images(): readonly string[] {
+  get images(): readonly ItemImageData[] {
     return this._images;
   }
 
@@ -109,14 +114,17 @@ export class ItemDetails {
     return this._category === category.toLowerCase();
   }
 
+  /**
+   * Matches the way the database full-text search does, so in-memory
+   * filtering returns the same items as a search query.
+   */
   matchesSearchTerm(searchTerm: string): boolean {
-    const term = searchTerm.toLowerCase();
-    return (
-      this._title.toLowerCase().includes(term) ||
-      this._description.toLowerCase().includes(term) ||
-      this._category.includes(term) ||
-      this._tags.some(tag => tag.includes(term))
-    );
+    return SearchQuery.parse(searchTerm).matches([
+      this._title,
+      this._description,
+      this._category,
+      ...this._tags
+    ]);
   }
 
   getConditionScore(): number {
@@ -136,7 +144,7 @@ export class ItemDetails {
       description: this._description,
       category: this._category,
       tags: [...this._tags],
-      images: [...this._images],
+      images: this._images.map(image => ItemImage.normalize(image)),
       condition: this._condition,
       dimensions: this._dimensions ? { ...this._dimensions } : undefined,
       pickupInstructions: this._pickupInstructions
@@ -0,0 +1,46 @@
+export type ItemImageVariant = 'thumbnail' | 'medium' | 'full';
+
+export const ITEM_IMAGE_VARIANTS: readonly ItemImageVariant[] = ['thumbnail', 'medium', 'full'];
+
+/**
+ * URLs of the sizes generated for an uploaded photo, with the width each one
+ * was scaled to so clients can build a srcset.
+ */
+export interface ItemImageData {
+  thumbnail: string;
+  medium: string;
+  full: string;
+  widths?: Record<ItemImageVariant, number>;
+}
+
+/**
+ * Items posted before uploads were processed store the uploaded file's URL,
+ * which then stands in for every size.
+ */
+export type StoredItemImage = ItemImageData | string;
+
+export class ItemImage {
+  static normalize(image: StoredItemImage): ItemImageData {
+    if (typeof image === 'string') {
+      return { thumbnail: image, medium: image, full: image };
+    }
+
+    for (const variant of ITEM_IMAGE_VARIANTS) {
+      if (typeof image[variant] !== 'string' || image[variant].length === 0) {
+        throw new Error(`Item image is missing its ${variant} URL`);
+      }
+    }
+
+    return {
+      thumbnail: image.thumbnail,
+      medium: image.medium,
+      full: image.full,
+      ...(image.widths && { widths: { ...image.widths } })
+    };
+  }
+
+  // Every stored file behind the image, without duplicates for legacy images
+  static urls(image: ItemImageData): string[] {
+    return [...new Set(ITEM_IMAGE_VARIANTS.map(variant => image[variant]))];
+  }
+}
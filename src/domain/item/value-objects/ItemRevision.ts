@@ -0,0 +1,58 @@
+import { randomUUID } from 'crypto';
+
+export type ItemRevisionField =
+  | 'title'
+  | 'description'
+  | 'category'
+  | 'tags'
+  | 'images'
+  | 'condition'
+  | 'dimensions'
+  | 'pickupInstructions'
+  | 'location';
+
+export interface ItemFieldChange {
+  field: ItemRevisionField;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ItemRevisionData {
+  id: string;
+  changedBy: string;
+  changes: ItemFieldChange[];
+  changedAt: Date;
+}
+
+/**
+ * Builds the field-level diff for an edit to an item. Revisions recorded
+ * since the item was loaded are appended to its history when it is saved.
+ */
+export class ItemRevision {
+  static between(
+    changedBy: string,
+    before: Partial<Record<ItemRevisionField, unknown>>,
+    after: Partial<Record<ItemRevisionField, unknown>>
+  ): ItemRevisionData | null {
+    const fields = Object.keys(after) as ItemRevisionField[];
+    const changes = fields
+      .filter(field => !ItemRevision.isSame(before[field], after[field]))
+      .map(field => ({ field, from: before[field] ?? null, to: after[field] ?? null }));
+
+    if (changes.length === 0) {
+      return null;
+    }
+
+    return {
+      id: randomUUID(),
+      changedBy,
+      changes,
+      changedAt: new Date()
+    };
+  }
+
+  // Values come from the same toData() shapes, so their JSON compares reliably
+  private static isSame(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+  }
+}
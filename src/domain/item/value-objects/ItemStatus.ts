@@ -1,4 +1,4 @@
-export type ItemStatusValue = 'available' | 'pending' | 'exchanged' | 'removed';
+export type ItemStatusValue = 'available' | 'pending' | 'exchanged' | 'removed' | 'expired';
 
 export class ItemStatus {
   private readonly _value: ItemStatusValue;
@@ -35,12 +35,17 @@ export class ItemStatus {
     return this._value === 'removed';
   }
 
+  isExpired(): boolean {
+    return this._value === 'expired';
+  }
+
   canTransitionTo(newStatus: ItemStatusValue): boolean {
     const transitions: Record<ItemStatusValue, ItemStatusValue[]> = {
-      'available': ['pending', 'removed'],
+      'available': ['pending', 'removed', 'expired'],
       'pending': ['available', 'exchanged', 'removed'],
       'exchanged': ['removed'],
-      'removed': []
+      'removed': [],
+      'expired': ['available', 'removed']
     };
 
     return transitions[this._value].includes(newStatus);
@@ -61,4 +66,8 @@ export class ItemStatus {
   static removed(): ItemStatus {
     return new ItemStatus('removed');
   }
+
+  static expired(): ItemStatus {
+    return new ItemStatus('expired');
+  }
 }
\ No newline at end of file
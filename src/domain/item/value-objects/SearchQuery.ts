@@ -0,0 +1,109 @@
+import { EnglishStemmer } from './EnglishStemmer';
+
+interface SearchQueryPart {
+  words: string[]; // More than one word is a phrase that must appear in order
+  negated: boolean;
+}
+
+/**
+ * In-memory counterpart of PostgreSQL's websearch_to_tsquery('english', ...),
+ * so items filtered in memory agree with the database search. Words are
+ * ANDed, "quoted phrases" must appear in order, `or` offers an alternative
+ * to the previous word and a leading `-` excludes a word. Stop words are
+ * ignored and words are reduced to their Snowball stem, so "boxes" finds "box".
+ */
+export class SearchQuery {
+  // PostgreSQL's english.stop list
+  private static readonly STOP_WORDS = new Set([
+    'i', 'me', 'my', 'myself', 'we', 'our', 'ours', 'ourselves', 'you', 'your', 'yours', 'yourself',
+    'yourselves', 'he', 'him', 'his', 'himself', 'she', 'her', 'hers', 'herself', 'it', 'its', 'itself',
+    'they', 'them', 'their', 'theirs', 'themselves', 'what', 'which', 'who', 'whom', 'this', 'that',
+    'these', 'those', 'am', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had',
+    'having', 'do', 'does', 'did', 'doing', 'a', 'an', 'the', 'and', 'but', 'if', 'or', 'because', 'as',
+    'until', 'while', 'of', 'at', 'by', 'for', 'with', 'about', 'against', 'between', 'into', 'through',
+    'during', 'before', 'after', 'above', 'below', 'to', 'from', 'up', 'down', 'in', 'out', 'on', 'off',
+    'over', 'under', 'again', 'further', 'then', 'once', 'here', 'there', 'when', 'where', 'why', 'how',
+    'all', 'any', 'both', 'each', 'few', 'more', 'most', 'other', 'some', 'such', 'no', 'nor', 'not',
+    'only', 'own', 'same', 'so', 'than', 'too', 'very', 's', 't', 'can', 'will', 'just', 'don', 'should',
+    'now'
+  ]);
+
+  private constructor(
+    // Every clause must hold; a clause holds when any of its parts does
+    private readonly _clauses: SearchQueryPart[][]
+  ) {}
+
+  static parse(searchTerm: string): SearchQuery {
+    const clauses: SearchQueryPart[][] = [];
+    const tokenPattern = /(-?)"([^"]*)"?|(\S+)/g;
+    let pendingOr = false;
+    let match: RegExpExecArray | null;
+
+    while ((match = tokenPattern.exec(searchTerm)) !== null) {
+      const [, quoteNegation, phrase, bareWord] = match;
+
+      if (bareWord !== undefined && bareWord.toLowerCase() === 'or') {
+        pendingOr = clauses.length > 0;
+        continue;
+      }
+
+      const negated = bareWord !== undefined ? bareWord.startsWith('-') : quoteNegation === '-';
+      const words = SearchQuery.toLexemes(bareWord !== undefined ? bareWord.replace(/^-+/, '') : phrase);
+      if (words.length === 0) {
+        continue;
+      }
+
+      const part: SearchQueryPart = { words, negated };
+      if (pendingOr) {
+        clauses[clauses.length - 1].push(part);
+      } else {
+        clauses.push([part]);
+      }
+      pendingOr = false;
+    }
+
+    return new SearchQuery(clauses);
+  }
+
+  /**
+   * Splits text into stemmed words the same way search terms are, so both
+   * sides of a comparison line up.
+   */
+  static toLexemes(text: string): string[] {
+    return text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length > 0 && !SearchQuery.STOP_WORDS.has(word))
+      .map(word => EnglishStemmer.stem(word));
+  }
+
+  /**
+   * A query with no searchable words (only stop words or punctuation)
+   * doesn't filter anything.
+   */
+  isEmpty(): boolean {
+    return this._clauses.length === 0;
+  }
+
+  /**
+   * Phrases only match within a single field, never across two of them.
+   */
+  matches(fields: readonly string[]): boolean {
+    const documents = fields.map(field => SearchQuery.toLexemes(field));
+
+    return this._clauses.every(clause =>
+      clause.some(part => SearchQuery.containsPhrase(documents, part.words) !== part.negated)
+    );
+  }
+
+  private static containsPhrase(documents: string[][], words: string[]): boolean {
+    return documents.some(document => {
+      for (let start = 0; start + words.length <= document.length; start++) {
+        if (words.every((word, offset) => document[start + offset] === word)) {
+          return true;
+        }
+      }
+      return false;
+    });
+  }
+}
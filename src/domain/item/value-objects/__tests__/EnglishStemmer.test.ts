@@ -0,0 +1,26 @@
+import { EnglishStemmer } from '../EnglishStemmer';
+
+describe('EnglishStemmer', () => {
+  it.each([
+    ['boxes', 'box'],
+    ['chairs', 'chair'],
+    ['ponies', 'poni'],
+    ['cries', 'cri'],
+    ['ties', 'tie'],
+    ['running', 'run'],
+    ['hoping', 'hope'],
+    ['scratched', 'scratch'],
+    ['agreed', 'agre'],
+    ['generously', 'generous'],
+    ['communication', 'communic'],
+    ['hopefulness', 'hope'],
+    ['national', 'nation'],
+    ['skies', 'sky'],
+    ['news', 'news'],
+    ['succeeding', 'succeed'],
+    ['yellow', 'yellow'],
+    ['at', 'at']
+  ])('stems %s to %s like the Snowball english stemmer', (word, stem) => {
+    expect(EnglishStemmer.stem(word)).toBe(stem);
+  });
+});
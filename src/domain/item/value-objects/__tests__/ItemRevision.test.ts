@@ -0,0 +1,60 @@
+import { randomUUID } from 'crypto';
+import { Item } from '../../Item';
+import { UserId } from '../../../user/value-objects/UserId';
+
+const ownerId = randomUUID();
+
+const buildItem = (status: 'available' | 'pending' | 'exchanged' = 'available'): Item =>
+  Item.fromData({
+    id: randomUUID(),
+    userId: ownerId,
+    details: {
+      title: 'Oak bookshelf',
+      description: 'Five shelves, solid oak',
+      category: 'furniture',
+      tags: ['wood'],
+      images: ['https://example.com/bookshelf.jpg'],
+      condition: 'good'
+    },
+    status,
+    location: { latitude: 40.7128, longitude: -74.006, address: 'New York, NY' },
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+
+describe('ItemRevision', () => {
+  it('records only the fields an edit changed', () => {
+    const item = buildItem();
+
+    item.updateDetails({ ...item.details.toData(), title: 'Oak bookcase', tags: ['wood'] }, new UserId(ownerId));
+
+    expect(item.pendingRevisions).toEqual([
+      expect.objectContaining({
+        changedBy: ownerId,
+        changes: [{ field: 'title', from: 'Oak bookshelf', to: 'Oak bookcase' }]
+      })
+    ]);
+    expect(item.domainEvents.map(event => event.eventType)).toEqual(['ItemDetailsChanged']);
+    expect(item.domainEvents[0].payload).toEqual(expect.objectContaining({ fields: ['title'] }));
+  });
+
+  it('skips edits that change nothing', () => {
+    const item = buildItem();
+
+    item.updateDetails(item.details.toData());
+    item.updateLocation(item.location.toData());
+
+    expect(item.pendingRevisions).toHaveLength(0);
+    expect(item.domainEvents).toHaveLength(0);
+  });
+
+  it('allows edits during an exchange but not after the item is given away', () => {
+    const pending = buildItem('pending');
+    pending.updateLocation({ latitude: 40.73, longitude: -73.99, address: 'Greenwich Village, NY' });
+    expect(pending.pendingRevisions[0].changes.map(change => change.field)).toEqual(['location']);
+
+    const exchanged = buildItem('exchanged');
+    expect(() => exchanged.updateDetails({ ...exchanged.details.toData(), title: 'Oak bookcase' }))
+      .toThrow('Cannot update details of item in exchanged status');
+  });
+});
@@ -0,0 +1,53 @@
+import { SearchQuery } from '../SearchQuery';
+import { ItemDetails } from '../ItemDetails';
+
+const details = new ItemDetails({
+  title: 'Solid oak bookshelf',
+  description: 'Five shelves, a few scratches. Pickup from the garage only.',
+  category: 'furniture',
+  tags: ['wood', 'storage'],
+  images: ['https://example.com/bookshelf.jpg'],
+  condition: 'good'
+});
+
+describe('SearchQuery', () => {
+  it('requires every word but ignores stop words and word endings', () => {
+    expect(details.matchesSearchTerm('the oak bookshelf')).toBe(true);
+    expect(details.matchesSearchTerm('oak table')).toBe(false);
+    expect(details.matchesSearchTerm('Storage FURNITURE')).toBe(true);
+  });
+
+  it('matches whole words rather than substrings', () => {
+    expect(details.matchesSearchTerm('book')).toBe(false);
+    expect(details.matchesSearchTerm('shelves')).toBe(true);
+    expect(details.matchesSearchTerm('scratched')).toBe(true);
+  });
+
+  it('supports phrases, alternatives and exclusions like websearch_to_tsquery', () => {
+    expect(details.matchesSearchTerm('"solid oak"')).toBe(true);
+    expect(details.matchesSearchTerm('"oak solid"')).toBe(false);
+    expect(details.matchesSearchTerm('pine or oak shelves')).toBe(true);
+    expect(details.matchesSearchTerm('bookshelf -scratches')).toBe(false);
+    expect(details.matchesSearchTerm('bookshelf -"brand new"')).toBe(true);
+  });
+
+  it('reduces -es and -ies plurals to the stems PostgreSQL uses', () => {
+    expect(SearchQuery.parse('box').matches(['Moving boxes'])).toBe(true);
+    expect(SearchQuery.parse('boxes').matches(['Cardboard box'])).toBe(true);
+    expect(SearchQuery.parse('dish').matches(['Assorted dishes'])).toBe(true);
+    expect(SearchQuery.parse('battery').matches(['AA batteries, unopened'])).toBe(true);
+    expect(SearchQuery.parse('puppies').matches(['Puppy crate'])).toBe(true);
+    expect(SearchQuery.parse('box').matches(['Boxer shorts'])).toBe(false);
+  });
+
+  it('drops every word on the english stop list', () => {
+    expect(SearchQuery.parse('all chairs').matches(['Four chairs'])).toBe(true);
+    expect(SearchQuery.parse('my old lamp').matches(['Old desk lamp'])).toBe(true);
+    expect(SearchQuery.parse('some of these very few').isEmpty()).toBe(true);
+  });
+
+  it('treats a term without searchable words as empty', () => {
+    expect(SearchQuery.parse('the, of & or').isEmpty()).toBe(true);
+    expect(details.matchesSearchTerm('the')).toBe(true);
+  });
+});
@@ -0,0 +1,71 @@
+import { ItemDetails } from '../item/value-objects/ItemDetails';
+
+export interface EcoPointsRulesConfig {
+  itemPosted: number;
+  exchangeGiver: number;
+  exchangeReceiver: number;
+  accountVerified: number;
+  quickExchangeBonus: number;
+  quickExchangeDays: number;
+  conditionBonusPerLevel: number;
+  categoryMultipliers: Record<string, number>;
+  dailyCap: number;
+}
+
+export interface ExchangePoints {
+  giver: number;
+  receiver: number;
+}
+
+/**
+ * Single source of truth for how many eco-points an activity is worth.
+ * Base amounts are scaled by the item's category multiplier, and better-kept
+ * items earn a bonus per condition level above 'poor'.
+ */
+export class EcoPointsRules {
+  constructor(private readonly config: EcoPointsRulesConfig) {}
+
+  get accountVerificationPoints(): number {
+    return this.config.accountVerified;
+  }
+
+  calculateItemPostingPoints(details: ItemDetails): number {
+    return this.scaleForItem(this.config.itemPosted, details) + this.conditionBonus(details);
+  }
+
+  calculateExchangePoints(details: ItemDetails | undefined, daysToComplete: number): ExchangePoints {
+    const quickBonus = daysToComplete <= this.config.quickExchangeDays ? this.config.quickExchangeBonus : 0;
+
+    return {
+      giver: this.scaleForItem(this.config.exchangeGiver, details) + this.conditionBonus(details) + quickBonus,
+      receiver: this.scaleForItem(this.config.exchangeReceiver, details)
+    };
+  }
+
+  /**
+   * Trims an award so the user's total for the day never exceeds the cap.
+   * A cap of 0 means no limit.
+   */
+  applyDailyCap(points: number, awardedToday: number): number {
+    if (this.config.dailyCap <= 0) {
+      return points;
+    }
+    return Math.max(0, Math.min(points, this.config.dailyCap - awardedToday));
+  }
+
+  getCategoryMultiplier(category: string): number {
+    return this.config.categoryMultipliers[category.toLowerCase()] ?? 1;
+  }
+
+  private scaleForItem(basePoints: number, details?: ItemDetails): number {
+    const multiplier = details ? this.getCategoryMultiplier(details.category) : 1;
+    return Math.round(basePoints * multiplier);
+  }
+
+  private conditionBonus(details?: ItemDetails): number {
+    if (!details) {
+      return 0;
+    }
+    return (details.getConditionScore() - 1) * this.config.conditionBonusPerLevel;
+  }
+}
@@ -0,0 +1,74 @@
+import { EcoPointsRules, EcoPointsRulesConfig } from '../EcoPointsRules';
+import { ItemDetails, ItemCondition } from '../../item/value-objects/ItemDetails';
+
+const config: EcoPointsRulesConfig = {
+  itemPosted: 10,
+  exchangeGiver: 25,
+  exchangeReceiver: 15,
+  accountVerified: 50,
+  quickExchangeBonus: 5,
+  quickExchangeDays: 3,
+  conditionBonusPerLevel: 2,
+  categoryMultipliers: { electronics: 1.5, books: 0.5, clothing: 1.25 },
+  dailyCap: 100
+};
+
+const buildDetails = (category: string, condition: ItemCondition): ItemDetails =>
+  new ItemDetails({
+    title: 'Test item',
+    description: 'Something worth passing on',
+    category,
+    tags: [],
+    images: ['https://example.com/item.jpg'],
+    condition
+  });
+
+describe('EcoPointsRules', () => {
+  const rules = new EcoPointsRules(config);
+
+  it('scales base amounts by the category multiplier, whatever the case of the category', () => {
+    expect(rules.getCategoryMultiplier('Electronics')).toBe(1.5);
+    expect(rules.getCategoryMultiplier('furniture')).toBe(1);
+
+    expect(rules.calculateItemPostingPoints(buildDetails('electronics', 'poor'))).toBe(15);
+    expect(rules.calculateItemPostingPoints(buildDetails('books', 'poor'))).toBe(5);
+    expect(rules.calculateItemPostingPoints(buildDetails('furniture', 'poor'))).toBe(10);
+  });
+
+  it('adds a bonus for each condition level above poor', () => {
+    expect(rules.calculateItemPostingPoints(buildDetails('furniture', 'fair'))).toBe(12);
+    expect(rules.calculateItemPostingPoints(buildDetails('furniture', 'good'))).toBe(14);
+    expect(rules.calculateItemPostingPoints(buildDetails('furniture', 'new'))).toBe(18);
+  });
+
+  it('rounds scaled amounts to whole points before adding bonuses', () => {
+    // 25 * 0.5 = 12.5 and 15 * 0.5 = 7.5 both round up; 10 * 1.25 = 12.5 does too
+    expect(rules.calculateExchangePoints(buildDetails('books', 'poor'), 10)).toEqual({ giver: 13, receiver: 8 });
+    expect(rules.calculateItemPostingPoints(buildDetails('clothing', 'good'))).toBe(17);
+  });
+
+  it('gives the giver the quick-exchange bonus up to and including the day limit', () => {
+    const details = buildDetails('electronics', 'good');
+
+    expect(rules.calculateExchangePoints(details, 3)).toEqual({ giver: 38 + 4 + 5, receiver: 23 });
+    expect(rules.calculateExchangePoints(details, 4)).toEqual({ giver: 38 + 4, receiver: 23 });
+  });
+
+  it('uses the base amounts when the item is unknown', () => {
+    expect(rules.calculateExchangePoints(undefined, 10)).toEqual({ giver: 25, receiver: 15 });
+  });
+
+  it('trims awards at the daily cap, keeping the part that fits', () => {
+    expect(rules.applyDailyCap(30, 60)).toBe(30);
+    expect(rules.applyDailyCap(30, 70)).toBe(30);
+    expect(rules.applyDailyCap(30, 80)).toBe(20);
+    expect(rules.applyDailyCap(30, 100)).toBe(0);
+    expect(rules.applyDailyCap(30, 120)).toBe(0);
+  });
+
+  it('does not cap awards when the cap is 0', () => {
+    const uncapped = new EcoPointsRules({ ...config, dailyCap: 0 });
+
+    expect(uncapped.applyDailyCap(500, 1000)).toBe(500);
+  });
+});
@@ -1,2 +1,3 @@
 export * from './Badge';
 export * from './Achievement';
+export * from './EcoPointsRules';
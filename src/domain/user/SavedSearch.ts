@@ -0,0 +1,286 @@
+import { SavedSearchId } from './value-objects/SavedSearchId';
+import { UserId } from './value-objects/UserId';
+import { Location, LocationData } from './value-objects/Location';
+import { Item } from '../item/Item';
+import { ItemCondition, ITEM_CONDITIONS } from '../item/value-objects/ItemDetails';
+import { AggregateRoot } from '../events/AggregateRoot';
+import { createDomainEvent } from '../events/DomainEvent';
+import { SavedSearchEvent } from './UserEvents';
+
+export type SavedSearchAlertFrequency = 'immediate' | 'daily' | 'off';
+
+export const SAVED_SEARCH_ALERT_FREQUENCIES: readonly SavedSearchAlertFrequency[] = ['immediate', 'daily', 'off'];
+
+export interface SavedSearchCriteria {
+  searchTerm?: string;
+  categories?: string[];
+  conditions?: ItemCondition[];
+  tags?: string[];
+  maxDistance?: number; // Kilometres from the saved location
+}
+
+export interface CreateSavedSearchData {
+  userId: string;
+  name: string;
+  criteria: SavedSearchCriteria;
+  location: LocationData;
+  alertFrequency: SavedSearchAlertFrequency;
+}
+
+export interface SavedSearchData {
+  id: string;
+  userId: string;
+  name: string;
+  criteria: SavedSearchCriteria;
+  location: LocationData;
+  alertFrequency: SavedSearchAlertFrequency;
+  lastAlertedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Search criteria a user keeps so newly posted items that match can be
+ * sent to them, straight away or in a daily digest.
+ */
+export class SavedSearch extends AggregateRoot<SavedSearchEvent> {
+  private static readonly MAX_NAME_LENGTH = 100;
+  private static readonly MAX_DISTANCE_KM = 500;
+  private static readonly DIGEST_INTERVAL_HOURS = 24;
+
+  private constructor(
+    private readonly _id: SavedSearchId,
+    private readonly _userId: UserId,
+    private _name: string,
+    private _criteria: SavedSearchCriteria,
+    private _location: Location,
+    private _alertFrequency: SavedSearchAlertFrequency,
+    private readonly _createdAt: Date,
+    private _updatedAt: Date,
+    private _lastAlertedAt?: Date
+  ) {
+    super();
+  }
+
+  static create(data: CreateSavedSearchData): SavedSearch {
+    const now = new Date();
+
+    return new SavedSearch(
+      SavedSearchId.generate(),
+      new UserId(data.userId),
+      SavedSearch.validateName(data.name),
+      SavedSearch.normalizeCriteria(data.criteria),
+      new Location(data.location),
+      SavedSearch.validateFrequency(data.alertFrequency),
+      now,
+      now,
+      undefined // lastAlertedAt
+    );
+  }
+
+  static fromData(data: SavedSearchData): SavedSearch {
+    return new SavedSearch(
+      new SavedSearchId(data.id),
+      new UserId(data.userId),
+      data.name,
+      SavedSearch.copyCriteria(data.criteria),
+      new Location(data.location),
+      data.alertFrequency,
+      data.createdAt,
+      data.updatedAt,
+      data.lastAlertedAt
+    );
+  }
+
+  /**
+   * Deadline a daily digest's last alert must be older than for the next
+   * one to go out.
+   */
+  static digestCutoff(now: Date = new Date()): Date {
+    return new Date(now.getTime() - SavedSearch.DIGEST_INTERVAL_HOURS * 60 * 60 * 1000);
+  }
+
+  get id(): SavedSearchId {
+    return this._id;
+  }
+
+  get userId(): UserId {
+    return this._userId;
+  }
+
+  get name(): string {
+    return this._name;
+  }
+
+  get criteria(): SavedSearchCriteria {
+    return SavedSearch.copyCriteria(this._criteria);
+  }
+
+  get location(): Location {
+    return this._location;
+  }
+
+  get alertFrequency(): SavedSearchAlertFrequency {
+    return this._alertFrequency;
+  }
+
+  get lastAlertedAt(): Date | undefined {
+    return this._lastAlertedAt;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this._updatedAt;
+  }
+
+  belongsToUser(userId: UserId): boolean {
+    return this._userId.equals(userId);
+  }
+
+  /**
+   * Users are never alerted about their own listings.
+   */
+  matches(item: Item): boolean {
+    if (item.belongsToUser(this._userId)) {
+      return false;
+    }
+
+    return item.matchesSearchCriteria({
+      ...this._criteria,
+      userLocation: this._criteria.maxDistance ? this._location : undefined
+    });
+  }
+
+  isAlertDue(now: Date = new Date()): boolean {
+    switch (this._alertFrequency) {
+      case 'immediate':
+        return true;
+      case 'daily':
+        return !this._lastAlertedAt || this._lastAlertedAt <= SavedSearch.digestCutoff(now);
+      case 'off':
+        return false;
+    }
+  }
+
+  update(changes: {
+    name?: string;
+    criteria?: SavedSearchCriteria;
+    location?: LocationData;
+    alertFrequency?: SavedSearchAlertFrequency;
+  }): void {
+    if (changes.name !== undefined) {
+      this._name = SavedSearch.validateName(changes.name);
+    }
+    if (changes.criteria !== undefined) {
+      this._criteria = SavedSearch.normalizeCriteria(changes.criteria);
+    }
+    if (changes.location !== undefined) {
+      this._location = new Location(changes.location);
+    }
+    if (changes.alertFrequency !== undefined) {
+      this._alertFrequency = SavedSearch.validateFrequency(changes.alertFrequency);
+    }
+
+    this._updatedAt = new Date();
+  }
+
+  /**
+   * Sends the matches collected since the last alert as one batch.
+   */
+  recordAlert(itemIds: string[]): void {
+    if (this._alertFrequency === 'off') {
+      throw new Error('Alerts are turned off for this saved search');
+    }
+    if (itemIds.length === 0) {
+      throw new Error('An alert needs at least one matching item');
+    }
+    if (!this.isAlertDue()) {
+      throw new Error('The next digest for this saved search is not due yet');
+    }
+
+    this._lastAlertedAt = new Date();
+    this._updatedAt = this._lastAlertedAt;
+
+    this.recordEvent(createDomainEvent('SavedSearchMatched', 'SavedSearch', this._id.value, {
+      userId: this._userId.value,
+      name: this._name,
+      itemIds: [...itemIds],
+      frequency: this._alertFrequency
+    }));
+  }
+
+  toData(): SavedSearchData {
+    return {
+      id: this._id.value,
+      userId: this._userId.value,
+      name: this._name,
+      criteria: SavedSearch.copyCriteria(this._criteria),
+      location: this._location.toData(),
+      alertFrequency: this._alertFrequency,
+      lastAlertedAt: this._lastAlertedAt,
+      createdAt: this._createdAt,
+      updatedAt: this._updatedAt
+    };
+  }
+
+  private static validateName(name: string): string {
+    const trimmed = name?.trim();
+    if (!trimmed) {
+      throw new Error('Saved search name is required');
+    }
+    if (trimmed.length > SavedSearch.MAX_NAME_LENGTH) {
+      throw new Error(`Saved search name cannot exceed ${SavedSearch.MAX_NAME_LENGTH} characters`);
+    }
+    return trimmed;
+  }
+
+  private static validateFrequency(frequency: SavedSearchAlertFrequency): SavedSearchAlertFrequency {
+    if (!SAVED_SEARCH_ALERT_FREQUENCIES.includes(frequency)) {
+      throw new Error(`Alert frequency must be one of: ${SAVED_SEARCH_ALERT_FREQUENCIES.join(', ')}`);
+    }
+    return frequency;
+  }
+
+  private static normalizeCriteria(criteria: SavedSearchCriteria): SavedSearchCriteria {
+    const normalizeList = (values?: string[]) => {
+      const normalized = [...new Set((values || []).map(value => value.trim().toLowerCase()).filter(Boolean))];
+      return normalized.length > 0 ? normalized : undefined;
+    };
+
+    const normalized: SavedSearchCriteria = {
+      searchTerm: criteria.searchTerm?.trim() || undefined,
+      categories: normalizeList(criteria.categories),
+      conditions: normalizeList(criteria.conditions) as ItemCondition[] | undefined,
+      tags: normalizeList(criteria.tags),
+      maxDistance: criteria.maxDistance
+    };
+
+    if (normalized.conditions?.some(condition => !ITEM_CONDITIONS.includes(condition))) {
+      throw new Error(`Condition must be one of: ${ITEM_CONDITIONS.join(', ')}`);
+    }
+
+    if (normalized.maxDistance !== undefined &&
+        (!Number.isFinite(normalized.maxDistance) || normalized.maxDistance <= 0 || normalized.maxDistance > SavedSearch.MAX_DISTANCE_KM)) {
+      throw new Error(`Maximum distance must be between 0 and ${SavedSearch.MAX_DISTANCE_KM} km`);
+    }
+
+    // Without any filter every new listing would trigger an alert
+    if (!normalized.searchTerm && !normalized.categories && !normalized.conditions && !normalized.tags && !normalized.maxDistance) {
+      throw new Error('A saved search needs at least one filter');
+    }
+
+    return normalized;
+  }
+
+  private static copyCriteria(criteria: SavedSearchCriteria): SavedSearchCriteria {
+    return {
+      ...criteria,
+      categories: criteria.categories ? [...criteria.categories] : undefined,
+      conditions: criteria.conditions ? [...criteria.conditions] : undefined,
+      tags: criteria.tags ? [...criteria.tags] : undefined
+    };
+  }
+}
@@ -1,7 +1,12 @@
+import { randomUUID } from 'crypto';
 import { UserId } from './value-objects/UserId';
 import { Email } from './value-objects/Email';
 import { Location, LocationData } from './value-objects/Location';
-import { EcoPoints } from './value-objects/EcoPoints';
+import { EcoPoints, EcoPointsTransaction } from './value-objects/EcoPoints';
+import { AccountStatus, AccountStatusData, AccountStatusChange } from './value-objects/AccountStatus';
+import { AggregateRoot } from '../events/AggregateRoot';
+import { createDomainEvent } from '../events/DomainEvent';
+import { UserEvent } from './UserEvents';
 
 export interface UserProfile {
   displayName: string;
@@ -23,18 +28,21 @@ export interface UserData {
   profile: UserProfile;
   location: LocationData;
   ecoPoints: number;
-  ecoPointsTransactions?: Array<{
-    points: number;
-    reason: string;
-    timestamp: Date;
-  }>;
+  pendingEcoPointsTransactions?: EcoPointsTransaction[];
   rating: number;
   totalExchanges: number;
+  noShowCount?: number;
+  accountStatus?: AccountStatusData;
+  pendingStatusChanges?: AccountStatusChange[]; // Not yet written to the audit trail
   createdAt: Date;
   updatedAt: Date;
 }
 
-export class User {
+export class User extends AggregateRoot<UserEvent> {
+  private static readonly MIN_RELIABILITY_SCORE = 0.5;
+  // A single missed pickup shouldn't lock out a new member
+  private static readonly MIN_NO_SHOWS_BEFORE_RESTRICTION = 2;
+
   private constructor(
     private readonly _id: UserId,
     private readonly _email: Email,
@@ -44,8 +52,13 @@ export class User {
     private _rating: number,
     private _totalExchanges: number,
     private readonly _createdAt: Date,
-    private _updatedAt: Date
-  ) {}
+    private _updatedAt: Date,
+    private _noShowCount: number,
+    private _accountStatus: AccountStatus,
+    private _pendingStatusChanges: AccountStatusChange[] = []
+  ) {
+    super();
+  }
 
   static create(data: CreateUserData): User {
     const id = UserId.generate();
@@ -63,7 +76,9 @@ export class User {
       0, // initial rating
       0, // initial total exchanges
       now,
-      now
+      now,
+      0, // initial no-show count
+      AccountStatus.active()
     );
   }
 
@@ -73,7 +88,7 @@ export class User {
     const location = new Location(data.location);
     const ecoPoints = new EcoPoints(
       data.ecoPoints,
-      data.ecoPointsTransactions || []
+      data.pendingEcoPointsTransactions || []
     );
 
     return new User(
@@ -85,7 +100,10 @@ export class User {
       data.rating,
       data.totalExchanges,
       data.createdAt,
-      data.updatedAt
+      data.updatedAt,
+      data.noShowCount ?? 0,
+      data.accountStatus ? new AccountStatus(data.accountStatus) : AccountStatus.active(),
+      data.pendingStatusChanges || []
     );
   }
 
@@ -117,6 +135,27 @@ export class User {
     return this._totalExchanges;
   }
 
+  get noShowCount(): number {
+    return this._noShowCount;
+  }
+
+  /**
+   * Share of this user's arranged exchanges that went ahead rather than
+   * ending in an upheld no-show report. Users without history score 1.
+   */
+  get reliabilityScore(): number {
+    const arranged = this._totalExchanges + this._noShowCount;
+    if (arranged === 0) {
+      return 1;
+    }
+
+    return this._totalExchanges / arranged;
+  }
+
+  get accountStatus(): AccountStatus {
+    return this._accountStatus;
+  }
+
   get createdAt(): Date {
     return this._createdAt;
   }
@@ -141,17 +180,134 @@ export class User {
     this._updatedAt = new Date();
   }
 
+  verify(): void {
+    if (this._profile.isVerified) {
+      throw new Error('User is already verified');
+    }
+
+    this._profile = { ...this._profile, isVerified: true };
+    this._updatedAt = new Date();
+
+    this.recordEvent(createDomainEvent('UserVerified', 'User', this._id.value, {}));
+  }
+
   updateLocation(location: LocationData): void {
     this._location = new Location(location);
     this._updatedAt = new Date();
   }
 
-  awardPoints(points: number, reason: string): void {
-    if (points <= 0) {
-      throw new Error('Points to award must be positive');
+  awardPoints(points: number, reason: string, idempotencyKey?: string): void {
+    if (points < 0) {
+      throw new Error('Points to award cannot be negative');
     }
     
-    this._ecoPoints = this._ecoPoints.add(points, reason);
+    this._ecoPoints = this._ecoPoints.add(points, reason, idempotencyKey);
+    this._updatedAt = new Date();
+  }
+
+  deductPoints(points: number, reason: string, idempotencyKey?: string): number {
+    if (points <= 0) {
+      throw new Error('Points to deduct must be positive');
+    }
+
+    const before = this._ecoPoints.value;
+    this._ecoPoints = this._ecoPoints.deduct(points, reason, idempotencyKey);
+    this._updatedAt = new Date();
+
+    return before - this._ecoPoints.value;
+  }
+
+  /**
+   * Keeps the user from posting items and starting exchanges until the given
+   * date, and hides their listings. Suspending again replaces the end date.
+   */
+  suspend(reason: string, until: Date, suspendedBy: UserId): void {
+    if (this._accountStatus.isBanned()) {
+      throw new Error('User is banned; reinstate them first');
+    }
+    if (isNaN(until.getTime())) {
+      throw new Error('Suspension end date is invalid');
+    }
+    if (until.getTime() <= Date.now()) {
+      throw new Error('Suspension must end in the future');
+    }
+
+    this.changeAccountStatus({ value: 'suspended', reason, suspendedUntil: until }, suspendedBy);
+
+    this.recordEvent(createDomainEvent('UserSuspended', 'User', this._id.value, {
+      reason: this._accountStatus.reason!,
+      suspendedUntil: until.toISOString(),
+      suspendedBy: suspendedBy.value
+    }));
+  }
+
+  /**
+   * Like a suspension without an end date, and the user can't sign in either.
+   */
+  ban(reason: string, bannedBy: UserId): void {
+    if (this._accountStatus.isBanned()) {
+      throw new Error('User is already banned');
+    }
+
+    this.changeAccountStatus({ value: 'banned', reason }, bannedBy);
+
+    this.recordEvent(createDomainEvent('UserBanned', 'User', this._id.value, {
+      reason: this._accountStatus.reason!,
+      bannedBy: bannedBy.value
+    }));
+  }
+
+  /**
+   * Ends a ban or a suspension early. Also tidies up a suspension that has
+   * already run out, so the audit trail shows who closed it.
+   */
+  reinstate(reinstatedBy: UserId, reason?: string): void {
+    if (this._accountStatus.value === 'active') {
+      throw new Error('User is not suspended or banned');
+    }
+
+    this.changeAccountStatus({ value: 'active', reason }, reinstatedBy);
+
+    this.recordEvent(createDomainEvent('UserReinstated', 'User', this._id.value, {
+      reinstatedBy: reinstatedBy.value
+    }));
+  }
+
+  isSuspended(): boolean {
+    return this._accountStatus.isSuspended();
+  }
+
+  isBanned(): boolean {
+    return this._accountStatus.isBanned();
+  }
+
+  /**
+   * Suspended or banned users can't post items or take part in exchanges.
+   */
+  assertInGoodStanding(): void {
+    this._accountStatus.assertInGoodStanding();
+  }
+
+  private changeAccountStatus(status: Omit<AccountStatusData, 'changedBy' | 'changedAt'>, changedBy: UserId): void {
+    if (this._id.equals(changedBy)) {
+      throw new Error('You cannot change the status of your own account');
+    }
+
+    const now = new Date();
+    this._accountStatus = new AccountStatus({ ...status, changedBy: changedBy.value, changedAt: now });
+    this._pendingStatusChanges.push({
+      id: randomUUID(),
+      status: this._accountStatus.value,
+      reason: this._accountStatus.reason,
+      suspendedUntil: this._accountStatus.suspendedUntil,
+      changedBy: changedBy.value,
+      changedAt: now
+    });
+    this._updatedAt = now;
+  }
+
+  recordNoShow(): void {
+    this._noShowCount += 1;
     this._updatedAt = new Date();
   }
 
@@ -171,6 +327,16 @@ export class User {
       return false;
     }
 
+    // Suspended and banned accounts cannot exchange
+    if (this._accountStatus.isRestricted() || otherUser._accountStatus.isRestricted()) {
+      return false;
+    }
+
+    // Users who repeatedly fail to turn up cannot exchange
+    if (this.isUnreliable() || otherUser.isUnreliable()) {
+      return false;
+    }
+
     return true;
   }
 
@@ -188,6 +354,11 @@ export class User {
     this._updatedAt = new Date();
   }
 
+  isUnreliable(): boolean {
+    return this._noShowCount >= User.MIN_NO_SHOWS_BEFORE_RESTRICTION
+      && this.reliabilityScore < User.MIN_RELIABILITY_SCORE;
+  }
+
   isWithinDistance(otherLocation: Location, maxDistanceKm: number): boolean {
     return this._location.distanceTo(otherLocation) <= maxDistanceKm;
   }
@@ -199,9 +370,12 @@ export class User {
       profile: { ...this._profile },
       location: this._location.toData(),
       ecoPoints: this._ecoPoints.value,
-      ecoPointsTransactions: this._ecoPoints.transactions.map(t => ({ ...t })),
+      pendingEcoPointsTransactions: this._ecoPoints.pendingTransactions.map(t => ({ ...t })),
       rating: this._rating,
       totalExchanges: this._totalExchanges,
+      noShowCount: this._noShowCount,
+      accountStatus: this._accountStatus.toData(),
+      pendingStatusChanges: this._pendingStatusChanges.map(change => ({ ...change })),
       createdAt: this._createdAt,
       updatedAt: this._updatedAt
     };
@@ -0,0 +1,34 @@
+import { DomainEvent } from '../events/DomainEvent';
+
+export type UserVerified = DomainEvent<'UserVerified', Record<string, never>>;
+
+export type UserSuspended = DomainEvent<'UserSuspended', {
+  reason: string;
+  suspendedUntil: string;
+  suspendedBy: string;
+}>;
+
+export type UserBanned = DomainEvent<'UserBanned', {
+  reason: string;
+  bannedBy: string;
+}>;
+
+export type UserReinstated = DomainEvent<'UserReinstated', {
+  reinstatedBy: string;
+}>;
+
+export type UserEvent = UserVerified | UserSuspended | UserBanned | UserReinstated;
+
+// The address may not belong to any account
+export type PasswordResetRequested = DomainEvent<'PasswordResetRequested', {
+  email: string;
+}>;
+
+export type SavedSearchMatched = DomainEvent<'SavedSearchMatched', {
+  userId: string;
+  name: string;
+  itemIds: string[];
+  frequency: 'immediate' | 'daily';
+}>;
+
+export type SavedSearchEvent = SavedSearchMatched;
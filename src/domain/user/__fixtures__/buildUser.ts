@@ -0,0 +1,20 @@
+import { randomUUID } from 'crypto';
+import { User, UserData } from '../User';
+
+/**
+ * Builds a verified individual member for tests. Overrides replace whole
+ * fields, e.g. the profile or the id.
+ */
+export const buildUser = (displayName: string, overrides: Partial<UserData> = {}): User =>
+  User.fromData({
+    id: randomUUID(),
+    email: `${displayName.toLowerCase()}@example.com`,
+    profile: { displayName, isVerified: true, accountType: 'individual' },
+    location: { latitude: 40.7128, longitude: -74.006, address: 'New York, NY' },
+    ecoPoints: 0,
+    rating: 4.5,
+    totalExchanges: 3,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  });
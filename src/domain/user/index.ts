@@ -2,4 +2,34 @@ export { User, UserProfile, CreateUserData, UserData } from './User';
 export { UserId } from './value-objects/UserId';
 export { Email } from './value-objects/Email';
 export { Location, LocationData } from './value-objects/Location';
-export { EcoPoints, EcoPointsTransaction } from './value-objects/EcoPoints';
\ No newline at end of file
+export { EcoPoints, EcoPointsTransaction } from './value-objects/EcoPoints';
+export {
+  EmailVerificationToken,
+  EmailVerificationTokenData,
+  IssuedEmailVerificationToken
+} from './value-objects/EmailVerificationToken';
+export {
+  PasswordResetToken,
+  PasswordResetTokenData,
+  IssuedPasswordResetToken
+} from './value-objects/PasswordResetToken';
+export { PasswordPolicy, WeakPasswordError } from './value-objects/PasswordPolicy';
+export { UserRole, UserRoleValue, USER_ROLES } from './value-objects/UserRole';
+export {
+  AccountStatus,
+  AccountStatusValue,
+  AccountStatusData,
+  AccountStatusChange,
+  AccountRestrictedError,
+  ACCOUNT_STATUSES
+} from './value-objects/AccountStatus';
+export {
+  SavedSearch,
+  SavedSearchCriteria,
+  SavedSearchAlertFrequency,
+  SAVED_SEARCH_ALERT_FREQUENCIES,
+  CreateSavedSearchData,
+  SavedSearchData
+} from './SavedSearch';
+export { SavedSearchId } from './value-objects/SavedSearchId';
+export { UserVerified, UserSuspended, UserBanned, UserReinstated, UserEvent, SavedSearchMatched, SavedSearchEvent } from './UserEvents';
\ No newline at end of file
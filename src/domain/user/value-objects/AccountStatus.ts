@@ -0,0 +1,131 @@
+export type AccountStatusValue = 'active' | 'suspended' | 'banned';
+
+export const ACCOUNT_STATUSES: readonly AccountStatusValue[] = ['active', 'suspended', 'banned'];
+
+export interface AccountStatusData {
+  value: AccountStatusValue;
+  reason?: string;
+  suspendedUntil?: Date; // Only for suspensions
+  changedBy?: string; // Admin user ID
+  changedAt?: Date;
+}
+
+/**
+ * One entry in a user's audit trail of status changes. The ID keeps a change
+ * from being written twice when the user is saved again.
+ */
+export interface AccountStatusChange {
+  id: string;
+  status: AccountStatusValue;
+  reason?: string;
+  suspendedUntil?: Date;
+  changedBy?: string; // Unset once the admin's account is deleted
+  changedAt: Date;
+}
+
+/**
+ * Thrown when a suspended or banned user tries something only members in
+ * good standing can do. Carries a status code so controllers answer with
+ * 403 rather than a generic client error.
+ */
+export class AccountRestrictedError extends Error {
+  readonly statusCode = 403;
+  readonly code: 'ACCOUNT_SUSPENDED' | 'ACCOUNT_BANNED';
+
+  constructor(status: AccountStatus) {
+    super(status.isBanned()
+      ? 'This account has been banned'
+      : `This account is suspended until ${status.suspendedUntil!.toISOString()}`);
+    this.name = 'AccountRestrictedError';
+    this.code = status.isBanned() ? 'ACCOUNT_BANNED' : 'ACCOUNT_SUSPENDED';
+  }
+}
+
+/**
+ * Whether a user may take part. A suspension lifts by itself once its end
+ * date passes; a ban lasts until an admin reinstates the account.
+ */
+export class AccountStatus {
+  private readonly _value: AccountStatusValue;
+  private readonly _reason?: string;
+  private readonly _suspendedUntil?: Date;
+  private readonly _changedBy?: string;
+  private readonly _changedAt?: Date;
+
+  constructor(data: AccountStatusData) {
+    if (!ACCOUNT_STATUSES.includes(data.value)) {
+      throw new Error(`Account status must be one of: ${ACCOUNT_STATUSES.join(', ')}`);
+    }
+    if (data.value === 'suspended' && !data.suspendedUntil) {
+      throw new Error('A suspension needs an end date');
+    }
+    if (data.value !== 'active' && (!data.reason || data.reason.trim().length === 0)) {
+      throw new Error('A reason is required to suspend or ban an account');
+    }
+
+    this._value = data.value;
+    this._reason = data.reason?.trim();
+    this._suspendedUntil = data.value === 'suspended' ? data.suspendedUntil : undefined;
+    this._changedBy = data.changedBy;
+    this._changedAt = data.changedAt;
+  }
+
+  static active(): AccountStatus {
+    return new AccountStatus({ value: 'active' });
+  }
+
+  get value(): AccountStatusValue {
+    return this._value;
+  }
+
+  get reason(): string | undefined {
+    return this._reason;
+  }
+
+  get suspendedUntil(): Date | undefined {
+    return this._suspendedUntil;
+  }
+
+  get changedBy(): string | undefined {
+    return this._changedBy;
+  }
+
+  get changedAt(): Date | undefined {
+    return this._changedAt;
+  }
+
+  isBanned(): boolean {
+    return this._value === 'banned';
+  }
+
+  isSuspended(at: Date = new Date()): boolean {
+    return this._value === 'suspended' && this._suspendedUntil!.getTime() > at.getTime();
+  }
+
+  isRestricted(at: Date = new Date()): boolean {
+    return this.isBanned() || this.isSuspended(at);
+  }
+
+  /**
+   * The status as it applies now, so a lapsed suspension reads as active.
+   */
+  effectiveValue(at: Date = new Date()): AccountStatusValue {
+    return this._value === 'suspended' && !this.isSuspended(at) ? 'active' : this._value;
+  }
+
+  assertInGoodStanding(at: Date = new Date()): void {
+    if (this.isRestricted(at)) {
+      throw new AccountRestrictedError(this);
+    }
+  }
+
+  toData(): AccountStatusData {
+    return {
+      value: this._value,
+      reason: this._reason,
+      suspendedUntil: this._suspendedUntil,
+      changedBy: this._changedBy,
+      changedAt: this._changedAt
+    };
+  }
+}
@@ -1,32 +1,44 @@
+import { randomUUID } from 'crypto';
+
 export interface EcoPointsTransaction {
   points: number;
   reason: string;
+  idempotencyKey: string;
   timestamp: Date;
 }
 
+/**
+ * Eco-points balance plus the transactions recorded since it was loaded.
+ * The full history lives in the eco-points ledger; pending transactions are
+ * appended there when the owning user is saved.
+ */
 export class EcoPoints {
   private readonly _value: number;
-  private readonly _transactions: EcoPointsTransaction[];
+  private readonly _pendingTransactions: EcoPointsTransaction[];
 
-  constructor(value: number = 0, transactions: EcoPointsTransaction[] = []) {
+  constructor(value: number = 0, pendingTransactions: EcoPointsTransaction[] = []) {
     if (value < 0) {
       throw new Error('EcoPoints cannot be negative');
     }
     this._value = Math.floor(value);
-    this._transactions = [...transactions];
+    this._pendingTransactions = [...pendingTransactions];
   }
 
   get value(): number {
     return this._value;
   }
 
-  get transactions(): readonly EcoPointsTransaction[] {
-    return this._transactions;
+  get pendingTransactions(): readonly EcoPointsTransaction[] {
+    return this._pendingTransactions;
   }
 
-  add(points: number, reason: string): EcoPoints {
-    if (points <= 0) {
-      throw new Error('Points to add must be positive');
+  /**
+   * Adds points. An award of 0, e.g. one used up by the daily cap, is still
+   * recorded so its idempotency key can't be awarded again later.
+   */
+  add(points: number, reason: string, idempotencyKey?: string): EcoPoints {
+    if (points < 0) {
+      throw new Error('Points to add cannot be negative');
     }
     if (!reason || reason.trim().length === 0) {
       throw new Error('Reason for points addition cannot be empty');
@@ -35,12 +47,44 @@ export class EcoPoints {
     const newTransaction: EcoPointsTransaction = {
       points,
       reason: reason.trim(),
+      idempotencyKey: idempotencyKey?.trim() || randomUUID(),
       timestamp: new Date()
     };
 
     return new EcoPoints(
       this._value + points,
-      [...this._transactions, newTransaction]
+      [...this._pendingTransactions, newTransaction]
+    );
+  }
+
+  /**
+   * Takes points back, e.g. when an exchange they were awarded for is
+   * reversed. The balance never drops below zero, so fewer points than
+   * requested may be deducted.
+   */
+  deduct(points: number, reason: string, idempotencyKey?: string): EcoPoints {
+    if (points <= 0) {
+      throw new Error('Points to deduct must be positive');
+    }
+    if (!reason || reason.trim().length === 0) {
+      throw new Error('Reason for points deduction cannot be empty');
+    }
+
+    const deducted = Math.min(Math.floor(points), this._value);
+    if (deducted === 0) {
+      return this;
+    }
+
+    const newTransaction: EcoPointsTransaction = {
+      points: -deducted,
+      reason: reason.trim(),
+      idempotencyKey: idempotencyKey?.trim() || randomUUID(),
+      timestamp: new Date()
+    };
+
+    return new EcoPoints(
+      this._value - deducted,
+      [...this._pendingTransactions, newTransaction]
     );
   }
 
@@ -60,13 +104,4 @@ export class EcoPoints {
     if (this._value >= 100) return 'Beginner';
     return 'Newcomer';
   }
-
-  getRecentTransactions(days: number = 30): EcoPointsTransaction[] {
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - days);
-    
-    return this._transactions.filter(
-      transaction => transaction.timestamp >= cutoffDate
-    );
-  }
 }
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+
+export interface EmailVerificationTokenData {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  revokedAt?: Date; // Set when a newer token is issued to the same user
+  createdAt: Date;
+}
+
+export interface IssuedEmailVerificationToken {
+  token: EmailVerificationToken;
+  secret: string; // Only ever sent in the verification link, never stored
+}
+
+/**
+ * Single-use token from the link in a verification email. Only a hash of the
+ * secret is kept, so a leaked table can't be used to verify accounts.
+ */
+export class EmailVerificationToken {
+  private readonly _id: string;
+  private readonly _userId: string;
+  private readonly _tokenHash: string;
+  private readonly _expiresAt: Date;
+  private readonly _usedAt?: Date;
+  private readonly _revokedAt?: Date;
+  private readonly _createdAt: Date;
+
+  constructor(data: EmailVerificationTokenData) {
+    if (!/^[0-9a-f]{64}$/.test(data.tokenHash)) {
+      throw new Error('Verification token hash must be a SHA-256 hex digest');
+    }
+    if (isNaN(data.expiresAt.getTime())) {
+      throw new Error('Verification token expiry must be a valid date');
+    }
+
+    this._id = data.id;
+    this._userId = data.userId;
+    this._tokenHash = data.tokenHash;
+    this._expiresAt = data.expiresAt;
+    this._usedAt = data.usedAt;
+    this._revokedAt = data.revokedAt;
+    this._createdAt = data.createdAt;
+  }
+
+  static issue(userId: string, ttlHours: number): IssuedEmailVerificationToken {
+    if (ttlHours <= 0) {
+      throw new Error('Verification token lifetime must be positive');
+    }
+
+    const secret = randomBytes(32).toString('base64url');
+    const now = new Date();
+
+    return {
+      token: new EmailVerificationToken({
+        id: randomUUID(),
+        userId,
+        tokenHash: EmailVerificationToken.hash(secret),
+        expiresAt: new Date(now.getTime() + ttlHours * 60 * 60 * 1000),
+        createdAt: now
+      }),
+      secret
+    };
+  }
+
+  // The secret has 256 random bits, so a plain digest is enough to look it up by
+  static hash(secret: string): string {
+    return createHash('sha256').update(secret.trim()).digest('hex');
+  }
+
+  get id(): string {
+    return this._id;
+  }
+
+  get userId(): string {
+    return this._userId;
+  }
+
+  get tokenHash(): string {
+    return this._tokenHash;
+  }
+
+  get expiresAt(): Date {
+    return this._expiresAt;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  isExpired(): boolean {
+    return this._expiresAt <= new Date();
+  }
+
+  isUsable(): boolean {
+    return !this._usedAt && !this._revokedAt && !this.isExpired();
+  }
+
+  toData(): EmailVerificationTokenData {
+    return {
+      id: this._id,
+      userId: this._userId,
+      tokenHash: this._tokenHash,
+      expiresAt: this._expiresAt,
+      usedAt: this._usedAt,
+      revokedAt: this._revokedAt,
+      createdAt: this._createdAt
+    };
+  }
+}
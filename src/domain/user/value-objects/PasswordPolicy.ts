@@ -0,0 +1,59 @@
+/**
+ * Thrown for a password that doesn't meet the policy. Carries a status code
+ * so controllers answer with a client error.
+ */
+export class WeakPasswordError extends Error {
+  readonly statusCode = 400;
+  readonly code = 'WEAK_PASSWORD';
+
+  constructor(readonly problems: string[]) {
+    super(`Password ${problems.join(', ')}`);
+    this.name = 'WeakPasswordError';
+  }
+}
+
+/**
+ * Strength rules for local account passwords. Length matters most, so the
+ * rules stay light beyond that and just rule out the easiest guesses.
+ */
+export class PasswordPolicy {
+  static readonly MIN_LENGTH = 10;
+  // bcrypt ignores everything after the first 72 bytes
+  static readonly MAX_BYTES = 72;
+
+  private static readonly COMMON_PASSWORDS = new Set([
+    'password', 'password1', 'password123', '1234567890', 'qwertyuiop',
+    'iloveyou', 'letmein123', 'welcome123', 'abc1234567', 'changeme123'
+  ]);
+
+  static problems(password: string, email?: string): string[] {
+    const problems: string[] = [];
+
+    if (password.length < PasswordPolicy.MIN_LENGTH) {
+      problems.push(`must be at least ${PasswordPolicy.MIN_LENGTH} characters`);
+    }
+    if (Buffer.byteLength(password, 'utf8') > PasswordPolicy.MAX_BYTES) {
+      problems.push(`must be at most ${PasswordPolicy.MAX_BYTES} bytes`);
+    }
+    if (!/\p{L}/u.test(password) || !/[^\p{L}]/u.test(password)) {
+      problems.push('must mix letters with numbers or symbols');
+    }
+    if (PasswordPolicy.COMMON_PASSWORDS.has(password.toLowerCase())) {
+      problems.push('is too common');
+    }
+
+    const emailName = email?.split('@')[0].toLowerCase();
+    if (emailName && emailName.length >= 3 && password.toLowerCase().includes(emailName)) {
+      problems.push('must not contain your email address');
+    }
+
+    return problems;
+  }
+
+  static assertStrong(password: string, email?: string): void {
+    const problems = PasswordPolicy.problems(password, email);
+    if (problems.length > 0) {
+      throw new WeakPasswordError(problems);
+    }
+  }
+}
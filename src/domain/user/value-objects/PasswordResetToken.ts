@@ -0,0 +1,111 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+
+export interface PasswordResetTokenData {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  revokedAt?: Date; // Set when a newer token is issued to the same user
+  createdAt: Date;
+}
+
+export interface IssuedPasswordResetToken {
+  token: PasswordResetToken;
+  secret: string; // Only ever sent in the reset link, never stored
+}
+
+/**
+ * Single-use token from the link in a password reset email. Like the email
+ * verification token, only a hash of the secret is stored.
+ */
+export class PasswordResetToken {
+  private readonly _id: string;
+  private readonly _userId: string;
+  private readonly _tokenHash: string;
+  private readonly _expiresAt: Date;
+  private readonly _usedAt?: Date;
+  private readonly _revokedAt?: Date;
+  private readonly _createdAt: Date;
+
+  constructor(data: PasswordResetTokenData) {
+    if (!/^[0-9a-f]{64}$/.test(data.tokenHash)) {
+      throw new Error('Password reset token hash must be a SHA-256 hex digest');
+    }
+    if (isNaN(data.expiresAt.getTime())) {
+      throw new Error('Password reset token expiry must be a valid date');
+    }
+
+    this._id = data.id;
+    this._userId = data.userId;
+    this._tokenHash = data.tokenHash;
+    this._expiresAt = data.expiresAt;
+    this._usedAt = data.usedAt;
+    this._revokedAt = data.revokedAt;
+    this._createdAt = data.createdAt;
+  }
+
+  static issue(userId: string, ttlMinutes: number): IssuedPasswordResetToken {
+    if (ttlMinutes <= 0) {
+      throw new Error('Password reset token lifetime must be positive');
+    }
+
+    const secret = randomBytes(32).toString('base64url');
+    const now = new Date();
+
+    return {
+      token: new PasswordResetToken({
+        id: randomUUID(),
+        userId,
+        tokenHash: PasswordResetToken.hash(secret),
+        expiresAt: new Date(now.getTime() + ttlMinutes * 60 * 1000),
+        createdAt: now
+      }),
+      secret
+    };
+  }
+
+  static hash(secret: string): string {
+    return createHash('sha256').update(secret.trim()).digest('hex');
+  }
+
+  get id(): string {
+    return this._id;
+  }
+
+  get userId(): string {
+    return this._userId;
+  }
+
+  get tokenHash(): string {
+    return this._tokenHash;
+  }
+
+  get expiresAt(): Date {
+    return this._expiresAt;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  isExpired(): boolean {
+    return this._expiresAt <= new Date();
+  }
+
+  isUsable(): boolean {
+    return !this._usedAt && !this._revokedAt && !this.isExpired();
+  }
+
+  toData(): PasswordResetTokenData {
+    return {
+      id: this._id,
+      userId: this._userId,
+      tokenHash: this._tokenHash,
+      expiresAt: this._expiresAt,
+      usedAt: this._usedAt,
+      revokedAt: this._revokedAt,
+      createdAt: this._createdAt
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import { randomUUID } from 'crypto';
+
+export class SavedSearchId {
+  private readonly _value: string;
+
+  constructor(value: string) {
+    if (!value || value.trim().length === 0) {
+      throw new Error('SavedSearchId cannot be empty');
+    }
+    if (value.length > 36) {
+      throw new Error('SavedSearchId cannot exceed 36 characters');
+    }
+    this._value = value.trim();
+  }
+
+  get value(): string {
+    return this._value;
+  }
+
+  equals(other: SavedSearchId): boolean {
+    return this._value === other._value;
+  }
+
+  toString(): string {
+    return this._value;
+  }
+
+  static generate(): SavedSearchId {
+    return new SavedSearchId(randomUUID());
+  }
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+export type UserRoleValue = 'admin';
+
+export const USER_ROLES: readonly UserRoleValue[] = ['admin'];
+
+/**
+ * A role granted to a user of the custom authentication provider. Auth0
+ * users get their roles from the token instead.
+ */
+export class UserRole {
+  private readonly _value: UserRoleValue;
+
+  constructor(value: UserRoleValue) {
+    if (!USER_ROLES.includes(value)) {
+      throw new Error(`Role must be one of: ${USER_ROLES.join(', ')}`);
+    }
+    this._value = value;
+  }
+
+  get value(): UserRoleValue {
+    return this._value;
+  }
+
+  equals(other: UserRole): boolean {
+    return this._value === other._value;
+  }
+
+  toString(): string {
+    return this._value;
+  }
+
+  isAdmin(): boolean {
+    return this._value === 'admin';
+  }
+}
@@ -0,0 +1,363 @@
+import { WantedPostId } from './value-objects/WantedPostId';
+import { UserId } from '../user/value-objects/UserId';
+import { Location, LocationData } from '../user/value-objects/Location';
+import { Item } from '../item/Item';
+import { ItemId } from '../item/value-objects/ItemId';
+import { ExchangeId } from '../exchange/value-objects/ExchangeId';
+import { AggregateRoot } from '../events/AggregateRoot';
+import { createDomainEvent } from '../events/DomainEvent';
+import { WantedPostEvent } from './WantedPostEvents';
+
+export type WantedPostStatus = 'open' | 'fulfilled' | 'closed';
+
+export const WANTED_POST_STATUSES: readonly WantedPostStatus[] = ['open', 'fulfilled', 'closed'];
+
+export interface WantedPostResponseData {
+  itemId: string;
+  responderId: string;
+  exchangeId: string;
+  respondedAt: Date;
+}
+
+export interface CreateWantedPostData {
+  userId: string;
+  title: string;
+  description?: string;
+  category: string;
+  tags?: string[];
+  location: LocationData;
+  radiusKm: number;
+}
+
+export interface WantedPostData {
+  id: string;
+  userId: string;
+  title: string;
+  description?: string;
+  category: string;
+  tags: string[];
+  location: LocationData;
+  radiusKm: number;
+  status: WantedPostStatus;
+  responses: WantedPostResponseData[];
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Something a member is looking for ("ISO moving boxes"). Givers respond by
+ * offering one of their available items, which starts an exchange with the
+ * poster as receiver.
+ */
+export class WantedPost extends AggregateRoot<WantedPostEvent> {
+  private static readonly MAX_TITLE_LENGTH = 100;
+  private static readonly MAX_DESCRIPTION_LENGTH = 1000;
+  private static readonly MAX_TAGS = 10;
+  private static readonly MAX_RADIUS_KM = 100;
+
+  private constructor(
+    private readonly _id: WantedPostId,
+    private readonly _userId: UserId,
+    private _title: string,
+    private _category: string,
+    private _tags: string[],
+    private _location: Location,
+    private _radiusKm: number,
+    private _status: WantedPostStatus,
+    private _responses: WantedPostResponseData[],
+    private readonly _createdAt: Date,
+    private _updatedAt: Date,
+    private _description?: string,
+    private _closedAt?: Date
+  ) {
+    super();
+  }
+
+  static create(data: CreateWantedPostData): WantedPost {
+    const now = new Date();
+
+    return new WantedPost(
+      WantedPostId.generate(),
+      new UserId(data.userId),
+      WantedPost.validateTitle(data.title),
+      WantedPost.validateCategory(data.category),
+      WantedPost.normalizeTags(data.tags),
+      new Location(data.location),
+      WantedPost.validateRadius(data.radiusKm),
+      'open',
+      [],
+      now,
+      now,
+      WantedPost.validateDescription(data.description),
+      undefined // closedAt
+    );
+  }
+
+  static fromData(data: WantedPostData): WantedPost {
+    return new WantedPost(
+      new WantedPostId(data.id),
+      new UserId(data.userId),
+      data.title,
+      data.category,
+      [...data.tags],
+      new Location(data.location),
+      data.radiusKm,
+      data.status,
+      data.responses.map(response => ({ ...response })),
+      data.createdAt,
+      data.updatedAt,
+      data.description,
+      data.closedAt
+    );
+  }
+
+  get id(): WantedPostId {
+    return this._id;
+  }
+
+  get userId(): UserId {
+    return this._userId;
+  }
+
+  get title(): string {
+    return this._title;
+  }
+
+  get description(): string | undefined {
+    return this._description;
+  }
+
+  get category(): string {
+    return this._category;
+  }
+
+  get tags(): readonly string[] {
+    return this._tags;
+  }
+
+  get location(): Location {
+    return this._location;
+  }
+
+  get radiusKm(): number {
+    return this._radiusKm;
+  }
+
+  get status(): WantedPostStatus {
+    return this._status;
+  }
+
+  get responses(): readonly WantedPostResponseData[] {
+    return this._responses;
+  }
+
+  get closedAt(): Date | undefined {
+    return this._closedAt;
+  }
+
+  get createdAt(): Date {
+    return this._createdAt;
+  }
+
+  get updatedAt(): Date {
+    return this._updatedAt;
+  }
+
+  belongsToUser(userId: UserId): boolean {
+    return this._userId.equals(userId);
+  }
+
+  isOpen(): boolean {
+    return this._status === 'open';
+  }
+
+  /**
+   * Whether the poster is willing to travel to the given location.
+   */
+  isWithinReach(location: Location): boolean {
+    return this._location.distanceTo(location) <= this._radiusKm;
+  }
+
+  /**
+   * Someone else's available item, in the wanted category or sharing a tag,
+   * that the poster can reach.
+   */
+  matchesItem(item: Item): boolean {
+    if (!item.isAvailableForExchange() || item.belongsToUser(this._userId)) {
+      return false;
+    }
+
+    const inCategory = item.details.matchesCategory(this._category);
+    const sharesTag = this._tags.some(tag => item.details.hasTag(tag));
+
+    return (inCategory || sharesTag) && this.isWithinReach(item.location);
+  }
+
+  hasResponseWithItem(itemId: ItemId): boolean {
+    return this._responses.some(response => response.itemId === itemId.value);
+  }
+
+  /**
+   * Links the exchange a giver opened by offering their item.
+   */
+  recordResponse(item: Item, exchangeId: ExchangeId): void {
+    if (!this.isOpen()) {
+      throw new Error('This wanted post is no longer open');
+    }
+    if (item.belongsToUser(this._userId)) {
+      throw new Error('You cannot respond to your own wanted post');
+    }
+    if (this.hasResponseWithItem(item.id)) {
+      throw new Error('This item has already been offered for this wanted post');
+    }
+
+    const response: WantedPostResponseData = {
+      itemId: item.id.value,
+      responderId: item.userId.value,
+      exchangeId: exchangeId.value,
+      respondedAt: new Date()
+    };
+
+    this._responses.push(response);
+    this._updatedAt = response.respondedAt;
+
+    this.recordEvent(createDomainEvent('WantedPostResponded', 'WantedPost', this._id.value, {
+      userId: this._userId.value,
+      title: this._title,
+      itemId: response.itemId,
+      responderId: response.responderId,
+      exchangeId: response.exchangeId
+    }));
+  }
+
+  /**
+   * Called once an exchange opened from one of the responses completes.
+   * Returns false when the post was already fulfilled or closed.
+   */
+  fulfil(exchangeId: ExchangeId): boolean {
+    if (!this._responses.some(response => response.exchangeId === exchangeId.value)) {
+      throw new Error('The exchange did not come from a response to this wanted post');
+    }
+    if (!this.isOpen()) {
+      return false;
+    }
+
+    this._status = 'fulfilled';
+    this._closedAt = new Date();
+    this._updatedAt = this._closedAt;
+
+    this.recordEvent(createDomainEvent('WantedPostFulfilled', 'WantedPost', this._id.value, {
+      userId: this._userId.value,
+      title: this._title,
+      exchangeId: exchangeId.value
+    }));
+
+    return true;
+  }
+
+  close(): void {
+    if (!this.isOpen()) {
+      throw new Error('This wanted post is already closed');
+    }
+
+    this._status = 'closed';
+    this._closedAt = new Date();
+    this._updatedAt = this._closedAt;
+  }
+
+  update(changes: {
+    title?: string;
+    description?: string;
+    category?: string;
+    tags?: string[];
+    location?: LocationData;
+    radiusKm?: number;
+  }): void {
+    if (!this.isOpen()) {
+      throw new Error('Only open wanted posts can be edited');
+    }
+
+    if (changes.title !== undefined) {
+      this._title = WantedPost.validateTitle(changes.title);
+    }
+    if (changes.description !== undefined) {
+      this._description = WantedPost.validateDescription(changes.description);
+    }
+    if (changes.category !== undefined) {
+      this._category = WantedPost.validateCategory(changes.category);
+    }
+    if (changes.tags !== undefined) {
+      this._tags = WantedPost.normalizeTags(changes.tags);
+    }
+    if (changes.location !== undefined) {
+      this._location = new Location(changes.location);
+    }
+    if (changes.radiusKm !== undefined) {
+      this._radiusKm = WantedPost.validateRadius(changes.radiusKm);
+    }
+
+    this._updatedAt = new Date();
+  }
+
+  toData(): WantedPostData {
+    return {
+      id: this._id.value,
+      userId: this._userId.value,
+      title: this._title,
+      description: this._description,
+      category: this._category,
+      tags: [...this._tags],
+      location: this._location.toData(),
+      radiusKm: this._radiusKm,
+      status: this._status,
+      responses: this._responses.map(response => ({ ...response })),
+      closedAt: this._closedAt,
+      createdAt: this._createdAt,
+      updatedAt: this._updatedAt
+    };
+  }
+
+  private static validateTitle(title: string): string {
+    const trimmed = title?.trim();
+    if (!trimmed) {
+      throw new Error('Wanted post title is required');
+    }
+    if (trimmed.length > WantedPost.MAX_TITLE_LENGTH) {
+      throw new Error(`Wanted post title cannot exceed ${WantedPost.MAX_TITLE_LENGTH} characters`);
+    }
+    return trimmed;
+  }
+
+  private static validateDescription(description?: string): string | undefined {
+    const trimmed = description?.trim();
+    if (trimmed && trimmed.length > WantedPost.MAX_DESCRIPTION_LENGTH) {
+      throw new Error(`Wanted post description cannot exceed ${WantedPost.MAX_DESCRIPTION_LENGTH} characters`);
+    }
+    return trimmed || undefined;
+  }
+
+  // Lowercased like item categories so the two can be compared directly
+  private static validateCategory(category: string): string {
+    const normalized = category?.trim().toLowerCase();
+    if (!normalized) {
+      throw new Error('Wanted post category is required');
+    }
+    return normalized;
+  }
+
+  private static normalizeTags(tags?: string[]): string[] {
+    const normalized = [...new Set((tags || []).map(tag => tag.trim().toLowerCase()).filter(Boolean))];
+    if (normalized.length > WantedPost.MAX_TAGS) {
+      throw new Error(`A wanted post can have at most ${WantedPost.MAX_TAGS} tags`);
+    }
+    return normalized;
+  }
+
+  private static validateRadius(radiusKm: number): number {
+    if (!Number.isFinite(radiusKm) || radiusKm <= 0 || radiusKm > WantedPost.MAX_RADIUS_KM) {
+      throw new Error(`Radius must be between 0 and ${WantedPost.MAX_RADIUS_KM} km`);
+    }
+    return radiusKm;
+  }
+}
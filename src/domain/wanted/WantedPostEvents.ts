@@ -0,0 +1,17 @@
+import { DomainEvent } from '../events/DomainEvent';
+
+export type WantedPostResponded = DomainEvent<'WantedPostResponded', {
+  userId: string;
+  title: string;
+  itemId: string;
+  responderId: string;
+  exchangeId: string;
+}>;
+
+export type WantedPostFulfilled = DomainEvent<'WantedPostFulfilled', {
+  userId: string;
+  title: string;
+  exchangeId: string;
+}>;
+
+export type WantedPostEvent = WantedPostResponded | WantedPostFulfilled;
@@ -0,0 +1,10 @@
+export {
+  WantedPost,
+  WantedPostStatus,
+  WANTED_POST_STATUSES,
+  WantedPostResponseData,
+  CreateWantedPostData,
+  WantedPostData
+} from './WantedPost';
+export { WantedPostId } from './value-objects/WantedPostId';
+export { WantedPostResponded, WantedPostFulfilled, WantedPostEvent } from './WantedPostEvents';
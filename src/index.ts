@@ -3,6 +3,8 @@ import { DIContainer } from './container/Container';
 import { TYPES } from './container/types';
 import { DatabaseConnection } from './infrastructure/database/DatabaseConnection';
 import { MigrationRunner } from './infrastructure/database/migrations/MigrationRunner';
+import { DomainEventDispatcher } from './application/events/DomainEventDispatcher';
+import { JobScheduler } from './application/jobs/JobScheduler';
 
 // Import all migrations
 import { CreateExtensionsMigration } from './infrastructure/database/migrations/001_create_extensions';
@@ -12,6 +14,25 @@ import { CreateExchangesTableMigration } from './infrastructure/database/migrati
 import { CreateBadgesTableMigration } from './infrastructure/database/migrations/005_create_badges_table';
 import { CreateAchievementsTableMigration } from './infrastructure/database/migrations/006_create_achievements_table';
 import { AddPasswordToUsersMigration } from './infrastructure/database/migrations/007_add_password_to_users';
+import { CreateItemRequestsTableMigration } from './infrastructure/database/migrations/009_create_item_requests_table';
+import { CreateExchangeMessagesTableMigration } from './infrastructure/database/migrations/010_create_exchange_messages_table';
+import { CreateEcoPointsLedgerMigration } from './infrastructure/database/migrations/011_create_eco_points_ledger';
+import { CreateDomainEventOutboxMigration } from './infrastructure/database/migrations/012_create_domain_event_outbox';
+import { AddScheduledReminderColumnsMigration } from './infrastructure/database/migrations/013_add_scheduled_reminder_columns';
+import { AddExchangePickupSlotsMigration } from './infrastructure/database/migrations/014_add_exchange_pickup_slots';
+import { AddExchangeHandoffCodesMigration } from './infrastructure/database/migrations/015_add_exchange_handoff_codes';
+import { CreateExchangeDisputesTableMigration } from './infrastructure/database/migrations/016_create_exchange_disputes_table';
+import { AddItemSearchVectorMigration } from './infrastructure/database/migrations/017_add_item_search_vector';
+import { CreateSavedSearchesTableMigration } from './infrastructure/database/migrations/018_create_saved_searches_table';
+import { CreateWantedPostsTableMigration } from './infrastructure/database/migrations/019_create_wanted_posts_table';
+import { AddItemExpiryMigration } from './infrastructure/database/migrations/020_add_item_expiry';
+import { AddItemQuantitiesMigration } from './infrastructure/database/migrations/021_add_item_quantities';
+import { CreateItemRevisionsTableMigration } from './infrastructure/database/migrations/022_create_item_revisions_table';
+import { CreateEmailVerificationTokensTableMigration } from './infrastructure/database/migrations/023_create_email_verification_tokens_table';
+import { CreateAuthTokenTablesMigration } from './infrastructure/database/migrations/024_create_auth_token_tables';
+import { CreatePasswordResetTokensTableMigration } from './infrastructure/database/migrations/025_create_password_reset_tokens_table';
+import { AddUserRolesAndSuspensionMigration } from './infrastructure/database/migrations/026_add_user_roles_and_suspension';
+import { AddAccountStatusMigration } from './infrastructure/database/migrations/027_add_account_status';
 
 // Handle uncaught exceptions
 process.on('uncaughtException', (error: Error) => {
@@ -54,6 +75,25 @@ async function runMigrations(): Promise<void> {
       new CreateBadgesTableMigration(),
       new CreateAchievementsTableMigration(),
       new AddPasswordToUsersMigration(),
+      new CreateItemRequestsTableMigration(),
+      new CreateExchangeMessagesTableMigration(),
+      new CreateEcoPointsLedgerMigration(),
+      new CreateDomainEventOutboxMigration(),
+      new AddScheduledReminderColumnsMigration(),
+      new AddExchangePickupSlotsMigration(),
+      new AddExchangeHandoffCodesMigration(),
+      new CreateExchangeDisputesTableMigration(),
+      new AddItemSearchVectorMigration(),
+      new CreateSavedSearchesTableMigration(),
+      new CreateWantedPostsTableMigration(),
+      new AddItemExpiryMigration(),
+      new AddItemQuantitiesMigration(),
+      new CreateItemRevisionsTableMigration(),
+      new CreateEmailVerificationTokensTableMigration(),
+      new CreateAuthTokenTablesMigration(),
+      new CreatePasswordResetTokensTableMigration(),
+      new AddUserRolesAndSuspensionMigration(),
+      new AddAccountStatusMigration(),
     ];
 
     await migrationRunner.runMigrations(migrations);
@@ -73,6 +113,12 @@ async function start() {
     // Then start the server
     const app = new App();
     app.listen();
+
+    // Deliver domain events recorded in the outbox
+    DIContainer.getInstance().get<DomainEventDispatcher>(TYPES.DomainEventDispatcher).start();
+
+    // Run reminders and expiry in-process unless JOBS_ENABLED=false
+    DIContainer.getInstance().get<JobScheduler>(TYPES.JobScheduler).start();
   } catch (error) {
     console.error('Failed to start application:', error);
     process.exit(1);
@@ -1,3 +1,4 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { injectable, inject } from 'inversify';
 import { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
 import { TYPES } from '@/container/types';
@@ -12,6 +13,8 @@ export interface DatabaseTransaction {
 @injectable()
 export class DatabaseConnection {
   private pool: Pool;
+  // Client of the transaction the current async call chain is running in, if any
+  private readonly activeClient = new AsyncLocalStorage<PoolClient>();
 
   constructor(
     @inject(TYPES.AppConfig)
@@ -39,7 +42,10 @@ export class DatabaseConnection {
   async query<T extends QueryResultRow = any>(text: string, params?: any[]): Promise<QueryResult<T>> {
     const start = Date.now();
     try {
-      const result = await this.pool.query<T>(text, params);
+      const client = this.activeClient.getStore();
+      const result = client
+        ? await client.query<T>(text, params)
+        : await this.pool.query<T>(text, params);
       const duration = Date.now() - start;
       
       // Only log slow queries (> 100ms) or in verbose mode
@@ -58,7 +64,22 @@ export class DatabaseConnection {
     return this.pool.connect();
   }
 
+  /**
+   * Runs the callback in a transaction. Every query made through this connection
+   * while the callback runs uses the same client, so repositories take part
+   * without being handed the transaction. Nested calls join the outer transaction.
+   */
   async transaction<T>(callback: (trx: DatabaseTransaction) => Promise<T>): Promise<T> {
+    const activeClient = this.activeClient.getStore();
+    if (activeClient) {
+      return callback({
+        query: <U extends QueryResultRow = any>(text: string, params?: any[]) => activeClient.query<U>(text, params),
+        // The outermost transaction decides the outcome
+        commit: async () => {},
+        rollback: async () => {}
+      });
+    }
+
     const client = await this.getClient();
     
     try {
@@ -70,7 +91,7 @@ export class DatabaseConnection {
         rollback: async () => { await client.query('ROLLBACK'); }
       };
 
-      const result = await callback(transaction);
+      const result = await this.activeClient.run(client, () => callback(transaction));
       await transaction.commit();
       return result;
     } catch (error) {
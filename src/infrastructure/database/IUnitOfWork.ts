@@ -0,0 +1,6 @@
+/**
+ * Groups repository writes so they commit or roll back together.
+ */
+export interface IUnitOfWork {
+  execute<T>(work: () => Promise<T>): Promise<T>;
+}
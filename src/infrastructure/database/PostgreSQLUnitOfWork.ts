@@ -0,0 +1,17 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { IUnitOfWork } from './IUnitOfWork';
+import { DatabaseConnection } from './DatabaseConnection';
+
+@injectable()
+export class PostgreSQLUnitOfWork implements IUnitOfWork {
+  constructor(
+    @inject(TYPES.DatabaseConnection)
+    private db: DatabaseConnection
+  ) {}
+
+  async execute<T>(work: () => Promise<T>): Promise<T> {
+    // Repositories share the connection, so their queries join this transaction
+    return this.db.transaction(() => work());
+  }
+}
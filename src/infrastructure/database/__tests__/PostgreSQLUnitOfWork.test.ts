@@ -0,0 +1,171 @@
+import 'reflect-metadata';
+import { randomUUID } from 'crypto';
+import { AppConfig } from '../../../config/AppConfig';
+import { DatabaseConnection } from '../DatabaseConnection';
+import { PostgreSQLUnitOfWork } from '../PostgreSQLUnitOfWork';
+import { PostgreSQLExchangeRepository } from '../../repositories/postgresql/PostgreSQLExchangeRepository';
+import { PostgreSQLItemRepository } from '../../repositories/postgresql/PostgreSQLItemRepository';
+import { PostgreSQLUserRepository } from '../../repositories/postgresql/PostgreSQLUserRepository';
+import { PostgreSQLDomainEventOutboxRepository } from '../../repositories/postgresql/PostgreSQLDomainEventOutboxRepository';
+import { Exchange } from '../../../domain/exchange/Exchange';
+import { Item } from '../../../domain/item/Item';
+import { User } from '../../../domain/user/User';
+
+const mockClient = {
+  query: jest.fn(),
+  release: jest.fn()
+};
+
+const mockPool = {
+  query: jest.fn(),
+  connect: jest.fn(),
+  on: jest.fn(),
+  end: jest.fn()
+};
+
+jest.mock('pg', () => ({
+  Pool: jest.fn(() => mockPool)
+}));
+
+const location = { latitude: 40.7128, longitude: -74.006, address: 'New York, NY' };
+
+const buildItem = (userId: string): Item =>
+  Item.create({
+    userId,
+    details: {
+      title: 'Oak bookshelf',
+      description: 'Five shelves, solid oak',
+      category: 'furniture',
+      tags: [],
+      images: ['https://example.com/bookshelf.jpg'],
+      condition: 'good'
+    },
+    location
+  });
+
+const executedStatements = (): string[] =>
+  mockClient.query.mock.calls.map(([text]) => String(text).trim().split(/\s+/).slice(0, 3).join(' '));
+
+describe('PostgreSQLUnitOfWork', () => {
+  let db: DatabaseConnection;
+  let unitOfWork: PostgreSQLUnitOfWork;
+  let exchangeRepository: PostgreSQLExchangeRepository;
+  let itemRepository: PostgreSQLItemRepository;
+  let userRepository: PostgreSQLUserRepository;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockClient.query.mockResolvedValue({ rows: [], rowCount: 0 });
+    mockPool.query.mockResolvedValue({ rows: [], rowCount: 0 });
+    mockPool.connect.mockResolvedValue(mockClient);
+
+    db = new DatabaseConnection({
+      database: { type: 'postgresql', connection: 'postgresql://localhost:5432/test' }
+    } as AppConfig);
+    unitOfWork = new PostgreSQLUnitOfWork(db);
+    const outboxRepository = new PostgreSQLDomainEventOutboxRepository(db);
+    exchangeRepository = new PostgreSQLExchangeRepository(db, outboxRepository);
+    itemRepository = new PostgreSQLItemRepository(db, outboxRepository);
+    userRepository = new PostgreSQLUserRepository(db, outboxRepository);
+  });
+
+  it('runs every repository write on one transaction client and commits', async () => {
+    const giverId = randomUUID();
+    const item = buildItem(giverId);
+    const exchange = Exchange.create({ itemId: item.id.value, giverId, receiverId: randomUUID() });
+
+    await unitOfWork.execute(async () => {
+      await exchangeRepository.save(exchange);
+      item.markAsPending();
+      await itemRepository.save(item);
+    });
+
+    expect(executedStatements()).toEqual([
+      'BEGIN',
+      'INSERT INTO exchanges',
+      'INSERT INTO domain_event_outbox',
+      'INSERT INTO items',
+      'INSERT INTO domain_event_outbox',
+      'COMMIT'
+    ]);
+    expect(exchange.domainEvents).toHaveLength(0);
+    expect(item.domainEvents).toHaveLength(0);
+    expect(mockPool.query).not.toHaveBeenCalled();
+    expect(mockClient.release).toHaveBeenCalledTimes(1);
+  });
+
+  it('rolls back earlier writes when a save fails midway', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockClient.query.mockImplementation(async (text: string) => {
+      if (text.includes('INSERT INTO items')) {
+        throw new Error('connection reset');
+      }
+      return { rows: [], rowCount: 0 };
+    });
+
+    const giverId = randomUUID();
+    const item = buildItem(giverId);
+    const exchange = Exchange.create({ itemId: item.id.value, giverId, receiverId: randomUUID() });
+
+    await expect(
+      unitOfWork.execute(async () => {
+        await exchangeRepository.save(exchange);
+        await itemRepository.save(item);
+      })
+    ).rejects.toThrow('connection reset');
+
+    expect(executedStatements()).toEqual([
+      'BEGIN',
+      'INSERT INTO exchanges',
+      'INSERT INTO domain_event_outbox',
+      'INSERT INTO items',
+      'ROLLBACK'
+    ]);
+    expect(item.domainEvents.map(event => event.eventType)).toEqual(['ItemPosted']);
+    expect(mockClient.release).toHaveBeenCalledTimes(1);
+  });
+
+  it('folds repository-level transactions into the surrounding unit of work', async () => {
+    const user = User.create({
+      email: 'giver@example.com',
+      profile: { displayName: 'Giver', isVerified: true, accountType: 'individual' },
+      location
+    });
+    user.awardPoints(25, 'Item posted', 'item:test:posted');
+
+    await expect(
+      unitOfWork.execute(async () => {
+        await userRepository.save(user);
+        throw new Error('later step failed');
+      })
+    ).rejects.toThrow('later step failed');
+
+    expect(mockPool.connect).toHaveBeenCalledTimes(1);
+    expect(executedStatements().filter(statement => statement === 'BEGIN')).toHaveLength(1);
+    expect(executedStatements()).toContain('INSERT INTO eco_points_ledger');
+    expect(executedStatements()).not.toContain('COMMIT');
+    expect(executedStatements()[executedStatements().length - 1]).toBe('ROLLBACK');
+  });
+
+  it('writes recorded events to the outbox with the aggregate outside a unit of work', async () => {
+    const item = buildItem(randomUUID());
+
+    await itemRepository.save(item);
+
+    expect(executedStatements()).toEqual([
+      'BEGIN',
+      'INSERT INTO items',
+      'INSERT INTO domain_event_outbox',
+      'COMMIT'
+    ]);
+    const outboxParams = mockClient.query.mock.calls[2][1];
+    expect(outboxParams.slice(1, 4)).toEqual(['ItemPosted', 'Item', item.id.value]);
+  });
+
+  it('uses the pool directly for reads outside a unit of work', async () => {
+    await itemRepository.findById(buildItem(randomUUID()).id);
+
+    expect(mockPool.query).toHaveBeenCalledTimes(1);
+    expect(mockPool.connect).not.toHaveBeenCalled();
+  });
+});
@@ -5,6 +5,10 @@ import { MigrationRunner, migrations } from './migrations';
 import { SeedData } from './seeds/SeedData';
 import { DIContainer } from '../../container/Container';
 import { TYPES } from '../../container/types';
+import { IUserRepository } from '../repositories/IUserRepository';
+import { IUserRoleRepository } from '../repositories/IUserRoleRepository';
+import { Email } from '../../domain/user/value-objects/Email';
+import { UserRole, UserRoleValue } from '../../domain/user/value-objects/UserRole';
 
 async function main() {
   const command = process.argv[2];
@@ -30,6 +34,9 @@ async function main() {
       case 'status':
         await showMigrationStatus(db);
         break;
+      case 'grant-role':
+        await grantRole(process.argv[3], process.argv[4] || 'admin');
+        break;
       default:
         showHelp();
     }
@@ -98,6 +105,25 @@ async function showMigrationStatus(db: DatabaseConnection) {
   }
 }
 
+// The first admin has to be made here; after that admins can use /api/admin
+async function grantRole(email: string | undefined, role: string) {
+  if (!email) {
+    throw new Error('Usage: npm run db grant-role <email> [role]');
+  }
+
+  const container = DIContainer.getInstance();
+  const userRepository = container.get<IUserRepository>(TYPES.IUserRepository);
+  const userRoleRepository = container.get<IUserRoleRepository>(TYPES.IUserRoleRepository);
+
+  const user = await userRepository.findByEmail(new Email(email));
+  if (!user) {
+    throw new Error(`No user with email ${email}`);
+  }
+
+  await userRoleRepository.grant(user.id, new UserRole(role as UserRoleValue));
+  console.log(`✓ Granted ${role} to ${email}; it applies from their next sign-in`);
+}
+
 function showHelp() {
   console.log(`
 Database CLI Tool
@@ -110,12 +136,15 @@ Commands:
   seed      Run database seeds (populate with sample data)
   reset     Reset database (rollback all, migrate, and seed)
   status    Show migration status
+  grant-role <email> [role]
+            Grant a role (default: admin) to a custom provider user
 
 Examples:
   npm run db migrate
   npm run db seed
   npm run db reset
   npm run db status
+  npm run db grant-role alex@example.com admin
 `);
 }
 
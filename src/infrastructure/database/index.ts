@@ -1,4 +1,6 @@
 export { DatabaseConnection, DatabaseTransaction } from './DatabaseConnection';
+export { IUnitOfWork } from './IUnitOfWork';
+export { PostgreSQLUnitOfWork } from './PostgreSQLUnitOfWork';
 export { migrations, MigrationRunner, Migration, BaseMigration } from './migrations';
 export { SeedData } from './seeds/SeedData';
 export { runDatabaseCLI } from './cli';
\ No newline at end of file
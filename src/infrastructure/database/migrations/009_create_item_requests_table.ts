@@ -0,0 +1,40 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class CreateItemRequestsTableMigration extends BaseMigration {
+  id = '009_create_item_requests_table';
+  name = 'Create item requests table for receiver-initiated exchanges';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    const columns = `
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      item_id UUID NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+      requester_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      status VARCHAR(20) DEFAULT 'pending' CHECK (status IN ('pending', 'selected', 'declined', 'withdrawn')),
+      message TEXT,
+      exchange_id UUID REFERENCES exchanges(id) ON DELETE SET NULL,
+      responded_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    `;
+
+    await this.createTable(db, 'item_requests', columns);
+
+    await this.createIndex(db, 'idx_item_requests_item_status', 'item_requests', 'item_id, status');
+    await this.createIndex(db, 'idx_item_requests_requester_id', 'item_requests', 'requester_id');
+
+    // A user can only have one pending request per item
+    await db.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_item_requests_pending_unique
+       ON item_requests (item_id, requester_id)
+       WHERE status = 'pending'`
+    );
+
+    console.log('✓ Created item_requests table with indexes');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await this.dropTable(db, 'item_requests');
+    console.log('✓ Dropped item_requests table');
+  }
+}
@@ -0,0 +1,32 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class CreateExchangeMessagesTableMigration extends BaseMigration {
+  id = '010_create_exchange_messages_table';
+  name = 'Create exchange messages table for participant conversations';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    const columns = `
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      exchange_id UUID NOT NULL REFERENCES exchanges(id) ON DELETE CASCADE,
+      sender_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      body TEXT NOT NULL CHECK (char_length(body) > 0 AND char_length(body) <= 2000),
+      read_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    `;
+
+    await this.createTable(db, 'exchange_messages', columns);
+
+    await this.createIndex(db, 'idx_exchange_messages_exchange_created', 'exchange_messages', 'exchange_id, created_at');
+
+    // Create index for unread message counts
+    await this.createIndex(db, 'idx_exchange_messages_unread', 'exchange_messages', 'exchange_id, sender_id', 'WHERE read_at IS NULL');
+
+    console.log('✓ Created exchange_messages table with indexes');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await this.dropTable(db, 'exchange_messages');
+    console.log('✓ Dropped exchange_messages table');
+  }
+}
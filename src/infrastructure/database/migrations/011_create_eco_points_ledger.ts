@@ -0,0 +1,82 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class CreateEcoPointsLedgerMigration extends BaseMigration {
+  id = '011_create_eco_points_ledger';
+  name = 'Move eco-points transactions into an append-only ledger table';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    const columns = `
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      points INTEGER NOT NULL CHECK (points <> 0),
+      reason TEXT NOT NULL,
+      idempotency_key VARCHAR(255) NOT NULL UNIQUE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    `;
+
+    await this.createTable(db, 'eco_points_ledger', columns);
+
+    await this.createIndex(db, 'idx_eco_points_ledger_user_created', 'eco_points_ledger', 'user_id, created_at DESC');
+
+    // Backfill from the JSONB array, keyed by position so re-running is harmless
+    await db.query(`
+      INSERT INTO eco_points_ledger (user_id, points, reason, idempotency_key, created_at)
+      SELECT
+        u.id,
+        (t.entry->>'points')::INTEGER,
+        COALESCE(NULLIF(t.entry->>'reason', ''), 'Legacy eco-points'),
+        'legacy:' || u.id || ':' || t.position,
+        COALESCE((t.entry->>'timestamp')::TIMESTAMP WITH TIME ZONE, u.created_at)
+      FROM users u
+      CROSS JOIN LATERAL jsonb_array_elements(COALESCE(u.eco_points_transactions, '[]'::jsonb))
+        WITH ORDINALITY AS t(entry, position)
+      WHERE COALESCE((t.entry->>'points')::INTEGER, 0) <> 0
+      ON CONFLICT (idempotency_key) DO NOTHING
+    `);
+
+    // Carry over any balance the JSONB history does not account for
+    await db.query(`
+      INSERT INTO eco_points_ledger (user_id, points, reason, idempotency_key, created_at)
+      SELECT
+        u.id,
+        u.eco_points - COALESCE(l.total, 0),
+        'Balance carried over',
+        'legacy:' || u.id || ':adjustment',
+        u.created_at
+      FROM users u
+      LEFT JOIN (
+        SELECT user_id, SUM(points) AS total FROM eco_points_ledger GROUP BY user_id
+      ) l ON l.user_id = u.id
+      WHERE u.eco_points <> COALESCE(l.total, 0)
+      ON CONFLICT (idempotency_key) DO NOTHING
+    `);
+
+    await this.dropColumn(db, 'users', 'eco_points_transactions');
+
+    console.log('✓ Created eco_points_ledger table and backfilled transactions');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await this.addColumn(db, 'users', "eco_points_transactions JSONB DEFAULT '[]'::jsonb");
+
+    await db.query(`
+      UPDATE users u
+      SET eco_points_transactions = l.transactions
+      FROM (
+        SELECT
+          user_id,
+          jsonb_agg(
+            jsonb_build_object('points', points, 'reason', reason, 'timestamp', created_at)
+            ORDER BY created_at
+          ) AS transactions
+        FROM eco_points_ledger
+        GROUP BY user_id
+      ) l
+      WHERE l.user_id = u.id
+    `);
+
+    await this.dropTable(db, 'eco_points_ledger');
+    console.log('✓ Restored eco_points_transactions and dropped eco_points_ledger table');
+  }
+}
@@ -0,0 +1,39 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class CreateDomainEventOutboxMigration extends BaseMigration {
+  id = '012_create_domain_event_outbox';
+  name = 'Create outbox table for domain events awaiting delivery';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    const columns = `
+      id UUID PRIMARY KEY,
+      event_type VARCHAR(100) NOT NULL,
+      aggregate_type VARCHAR(50) NOT NULL,
+      aggregate_id UUID NOT NULL,
+      payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+      occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processed', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      delivered_to TEXT[] NOT NULL DEFAULT '{}',
+      next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+      last_error TEXT,
+      processed_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    `;
+
+    await this.createTable(db, 'domain_event_outbox', columns);
+
+    // Create index for the dispatcher's polling query
+    await this.createIndex(db, 'idx_domain_event_outbox_due', 'domain_event_outbox', 'next_attempt_at', "WHERE status = 'pending'");
+
+    await this.createIndex(db, 'idx_domain_event_outbox_aggregate', 'domain_event_outbox', 'aggregate_type, aggregate_id');
+
+    console.log('✓ Created domain_event_outbox table with indexes');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await this.dropTable(db, 'domain_event_outbox');
+    console.log('✓ Dropped domain_event_outbox table');
+  }
+}
@@ -0,0 +1,29 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class AddScheduledReminderColumnsMigration extends BaseMigration {
+  id = '013_add_scheduled_reminder_columns';
+  name = 'Track pickup and stale listing reminders sent by scheduled jobs';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    await this.addColumn(db, 'exchanges', 'pickup_reminder_sent_at TIMESTAMP WITH TIME ZONE');
+    await this.addColumn(db, 'items', 'stale_reminder_sent_at TIMESTAMP WITH TIME ZONE');
+
+    await this.createIndex(
+      db,
+      'idx_exchanges_active_scheduled_pickup',
+      'exchanges',
+      'scheduled_pickup',
+      "WHERE status IN ('requested', 'accepted') AND scheduled_pickup IS NOT NULL"
+    );
+
+    console.log('✓ Added reminder tracking columns to exchanges and items');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await this.dropIndex(db, 'idx_exchanges_active_scheduled_pickup');
+    await this.dropColumn(db, 'items', 'stale_reminder_sent_at');
+    await this.dropColumn(db, 'exchanges', 'pickup_reminder_sent_at');
+    console.log('✓ Removed reminder tracking columns from exchanges and items');
+  }
+}
@@ -0,0 +1,27 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class AddExchangePickupSlotsMigration extends BaseMigration {
+  id = '014_add_exchange_pickup_slots';
+  name = 'Store proposed pickup slots and the agreed pickup window on exchanges';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    await this.addColumn(db, 'exchanges', "pickup_slots JSONB NOT NULL DEFAULT '[]'::jsonb");
+    await this.addColumn(db, 'exchanges', 'scheduled_pickup_end TIMESTAMP WITH TIME ZONE');
+
+    await db.query(`
+      ALTER TABLE exchanges
+      ADD CONSTRAINT check_scheduled_pickup_window
+      CHECK (scheduled_pickup_end IS NULL OR (scheduled_pickup IS NOT NULL AND scheduled_pickup_end > scheduled_pickup))
+    `);
+
+    console.log('✓ Added pickup slot columns to exchanges table');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await db.query('ALTER TABLE exchanges DROP CONSTRAINT IF EXISTS check_scheduled_pickup_window');
+    await this.dropColumn(db, 'exchanges', 'scheduled_pickup_end');
+    await this.dropColumn(db, 'exchanges', 'pickup_slots');
+    console.log('✓ Removed pickup slot columns from exchanges table');
+  }
+}
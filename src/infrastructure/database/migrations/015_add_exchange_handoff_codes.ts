@@ -0,0 +1,29 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class AddExchangeHandoffCodesMigration extends BaseMigration {
+  id = '015_add_exchange_handoff_codes';
+  name = 'Store one-time handoff verification codes on exchanges';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    await this.addColumn(db, 'exchanges', 'handoff_code VARCHAR(6)');
+    await this.addColumn(db, 'exchanges', 'handoff_code_expires_at TIMESTAMP WITH TIME ZONE');
+    await this.addColumn(db, 'exchanges', 'handoff_code_failed_attempts INTEGER NOT NULL DEFAULT 0');
+
+    await db.query(`
+      ALTER TABLE exchanges
+      ADD CONSTRAINT check_handoff_code_expiry
+      CHECK (handoff_code IS NULL OR handoff_code_expires_at IS NOT NULL)
+    `);
+
+    console.log('✓ Added handoff code columns to exchanges table');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await db.query('ALTER TABLE exchanges DROP CONSTRAINT IF EXISTS check_handoff_code_expiry');
+    await this.dropColumn(db, 'exchanges', 'handoff_code_failed_attempts');
+    await this.dropColumn(db, 'exchanges', 'handoff_code_expires_at');
+    await this.dropColumn(db, 'exchanges', 'handoff_code');
+    console.log('✓ Removed handoff code columns from exchanges table');
+  }
+}
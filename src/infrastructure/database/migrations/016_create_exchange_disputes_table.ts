@@ -0,0 +1,72 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class CreateExchangeDisputesTableMigration extends BaseMigration {
+  id = '016_create_exchange_disputes_table';
+  name = 'Create exchange disputes table and track user no-shows';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    // The original inline check is unnamed, so PostgreSQL called it exchanges_status_check
+    await db.query('ALTER TABLE exchanges DROP CONSTRAINT IF EXISTS exchanges_status_check');
+    await db.query(`
+      ALTER TABLE exchanges
+      ADD CONSTRAINT check_exchange_status
+      CHECK (status IN ('requested', 'accepted', 'completed', 'cancelled', 'disputed'))
+    `);
+    await this.addColumn(db, 'exchanges', 'status_before_dispute VARCHAR(20)');
+    await db.query(`
+      ALTER TABLE exchanges
+      ADD CONSTRAINT check_status_before_dispute
+      CHECK (status_before_dispute IS NULL OR status = 'disputed')
+    `);
+
+    await this.addColumn(db, 'users', 'no_show_count INTEGER NOT NULL DEFAULT 0');
+
+    const columns = `
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      exchange_id UUID NOT NULL REFERENCES exchanges(id) ON DELETE CASCADE,
+      reported_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      reported_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      reason VARCHAR(30) NOT NULL CHECK (reason IN ('no_show', 'not_as_described', 'unsafe_behaviour')),
+      description TEXT NOT NULL CHECK (char_length(description) > 0 AND char_length(description) <= 2000),
+      evidence JSONB NOT NULL DEFAULT '[]'::jsonb,
+      outcome VARCHAR(20) CHECK (outcome IN ('upheld', 'dismissed')),
+      resolution_note TEXT,
+      resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+      resolved_at TIMESTAMP WITH TIME ZONE,
+      points_reversed BOOLEAN NOT NULL DEFAULT FALSE,
+      ratings_cleared BOOLEAN NOT NULL DEFAULT FALSE,
+      item_restored BOOLEAN NOT NULL DEFAULT FALSE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      CONSTRAINT check_dispute_resolution CHECK ((outcome IS NULL) = (resolved_at IS NULL))
+    `;
+
+    await this.createTable(db, 'exchange_disputes', columns);
+
+    // An exchange can only be under one open dispute at a time
+    await db.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_exchange_disputes_open_unique
+       ON exchange_disputes (exchange_id)
+       WHERE outcome IS NULL`
+    );
+    await this.createIndex(db, 'idx_exchange_disputes_exchange', 'exchange_disputes', 'exchange_id, created_at DESC');
+    await this.createIndex(db, 'idx_exchange_disputes_status_created', 'exchange_disputes', 'outcome, created_at DESC');
+
+    console.log('✓ Created exchange_disputes table and added no-show tracking');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await this.dropTable(db, 'exchange_disputes');
+    await this.dropColumn(db, 'users', 'no_show_count');
+    await db.query('ALTER TABLE exchanges DROP CONSTRAINT IF EXISTS check_status_before_dispute');
+    await this.dropColumn(db, 'exchanges', 'status_before_dispute');
+    await db.query('ALTER TABLE exchanges DROP CONSTRAINT IF EXISTS check_exchange_status');
+    await db.query(`
+      ALTER TABLE exchanges
+      ADD CONSTRAINT exchanges_status_check
+      CHECK (status IN ('requested', 'accepted', 'completed', 'cancelled'))
+    `);
+    console.log('✓ Dropped exchange_disputes table and no-show tracking');
+  }
+}
@@ -0,0 +1,30 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class AddItemSearchVectorMigration extends BaseMigration {
+  id = '017_add_item_search_vector';
+  name = 'Add weighted full-text search vector to items';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    // Generated so every write keeps it current; adding it backfills existing rows.
+    // Title ranks highest, then tags and category, then the free-text description.
+    await this.addColumn(db, 'items', `
+      search_vector tsvector GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+        setweight(jsonb_to_tsvector('english', coalesce(tags, '[]'::jsonb), '["string"]'), 'B') ||
+        setweight(to_tsvector('english', coalesce(category, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(description, '')), 'C')
+      ) STORED
+    `);
+
+    await db.query('CREATE INDEX IF NOT EXISTS idx_items_search_vector ON items USING GIN (search_vector)');
+
+    console.log('✓ Added search_vector column to items table');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await this.dropIndex(db, 'idx_items_search_vector');
+    await this.dropColumn(db, 'items', 'search_vector');
+    console.log('✓ Removed search_vector column from items table');
+  }
+}
@@ -0,0 +1,54 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class CreateSavedSearchesTableMigration extends BaseMigration {
+  id = '018_create_saved_searches_table';
+  name = 'Create saved searches and their pending item matches';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    const searchColumns = `
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name VARCHAR(100) NOT NULL,
+      criteria JSONB NOT NULL DEFAULT '{}'::jsonb,
+      latitude DECIMAL(10, 8) NOT NULL,
+      longitude DECIMAL(11, 8) NOT NULL,
+      address TEXT NOT NULL,
+      alert_frequency VARCHAR(20) NOT NULL DEFAULT 'immediate'
+        CONSTRAINT check_saved_search_alert_frequency CHECK (alert_frequency IN ('immediate', 'daily', 'off')),
+      last_alerted_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    `;
+
+    await this.createTable(db, 'saved_searches', searchColumns);
+
+    await this.createIndex(db, 'idx_saved_searches_user_id', 'saved_searches', 'user_id');
+    await this.createIndex(db, 'idx_saved_searches_alert_frequency', 'saved_searches', 'alert_frequency');
+
+    // Items matched since the last alert; alerted_at is set once they've been sent
+    const matchColumns = `
+      saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+      item_id UUID NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+      matched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      alerted_at TIMESTAMP WITH TIME ZONE,
+      PRIMARY KEY (saved_search_id, item_id)
+    `;
+
+    await this.createTable(db, 'saved_search_matches', matchColumns);
+
+    await db.query(
+      `CREATE INDEX IF NOT EXISTS idx_saved_search_matches_pending
+       ON saved_search_matches (saved_search_id)
+       WHERE alerted_at IS NULL`
+    );
+
+    console.log('✓ Created saved_searches and saved_search_matches tables with indexes');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await this.dropTable(db, 'saved_search_matches');
+    await this.dropTable(db, 'saved_searches');
+    console.log('✓ Dropped saved_searches and saved_search_matches tables');
+  }
+}
@@ -0,0 +1,57 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class CreateWantedPostsTableMigration extends BaseMigration {
+  id = '019_create_wanted_posts_table';
+  name = 'Create wanted posts and the items offered in response';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    const postColumns = `
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      title VARCHAR(100) NOT NULL,
+      description TEXT,
+      category VARCHAR(100) NOT NULL,
+      tags JSONB DEFAULT '[]'::jsonb,
+      latitude DECIMAL(10, 8) NOT NULL,
+      longitude DECIMAL(11, 8) NOT NULL,
+      address TEXT NOT NULL,
+      radius_km DECIMAL(6, 2) NOT NULL CHECK (radius_km > 0),
+      status VARCHAR(20) NOT NULL DEFAULT 'open'
+        CONSTRAINT check_wanted_post_status CHECK (status IN ('open', 'fulfilled', 'closed')),
+      closed_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    `;
+
+    await this.createTable(db, 'wanted_posts', postColumns);
+
+    await this.createIndex(db, 'idx_wanted_posts_user_id', 'wanted_posts', 'user_id');
+    await this.createIndex(db, 'idx_wanted_posts_status_category', 'wanted_posts', 'status, category');
+    await this.createIndex(db, 'idx_wanted_posts_created_at', 'wanted_posts', 'created_at DESC, id DESC');
+    await db.query('CREATE INDEX IF NOT EXISTS idx_wanted_posts_location_gist ON wanted_posts USING GIST (ST_MakePoint(longitude, latitude))');
+    await db.query('CREATE INDEX IF NOT EXISTS idx_wanted_posts_tags_gin ON wanted_posts USING GIN (tags)');
+
+    // Each offered item opens its own exchange with the poster
+    const responseColumns = `
+      wanted_post_id UUID NOT NULL REFERENCES wanted_posts(id) ON DELETE CASCADE,
+      item_id UUID NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+      responder_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      exchange_id UUID NOT NULL REFERENCES exchanges(id) ON DELETE CASCADE,
+      responded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      PRIMARY KEY (wanted_post_id, item_id)
+    `;
+
+    await this.createTable(db, 'wanted_post_responses', responseColumns);
+
+    await this.createIndex(db, 'idx_wanted_post_responses_exchange_id', 'wanted_post_responses', 'exchange_id');
+
+    console.log('✓ Created wanted_posts and wanted_post_responses tables with indexes');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await this.dropTable(db, 'wanted_post_responses');
+    await this.dropTable(db, 'wanted_posts');
+    console.log('✓ Dropped wanted_posts and wanted_post_responses tables');
+  }
+}
@@ -0,0 +1,54 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class AddItemExpiryMigration extends BaseMigration {
+  id = '020_add_item_expiry';
+  name = 'Add listing expiry dates, renewal tokens and the expired item status';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    await this.addColumn(db, 'items', 'expires_at TIMESTAMP WITH TIME ZONE');
+    await this.addColumn(db, 'items', 'renewal_token VARCHAR(64)');
+
+    await db.query('ALTER TABLE items DROP CONSTRAINT IF EXISTS items_status_check');
+    await db.query(`
+      ALTER TABLE items
+      ADD CONSTRAINT items_status_check
+      CHECK (status IN ('available', 'pending', 'exchanged', 'removed', 'expired'))
+    `);
+
+    // Existing listings get the default lifetime, but at least two weeks so
+    // their owners are reminded before anything expires
+    await db.query(`
+      UPDATE items
+      SET expires_at = GREATEST(created_at + INTERVAL '60 days', NOW() + INTERVAL '14 days')
+      WHERE status IN ('available', 'pending') AND expires_at IS NULL
+    `);
+
+    await this.createIndex(
+      db,
+      'idx_items_available_expires_at',
+      'items',
+      'expires_at',
+      "WHERE status = 'available' AND expires_at IS NOT NULL"
+    );
+
+    console.log('✓ Added expiry columns and expired status to items table');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await this.dropIndex(db, 'idx_items_available_expires_at');
+
+    // Expired listings go back to being available
+    await db.query(`UPDATE items SET status = 'available' WHERE status = 'expired'`);
+    await db.query('ALTER TABLE items DROP CONSTRAINT IF EXISTS items_status_check');
+    await db.query(`
+      ALTER TABLE items
+      ADD CONSTRAINT items_status_check
+      CHECK (status IN ('available', 'pending', 'exchanged', 'removed'))
+    `);
+
+    await this.dropColumn(db, 'items', 'renewal_token');
+    await this.dropColumn(db, 'items', 'expires_at');
+    console.log('✓ Removed expiry columns and expired status from items table');
+  }
+}
@@ -0,0 +1,57 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class AddItemQuantitiesMigration extends BaseMigration {
+  id = '021_add_item_quantities';
+  name = 'Add item quantities and lots, and allow several active exchanges per item';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    await this.addColumn(db, 'items', 'quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity >= 1)');
+    await this.addColumn(db, 'items', 'is_lot BOOLEAN NOT NULL DEFAULT FALSE');
+    await this.addColumn(db, 'items', 'quantity_claimed INTEGER NOT NULL DEFAULT 0');
+    await this.addColumn(db, 'items', 'quantity_given INTEGER NOT NULL DEFAULT 0');
+
+    // Existing items are single units, claimed or given according to their status
+    await db.query(`UPDATE items SET quantity_claimed = 1 WHERE status = 'pending'`);
+    await db.query(`UPDATE items SET quantity_given = 1 WHERE status = 'exchanged'`);
+
+    await db.query(`
+      ALTER TABLE items
+      ADD CONSTRAINT items_quantity_check
+      CHECK (quantity_claimed >= 0 AND quantity_given >= 0 AND quantity_claimed + quantity_given <= quantity)
+    `);
+
+    await this.addColumn(db, 'exchanges', 'quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity >= 1)');
+    await this.addColumn(db, 'item_requests', 'quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity >= 1)');
+
+    // A lot can have several active exchanges, but still only one per receiver.
+    // Claimed quantities on the locked item row keep single items to one.
+    await this.dropIndex(db, 'idx_exchanges_item_active_unique');
+    await db.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_exchanges_item_receiver_active_unique
+       ON exchanges (item_id, receiver_id)
+       WHERE status IN ('requested', 'accepted')`
+    );
+
+    console.log('✓ Added quantities to items, exchanges and item requests');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await this.dropIndex(db, 'idx_exchanges_item_receiver_active_unique');
+    await db.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_exchanges_item_active_unique
+       ON exchanges (item_id)
+       WHERE status IN ('requested', 'accepted')`
+    );
+
+    await this.dropColumn(db, 'item_requests', 'quantity');
+    await this.dropColumn(db, 'exchanges', 'quantity');
+
+    await db.query('ALTER TABLE items DROP CONSTRAINT IF EXISTS items_quantity_check');
+    await this.dropColumn(db, 'items', 'quantity_given');
+    await this.dropColumn(db, 'items', 'quantity_claimed');
+    await this.dropColumn(db, 'items', 'is_lot');
+    await this.dropColumn(db, 'items', 'quantity');
+    console.log('✓ Removed quantities from items, exchanges and item requests');
+  }
+}
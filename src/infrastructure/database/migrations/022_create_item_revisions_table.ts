@@ -0,0 +1,28 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class CreateItemRevisionsTableMigration extends BaseMigration {
+  id = '022_create_item_revisions_table';
+  name = 'Create item revisions table for item edit history';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    const columns = `
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      item_id UUID NOT NULL REFERENCES items(id) ON DELETE CASCADE,
+      version INTEGER NOT NULL CHECK (version >= 1),
+      changed_by UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      changes JSONB NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE (item_id, version)
+    `;
+
+    await this.createTable(db, 'item_revisions', columns);
+
+    console.log('✓ Created item_revisions table');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await this.dropTable(db, 'item_revisions');
+    console.log('✓ Dropped item_revisions table');
+  }
+}
@@ -0,0 +1,29 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class CreateEmailVerificationTokensTableMigration extends BaseMigration {
+  id = '023_create_email_verification_tokens_table';
+  name = 'Create email verification tokens table';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    const columns = `
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      token_hash CHAR(64) NOT NULL UNIQUE,
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      used_at TIMESTAMP WITH TIME ZONE,
+      revoked_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    `;
+
+    await this.createTable(db, 'email_verification_tokens', columns);
+    await this.createIndex(db, 'idx_email_verification_tokens_user_created', 'email_verification_tokens', 'user_id, created_at DESC');
+
+    console.log('✓ Created email_verification_tokens table');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await this.dropTable(db, 'email_verification_tokens');
+    console.log('✓ Dropped email_verification_tokens table');
+  }
+}
@@ -0,0 +1,44 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class CreateAuthTokenTablesMigration extends BaseMigration {
+  id = '024_create_auth_token_tables';
+  name = 'Create refresh token families and the access token denylist';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    await this.createTable(db, 'auth_token_families', `
+      id UUID PRIMARY KEY,
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      revoked_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    `);
+    await this.createIndex(db, 'idx_auth_token_families_user_id', 'auth_token_families', 'user_id');
+
+    await this.createTable(db, 'refresh_tokens', `
+      id UUID PRIMARY KEY,
+      family_id UUID NOT NULL REFERENCES auth_token_families(id) ON DELETE CASCADE,
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      used_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    `);
+    await this.createIndex(db, 'idx_refresh_tokens_family_id', 'refresh_tokens', 'family_id');
+    await this.createIndex(db, 'idx_refresh_tokens_expires_at', 'refresh_tokens', 'expires_at');
+
+    await this.createTable(db, 'revoked_access_tokens', `
+      jti UUID PRIMARY KEY,
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    `);
+    await this.createIndex(db, 'idx_revoked_access_tokens_expires_at', 'revoked_access_tokens', 'expires_at');
+
+    console.log('✓ Created auth token tables');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await this.dropTable(db, 'revoked_access_tokens');
+    await this.dropTable(db, 'refresh_tokens');
+    await this.dropTable(db, 'auth_token_families');
+    console.log('✓ Dropped auth token tables');
+  }
+}
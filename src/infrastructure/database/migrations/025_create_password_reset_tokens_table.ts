@@ -0,0 +1,29 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class CreatePasswordResetTokensTableMigration extends BaseMigration {
+  id = '025_create_password_reset_tokens_table';
+  name = 'Create password reset tokens table';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    const columns = `
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      token_hash CHAR(64) NOT NULL UNIQUE,
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      used_at TIMESTAMP WITH TIME ZONE,
+      revoked_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    `;
+
+    await this.createTable(db, 'password_reset_tokens', columns);
+    await this.createIndex(db, 'idx_password_reset_tokens_user_created', 'password_reset_tokens', 'user_id, created_at DESC');
+
+    console.log('✓ Created password_reset_tokens table');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await this.dropTable(db, 'password_reset_tokens');
+    console.log('✓ Dropped password_reset_tokens table');
+  }
+}
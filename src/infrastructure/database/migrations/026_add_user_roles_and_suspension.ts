@@ -0,0 +1,35 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class AddUserRolesAndSuspensionMigration extends BaseMigration {
+  id = '026_add_user_roles_and_suspension';
+  name = 'Create user roles table and add account suspension to users';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    const columns = `
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      role VARCHAR(20) NOT NULL CHECK (role IN ('admin')),
+      granted_by UUID REFERENCES users(id) ON DELETE SET NULL,
+      granted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      PRIMARY KEY (user_id, role)
+    `;
+
+    await this.createTable(db, 'user_roles', columns);
+
+    await this.addColumn(db, 'users', 'suspended_at TIMESTAMP WITH TIME ZONE');
+    await this.addColumn(db, 'users', 'suspended_by UUID REFERENCES users(id) ON DELETE SET NULL');
+    await this.addColumn(db, 'users', 'suspension_reason TEXT');
+    await this.createIndex(db, 'idx_users_suspended_at', 'users', 'suspended_at', 'WHERE suspended_at IS NOT NULL');
+
+    console.log('✓ Created user_roles table and added suspension columns to users table');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await this.dropIndex(db, 'idx_users_suspended_at');
+    await this.dropColumn(db, 'users', 'suspension_reason');
+    await this.dropColumn(db, 'users', 'suspended_by');
+    await this.dropColumn(db, 'users', 'suspended_at');
+    await this.dropTable(db, 'user_roles');
+    console.log('✓ Dropped user_roles table and suspension columns from users table');
+  }
+}
@@ -0,0 +1,80 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class AddAccountStatusMigration extends BaseMigration {
+  id = '027_add_account_status';
+  name = 'Replace user suspension columns with an account status and an audit trail of changes';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    await this.addColumn(db, 'users', "account_status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (account_status IN ('active', 'suspended', 'banned'))");
+    await this.addColumn(db, 'users', 'status_reason TEXT');
+    await this.addColumn(db, 'users', 'suspended_until TIMESTAMP WITH TIME ZONE');
+    await this.addColumn(db, 'users', 'status_changed_by UUID REFERENCES users(id) ON DELETE SET NULL');
+    await this.addColumn(db, 'users', 'status_changed_at TIMESTAMP WITH TIME ZONE');
+
+    const columns = `
+      id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      status VARCHAR(20) NOT NULL CHECK (status IN ('active', 'suspended', 'banned')),
+      reason TEXT,
+      suspended_until TIMESTAMP WITH TIME ZONE,
+      changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    `;
+
+    await this.createTable(db, 'account_status_changes', columns);
+
+    await this.createIndex(db, 'idx_account_status_changes_user_created', 'account_status_changes', 'user_id, created_at DESC');
+    await this.createIndex(db, 'idx_users_account_status', 'users', 'account_status', "WHERE account_status <> 'active'");
+
+    // Open-ended suspensions had no end date, so they carry over as bans
+    await db.query(`
+      UPDATE users
+      SET account_status = 'banned',
+          status_reason = COALESCE(suspension_reason, 'Suspended before account statuses existed'),
+          status_changed_by = suspended_by,
+          status_changed_at = suspended_at
+      WHERE suspended_at IS NOT NULL
+    `);
+
+    await db.query(`
+      INSERT INTO account_status_changes (user_id, status, reason, changed_by, created_at)
+      SELECT id, 'banned', status_reason, status_changed_by, status_changed_at
+      FROM users
+      WHERE suspended_at IS NOT NULL
+    `);
+
+    await this.dropIndex(db, 'idx_users_suspended_at');
+    await this.dropColumn(db, 'users', 'suspension_reason');
+    await this.dropColumn(db, 'users', 'suspended_by');
+    await this.dropColumn(db, 'users', 'suspended_at');
+
+    console.log('✓ Added account status to users and created account_status_changes table');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await this.addColumn(db, 'users', 'suspended_at TIMESTAMP WITH TIME ZONE');
+    await this.addColumn(db, 'users', 'suspended_by UUID REFERENCES users(id) ON DELETE SET NULL');
+    await this.addColumn(db, 'users', 'suspension_reason TEXT');
+    await this.createIndex(db, 'idx_users_suspended_at', 'users', 'suspended_at', 'WHERE suspended_at IS NOT NULL');
+
+    // Only bans and suspensions still running survive the trip back
+    await db.query(`
+      UPDATE users
+      SET suspended_at = COALESCE(status_changed_at, NOW()),
+          suspended_by = status_changed_by,
+          suspension_reason = status_reason
+      WHERE account_status = 'banned'
+         OR (account_status = 'suspended' AND suspended_until > NOW())
+    `);
+
+    await this.dropTable(db, 'account_status_changes');
+    await this.dropIndex(db, 'idx_users_account_status');
+    await this.dropColumn(db, 'users', 'status_changed_at');
+    await this.dropColumn(db, 'users', 'status_changed_by');
+    await this.dropColumn(db, 'users', 'suspended_until');
+    await this.dropColumn(db, 'users', 'status_reason');
+    await this.dropColumn(db, 'users', 'account_status');
+    console.log('✓ Dropped account_status_changes table and restored suspension columns on users table');
+  }
+}
@@ -0,0 +1,34 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class HashExchangeHandoffCodesMigration extends BaseMigration {
+  id = '028_hash_exchange_handoff_codes';
+  name = 'Store a SHA-256 hash of exchange handoff codes instead of the code';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    await db.query('ALTER TABLE exchanges RENAME COLUMN handoff_code TO handoff_code_hash');
+    await db.query('ALTER TABLE exchanges ALTER COLUMN handoff_code_hash TYPE VARCHAR(64)');
+
+    // Codes already issued keep working
+    await db.query(`
+      UPDATE exchanges
+      SET handoff_code_hash = encode(sha256(convert_to(handoff_code_hash, 'UTF8')), 'hex')
+      WHERE handoff_code_hash IS NOT NULL
+    `);
+
+    console.log('✓ Replaced handoff codes with their hashes on exchanges table');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    // Hashes can't be turned back into codes, so givers get new ones on their next visit
+    await db.query(`
+      UPDATE exchanges
+      SET handoff_code_hash = NULL, handoff_code_expires_at = NULL, handoff_code_failed_attempts = 0
+      WHERE handoff_code_hash IS NOT NULL
+    `);
+
+    await db.query('ALTER TABLE exchanges ALTER COLUMN handoff_code_hash TYPE VARCHAR(6)');
+    await db.query('ALTER TABLE exchanges RENAME COLUMN handoff_code_hash TO handoff_code');
+    console.log('✓ Restored handoff code column on exchanges table');
+  }
+}
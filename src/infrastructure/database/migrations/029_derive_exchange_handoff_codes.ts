@@ -0,0 +1,32 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class DeriveExchangeHandoffCodesMigration extends BaseMigration {
+  id = '029_derive_exchange_handoff_codes';
+  name = 'Store the seed exchange handoff codes are derived from instead of a hash';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    // A hash can't be turned into a seed, so givers get new codes on their next visit
+    await db.query(`
+      UPDATE exchanges
+      SET handoff_code_hash = NULL, handoff_code_expires_at = NULL, handoff_code_failed_attempts = 0
+      WHERE handoff_code_hash IS NOT NULL
+    `);
+
+    await db.query('ALTER TABLE exchanges ALTER COLUMN handoff_code_hash TYPE VARCHAR(32)');
+    await db.query('ALTER TABLE exchanges RENAME COLUMN handoff_code_hash TO handoff_code_seed');
+    console.log('✓ Replaced handoff code hashes with seeds on exchanges table');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await db.query(`
+      UPDATE exchanges
+      SET handoff_code_seed = NULL, handoff_code_expires_at = NULL, handoff_code_failed_attempts = 0
+      WHERE handoff_code_seed IS NOT NULL
+    `);
+
+    await db.query('ALTER TABLE exchanges RENAME COLUMN handoff_code_seed TO handoff_code_hash');
+    await db.query('ALTER TABLE exchanges ALTER COLUMN handoff_code_hash TYPE VARCHAR(64)');
+    console.log('✓ Restored handoff code hash column on exchanges table');
+  }
+}
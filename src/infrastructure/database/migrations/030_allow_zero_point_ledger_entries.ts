@@ -0,0 +1,18 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class AllowZeroPointLedgerEntriesMigration extends BaseMigration {
+  id = '030_allow_zero_point_ledger_entries';
+  name = 'Allow zero-point eco-points ledger entries for awards used up by the daily cap';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    await db.query('ALTER TABLE eco_points_ledger DROP CONSTRAINT IF EXISTS eco_points_ledger_points_check');
+    console.log('✓ Allowed zero-point entries on eco_points_ledger table');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    await db.query('DELETE FROM eco_points_ledger WHERE points = 0');
+    await db.query('ALTER TABLE eco_points_ledger ADD CONSTRAINT eco_points_ledger_points_check CHECK (points <> 0)');
+    console.log('✓ Restored non-zero check on eco_points_ledger table');
+  }
+}
@@ -0,0 +1,31 @@
+import { BaseMigration } from './Migration';
+import { DatabaseConnection } from '../DatabaseConnection';
+
+export class HashItemRenewalTokensMigration extends BaseMigration {
+  id = '031_hash_item_renewal_tokens';
+  name = 'Store hashes of item renewal tokens and when the renewal reminder went out';
+
+  async up(db: DatabaseConnection): Promise<void> {
+    await this.addColumn(db, 'items', 'renewal_token_hash VARCHAR(64)');
+    await this.addColumn(db, 'items', 'renewal_reminder_sent_at TIMESTAMP WITH TIME ZONE');
+
+    // Links already emailed keep working, since their hash is what gets compared now
+    await db.query(`
+      UPDATE items
+      SET renewal_token_hash = encode(sha256(convert_to(renewal_token, 'UTF8')), 'hex'),
+          renewal_reminder_sent_at = updated_at
+      WHERE renewal_token IS NOT NULL
+    `);
+
+    await this.dropColumn(db, 'items', 'renewal_token');
+    console.log('✓ Replaced renewal tokens with their hashes on items table');
+  }
+
+  async down(db: DatabaseConnection): Promise<void> {
+    // A hash can't be turned back into a token, so owners get a new reminder
+    await this.addColumn(db, 'items', 'renewal_token VARCHAR(64)');
+    await this.dropColumn(db, 'items', 'renewal_reminder_sent_at');
+    await this.dropColumn(db, 'items', 'renewal_token_hash');
+    console.log('✓ Restored renewal token column on items table');
+  }
+}
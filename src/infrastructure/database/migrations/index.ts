@@ -7,6 +7,29 @@ import { CreateBadgesTableMigration } from './005_create_badges_table';
 import { CreateAchievementsTableMigration } from './006_create_achievements_table';
 import { AddExchangeActiveUniqueIndexMigration } from './007_add_exchange_active_unique_index';
 import { AddExchangeHandoffConfirmationsMigration } from './008_add_exchange_handoff_confirmations';
+import { CreateItemRequestsTableMigration } from './009_create_item_requests_table';
+import { CreateExchangeMessagesTableMigration } from './010_create_exchange_messages_table';
+import { CreateEcoPointsLedgerMigration } from './011_create_eco_points_ledger';
+import { CreateDomainEventOutboxMigration } from './012_create_domain_event_outbox';
+import { AddScheduledReminderColumnsMigration } from './013_add_scheduled_reminder_columns';
+import { AddExchangePickupSlotsMigration } from './014_add_exchange_pickup_slots';
+import { AddExchangeHandoffCodesMigration } from './015_add_exchange_handoff_codes';
+import { CreateExchangeDisputesTableMigration } from './016_create_exchange_disputes_table';
+import { AddItemSearchVectorMigration } from './017_add_item_search_vector';
+import { CreateSavedSearchesTableMigration } from './018_create_saved_searches_table';
+import { CreateWantedPostsTableMigration } from './019_create_wanted_posts_table';
+import { AddItemExpiryMigration } from './020_add_item_expiry';
+import { AddItemQuantitiesMigration } from './021_add_item_quantities';
+import { CreateItemRevisionsTableMigration } from './022_create_item_revisions_table';
+import { CreateEmailVerificationTokensTableMigration } from './023_create_email_verification_tokens_table';
+import { CreateAuthTokenTablesMigration } from './024_create_auth_token_tables';
+import { CreatePasswordResetTokensTableMigration } from './025_create_password_reset_tokens_table';
+import { AddUserRolesAndSuspensionMigration } from './026_add_user_roles_and_suspension';
+import { AddAccountStatusMigration } from './027_add_account_status';
+import { HashExchangeHandoffCodesMigration } from './028_hash_exchange_handoff_codes';
+import { DeriveExchangeHandoffCodesMigration } from './029_derive_exchange_handoff_codes';
+import { AllowZeroPointLedgerEntriesMigration } from './030_allow_zero_point_ledger_entries';
+import { HashItemRenewalTokensMigration } from './031_hash_item_renewal_tokens';
 
 export const migrations: Migration[] = [
   new CreateExtensionsMigration(),
@@ -17,6 +40,29 @@ export const migrations: Migration[] = [
   new CreateAchievementsTableMigration(),
   new AddExchangeActiveUniqueIndexMigration(),
   new AddExchangeHandoffConfirmationsMigration(),
+  new CreateItemRequestsTableMigration(),
+  new CreateExchangeMessagesTableMigration(),
+  new CreateEcoPointsLedgerMigration(),
+  new CreateDomainEventOutboxMigration(),
+  new AddScheduledReminderColumnsMigration(),
+  new AddExchangePickupSlotsMigration(),
+  new AddExchangeHandoffCodesMigration(),
+  new CreateExchangeDisputesTableMigration(),
+  new AddItemSearchVectorMigration(),
+  new CreateSavedSearchesTableMigration(),
+  new CreateWantedPostsTableMigration(),
+  new AddItemExpiryMigration(),
+  new AddItemQuantitiesMigration(),
+  new CreateItemRevisionsTableMigration(),
+  new CreateEmailVerificationTokensTableMigration(),
+  new CreateAuthTokenTablesMigration(),
+  new CreatePasswordResetTokensTableMigration(),
+  new AddUserRolesAndSuspensionMigration(),
+  new AddAccountStatusMigration(),
+  new HashExchangeHandoffCodesMigration(),
+  new DeriveExchangeHandoffCodesMigration(),
+  new AllowZeroPointLedgerEntriesMigration(),
+  new HashItemRenewalTokensMigration(),
 ];
 
 export { MigrationRunner } from './MigrationRunner';
@@ -40,7 +40,7 @@ export class SeedData {
       
       // Award some eco points to verified users
       if (user.profile.isVerified) {
-        user.awardPoints(Math.floor(Math.random() * 500) + 100, 'Initial seed points');
+        user.awardPoints(Math.floor(Math.random() * 500) + 100, 'Initial seed points', `seed:${userData.email}:initial`);
         user.updateRating(Math.random() * 2 + 3); // Rating between 3-5
       }
 
@@ -49,10 +49,10 @@ export class SeedData {
       const query = `
         INSERT INTO users (
           id, email, display_name, phone, avatar, is_verified, account_type,
-          latitude, longitude, address, eco_points, eco_points_transactions,
+          latitude, longitude, address, eco_points,
           rating, total_exchanges, created_at, updated_at
         ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 0, $11, $12, $13, $14
         )
         ON CONFLICT (email) DO UPDATE SET
           display_name = EXCLUDED.display_name,
@@ -63,8 +63,6 @@ export class SeedData {
           latitude = EXCLUDED.latitude,
           longitude = EXCLUDED.longitude,
           address = EXCLUDED.address,
-          eco_points = EXCLUDED.eco_points,
-          eco_points_transactions = EXCLUDED.eco_points_transactions,
           rating = EXCLUDED.rating,
           total_exchanges = EXCLUDED.total_exchanges,
           updated_at = EXCLUDED.updated_at
@@ -81,8 +79,6 @@ export class SeedData {
         userDataForDb.location.latitude,
         userDataForDb.location.longitude,
         userDataForDb.location.address,
-        userDataForDb.ecoPoints,
-        JSON.stringify(userDataForDb.ecoPointsTransactions ? [...userDataForDb.ecoPointsTransactions] : []),
         userDataForDb.rating,
         userDataForDb.totalExchanges,
         userDataForDb.createdAt,
@@ -94,13 +90,27 @@ export class SeedData {
       // Get persisted user id (existing or newly inserted)
       const row = await this.db.query<{ id: string }>('SELECT id FROM users WHERE email = $1', [userData.email]);
       const persistedId = row.rows[0]?.id || userDataForDb.id;
+
+      // Record seed points in the ledger; re-running the seed keeps the original award
+      for (const transaction of user.ecoPoints.pendingTransactions) {
+        const inserted = await this.db.query(
+          `INSERT INTO eco_points_ledger (user_id, points, reason, idempotency_key, created_at)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT (idempotency_key) DO NOTHING`,
+          [persistedId, transaction.points, transaction.reason, transaction.idempotencyKey, transaction.timestamp]
+        );
+        if (inserted.rowCount) {
+          await this.db.query('UPDATE users SET eco_points = eco_points + $1 WHERE id = $2', [transaction.points, persistedId]);
+        }
+      }
+
+      const balance = await this.db.query<{ eco_points: number }>('SELECT eco_points FROM users WHERE id = $1', [persistedId]);
       const persisted = User.fromData({
         ...userDataForDb,
         id: persistedId,
         profile: user.profile,
         location: user.location.toData(),
-        ecoPoints: user.ecoPoints.value,
-        ecoPointsTransactions: [...user.ecoPoints.transactions],
+        ecoPoints: balance.rows[0]?.eco_points ?? 0,
         rating: user.rating,
         totalExchanges: user.totalExchanges
       });
@@ -0,0 +1,26 @@
+export interface RefreshTokenRecord {
+  id: string; // The token's jti
+  familyId: string;
+  userId: string;
+  expiresAt: Date;
+  usedAt?: Date; // Set once the token has been exchanged for a new pair
+  familyRevokedAt?: Date;
+}
+
+/**
+ * Server-side state for custom JWT auth. Each login starts a refresh-token
+ * family; every refresh rotates to a new token in the same family, and
+ * revoking the family ends the session along with its access tokens.
+ */
+export interface IAuthTokenRepository {
+  saveRefreshToken(token: Omit<RefreshTokenRecord, 'usedAt' | 'familyRevokedAt'>): Promise<void>;
+  findRefreshToken(id: string): Promise<RefreshTokenRecord | null>;
+  // False if the token was already used, which means it is being replayed
+  markRefreshTokenUsed(id: string): Promise<boolean>;
+  revokeFamily(familyId: string): Promise<void>;
+  revokeAllFamilies(userId: string): Promise<void>;
+  denyAccessToken(jti: string, userId: string, expiresAt: Date): Promise<void>;
+  isAccessTokenRevoked(jti: string, familyId: string): Promise<boolean>;
+  // Drops expired tokens, denylist entries and families without live tokens
+  deleteExpired(): Promise<number>;
+}
@@ -0,0 +1,25 @@
+import { DomainEvent } from '../../domain/events/DomainEvent';
+
+export type OutboxStatus = 'pending' | 'processed' | 'failed';
+
+export interface OutboxEntry extends DomainEvent {
+  status: OutboxStatus;
+  attempts: number;
+  deliveredTo: string[]; // Subscribers that have already handled the event
+  lastError?: string;
+}
+
+/**
+ * Domain events waiting to be delivered to subscribers. Events are appended by
+ * the aggregate repositories inside the same transaction as the aggregate.
+ */
+export interface IDomainEventOutboxRepository {
+  append(events: readonly DomainEvent[]): Promise<void>;
+
+  // Dispatcher operations
+  claimDue(limit: number, leaseMs: number): Promise<OutboxEntry[]>;
+  markDelivered(id: string, subscriber: string): Promise<void>;
+  markProcessed(id: string): Promise<void>;
+  scheduleRetry(id: string, attempts: number, nextAttemptAt: Date, error: string): Promise<void>;
+  markFailed(id: string, attempts: number, error: string): Promise<void>;
+}
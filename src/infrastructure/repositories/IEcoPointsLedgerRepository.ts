@@ -0,0 +1,32 @@
+import { UserId } from '../../domain/user/value-objects/UserId';
+
+export interface EcoPointsLedgerEntry {
+  id: string;
+  userId: string;
+  points: number;
+  reason: string;
+  idempotencyKey: string;
+  createdAt: Date;
+}
+
+export interface EcoPointsLedgerSearchResult {
+  entries: EcoPointsLedgerEntry[];
+  totalCount: number;
+  hasMore: boolean;
+  nextCursor?: string; // Pass back to get the entries after this page
+}
+
+/**
+ * Read access to the append-only eco-points ledger. Entries are written by the
+ * user repository when a user with pending transactions is saved.
+ */
+export interface IEcoPointsLedgerRepository {
+  // Domain-specific queries
+  // A cursor from a previous page takes precedence over the offset
+  findByUserId(userId: UserId, limit?: number, offset?: number, cursor?: string): Promise<EcoPointsLedgerSearchResult>;
+  findByIdempotencyKey(idempotencyKey: string): Promise<EcoPointsLedgerEntry | null>;
+
+  // Statistics
+  getBalance(userId: UserId): Promise<number>;
+  getPointsAwardedSince(userId: UserId, since: Date): Promise<number>;
+}
@@ -0,0 +1,12 @@
+import { UserId } from '../../domain/user/value-objects/UserId';
+import { EmailVerificationToken } from '../../domain/user/value-objects/EmailVerificationToken';
+
+export interface IEmailVerificationTokenRepository {
+  // Stores the token and revokes any earlier ones the user hasn't used
+  issue(token: EmailVerificationToken): Promise<void>;
+  findByTokenHash(tokenHash: string): Promise<EmailVerificationToken | null>;
+  // False if the token was used or revoked in the meantime
+  markUsed(token: EmailVerificationToken): Promise<boolean>;
+  // Newest first
+  findIssuedSince(userId: UserId, since: Date): Promise<EmailVerificationToken[]>;
+}
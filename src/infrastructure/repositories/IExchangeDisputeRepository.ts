@@ -0,0 +1,20 @@
+import { ExchangeDispute } from '../../domain/exchange/ExchangeDispute';
+import { ExchangeDisputeId } from '../../domain/exchange/value-objects/ExchangeDisputeId';
+import { ExchangeId } from '../../domain/exchange/value-objects/ExchangeId';
+
+export interface ExchangeDisputeSearchResult {
+  disputes: ExchangeDispute[];
+  totalCount: number;
+  hasMore: boolean;
+}
+
+export interface IExchangeDisputeRepository {
+  // Basic CRUD operations
+  save(dispute: ExchangeDispute): Promise<void>;
+  findById(id: ExchangeDisputeId): Promise<ExchangeDispute | null>;
+
+  // Domain-specific queries
+  findOpenByExchangeId(exchangeId: ExchangeId): Promise<ExchangeDispute | null>;
+  findByExchangeId(exchangeId: ExchangeId): Promise<ExchangeDispute[]>;
+  findByStatus(open: boolean, limit?: number, offset?: number): Promise<ExchangeDisputeSearchResult>;
+}
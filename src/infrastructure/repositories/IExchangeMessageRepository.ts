@@ -0,0 +1,22 @@
+import { ExchangeMessage } from '../../domain/exchange/ExchangeMessage';
+import { ExchangeId } from '../../domain/exchange/value-objects/ExchangeId';
+import { UserId } from '../../domain/user/value-objects/UserId';
+
+export interface ExchangeMessageSearchResult {
+  messages: ExchangeMessage[];
+  totalCount: number;
+  hasMore: boolean;
+}
+
+export interface IExchangeMessageRepository {
+  // Basic CRUD operations
+  save(message: ExchangeMessage): Promise<void>;
+
+  // Domain-specific queries
+  findByExchangeId(exchangeId: ExchangeId, limit?: number, offset?: number): Promise<ExchangeMessageSearchResult>;
+
+  // Read tracking
+  markAsRead(exchangeId: ExchangeId, readerId: UserId): Promise<number>;
+  countUnread(exchangeId: ExchangeId, readerId: UserId): Promise<number>;
+  countUnreadByExchange(readerId: UserId): Promise<Record<string, number>>;
+}
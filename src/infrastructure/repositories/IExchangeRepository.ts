@@ -25,6 +25,7 @@ export interface ExchangeSearchResult {
   exchanges: Exchange[];
   totalCount: number;
   hasMore: boolean;
+  nextCursor?: string; // Pass back to get the exchanges after this page
 }
 
 export interface ExchangeStatistics {
@@ -57,16 +58,23 @@ export interface IExchangeRepository {
   findUserPendingExchanges(userId: UserId): Promise<Exchange[]>;
   
   // Advanced search
-  search(criteria: ExchangeSearchCriteria, limit?: number, offset?: number): Promise<ExchangeSearchResult>;
+  // A cursor from a previous page takes precedence over the offset
+  search(criteria: ExchangeSearchCriteria, limit?: number, offset?: number, cursor?: string): Promise<ExchangeSearchResult>;
   findActiveExchanges(): Promise<Exchange[]>;
   findCompletedExchanges(): Promise<Exchange[]>;
-  findOverdueExchanges(): Promise<Exchange[]>;
+  findOverdueExchanges(graceHours?: number): Promise<Exchange[]>;
+  findExchangesDueForPickupReminder(leadHours: number): Promise<Exchange[]>;
   findUnratedExchanges(): Promise<Exchange[]>;
   
   // Bulk operations
   saveMany(exchanges: Exchange[]): Promise<void>;
   findByIds(ids: ExchangeId[]): Promise<Exchange[]>;
   updateStatusBatch(exchangeIds: ExchangeId[], status: ExchangeStatusValue): Promise<void>;
+
+  // Handoff codes
+  // Counts an attempt on the exchange's code and returns the attempts so far, or null
+  // if the code has used up its attempts or was replaced in the meantime
+  claimHandoffAttempt(exchange: Exchange, maxAttempts: number): Promise<number | null>;
   
   // Statistics and aggregations
   countExchanges(): Promise<number>;
@@ -3,11 +3,14 @@ import { ItemId } from '../../domain/item/value-objects/ItemId';
 import { UserId } from '../../domain/user/value-objects/UserId';
 import { Location } from '../../domain/user/value-objects/Location';
 import { ItemStatusValue } from '../../domain/item/value-objects/ItemStatus';
+import { ItemCondition } from '../../domain/item/value-objects/ItemDetails';
 
 export interface ItemSearchCriteria {
   searchTerm?: string;
   category?: string;
-  tags?: string[];
+  categories?: string[]; // Matches any of them, together with category
+  conditions?: ItemCondition[]; // Matches any of them
+  tags?: string[]; // Matches items with any of them
   status?: ItemStatusValue;
   maxDistance?: number;
   userLocation?: Location;
@@ -18,16 +21,47 @@ export interface ItemSearchCriteria {
   createdBefore?: Date;
 }
 
+export interface ItemSearchHighlight {
+  title: string; // HTML-escaped, with matched words wrapped in <mark>
+  description: string; // Best matching fragments of the description, marked up the same way
+}
+
+export interface ItemFacetCount {
+  value: string;
+  count: number;
+}
+
+export interface ItemDistanceFacetCount {
+  maxDistanceKm: number;
+  count: number;
+}
+
+/**
+ * Counts for each filter option under the current search. A facet ignores
+ * its own selection, so options stay visible and can be combined.
+ */
+export interface ItemSearchFacets {
+  categories: ItemFacetCount[];
+  conditions: ItemFacetCount[];
+  tags: ItemFacetCount[]; // Most common tags only
+  distances: ItemDistanceFacetCount[]; // Empty without a user location
+}
+
 export interface ItemSearchResult {
   items: Item[];
   totalCount: number;
   hasMore: boolean;
+  nextCursor?: string; // Pass back to get the items after this page
+  highlights?: Record<string, ItemSearchHighlight>; // Keyed by item id, only present for text searches
+  facets?: ItemSearchFacets; // Only when requested
 }
 
 export interface IItemRepository {
   // Basic CRUD operations
   save(item: Item): Promise<void>;
   findById(id: ItemId): Promise<Item | null>;
+  // Locks the row until the surrounding unit of work ends, for changes to claimed quantities
+  findByIdForUpdate(id: ItemId): Promise<Item | null>;
   delete(id: ItemId): Promise<void>;
   
   // Domain-specific queries
@@ -38,7 +72,9 @@ export interface IItemRepository {
   findByTags(tags: string[]): Promise<Item[]>;
   
   // Advanced search
-  search(criteria: ItemSearchCriteria, limit?: number, offset?: number): Promise<ItemSearchResult>;
+  // A cursor from a previous page takes precedence over the offset
+  search(criteria: ItemSearchCriteria, limit?: number, offset?: number, cursor?: string): Promise<ItemSearchResult>;
+  getSearchFacets(criteria: ItemSearchCriteria): Promise<ItemSearchFacets>;
   findSimilarItems(item: Item, limit?: number): Promise<Item[]>;
   findAvailableItems(): Promise<Item[]>;
   findAvailableItemsNearLocation(location: Location, radiusKm: number): Promise<Item[]>;
@@ -64,5 +100,12 @@ export interface IItemRepository {
   // Time-based queries
   findRecentItems(daysBack: number): Promise<Item[]>;
   findItemsCreatedBetween(startDate: Date, endDate: Date): Promise<Item[]>;
+  // Available items untouched for daysOld days whose owner has not been reminded within that window
   findStaleItems(daysOld: number): Promise<Item[]>;
+  // Available items expiring within the next days whose owner has not been sent a renewal reminder yet
+  findItemsExpiringWithin(days: number): Promise<Item[]>;
+  // Available items past their expiry date, other than lots with exchanges in progress
+  findLapsedItems(): Promise<Item[]>;
+  // URLs of every image stored for any item, for finding files no item uses
+  findAllImageUrls(): Promise<string[]>;
 }
\ No newline at end of file
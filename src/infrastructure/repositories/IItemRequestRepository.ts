@@ -0,0 +1,22 @@
+import { ItemRequest } from '../../domain/exchange/ItemRequest';
+import { ItemRequestId } from '../../domain/exchange/value-objects/ItemRequestId';
+import { ItemRequestStatusValue } from '../../domain/exchange/value-objects/ItemRequestStatus';
+import { ItemId } from '../../domain/item/value-objects/ItemId';
+import { UserId } from '../../domain/user/value-objects/UserId';
+
+export interface IItemRequestRepository {
+  // Basic CRUD operations
+  save(request: ItemRequest): Promise<void>;
+  findById(id: ItemRequestId): Promise<ItemRequest | null>;
+
+  // Domain-specific queries
+  findByItemId(itemId: ItemId, status?: ItemRequestStatusValue): Promise<ItemRequest[]>;
+  findByRequesterId(requesterId: UserId, status?: ItemRequestStatusValue): Promise<ItemRequest[]>;
+  findPendingRequest(itemId: ItemId, requesterId: UserId): Promise<ItemRequest | null>;
+
+  // Bulk operations
+  saveMany(requests: ItemRequest[]): Promise<void>;
+
+  // Statistics and aggregations
+  countPendingByItemId(itemId: ItemId): Promise<number>;
+}
@@ -0,0 +1,27 @@
+import { ItemId } from '../../domain/item/value-objects/ItemId';
+import { ItemFieldChange } from '../../domain/item/value-objects/ItemRevision';
+
+export interface ItemRevisionEntry {
+  id: string;
+  itemId: string;
+  version: number;
+  changedBy: string;
+  changes: ItemFieldChange[];
+  createdAt: Date;
+}
+
+export interface ItemRevisionSearchResult {
+  revisions: ItemRevisionEntry[];
+  totalCount: number;
+  hasMore: boolean;
+  nextCursor?: string; // Pass back to get the revisions after this page
+}
+
+/**
+ * Read access to item edit history. Revisions are written by the item
+ * repository when an item with pending revisions is saved.
+ */
+export interface IItemRevisionRepository {
+  // Newest first; a cursor from a previous page takes precedence over the offset
+  findByItemId(itemId: ItemId, limit?: number, offset?: number, cursor?: string): Promise<ItemRevisionSearchResult>;
+}
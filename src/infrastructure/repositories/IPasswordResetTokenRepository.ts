@@ -0,0 +1,11 @@
+import { UserId } from '../../domain/user/value-objects/UserId';
+import { PasswordResetToken } from '../../domain/user/value-objects/PasswordResetToken';
+
+export interface IPasswordResetTokenRepository {
+  // Stores the token and revokes any earlier ones the user hasn't used
+  issue(token: PasswordResetToken): Promise<void>;
+  findByTokenHash(tokenHash: string): Promise<PasswordResetToken | null>;
+  // False if the token was used or revoked in the meantime
+  markUsed(token: PasswordResetToken): Promise<boolean>;
+  findLatestByUserId(userId: UserId): Promise<PasswordResetToken | null>;
+}
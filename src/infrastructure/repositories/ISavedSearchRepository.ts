@@ -0,0 +1,23 @@
+import { SavedSearch } from '../../domain/user/SavedSearch';
+import { SavedSearchId } from '../../domain/user/value-objects/SavedSearchId';
+import { UserId } from '../../domain/user/value-objects/UserId';
+import { Item } from '../../domain/item/Item';
+import { ItemId } from '../../domain/item/value-objects/ItemId';
+
+export interface ISavedSearchRepository {
+  // Basic CRUD operations
+  save(savedSearch: SavedSearch): Promise<void>;
+  findById(id: SavedSearchId): Promise<SavedSearch | null>;
+  delete(id: SavedSearchId): Promise<void>;
+
+  // Domain-specific queries
+  findByUserId(userId: UserId): Promise<SavedSearch[]>;
+  countByUserId(userId: UserId): Promise<number>;
+
+  // Alerts
+  findAlertCandidatesForItem(item: Item): Promise<SavedSearch[]>; // Alerts on, not the owner's, item within range
+  addMatch(id: SavedSearchId, itemId: ItemId): Promise<boolean>; // False if the item was already matched
+  findDueForAlert(digestCutoff: Date, limit?: number): Promise<SavedSearch[]>; // With pending matches
+  findPendingMatchItemIds(id: SavedSearchId): Promise<ItemId[]>;
+  markMatchesAlerted(id: SavedSearchId, itemIds: ItemId[]): Promise<void>;
+}
@@ -2,11 +2,33 @@ import { User, UserData } from '../../domain/user/User';
 import { UserId } from '../../domain/user/value-objects/UserId';
 import { Email } from '../../domain/user/value-objects/Email';
 import { Location } from '../../domain/user/value-objects/Location';
+import { AccountStatusChange, AccountStatusValue } from '../../domain/user/value-objects/AccountStatus';
+
+export interface UserSearchResult {
+  users: User[];
+  totalCount: number;
+  hasMore: boolean;
+  nextCursor?: string; // Pass back to get the users after this page
+}
+
+export interface UserListFilter {
+  search?: string; // Matches display name or email
+  status?: AccountStatusValue; // As it applies now, so lapsed suspensions count as active
+}
+
+export interface LeaderboardPage {
+  users: User[]; // Most eco-points first
+  firstRank: number; // Rank of the first user on this page
+  hasMore: boolean;
+  nextCursor?: string;
+}
 
 export interface IUserRepository {
   // Basic CRUD operations
   save(user: User, passwordHash?: string): Promise<void>;
   findById(id: UserId): Promise<User | null>;
+  // Locks the row until the surrounding unit of work ends, for checks against the user's ledger
+  findByIdForUpdate(id: UserId): Promise<User | null>;
   findByEmail(email: Email): Promise<User | null>;
   getPasswordHashByEmail(email: Email): Promise<string | null>;
   findAll(): Promise<User[]>;
@@ -16,6 +38,8 @@ export interface IUserRepository {
   findByLocation(location: Location, radiusKm: number): Promise<User[]>;
   findVerifiedUsers(): Promise<User[]>;
   findTopRatedUsers(limit: number): Promise<User[]>;
+  // A cursor from a previous page takes precedence over the offset
+  findLeaderboard(limit?: number, offset?: number, cursor?: string): Promise<LeaderboardPage>;
   findByEcoPointsRange(minPoints: number, maxPoints: number): Promise<User[]>;
   findRecentlyActive(daysBack: number): Promise<User[]>;
   
@@ -30,6 +54,10 @@ export interface IUserRepository {
   getTotalEcoPoints(): Promise<number>;
   
   // Search operations
-  searchByDisplayName(searchTerm: string, limit?: number): Promise<User[]>;
+  searchByDisplayName(searchTerm: string, limit?: number, offset?: number, cursor?: string): Promise<UserSearchResult>;
+  // Newest accounts first, for admins
+  listUsers(filter: UserListFilter, limit?: number, offset?: number): Promise<UserSearchResult>;
+  // Every suspension, ban and reinstatement, newest first
+  findStatusHistory(userId: UserId): Promise<AccountStatusChange[]>;
   findUsersWithMinimumRating(minRating: number): Promise<User[]>;
 }
@@ -0,0 +1,13 @@
+import { UserId } from '../../domain/user/value-objects/UserId';
+import { UserRole } from '../../domain/user/value-objects/UserRole';
+
+export interface IUserRoleRepository {
+  findByUserId(userId: UserId): Promise<UserRole[]>;
+  // Users without roles are left out of the map
+  findByUserIds(userIds: UserId[]): Promise<Map<string, UserRole[]>>;
+  // Granting a role the user already has is a no-op
+  grant(userId: UserId, role: UserRole, grantedBy?: UserId): Promise<void>;
+  // False if the user didn't have the role
+  revoke(userId: UserId, role: UserRole): Promise<boolean>;
+  countUsersWithRole(role: UserRole): Promise<number>;
+}
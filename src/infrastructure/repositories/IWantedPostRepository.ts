@@ -0,0 +1,34 @@
+import { WantedPost, WantedPostStatus } from '../../domain/wanted/WantedPost';
+import { WantedPostId } from '../../domain/wanted/value-objects/WantedPostId';
+import { UserId } from '../../domain/user/value-objects/UserId';
+import { Location } from '../../domain/user/value-objects/Location';
+import { ExchangeId } from '../../domain/exchange/value-objects/ExchangeId';
+
+export interface WantedPostSearchCriteria {
+  category?: string;
+  tags?: string[]; // Matches posts with any of them
+  status?: WantedPostStatus;
+  userId?: UserId;
+  reachableFrom?: Location; // Only posts whose radius covers this location
+}
+
+export interface WantedPostSearchResult {
+  wantedPosts: WantedPost[];
+  totalCount: number;
+  hasMore: boolean;
+  nextCursor?: string; // Pass back to get the posts after this page
+}
+
+export interface IWantedPostRepository {
+  // Basic CRUD operations
+  save(wantedPost: WantedPost): Promise<void>;
+  findById(id: WantedPostId): Promise<WantedPost | null>;
+
+  // Domain-specific queries
+  findByUserId(userId: UserId): Promise<WantedPost[]>;
+  countOpenByUserId(userId: UserId): Promise<number>;
+  findByResponseExchangeId(exchangeId: ExchangeId): Promise<WantedPost | null>;
+
+  // Newest first; a cursor from a previous page takes precedence over the offset
+  search(criteria: WantedPostSearchCriteria, limit?: number, offset?: number, cursor?: string): Promise<WantedPostSearchResult>;
+}
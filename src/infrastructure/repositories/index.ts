@@ -4,6 +4,18 @@ export * from './IItemRepository';
 export * from './IExchangeRepository';
 export * from './IBadgeRepository';
 export * from './IAchievementRepository';
+export * from './IItemRequestRepository';
+export * from './IExchangeMessageRepository';
+export * from './IExchangeDisputeRepository';
+export * from './ISavedSearchRepository';
+export * from './IWantedPostRepository';
+export * from './IEcoPointsLedgerRepository';
+export * from './IItemRevisionRepository';
+export * from './IEmailVerificationTokenRepository';
+export * from './IAuthTokenRepository';
+export * from './IPasswordResetTokenRepository';
+export * from './IUserRoleRepository';
+export * from './IDomainEventOutboxRepository';
 
 // PostgreSQL implementations
 export * from './postgresql/PostgreSQLUserRepository';
@@ -11,3 +23,15 @@ export * from './postgresql/PostgreSQLItemRepository';
 export * from './postgresql/PostgreSQLExchangeRepository';
 export * from './postgresql/PostgreSQLBadgeRepository';
 export * from './postgresql/PostgreSQLAchievementRepository';
+export * from './postgresql/PostgreSQLItemRequestRepository';
+export * from './postgresql/PostgreSQLExchangeMessageRepository';
+export * from './postgresql/PostgreSQLExchangeDisputeRepository';
+export * from './postgresql/PostgreSQLSavedSearchRepository';
+export * from './postgresql/PostgreSQLWantedPostRepository';
+export * from './postgresql/PostgreSQLEcoPointsLedgerRepository';
+export * from './postgresql/PostgreSQLItemRevisionRepository';
+export * from './postgresql/PostgreSQLEmailVerificationTokenRepository';
+export * from './postgresql/PostgreSQLAuthTokenRepository';
+export * from './postgresql/PostgreSQLPasswordResetTokenRepository';
+export * from './postgresql/PostgreSQLUserRoleRepository';
+export * from './postgresql/PostgreSQLDomainEventOutboxRepository';
@@ -1,9 +1,15 @@
-import { Pool } from 'pg';
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
 import { Achievement, AchievementData } from '../../../domain/points/Achievement';
 import { IAchievementRepository } from '../IAchievementRepository';
+import { DatabaseConnection } from '../../database/DatabaseConnection';
 
+@injectable()
 export class PostgreSQLAchievementRepository implements IAchievementRepository {
-  constructor(private readonly pool: Pool) {}
+  constructor(
+    @inject(TYPES.DatabaseConnection)
+    private db: DatabaseConnection
+  ) {}
 
   async save(achievement: Achievement): Promise<void> {
     const data = achievement.toData();
@@ -19,7 +25,7 @@ export class PostgreSQLAchievementRepository implements IAchievementRepository {
         updated_at = CURRENT_TIMESTAMP
     `;
 
-    await this.pool.query(query, [
+    await this.db.query(query, [
       data.id,
       data.userId,
       data.badgeId,
@@ -30,7 +36,7 @@ export class PostgreSQLAchievementRepository implements IAchievementRepository {
 
   async findById(id: string): Promise<Achievement | null> {
     const query = 'SELECT * FROM achievements WHERE id = $1';
-    const result = await this.pool.query(query, [id]);
+    const result = await this.db.query(query, [id]);
 
     if (result.rows.length === 0) {
       return null;
@@ -41,14 +47,14 @@ export class PostgreSQLAchievementRepository implements IAchievementRepository {
 
   async findByUserId(userId: string): Promise<Achievement[]> {
     const query = 'SELECT * FROM achievements WHERE user_id = $1 ORDER BY unlocked_at DESC';
-    const result = await this.pool.query(query, [userId]);
+    const result = await this.db.query(query, [userId]);
 
     return result.rows.map(row => this.mapRowToAchievement(row));
   }
 
   async findByUserIdAndBadgeId(userId: string, badgeId: string): Promise<Achievement | null> {
     const query = 'SELECT * FROM achievements WHERE user_id = $1 AND badge_id = $2';
-    const result = await this.pool.query(query, [userId, badgeId]);
+    const result = await this.db.query(query, [userId, badgeId]);
 
     if (result.rows.length === 0) {
       return null;
@@ -63,14 +69,14 @@ export class PostgreSQLAchievementRepository implements IAchievementRepository {
       WHERE user_id = $1 AND progress >= 100 
       ORDER BY unlocked_at DESC
     `;
-    const result = await this.pool.query(query, [userId]);
+    const result = await this.db.query(query, [userId]);
 
     return result.rows.map(row => this.mapRowToAchievement(row));
   }
 
   async delete(id: string): Promise<void> {
     const query = 'DELETE FROM achievements WHERE id = $1';
-    await this.pool.query(query, [id]);
+    await this.db.query(query, [id]);
   }
 
   private mapRowToAchievement(row: any): Achievement {
@@ -0,0 +1,116 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { IAuthTokenRepository, RefreshTokenRecord } from '../IAuthTokenRepository';
+import { DatabaseConnection } from '../../database/DatabaseConnection';
+
+interface RefreshTokenRow {
+  id: string;
+  family_id: string;
+  user_id: string;
+  expires_at: Date;
+  used_at: Date | null;
+  family_revoked_at: Date | null;
+}
+
+@injectable()
+export class PostgreSQLAuthTokenRepository implements IAuthTokenRepository {
+  constructor(
+    @inject(TYPES.DatabaseConnection)
+    private db: DatabaseConnection
+  ) {}
+
+  async saveRefreshToken(token: Omit<RefreshTokenRecord, 'usedAt' | 'familyRevokedAt'>): Promise<void> {
+    await this.db.transaction(async (trx) => {
+      await trx.query(
+        `INSERT INTO auth_token_families (id, user_id) VALUES ($1, $2)
+         ON CONFLICT (id) DO NOTHING`,
+        [token.familyId, token.userId]
+      );
+
+      await trx.query(
+        `INSERT INTO refresh_tokens (id, family_id, expires_at) VALUES ($1, $2, $3)`,
+        [token.id, token.familyId, token.expiresAt]
+      );
+    });
+  }
+
+  async findRefreshToken(id: string): Promise<RefreshTokenRecord | null> {
+    const result = await this.db.query<RefreshTokenRow>(
+      `SELECT rt.id, rt.family_id, f.user_id, rt.expires_at, rt.used_at, f.revoked_at AS family_revoked_at
+       FROM refresh_tokens rt
+       JOIN auth_token_families f ON f.id = rt.family_id
+       WHERE rt.id = $1`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return {
+      id: row.id,
+      familyId: row.family_id,
+      userId: row.user_id,
+      expiresAt: row.expires_at,
+      usedAt: row.used_at ?? undefined,
+      familyRevokedAt: row.family_revoked_at ?? undefined
+    };
+  }
+
+  async markRefreshTokenUsed(id: string): Promise<boolean> {
+    // Conditional, so two requests racing with the same token can't both rotate it
+    const result = await this.db.query(
+      'UPDATE refresh_tokens SET used_at = NOW() WHERE id = $1 AND used_at IS NULL',
+      [id]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async revokeFamily(familyId: string): Promise<void> {
+    await this.db.query(
+      'UPDATE auth_token_families SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL',
+      [familyId]
+    );
+  }
+
+  async revokeAllFamilies(userId: string): Promise<void> {
+    await this.db.query(
+      'UPDATE auth_token_families SET revoked_at = NOW() WHERE user_id = $1 AND revoked_at IS NULL',
+      [userId]
+    );
+  }
+
+  async denyAccessToken(jti: string, userId: string, expiresAt: Date): Promise<void> {
+    await this.db.query(
+      `INSERT INTO revoked_access_tokens (jti, user_id, expires_at) VALUES ($1, $2, $3)
+       ON CONFLICT (jti) DO NOTHING`,
+      [jti, userId, expiresAt]
+    );
+  }
+
+  async isAccessTokenRevoked(jti: string, familyId: string): Promise<boolean> {
+    const result = await this.db.query<{ revoked: boolean }>(
+      `SELECT EXISTS (SELECT 1 FROM revoked_access_tokens WHERE jti = $1)
+           OR EXISTS (SELECT 1 FROM auth_token_families WHERE id = $2 AND revoked_at IS NOT NULL)
+           AS revoked`,
+      [jti, familyId]
+    );
+
+    return result.rows[0].revoked;
+  }
+
+  async deleteExpired(): Promise<number> {
+    return this.db.transaction(async (trx) => {
+      const deniedResult = await trx.query('DELETE FROM revoked_access_tokens WHERE expires_at <= NOW()');
+      const tokensResult = await trx.query('DELETE FROM refresh_tokens WHERE expires_at <= NOW()');
+      const familiesResult = await trx.query(
+        `DELETE FROM auth_token_families f
+         WHERE NOT EXISTS (SELECT 1 FROM refresh_tokens rt WHERE rt.family_id = f.id)`
+      );
+
+      return (deniedResult.rowCount ?? 0) + (tokensResult.rowCount ?? 0) + (familiesResult.rowCount ?? 0);
+    });
+  }
+}
@@ -1,9 +1,15 @@
-import { Pool } from 'pg';
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
 import { Badge, BadgeData, BadgeCategory } from '../../../domain/points/Badge';
 import { IBadgeRepository } from '../IBadgeRepository';
+import { DatabaseConnection } from '../../database/DatabaseConnection';
 
+@injectable()
 export class PostgreSQLBadgeRepository implements IBadgeRepository {
-  constructor(private readonly pool: Pool) {}
+  constructor(
+    @inject(TYPES.DatabaseConnection)
+    private db: DatabaseConnection
+  ) {}
 
   async save(badge: Badge): Promise<void> {
     const data = badge.toData();
@@ -28,7 +34,7 @@ export class PostgreSQLBadgeRepository implements IBadgeRepository {
         updated_at = CURRENT_TIMESTAMP
     `;
 
-    await this.pool.query(query, [
+    await this.db.query(query, [
       data.id,
       data.name,
       data.description,
@@ -43,7 +49,7 @@ export class PostgreSQLBadgeRepository implements IBadgeRepository {
 
   async findById(id: string): Promise<Badge | null> {
     const query = 'SELECT * FROM badges WHERE id = $1';
-    const result = await this.pool.query(query, [id]);
+    const result = await this.db.query(query, [id]);
 
     if (result.rows.length === 0) {
       return null;
@@ -54,21 +60,21 @@ export class PostgreSQLBadgeRepository implements IBadgeRepository {
 
   async findAll(): Promise<Badge[]> {
     const query = 'SELECT * FROM badges ORDER BY requirement_threshold ASC';
-    const result = await this.pool.query(query);
+    const result = await this.db.query(query);
 
     return result.rows.map(row => this.mapRowToBadge(row));
   }
 
   async findByCategory(category: BadgeCategory): Promise<Badge[]> {
     const query = 'SELECT * FROM badges WHERE category = $1 ORDER BY requirement_threshold ASC';
-    const result = await this.pool.query(query, [category]);
+    const result = await this.db.query(query, [category]);
 
     return result.rows.map(row => this.mapRowToBadge(row));
   }
 
   async delete(id: string): Promise<void> {
     const query = 'DELETE FROM badges WHERE id = $1';
-    await this.pool.query(query, [id]);
+    await this.db.query(query, [id]);
   }
 
   private mapRowToBadge(row: any): Badge {
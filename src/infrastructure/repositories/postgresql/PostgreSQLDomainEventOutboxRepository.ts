@@ -0,0 +1,123 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { IDomainEventOutboxRepository, OutboxEntry, OutboxStatus } from '../IDomainEventOutboxRepository';
+import { DomainEvent } from '../../../domain/events/DomainEvent';
+import { DatabaseConnection } from '../../database/DatabaseConnection';
+
+interface OutboxRow {
+  id: string;
+  event_type: string;
+  aggregate_type: string;
+  aggregate_id: string;
+  payload: Record<string, unknown>;
+  occurred_at: Date;
+  status: OutboxStatus;
+  attempts: number;
+  delivered_to: string[];
+  next_attempt_at: Date;
+  last_error?: string;
+  processed_at?: Date;
+  created_at: Date;
+}
+
+@injectable()
+export class PostgreSQLDomainEventOutboxRepository implements IDomainEventOutboxRepository {
+  constructor(
+    @inject(TYPES.DatabaseConnection)
+    private db: DatabaseConnection
+  ) {}
+
+  async append(events: readonly DomainEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    const query = `
+      INSERT INTO domain_event_outbox (id, event_type, aggregate_type, aggregate_id, payload, occurred_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (id) DO NOTHING
+    `;
+
+    for (const event of events) {
+      await this.db.query(query, [
+        event.eventId,
+        event.eventType,
+        event.aggregateType,
+        event.aggregateId,
+        JSON.stringify(event.payload),
+        event.occurredAt
+      ]);
+    }
+  }
+
+  async claimDue(limit: number, leaseMs: number): Promise<OutboxEntry[]> {
+    // Pushing next_attempt_at forward leases the rows, so another dispatcher
+    // polling the same table skips them until the lease runs out
+    const query = `
+      UPDATE domain_event_outbox
+      SET next_attempt_at = NOW() + ($2 * INTERVAL '1 millisecond')
+      WHERE id IN (
+        SELECT id FROM domain_event_outbox
+        WHERE status = 'pending' AND next_attempt_at <= NOW()
+        ORDER BY occurred_at
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+
+    const result = await this.db.query<OutboxRow>(query, [limit, leaseMs]);
+    return result.rows
+      .map(row => this.mapRowToEntry(row))
+      .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+  }
+
+  async markDelivered(id: string, subscriber: string): Promise<void> {
+    const query = `
+      UPDATE domain_event_outbox
+      SET delivered_to = array_append(delivered_to, $2)
+      WHERE id = $1 AND NOT ($2 = ANY(delivered_to))
+    `;
+    await this.db.query(query, [id, subscriber]);
+  }
+
+  async markProcessed(id: string): Promise<void> {
+    const query = `
+      UPDATE domain_event_outbox
+      SET status = 'processed', processed_at = NOW(), last_error = NULL
+      WHERE id = $1
+    `;
+    await this.db.query(query, [id]);
+  }
+
+  async scheduleRetry(id: string, attempts: number, nextAttemptAt: Date, error: string): Promise<void> {
+    const query = `
+      UPDATE domain_event_outbox
+      SET attempts = $2, next_attempt_at = $3, last_error = $4
+      WHERE id = $1
+    `;
+    await this.db.query(query, [id, attempts, nextAttemptAt, error]);
+  }
+
+  async markFailed(id: string, attempts: number, error: string): Promise<void> {
+    const query = `
+      UPDATE domain_event_outbox
+      SET status = 'failed', attempts = $2, last_error = $3
+      WHERE id = $1
+    `;
+    await this.db.query(query, [id, attempts, error]);
+  }
+
+  private mapRowToEntry(row: OutboxRow): OutboxEntry {
+    return {
+      eventId: row.id,
+      eventType: row.event_type,
+      aggregateType: row.aggregate_type,
+      aggregateId: row.aggregate_id,
+      payload: row.payload || {},
+      occurredAt: row.occurred_at,
+      status: row.status,
+      attempts: row.attempts,
+      deliveredTo: row.delivered_to || [],
+      lastError: row.last_error
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import {
+  IEcoPointsLedgerRepository,
+  EcoPointsLedgerEntry,
+  EcoPointsLedgerSearchResult
+} from '../IEcoPointsLedgerRepository';
+import { UserId } from '../../../domain/user/value-objects/UserId';
+import { DatabaseConnection } from '../../database/DatabaseConnection';
+import { KeysetCursor } from './KeysetCursor';
+
+interface EcoPointsLedgerRow {
+  id: string;
+  user_id: string;
+  points: number;
+  reason: string;
+  idempotency_key: string;
+  created_at: Date;
+}
+
+@injectable()
+export class PostgreSQLEcoPointsLedgerRepository implements IEcoPointsLedgerRepository {
+  private static readonly CURSOR_ORDERING = 'ledger:created_at';
+
+  constructor(
+    @inject(TYPES.DatabaseConnection)
+    private db: DatabaseConnection
+  ) {}
+
+  async findByUserId(
+    userId: UserId,
+    limit: number = 20,
+    offset: number = 0,
+    cursor?: string
+  ): Promise<EcoPointsLedgerSearchResult> {
+    const countQuery = 'SELECT COUNT(*) as count FROM eco_points_ledger WHERE user_id = $1';
+    const countResult = await this.db.query<{ count: string }>(countQuery, [userId.value]);
+    const totalCount = parseInt(countResult.rows[0].count, 10);
+
+    const params: unknown[] = [userId.value];
+    let keysetCondition = '';
+    if (cursor) {
+      keysetCondition = `AND ${KeysetCursor.after(['created_at', 'id'], 'DESC', 2)}`;
+      params.push(...KeysetCursor.decode(cursor, PostgreSQLEcoPointsLedgerRepository.CURSOR_ORDERING, ['timestamp', 'uuid']));
+    }
+
+    // One extra row tells whether there is a next page
+    params.push(limit + 1, cursor ? 0 : offset);
+    const dataQuery = `
+      SELECT *, created_at::text AS cursor_created_at FROM eco_points_ledger
+      WHERE user_id = $1 ${keysetCondition}
+      ORDER BY created_at DESC, id DESC
+      LIMIT $${params.length - 1} OFFSET $${params.length}
+    `;
+    const result = await this.db.query<EcoPointsLedgerRow & { cursor_created_at: string }>(dataQuery, params);
+    const page = KeysetCursor.page(
+      result.rows,
+      limit,
+      PostgreSQLEcoPointsLedgerRepository.CURSOR_ORDERING,
+      row => [row.cursor_created_at, row.id]
+    );
+
+    return {
+      entries: page.rows.map(row => this.mapRowToEntry(row)),
+      totalCount,
+      hasMore: page.hasMore,
+      nextCursor: page.nextCursor
+    };
+  }
+
+  async findByIdempotencyKey(idempotencyKey: string): Promise<EcoPointsLedgerEntry | null> {
+    const query = 'SELECT * FROM eco_points_ledger WHERE idempotency_key = $1';
+    const result = await this.db.query<EcoPointsLedgerRow>(query, [idempotencyKey]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToEntry(result.rows[0]);
+  }
+
+  async getBalance(userId: UserId): Promise<number> {
+    const query = 'SELECT COALESCE(SUM(points), 0) as total FROM eco_points_ledger WHERE user_id = $1';
+    const result = await this.db.query<{ total: string }>(query, [userId.value]);
+    return parseInt(result.rows[0].total, 10) || 0;
+  }
+
+  async getPointsAwardedSince(userId: UserId, since: Date): Promise<number> {
+    const query = `
+      SELECT COALESCE(SUM(points), 0) as total FROM eco_points_ledger
+      WHERE user_id = $1 AND points > 0 AND created_at >= $2
+    `;
+    const result = await this.db.query<{ total: string }>(query, [userId.value, since]);
+    return parseInt(result.rows[0].total, 10) || 0;
+  }
+
+  private mapRowToEntry(row: EcoPointsLedgerRow): EcoPointsLedgerEntry {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      points: row.points,
+      reason: row.reason,
+      idempotencyKey: row.idempotency_key,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { IEmailVerificationTokenRepository } from '../IEmailVerificationTokenRepository';
+import { UserId } from '../../../domain/user/value-objects/UserId';
+import { EmailVerificationToken } from '../../../domain/user/value-objects/EmailVerificationToken';
+import { DatabaseConnection } from '../../database/DatabaseConnection';
+
+interface EmailVerificationTokenRow {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  expires_at: Date;
+  used_at: Date | null;
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
+@injectable()
+export class PostgreSQLEmailVerificationTokenRepository implements IEmailVerificationTokenRepository {
+  constructor(
+    @inject(TYPES.DatabaseConnection)
+    private db: DatabaseConnection
+  ) {}
+
+  async issue(token: EmailVerificationToken): Promise<void> {
+    const data = token.toData();
+
+    await this.db.transaction(async (trx) => {
+      await trx.query(
+        `UPDATE email_verification_tokens SET revoked_at = NOW()
+         WHERE user_id = $1 AND used_at IS NULL AND revoked_at IS NULL`,
+        [data.userId]
+      );
+
+      await trx.query(
+        `INSERT INTO email_verification_tokens (id, user_id, token_hash, expires_at, created_at)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [data.id, data.userId, data.tokenHash, data.expiresAt, data.createdAt]
+      );
+    });
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<EmailVerificationToken | null> {
+    const result = await this.db.query<EmailVerificationTokenRow>(
+      'SELECT * FROM email_verification_tokens WHERE token_hash = $1',
+      [tokenHash]
+    );
+
+    return result.rows.length > 0 ? this.mapRowToToken(result.rows[0]) : null;
+  }
+
+  async markUsed(token: EmailVerificationToken): Promise<boolean> {
+    // Conditional on the token still being open, so two requests can't both use it
+    const result = await this.db.query(
+      `UPDATE email_verification_tokens SET used_at = NOW()
+       WHERE id = $1 AND used_at IS NULL AND revoked_at IS NULL`,
+      [token.id]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async findIssuedSince(userId: UserId, since: Date): Promise<EmailVerificationToken[]> {
+    const result = await this.db.query<EmailVerificationTokenRow>(
+      `SELECT * FROM email_verification_tokens
+       WHERE user_id = $1 AND created_at >= $2
+       ORDER BY created_at DESC`,
+      [userId.value, since]
+    );
+
+    return result.rows.map(row => this.mapRowToToken(row));
+  }
+
+  private mapRowToToken(row: EmailVerificationTokenRow): EmailVerificationToken {
+    return new EmailVerificationToken({
+      id: row.id,
+      userId: row.user_id,
+      tokenHash: row.token_hash,
+      expiresAt: row.expires_at,
+      usedAt: row.used_at ?? undefined,
+      revokedAt: row.revoked_at ?? undefined,
+      createdAt: row.created_at
+    });
+  }
+}
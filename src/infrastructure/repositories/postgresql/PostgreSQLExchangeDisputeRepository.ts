@@ -0,0 +1,175 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { IExchangeDisputeRepository, ExchangeDisputeSearchResult } from '../IExchangeDisputeRepository';
+import { IDomainEventOutboxRepository } from '../IDomainEventOutboxRepository';
+import {
+  ExchangeDispute,
+  ExchangeDisputeData,
+  DisputeOutcome
+} from '../../../domain/exchange/ExchangeDispute';
+import { ExchangeDisputeId } from '../../../domain/exchange/value-objects/ExchangeDisputeId';
+import { DisputeReasonValue } from '../../../domain/exchange/value-objects/DisputeReason';
+import { ExchangeId } from '../../../domain/exchange/value-objects/ExchangeId';
+import { DatabaseConnection } from '../../database/DatabaseConnection';
+
+interface ExchangeDisputeRow {
+  id: string;
+  exchange_id: string;
+  reported_by: string;
+  reported_user_id: string;
+  reason: DisputeReasonValue;
+  description: string;
+  evidence: Array<{ url: string; filename: string; contentType: string; uploadedAt: string }>;
+  outcome?: DisputeOutcome | null;
+  resolution_note?: string | null;
+  resolved_by?: string | null;
+  resolved_at?: Date | null;
+  points_reversed: boolean;
+  ratings_cleared: boolean;
+  item_restored: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+@injectable()
+export class PostgreSQLExchangeDisputeRepository implements IExchangeDisputeRepository {
+  constructor(
+    @inject(TYPES.DatabaseConnection)
+    private db: DatabaseConnection,
+    @inject(TYPES.IDomainEventOutboxRepository)
+    private outboxRepository: IDomainEventOutboxRepository
+  ) {}
+
+  async save(dispute: ExchangeDispute): Promise<void> {
+    const data = dispute.toData();
+
+    const query = `
+      INSERT INTO exchange_disputes (
+        id, exchange_id, reported_by, reported_user_id, reason, description, evidence,
+        outcome, resolution_note, resolved_by, resolved_at,
+        points_reversed, ratings_cleared, item_restored, created_at, updated_at
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        evidence = EXCLUDED.evidence,
+        outcome = EXCLUDED.outcome,
+        resolution_note = EXCLUDED.resolution_note,
+        resolved_by = EXCLUDED.resolved_by,
+        resolved_at = EXCLUDED.resolved_at,
+        points_reversed = EXCLUDED.points_reversed,
+        ratings_cleared = EXCLUDED.ratings_cleared,
+        item_restored = EXCLUDED.item_restored,
+        updated_at = EXCLUDED.updated_at
+    `;
+
+    const params = [
+      data.id,
+      data.exchangeId,
+      data.reportedBy,
+      data.reportedUserId,
+      data.reason,
+      data.description,
+      JSON.stringify(data.evidence),
+      data.resolution?.outcome || null,
+      data.resolution?.note || null,
+      data.resolution?.resolvedBy || null,
+      data.resolution?.resolvedAt || null,
+      data.resolution?.actions.pointsReversed ?? false,
+      data.resolution?.actions.ratingsCleared ?? false,
+      data.resolution?.actions.itemRestored ?? false,
+      data.createdAt,
+      data.updatedAt
+    ];
+
+    await this.db.transaction(async (trx) => {
+      await trx.query(query, params);
+      await this.outboxRepository.append(dispute.domainEvents);
+    });
+    dispute.clearDomainEvents();
+  }
+
+  async findById(id: ExchangeDisputeId): Promise<ExchangeDispute | null> {
+    const query = 'SELECT * FROM exchange_disputes WHERE id = $1';
+    const result = await this.db.query<ExchangeDisputeRow>(query, [id.value]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToDispute(result.rows[0]);
+  }
+
+  async findOpenByExchangeId(exchangeId: ExchangeId): Promise<ExchangeDispute | null> {
+    const query = 'SELECT * FROM exchange_disputes WHERE exchange_id = $1 AND outcome IS NULL LIMIT 1';
+    const result = await this.db.query<ExchangeDisputeRow>(query, [exchangeId.value]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToDispute(result.rows[0]);
+  }
+
+  async findByExchangeId(exchangeId: ExchangeId): Promise<ExchangeDispute[]> {
+    const query = 'SELECT * FROM exchange_disputes WHERE exchange_id = $1 ORDER BY created_at DESC';
+    const result = await this.db.query<ExchangeDisputeRow>(query, [exchangeId.value]);
+    return result.rows.map(row => this.mapRowToDispute(row));
+  }
+
+  async findByStatus(open: boolean, limit: number = 20, offset: number = 0): Promise<ExchangeDisputeSearchResult> {
+    const condition = open ? 'outcome IS NULL' : 'outcome IS NOT NULL';
+
+    const countQuery = `SELECT COUNT(*) as count FROM exchange_disputes WHERE ${condition}`;
+    const countResult = await this.db.query<{ count: string }>(countQuery);
+    const totalCount = parseInt(countResult.rows[0].count, 10);
+
+    // Oldest open reports first so nothing waits forever; newest resolutions first
+    const dataQuery = `
+      SELECT * FROM exchange_disputes
+      WHERE ${condition}
+      ORDER BY created_at ${open ? 'ASC' : 'DESC'}
+      LIMIT $1 OFFSET $2
+    `;
+    const result = await this.db.query<ExchangeDisputeRow>(dataQuery, [limit, offset]);
+    const disputes = result.rows.map(row => this.mapRowToDispute(row));
+
+    return {
+      disputes,
+      totalCount,
+      hasMore: offset + disputes.length < totalCount
+    };
+  }
+
+  private mapRowToDispute(row: ExchangeDisputeRow): ExchangeDispute {
+    const data: ExchangeDisputeData = {
+      id: row.id,
+      exchangeId: row.exchange_id,
+      reportedBy: row.reported_by,
+      reportedUserId: row.reported_user_id,
+      reason: row.reason,
+      description: row.description,
+      evidence: (row.evidence ?? []).map(entry => ({
+        url: entry.url,
+        filename: entry.filename,
+        contentType: entry.contentType,
+        uploadedAt: new Date(entry.uploadedAt)
+      })),
+      resolution: (row.outcome && row.resolved_at) ? {
+        outcome: row.outcome,
+        note: row.resolution_note || '',
+        resolvedBy: row.resolved_by || '',
+        resolvedAt: row.resolved_at,
+        actions: {
+          pointsReversed: row.points_reversed,
+          ratingsCleared: row.ratings_cleared,
+          itemRestored: row.item_restored
+        }
+      } : undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+
+    return ExchangeDispute.fromData(data);
+  }
+}
@@ -0,0 +1,116 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { IExchangeMessageRepository, ExchangeMessageSearchResult } from '../IExchangeMessageRepository';
+import { ExchangeMessage, ExchangeMessageData } from '../../../domain/exchange/ExchangeMessage';
+import { ExchangeId } from '../../../domain/exchange/value-objects/ExchangeId';
+import { UserId } from '../../../domain/user/value-objects/UserId';
+import { DatabaseConnection } from '../../database/DatabaseConnection';
+
+interface ExchangeMessageRow {
+  id: string;
+  exchange_id: string;
+  sender_id: string;
+  body: string;
+  read_at?: Date | null;
+  created_at: Date;
+}
+
+@injectable()
+export class PostgreSQLExchangeMessageRepository implements IExchangeMessageRepository {
+  constructor(
+    @inject(TYPES.DatabaseConnection)
+    private db: DatabaseConnection
+  ) {}
+
+  async save(message: ExchangeMessage): Promise<void> {
+    const data = message.toData();
+
+    const query = `
+      INSERT INTO exchange_messages (id, exchange_id, sender_id, body, read_at, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (id) DO UPDATE SET
+        read_at = EXCLUDED.read_at
+    `;
+
+    await this.db.query(query, [
+      data.id,
+      data.exchangeId,
+      data.senderId,
+      data.body,
+      data.readAt || null,
+      data.createdAt
+    ]);
+  }
+
+  async findByExchangeId(exchangeId: ExchangeId, limit: number = 50, offset: number = 0): Promise<ExchangeMessageSearchResult> {
+    const countQuery = 'SELECT COUNT(*) as count FROM exchange_messages WHERE exchange_id = $1';
+    const countResult = await this.db.query<{ count: string }>(countQuery, [exchangeId.value]);
+    const totalCount = parseInt(countResult.rows[0].count, 10);
+
+    const dataQuery = `
+      SELECT * FROM exchange_messages
+      WHERE exchange_id = $1
+      ORDER BY created_at ASC
+      LIMIT $2 OFFSET $3
+    `;
+    const result = await this.db.query<ExchangeMessageRow>(dataQuery, [exchangeId.value, limit, offset]);
+    const messages = result.rows.map(row => this.mapRowToMessage(row));
+
+    return {
+      messages,
+      totalCount,
+      hasMore: offset + messages.length < totalCount
+    };
+  }
+
+  async markAsRead(exchangeId: ExchangeId, readerId: UserId): Promise<number> {
+    const query = `
+      UPDATE exchange_messages
+      SET read_at = NOW()
+      WHERE exchange_id = $1 AND sender_id != $2 AND read_at IS NULL
+    `;
+    const result = await this.db.query(query, [exchangeId.value, readerId.value]);
+    return result.rowCount || 0;
+  }
+
+  async countUnread(exchangeId: ExchangeId, readerId: UserId): Promise<number> {
+    const query = `
+      SELECT COUNT(*) as count FROM exchange_messages
+      WHERE exchange_id = $1 AND sender_id != $2 AND read_at IS NULL
+    `;
+    const result = await this.db.query<{ count: string }>(query, [exchangeId.value, readerId.value]);
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  async countUnreadByExchange(readerId: UserId): Promise<Record<string, number>> {
+    const query = `
+      SELECT m.exchange_id, COUNT(*) as count
+      FROM exchange_messages m
+      JOIN exchanges e ON e.id = m.exchange_id
+      WHERE (e.giver_id = $1 OR e.receiver_id = $1)
+        AND m.sender_id != $1
+        AND m.read_at IS NULL
+      GROUP BY m.exchange_id
+    `;
+    const result = await this.db.query<{ exchange_id: string; count: string }>(query, [readerId.value]);
+
+    const counts: Record<string, number> = {};
+    for (const row of result.rows) {
+      counts[row.exchange_id] = parseInt(row.count, 10);
+    }
+    return counts;
+  }
+
+  private mapRowToMessage(row: ExchangeMessageRow): ExchangeMessage {
+    const data: ExchangeMessageData = {
+      id: row.id,
+      exchangeId: row.exchange_id,
+      senderId: row.sender_id,
+      body: row.body,
+      readAt: row.read_at || undefined,
+      createdAt: row.created_at
+    };
+
+    return ExchangeMessage.fromData(data);
+  }
+}
@@ -1,10 +1,14 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
 import { IExchangeRepository, ExchangeSearchCriteria, ExchangeSearchResult, ExchangeStatistics } from '../IExchangeRepository';
+import { IDomainEventOutboxRepository } from '../IDomainEventOutboxRepository';
 import { Exchange, ExchangeData } from '../../../domain/exchange/Exchange';
 import { ExchangeId } from '../../../domain/exchange/value-objects/ExchangeId';
 import { UserId } from '../../../domain/user/value-objects/UserId';
 import { ItemId } from '../../../domain/item/value-objects/ItemId';
 import { ExchangeStatusValue } from '../../../domain/exchange/value-objects/ExchangeStatus';
 import { DatabaseConnection } from '../../database/DatabaseConnection';
+import { KeysetCursor } from './KeysetCursor';
 
 interface ExchangeRow {
   id: string;
@@ -12,7 +16,10 @@ interface ExchangeRow {
   giver_id: string;
   receiver_id: string;
   status: ExchangeStatusValue;
+  quantity: number;
   scheduled_pickup?: Date;
+  scheduled_pickup_end?: Date;
+  pickup_slots?: Array<{ id: string; startsAt: string; endsAt: string; proposedBy: string; proposedAt: string }>;
   completed_at?: Date;
   giver_confirmed_at?: Date;
   receiver_confirmed_at?: Date;
@@ -26,29 +33,48 @@ interface ExchangeRow {
   receiver_rating_rated_at?: Date;
   eco_points_awarded: number;
   cancellation_reason?: string;
+  pickup_reminder_sent_at?: Date;
+  handoff_code_seed?: string;
+  handoff_code_expires_at?: Date;
+  handoff_code_failed_attempts: number;
+  status_before_dispute?: ExchangeStatusValue;
   created_at: Date;
   updated_at: Date;
 }
 
+@injectable()
 export class PostgreSQLExchangeRepository implements IExchangeRepository {
-  constructor(private db: DatabaseConnection) {}
+  private static readonly CURSOR_ORDERING = 'exchanges:created_at';
+
+  constructor(
+    @inject(TYPES.DatabaseConnection)
+    private db: DatabaseConnection,
+    @inject(TYPES.IDomainEventOutboxRepository)
+    private outboxRepository: IDomainEventOutboxRepository
+  ) {}
 
   async save(exchange: Exchange): Promise<void> {
     const exchangeData = exchange.toData();
     
+    // Handoff attempts are counted in place (see claimHandoffAttempt),
+    // so saving never lowers them while the code stays the same
     const query = `
       INSERT INTO exchanges (
-        id, item_id, giver_id, receiver_id, status, scheduled_pickup,
+        id, item_id, giver_id, receiver_id, status, quantity, scheduled_pickup, scheduled_pickup_end, pickup_slots,
         completed_at, giver_confirmed_at, receiver_confirmed_at,
         giver_rating_score, giver_rating_review, giver_rating_rated_by, giver_rating_rated_at,
         receiver_rating_score, receiver_rating_review, receiver_rating_rated_by, receiver_rating_rated_at,
-        eco_points_awarded, cancellation_reason, created_at, updated_at
+        eco_points_awarded, cancellation_reason, pickup_reminder_sent_at,
+        handoff_code_seed, handoff_code_expires_at, handoff_code_failed_attempts, status_before_dispute, created_at, updated_at
       ) VALUES (
-        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24,
+        $25, $26, $27, $28, $29
       )
       ON CONFLICT (id) DO UPDATE SET
         status = EXCLUDED.status,
         scheduled_pickup = EXCLUDED.scheduled_pickup,
+        scheduled_pickup_end = EXCLUDED.scheduled_pickup_end,
+        pickup_slots = EXCLUDED.pickup_slots,
         completed_at = EXCLUDED.completed_at,
         giver_confirmed_at = EXCLUDED.giver_confirmed_at,
         receiver_confirmed_at = EXCLUDED.receiver_confirmed_at,
@@ -62,6 +88,15 @@ export class PostgreSQLExchangeRepository implements IExchangeRepository {
         receiver_rating_rated_at = EXCLUDED.receiver_rating_rated_at,
         eco_points_awarded = EXCLUDED.eco_points_awarded,
         cancellation_reason = EXCLUDED.cancellation_reason,
+        pickup_reminder_sent_at = EXCLUDED.pickup_reminder_sent_at,
+        handoff_code_seed = EXCLUDED.handoff_code_seed,
+        handoff_code_expires_at = EXCLUDED.handoff_code_expires_at,
+        handoff_code_failed_attempts = CASE
+          WHEN exchanges.handoff_code_seed = EXCLUDED.handoff_code_seed
+            THEN GREATEST(exchanges.handoff_code_failed_attempts, EXCLUDED.handoff_code_failed_attempts)
+          ELSE EXCLUDED.handoff_code_failed_attempts
+        END,
+        status_before_dispute = EXCLUDED.status_before_dispute,
         updated_at = EXCLUDED.updated_at
     `;
 
@@ -71,7 +106,10 @@ export class PostgreSQLExchangeRepository implements IExchangeRepository {
       exchangeData.giverId,
       exchangeData.receiverId,
       exchangeData.status,
+      exchangeData.quantity ?? 1,
       exchangeData.scheduledPickup || null,
+      exchangeData.scheduledPickupEnd || null,
+      JSON.stringify(exchangeData.pickupSlots ?? []),
       exchangeData.completedAt || null,
       exchangeData.giverConfirmedAt || null,
       exchangeData.receiverConfirmedAt || null,
@@ -85,11 +123,20 @@ export class PostgreSQLExchangeRepository implements IExchangeRepository {
       exchangeData.receiverRating?.ratedAt || null,
       exchangeData.ecoPointsAwarded,
       exchangeData.cancellationReason || null,
+      exchangeData.pickupReminderSentAt || null,
+      exchangeData.handoffCode?.seed || null,
+      exchangeData.handoffCode?.expiresAt || null,
+      exchangeData.handoffCode?.failedAttempts ?? 0,
+      exchangeData.statusBeforeDispute || null,
       exchangeData.createdAt,
       exchangeData.updatedAt
     ];
 
-    await this.db.query(query, params);
+    await this.db.transaction(async (trx) => {
+      await trx.query(query, params);
+      await this.outboxRepository.append(exchange.domainEvents);
+    });
+    exchange.clearDomainEvents();
   }
 
   async findById(id: ExchangeId): Promise<Exchange | null> {
@@ -187,14 +234,19 @@ export class PostgreSQLExchangeRepository implements IExchangeRepository {
   async findUserPendingExchanges(userId: UserId): Promise<Exchange[]> {
     const query = `
       SELECT * FROM exchanges 
-      WHERE (giver_id = $1 OR receiver_id = $1) AND status IN ('requested', 'accepted')
+      WHERE (giver_id = $1 OR receiver_id = $1) AND status IN ('requested', 'accepted', 'disputed')
       ORDER BY created_at DESC
     `;
     const result = await this.db.query<any>(query, [userId.value]);
     return result.rows.map(row => this.mapRowToExchange(row));
   }
 
-  async search(criteria: ExchangeSearchCriteria, limit: number = 50, offset: number = 0): Promise<ExchangeSearchResult> {
+  async search(
+    criteria: ExchangeSearchCriteria,
+    limit: number = 50,
+    offset: number = 0,
+    cursor?: string
+  ): Promise<ExchangeSearchResult> {
     let whereConditions: string[] = [];
     let params: any[] = [];
     let paramIndex = 1;
@@ -280,22 +332,36 @@ export class PostgreSQLExchangeRepository implements IExchangeRepository {
     const countResult = await this.db.query<{ count: string }>(countQuery, params);
     const totalCount = parseInt(countResult.rows[0].count, 10);
 
-    // Data query
+    if (cursor) {
+      const keysetCondition = KeysetCursor.after(['created_at', 'id'], 'DESC', paramIndex);
+      whereConditions.push(keysetCondition);
+      params.push(...KeysetCursor.decode(cursor, PostgreSQLExchangeRepository.CURSOR_ORDERING, ['timestamp', 'uuid']));
+      paramIndex += 2;
+    }
+    const pageWhereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+    // Data query, with one extra row to tell whether there is a next page
     const dataQuery = `
-      SELECT * FROM exchanges 
-      ${whereClause}
-      ORDER BY created_at DESC
+      SELECT *, created_at::text AS cursor_created_at FROM exchanges 
+      ${pageWhereClause}
+      ORDER BY created_at DESC, id DESC
       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
     `;
-    params.push(limit, offset);
+    params.push(limit + 1, cursor ? 0 : offset);
     
-    const result = await this.db.query<any>(dataQuery, params);
-    const exchanges = result.rows.map(row => this.mapRowToExchange(row));
+    const result = await this.db.query<ExchangeRow & { cursor_created_at: string }>(dataQuery, params);
+    const page = KeysetCursor.page(
+      result.rows,
+      limit,
+      PostgreSQLExchangeRepository.CURSOR_ORDERING,
+      row => [row.cursor_created_at, row.id]
+    );
 
     return {
-      exchanges,
+      exchanges: page.rows.map(row => this.mapRowToExchange(row)),
       totalCount,
-      hasMore: offset + exchanges.length < totalCount
+      hasMore: page.hasMore,
+      nextCursor: page.nextCursor
     };
   }
 
@@ -313,15 +379,28 @@ export class PostgreSQLExchangeRepository implements IExchangeRepository {
     return this.findByStatus('completed');
   }
 
-  async findOverdueExchanges(): Promise<Exchange[]> {
+  async findOverdueExchanges(graceHours: number = 0): Promise<Exchange[]> {
     const query = `
       SELECT * FROM exchanges 
       WHERE status IN ('requested', 'accepted') 
         AND scheduled_pickup IS NOT NULL 
-        AND scheduled_pickup < NOW()
+        AND scheduled_pickup < NOW() - ($1 * INTERVAL '1 hour')
       ORDER BY scheduled_pickup ASC
     `;
-    const result = await this.db.query<any>(query);
+    const result = await this.db.query<any>(query, [graceHours]);
+    return result.rows.map(row => this.mapRowToExchange(row));
+  }
+
+  async findExchangesDueForPickupReminder(leadHours: number): Promise<Exchange[]> {
+    const query = `
+      SELECT * FROM exchanges
+      WHERE status = 'accepted'
+        AND pickup_reminder_sent_at IS NULL
+        AND scheduled_pickup > NOW()
+        AND scheduled_pickup <= NOW() + ($1 * INTERVAL '1 hour')
+      ORDER BY scheduled_pickup ASC
+    `;
+    const result = await this.db.query<ExchangeRow>(query, [leadHours]);
     return result.rows.map(row => this.mapRowToExchange(row));
   }
 
@@ -344,16 +423,20 @@ export class PostgreSQLExchangeRepository implements IExchangeRepository {
         const exchangeData = exchange.toData();
         const query = `
           INSERT INTO exchanges (
-            id, item_id, giver_id, receiver_id, status, scheduled_pickup,
+            id, item_id, giver_id, receiver_id, status, quantity, scheduled_pickup, scheduled_pickup_end, pickup_slots,
             completed_at, giver_rating_score, giver_rating_review, giver_rating_rated_by, giver_rating_rated_at,
             receiver_rating_score, receiver_rating_review, receiver_rating_rated_by, receiver_rating_rated_at,
-            eco_points_awarded, cancellation_reason, created_at, updated_at
+            eco_points_awarded, cancellation_reason, pickup_reminder_sent_at,
+            handoff_code_seed, handoff_code_expires_at, handoff_code_failed_attempts, status_before_dispute, created_at, updated_at
           ) VALUES (
-            $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19
+            $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22,
+            $23, $24, $25, $26, $27
           )
           ON CONFLICT (id) DO UPDATE SET
             status = EXCLUDED.status,
             scheduled_pickup = EXCLUDED.scheduled_pickup,
+            scheduled_pickup_end = EXCLUDED.scheduled_pickup_end,
+            pickup_slots = EXCLUDED.pickup_slots,
             completed_at = EXCLUDED.completed_at,
             giver_rating_score = EXCLUDED.giver_rating_score,
             giver_rating_review = EXCLUDED.giver_rating_review,
@@ -365,6 +448,15 @@ export class PostgreSQLExchangeRepository implements IExchangeRepository {
             receiver_rating_rated_at = EXCLUDED.receiver_rating_rated_at,
             eco_points_awarded = EXCLUDED.eco_points_awarded,
             cancellation_reason = EXCLUDED.cancellation_reason,
+            pickup_reminder_sent_at = EXCLUDED.pickup_reminder_sent_at,
+            handoff_code_seed = EXCLUDED.handoff_code_seed,
+            handoff_code_expires_at = EXCLUDED.handoff_code_expires_at,
+            handoff_code_failed_attempts = CASE
+              WHEN exchanges.handoff_code_seed = EXCLUDED.handoff_code_seed
+                THEN GREATEST(exchanges.handoff_code_failed_attempts, EXCLUDED.handoff_code_failed_attempts)
+              ELSE EXCLUDED.handoff_code_failed_attempts
+            END,
+            status_before_dispute = EXCLUDED.status_before_dispute,
             updated_at = EXCLUDED.updated_at
         `;
 
@@ -374,7 +466,10 @@ export class PostgreSQLExchangeRepository implements IExchangeRepository {
           exchangeData.giverId,
           exchangeData.receiverId,
           exchangeData.status,
+          exchangeData.quantity ?? 1,
           exchangeData.scheduledPickup || null,
+          exchangeData.scheduledPickupEnd || null,
+          JSON.stringify(exchangeData.pickupSlots ?? []),
           exchangeData.completedAt || null,
           exchangeData.giverRating?.score || null,
           exchangeData.giverRating?.review || null,
@@ -386,13 +481,20 @@ export class PostgreSQLExchangeRepository implements IExchangeRepository {
           exchangeData.receiverRating?.ratedAt || null,
           exchangeData.ecoPointsAwarded,
           exchangeData.cancellationReason || null,
+          exchangeData.pickupReminderSentAt || null,
+          exchangeData.handoffCode?.seed || null,
+          exchangeData.handoffCode?.expiresAt || null,
+          exchangeData.handoffCode?.failedAttempts ?? 0,
+          exchangeData.statusBeforeDispute || null,
           exchangeData.createdAt,
           exchangeData.updatedAt
         ];
 
         await trx.query(query, params);
+        await this.outboxRepository.append(exchange.domainEvents);
       }
     });
+    exchanges.forEach(exchange => exchange.clearDomainEvents());
   }
 
   async findByIds(ids: ExchangeId[]): Promise<Exchange[]> {
@@ -416,6 +518,25 @@ export class PostgreSQLExchangeRepository implements IExchangeRepository {
     await this.db.query(query, [status, idValues]);
   }
 
+  async claimHandoffAttempt(exchange: Exchange, maxAttempts: number): Promise<number | null> {
+    const seed = exchange.handoffCode?.seed;
+    if (!seed) return null;
+
+    // Only counts against the code that was loaded, not one issued since. The
+    // count goes back to zero when a successful attempt clears the code
+    const query = `
+      UPDATE exchanges
+      SET handoff_code_failed_attempts = handoff_code_failed_attempts + 1, updated_at = NOW()
+      WHERE id = $1 AND handoff_code_seed = $2 AND handoff_code_failed_attempts < $3
+      RETURNING handoff_code_failed_attempts
+    `;
+    const result = await this.db.query<{ handoff_code_failed_attempts: number }>(
+      query,
+      [exchange.id.value, seed, maxAttempts]
+    );
+    return result.rows.length > 0 ? result.rows[0].handoff_code_failed_attempts : null;
+  }
+
   async countExchanges(): Promise<number> {
     const query = 'SELECT COUNT(*) as count FROM exchanges';
     const result = await this.db.query<{ count: string }>(query);
@@ -605,7 +726,16 @@ export class PostgreSQLExchangeRepository implements IExchangeRepository {
       giverId: row.giver_id,
       receiverId: row.receiver_id,
       status: row.status,
+      quantity: row.quantity,
       scheduledPickup: row.scheduled_pickup,
+      scheduledPickupEnd: row.scheduled_pickup_end,
+      pickupSlots: (row.pickup_slots ?? []).map(slot => ({
+        id: slot.id,
+        startsAt: new Date(slot.startsAt),
+        endsAt: new Date(slot.endsAt),
+        proposedBy: slot.proposedBy,
+        proposedAt: new Date(slot.proposedAt)
+      })),
       completedAt: row.completed_at,
       giverConfirmedAt: row.giver_confirmed_at,
       receiverConfirmedAt: row.receiver_confirmed_at,
@@ -623,6 +753,13 @@ export class PostgreSQLExchangeRepository implements IExchangeRepository {
       } : undefined,
       ecoPointsAwarded: row.eco_points_awarded,
       cancellationReason: row.cancellation_reason,
+      pickupReminderSentAt: row.pickup_reminder_sent_at,
+      handoffCode: (row.handoff_code_seed && row.handoff_code_expires_at) ? {
+        seed: row.handoff_code_seed,
+        expiresAt: row.handoff_code_expires_at,
+        failedAttempts: row.handoff_code_failed_attempts ?? 0
+      } : undefined,
+      statusBeforeDispute: row.status_before_dispute || undefined,
       createdAt: row.created_at,
       updatedAt: row.updated_at
     };
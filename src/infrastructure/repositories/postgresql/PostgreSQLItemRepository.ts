@@ -1,12 +1,25 @@
 import { injectable, inject } from 'inversify';
 import { TYPES } from '@/container/types';
-import { IItemRepository, ItemSearchCriteria, ItemSearchResult } from '../IItemRepository';
+import {
+  IItemRepository,
+  ItemSearchCriteria,
+  ItemSearchResult,
+  ItemSearchHighlight,
+  ItemSearchFacets,
+  ItemFacetCount,
+  ItemDistanceFacetCount
+} from '../IItemRepository';
+import { IDomainEventOutboxRepository } from '../IDomainEventOutboxRepository';
 import { Item, ItemData } from '../../../domain/item/Item';
 import { ItemId } from '../../../domain/item/value-objects/ItemId';
 import { UserId } from '../../../domain/user/value-objects/UserId';
 import { Location } from '../../../domain/user/value-objects/Location';
 import { ItemStatusValue } from '../../../domain/item/value-objects/ItemStatus';
-import { DatabaseConnection } from '../../database/DatabaseConnection';
+import { SearchQuery } from '../../../domain/item/value-objects/SearchQuery';
+import { ItemRevisionData } from '../../../domain/item/value-objects/ItemRevision';
+import { ItemImage, StoredItemImage } from '../../../domain/item/value-objects/ItemImage';
+import { DatabaseConnection, DatabaseTransaction } from '../../database/DatabaseConnection';
+import { KeysetCursor, KeysetValue } from './KeysetCursor';
 
 interface ItemRow {
   id: string;
@@ -15,7 +28,7 @@ interface ItemRow {
   description: string;
   category: string;
   tags: string | string[];
-  images: string | string[];
+  images: string | StoredItemImage[];
   condition: 'new' | 'like-new' | 'good' | 'fair' | 'poor';
   status: ItemStatusValue;
   latitude: number;
@@ -23,16 +36,66 @@ interface ItemRow {
   address: string;
   dimensions?: string | any;
   pickup_instructions?: string;
+  stale_reminder_sent_at?: Date;
+  expires_at?: Date | null;
+  renewal_token_hash?: string | null;
+  renewal_reminder_sent_at?: Date | null;
+  quantity: number;
+  is_lot: boolean;
+  quantity_claimed: number;
+  quantity_given: number;
   created_at: Date;
   updated_at: Date;
   text_similarity?: number;
+  search_rank?: number;
+  cursor_created_at?: string;
+  cursor_distance?: number;
+  title_highlight?: string;
+  description_highlight?: string;
+}
+
+type SearchFacet = 'category' | 'condition' | 'tags' | 'distance';
+
+interface SearchFilter {
+  whereClause: string;
+  params: unknown[];
+  tsQuery?: string; // Set for text searches, referencing the search term parameter
 }
 
 @injectable()
 export class PostgreSQLItemRepository implements IItemRepository {
+  // Text search ranking: relevance dominates, while nearby and recently
+  // posted items win between similarly relevant listings
+  private static readonly RELEVANCE_WEIGHT = 0.6;
+  private static readonly PROXIMITY_WEIGHT = 0.25;
+  private static readonly FRESHNESS_WEIGHT = 0.15;
+  private static readonly PROXIMITY_HALF_SCORE_KM = 5;
+  private static readonly FRESHNESS_HALF_LIFE_DAYS = 14;
+
+  // Control characters never appear in listing text, so they can mark
+  // matches until the snippet has been HTML-escaped
+  private static readonly HIGHLIGHT_START = '\u0002';
+  private static readonly HIGHLIGHT_STOP = '\u0003';
+
+  private static readonly TAG_FACET_LIMIT = 20;
+  private static readonly DISTANCE_FACET_BUCKETS_KM = [1, 5, 10, 25, 50];
+
+  // Listings past their expiry date stay hidden until the expiry job marks them expired
+  private static readonly NOT_LAPSED = '(expires_at IS NULL OR expires_at > NOW())';
+
+  // Listings of suspended or banned users stay hidden until the account is back in good standing
+  private static readonly OWNER_IN_GOOD_STANDING = `NOT EXISTS (
+    SELECT 1 FROM users owner
+    WHERE owner.id = items.user_id
+      AND (owner.account_status = 'banned'
+        OR (owner.account_status = 'suspended' AND owner.suspended_until > NOW()))
+  )`;
+
   constructor(
     @inject(TYPES.DatabaseConnection)
-    private db: DatabaseConnection
+    private db: DatabaseConnection,
+    @inject(TYPES.IDomainEventOutboxRepository)
+    private outboxRepository: IDomainEventOutboxRepository
   ) {}
 
   async save(item: Item): Promise<void> {
@@ -42,9 +105,11 @@ export class PostgreSQLItemRepository implements IItemRepository {
       INSERT INTO items (
         id, user_id, title, description, category, tags, images, condition,
         status, latitude, longitude, address, dimensions, pickup_instructions,
-        created_at, updated_at
+        stale_reminder_sent_at, expires_at, renewal_token_hash, renewal_reminder_sent_at, quantity, is_lot,
+        quantity_claimed, quantity_given, created_at, updated_at
       ) VALUES (
-        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21,
+        $22, $23, $24
       )
       ON CONFLICT (id) DO UPDATE SET
         title = EXCLUDED.title,
@@ -59,6 +124,12 @@ export class PostgreSQLItemRepository implements IItemRepository {
         address = EXCLUDED.address,
         dimensions = EXCLUDED.dimensions,
         pickup_instructions = EXCLUDED.pickup_instructions,
+        stale_reminder_sent_at = EXCLUDED.stale_reminder_sent_at,
+        expires_at = EXCLUDED.expires_at,
+        renewal_token_hash = EXCLUDED.renewal_token_hash,
+        renewal_reminder_sent_at = EXCLUDED.renewal_reminder_sent_at,
+        quantity_claimed = EXCLUDED.quantity_claimed,
+        quantity_given = EXCLUDED.quantity_given,
         updated_at = EXCLUDED.updated_at
     `;
 
@@ -77,11 +148,45 @@ export class PostgreSQLItemRepository implements IItemRepository {
       itemData.location.address,
       itemData.details.dimensions ? JSON.stringify(itemData.details.dimensions) : null,
       itemData.details.pickupInstructions || null,
+      itemData.staleReminderSentAt || null,
+      itemData.expiresAt || null,
+      itemData.renewalTokenHash || null,
+      itemData.renewalReminderSentAt || null,
+      itemData.quantity ?? 1,
+      itemData.isLot ?? false,
+      itemData.quantityClaimed ?? 0,
+      itemData.quantityGiven ?? 0,
       itemData.createdAt,
       itemData.updatedAt
     ];
 
-    await this.db.query(query, params);
+    await this.db.transaction(async (trx) => {
+      await trx.query(query, params);
+      await this.appendRevisions(trx, itemData.id, item.pendingRevisions);
+      await this.outboxRepository.append(item.domainEvents);
+    });
+    item.clearPendingRevisions();
+    item.clearDomainEvents();
+  }
+
+  /**
+   * Appends edits to the item's history, numbering them after the latest
+   * version. Ids come from the domain, so retrying a save doesn't repeat them.
+   */
+  private async appendRevisions(
+    trx: DatabaseTransaction,
+    itemId: string,
+    revisions: readonly ItemRevisionData[]
+  ): Promise<void> {
+    for (const revision of revisions) {
+      await trx.query(
+        `INSERT INTO item_revisions (id, item_id, version, changed_by, changes, created_at)
+         SELECT $1, $2, COALESCE(MAX(version), 0) + 1, $3, $4, $5
+         FROM item_revisions WHERE item_id = $2
+         ON CONFLICT (id) DO NOTHING`,
+        [revision.id, itemId, revision.changedBy, JSON.stringify(revision.changes), revision.changedAt]
+      );
+    }
   }
 
   async findById(id: ItemId): Promise<Item | null> {
@@ -95,6 +200,17 @@ export class PostgreSQLItemRepository implements IItemRepository {
     return this.mapRowToItem(result.rows[0]);
   }
 
+  async findByIdForUpdate(id: ItemId): Promise<Item | null> {
+    const query = 'SELECT * FROM items WHERE id = $1 FOR UPDATE';
+    const result = await this.db.query<ItemRow>(query, [id.value]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToItem(result.rows[0]);
+  }
+
   async delete(id: ItemId): Promise<void> {
     const query = 'DELETE FROM items WHERE id = $1';
     await this.db.query(query, [id.value]);
@@ -152,69 +268,30 @@ export class PostgreSQLItemRepository implements IItemRepository {
     return result.rows.map(row => this.mapRowToItem(row));
   }
 
-  async search(criteria: ItemSearchCriteria, limit: number = 50, offset: number = 0): Promise<ItemSearchResult> {
-    let whereConditions: string[] = [];
-    let params: any[] = [];
-    let paramIndex = 1;
-
-    // Build WHERE conditions based on criteria
-    if (criteria.searchTerm) {
-      whereConditions.push(`(title ILIKE $${paramIndex} OR description ILIKE $${paramIndex})`);
-      params.push(`%${criteria.searchTerm}%`);
-      paramIndex++;
-    }
-
-    if (criteria.category) {
-      whereConditions.push(`category = $${paramIndex}`);
-      params.push(criteria.category);
-      paramIndex++;
-    }
-
-    if (criteria.tags && criteria.tags.length > 0) {
-      whereConditions.push(`tags::jsonb ?| $${paramIndex}`);
-      params.push(criteria.tags);
-      paramIndex++;
-    }
-
-    if (criteria.status) {
-      whereConditions.push(`status = $${paramIndex}`);
-      params.push(criteria.status);
-      paramIndex++;
-    }
-
-    if (criteria.userId) {
-      whereConditions.push(`user_id = $${paramIndex}`);
-      params.push(criteria.userId.value);
-      paramIndex++;
-    }
-
-    if (criteria.createdAfter) {
-      whereConditions.push(`created_at >= $${paramIndex}`);
-      params.push(criteria.createdAfter);
-      paramIndex++;
-    }
-
-    if (criteria.createdBefore) {
-      whereConditions.push(`created_at <= $${paramIndex}`);
-      params.push(criteria.createdBefore);
-      paramIndex++;
-    }
+  /**
+   * Without a search term items come newest first, or nearest first within
+   * a distance; with one they come by search rank. A cursor only continues
+   * the ordering it came from, and pins the time freshness is ranked against
+   * so ranks don't drift between pages.
+   */
+  async search(
+    criteria: ItemSearchCriteria,
+    limit: number = 50,
+    offset: number = 0,
+    cursor?: string
+  ): Promise<ItemSearchResult> {
+    const { whereClause, params, tsQuery } = this.buildSearchFilter(criteria);
+    let paramIndex = params.length + 1;
+    
+    // Count query
+    const countQuery = `SELECT COUNT(*) as count FROM items ${whereClause}`;
+    const countResult = await this.db.query<{ count: string }>(countQuery, params);
+    const totalCount = parseInt(countResult.rows[0].count, 10);
 
-    // Geographic search
-    let orderBy = 'created_at DESC';
-    if (criteria.userLocation && criteria.maxDistance) {
+    let distance: string | undefined;
+    if (criteria.userLocation && (criteria.maxDistance || tsQuery)) {
       const locationData = criteria.userLocation.toData();
-      whereConditions.push(`
-        ST_DWithin(
-          ST_MakePoint(longitude, latitude)::geography,
-          ST_MakePoint($${paramIndex}, $${paramIndex + 1})::geography,
-          $${paramIndex + 2} * 1000
-        )
-      `);
-      params.push(locationData.longitude, locationData.latitude, criteria.maxDistance);
-      paramIndex += 3;
-      
-      orderBy = `
+      distance = `
         ST_Distance(
           ST_MakePoint(longitude, latitude)::geography,
           ST_MakePoint($${paramIndex}, $${paramIndex + 1})::geography
@@ -224,32 +301,188 @@ export class PostgreSQLItemRepository implements IItemRepository {
       paramIndex += 2;
     }
 
-    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
-    
-    // Count query
-    const countQuery = `SELECT COUNT(*) as count FROM items ${whereClause}`;
-    const countResult = await this.db.query<{ count: string }>(countQuery, params.slice(0, paramIndex - (criteria.userLocation && criteria.maxDistance ? 2 : 0)));
-    const totalCount = parseInt(countResult.rows[0].count, 10);
+    if (!tsQuery) {
+      const ordering = distance ? 'items:distance' : 'items:created_at';
+      let keysetCondition = '';
+      if (cursor) {
+        keysetCondition = distance
+          ? `WHERE ${KeysetCursor.after(['cursor_distance', 'id'], 'ASC', paramIndex)}`
+          : `WHERE ${KeysetCursor.after(['created_at', 'id'], 'DESC', paramIndex)}`;
+        params.push(...KeysetCursor.decode(cursor, ordering, [distance ? 'number' : 'timestamp', 'uuid']));
+        paramIndex += 2;
+      }
+
+      // The subquery names the distance so the cursor condition can use it
+      const dataQuery = `
+        SELECT * FROM (
+          SELECT *, created_at::text AS cursor_created_at${distance ? `, ${distance} AS cursor_distance` : ''}
+          FROM items 
+          ${whereClause}
+        ) candidates
+        ${keysetCondition}
+        ORDER BY ${distance ? 'cursor_distance ASC, id ASC' : 'created_at DESC, id DESC'}
+        LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
+      `;
+      params.push(limit + 1, cursor ? 0 : offset);
+
+      const result = await this.db.query<ItemRow>(dataQuery, params);
+      const page = KeysetCursor.page(result.rows, limit, ordering, row => distance
+        ? [Number(row.cursor_distance), row.id]
+        : [String(row.cursor_created_at), row.id]);
+
+      return {
+        items: page.rows.map(row => this.mapRowToItem(row)),
+        totalCount,
+        hasMore: page.hasMore,
+        nextCursor: page.nextCursor
+      };
+    }
+
+    const ordering = 'items:search_rank';
+    let rankedAt = new Date().toISOString();
+    let keyset: KeysetValue[] = [];
+    if (cursor) {
+      const [rank, createdAt, id, cursorRankedAt] = KeysetCursor.decode(cursor, ordering, ['number', 'timestamp', 'uuid', 'timestamp']);
+      rankedAt = String(cursorRankedAt);
+      keyset = [rank, createdAt, id];
+    }
+
+    const rankedAtParam = `$${paramIndex}::timestamptz`;
+    params.push(rankedAt);
+    paramIndex++;
+
+    let keysetCondition = '';
+    if (keyset.length > 0) {
+      keysetCondition = `WHERE ${KeysetCursor.after(['search_rank', 'created_at', 'id'], 'DESC', paramIndex)}`;
+      params.push(...keyset);
+      paramIndex += keyset.length;
+    }
 
-    // Data query
+    // Snippets are only built for the page being returned, not every match
+    const { HIGHLIGHT_START, HIGHLIGHT_STOP } = PostgreSQLItemRepository;
     const dataQuery = `
-      SELECT * FROM items 
-      ${whereClause}
-      ORDER BY ${orderBy}
-      LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
+      SELECT ranked.*,
+        ts_headline('english', ranked.title, ${tsQuery}, $${paramIndex + 2}) AS title_highlight,
+        ts_headline('english', ranked.description, ${tsQuery}, $${paramIndex + 3}) AS description_highlight
+      FROM (
+        SELECT * FROM (
+          SELECT *, ${this.buildSearchRank(tsQuery, rankedAtParam, distance)} AS search_rank,
+            created_at::text AS cursor_created_at
+          FROM items
+          ${whereClause}
+        ) candidates
+        ${keysetCondition}
+        ORDER BY search_rank DESC, created_at DESC, id DESC
+        LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
+      ) ranked
+      ORDER BY ranked.search_rank DESC, ranked.created_at DESC, ranked.id DESC
     `;
-    params.push(limit, offset);
-    
+    params.push(
+      limit + 1,
+      cursor ? 0 : offset,
+      `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", HighlightAll=true`,
+      `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`
+    );
+
     const result = await this.db.query<ItemRow>(dataQuery, params);
-    const items = result.rows.map(row => this.mapRowToItem(row));
+    const page = KeysetCursor.page(
+      result.rows,
+      limit,
+      ordering,
+      row => [Number(row.search_rank), String(row.cursor_created_at), row.id, rankedAt]
+    );
+    const highlights: Record<string, ItemSearchHighlight> = {};
+    for (const row of page.rows) {
+      highlights[row.id] = {
+        title: this.toHighlightHtml(row.title_highlight || row.title),
+        description: this.toHighlightHtml(row.description_highlight || '')
+      };
+    }
 
     return {
-      items,
+      items: page.rows.map(row => this.mapRowToItem(row)),
       totalCount,
-      hasMore: offset + items.length < totalCount
+      hasMore: page.hasMore,
+      nextCursor: page.nextCursor,
+      highlights
     };
   }
 
+  async getSearchFacets(criteria: ItemSearchCriteria): Promise<ItemSearchFacets> {
+    const [categories, conditions, tags, distances] = await Promise.all([
+      this.countFacet(criteria, 'category'),
+      this.countFacet(criteria, 'condition'),
+      this.countTagFacet(criteria),
+      this.countDistanceFacet(criteria)
+    ]);
+
+    return { categories, conditions, tags, distances };
+  }
+
+  private async countFacet(criteria: ItemSearchCriteria, facet: 'category' | 'condition'): Promise<ItemFacetCount[]> {
+    const { whereClause, params } = this.buildSearchFilter(criteria, facet);
+    const query = `
+      SELECT ${facet} AS value, COUNT(*) AS count
+      FROM items
+      ${whereClause}
+      GROUP BY ${facet}
+      ORDER BY count DESC, value
+    `;
+
+    const result = await this.db.query<{ value: string; count: string }>(query, params);
+    return result.rows.map(row => ({ value: row.value, count: parseInt(row.count, 10) }));
+  }
+
+  private async countTagFacet(criteria: ItemSearchCriteria): Promise<ItemFacetCount[]> {
+    const { whereClause, params } = this.buildSearchFilter(criteria, 'tags');
+    const query = `
+      SELECT tag AS value, COUNT(*) AS count
+      FROM items
+      CROSS JOIN LATERAL jsonb_array_elements_text(tags) AS tag
+      ${whereClause}
+      GROUP BY tag
+      ORDER BY count DESC, value
+      LIMIT $${params.length + 1}
+    `;
+
+    const result = await this.db.query<{ value: string; count: string }>(
+      query,
+      [...params, PostgreSQLItemRepository.TAG_FACET_LIMIT]
+    );
+    return result.rows.map(row => ({ value: row.value, count: parseInt(row.count, 10) }));
+  }
+
+  /**
+   * Buckets are cumulative: each counts every match within that distance.
+   */
+  private async countDistanceFacet(criteria: ItemSearchCriteria): Promise<ItemDistanceFacetCount[]> {
+    if (!criteria.userLocation) {
+      return [];
+    }
+
+    const { whereClause, params } = this.buildSearchFilter(criteria, 'distance');
+    const locationData = criteria.userLocation.toData();
+    const origin = `ST_MakePoint($${params.length + 1}, $${params.length + 2})::geography`;
+    const buckets = PostgreSQLItemRepository.DISTANCE_FACET_BUCKETS_KM;
+    const query = `
+      SELECT ${buckets.map((km, index) => `
+        COUNT(*) FILTER (
+          WHERE ST_DWithin(ST_MakePoint(longitude, latitude)::geography, ${origin}, ${km * 1000})
+        ) AS bucket_${index}`).join(',')}
+      FROM items
+      ${whereClause}
+    `;
+
+    const result = await this.db.query<Record<string, string>>(
+      query,
+      [...params, locationData.longitude, locationData.latitude]
+    );
+    return buckets.map((km, index) => ({
+      maxDistanceKm: km,
+      count: parseInt(result.rows[0][`bucket_${index}`], 10)
+    }));
+  }
+
   async findSimilarItems(item: Item, limit: number = 10): Promise<Item[]> {
     const itemData = item.toData();
     const query = `
@@ -258,6 +491,8 @@ export class PostgreSQLItemRepository implements IItemRepository {
       FROM items 
       WHERE id != $3 
         AND status = 'available'
+        AND ${PostgreSQLItemRepository.NOT_LAPSED}
+        AND ${PostgreSQLItemRepository.OWNER_IN_GOOD_STANDING}
         AND (category = $4 OR tags::jsonb ?| $5)
       ORDER BY text_similarity DESC, created_at DESC
       LIMIT $6
@@ -276,13 +511,23 @@ export class PostgreSQLItemRepository implements IItemRepository {
   }
 
   async findAvailableItems(): Promise<Item[]> {
-    return this.findByStatus('available');
+    const query = `
+      SELECT * FROM items
+      WHERE status = 'available'
+        AND ${PostgreSQLItemRepository.NOT_LAPSED}
+        AND ${PostgreSQLItemRepository.OWNER_IN_GOOD_STANDING}
+      ORDER BY created_at DESC
+    `;
+    const result = await this.db.query<ItemRow>(query);
+    return result.rows.map(row => this.mapRowToItem(row));
   }
 
   async findAvailableItemsNearLocation(location: Location, radiusKm: number): Promise<Item[]> {
     const query = `
       SELECT * FROM items 
       WHERE status = 'available'
+        AND ${PostgreSQLItemRepository.NOT_LAPSED}
+        AND ${PostgreSQLItemRepository.OWNER_IN_GOOD_STANDING}
         AND ST_DWithin(
           ST_MakePoint(longitude, latitude)::geography,
           ST_MakePoint($1, $2)::geography,
@@ -314,9 +559,11 @@ export class PostgreSQLItemRepository implements IItemRepository {
           INSERT INTO items (
             id, user_id, title, description, category, tags, images, condition,
             status, latitude, longitude, address, dimensions, pickup_instructions,
-            created_at, updated_at
+            stale_reminder_sent_at, expires_at, renewal_token_hash, renewal_reminder_sent_at, quantity, is_lot,
+            quantity_claimed, quantity_given, created_at, updated_at
           ) VALUES (
-            $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16
+            $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21,
+            $22, $23, $24
           )
           ON CONFLICT (id) DO UPDATE SET
             title = EXCLUDED.title,
@@ -331,6 +578,12 @@ export class PostgreSQLItemRepository implements IItemRepository {
             address = EXCLUDED.address,
             dimensions = EXCLUDED.dimensions,
             pickup_instructions = EXCLUDED.pickup_instructions,
+            stale_reminder_sent_at = EXCLUDED.stale_reminder_sent_at,
+            expires_at = EXCLUDED.expires_at,
+            renewal_token_hash = EXCLUDED.renewal_token_hash,
+            renewal_reminder_sent_at = EXCLUDED.renewal_reminder_sent_at,
+            quantity_claimed = EXCLUDED.quantity_claimed,
+            quantity_given = EXCLUDED.quantity_given,
             updated_at = EXCLUDED.updated_at
         `;
 
@@ -349,13 +602,35 @@ export class PostgreSQLItemRepository implements IItemRepository {
           itemData.location.address,
           itemData.details.dimensions ? JSON.stringify(itemData.details.dimensions) : null,
           itemData.details.pickupInstructions || null,
+          itemData.staleReminderSentAt || null,
+          itemData.expiresAt || null,
+          itemData.renewalTokenHash || null,
+          itemData.renewalReminderSentAt || null,
+          itemData.quantity ?? 1,
+          itemData.isLot ?? false,
+          itemData.quantityClaimed ?? 0,
+          itemData.quantityGiven ?? 0,
           itemData.createdAt,
           itemData.updatedAt
         ];
 
         await trx.query(query, params);
+        await this.appendRevisions(trx, itemData.id, item.pendingRevisions);
+        await this.outboxRepository.append(item.domainEvents);
       }
     });
+    items.forEach(item => {
+      item.clearPendingRevisions();
+      item.clearDomainEvents();
+    });
+  }
+
+  async findAllImageUrls(): Promise<string[]> {
+    const result = await this.db.query<Pick<ItemRow, 'images'>>('SELECT images FROM items');
+    return result.rows.flatMap(row => {
+      const images: StoredItemImage[] = typeof row.images === 'string' ? JSON.parse(row.images) : row.images;
+      return (images || []).flatMap(image => ItemImage.urls(ItemImage.normalize(image)));
+    });
   }
 
   async findByIds(ids: ItemId[]): Promise<Item[]> {
@@ -475,13 +750,167 @@ export class PostgreSQLItemRepository implements IItemRepository {
     const query = `
       SELECT * FROM items 
       WHERE status = 'available' 
-        AND updated_at <= NOW() - INTERVAL '$1 days'
+        AND updated_at <= NOW() - ($1 * INTERVAL '1 day')
+        AND (stale_reminder_sent_at IS NULL OR stale_reminder_sent_at <= NOW() - ($1 * INTERVAL '1 day'))
       ORDER BY updated_at ASC
     `;
     const result = await this.db.query<ItemRow>(query, [daysOld]);
     return result.rows.map(row => this.mapRowToItem(row));
   }
 
+  async findItemsExpiringWithin(days: number): Promise<Item[]> {
+    const query = `
+      SELECT * FROM items
+      WHERE status = 'available'
+        AND expires_at > NOW()
+        AND expires_at <= NOW() + ($1 * INTERVAL '1 day')
+        AND renewal_reminder_sent_at IS NULL
+      ORDER BY expires_at ASC
+    `;
+    const result = await this.db.query<ItemRow>(query, [days]);
+    return result.rows.map(row => this.mapRowToItem(row));
+  }
+
+  async findLapsedItems(): Promise<Item[]> {
+    const query = `
+      SELECT * FROM items
+      WHERE status = 'available' AND expires_at <= NOW() AND quantity_claimed = 0
+      ORDER BY expires_at ASC
+    `;
+    const result = await this.db.query<ItemRow>(query);
+    return result.rows.map(row => this.mapRowToItem(row));
+  }
+
+  /**
+   * Builds the WHERE clause shared by search and its facet counts. A facet
+   * count leaves out its own filter so every option keeps a count.
+   */
+  private buildSearchFilter(criteria: ItemSearchCriteria, omitFacet?: SearchFacet): SearchFilter {
+    let whereConditions: string[] = [];
+    let params: unknown[] = [];
+    let paramIndex = 1;
+
+    // A term made only of stop words or punctuation doesn't filter anything
+    const searchTerm = criteria.searchTerm && !SearchQuery.parse(criteria.searchTerm).isEmpty()
+      ? criteria.searchTerm
+      : undefined;
+    let tsQuery: string | undefined;
+
+    // Build WHERE conditions based on criteria
+    if (searchTerm) {
+      tsQuery = `websearch_to_tsquery('english', $${paramIndex})`;
+      whereConditions.push(`search_vector @@ ${tsQuery}`);
+      params.push(searchTerm);
+      paramIndex++;
+    }
+
+    const categories = [
+      ...(criteria.category ? [criteria.category] : []),
+      ...(criteria.categories || [])
+    ].map(category => category.trim().toLowerCase());
+    if (categories.length > 0 && omitFacet !== 'category') {
+      whereConditions.push(`category = ANY($${paramIndex})`);
+      params.push(categories);
+      paramIndex++;
+    }
+
+    if (criteria.conditions && criteria.conditions.length > 0 && omitFacet !== 'condition') {
+      whereConditions.push(`condition = ANY($${paramIndex})`);
+      params.push(criteria.conditions);
+      paramIndex++;
+    }
+
+    if (criteria.tags && criteria.tags.length > 0 && omitFacet !== 'tags') {
+      whereConditions.push(`tags::jsonb ?| $${paramIndex}`);
+      params.push(criteria.tags);
+      paramIndex++;
+    }
+
+    if (criteria.status) {
+      whereConditions.push(`status = $${paramIndex}`);
+      params.push(criteria.status);
+      paramIndex++;
+
+      if (criteria.status === 'available') {
+        whereConditions.push(PostgreSQLItemRepository.NOT_LAPSED);
+      }
+    }
+
+    if (criteria.userId) {
+      whereConditions.push(`user_id = $${paramIndex}`);
+      params.push(criteria.userId.value);
+      paramIndex++;
+    }
+
+    if (criteria.createdAfter) {
+      whereConditions.push(`created_at >= $${paramIndex}`);
+      params.push(criteria.createdAfter);
+      paramIndex++;
+    }
+
+    if (criteria.createdBefore) {
+      whereConditions.push(`created_at <= $${paramIndex}`);
+      params.push(criteria.createdBefore);
+      paramIndex++;
+    }
+
+    whereConditions.push(PostgreSQLItemRepository.OWNER_IN_GOOD_STANDING);
+
+    // Geographic search
+    if (criteria.userLocation && criteria.maxDistance && omitFacet !== 'distance') {
+      const locationData = criteria.userLocation.toData();
+      whereConditions.push(`
+        ST_DWithin(
+          ST_MakePoint(longitude, latitude)::geography,
+          ST_MakePoint($${paramIndex}, $${paramIndex + 1})::geography,
+          $${paramIndex + 2} * 1000
+        )
+      `);
+      params.push(locationData.longitude, locationData.latitude, criteria.maxDistance);
+      paramIndex += 3;
+    }
+
+    return {
+      whereClause: whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '',
+      params,
+      tsQuery
+    };
+  }
+
+  /**
+   * Scores a listing between 0 and 1. Proximity halves every
+   * PROXIMITY_HALF_SCORE_KM away and freshness every FRESHNESS_HALF_LIFE_DAYS.
+   */
+  private buildSearchRank(tsQuery: string, rankedAt: string, distance?: string): string {
+    const {
+      RELEVANCE_WEIGHT,
+      PROXIMITY_WEIGHT,
+      FRESHNESS_WEIGHT,
+      PROXIMITY_HALF_SCORE_KM,
+      FRESHNESS_HALF_LIFE_DAYS
+    } = PostgreSQLItemRepository;
+
+    // Normalisation 32 maps the rank into 0..1
+    const relevance = `ts_rank_cd(search_vector, ${tsQuery}, 32)`;
+    const proximity = distance
+      ? `1.0 / (1.0 + (${distance}) / 1000.0 / ${PROXIMITY_HALF_SCORE_KM})`
+      : '0';
+    const freshness = `power(0.5, EXTRACT(EPOCH FROM (${rankedAt} - created_at)) / 86400.0 / ${FRESHNESS_HALF_LIFE_DAYS})`;
+
+    return `(${RELEVANCE_WEIGHT} * ${relevance} + ${PROXIMITY_WEIGHT} * ${proximity} + ${FRESHNESS_WEIGHT} * ${freshness})`;
+  }
+
+  private toHighlightHtml(headline: string): string {
+    return headline
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;')
+      .split(PostgreSQLItemRepository.HIGHLIGHT_START).join('<mark>')
+      .split(PostgreSQLItemRepository.HIGHLIGHT_STOP).join('</mark>');
+  }
+
   private mapRowToItem(row: ItemRow): Item {
     const itemData: ItemData = {
       id: row.id,
@@ -502,6 +931,14 @@ export class PostgreSQLItemRepository implements IItemRepository {
         longitude: row.longitude,
         address: row.address
       },
+      staleReminderSentAt: row.stale_reminder_sent_at,
+      expiresAt: row.expires_at ?? undefined,
+      renewalTokenHash: row.renewal_token_hash ?? undefined,
+      renewalReminderSentAt: row.renewal_reminder_sent_at ?? undefined,
+      quantity: row.quantity,
+      isLot: row.is_lot,
+      quantityClaimed: row.quantity_claimed,
+      quantityGiven: row.quantity_given,
       createdAt: row.created_at,
       updatedAt: row.updated_at
     };
@@ -0,0 +1,166 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { IItemRequestRepository } from '../IItemRequestRepository';
+import { IDomainEventOutboxRepository } from '../IDomainEventOutboxRepository';
+import { ItemRequest, ItemRequestData } from '../../../domain/exchange/ItemRequest';
+import { ItemRequestId } from '../../../domain/exchange/value-objects/ItemRequestId';
+import { ItemRequestStatusValue } from '../../../domain/exchange/value-objects/ItemRequestStatus';
+import { ItemId } from '../../../domain/item/value-objects/ItemId';
+import { UserId } from '../../../domain/user/value-objects/UserId';
+import { DatabaseConnection } from '../../database/DatabaseConnection';
+
+interface ItemRequestRow {
+  id: string;
+  item_id: string;
+  requester_id: string;
+  status: ItemRequestStatusValue;
+  quantity: number;
+  message?: string | null;
+  exchange_id?: string | null;
+  responded_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+@injectable()
+export class PostgreSQLItemRequestRepository implements IItemRequestRepository {
+  constructor(
+    @inject(TYPES.DatabaseConnection)
+    private db: DatabaseConnection,
+    @inject(TYPES.IDomainEventOutboxRepository)
+    private outboxRepository: IDomainEventOutboxRepository
+  ) {}
+
+  async save(request: ItemRequest): Promise<void> {
+    const { query, params } = this.buildUpsert(request);
+    await this.db.transaction(async (trx) => {
+      await trx.query(query, params);
+      await this.outboxRepository.append(request.domainEvents);
+    });
+    request.clearDomainEvents();
+  }
+
+  async findById(id: ItemRequestId): Promise<ItemRequest | null> {
+    const query = 'SELECT * FROM item_requests WHERE id = $1';
+    const result = await this.db.query<ItemRequestRow>(query, [id.value]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToItemRequest(result.rows[0]);
+  }
+
+  async findByItemId(itemId: ItemId, status?: ItemRequestStatusValue): Promise<ItemRequest[]> {
+    const params: any[] = [itemId.value];
+    let query = 'SELECT * FROM item_requests WHERE item_id = $1';
+
+    if (status) {
+      query += ' AND status = $2';
+      params.push(status);
+    }
+
+    query += ' ORDER BY created_at ASC';
+
+    const result = await this.db.query<ItemRequestRow>(query, params);
+    return result.rows.map(row => this.mapRowToItemRequest(row));
+  }
+
+  async findByRequesterId(requesterId: UserId, status?: ItemRequestStatusValue): Promise<ItemRequest[]> {
+    const params: any[] = [requesterId.value];
+    let query = 'SELECT * FROM item_requests WHERE requester_id = $1';
+
+    if (status) {
+      query += ' AND status = $2';
+      params.push(status);
+    }
+
+    query += ' ORDER BY created_at DESC';
+
+    const result = await this.db.query<ItemRequestRow>(query, params);
+    return result.rows.map(row => this.mapRowToItemRequest(row));
+  }
+
+  async findPendingRequest(itemId: ItemId, requesterId: UserId): Promise<ItemRequest | null> {
+    const query = `
+      SELECT * FROM item_requests
+      WHERE item_id = $1 AND requester_id = $2 AND status = 'pending'
+      LIMIT 1
+    `;
+    const result = await this.db.query<ItemRequestRow>(query, [itemId.value, requesterId.value]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToItemRequest(result.rows[0]);
+  }
+
+  async saveMany(requests: ItemRequest[]): Promise<void> {
+    if (requests.length === 0) return;
+
+    await this.db.transaction(async (trx) => {
+      for (const request of requests) {
+        const { query, params } = this.buildUpsert(request);
+        await trx.query(query, params);
+        await this.outboxRepository.append(request.domainEvents);
+      }
+    });
+    requests.forEach(request => request.clearDomainEvents());
+  }
+
+  async countPendingByItemId(itemId: ItemId): Promise<number> {
+    const query = `SELECT COUNT(*) as count FROM item_requests WHERE item_id = $1 AND status = 'pending'`;
+    const result = await this.db.query<{ count: string }>(query, [itemId.value]);
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  private buildUpsert(request: ItemRequest): { query: string; params: any[] } {
+    const data = request.toData();
+
+    const query = `
+      INSERT INTO item_requests (
+        id, item_id, requester_id, status, quantity, message, exchange_id, responded_at, created_at, updated_at
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        status = EXCLUDED.status,
+        exchange_id = EXCLUDED.exchange_id,
+        responded_at = EXCLUDED.responded_at,
+        updated_at = EXCLUDED.updated_at
+    `;
+
+    const params = [
+      data.id,
+      data.itemId,
+      data.requesterId,
+      data.status,
+      data.quantity ?? 1,
+      data.message || null,
+      data.exchangeId || null,
+      data.respondedAt || null,
+      data.createdAt,
+      data.updatedAt
+    ];
+
+    return { query, params };
+  }
+
+  private mapRowToItemRequest(row: ItemRequestRow): ItemRequest {
+    const data: ItemRequestData = {
+      id: row.id,
+      itemId: row.item_id,
+      requesterId: row.requester_id,
+      status: row.status,
+      quantity: row.quantity,
+      message: row.message || undefined,
+      exchangeId: row.exchange_id || undefined,
+      respondedAt: row.responded_at || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+
+    return ItemRequest.fromData(data);
+  }
+}
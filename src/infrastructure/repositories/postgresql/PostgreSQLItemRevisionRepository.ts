@@ -0,0 +1,82 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import {
+  IItemRevisionRepository,
+  ItemRevisionEntry,
+  ItemRevisionSearchResult
+} from '../IItemRevisionRepository';
+import { ItemId } from '../../../domain/item/value-objects/ItemId';
+import { ItemFieldChange } from '../../../domain/item/value-objects/ItemRevision';
+import { DatabaseConnection } from '../../database/DatabaseConnection';
+import { KeysetCursor } from './KeysetCursor';
+
+interface ItemRevisionRow {
+  id: string;
+  item_id: string;
+  version: number;
+  changed_by: string;
+  changes: string | ItemFieldChange[];
+  created_at: Date;
+}
+
+@injectable()
+export class PostgreSQLItemRevisionRepository implements IItemRevisionRepository {
+  private static readonly CURSOR_ORDERING = 'item_revisions:version';
+
+  constructor(
+    @inject(TYPES.DatabaseConnection)
+    private db: DatabaseConnection
+  ) {}
+
+  async findByItemId(
+    itemId: ItemId,
+    limit: number = 20,
+    offset: number = 0,
+    cursor?: string
+  ): Promise<ItemRevisionSearchResult> {
+    const countQuery = 'SELECT COUNT(*) as count FROM item_revisions WHERE item_id = $1';
+    const countResult = await this.db.query<{ count: string }>(countQuery, [itemId.value]);
+    const totalCount = parseInt(countResult.rows[0].count, 10);
+
+    const params: unknown[] = [itemId.value];
+    let keysetCondition = '';
+    if (cursor) {
+      keysetCondition = `AND ${KeysetCursor.after(['version'], 'DESC', 2)}`;
+      params.push(...KeysetCursor.decode(cursor, PostgreSQLItemRevisionRepository.CURSOR_ORDERING, ['number']));
+    }
+
+    // One extra row tells whether there is a next page
+    params.push(limit + 1, cursor ? 0 : offset);
+    const dataQuery = `
+      SELECT * FROM item_revisions
+      WHERE item_id = $1 ${keysetCondition}
+      ORDER BY version DESC
+      LIMIT $${params.length - 1} OFFSET $${params.length}
+    `;
+    const result = await this.db.query<ItemRevisionRow>(dataQuery, params);
+    const page = KeysetCursor.page(
+      result.rows,
+      limit,
+      PostgreSQLItemRevisionRepository.CURSOR_ORDERING,
+      row => [row.version]
+    );
+
+    return {
+      revisions: page.rows.map(row => this.mapRowToEntry(row)),
+      totalCount,
+      hasMore: page.hasMore,
+      nextCursor: page.nextCursor
+    };
+  }
+
+  private mapRowToEntry(row: ItemRevisionRow): ItemRevisionEntry {
+    return {
+      id: row.id,
+      itemId: row.item_id,
+      version: row.version,
+      changedBy: row.changed_by,
+      changes: typeof row.changes === 'string' ? JSON.parse(row.changes) : row.changes,
+      createdAt: row.created_at
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { IPasswordResetTokenRepository } from '../IPasswordResetTokenRepository';
+import { UserId } from '../../../domain/user/value-objects/UserId';
+import { PasswordResetToken } from '../../../domain/user/value-objects/PasswordResetToken';
+import { DatabaseConnection } from '../../database/DatabaseConnection';
+
+interface PasswordResetTokenRow {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  expires_at: Date;
+  used_at: Date | null;
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
+@injectable()
+export class PostgreSQLPasswordResetTokenRepository implements IPasswordResetTokenRepository {
+  constructor(
+    @inject(TYPES.DatabaseConnection)
+    private db: DatabaseConnection
+  ) {}
+
+  async issue(token: PasswordResetToken): Promise<void> {
+    const data = token.toData();
+
+    await this.db.transaction(async (trx) => {
+      await trx.query(
+        `UPDATE password_reset_tokens SET revoked_at = NOW()
+         WHERE user_id = $1 AND used_at IS NULL AND revoked_at IS NULL`,
+        [data.userId]
+      );
+
+      await trx.query(
+        `INSERT INTO password_reset_tokens (id, user_id, token_hash, expires_at, created_at)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [data.id, data.userId, data.tokenHash, data.expiresAt, data.createdAt]
+      );
+    });
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<PasswordResetToken | null> {
+    const result = await this.db.query<PasswordResetTokenRow>(
+      'SELECT * FROM password_reset_tokens WHERE token_hash = $1',
+      [tokenHash]
+    );
+
+    return result.rows.length > 0 ? this.mapRowToToken(result.rows[0]) : null;
+  }
+
+  async markUsed(token: PasswordResetToken): Promise<boolean> {
+    // Conditional on the token still being open, so two requests can't both use it
+    const result = await this.db.query(
+      `UPDATE password_reset_tokens SET used_at = NOW()
+       WHERE id = $1 AND used_at IS NULL AND revoked_at IS NULL`,
+      [token.id]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async findLatestByUserId(userId: UserId): Promise<PasswordResetToken | null> {
+    const result = await this.db.query<PasswordResetTokenRow>(
+      `SELECT * FROM password_reset_tokens
+       WHERE user_id = $1
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [userId.value]
+    );
+
+    return result.rows.length > 0 ? this.mapRowToToken(result.rows[0]) : null;
+  }
+
+  private mapRowToToken(row: PasswordResetTokenRow): PasswordResetToken {
+    return new PasswordResetToken({
+      id: row.id,
+      userId: row.user_id,
+      tokenHash: row.token_hash,
+      expiresAt: row.expires_at,
+      usedAt: row.used_at ?? undefined,
+      revokedAt: row.revoked_at ?? undefined,
+      createdAt: row.created_at
+    });
+  }
+}
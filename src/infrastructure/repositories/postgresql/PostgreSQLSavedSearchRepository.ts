@@ -0,0 +1,208 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { ISavedSearchRepository } from '../ISavedSearchRepository';
+import { IDomainEventOutboxRepository } from '../IDomainEventOutboxRepository';
+import {
+  SavedSearch,
+  SavedSearchData,
+  SavedSearchCriteria,
+  SavedSearchAlertFrequency
+} from '../../../domain/user/SavedSearch';
+import { SavedSearchId } from '../../../domain/user/value-objects/SavedSearchId';
+import { UserId } from '../../../domain/user/value-objects/UserId';
+import { Item } from '../../../domain/item/Item';
+import { ItemId } from '../../../domain/item/value-objects/ItemId';
+import { DatabaseConnection } from '../../database/DatabaseConnection';
+
+interface SavedSearchRow {
+  id: string;
+  user_id: string;
+  name: string;
+  criteria: SavedSearchCriteria;
+  latitude: string | number;
+  longitude: string | number;
+  address: string;
+  alert_frequency: SavedSearchAlertFrequency;
+  last_alerted_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+@injectable()
+export class PostgreSQLSavedSearchRepository implements ISavedSearchRepository {
+  constructor(
+    @inject(TYPES.DatabaseConnection)
+    private db: DatabaseConnection,
+    @inject(TYPES.IDomainEventOutboxRepository)
+    private outboxRepository: IDomainEventOutboxRepository
+  ) {}
+
+  async save(savedSearch: SavedSearch): Promise<void> {
+    const data = savedSearch.toData();
+
+    const query = `
+      INSERT INTO saved_searches (
+        id, user_id, name, criteria, latitude, longitude, address,
+        alert_frequency, last_alerted_at, created_at, updated_at
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        name = EXCLUDED.name,
+        criteria = EXCLUDED.criteria,
+        latitude = EXCLUDED.latitude,
+        longitude = EXCLUDED.longitude,
+        address = EXCLUDED.address,
+        alert_frequency = EXCLUDED.alert_frequency,
+        last_alerted_at = EXCLUDED.last_alerted_at,
+        updated_at = EXCLUDED.updated_at
+    `;
+
+    const params = [
+      data.id,
+      data.userId,
+      data.name,
+      JSON.stringify(data.criteria),
+      data.location.latitude,
+      data.location.longitude,
+      data.location.address,
+      data.alertFrequency,
+      data.lastAlertedAt || null,
+      data.createdAt,
+      data.updatedAt
+    ];
+
+    await this.db.transaction(async (trx) => {
+      await trx.query(query, params);
+      await this.outboxRepository.append(savedSearch.domainEvents);
+    });
+    savedSearch.clearDomainEvents();
+  }
+
+  async findById(id: SavedSearchId): Promise<SavedSearch | null> {
+    const query = 'SELECT * FROM saved_searches WHERE id = $1';
+    const result = await this.db.query<SavedSearchRow>(query, [id.value]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToSavedSearch(result.rows[0]);
+  }
+
+  async delete(id: SavedSearchId): Promise<void> {
+    const query = 'DELETE FROM saved_searches WHERE id = $1';
+    await this.db.query(query, [id.value]);
+  }
+
+  async findByUserId(userId: UserId): Promise<SavedSearch[]> {
+    const query = 'SELECT * FROM saved_searches WHERE user_id = $1 ORDER BY created_at DESC';
+    const result = await this.db.query<SavedSearchRow>(query, [userId.value]);
+    return result.rows.map(row => this.mapRowToSavedSearch(row));
+  }
+
+  async countByUserId(userId: UserId): Promise<number> {
+    const query = 'SELECT COUNT(*) as count FROM saved_searches WHERE user_id = $1';
+    const result = await this.db.query<{ count: string }>(query, [userId.value]);
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  async findAlertCandidatesForItem(item: Item): Promise<SavedSearch[]> {
+    const locationData = item.location.toData();
+
+    // Narrows down by owner and distance; the saved search decides the rest
+    const query = `
+      SELECT * FROM saved_searches
+      WHERE alert_frequency != 'off'
+        AND user_id != $1
+        AND (
+          criteria->>'maxDistance' IS NULL
+          OR ST_DWithin(
+            ST_MakePoint(longitude, latitude)::geography,
+            ST_MakePoint($2, $3)::geography,
+            (criteria->>'maxDistance')::numeric * 1000
+          )
+        )
+    `;
+
+    const result = await this.db.query<SavedSearchRow>(query, [
+      item.userId.value,
+      locationData.longitude,
+      locationData.latitude
+    ]);
+    return result.rows.map(row => this.mapRowToSavedSearch(row));
+  }
+
+  async addMatch(id: SavedSearchId, itemId: ItemId): Promise<boolean> {
+    const query = `
+      INSERT INTO saved_search_matches (saved_search_id, item_id)
+      VALUES ($1, $2)
+      ON CONFLICT (saved_search_id, item_id) DO NOTHING
+    `;
+    const result = await this.db.query(query, [id.value, itemId.value]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async findDueForAlert(digestCutoff: Date, limit: number = 100): Promise<SavedSearch[]> {
+    const query = `
+      SELECT * FROM saved_searches s
+      WHERE (
+          s.alert_frequency = 'immediate'
+          OR (s.alert_frequency = 'daily' AND (s.last_alerted_at IS NULL OR s.last_alerted_at <= $1))
+        )
+        AND EXISTS (
+          SELECT 1 FROM saved_search_matches m
+          WHERE m.saved_search_id = s.id AND m.alerted_at IS NULL
+        )
+      ORDER BY s.last_alerted_at ASC NULLS FIRST
+      LIMIT $2
+    `;
+    const result = await this.db.query<SavedSearchRow>(query, [digestCutoff, limit]);
+    return result.rows.map(row => this.mapRowToSavedSearch(row));
+  }
+
+  async findPendingMatchItemIds(id: SavedSearchId): Promise<ItemId[]> {
+    // Locking the rows keeps an overlapping alert run from sending them twice
+    const query = `
+      SELECT item_id FROM saved_search_matches
+      WHERE saved_search_id = $1 AND alerted_at IS NULL
+      ORDER BY matched_at ASC
+      FOR UPDATE SKIP LOCKED
+    `;
+    const result = await this.db.query<{ item_id: string }>(query, [id.value]);
+    return result.rows.map(row => new ItemId(row.item_id));
+  }
+
+  async markMatchesAlerted(id: SavedSearchId, itemIds: ItemId[]): Promise<void> {
+    if (itemIds.length === 0) {
+      return;
+    }
+
+    const query = `
+      UPDATE saved_search_matches
+      SET alerted_at = NOW()
+      WHERE saved_search_id = $1 AND item_id = ANY($2) AND alerted_at IS NULL
+    `;
+    await this.db.query(query, [id.value, itemIds.map(itemId => itemId.value)]);
+  }
+
+  private mapRowToSavedSearch(row: SavedSearchRow): SavedSearch {
+    const data: SavedSearchData = {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      criteria: row.criteria ?? {},
+      location: {
+        latitude: Number(row.latitude),
+        longitude: Number(row.longitude),
+        address: row.address
+      },
+      alertFrequency: row.alert_frequency,
+      lastAlertedAt: row.last_alerted_at ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+
+    return SavedSearch.fromData(data);
+  }
+}
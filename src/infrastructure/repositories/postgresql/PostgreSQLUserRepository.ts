@@ -1,11 +1,15 @@
 import { injectable, inject } from 'inversify';
 import { TYPES } from '@/container/types';
-import { IUserRepository } from '../IUserRepository';
+import { IUserRepository, UserSearchResult, UserListFilter, LeaderboardPage } from '../IUserRepository';
+import { IDomainEventOutboxRepository } from '../IDomainEventOutboxRepository';
 import { User, UserData } from '../../../domain/user/User';
 import { UserId } from '../../../domain/user/value-objects/UserId';
 import { Email } from '../../../domain/user/value-objects/Email';
 import { Location } from '../../../domain/user/value-objects/Location';
-import { DatabaseConnection } from '../../database/DatabaseConnection';
+import { EcoPointsTransaction } from '../../../domain/user/value-objects/EcoPoints';
+import { AccountStatusChange, AccountStatusValue } from '../../../domain/user/value-objects/AccountStatus';
+import { DatabaseConnection, DatabaseTransaction } from '../../database/DatabaseConnection';
+import { KeysetCursor } from './KeysetCursor';
 
 interface UserRow {
   id: string;
@@ -19,70 +23,48 @@ interface UserRow {
   longitude: number;
   address: string;
   eco_points: number;
-  eco_points_transactions: string | any[];
   rating: number;
   total_exchanges: number;
+  no_show_count: number;
+  account_status: AccountStatusValue;
+  status_reason: string | null;
+  suspended_until: Date | null;
+  status_changed_by: string | null;
+  status_changed_at: Date | null;
   created_at: Date;
   updated_at: Date;
   password_hash?: string | null;
 }
+
+interface AccountStatusChangeRow {
+  id: string;
+  status: AccountStatusValue;
+  reason: string | null;
+  suspended_until: Date | null;
+  changed_by: string | null;
+  created_at: Date;
+}
 
 @injectable()
 export class PostgreSQLUserRepository implements IUserRepository {
+  private static readonly SEARCH_CURSOR_ORDERING = 'users:display_name';
+  private static readonly LEADERBOARD_CURSOR_ORDERING = 'users:eco_points';
+  // A suspension that has run out reads as active without anyone saving the user
+  private static readonly EFFECTIVE_ACCOUNT_STATUS =
+    "CASE WHEN account_status = 'suspended' AND suspended_until <= NOW() THEN 'active' ELSE account_status END";
+
   constructor(
     @inject(TYPES.DatabaseConnection)
-    private db: DatabaseConnection
+    private db: DatabaseConnection,
+    @inject(TYPES.IDomainEventOutboxRepository)
+    private outboxRepository: IDomainEventOutboxRepository
   ) {}
 
   async save(user: User, passwordHash?: string): Promise<void> {
-    const userData = user.toData();
-    
-    const query = `
-      INSERT INTO users (
-        id, email, display_name, phone, avatar, is_verified, account_type,
-        latitude, longitude, address, eco_points, eco_points_transactions,
-        rating, total_exchanges, password_hash, created_at, updated_at
-      ) VALUES (
-        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17
-      )
-      ON CONFLICT (id) DO UPDATE SET
-        display_name = EXCLUDED.display_name,
-        phone = EXCLUDED.phone,
-        avatar = EXCLUDED.avatar,
-        is_verified = EXCLUDED.is_verified,
-        account_type = EXCLUDED.account_type,
-        latitude = EXCLUDED.latitude,
-        longitude = EXCLUDED.longitude,
-        address = EXCLUDED.address,
-        eco_points = EXCLUDED.eco_points,
-        eco_points_transactions = EXCLUDED.eco_points_transactions,
-        rating = EXCLUDED.rating,
-        total_exchanges = EXCLUDED.total_exchanges,
-        password_hash = COALESCE(EXCLUDED.password_hash, users.password_hash),
-        updated_at = EXCLUDED.updated_at
-    `;
-
-    const params = [
-      userData.id,
-      userData.email,
-      userData.profile.displayName,
-      userData.profile.phone || null,
-      userData.profile.avatar || null,
-      userData.profile.isVerified,
-      userData.profile.accountType,
-      userData.location.latitude,
-      userData.location.longitude,
-      userData.location.address,
-      userData.ecoPoints,
-      JSON.stringify(userData.ecoPointsTransactions || []),
-      userData.rating,
-      userData.totalExchanges,
-      passwordHash || null,
-      userData.createdAt,
-      userData.updatedAt
-    ];
-
-    await this.db.query(query, params);
+    await this.db.transaction(async (trx) => {
+      await this.upsertUser(trx, user, passwordHash);
+    });
+    user.clearDomainEvents();
   }
 
   async findById(id: UserId): Promise<User | null> {
@@ -96,6 +78,17 @@ export class PostgreSQLUserRepository implements IUserRepository {
     return this.mapRowToUser(result.rows[0]);
   }
 
+  async findByIdForUpdate(id: UserId): Promise<User | null> {
+    const query = 'SELECT * FROM users WHERE id = $1 FOR UPDATE';
+    const result = await this.db.query<UserRow>(query, [id.value]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToUser(result.rows[0]);
+  }
+
   async findByEmail(email: Email): Promise<User | null> {
     const query = 'SELECT * FROM users WHERE email = $1';
     const result = await this.db.query<UserRow>(query, [email.value]);
@@ -169,6 +162,49 @@ export class PostgreSQLUserRepository implements IUserRepository {
     return result.rows.map(row => this.mapRowToUser(row));
   }
 
+  /**
+   * The cursor also carries the last rank handed out, so ranks keep counting
+   * across pages without knowing the offset.
+   */
+  async findLeaderboard(limit: number = 100, offset: number = 0, cursor?: string): Promise<LeaderboardPage> {
+    const params: unknown[] = [];
+    let keysetCondition = '';
+    let firstRank = offset + 1;
+    if (cursor) {
+      const [ecoPoints, id, lastRank] = KeysetCursor.decode(
+        cursor,
+        PostgreSQLUserRepository.LEADERBOARD_CURSOR_ORDERING,
+        ['number', 'uuid', 'number']
+      );
+      keysetCondition = `WHERE ${KeysetCursor.after(['eco_points', 'id'], 'DESC', 1)}`;
+      params.push(ecoPoints, id);
+      firstRank = Number(lastRank) + 1;
+    }
+
+    // One extra row tells whether there is a next page
+    params.push(limit + 1, cursor ? 0 : offset);
+    const query = `
+      SELECT * FROM users
+      ${keysetCondition}
+      ORDER BY eco_points DESC, id DESC
+      LIMIT $${params.length - 1} OFFSET $${params.length}
+    `;
+    const result = await this.db.query<UserRow>(query, params);
+    const page = KeysetCursor.page(
+      result.rows,
+      limit,
+      PostgreSQLUserRepository.LEADERBOARD_CURSOR_ORDERING,
+      row => [row.eco_points, row.id, firstRank + limit - 1]
+    );
+
+    return {
+      users: page.rows.map(row => this.mapRowToUser(row)),
+      firstRank,
+      hasMore: page.hasMore,
+      nextCursor: page.nextCursor
+    };
+  }
+
   async findByEcoPointsRange(minPoints: number, maxPoints: number): Promise<User[]> {
     const query = `
       SELECT * FROM users 
@@ -194,53 +230,10 @@ export class PostgreSQLUserRepository implements IUserRepository {
 
     await this.db.transaction(async (trx) => {
       for (const user of users) {
-        const userData = user.toData();
-        const query = `
-          INSERT INTO users (
-            id, email, display_name, phone, avatar, is_verified, account_type,
-            latitude, longitude, address, eco_points, eco_points_transactions,
-            rating, total_exchanges, created_at, updated_at
-          ) VALUES (
-            $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16
-          )
-          ON CONFLICT (id) DO UPDATE SET
-            display_name = EXCLUDED.display_name,
-            phone = EXCLUDED.phone,
-            avatar = EXCLUDED.avatar,
-            is_verified = EXCLUDED.is_verified,
-            account_type = EXCLUDED.account_type,
-            latitude = EXCLUDED.latitude,
-            longitude = EXCLUDED.longitude,
-            address = EXCLUDED.address,
-            eco_points = EXCLUDED.eco_points,
-            eco_points_transactions = EXCLUDED.eco_points_transactions,
-            rating = EXCLUDED.rating,
-            total_exchanges = EXCLUDED.total_exchanges,
-            updated_at = EXCLUDED.updated_at
-        `;
-
-        const params = [
-          userData.id,
-          userData.email,
-          userData.profile.displayName,
-          userData.profile.phone || null,
-          userData.profile.avatar || null,
-          userData.profile.isVerified,
-          userData.profile.accountType,
-          userData.location.latitude,
-          userData.location.longitude,
-          userData.location.address,
-          userData.ecoPoints,
-          JSON.stringify(userData.ecoPointsTransactions || []),
-          userData.rating,
-          userData.totalExchanges,
-          userData.createdAt,
-          userData.updatedAt
-        ];
-
-        await trx.query(query, params);
+        await this.upsertUser(trx, user);
       }
     });
+    users.forEach(user => user.clearDomainEvents());
   }
 
   async findByIds(ids: UserId[]): Promise<User[]> {
@@ -276,15 +269,100 @@ export class PostgreSQLUserRepository implements IUserRepository {
     return parseInt(result.rows[0].total_points, 10) || 0;
   }
 
-  async searchByDisplayName(searchTerm: string, limit: number = 50): Promise<User[]> {
+  async searchByDisplayName(
+    searchTerm: string,
+    limit: number = 50,
+    offset: number = 0,
+    cursor?: string
+  ): Promise<UserSearchResult> {
+    const pattern = `%${searchTerm}%`;
+    const countQuery = 'SELECT COUNT(*) as count FROM users WHERE display_name ILIKE $1';
+    const countResult = await this.db.query<{ count: string }>(countQuery, [pattern]);
+    const totalCount = parseInt(countResult.rows[0].count, 10);
+
+    const params: unknown[] = [pattern];
+    let keysetCondition = '';
+    if (cursor) {
+      keysetCondition = `AND ${KeysetCursor.after(['display_name', 'id'], 'ASC', 2)}`;
+      params.push(...KeysetCursor.decode(cursor, PostgreSQLUserRepository.SEARCH_CURSOR_ORDERING, ['text', 'uuid']));
+    }
+
+    // One extra row tells whether there is a next page
+    params.push(limit + 1, cursor ? 0 : offset);
     const query = `
       SELECT * FROM users 
-      WHERE display_name ILIKE $1
-      ORDER BY display_name
-      LIMIT $2
+      WHERE display_name ILIKE $1 ${keysetCondition}
+      ORDER BY display_name, id
+      LIMIT $${params.length - 1} OFFSET $${params.length}
     `;
-    const result = await this.db.query<UserRow>(query, [`%${searchTerm}%`, limit]);
-    return result.rows.map(row => this.mapRowToUser(row));
+    const result = await this.db.query<UserRow>(query, params);
+    const page = KeysetCursor.page(
+      result.rows,
+      limit,
+      PostgreSQLUserRepository.SEARCH_CURSOR_ORDERING,
+      row => [row.display_name, row.id]
+    );
+
+    return {
+      users: page.rows.map(row => this.mapRowToUser(row)),
+      totalCount,
+      hasMore: page.hasMore,
+      nextCursor: page.nextCursor
+    };
+  }
+
+  async listUsers(filter: UserListFilter, limit: number = 50, offset: number = 0): Promise<UserSearchResult> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.search) {
+      params.push(`%${filter.search}%`);
+      conditions.push(`(display_name ILIKE $${params.length} OR email ILIKE $${params.length})`);
+    }
+    if (filter.status) {
+      params.push(filter.status);
+      conditions.push(`${PostgreSQLUserRepository.EFFECTIVE_ACCOUNT_STATUS} = $${params.length}`);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const countResult = await this.db.query<{ count: string }>(
+      `SELECT COUNT(*) as count FROM users ${whereClause}`,
+      params
+    );
+    const totalCount = parseInt(countResult.rows[0].count, 10);
+
+    params.push(limit, offset);
+    const query = `
+      SELECT * FROM users
+      ${whereClause}
+      ORDER BY created_at DESC, id
+      LIMIT $${params.length - 1} OFFSET $${params.length}
+    `;
+    const result = await this.db.query<UserRow>(query, params);
+
+    return {
+      users: result.rows.map(row => this.mapRowToUser(row)),
+      totalCount,
+      hasMore: offset + result.rows.length < totalCount
+    };
+  }
+
+  async findStatusHistory(userId: UserId): Promise<AccountStatusChange[]> {
+    const query = `
+      SELECT * FROM account_status_changes
+      WHERE user_id = $1
+      ORDER BY created_at DESC, id
+    `;
+    const result = await this.db.query<AccountStatusChangeRow>(query, [userId.value]);
+
+    return result.rows.map(row => ({
+      id: row.id,
+      status: row.status,
+      reason: row.reason ?? undefined,
+      suspendedUntil: row.suspended_until ?? undefined,
+      changedBy: row.changed_by ?? undefined,
+      changedAt: row.created_at
+    }));
   }
 
   async findUsersWithMinimumRating(minRating: number): Promise<User[]> {
@@ -297,6 +375,133 @@ export class PostgreSQLUserRepository implements IUserRepository {
     return result.rows.map(row => this.mapRowToUser(row));
   }
 
+  /**
+   * Upserts the user row, appends pending eco-points transactions to the ledger
+   * and status changes to the audit trail, and writes recorded domain events to
+   * the outbox. The cached balance only grows by ledger rows that were actually
+   * inserted, so replayed awards cannot double-count.
+   */
+  private async upsertUser(trx: DatabaseTransaction, user: User, passwordHash?: string): Promise<void> {
+    const userData = user.toData();
+
+    const query = `
+      INSERT INTO users (
+        id, email, display_name, phone, avatar, is_verified, account_type,
+        latitude, longitude, address, eco_points,
+        rating, total_exchanges, no_show_count, account_status, status_reason, suspended_until,
+        status_changed_by, status_changed_at, password_hash, created_at, updated_at
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 0, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        display_name = EXCLUDED.display_name,
+        phone = EXCLUDED.phone,
+        avatar = EXCLUDED.avatar,
+        is_verified = EXCLUDED.is_verified,
+        account_type = EXCLUDED.account_type,
+        latitude = EXCLUDED.latitude,
+        longitude = EXCLUDED.longitude,
+        address = EXCLUDED.address,
+        rating = EXCLUDED.rating,
+        total_exchanges = EXCLUDED.total_exchanges,
+        no_show_count = EXCLUDED.no_show_count,
+        account_status = EXCLUDED.account_status,
+        status_reason = EXCLUDED.status_reason,
+        suspended_until = EXCLUDED.suspended_until,
+        status_changed_by = EXCLUDED.status_changed_by,
+        status_changed_at = EXCLUDED.status_changed_at,
+        password_hash = COALESCE(EXCLUDED.password_hash, users.password_hash),
+        updated_at = EXCLUDED.updated_at
+    `;
+
+    const params = [
+      userData.id,
+      userData.email,
+      userData.profile.displayName,
+      userData.profile.phone || null,
+      userData.profile.avatar || null,
+      userData.profile.isVerified,
+      userData.profile.accountType,
+      userData.location.latitude,
+      userData.location.longitude,
+      userData.location.address,
+      userData.rating,
+      userData.totalExchanges,
+      userData.noShowCount ?? 0,
+      userData.accountStatus?.value ?? 'active',
+      userData.accountStatus?.reason ?? null,
+      userData.accountStatus?.suspendedUntil ?? null,
+      userData.accountStatus?.changedBy ?? null,
+      userData.accountStatus?.changedAt ?? null,
+      passwordHash || null,
+      userData.createdAt,
+      userData.updatedAt
+    ];
+
+    await trx.query(query, params);
+    await this.appendPointsTransactions(trx, userData.id, userData.pendingEcoPointsTransactions || []);
+    await this.appendStatusChanges(trx, userData.id, userData.pendingStatusChanges || []);
+    await this.outboxRepository.append(user.domainEvents);
+  }
+
+  private async appendPointsTransactions(
+    trx: DatabaseTransaction,
+    userId: string,
+    transactions: EcoPointsTransaction[]
+  ): Promise<void> {
+    if (transactions.length === 0) return;
+
+    const query = `
+      INSERT INTO eco_points_ledger (user_id, points, reason, idempotency_key, created_at)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (idempotency_key) DO NOTHING
+      RETURNING points
+    `;
+
+    let appliedPoints = 0;
+    for (const transaction of transactions) {
+      const result = await trx.query<{ points: number }>(query, [
+        userId,
+        transaction.points,
+        transaction.reason,
+        transaction.idempotencyKey,
+        transaction.timestamp
+      ]);
+      appliedPoints += result.rows.reduce((sum, row) => sum + row.points, 0);
+    }
+
+    if (appliedPoints !== 0) {
+      await trx.query(
+        'UPDATE users SET eco_points = eco_points + $1 WHERE id = $2',
+        [appliedPoints, userId]
+      );
+    }
+  }
+
+  private async appendStatusChanges(
+    trx: DatabaseTransaction,
+    userId: string,
+    changes: AccountStatusChange[]
+  ): Promise<void> {
+    const query = `
+      INSERT INTO account_status_changes (id, user_id, status, reason, suspended_until, changed_by, created_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (id) DO NOTHING
+    `;
+
+    for (const change of changes) {
+      await trx.query(query, [
+        change.id,
+        userId,
+        change.status,
+        change.reason ?? null,
+        change.suspendedUntil ?? null,
+        change.changedBy ?? null,
+        change.changedAt
+      ]);
+    }
+  }
+
   private mapRowToUser(row: UserRow): User {
     const userData: UserData = {
       id: row.id,
@@ -314,11 +519,16 @@ export class PostgreSQLUserRepository implements IUserRepository {
         address: row.address
       },
       ecoPoints: row.eco_points,
-      ecoPointsTransactions: typeof row.eco_points_transactions === 'string' 
-        ? JSON.parse(row.eco_points_transactions) 
-        : row.eco_points_transactions,
       rating: row.rating,
       totalExchanges: row.total_exchanges,
+      noShowCount: row.no_show_count,
+      accountStatus: {
+        value: row.account_status,
+        reason: row.status_reason ?? undefined,
+        suspendedUntil: row.suspended_until ?? undefined,
+        changedBy: row.status_changed_by ?? undefined,
+        changedAt: row.status_changed_at ?? undefined
+      },
       createdAt: row.created_at,
       updatedAt: row.updated_at
     };
@@ -0,0 +1,72 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import { IUserRoleRepository } from '../IUserRoleRepository';
+import { UserId } from '../../../domain/user/value-objects/UserId';
+import { UserRole, UserRoleValue } from '../../../domain/user/value-objects/UserRole';
+import { DatabaseConnection } from '../../database/DatabaseConnection';
+
+interface UserRoleRow {
+  user_id: string;
+  role: UserRoleValue;
+}
+
+@injectable()
+export class PostgreSQLUserRoleRepository implements IUserRoleRepository {
+  constructor(
+    @inject(TYPES.DatabaseConnection)
+    private db: DatabaseConnection
+  ) {}
+
+  async findByUserId(userId: UserId): Promise<UserRole[]> {
+    const result = await this.db.query<UserRoleRow>(
+      'SELECT user_id, role FROM user_roles WHERE user_id = $1 ORDER BY role',
+      [userId.value]
+    );
+
+    return result.rows.map(row => new UserRole(row.role));
+  }
+
+  async findByUserIds(userIds: UserId[]): Promise<Map<string, UserRole[]>> {
+    const roles = new Map<string, UserRole[]>();
+    if (userIds.length === 0) {
+      return roles;
+    }
+
+    const result = await this.db.query<UserRoleRow>(
+      'SELECT user_id, role FROM user_roles WHERE user_id = ANY($1) ORDER BY role',
+      [userIds.map(id => id.value)]
+    );
+
+    for (const row of result.rows) {
+      roles.set(row.user_id, [...(roles.get(row.user_id) || []), new UserRole(row.role)]);
+    }
+    return roles;
+  }
+
+  async grant(userId: UserId, role: UserRole, grantedBy?: UserId): Promise<void> {
+    await this.db.query(
+      `INSERT INTO user_roles (user_id, role, granted_by)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (user_id, role) DO NOTHING`,
+      [userId.value, role.value, grantedBy?.value ?? null]
+    );
+  }
+
+  async revoke(userId: UserId, role: UserRole): Promise<boolean> {
+    const result = await this.db.query(
+      'DELETE FROM user_roles WHERE user_id = $1 AND role = $2',
+      [userId.value, role.value]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async countUsersWithRole(role: UserRole): Promise<number> {
+    const result = await this.db.query<{ count: string }>(
+      'SELECT COUNT(*) as count FROM user_roles WHERE role = $1',
+      [role.value]
+    );
+
+    return parseInt(result.rows[0].count, 10);
+  }
+}
@@ -0,0 +1,279 @@
+import { injectable, inject } from 'inversify';
+import { TYPES } from '@/container/types';
+import {
+  IWantedPostRepository,
+  WantedPostSearchCriteria,
+  WantedPostSearchResult
+} from '../IWantedPostRepository';
+import { IDomainEventOutboxRepository } from '../IDomainEventOutboxRepository';
+import { WantedPost, WantedPostData, WantedPostStatus } from '../../../domain/wanted/WantedPost';
+import { WantedPostId } from '../../../domain/wanted/value-objects/WantedPostId';
+import { UserId } from '../../../domain/user/value-objects/UserId';
+import { ExchangeId } from '../../../domain/exchange/value-objects/ExchangeId';
+import { DatabaseConnection } from '../../database/DatabaseConnection';
+import { KeysetCursor } from './KeysetCursor';
+
+interface WantedPostResponseRow {
+  item_id: string;
+  responder_id: string;
+  exchange_id: string;
+  responded_at: string; // Comes back as JSON, so not parsed into a Date
+}
+
+interface WantedPostRow {
+  id: string;
+  user_id: string;
+  title: string;
+  description?: string | null;
+  category: string;
+  tags: string[];
+  latitude: string | number;
+  longitude: string | number;
+  address: string;
+  radius_km: string | number;
+  status: WantedPostStatus;
+  responses: WantedPostResponseRow[];
+  closed_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
+  cursor_created_at?: string;
+}
+
+@injectable()
+export class PostgreSQLWantedPostRepository implements IWantedPostRepository {
+  private static readonly CURSOR_ORDERING = 'wanted_posts:created_at';
+
+  // Responses are loaded with the post they belong to
+  private static readonly SELECT_COLUMNS = `
+    w.*,
+    COALESCE((
+      SELECT json_agg(r ORDER BY r.responded_at)
+      FROM wanted_post_responses r
+      WHERE r.wanted_post_id = w.id
+    ), '[]'::json) AS responses
+  `;
+
+  constructor(
+    @inject(TYPES.DatabaseConnection)
+    private db: DatabaseConnection,
+    @inject(TYPES.IDomainEventOutboxRepository)
+    private outboxRepository: IDomainEventOutboxRepository
+  ) {}
+
+  async save(wantedPost: WantedPost): Promise<void> {
+    const data = wantedPost.toData();
+
+    const query = `
+      INSERT INTO wanted_posts (
+        id, user_id, title, description, category, tags, latitude, longitude,
+        address, radius_km, status, closed_at, created_at, updated_at
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14
+      )
+      ON CONFLICT (id) DO UPDATE SET
+        title = EXCLUDED.title,
+        description = EXCLUDED.description,
+        category = EXCLUDED.category,
+        tags = EXCLUDED.tags,
+        latitude = EXCLUDED.latitude,
+        longitude = EXCLUDED.longitude,
+        address = EXCLUDED.address,
+        radius_km = EXCLUDED.radius_km,
+        status = EXCLUDED.status,
+        closed_at = EXCLUDED.closed_at,
+        updated_at = EXCLUDED.updated_at
+    `;
+
+    const params = [
+      data.id,
+      data.userId,
+      data.title,
+      data.description || null,
+      data.category,
+      JSON.stringify(data.tags),
+      data.location.latitude,
+      data.location.longitude,
+      data.location.address,
+      data.radiusKm,
+      data.status,
+      data.closedAt || null,
+      data.createdAt,
+      data.updatedAt
+    ];
+
+    // Responses are never changed once recorded
+    const responseQuery = `
+      INSERT INTO wanted_post_responses (wanted_post_id, item_id, responder_id, exchange_id, responded_at)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (wanted_post_id, item_id) DO NOTHING
+    `;
+
+    await this.db.transaction(async (trx) => {
+      await trx.query(query, params);
+      for (const response of data.responses) {
+        await trx.query(responseQuery, [
+          data.id,
+          response.itemId,
+          response.responderId,
+          response.exchangeId,
+          response.respondedAt
+        ]);
+      }
+      await this.outboxRepository.append(wantedPost.domainEvents);
+    });
+    wantedPost.clearDomainEvents();
+  }
+
+  async findById(id: WantedPostId): Promise<WantedPost | null> {
+    const query = `SELECT ${PostgreSQLWantedPostRepository.SELECT_COLUMNS} FROM wanted_posts w WHERE w.id = $1`;
+    const result = await this.db.query<WantedPostRow>(query, [id.value]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToWantedPost(result.rows[0]);
+  }
+
+  async findByUserId(userId: UserId): Promise<WantedPost[]> {
+    const query = `
+      SELECT ${PostgreSQLWantedPostRepository.SELECT_COLUMNS} FROM wanted_posts w
+      WHERE w.user_id = $1
+      ORDER BY w.created_at DESC
+    `;
+    const result = await this.db.query<WantedPostRow>(query, [userId.value]);
+    return result.rows.map(row => this.mapRowToWantedPost(row));
+  }
+
+  async countOpenByUserId(userId: UserId): Promise<number> {
+    const query = `SELECT COUNT(*) as count FROM wanted_posts WHERE user_id = $1 AND status = 'open'`;
+    const result = await this.db.query<{ count: string }>(query, [userId.value]);
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  async findByResponseExchangeId(exchangeId: ExchangeId): Promise<WantedPost | null> {
+    const query = `
+      SELECT ${PostgreSQLWantedPostRepository.SELECT_COLUMNS} FROM wanted_posts w
+      WHERE w.id = (SELECT wanted_post_id FROM wanted_post_responses WHERE exchange_id = $1 LIMIT 1)
+    `;
+    const result = await this.db.query<WantedPostRow>(query, [exchangeId.value]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.mapRowToWantedPost(result.rows[0]);
+  }
+
+  async search(
+    criteria: WantedPostSearchCriteria,
+    limit: number = 20,
+    offset: number = 0,
+    cursor?: string
+  ): Promise<WantedPostSearchResult> {
+    const whereConditions: string[] = [];
+    const params: unknown[] = [];
+    let paramIndex = 1;
+
+    if (criteria.category) {
+      whereConditions.push(`w.category = $${paramIndex}`);
+      params.push(criteria.category.trim().toLowerCase());
+      paramIndex++;
+    }
+
+    if (criteria.tags && criteria.tags.length > 0) {
+      whereConditions.push(`w.tags ?| $${paramIndex}::text[]`);
+      params.push(criteria.tags.map(tag => tag.trim().toLowerCase()));
+      paramIndex++;
+    }
+
+    if (criteria.status) {
+      whereConditions.push(`w.status = $${paramIndex}`);
+      params.push(criteria.status);
+      paramIndex++;
+    }
+
+    if (criteria.userId) {
+      whereConditions.push(`w.user_id = $${paramIndex}`);
+      params.push(criteria.userId.value);
+      paramIndex++;
+    }
+
+    if (criteria.reachableFrom) {
+      whereConditions.push(`ST_DWithin(
+        ST_MakePoint(w.longitude, w.latitude)::geography,
+        ST_MakePoint($${paramIndex}, $${paramIndex + 1})::geography,
+        w.radius_km * 1000
+      )`);
+      params.push(criteria.reachableFrom.longitude, criteria.reachableFrom.latitude);
+      paramIndex += 2;
+    }
+
+    const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+    const countQuery = `SELECT COUNT(*) as count FROM wanted_posts w ${whereClause}`;
+    const countResult = await this.db.query<{ count: string }>(countQuery, params);
+    const totalCount = parseInt(countResult.rows[0].count, 10);
+
+    if (cursor) {
+      whereConditions.push(KeysetCursor.after(['w.created_at', 'w.id'], 'DESC', paramIndex));
+      params.push(...KeysetCursor.decode(cursor, PostgreSQLWantedPostRepository.CURSOR_ORDERING, ['timestamp', 'uuid']));
+      paramIndex += 2;
+    }
+    const pageWhereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+
+    // One extra row tells whether there is a next page
+    const dataQuery = `
+      SELECT ${PostgreSQLWantedPostRepository.SELECT_COLUMNS}, w.created_at::text AS cursor_created_at
+      FROM wanted_posts w
+      ${pageWhereClause}
+      ORDER BY w.created_at DESC, w.id DESC
+      LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
+    `;
+    params.push(limit + 1, cursor ? 0 : offset);
+
+    const result = await this.db.query<WantedPostRow>(dataQuery, params);
+    const page = KeysetCursor.page(
+      result.rows,
+      limit,
+      PostgreSQLWantedPostRepository.CURSOR_ORDERING,
+      row => [row.cursor_created_at!, row.id]
+    );
+
+    return {
+      wantedPosts: page.rows.map(row => this.mapRowToWantedPost(row)),
+      totalCount,
+      hasMore: page.hasMore,
+      nextCursor: page.nextCursor
+    };
+  }
+
+  private mapRowToWantedPost(row: WantedPostRow): WantedPost {
+    const data: WantedPostData = {
+      id: row.id,
+      userId: row.user_id,
+      title: row.title,
+      description: row.description ?? undefined,
+      category: row.category,
+      tags: row.tags ?? [],
+      location: {
+        latitude: Number(row.latitude),
+        longitude: Number(row.longitude),
+        address: row.address
+      },
+      radiusKm: Number(row.radius_km),
+      status: row.status,
+      responses: (row.responses ?? []).map(response => ({
+        itemId: response.item_id,
+        responderId: response.responder_id,
+        exchangeId: response.exchange_id,
+        respondedAt: new Date(response.responded_at)
+      })),
+      closedAt: row.closed_at ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+
+    return WantedPost.fromData(data);
+  }
+}
@@ -0,0 +1,57 @@
+import { randomUUID } from 'crypto';
+import { KeysetCursor, InvalidCursorError } from '../KeysetCursor';
+
+const id = randomUUID();
+
+describe('KeysetCursor', () => {
+  it('round-trips the sort key of the last row on a page', () => {
+    const rows = [
+      { createdAt: '2026-03-02 10:00:00.123456+00', id: 'c' },
+      { createdAt: '2026-03-01 09:00:00.000001+00', id },
+      { createdAt: '2026-02-28 08:00:00+00', id: 'a' }
+    ];
+
+    const page = KeysetCursor.page(rows, 2, 'items:created_at', row => [row.createdAt, row.id]);
+
+    expect(page.rows).toHaveLength(2);
+    expect(page.hasMore).toBe(true);
+    expect(KeysetCursor.decode(page.nextCursor!, 'items:created_at', ['timestamp', 'uuid']))
+      .toEqual(['2026-03-01 09:00:00.000001+00', id]);
+  });
+
+  it('has no next cursor on the last page', () => {
+    const page = KeysetCursor.page([{ id: 'a' }], 2, 'users:display_name', row => [row.id]);
+
+    expect(page.hasMore).toBe(false);
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it('rejects cursors that are malformed or belong to another list', () => {
+    const cursor = KeysetCursor.encode('exchanges:created_at', ['2026-03-01 09:00:00+00', id]);
+
+    expect(() => KeysetCursor.decode(cursor, 'items:created_at', ['timestamp', 'uuid'])).toThrow(InvalidCursorError);
+    expect(() => KeysetCursor.decode(cursor, 'exchanges:created_at', ['timestamp', 'uuid', 'number'])).toThrow(InvalidCursorError);
+    expect(() => KeysetCursor.decode('not-a-cursor', 'exchanges:created_at', ['timestamp', 'uuid'])).toThrow(InvalidCursorError);
+    expect(() => KeysetCursor.decode(KeysetCursor.encode('exchanges:created_at', [{}, id] as never), 'exchanges:created_at', ['timestamp', 'uuid']))
+      .toThrow(InvalidCursorError);
+  });
+
+  it('rejects cursors whose values are not what the list sorts by', () => {
+    const decode = (values: unknown[], kinds: Parameters<typeof KeysetCursor.decode>[2]) =>
+      () => KeysetCursor.decode(KeysetCursor.encode('list', values as never), 'list', kinds);
+
+    expect(decode(['2026-03-01T09:00:00.123Z', id], ['timestamp', 'uuid'])).not.toThrow();
+    expect(decode(['yesterday', id], ['timestamp', 'uuid'])).toThrow(InvalidCursorError);
+    expect(decode(['2026-02-30 09:00:00+00', id], ['timestamp', 'uuid'])).toThrow(InvalidCursorError);
+    expect(decode(['2026-03-01 09:00:00+00', 'not-a-uuid'], ['timestamp', 'uuid'])).toThrow(InvalidCursorError);
+    expect(decode([12.5, id, 40], ['number', 'uuid', 'number'])).not.toThrow();
+    expect(decode(['12.5', id, 40], ['number', 'uuid', 'number'])).toThrow(InvalidCursorError);
+    expect(decode([1e400, id, 40], ['number', 'uuid', 'number'])).toThrow(InvalidCursorError);
+    expect(decode([7, id], ['text', 'uuid'])).toThrow(InvalidCursorError);
+  });
+
+  it('builds a row comparison for the columns after the cursor', () => {
+    expect(KeysetCursor.after(['created_at', 'id'], 'DESC', 3)).toBe('(created_at, id) < ($3, $4)');
+    expect(KeysetCursor.after(['display_name', 'id'], 'ASC', 1)).toBe('(display_name, id) > ($1, $2)');
+  });
+});
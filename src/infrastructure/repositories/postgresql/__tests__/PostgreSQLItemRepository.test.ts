@@ -0,0 +1,120 @@
+import 'reflect-metadata';
+import { PostgreSQLItemRepository } from '../PostgreSQLItemRepository';
+import { IDomainEventOutboxRepository } from '../../IDomainEventOutboxRepository';
+import { ItemSearchCriteria } from '../../IItemRepository';
+import { DatabaseConnection } from '../../../database/DatabaseConnection';
+import { Location } from '../../../../domain/user/value-objects/Location';
+
+const location = new Location({ latitude: 40.7128, longitude: -74.006, address: 'New York, NY' });
+
+const criteria: ItemSearchCriteria = {
+  searchTerm: 'oak shelf',
+  categories: ['Furniture'],
+  conditions: ['good', 'new'],
+  tags: ['wood'],
+  status: 'available',
+  userLocation: location,
+  maxDistance: 10
+};
+
+// Everything after FROM, where each facet's filters live
+const filtersOf = (sql: string): string => sql.slice(sql.indexOf('FROM items'));
+
+describe('PostgreSQLItemRepository search facets', () => {
+  let db: Record<'query', jest.Mock>;
+  let repository: PostgreSQLItemRepository;
+
+  const facetCall = (marker: string): [string, unknown[]] => {
+    const call = db.query.mock.calls.find(([sql]) => sql.includes(marker));
+    expect(call).toBeDefined();
+    return call as [string, unknown[]];
+  };
+
+  beforeEach(() => {
+    db = {
+      query: jest.fn(async (sql: string) => {
+        if (sql.includes('GROUP BY category')) {
+          return { rows: [{ value: 'furniture', count: '4' }, { value: 'books', count: '2' }] };
+        }
+        if (sql.includes('GROUP BY condition')) {
+          return { rows: [{ value: 'good', count: '3' }] };
+        }
+        if (sql.includes('GROUP BY tag')) {
+          return { rows: [{ value: 'wood', count: '5' }] };
+        }
+        return { rows: [{ bucket_0: '1', bucket_1: '2', bucket_2: '4', bucket_3: '4', bucket_4: '6' }] };
+      })
+    };
+
+    repository = new PostgreSQLItemRepository(
+      db as unknown as DatabaseConnection,
+      {} as IDomainEventOutboxRepository
+    );
+  });
+
+  it('counts categories under every filter except the category one', async () => {
+    const { categories } = await repository.getSearchFacets(criteria);
+
+    const [sql, params] = facetCall('GROUP BY category');
+    expect(filtersOf(sql)).not.toContain('category = ANY');
+    expect(filtersOf(sql)).toContain('search_vector @@');
+    expect(filtersOf(sql)).toContain('condition = ANY');
+    expect(filtersOf(sql)).toContain('tags::jsonb ?|');
+    expect(filtersOf(sql)).toContain('ST_DWithin');
+    expect(params).toEqual(['oak shelf', ['good', 'new'], ['wood'], 'available', -74.006, 40.7128, 10]);
+    expect(categories).toEqual([{ value: 'furniture', count: 4 }, { value: 'books', count: 2 }]);
+  });
+
+  it('counts conditions under every filter except the condition one', async () => {
+    const { conditions } = await repository.getSearchFacets(criteria);
+
+    const [sql, params] = facetCall('GROUP BY condition');
+    expect(filtersOf(sql)).not.toContain('condition = ANY');
+    expect(filtersOf(sql)).toContain('category = ANY');
+    expect(filtersOf(sql)).toContain('tags::jsonb ?|');
+    expect(filtersOf(sql)).toContain('ST_DWithin');
+    expect(params).toEqual(['oak shelf', ['furniture'], ['wood'], 'available', -74.006, 40.7128, 10]);
+    expect(conditions).toEqual([{ value: 'good', count: 3 }]);
+  });
+
+  it('counts tags under every filter except the tag one', async () => {
+    const { tags } = await repository.getSearchFacets(criteria);
+
+    const [sql, params] = facetCall('GROUP BY tag');
+    expect(filtersOf(sql)).not.toContain('tags::jsonb ?|');
+    expect(filtersOf(sql)).toContain('category = ANY');
+    expect(filtersOf(sql)).toContain('condition = ANY');
+    expect(filtersOf(sql)).toContain('ST_DWithin');
+    // The last parameter is the tag limit
+    expect(params).toEqual(['oak shelf', ['furniture'], ['good', 'new'], 'available', -74.006, 40.7128, 10, 20]);
+    expect(tags).toEqual([{ value: 'wood', count: 5 }]);
+  });
+
+  it('counts distance buckets under every filter except the distance one', async () => {
+    const { distances } = await repository.getSearchFacets(criteria);
+
+    const [sql, params] = facetCall('bucket_0');
+    expect(filtersOf(sql)).not.toContain('ST_DWithin');
+    expect(filtersOf(sql)).toContain('category = ANY');
+    expect(filtersOf(sql)).toContain('condition = ANY');
+    expect(filtersOf(sql)).toContain('tags::jsonb ?|');
+    // The last two parameters are the origin the buckets are measured from
+    expect(params).toEqual(['oak shelf', ['furniture'], ['good', 'new'], ['wood'], 'available', -74.006, 40.7128]);
+    expect(distances).toEqual([
+      { maxDistanceKm: 1, count: 1 },
+      { maxDistanceKm: 5, count: 2 },
+      { maxDistanceKm: 10, count: 4 },
+      { maxDistanceKm: 25, count: 4 },
+      { maxDistanceKm: 50, count: 6 }
+    ]);
+  });
+
+  it('skips the distance facet when the search has no location', async () => {
+    const { distances } = await repository.getSearchFacets({ ...criteria, userLocation: undefined });
+
+    expect(distances).toEqual([]);
+    expect(db.query).toHaveBeenCalledTimes(3);
+    const [, params] = facetCall('GROUP BY category');
+    expect(params).toEqual(['oak shelf', ['good', 'new'], ['wood'], 'available']);
+  });
+});
@@ -0,0 +1,85 @@
+import 'reflect-metadata';
+import { randomUUID } from 'crypto';
+import { PostgreSQLUserRepository } from '../PostgreSQLUserRepository';
+import { IDomainEventOutboxRepository } from '../../IDomainEventOutboxRepository';
+import { DatabaseConnection, DatabaseTransaction } from '../../../database/DatabaseConnection';
+import { buildUser } from '../../../../domain/user/__fixtures__/buildUser';
+
+/**
+ * Keeps just enough of the ledger and the cached balance to behave like
+ * PostgreSQL for the statements the repository sends when saving points.
+ */
+class FakeLedgerDatabase {
+  readonly ledger = new Map<string, number>(); // Idempotency key to points
+  balance = 0;
+
+  readonly transaction = async <T>(callback: (trx: DatabaseTransaction) => Promise<T>): Promise<T> =>
+    callback({
+      query: async (text: string, params: any[] = []) => this.query(text, params),
+      commit: async () => undefined,
+      rollback: async () => undefined
+    });
+
+  private async query(text: string, params: any[]): Promise<any> {
+    if (text.includes('INSERT INTO eco_points_ledger')) {
+      const [, points, , idempotencyKey] = params;
+      if (this.ledger.has(idempotencyKey)) {
+        return { rows: [], rowCount: 0 };
+      }
+      this.ledger.set(idempotencyKey, points);
+      return { rows: [{ points }], rowCount: 1 };
+    }
+    if (text.includes('UPDATE users SET eco_points')) {
+      this.balance += params[0];
+      return { rows: [], rowCount: 1 };
+    }
+    return { rows: [], rowCount: 0 };
+  }
+}
+
+describe('PostgreSQLUserRepository eco-points ledger', () => {
+  let db: FakeLedgerDatabase;
+  let repository: PostgreSQLUserRepository;
+
+  beforeEach(() => {
+    db = new FakeLedgerDatabase();
+    const outboxRepository = { append: jest.fn(async () => undefined) };
+
+    repository = new PostgreSQLUserRepository(
+      db as unknown as DatabaseConnection,
+      outboxRepository as unknown as IDomainEventOutboxRepository
+    );
+  });
+
+  it('credits an award once when the same idempotency key is replayed', async () => {
+    const userId = randomUUID();
+    const key = `exchange:${randomUUID()}:giver`;
+
+    const user = buildUser('Giver', { id: userId });
+    user.awardPoints(25, 'Exchange completed', key);
+    await repository.save(user);
+    expect(db.balance).toBe(25);
+
+    // The same award delivered again, as a retried event handler would
+    const replayed = buildUser('Giver', { id: userId });
+    replayed.awardPoints(25, 'Exchange completed', key);
+    await repository.save(replayed);
+
+    // Saving the first copy again resends its pending transactions too
+    await repository.save(user);
+
+    expect(db.ledger.size).toBe(1);
+    expect(db.balance).toBe(25);
+  });
+
+  it('credits awards with different keys separately', async () => {
+    const user = buildUser('Giver');
+    user.awardPoints(10, 'Item posted', `item:${randomUUID()}`);
+    user.awardPoints(25, 'Exchange completed', `exchange:${randomUUID()}:giver`);
+
+    await repository.save(user);
+
+    expect(db.ledger.size).toBe(2);
+    expect(db.balance).toBe(35);
+  });
+});
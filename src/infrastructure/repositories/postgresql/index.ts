@@ -1,3 +1,11 @@
 export { PostgreSQLUserRepository } from './PostgreSQLUserRepository';
 export { PostgreSQLItemRepository } from './PostgreSQLItemRepository';
-export { PostgreSQLExchangeRepository } from './PostgreSQLExchangeRepository';
\ No newline at end of file
+export { PostgreSQLExchangeRepository } from './PostgreSQLExchangeRepository';
+export { PostgreSQLItemRequestRepository } from './PostgreSQLItemRequestRepository';
+export { PostgreSQLExchangeMessageRepository } from './PostgreSQLExchangeMessageRepository';
+export { PostgreSQLExchangeDisputeRepository } from './PostgreSQLExchangeDisputeRepository';
+export { PostgreSQLSavedSearchRepository } from './PostgreSQLSavedSearchRepository';
+export { PostgreSQLWantedPostRepository } from './PostgreSQLWantedPostRepository';
+export { PostgreSQLEcoPointsLedgerRepository } from './PostgreSQLEcoPointsLedgerRepository';
+export { PostgreSQLItemRevisionRepository } from './PostgreSQLItemRevisionRepository';
+export { PostgreSQLDomainEventOutboxRepository } from './PostgreSQLDomainEventOutboxRepository';
\ No newline at end of file
@@ -64,6 +64,13 @@ export interface IAuthenticationService {
    */
   revokeToken(token: string): Promise<void>;
 
+  /**
+   * Revoke every session of a user (sign out of all devices)
+   * @param userId - The user whose tokens to revoke
+   * @returns Promise that resolves when the tokens are revoked
+   */
+  revokeAllTokens(userId: string): Promise<void>;
+
   /**
    * Get user information from a token
    * @param token - The JWT token
@@ -1,3 +1,8 @@
+export interface StoredFile {
+  path: string;
+  lastModified: Date;
+}
+
 export interface IFileStorageService {
   /**
    * Upload a file to the storage service
@@ -28,4 +33,18 @@ export interface IFileStorageService {
    * @returns Promise resolving to true if the file exists, false otherwise
    */
   fileExists(path: string): Promise<boolean>;
+
+  /**
+   * List the files stored under a path prefix
+   * @param prefix - The path prefix to list, e.g. 'items/'
+   * @returns Promise resolving to the path and last modification time of each file
+   */
+  listFiles(prefix: string): Promise<StoredFile[]>;
+
+  /**
+   * Get the storage path behind a public URL returned by this service
+   * @param url - The public URL of a file
+   * @returns The path of the file, or null if the URL doesn't point into this storage
+   */
+  getPathFromUrl(url: string): string | null;
 }
\ No newline at end of file
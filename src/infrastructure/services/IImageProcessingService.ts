@@ -0,0 +1,39 @@
+import { ItemImageVariant } from '../../domain/item/value-objects/ItemImage';
+
+export interface ProcessedImageVariant {
+  variant: ItemImageVariant;
+  buffer: Buffer;
+  contentType: string;
+  extension: string;
+  width: number;
+  height: number;
+}
+
+export interface ProcessedImage {
+  variants: ProcessedImageVariant[];
+}
+
+/**
+ * Thrown for an upload that isn't a readable image, whatever its MIME type
+ * claimed. Carries a status code so controllers answer with a client error.
+ */
+export class InvalidImageError extends Error {
+  readonly statusCode = 400;
+  readonly code = 'INVALID_IMAGE';
+
+  constructor(message: string = 'The uploaded file is not a valid image') {
+    super(message);
+    this.name = 'InvalidImageError';
+  }
+}
+
+export interface IImageProcessingService {
+  /**
+   * Decode an uploaded photo and produce the sizes served to clients
+   * @param file - The uploaded file contents
+   * @returns Promise resolving to one re-encoded image per variant, oriented upright
+   *   and without the original's EXIF data (which can include GPS coordinates)
+   * @throws InvalidImageError if the file is corrupt or not a supported image format
+   */
+  processImage(file: Buffer): Promise<ProcessedImage>;
+}
@@ -161,6 +161,11 @@ export class Auth0AuthenticationService implements IAuthenticationService {
     // Token revocation would be handled by Auth0's infrastructure
   }
 
+  async revokeAllTokens(userId: string): Promise<void> {
+    // Auth0 owns the sessions; they're ended through its dashboard or Management API
+    throw new Error('Signing out of all devices is not supported with Auth0');
+  }
+
   async getUserFromToken(token: string): Promise<AuthResult> {
     return this.authenticate(token);
   }
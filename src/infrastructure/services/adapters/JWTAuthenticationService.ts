@@ -1,6 +1,8 @@
 import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
 import { hash, compare } from 'bcrypt';
 import { AuthResult, IAuthenticationService, TokenPair } from '../IAuthenticationService';
+import { IAuthTokenRepository } from '../../repositories/IAuthTokenRepository';
 
 export interface JWTConfig {
   jwtSecret: string;
@@ -11,10 +13,17 @@ export interface JWTConfig {
   clockToleranceSec?: number;
 }
 
+/**
+ * Custom JWT auth. Tokens carry a jti and the id of their refresh-token
+ * family, so a session can be ended server-side before the tokens expire.
+ */
 export class JWTAuthenticationService implements IAuthenticationService {
   private readonly SALT_ROUNDS = 10;
 
-  constructor(private config: JWTConfig) {}
+  constructor(
+    private config: JWTConfig,
+    private readonly tokenRepository: IAuthTokenRepository
+  ) {}
 
   async hashPassword(password: string): Promise<string> {
     return hash(password, this.SALT_ROUNDS);
@@ -27,7 +36,10 @@ export class JWTAuthenticationService implements IAuthenticationService {
   async authenticate(token: string): Promise<AuthResult> {
     try {
       const decoded = this.verifyAccessToken(token);
-      
+      if (await this.tokenRepository.isAccessTokenRevoked(decoded.jti, decoded.fid)) {
+        throw new Error('Token has been revoked');
+      }
+
       return {
         userId: decoded.userId,
         email: decoded.email,
@@ -40,42 +52,87 @@ export class JWTAuthenticationService implements IAuthenticationService {
   }
 
   async generateToken(userId: string, email: string, roles?: string[]): Promise<TokenPair> {
-    const payload = { userId, email, roles, type: 'access' };
-    const signOptions: jwt.SignOptions = {
-      expiresIn: this.config.jwtExpiresIn as jwt.SignOptions['expiresIn'],
-      algorithm: 'HS256'
-    };
-    if (this.config.jwtIssuer) {
-      signOptions.issuer = this.config.jwtIssuer as jwt.SignOptions['issuer'];
+    // Each login starts a new family, so its devices can be signed out separately
+    return this.issueTokens(userId, email, roles, randomUUID());
+  }
+
+  async refreshToken(refreshToken: string): Promise<TokenPair> {
+    let decoded: any;
+    try {
+      decoded = this.verifyRefreshToken(refreshToken);
+    } catch (error) {
+      throw new Error('Invalid or expired refresh token');
     }
-    if (this.config.jwtAudience) {
-      signOptions.audience = this.config.jwtAudience as jwt.SignOptions['audience'];
+
+    const record = await this.tokenRepository.findRefreshToken(decoded.jti);
+    if (!record || record.familyId !== decoded.fid || record.familyRevokedAt) {
+      throw new Error('Invalid or expired refresh token');
+    }
+
+    // A refresh token works once. Seeing it again means it was copied, and
+    // since we can't tell which holder is legitimate the whole family goes.
+    if (!await this.tokenRepository.markRefreshTokenUsed(record.id)) {
+      await this.tokenRepository.revokeFamily(record.familyId);
+      console.warn(`Refresh token reuse detected for user ${record.userId}; revoked token family ${record.familyId}`);
+      throw new Error('Invalid or expired refresh token');
+    }
+
+    return this.issueTokens(decoded.userId, decoded.email, decoded.roles, record.familyId);
+  }
+
+  async validateToken(token: string): Promise<boolean> {
+    try {
+      await this.authenticate(token);
+      return true;
+    } catch (error) {
+      return false;
     }
+  }
+
+  async revokeToken(token: string): Promise<void> {
+    const decoded = this.verifyAccessToken(token);
+
+    // The denylist covers the access token until it expires; revoking the
+    // family stops its refresh token from minting new ones
+    await this.tokenRepository.denyAccessToken(decoded.jti, decoded.userId, new Date(decoded.exp * 1000));
+    await this.tokenRepository.revokeFamily(decoded.fid);
+  }
+
+  async revokeAllTokens(userId: string): Promise<void> {
+    await this.tokenRepository.revokeAllFamilies(userId);
+  }
+
+  async getUserFromToken(token: string): Promise<AuthResult> {
+    return this.authenticate(token);
+  }
 
+  private async issueTokens(
+    userId: string,
+    email: string,
+    roles: string[] | undefined,
+    familyId: string
+  ): Promise<TokenPair> {
     const accessToken = jwt.sign(
-      payload,
+      { userId, email, roles, fid: familyId, type: 'access' },
       this.config.jwtSecret,
-      signOptions
+      this.buildSignOptions(this.config.jwtExpiresIn, randomUUID())
     );
 
-    const refreshPayload = { userId, email, type: 'refresh' };
-    const refreshOptions: jwt.SignOptions = {
-      expiresIn: this.config.refreshTokenExpiresIn as jwt.SignOptions['expiresIn'],
-      algorithm: 'HS256'
-    };
-    if (this.config.jwtIssuer) {
-      refreshOptions.issuer = this.config.jwtIssuer as jwt.SignOptions['issuer'];
-    }
-    if (this.config.jwtAudience) {
-      refreshOptions.audience = this.config.jwtAudience as jwt.SignOptions['audience'];
-    }
-
+    const refreshTokenId = randomUUID();
     const refreshToken = jwt.sign(
-      refreshPayload,
+      { userId, email, roles, fid: familyId, type: 'refresh' },
       this.config.jwtSecret,
-      refreshOptions
+      this.buildSignOptions(this.config.refreshTokenExpiresIn, refreshTokenId)
     );
 
+    const refreshExpiresAt = new Date((jwt.decode(refreshToken) as jwt.JwtPayload).exp! * 1000);
+    await this.tokenRepository.saveRefreshToken({
+      id: refreshTokenId,
+      familyId,
+      userId,
+      expiresAt: refreshExpiresAt
+    });
+
     // Parse expiration time to seconds
     const expiresIn = this.parseExpirationTime(this.config.jwtExpiresIn);
 
@@ -86,32 +143,20 @@ export class JWTAuthenticationService implements IAuthenticationService {
     };
   }
 
-  async refreshToken(refreshToken: string): Promise<TokenPair> {
-    try {
-      const decoded = this.verifyRefreshToken(refreshToken);
-      return this.generateToken(decoded.userId, decoded.email, decoded.roles);
-    } catch (error) {
-      throw new Error('Invalid or expired refresh token');
+  private buildSignOptions(expiresIn: string, jwtid: string): jwt.SignOptions {
+    const options: jwt.SignOptions = {
+      expiresIn: expiresIn as jwt.SignOptions['expiresIn'],
+      algorithm: 'HS256',
+      jwtid
+    };
+    if (this.config.jwtIssuer) {
+      options.issuer = this.config.jwtIssuer as jwt.SignOptions['issuer'];
     }
-  }
-
-  async validateToken(token: string): Promise<boolean> {
-    try {
-      this.verifyAccessToken(token);
-      return true;
-    } catch (error) {
-      return false;
+    if (this.config.jwtAudience) {
+      options.audience = this.config.jwtAudience as jwt.SignOptions['audience'];
     }
-  }
-
-  async revokeToken(token: string): Promise<void> {
-    // In a production system, you would store revoked tokens in Redis or a database
-    // For now, this is a no-op since JWT tokens are stateless
-    // Consider implementing a token blacklist if needed
-  }
 
-  async getUserFromToken(token: string): Promise<AuthResult> {
-    return this.authenticate(token);
+    return options;
   }
 
   private parseExpirationTime(expiresIn: string): number {
@@ -159,6 +204,10 @@ export class JWTAuthenticationService implements IAuthenticationService {
     if (decoded.type && decoded.type !== 'access') {
       throw new Error('Invalid token type');
     }
+    // Tokens from before revocation was tracked can't be revoked, so they're refused
+    if (!decoded.jti || !decoded.fid) {
+      throw new Error('Invalid token');
+    }
 
     return decoded;
   }
@@ -166,7 +215,7 @@ export class JWTAuthenticationService implements IAuthenticationService {
   private verifyRefreshToken(token: string): any {
     const decoded = jwt.verify(token, this.config.jwtSecret, this.buildVerifyOptions()) as any;
 
-    if (decoded.type !== 'refresh') {
+    if (decoded.type !== 'refresh' || !decoded.jti || !decoded.fid) {
       throw new Error('Invalid refresh token');
     }
 
@@ -1,6 +1,6 @@
 import * as fs from "fs/promises";
 import * as path from "path";
-import { IFileStorageService } from "../IFileStorageService";
+import { IFileStorageService, StoredFile } from "../IFileStorageService";
 
 export interface LocalStorageConfig {
   uploadDirectory: string;
@@ -47,7 +47,7 @@ export class LocalFileStorageService implements IFileStorageService {
 
   async deleteFile(filePath: string): Promise<void> {
     try {
-      const fullPath = path.join(this.config.uploadDirectory, filePath);
+      const fullPath = path.join(this.config.uploadDirectory, this.normalizeRel(filePath));
       await fs.unlink(fullPath);
     } catch (error) {
       // If file doesn't exist, consider it successfully deleted
@@ -76,6 +76,44 @@ export class LocalFileStorageService implements IFileStorageService {
     }
   }
 
+  async listFiles(prefix: string): Promise<StoredFile[]> {
+    const files: StoredFile[] = [];
+    await this.collectFiles(this.normalizeRel(prefix).replace(/\/+$/, ""), files);
+    return files;
+  }
+
+  getPathFromUrl(url: string): string | null {
+    const prefix = this.buildPublicUrl("");
+    return url.startsWith(prefix) && url.length > prefix.length
+      ? url.substring(prefix.length)
+      : null;
+  }
+
+  private async collectFiles(rel: string, files: StoredFile[]): Promise<void> {
+    let entries;
+    try {
+      entries = await fs.readdir(path.join(this.config.uploadDirectory, rel), {
+        withFileTypes: true,
+      });
+    } catch (error) {
+      // Nothing has been uploaded under this prefix yet
+      if ((error as any)?.code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const entryRel = rel ? `${rel}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        await this.collectFiles(entryRel, files);
+      } else if (entry.isFile()) {
+        const stats = await fs.stat(path.join(this.config.uploadDirectory, entryRel));
+        files.push({ path: entryRel, lastModified: stats.mtime });
+      }
+    }
+  }
+
   private getPublicUrl(filePath: string): string {
     // Normalize path separators for URLs
     const normalizedPath = filePath.replace(/\\/g, "/");
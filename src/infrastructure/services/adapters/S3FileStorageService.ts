@@ -1,5 +1,5 @@
-import { S3Client, PutObjectCommand, DeleteObjectCommand, HeadObjectCommand } from '@aws-sdk/client-s3';
-import { IFileStorageService } from '../IFileStorageService';
+import { S3Client, PutObjectCommand, DeleteObjectCommand, HeadObjectCommand, ListObjectsV2Command } from '@aws-sdk/client-s3';
+import { IFileStorageService, StoredFile } from '../IFileStorageService';
 
 export interface S3Config {
   region: string;
@@ -76,6 +76,37 @@ export class S3FileStorageService implements IFileStorageService {
     }
   }
 
+  async listFiles(prefix: string): Promise<StoredFile[]> {
+    const files: StoredFile[] = [];
+    let continuationToken: string | undefined;
+
+    try {
+      do {
+        const response = await this.s3Client.send(new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }));
+
+        for (const object of response.Contents ?? []) {
+          if (object.Key) {
+            files.push({ path: object.Key, lastModified: object.LastModified ?? new Date(0) });
+          }
+        }
+        continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+      } while (continuationToken);
+    } catch (error) {
+      throw new Error(`Failed to list files in S3: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return files;
+  }
+
+  getPathFromUrl(url: string): string | null {
+    const prefix = this.getPublicUrl('');
+    return url.startsWith(prefix) && url.length > prefix.length ? url.substring(prefix.length) : null;
+  }
+
   private getPublicUrl(path: string): string {
     if (this.config.endpoint) {
       // For S3-compatible services
@@ -0,0 +1,75 @@
+import sharp from 'sharp';
+import { ItemImageVariant } from '../../../domain/item/value-objects/ItemImage';
+import { IImageProcessingService, InvalidImageError, ProcessedImage, ProcessedImageVariant } from '../IImageProcessingService';
+
+export interface SharpImageProcessingConfig {
+  widths: Record<ItemImageVariant, number>; // Longest side of each variant, in pixels
+  quality: number; // WebP quality, 1-100
+  maxInputPixels: number; // Guards against decompression bombs
+}
+
+const DEFAULT_CONFIG: SharpImageProcessingConfig = {
+  widths: { thumbnail: 320, medium: 800, full: 1600 },
+  quality: 80,
+  maxInputPixels: 50_000_000
+};
+
+// Formats decoded by the bundled libvips that phones and cameras produce
+const ACCEPTED_FORMATS = new Set(['jpeg', 'png', 'webp', 'gif', 'avif', 'heif', 'tiff']);
+
+export class SharpImageProcessingService implements IImageProcessingService {
+  private readonly config: SharpImageProcessingConfig;
+
+  constructor(config: Partial<SharpImageProcessingConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  async processImage(file: Buffer): Promise<ProcessedImage> {
+    // Detect the format from the file's contents, not the client's MIME type
+    let format: string | undefined;
+    try {
+      const metadata = await this.open(file).metadata();
+      format = metadata.format;
+    } catch {
+      throw new InvalidImageError();
+    }
+    if (!format || !ACCEPTED_FORMATS.has(format)) {
+      throw new InvalidImageError(`Unsupported image format${format ? `: ${format}` : ''}`);
+    }
+
+    const variants: ProcessedImageVariant[] = [];
+    for (const [variant, width] of Object.entries(this.config.widths) as Array<[ItemImageVariant, number]>) {
+      variants.push(await this.resize(file, variant, width));
+    }
+
+    return { variants };
+  }
+
+  private async resize(file: Buffer, variant: ItemImageVariant, size: number): Promise<ProcessedImageVariant> {
+    try {
+      // rotate() applies the EXIF orientation; metadata isn't copied to the output
+      const { data, info } = await this.open(file)
+        .rotate()
+        .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: this.config.quality })
+        .toBuffer({ resolveWithObject: true });
+
+      return {
+        variant,
+        buffer: data,
+        contentType: 'image/webp',
+        extension: 'webp',
+        width: info.width,
+        height: info.height
+      };
+    } catch {
+      // Truncated or corrupt image data only shows up once decoding starts
+      throw new InvalidImageError();
+    }
+  }
+
+  private open(file: Buffer): sharp.Sharp {
+    // Only the first frame of animated images is kept
+    return sharp(file, { failOn: 'error', limitInputPixels: this.config.maxInputPixels });
+  }
+}
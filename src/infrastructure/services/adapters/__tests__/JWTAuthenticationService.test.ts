@@ -0,0 +1,131 @@
+import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
+import { JWTAuthenticationService } from '../JWTAuthenticationService';
+import { IAuthTokenRepository, RefreshTokenRecord } from '../../../repositories/IAuthTokenRepository';
+
+const SECRET = 'test-secret-that-is-long-enough-for-hs256';
+
+// Keeps the same state as the PostgreSQL repository, in memory
+class InMemoryAuthTokenRepository implements IAuthTokenRepository {
+  refreshTokens = new Map<string, RefreshTokenRecord>();
+  revokedFamilies = new Set<string>();
+  deniedAccessTokens = new Set<string>();
+
+  async saveRefreshToken(token: Omit<RefreshTokenRecord, 'usedAt' | 'familyRevokedAt'>): Promise<void> {
+    this.refreshTokens.set(token.id, { ...token });
+  }
+
+  async findRefreshToken(id: string): Promise<RefreshTokenRecord | null> {
+    const token = this.refreshTokens.get(id);
+    if (!token) {
+      return null;
+    }
+    return { ...token, familyRevokedAt: this.revokedFamilies.has(token.familyId) ? new Date() : undefined };
+  }
+
+  async markRefreshTokenUsed(id: string): Promise<boolean> {
+    const token = this.refreshTokens.get(id);
+    if (!token || token.usedAt) {
+      return false;
+    }
+    token.usedAt = new Date();
+    return true;
+  }
+
+  async revokeFamily(familyId: string): Promise<void> {
+    this.revokedFamilies.add(familyId);
+  }
+
+  async revokeAllFamilies(userId: string): Promise<void> {
+    for (const token of this.refreshTokens.values()) {
+      if (token.userId === userId) {
+        this.revokedFamilies.add(token.familyId);
+      }
+    }
+  }
+
+  async denyAccessToken(jti: string): Promise<void> {
+    this.deniedAccessTokens.add(jti);
+  }
+
+  async isAccessTokenRevoked(jti: string, familyId: string): Promise<boolean> {
+    return this.deniedAccessTokens.has(jti) || this.revokedFamilies.has(familyId);
+  }
+
+  async deleteExpired(): Promise<number> {
+    return 0;
+  }
+}
+
+describe('JWTAuthenticationService', () => {
+  const userId = randomUUID();
+  let tokenRepository: InMemoryAuthTokenRepository;
+  let service: JWTAuthenticationService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    tokenRepository = new InMemoryAuthTokenRepository();
+    service = new JWTAuthenticationService(
+      { jwtSecret: SECRET, jwtExpiresIn: '15m', refreshTokenExpiresIn: '7d' },
+      tokenRepository
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('rotates refresh tokens within the login family', async () => {
+    const login = await service.generateToken(userId, 'alex@example.com');
+    const rotated = await service.refreshToken(login.refreshToken);
+
+    expect(rotated.refreshToken).not.toBe(login.refreshToken);
+    expect((jwt.decode(rotated.accessToken) as jwt.JwtPayload).fid)
+      .toBe((jwt.decode(login.accessToken) as jwt.JwtPayload).fid);
+    await expect(service.authenticate(rotated.accessToken)).resolves.toMatchObject({ userId });
+
+    // A second rotation from the newest token keeps working
+    await expect(service.refreshToken(rotated.refreshToken)).resolves.toBeDefined();
+  });
+
+  it('revokes the whole family when a used refresh token comes back', async () => {
+    const login = await service.generateToken(userId, 'alex@example.com');
+    const rotated = await service.refreshToken(login.refreshToken);
+
+    await expect(service.refreshToken(login.refreshToken)).rejects.toThrow('Invalid or expired refresh token');
+
+    // The legitimate holder's newer tokens go with it
+    await expect(service.refreshToken(rotated.refreshToken)).rejects.toThrow();
+    await expect(service.authenticate(rotated.accessToken)).rejects.toThrow();
+  });
+
+  it('ends only the current session on logout', async () => {
+    const laptop = await service.generateToken(userId, 'alex@example.com');
+    const phone = await service.generateToken(userId, 'alex@example.com');
+
+    await service.revokeToken(laptop.accessToken);
+
+    await expect(service.authenticate(laptop.accessToken)).rejects.toThrow();
+    await expect(service.refreshToken(laptop.refreshToken)).rejects.toThrow();
+    await expect(service.authenticate(phone.accessToken)).resolves.toMatchObject({ userId });
+  });
+
+  it('signs out of all devices', async () => {
+    const laptop = await service.generateToken(userId, 'alex@example.com');
+    const phone = await service.generateToken(userId, 'alex@example.com');
+
+    await service.revokeAllTokens(userId);
+
+    for (const session of [laptop, phone]) {
+      await expect(service.authenticate(session.accessToken)).rejects.toThrow();
+      await expect(service.refreshToken(session.refreshToken)).rejects.toThrow();
+    }
+  });
+
+  it('refuses tokens that were issued without a jti', async () => {
+    const legacy = jwt.sign({ userId, email: 'alex@example.com', type: 'access' }, SECRET, { expiresIn: '15m' });
+
+    await expect(service.authenticate(legacy)).rejects.toThrow('Invalid or expired token');
+  });
+});
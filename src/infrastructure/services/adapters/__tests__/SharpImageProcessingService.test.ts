@@ -0,0 +1,54 @@
+import sharp from 'sharp';
+import { SharpImageProcessingService } from '../SharpImageProcessingService';
+import { InvalidImageError } from '../../IImageProcessingService';
+
+// A landscape photo stored sideways, tagged to be shown rotated, with a GPS position
+const buildPhoto = (): Promise<Buffer> =>
+  sharp({ create: { width: 2400, height: 1200, channels: 3, background: { r: 120, g: 160, b: 90 } } })
+    .jpeg()
+    .withMetadata({
+      orientation: 6,
+      exif: { IFD3: { GPSLatitudeRef: 'N', GPSLatitude: '40/1 42/1 46/1', GPSLongitudeRef: 'W', GPSLongitude: '74/1 0/1 21/1' } }
+    })
+    .toBuffer();
+
+describe('SharpImageProcessingService', () => {
+  const service = new SharpImageProcessingService();
+
+  it('produces upright WebP variants without the original metadata', async () => {
+    const photo = await buildPhoto();
+    expect((await sharp(photo).metadata()).exif).toBeDefined();
+
+    const { variants } = await service.processImage(photo);
+
+    expect(variants.map(variant => [variant.variant, variant.width, variant.height])).toEqual([
+      ['thumbnail', 160, 320],
+      ['medium', 400, 800],
+      ['full', 800, 1600]
+    ]);
+    for (const variant of variants) {
+      const metadata = await sharp(variant.buffer).metadata();
+      expect(metadata.format).toBe('webp');
+      expect(metadata.exif).toBeUndefined();
+      expect(metadata.orientation).toBeUndefined();
+    }
+  });
+
+  it('never enlarges small images', async () => {
+    const small = await sharp({ create: { width: 200, height: 150, channels: 3, background: '#ffffff' } }).png().toBuffer();
+
+    const { variants } = await service.processImage(small);
+
+    expect(variants.map(variant => variant.width)).toEqual([200, 200, 200]);
+  });
+
+  it('rejects files that are not images whatever their name or type claims', async () => {
+    await expect(service.processImage(Buffer.from('%PDF-1.7 not a photo'))).rejects.toThrow(InvalidImageError);
+  });
+
+  it('rejects truncated image data', async () => {
+    const photo = await buildPhoto();
+
+    await expect(service.processImage(photo.subarray(0, Math.floor(photo.length / 2)))).rejects.toThrow(InvalidImageError);
+  });
+});
@@ -4,6 +4,7 @@ export * from './IAuthenticationService';
 export * from './IAIService';
 export * from './IMapsService';
 export * from './INotificationService';
+export * from './IImageProcessingService';
 
 // File Storage Adapters
 export * from './adapters/S3FileStorageService';
@@ -19,4 +20,7 @@ export * from './adapters/OpenAIService';
 export * from './adapters/GoogleMapsService';
 
 // Notification Service Adapters
-export * from './adapters/SendGridNotificationService';
\ No newline at end of file
+export * from './adapters/SendGridNotificationService';
+
+// Image Processing Adapters
+export * from './adapters/SharpImageProcessingService';
\ No newline at end of file